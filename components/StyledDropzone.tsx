@@ -26,6 +26,13 @@ import UploadedFilePreview from './UploadedFilePreview';
 
 export const DROPZONE_ACCEPT_IMAGES = { 'image/*': ['.jpeg', '.png'] };
 export const DROPZONE_ACCEPT_CSV = { 'text/csv': ['.csv'] };
+export const DROPZONE_ACCEPT_XLSX = { 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'] };
+export const DROPZONE_ACCEPT_BANK_STATEMENTS = {
+  'application/x-ofx': ['.ofx'],
+  'application/vnd.intu.qfx': ['.qfx'],
+  'application/xml': ['.xml'],
+  'text/plain': ['.sta', '.mt940', '.940', '.txt'],
+};
 export const DROPZONE_ACCEPT_PDF = { 'application/pdf': ['.pdf'] };
 export const DROPZONE_ACCEPT_ALL = { ...DROPZONE_ACCEPT_IMAGES, ...DROPZONE_ACCEPT_PDF };
 
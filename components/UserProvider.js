@@ -82,6 +82,8 @@ class UserProvider extends React.Component {
 
   logout = async ({ redirect, skipQueryRefetch } = {}) => {
     auth.logout();
+    // The expense drafts saved on this device must not be available to the next user
+    removeFromLocalStorage(LOCAL_STORAGE_KEYS.EXPENSE_FORM_DRAFTS);
 
     this.setState({ LoggedInUser: null, errorLoggedInUser: null });
     // Clear the Apollo store without automatically refetching queries
@@ -0,0 +1,88 @@
+import React from 'react';
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+
+import { withRequiredProviders } from '../../test/providers';
+
+import { DataTable } from '../table/DataTable';
+import { Checkbox } from '../ui/Checkbox';
+
+global.IS_REACT_ACT_ENVIRONMENT = true;
+
+const rows = [
+  { id: '1', name: 'First' },
+  { id: '2', name: 'Second' },
+];
+
+const nameColumn = { accessorKey: 'name', header: 'Name' };
+
+// Like the tables that manage their own selection (e.g. transactions imports)
+const customSelectColumn = {
+  id: 'custom-select',
+  header: 'Selected',
+  cell: ({ row }) => (
+    <Checkbox checked={row.getIsSelected()} onCheckedChange={value => row.toggleSelected(Boolean(value))} />
+  ),
+};
+
+describe('DataTable', () => {
+  let container, root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  const render = props =>
+    act(() => root.render(withRequiredProviders(<DataTable columns={[nameColumn]} {...props} />)));
+  const getCheckboxes = () => [...container.querySelectorAll('button[role="checkbox"]')];
+  const click = element => act(() => element.dispatchEvent(new window.MouseEvent('click', { bubbles: true })));
+
+  it('keeps the row selection of tables without bulk actions', () => {
+    render({ columns: [customSelectColumn, nameColumn], data: rows.map(row => ({ ...row })) });
+    click(getCheckboxes()[0]);
+    expect(getCheckboxes()[0].getAttribute('aria-checked')).toBe('true');
+
+    // Rendering with a new array (e.g. mapped inline) doesn't reset the selection
+    render({ columns: [customSelectColumn, nameColumn], data: rows.map(row => ({ ...row })) });
+    expect(getCheckboxes()[0].getAttribute('aria-checked')).toBe('true');
+  });
+
+  it('displays the bulk actions for the selected rows', () => {
+    const perform = jest.fn();
+    const getBulkActions = jest.fn(() => [{ key: 'archive', label: 'Archive', perform }]);
+    render({ data: rows, getBulkActions });
+    expect(getCheckboxes()).toHaveLength(3); // Select all + one per row
+    expect(container.textContent).not.toContain('selected');
+
+    click(getCheckboxes()[1]);
+    expect(container.textContent).toContain('1 selected');
+    expect(container.textContent).toContain('Archive');
+    expect(getBulkActions).toHaveBeenLastCalledWith([rows[0]]);
+
+    click(getCheckboxes()[0]);
+    expect(container.textContent).toContain('2 selected');
+    expect(getBulkActions).toHaveBeenLastCalledWith(rows);
+  });
+
+  it('resets the selection when the rows of a table with bulk actions change', () => {
+    const getBulkActions = () => [{ key: 'archive', label: 'Archive', perform: jest.fn() }];
+    render({ data: rows, getBulkActions });
+    click(getCheckboxes()[1]);
+    expect(container.textContent).toContain('1 selected');
+
+    render({ data: [...rows], getBulkActions });
+    expect(container.textContent).not.toContain('selected');
+  });
+
+  it('includes the selection column in the empty state', () => {
+    render({ data: [], getBulkActions: () => [] });
+    expect(container.querySelector('tbody td').getAttribute('colspan')).toBe('2');
+  });
+});
@@ -0,0 +1,94 @@
+import React from 'react';
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+
+import { withRequiredProviders } from '../../test/providers';
+
+import ExpensesList from '../expenses/ExpensesList';
+import { getSelectAllCheckedState } from '../table/BulkActions';
+
+global.IS_REACT_ACT_ENVIRONMENT = true;
+
+jest.mock('../budget/ExpenseBudgetItem', () => ({
+  __esModule: true,
+  default: ({ expense }) => <div>{expense?.description}</div>,
+}));
+
+// Loads the whole expense page
+jest.mock('../expenses/ExpenseDrawer', () => ({ __esModule: true, default: () => null }));
+
+const expenses = [
+  { id: '1', legacyId: 1, description: 'First', status: 'PENDING', amount: 1000 },
+  { id: '2', legacyId: 2, description: 'Second', status: 'PENDING', amount: 2000 },
+];
+
+describe('getSelectAllCheckedState', () => {
+  it('is never checked without values', () => {
+    expect(getSelectAllCheckedState(0, 0)).toBe(false);
+  });
+
+  it('reflects the selection', () => {
+    expect(getSelectAllCheckedState(0, 2)).toBe(false);
+    expect(getSelectAllCheckedState(1, 2)).toBe('indeterminate');
+    expect(getSelectAllCheckedState(2, 2)).toBe(true);
+  });
+});
+
+describe('ExpensesList', () => {
+  let container, root;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  const getBulkActions = jest.fn(() => [{ key: 'approve', label: 'Approve', perform: jest.fn() }]);
+  const render = props =>
+    act(() =>
+      root.render(withRequiredProviders(<ExpensesList view="admin" getBulkActions={getBulkActions} {...props} />)),
+    );
+  const getSelectAll = () => container.querySelector('[data-cy="select-all-expenses"]');
+  const getRowCheckboxes = () => [...container.querySelectorAll('[data-cy="select-expense"]')];
+  const click = element => act(() => element.dispatchEvent(new window.MouseEvent('click', { bubbles: true })));
+
+  it('selects the expenses to run the bulk actions on', () => {
+    render({ expenses });
+    expect(getSelectAll().getAttribute('aria-checked')).toBe('false');
+
+    click(getRowCheckboxes()[0]);
+    expect(getSelectAll().getAttribute('aria-checked')).toBe('mixed');
+    expect(container.textContent).toContain('1 selected');
+    expect(getBulkActions).toHaveBeenLastCalledWith([expenses[0]]);
+
+    click(getSelectAll());
+    expect(container.textContent).toContain('2 selected');
+    expect(getBulkActions).toHaveBeenLastCalledWith(expenses);
+  });
+
+  it('resets the selection when the expenses change, but not when the same ones are rendered again', () => {
+    render({ expenses });
+    click(getRowCheckboxes()[0]);
+    render({ expenses: expenses.map(expense => ({ ...expense })) });
+    expect(container.textContent).toContain('1 selected');
+
+    render({ expenses: [expenses[1]] });
+    expect(container.textContent).not.toContain('selected');
+  });
+
+  it('offers to select all the matching expenses', () => {
+    render({ expenses, totalCount: 10, fetchAllMatchingExpenses: jest.fn() });
+    click(getSelectAll());
+    const selectAllMatching = [...container.querySelectorAll('button')].find(button =>
+      button.textContent.includes('10'),
+    );
+
+    click(selectAllMatching);
+    expect(container.textContent).toContain('10 selected');
+  });
+});
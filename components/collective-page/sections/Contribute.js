@@ -10,6 +10,7 @@ import { CollectiveType } from '../../../lib/constants/collectives';
 import { TierTypes } from '../../../lib/constants/tiers-types';
 import { getErrorFromGraphqlException } from '../../../lib/errors';
 import { isPastEvent } from '../../../lib/events';
+import { getContributionCardsOrderWithExperiments } from '../../../lib/experiments/contribution-flow-experiments';
 import { API_V2_CONTEXT } from '../../../lib/graphql/helpers';
 import { getCollectiveContributionCardsOrder, TIERS_ORDER_KEY } from '../../../lib/tier-utils';
 import { getCollectivePageRoute, getDashboardRoute } from '../../../lib/url-helpers';
@@ -27,6 +28,7 @@ import Link from '../../Link';
 import StyledButton from '../../StyledButton';
 import StyledSpinner from '../../StyledSpinner';
 import { H3, P } from '../../Text';
+import { withUser } from '../../UserProvider';
 import ContainerSectionContent from '../ContainerSectionContent';
 import ContributeCardsContainer from '../ContributeCardsContainer';
 import { editAccountSettingMutation } from '../graphql/mutations';
@@ -83,14 +85,36 @@ class SectionContribute extends React.PureComponent {
     ),
     isAdmin: PropTypes.bool,
     editAccountSettings: PropTypes.func.isRequired,
+    LoggedInUser: PropTypes.object,
   };
 
   state = {
     showTiersAdmin: false,
     isSaving: false,
     draggingId: null,
+    experimentCardsOrder: null,
   };
 
+  componentDidMount() {
+    this.loadCardsOrderExperiment();
+  }
+
+  componentDidUpdate(prevProps) {
+    if (prevProps.LoggedInUser !== this.props.LoggedInUser || prevProps.collective !== this.props.collective) {
+      this.loadCardsOrderExperiment();
+    }
+  }
+
+  /** Collectives can experiment with the order of their tiers. Admins always see the saved order. */
+  loadCardsOrderExperiment() {
+    const { collective, isAdmin, LoggedInUser } = this.props;
+    const defaultOrder = getCollectiveContributionCardsOrder(collective);
+    const order = isAdmin
+      ? defaultOrder
+      : getContributionCardsOrderWithExperiments(collective, defaultOrder, LoggedInUser);
+    this.setState({ experimentCardsOrder: order === defaultOrder ? null : order });
+  }
+
   onTiersAdminReady = () => {
     this.setState({ showTiersAdmin: true });
   };
@@ -198,7 +222,7 @@ class SectionContribute extends React.PureComponent {
     const isActive = collective.isActive;
     const hasHost = collective.host;
     const isHost = collective.isHost;
-    const orderKeys = getCollectiveContributionCardsOrder(collective);
+    const orderKeys = this.state.experimentCardsOrder || getCollectiveContributionCardsOrder(collective);
     const contributeCards = this.getContributeCards(tiers);
     const sortedContributeCards = this.sortContributeCards(contributeCards, orderKeys);
     const hasContribute = Boolean(isAdmin || (collective.isActive && contributeCards.length));
@@ -351,4 +375,4 @@ const addEditAccountSettingMutation = graphql(editAccountSettingMutation, {
   options: { context: API_V2_CONTEXT },
 });
 
-export default addEditAccountSettingMutation(SectionContribute);
+export default withUser(addEditAccountSettingMutation(SectionContribute));
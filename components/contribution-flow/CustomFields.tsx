@@ -1,7 +1,22 @@
 import React from 'react';
 import { get, merge, pick } from 'lodash';
-import type { HTMLInputTypeAttribute } from 'react';
-import { useIntl } from 'react-intl';
+import type { IntlShape } from 'react-intl';
+import { defineMessages, useIntl } from 'react-intl';
+
+import type {
+  FieldAttributes,
+  FieldsConfig,
+  HTMLInputFieldAttributes,
+  InputFieldAttributes,
+  SelectFieldAttributes,
+} from '../../lib/custom-fields';
+import {
+  CustomFieldErrorType,
+  getCustomFieldError,
+  getVisibleCustomFields,
+  isCustomFieldRequired,
+  removeHiddenCustomFieldsData,
+} from '../../lib/custom-fields';
 
 import StyledHr from '../StyledHr';
 import StyledInput from '../StyledInput';
@@ -9,46 +24,6 @@ import StyledInputField from '../StyledInputField';
 import StyledSelect from '../StyledSelect';
 import StyledTextarea from '../StyledTextarea';
 
-type CommonFieldAttributes = {
-  name: string;
-  label: string;
-  placeholder?: string;
-  required?: boolean;
-  disabled?: boolean;
-  useRequiredLabel?: boolean;
-  hideOptionalLabel?: boolean;
-  hint?: string;
-  helpText?: string;
-  isPrivate?: boolean;
-};
-
-type SelectFieldAttributes = CommonFieldAttributes & {
-  type: 'select';
-  options: { value: string; label: string }[];
-  settings?: { isMulti?: boolean };
-};
-
-type TextareaFieldAttributes = CommonFieldAttributes & {
-  type: 'textarea';
-};
-
-type HTMLInputFieldAttributes = CommonFieldAttributes & {
-  type: HTMLInputTypeAttribute;
-  pattern?: string;
-};
-
-type InputFieldAttributes = SelectFieldAttributes | TextareaFieldAttributes | HTMLInputFieldAttributes;
-
-type FieldAttributes = InputFieldAttributes | { type: 'separator' };
-
-type FieldsConfig = {
-  fields: FieldAttributes[];
-  translations?: Record<
-    string, // The locale
-    Record<string, string> // An object like { originalString: 'Translated string' }
-  >;
-};
-
 type CustomFieldsProps = {
   data: Record<string, any>;
   onChange: (data: Record<string, any>) => void;
@@ -82,6 +57,37 @@ export const buildCustomFieldsConfig = (
   return merge({}, ...fieldsConfig.map(normalizeConfig));
 };
 
+/**
+ * The fields of the contribution flow, defined by the tier and the host.
+ */
+export const getContributionFlowCustomFieldsConfig = (
+  collective: { host?: { settings?: Record<string, any> } },
+  tier: { customFields?: FieldsConfig | FieldAttributes[] } | null,
+): FieldsConfig => {
+  return buildCustomFieldsConfig(tier?.customFields, collective.host?.settings?.contributionFlow?.customFields);
+};
+
+const errorMessages = defineMessages({
+  [CustomFieldErrorType.PATTERN]: { defaultMessage: 'Invalid format', id: 'akLsfr' },
+  [CustomFieldErrorType.MIN_LENGTH]: { defaultMessage: 'Must be at least {count} characters', id: 'U3u2LN' },
+  [CustomFieldErrorType.MAX_LENGTH]: { defaultMessage: 'Must be at most {count} characters', id: 'dXsB+2' },
+});
+
+const getErrorMessage = (
+  intl: IntlShape,
+  customField: InputFieldAttributes,
+  error: Exclude<CustomFieldErrorType, CustomFieldErrorType.REQUIRED>,
+  translate: (value: string) => string,
+): string => {
+  if (customField.validation?.message) {
+    return translate(customField.validation.message);
+  }
+
+  const count =
+    error === CustomFieldErrorType.MIN_LENGTH ? customField.validation.minLength : customField.validation?.maxLength;
+  return intl.formatMessage(errorMessages[error], { count });
+};
+
 const CustomFieldSelect = ({
   fieldProps,
   customField,
@@ -115,14 +121,19 @@ const CustomFieldSelect = ({
 const CustomFields = ({ config, data, onChange }: CustomFieldsProps) => {
   const intl = useIntl();
   const translate = React.useMemo(() => getTranslator(config, intl.locale), [config, intl.locale]);
+  const onFieldChange = (name: string, value: unknown) =>
+    onChange(removeHiddenCustomFieldsData(config, { ...data, [name]: value }));
 
-  return config.fields.map((customFieldConfig, idx) => {
+  return getVisibleCustomFields(config, data).map((customFieldConfig, idx) => {
     if (customFieldConfig.type === 'separator') {
       // eslint-disable-next-line react/no-array-index-key
       return <StyledHr key={`separator-${idx}`} borderColor="black.200" my={2} />;
     }
 
     const customField = customFieldConfig as InputFieldAttributes;
+    const required = isCustomFieldRequired(customField, data) || customField.required;
+    // Missing answers are reported by the browser when submitting the form
+    const error = getCustomFieldError(customField, data);
     return (
       <StyledInputField
         // eslint-disable-next-line react/no-array-index-key
@@ -134,14 +145,20 @@ const CustomFields = ({ config, data, onChange }: CustomFieldsProps) => {
         label={translate(customField.label || customField.name)}
         hint={translate(customField.hint)}
         helpText={translate(customField.helpText)}
-        {...pick(customField, ['name', 'required', 'disabled', 'useRequiredLabel', 'hideOptionalLabel', 'isPrivate'])}
+        required={required}
+        error={
+          error && error !== CustomFieldErrorType.REQUIRED
+            ? getErrorMessage(intl, customField, error, translate)
+            : undefined
+        }
+        {...pick(customField, ['name', 'disabled', 'useRequiredLabel', 'hideOptionalLabel', 'isPrivate'])}
       >
         {fieldProps =>
           customField.type === 'textarea' ? (
             <StyledTextarea
               autoSize
               {...fieldProps}
-              onChange={({ target }) => onChange({ ...data, [customField.name]: target.value })}
+              onChange={({ target }) => onFieldChange(customField.name, target.value)}
               maxHeight={500}
               minHeight={150}
               placeholder={translate(customField.placeholder)}
@@ -150,7 +167,7 @@ const CustomFields = ({ config, data, onChange }: CustomFieldsProps) => {
             <CustomFieldSelect
               fieldProps={fieldProps}
               customField={customField as SelectFieldAttributes}
-              onChange={({ value }) => onChange({ ...data, [customField.name]: value })}
+              onChange={({ value }) => onFieldChange(customField.name, value)}
               value={data?.[fieldProps.name]}
               translate={translate}
             />
@@ -164,10 +181,7 @@ const CustomFields = ({ config, data, onChange }: CustomFieldsProps) => {
               placeholder={translate(customField.placeholder)}
               pattern={(customField as HTMLInputFieldAttributes).pattern}
               onChange={e =>
-                onChange({
-                  ...data,
-                  [customField.name]: customField.type === 'checkbox' ? e.target.checked : e.target.value,
-                })
+                onFieldChange(customField.name, customField.type === 'checkbox' ? e.target.checked : e.target.value)
               }
             />
           )
@@ -1,6 +1,6 @@
 import React from 'react';
 import PropTypes from 'prop-types';
-import { isEmpty, isNil } from 'lodash';
+import { isEmpty, isEqual, isNil } from 'lodash';
 import { withRouter } from 'next/router';
 import { FormattedMessage, useIntl } from 'react-intl';
 
@@ -11,6 +11,7 @@ import { canContributeRecurring, hostIsTaxDeductibleInTheUs } from '../../lib/co
 import INTERVALS from '../../lib/constants/intervals';
 import { AmountTypes, TierTypes } from '../../lib/constants/tiers-types';
 import { formatCurrency } from '../../lib/currency-utils';
+import { getAmountPresetsWithExperiments } from '../../lib/experiments/contribution-flow-experiments';
 import useLoggedInUser from '../../lib/hooks/useLoggedInUser';
 import { i18nInterval } from '../../lib/i18n/interval';
 import { getTierMinAmount, getTierPresets } from '../../lib/tier-utils';
@@ -29,7 +30,7 @@ import StyledInput from '../StyledInput';
 import { H5, P, Span } from '../Text';
 
 import ChangeTierWarningModal from './ChangeTierWarningModal';
-import CustomFields, { buildCustomFieldsConfig } from './CustomFields';
+import CustomFields, { getContributionFlowCustomFieldsConfig } from './CustomFields';
 import PlatformTipInput from './PlatformTipInput';
 import { getTotalAmount } from './utils';
 
@@ -37,16 +38,15 @@ const StepDetails = ({ onChange, stepDetails, collective, tier, showPlatformTip,
   const intl = useIntl();
   const amount = stepDetails?.amount;
   const currency = tier?.amount.currency || collective.currency;
-  const presets = getTierPresets(tier, collective.type, currency);
+  const defaultPresets = getTierPresets(tier, collective.type, currency);
+  const [presets, setPresets] = React.useState(defaultPresets);
   const getDefaultOtherAmountSelected = () => isNil(amount) || !presets?.includes(amount);
   const [isOtherAmountSelected, setOtherAmountSelected] = React.useState(getDefaultOtherAmountSelected);
   const [temporaryInterval, setTemporaryInterval] = React.useState(undefined);
   const { LoggedInUser } = useLoggedInUser();
-  const tierCustomFields = tier?.customFields;
-  const hostCustomFields = collective.host?.settings?.contributionFlow?.customFields;
   const customFieldsConfig = React.useMemo(
-    () => buildCustomFieldsConfig(tierCustomFields, hostCustomFields),
-    [tierCustomFields, hostCustomFields],
+    () => getContributionFlowCustomFieldsConfig(collective, tier),
+    [tier?.customFields, collective.host?.settings?.contributionFlow?.customFields],
   );
 
   const minAmount = getTierMinAmount(tier, currency);
@@ -66,6 +66,18 @@ const StepDetails = ({ onChange, stepDetails, collective, tier, showPlatformTip,
     });
   };
 
+  // Collectives can experiment with other presets. The variant is picked after mounting, as anonymous visitors are
+  // bucketed with an ID from the local storage.
+  React.useEffect(() => {
+    const experimentPresets = getAmountPresetsWithExperiments(collective, tier, defaultPresets, LoggedInUser);
+    if (!isEqual(experimentPresets, presets)) {
+      setPresets(experimentPresets);
+      if (!isOtherAmountSelected && amount === presets[Math.floor(presets.length / 2)]) {
+        dispatchChange('amount', experimentPresets[Math.floor(experimentPresets.length / 2)]);
+      }
+    }
+  }, [collective.settings, tier?.legacyId, LoggedInUser]);
+
   // If an interval has been set (either from the tier defaults, or form an URL param) and the
   // collective doesn't support it, we reset the interval
   React.useEffect(() => {
@@ -317,8 +329,10 @@ StepDetails.propTypes = {
     currency: PropTypes.string.isRequired,
     type: PropTypes.string,
     host: PropTypes.object,
+    settings: PropTypes.object,
   }).isRequired,
   tier: PropTypes.shape({
+    legacyId: PropTypes.number,
     amountType: PropTypes.string,
     interval: PropTypes.string,
     description: PropTypes.string,
@@ -20,6 +20,7 @@ import { MODERATION_CATEGORIES_ALIASES } from '../../lib/constants/moderation-ca
 import { PAYMENT_METHOD_SERVICE, PAYMENT_METHOD_TYPE } from '../../lib/constants/payment-methods';
 import { TierTypes } from '../../lib/constants/tiers-types';
 import { formatCurrency } from '../../lib/currency-utils';
+import { validateCustomFields } from '../../lib/custom-fields';
 import { formatErrorMessage, getErrorFromGraphqlException } from '../../lib/errors';
 import { isPastEvent } from '../../lib/events';
 import { Experiment, isExperimentEnabled } from '../../lib/experiments/experiments';
@@ -52,6 +53,7 @@ import ContributionFlowStepContainer from './ContributionFlowStepContainer';
 import ContributionFlowStepsProgress from './ContributionFlowStepsProgress';
 import ContributionFlowSuccess from './ContributionFlowSuccess';
 import ContributionSummary from './ContributionSummary';
+import { getContributionFlowCustomFieldsConfig } from './CustomFields';
 import { PlatformTipOption } from './PlatformTipContainer';
 import { DEFAULT_PLATFORM_TIP_PERCENTAGE } from './PlatformTipInput';
 import {
@@ -775,7 +777,10 @@ class ContributionFlow extends React.Component {
             !this.checkFormValidity() ||
             !stepDetails ||
             stepDetails.amount < minAmount || // Min amount is per-item, so we don't need to multiply by quantity
-            !stepDetails.quantity
+            !stepDetails.quantity ||
+            !isEmpty(
+              validateCustomFields(getContributionFlowCustomFieldsConfig(collective, tier), stepDetails.customData),
+            )
           ) {
             return false;
           } else if (!isNil(tier?.availableQuantity) && stepDetails.quantity > tier.availableQuantity) {
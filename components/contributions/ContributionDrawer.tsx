@@ -5,6 +5,7 @@ import { Check, Link as LinkIcon, X } from 'lucide-react';
 import { defineMessages, FormattedMessage, useIntl } from 'react-intl';
 
 import type { GetActions } from '../../lib/actions/types';
+import { getCustomDataEntries } from '../../lib/custom-fields';
 import { API_V2_CONTEXT } from '../../lib/graphql/helpers';
 import type { ContributionDrawerQuery, ContributionDrawerQueryVariables } from '../../lib/graphql/types/v2/graphql';
 import { ContributionFrequency, OrderStatus } from '../../lib/graphql/types/v2/graphql';
@@ -95,6 +96,7 @@ export function ContributionDrawer(props: ContributionDrawerProps) {
             id
             name
             description
+            customFields
           }
           createdByAccount {
             ...ContributionDrawerAccountFields
@@ -519,7 +521,15 @@ export function ContributionDrawer(props: ContributionDrawerProps) {
                       <div>
                         <FormattedMessage defaultMessage="Custom Data" id="DRPEis" />
                       </div>
-                      <div>{JSON.stringify(query.data.order.customData)}</div>
+                      <div>
+                        {getCustomDataEntries(query.data.order.tier?.customFields, query.data.order.customData).map(
+                          entry => (
+                            <div key={entry.name}>
+                              <span className="font-medium">{entry.label}:</span> {entry.value}
+                            </div>
+                          ),
+                        )}
+                      </div>
                     </div>
                   )}
                 </div>
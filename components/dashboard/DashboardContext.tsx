@@ -1,5 +1,7 @@
 import React from 'react';
 
+import type { SavedViewsScope } from '../../lib/filters/saved-views';
+
 import { ALL_SECTIONS } from './constants';
 
 type DashboardContextType = {
@@ -23,3 +25,15 @@ export const DashboardContext = React.createContext<DashboardContextType>({
   defaultSlug: null,
   setDefaultSlug: () => {},
 });
+
+/**
+ * The scope of the views saved for the current section, to pass to `useQueryFilter` from the main filters of the
+ * section.
+ */
+export const useSavedViewsScope = (): SavedViewsScope | undefined => {
+  const { account, selectedSection } = React.useContext(DashboardContext);
+  return React.useMemo(
+    () => (account && selectedSection ? { account, section: selectedSection } : undefined),
+    [account, selectedSection],
+  );
+};
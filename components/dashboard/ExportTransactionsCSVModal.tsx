@@ -4,11 +4,12 @@ import { DndContext, DragOverlay } from '@dnd-kit/core';
 import { arrayMove, SortableContext, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { debounce, isEmpty, isNil, omit, uniq, without } from 'lodash';
-import { Eraser } from 'lucide-react';
+import { CalendarClock, Eraser } from 'lucide-react';
 import type { MouseEventHandler } from 'react';
 import { FormattedMessage } from 'react-intl';
 import slugify from 'slugify';
 
+import { setRestAuthorizationCookie } from '../../lib/auth';
 import type { CSVField } from '../../lib/csv';
 import {
   AVERAGE_TRANSACTIONS_PER_MINUTE,
@@ -21,7 +22,19 @@ import {
   HOST_OMITTED_FIELDS,
   PLATFORM_PRESETS,
 } from '../../lib/csv';
+import dayjs from '../../lib/dayjs';
 import { getEnvVar } from '../../lib/env-utils';
+import { downloadBlob } from '../../lib/export_file';
+import type { JournalAccounts } from '../../lib/export-formats';
+import {
+  convertTransactionsCSV,
+  DEFAULT_JOURNAL_ACCOUNTS,
+  ExportFormat,
+  ExportFormatFileTypes,
+  ExportFormatLabels,
+  isAccountingExportFormat,
+  JOURNAL_FIELDS,
+} from '../../lib/export-formats';
 import { API_V2_CONTEXT } from '../../lib/graphql/helpers';
 import type {
   Account,
@@ -41,10 +54,11 @@ import { Checkbox } from '../ui/Checkbox';
 import { Collapsible, CollapsibleContent } from '../ui/Collapsible';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/Dialog';
 import { Input } from '../ui/Input';
+import { Label } from '../ui/Label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/Select';
 import { Switch } from '../ui/Switch';
 
-const env = process.env.OC_ENV;
+import { ScheduleExportForm } from './sections/scheduled-exports/ScheduleExportForm';
 
 const TOTAL_AVAILABLE_FIELDS = FIELDS.length;
 
@@ -54,6 +68,15 @@ const TABS = Object.keys(GROUP_FIELDS).map(group => ({
   count: GROUP_FIELDS[group].length,
 }));
 
+const JournalAccountLabels: Record<keyof JournalAccounts, React.ReactNode> = {
+  balancing: <FormattedMessage defaultMessage="Balancing account" id="UtmjsT" />,
+  uncategorized: <FormattedMessage defaultMessage="Uncategorized" id="iO050q" />,
+  paymentProcessorFee: <FormattedMessage defaultMessage="Payment processor fee" id="contribution.paymentFee" />,
+  platformFee: <FormattedMessage defaultMessage="Platform fee" id="PlatformFee" />,
+  hostFee: <FormattedMessage defaultMessage="Host fee" id="HostFee" />,
+  taxAmount: <FormattedMessage defaultMessage="Taxes" id="r+dgiv" />,
+};
+
 const makeUrl = ({ account, isHostReport, queryFilter, flattenTaxesAndPaymentProcessorFees, fields }) => {
   const url = isHostReport
     ? new URL(`${process.env.REST_URL}/v2/${account?.slug}/hostTransactions.csv`)
@@ -229,6 +252,12 @@ const ExportTransactionsCSVModal = ({
   const [presetName, setPresetName] = React.useState('');
   const [isEditingPreset, setIsEditingPreset] = React.useState(false);
   const [isDeletingPreset, setIsDeletingPreset] = React.useState(false);
+  const [isScheduling, setIsScheduling] = React.useState(false);
+  const [format, setFormat] = React.useState(ExportFormat.CSV);
+  const [journalAccounts, setJournalAccounts] = React.useState(DEFAULT_JOURNAL_ACCOUNTS);
+  const isAccountingFormat = isAccountingExportFormat(format);
+  // Accounting formats are generated from a fixed set of fields, regardless of the selected ones
+  const exportFields = isAccountingFormat ? JOURNAL_FIELDS : fields;
 
   const [submitEditSettings, { loading: isSavingSet, data: updateSettingsData }] = useMutation(
     editAccountSettingsMutation,
@@ -305,17 +334,27 @@ const ExportTransactionsCSVModal = ({
   }, [queryFilter.values, account, open]);
 
   React.useEffect(() => {
-    const accessToken = getFromLocalStorage(LOCAL_STORAGE_KEYS.ACCESS_TOKEN);
-    if (typeof document !== 'undefined' && accessToken) {
-      document.cookie =
-        env === 'development' || env === 'e2e'
-          ? `authorization="Bearer ${accessToken}";path=/;SameSite=strict;max-age=120`
-          : // It is not possible to use HttpOnly when setting from JavaScript.
-            // I'm enforcing SameSite and Domain in production to prevent CSRF.
-            `authorization="Bearer ${accessToken}";path=/;SameSite=strict;max-age=120;domain=opencollective.com;secure`;
-    }
-    setDownloadUrl(makeUrl({ account, isHostReport, queryFilter, flattenTaxesAndPaymentProcessorFees, fields }));
-  }, [fields, flattenTaxesAndPaymentProcessorFees, queryFilter, account, isHostReport, setDownloadUrl]);
+    setRestAuthorizationCookie();
+    setDownloadUrl(
+      makeUrl({ account, isHostReport, queryFilter, flattenTaxesAndPaymentProcessorFees, fields: exportFields }),
+    );
+  }, [exportFields, flattenTaxesAndPaymentProcessorFees, queryFilter, account, isHostReport, setDownloadUrl]);
+
+  // Formats other than CSV, and CSVs with custom data columns, are converted from the CSV returned by the API
+  const { loading: isGeneratingFile, call: generateFile } = useAsyncCall(
+    async (url: string) => {
+      const accessToken = getFromLocalStorage(LOCAL_STORAGE_KEYS.ACCESS_TOKEN);
+      const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const file = await convertTransactionsCSV(await response.text(), format, { accounts: journalAccounts });
+      const filename = `${account?.slug}-transactions-${dayjs().format('YYYY-MM-DD')}.${file.extension}`;
+      downloadBlob(new Blob([file.content], { type: file.mimeType }), filename);
+    },
+    { useErrorToast: true },
+  );
 
   const handleFieldSwitch = React.useCallback(
     ({ name, checked }) => {
@@ -409,13 +448,22 @@ const ExportTransactionsCSVModal = ({
     setPreset(FIELD_OPTIONS.DEFAULT);
   };
 
+  // Schedules use their own date window, so we only keep the other filters
+  const getScheduleQuery = () => {
+    const url = new URL(makeUrl({ account, isHostReport, queryFilter, flattenTaxesAndPaymentProcessorFees, fields }));
+    url.searchParams.delete('dateFrom');
+    url.searchParams.delete('dateTo');
+    return url.search;
+  };
+
   const handleEditPreset = () => {
     setIsEditingPreset(!isEditingPreset);
   };
 
   const isAboveRowLimit = exportedRows > 100e3;
   const expectedTimeInMinutes = Math.round((exportedRows * 1.1) / AVERAGE_TRANSACTIONS_PER_MINUTE);
-  const disabled = isAboveRowLimit || isFetchingRows || isSavingSet || isEmpty(fields);
+  const disabled =
+    isAboveRowLimit || isFetchingRows || isSavingSet || isGeneratingFile || (!isAccountingFormat && isEmpty(fields));
   const isWholeTabSelected = GROUP_FIELDS[tab]?.every(f => fields.includes(f));
   const canEditFields = preset === FIELD_OPTIONS.NEW_PRESET || isEditingPreset;
 
@@ -616,6 +664,50 @@ const ExportTransactionsCSVModal = ({
                 </InfoTooltipIcon>
               </div>
             )}
+            {isAccountingFormat && (
+              <div className="flex flex-col gap-2 rounded-lg border border-solid border-slate-200 px-6 py-4">
+                <h1 className="font-bold">
+                  <FormattedMessage defaultMessage="Accounts" id="FvanT6" />
+                </h1>
+                <div className="grid gap-x-4 gap-y-2 sm:grid-cols-2">
+                  {Object.entries(JournalAccountLabels).map(([key, label]) => (
+                    <div key={key} className="flex flex-col gap-1">
+                      <Label htmlFor={`journal-account-${key}`}>{label}</Label>
+                      <Input
+                        id={`journal-account-${key}`}
+                        value={journalAccounts[key]}
+                        onChange={e => setJournalAccounts({ ...journalAccounts, [key]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  <FormattedMessage
+                    defaultMessage="Each transaction is exported as a journal entry between its accounting category code and the balancing account. Fees and taxes are booked on their own accounts, so the balancing account moves by the net amount. The selected fields are ignored for this format."
+                    id="+YQJfO"
+                  />
+                </p>
+                {format === ExportFormat.XERO && (
+                  <p className="text-xs text-gray-500">
+                    <FormattedMessage
+                      defaultMessage="Xero matches the accounts by code: replace these names with the codes of your chart of accounts."
+                      id="uGPitp"
+                    />
+                  </p>
+                )}
+              </div>
+            )}
+            {isScheduling && (
+              <ScheduleExportForm
+                account={account}
+                defaultName={presetName}
+                fields={fields}
+                query={getScheduleQuery()}
+                isHostReport={isHostReport}
+                onCancel={() => setIsScheduling(false)}
+                onSuccess={() => setIsScheduling(false)}
+              />
+            )}
             {isAboveRowLimit && (
               <div className="flex flex-col gap-4 rounded-lg border border-solid border-red-600 bg-red-50 px-6 py-4">
                 <p className="font-bold">
@@ -668,16 +760,70 @@ const ExportTransactionsCSVModal = ({
                   <FormattedMessage id="SavePreset" defaultMessage="Save Preset" />
                 </Button>
               )}
-              <Button disabled={disabled} variant="outline" className="whitespace-nowrap">
-                <DownloadLink url={`${downloadUrl}&limit=5`} disabled={disabled}>
-                  <FormattedMessage id="ExportSample" defaultMessage="Export Sample" />
-                </DownloadLink>
-              </Button>
-              <Button disabled={disabled} className="whitespace-nowrap">
-                <DownloadLink url={`${downloadUrl}&fetchAll=1`} disabled={disabled}>
-                  <FormattedMessage id="Export.Format" defaultMessage="Export {format}" values={{ format: 'CSV' }} />
-                </DownloadLink>
-              </Button>
+              {account && !isScheduling && (
+                <Button
+                  variant="outline"
+                  disabled={isEmpty(fields)}
+                  onClick={() => setIsScheduling(true)}
+                  className="whitespace-nowrap"
+                >
+                  <CalendarClock size={16} />
+                  <FormattedMessage defaultMessage="Make recurring" id="Wpp9ax" />
+                </Button>
+              )}
+              <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+                <SelectTrigger className="sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(ExportFormat).map(value => (
+                    <SelectItem value={value} key={value}>
+                      {ExportFormatLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {format === ExportFormat.CSV && !exportFields.includes('orderCustomData') ? (
+                <React.Fragment>
+                  <Button disabled={disabled} variant="outline" className="whitespace-nowrap">
+                    <DownloadLink url={`${downloadUrl}&limit=5`} disabled={disabled}>
+                      <FormattedMessage id="ExportSample" defaultMessage="Export Sample" />
+                    </DownloadLink>
+                  </Button>
+                  <Button disabled={disabled} className="whitespace-nowrap">
+                    <DownloadLink url={`${downloadUrl}&fetchAll=1`} disabled={disabled}>
+                      <FormattedMessage
+                        id="Export.Format"
+                        defaultMessage="Export {format}"
+                        values={{ format: 'CSV' }}
+                      />
+                    </DownloadLink>
+                  </Button>
+                </React.Fragment>
+              ) : (
+                <React.Fragment>
+                  <Button
+                    disabled={disabled}
+                    variant="outline"
+                    className="whitespace-nowrap"
+                    onClick={() => generateFile(`${downloadUrl}&limit=5`)}
+                  >
+                    <FormattedMessage id="ExportSample" defaultMessage="Export Sample" />
+                  </Button>
+                  <Button
+                    disabled={disabled}
+                    loading={isGeneratingFile}
+                    className="whitespace-nowrap"
+                    onClick={() => generateFile(`${downloadUrl}&fetchAll=1`)}
+                  >
+                    <FormattedMessage
+                      id="Export.Format"
+                      defaultMessage="Export {format}"
+                      values={{ format: ExportFormatFileTypes[format] }}
+                    />
+                  </Button>
+                </React.Fragment>
+              )}
             </div>
           </DialogFooter>
         </DialogContent>
@@ -6,6 +6,7 @@ import {
   BookOpenCheck,
   BookUserIcon,
   Building,
+  CalendarClock,
   Coins,
   CreditCard,
   FileText,
@@ -15,6 +16,7 @@ import {
   LayoutDashboard,
   Megaphone,
   Receipt,
+  Repeat,
   Settings,
   Store,
   Ticket,
@@ -121,6 +123,12 @@ export const getMenuItems = ({ intl, account, LoggedInUser }): MenuItem[] => {
       Icon: Receipt,
       label: intl.formatMessage({ id: 'Expenses', defaultMessage: 'Expenses' }),
     },
+    {
+      if: isIndividual,
+      section: ALL_SECTIONS.RECURRING_EXPENSES,
+      Icon: Repeat,
+      label: intl.formatMessage({ defaultMessage: 'Recurring expenses', id: 'KCYVWN' }),
+    },
     {
       if: !isIndividual && LoggedInUser.hasPreviewFeatureEnabled(PREVIEW_FEATURE_KEYS.CROWDFUNDING_REDESIGN),
       section: ALL_SECTIONS.ACCOUNTS,
@@ -158,6 +166,10 @@ export const getMenuItems = ({ intl, account, LoggedInUser }): MenuItem[] => {
             { accountName: account.name },
           ),
         },
+        {
+          section: ALL_SECTIONS.RECURRING_EXPENSES,
+          label: intl.formatMessage({ defaultMessage: 'Recurring', id: 'v84fNv' }),
+        },
       ],
     },
     {
@@ -273,6 +285,10 @@ export const getMenuItems = ({ intl, account, LoggedInUser }): MenuItem[] => {
           section: ALL_SECTIONS.EXPENSE_REPORTS,
           label: intl.formatMessage({ defaultMessage: 'Expenses', id: 'Expenses' }),
         },
+        {
+          section: ALL_SECTIONS.SCHEDULED_EXPORTS,
+          label: intl.formatMessage({ defaultMessage: 'Recurring exports', id: '+VVUoU' }),
+        },
       ],
     },
     {
@@ -303,6 +319,12 @@ export const getMenuItems = ({ intl, account, LoggedInUser }): MenuItem[] => {
       section: ALL_SECTIONS.TRANSACTIONS,
       Icon: ArrowRightLeft,
     },
+    {
+      if: !isHost,
+      section: ALL_SECTIONS.SCHEDULED_EXPORTS,
+      label: intl.formatMessage({ defaultMessage: 'Recurring exports', id: '+VVUoU' }),
+      Icon: CalendarClock,
+    },
     {
       if: isHost,
       section: ALL_SECTIONS.HOST_TRANSACTIONS,
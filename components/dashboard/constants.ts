@@ -8,6 +8,7 @@ export const SECTIONS = {
   REPORTS: 'reports',
   EXPENSE_REPORTS: 'reports/expenses',
   TRANSACTION_REPORTS: 'reports/transactions',
+  SCHEDULED_EXPORTS: 'scheduled-exports',
   CHART_OF_ACCOUNTS: 'chart-of-accounts',
   HOST_EXPENSES: 'host-expenses',
   HOST_AGREEMENTS: 'host-agreements',
@@ -23,6 +24,7 @@ export const SECTIONS = {
   HOST_EXPECTED_FUNDS: 'expected-funds',
   EXPENSES: 'expenses',
   SUBMITTED_EXPENSES: 'submitted-expenses',
+  RECURRING_EXPENSES: 'recurring-expenses',
   TRANSACTIONS: 'transactions',
   UPDATES: 'updates',
   HOST_TRANSACTIONS: 'host-transactions',
@@ -97,6 +99,7 @@ export const SECTIONS_ACCESSIBLE_TO_ACCOUNTANTS = [
   ALL_SECTIONS.REPORTS,
   ALL_SECTIONS.TRANSACTION_REPORTS,
   ALL_SECTIONS.EXPENSE_REPORTS,
+  ALL_SECTIONS.SCHEDULED_EXPORTS,
   ALL_SECTIONS.PAYMENT_RECEIPTS,
   ALL_SECTIONS.HOST_EXPENSES,
   ALL_SECTIONS.HOST_FINANCIAL_CONTRIBUTIONS,
@@ -105,6 +108,7 @@ export const SECTIONS_ACCESSIBLE_TO_ACCOUNTANTS = [
   ALL_SECTIONS.HOST_AGREEMENTS,
   ALL_SECTIONS.HOST_TAX_FORMS,
   ALL_SECTIONS.SUBMITTED_EXPENSES,
+  ALL_SECTIONS.RECURRING_EXPENSES,
   ALL_SECTIONS.CHART_OF_ACCOUNTS,
   ALL_SECTIONS.HOST_TRANSACTIONS,
   ALL_SECTIONS.INCOMING_CONTRIBUTIONS,
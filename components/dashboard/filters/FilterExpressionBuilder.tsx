@@ -0,0 +1,418 @@
+import React from 'react';
+import { isNil, uniq } from 'lodash';
+import { Plus, Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import type { FilterCondition, FilterExpression, FilterGroup } from '../../../lib/filters/filter-expression';
+import {
+  FilterExpressionOperator,
+  getFilterExpressionKeys,
+  getFilterExpressionValues,
+} from '../../../lib/filters/filter-expression';
+import type { FilterComponentConfigs } from '../../../lib/filters/filter-types';
+import { cn } from '../../../lib/utils';
+
+import { Badge } from '../../ui/Badge';
+import { Button } from '../../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../ui/Dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../../ui/DropdownMenu';
+import { Popover, PopoverContent, PopoverTrigger } from '../../ui/Popover';
+
+import { SetFilter } from './FilterDropdown';
+
+type BuilderContext<FV, FM> = {
+  filters: FilterComponentConfigs<FV, FM>;
+  meta?: FM;
+  filterKeys: string[];
+};
+
+const toRootGroup = <FV,>(expression: FilterExpression<FV> | null): FilterGroup<FV> => {
+  if (expression?.type === 'group' && !expression.negate) {
+    return expression;
+  } else {
+    return { type: 'group', operator: FilterExpressionOperator.AND, children: expression ? [expression] : [] };
+  }
+};
+
+const isComplete = (expression: FilterExpression): boolean =>
+  expression.type === 'condition'
+    ? !isNil(expression.value)
+    : expression.children.length > 0 && expression.children.every(isComplete);
+
+/**
+ * Renders the values of a condition the same way the filter dropdowns do.
+ */
+export function FilterConditionValues<FV, FM>({
+  condition,
+  filters,
+  meta,
+}: {
+  condition: FilterCondition<FV>;
+  filters: FilterComponentConfigs<FV, FM>;
+  meta?: FM;
+}) {
+  const intl = useIntl();
+  const filter = filters[condition.key];
+  const valueRenderer = filter && 'valueRenderer' in filter ? filter.valueRenderer : undefined;
+  const values = isNil(condition.value) ? [] : Array.isArray(condition.value) ? condition.value : [condition.value];
+  return (
+    <React.Fragment>
+      {values.map(value => (
+        <Badge key={JSON.stringify(value)} className="max-w-[256px] truncate rounded-sm px-1 font-normal">
+          {valueRenderer ? valueRenderer({ intl, value, meta }) : String(value)}
+        </Badge>
+      ))}
+    </React.Fragment>
+  );
+}
+
+/**
+ * A compact, read-only rendering of an expression, e.g. `Status: Paid and (Type: Invoice or not Tag: travel)`.
+ */
+export function FilterExpressionSummary<FV, FM>({
+  expression,
+  filters,
+  meta,
+  isNested = false,
+}: {
+  expression: FilterExpression<FV>;
+  filters: FilterComponentConfigs<FV, FM>;
+  meta?: FM;
+  isNested?: boolean;
+}) {
+  const intl = useIntl();
+  let content: React.ReactNode;
+  if (expression.type === 'condition') {
+    const filter = filters[expression.key];
+    content = (
+      <span className="inline-flex flex-wrap items-center gap-1">
+        {filter?.labelMsg ? intl.formatMessage(filter.labelMsg) : expression.key}:
+        <FilterConditionValues condition={expression} filters={filters} meta={meta} />
+      </span>
+    );
+  } else {
+    const separator =
+      expression.operator === FilterExpressionOperator.OR ? (
+        <FormattedMessage defaultMessage="or" id="Ntjkqd" />
+      ) : (
+        <FormattedMessage defaultMessage="and" id="3mvL2Q" />
+      );
+    const showParentheses = (isNested || expression.negate) && expression.children.length > 1;
+    content = (
+      <React.Fragment>
+        {showParentheses && '('}
+        {expression.children.map((child, index) => (
+          // eslint-disable-next-line react/no-array-index-key
+          <React.Fragment key={index}>
+            {index > 0 && <span className="text-muted-foreground">{separator}</span>}
+            <FilterExpressionSummary<FV, FM> expression={child} filters={filters} meta={meta} isNested />
+          </React.Fragment>
+        ))}
+        {showParentheses && ')'}
+      </React.Fragment>
+    );
+  }
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      {expression.negate && (
+        <span className="font-medium text-red-700">
+          <FormattedMessage defaultMessage="NOT" id="jOgiMP" />
+        </span>
+      )}
+      {content}
+    </span>
+  );
+}
+
+const NegateToggle = ({ negate, onChange }: { negate: boolean; onChange: (negate: boolean) => void }) => (
+  <Button
+    type="button"
+    size="xs"
+    variant="outline"
+    className={cn('w-12 shrink-0', negate && 'border-red-300 bg-red-50 text-red-700 hover:bg-red-100')}
+    onClick={() => onChange(!negate)}
+  >
+    {negate ? (
+      <FormattedMessage defaultMessage="NOT" id="jOgiMP" />
+    ) : (
+      <FormattedMessage defaultMessage="IS" id="7TFUby" />
+    )}
+  </Button>
+);
+
+function ConditionEditor<FV, FM>({
+  condition,
+  onChange,
+  onRemove,
+  context,
+}: {
+  condition: FilterCondition<FV>;
+  onChange: (condition: FilterCondition<FV>) => void;
+  onRemove: () => void;
+  context: BuilderContext<FV, FM>;
+}) {
+  const intl = useIntl();
+  const [open, setOpen] = React.useState(isNil(condition.value));
+  const [tmpValue, setTmpValue] = React.useState(condition.value);
+  const filter = context.filters[condition.key];
+
+  return (
+    <div className="flex items-center gap-2">
+      <NegateToggle negate={Boolean(condition.negate)} onChange={negate => onChange({ ...condition, negate })} />
+      <Popover
+        open={open}
+        onOpenChange={open => {
+          setTmpValue(condition.value);
+          setOpen(open);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-auto min-h-8 flex-1 flex-wrap justify-start gap-1"
+          >
+            <span className="mr-1">{filter?.labelMsg ? intl.formatMessage(filter.labelMsg) : condition.key}</span>
+            {isNil(condition.value) ? (
+              <span className="font-normal text-muted-foreground">
+                <FormattedMessage defaultMessage="Select a value" id="8F1Ccg" />
+              </span>
+            ) : (
+              <FilterConditionValues condition={condition} filters={context.filters} meta={context.meta} />
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[260px] p-0" align="start">
+          <SetFilter
+            tmpValue={tmpValue}
+            setTmpValue={setTmpValue}
+            filterKey={condition.key}
+            filters={context.filters}
+            setFilter={(key, value) => onChange({ ...condition, value })}
+            setOpen={setOpen}
+            values={{ [condition.key]: condition.value }}
+            meta={context.meta}
+          />
+        </PopoverContent>
+      </Popover>
+      <Button
+        type="button"
+        size="icon-xs"
+        variant="ghost"
+        title={intl.formatMessage({ defaultMessage: 'Remove', id: 'Remove' })}
+        onClick={onRemove}
+      >
+        <Trash2 size={16} className="text-muted-foreground" />
+      </Button>
+    </div>
+  );
+}
+
+function GroupEditor<FV, FM>({
+  group,
+  onChange,
+  onRemove,
+  context,
+  isRoot = false,
+}: {
+  group: FilterGroup<FV>;
+  onChange: (group: FilterGroup<FV>) => void;
+  onRemove?: () => void;
+  context: BuilderContext<FV, FM>;
+  isRoot?: boolean;
+}) {
+  const intl = useIntl();
+  const updateChild = (index: number, child: FilterExpression<FV>) =>
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) => onChange({ ...group, children: group.children.filter((c, i) => i !== index) });
+  const addChild = (child: FilterExpression<FV>) => onChange({ ...group, children: [...group.children, child] });
+
+  return (
+    <div className={cn('flex flex-col gap-2', !isRoot && 'rounded-lg border bg-slate-50 p-3')}>
+      <div className="flex items-center gap-2 text-sm">
+        {!isRoot && <NegateToggle negate={Boolean(group.negate)} onChange={negate => onChange({ ...group, negate })} />}
+        <FormattedMessage
+          defaultMessage="Match {operator} of the following conditions"
+          id="14d1Tq"
+          values={{
+            operator: (
+              <div className="inline-flex overflow-hidden rounded-md border">
+                {[FilterExpressionOperator.AND, FilterExpressionOperator.OR].map(operator => (
+                  <button
+                    key={operator}
+                    type="button"
+                    className={cn(
+                      'px-2 py-0.5 text-xs font-medium',
+                      group.operator === operator ? 'bg-primary text-primary-foreground' : 'bg-background',
+                    )}
+                    onClick={() => onChange({ ...group, operator })}
+                  >
+                    {operator === FilterExpressionOperator.AND ? (
+                      <FormattedMessage defaultMessage="all" id="g/sonn" />
+                    ) : (
+                      <FormattedMessage defaultMessage="any" id="QNOA2S" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            ),
+          }}
+        />
+        {onRemove && (
+          <Button
+            type="button"
+            size="icon-xs"
+            variant="ghost"
+            className="ml-auto"
+            title={intl.formatMessage({ defaultMessage: 'Remove', id: 'Remove' })}
+            onClick={onRemove}
+          >
+            <Trash2 size={16} className="text-muted-foreground" />
+          </Button>
+        )}
+      </div>
+      {group.children.map((child, index) =>
+        child.type === 'group' ? (
+          <GroupEditor<FV, FM>
+            // eslint-disable-next-line react/no-array-index-key
+            key={index}
+            group={child}
+            onChange={child => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+            context={context}
+          />
+        ) : (
+          <ConditionEditor<FV, FM>
+            // eslint-disable-next-line react/no-array-index-key
+            key={`${index}-${child.key}`}
+            condition={child}
+            onChange={child => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+            context={context}
+          />
+        ),
+      )}
+      <div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button type="button" variant="ghost" size="xs" className="gap-1 text-muted-foreground">
+              <Plus size={14} />
+              <FormattedMessage defaultMessage="Add condition" id="fg8dzN" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+            {context.filterKeys.map(key => (
+              <DropdownMenuItem
+                key={key}
+                onSelect={() => addChild({ type: 'condition', key: key as keyof FV & string, value: undefined })}
+              >
+                {context.filters[key].labelMsg ? intl.formatMessage(context.filters[key].labelMsg) : key}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={() => addChild({ type: 'group', operator: FilterExpressionOperator.OR, children: [] })}
+            >
+              <FormattedMessage defaultMessage="Group of conditions" id="GCZj2H" />
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * A dialog to build a filter expression. Since the expressions are translated into regular filter values, different
+ * filters are always combined with AND: OR is only available between the values of a filter that defines
+ * `expression.anyOf`, and NOT for the ones that define `expression.not`.
+ */
+export function FilterExpressionBuilder<FV, FM>({
+  expression,
+  filters,
+  meta,
+  onApply,
+  onClose,
+}: {
+  expression: FilterExpression<FV> | null;
+  filters: FilterComponentConfigs<FV, FM>;
+  meta?: FM;
+  onApply: (expression: FilterGroup<FV> | null) => void;
+  onClose: () => void;
+}) {
+  const intl = useIntl();
+  const [root, setRoot] = React.useState<FilterGroup<FV>>(() => toRootGroup(expression));
+  const context = React.useMemo(
+    () => ({
+      filters,
+      meta,
+      filterKeys: getFilterExpressionKeys(filters).filter(key => !filters[key].hide?.({ meta })),
+    }),
+    [filters, meta],
+  );
+  const getFilterLabels = (keys: string[]) =>
+    keys.map(key => (filters[key]?.labelMsg ? intl.formatMessage(filters[key].labelMsg) : key)).join(', ');
+  const anyOfFilterKeys = context.filterKeys.filter(key => filters[key].expression?.anyOf);
+  const notFilterKeys = context.filterKeys.filter(key => filters[key].expression?.not);
+  const isRootComplete = isComplete(root);
+  // Only the expressions that translate into regular filter values can be sent to the API
+  const unsupportedConditions = isRootComplete ? getFilterExpressionValues(root, filters, meta).unsupported : [];
+  const isValid = root.children.length === 0 || (isRootComplete && unsupportedConditions.length === 0);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage defaultMessage="Advanced filters" id="flmC4r" />
+          </DialogTitle>
+          <DialogDescription>
+            <FormattedMessage
+              defaultMessage="Different filters are always combined with AND. OR can only be used between the values of the same filter ({anyOfFilters}), and NOT only with: {notFilters}."
+              id="cS5H+N"
+              values={{
+                anyOfFilters: getFilterLabels(anyOfFilterKeys) || '-',
+                notFilters: getFilterLabels(notFilterKeys) || '-',
+              }}
+            />
+          </DialogDescription>
+        </DialogHeader>
+        <GroupEditor<FV, FM> group={root} onChange={setRoot} context={context} isRoot />
+        {unsupportedConditions.length > 0 && (
+          <p className="text-sm text-red-600">
+            <FormattedMessage
+              defaultMessage="These conditions cannot be applied: {filters}."
+              id="dQrC1Y"
+              values={{
+                filters: getFilterLabels(uniq(unsupportedConditions.map(({ key }) => key))),
+              }}
+            />
+          </p>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+          </Button>
+          <Button
+            type="button"
+            disabled={!isValid}
+            onClick={() => {
+              onApply(root.children.length ? root : null);
+              onClose();
+            }}
+          >
+            <FormattedMessage id="Apply" defaultMessage="Apply" />
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,33 @@
 import React from 'react';
-import { useIntl } from 'react-intl';
+import { isNil, pick } from 'lodash';
+import { ListFilter, X } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
 
+import type { FilterExpression } from '../../../lib/filters/filter-expression';
+import {
+  FilterExpressionOperator,
+  getFilterExpressionKeys,
+  supportsFilterExpressions,
+} from '../../../lib/filters/filter-expression';
 import type { FilterComponentConfigs, resetFilters, SetFilter, Views } from '../../../lib/filters/filter-types';
-import { filterShouldBeInAddFilterOptions, filterShouldDisplay } from '../../../lib/filters/filter-utils';
+import {
+  filterShouldBeInAddFilterOptions,
+  filterShouldDisplay,
+  getActiveViewId,
+  getViewFilter,
+} from '../../../lib/filters/filter-utils';
+import type { SavedViewsScope } from '../../../lib/filters/saved-views';
+import { getSavedViewTabId } from '../../../lib/filters/saved-views';
+import useSavedViews from '../../../lib/hooks/useSavedViews';
 import { cn } from '../../../lib/utils';
 
 import Tabs from '../../Tabs';
+import { Button } from '../../ui/Button';
 import { Separator } from '../../ui/Separator';
 
 import FilterDropdown from './FilterDropdown';
+import { FilterExpressionBuilder, FilterExpressionSummary } from './FilterExpressionBuilder';
+import { SavedViewsMenu } from './SavedViewsMenu';
 
 function useGetFilterbarOptions(filters, values, defaultSchemaValues, meta) {
   const filterKeys = Object.keys(filters);
@@ -44,6 +63,9 @@ export function Filterbar<FV extends Record<string, any>, FM>({
   defaultSchemaValues,
   className,
   hideSeparator,
+  expression,
+  setExpression,
+  savedViews: savedViewsScope,
 }: {
   values: FV;
   filters: FilterComponentConfigs<FV, FM>;
@@ -55,19 +77,60 @@ export function Filterbar<FV extends Record<string, any>, FM>({
   defaultSchemaValues?: Partial<FV>;
   className?: string;
   hideSeparator?: boolean;
+  expression?: FilterExpression<FV> | null;
+  setExpression?: (expression: FilterExpression<FV> | null, filterValues?: Partial<FV>) => void;
+  savedViews?: SavedViewsScope;
 }) {
   const intl = useIntl();
   const { displayedFilters, remainingFilters } = useGetFilterbarOptions(filters, values, defaultSchemaValues, meta);
   const sortFilterKey = filters.sort ? 'sort' : filters.orderBy ? 'orderBy' : null;
   const sortFilter = filters.sort || filters.orderBy;
+
+  // Views saved by the admins, only for the main filter bar of dashboard sections
+  const savedViews = useSavedViews<FV>(savedViewsScope);
+  const hasSavedViews = savedViews.isEnabled && !hideSeparator && Boolean(resetFilters);
+  const pinnedViews: Views<FV> = hasSavedViews
+    ? savedViews.views
+        .filter(view => view.pinned)
+        .map(view => ({ id: getSavedViewTabId(view), label: view.label, filter: view.filter }))
+    : [];
+  const allViews = views || pinnedViews.length ? [...(views || []), ...pinnedViews] : null;
+  const savedViewsWithTabIds = hasSavedViews
+    ? savedViews.views.map(view => ({ ...view, id: getSavedViewTabId(view), savedViewId: view.id }))
+    : [];
+  const activeSavedViewId = savedViewsWithTabIds.find(
+    view => view.id === getActiveViewId(values, { filters, views: savedViewsWithTabIds, defaultSchemaValues }),
+  )?.savedViewId;
+  const selectedViewId = expression
+    ? undefined
+    : activeViewId || (activeSavedViewId && getSavedViewTabId({ id: activeSavedViewId }));
+
+  // Advanced mode, where the filters are combined in an expression with AND, OR and NOT
+  const [isBuildingExpression, setIsBuildingExpression] = React.useState(false);
+  const canUseExpressions = Boolean(setExpression) && !hideSeparator && supportsFilterExpressions(filters);
+  const isAdvancedMode = canUseExpressions && Boolean(expression);
+  const expressionFilterKeys = getFilterExpressionKeys(filters);
+  const getInitialExpression = (): FilterExpression<FV> | null => {
+    if (expression) {
+      return expression;
+    }
+
+    // Start from the current filters
+    const currentFilter = pick(getViewFilter(values, { filters, defaultSchemaValues }), expressionFilterKeys);
+    const children = Object.entries(currentFilter)
+      .filter(([, value]) => !isNil(value))
+      .map(([key, value]) => ({ type: 'condition' as const, key, value }));
+    return children.length ? { type: 'group', operator: FilterExpressionOperator.AND, children } : null;
+  };
+
   return (
     <div className={cn('flex flex-col gap-4', className)}>
-      {views ? (
+      {allViews ? (
         <Tabs
-          tabs={views}
-          selectedId={activeViewId}
+          tabs={allViews}
+          selectedId={selectedViewId}
           onChange={id => {
-            const view = views.find(v => v.id === id);
+            const view = allViews.find(v => v.id === id);
             if (view) {
               resetFilters(view.filter);
             }
@@ -78,8 +141,31 @@ export function Filterbar<FV extends Record<string, any>, FM>({
       )}
       <div className="flex flex-wrap justify-between gap-2">
         <div className="flex flex-wrap items-center gap-2">
+          {isAdvancedMode && (
+            <div className="flex items-center rounded-full border text-sm">
+              <button
+                type="button"
+                className="flex flex-wrap items-center gap-1 py-1 pl-3 pr-1 text-left"
+                onClick={() => setIsBuildingExpression(true)}
+              >
+                <FilterExpressionSummary<FV, FM> expression={expression} filters={filters} meta={meta} />
+              </button>
+              <Button
+                size="icon-xs"
+                variant="ghost"
+                className="mr-1 rounded-full"
+                title={intl.formatMessage({ defaultMessage: 'Clear advanced filters', id: 'FH07Px' })}
+                onClick={() => setExpression(null)}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          )}
           {displayedFilters.map(key => {
             const filter = filters[key];
+            if (isAdvancedMode && expressionFilterKeys.includes(key)) {
+              return null;
+            }
             if (filter.StandaloneComponent) {
               return (
                 <filter.StandaloneComponent
@@ -106,7 +192,7 @@ export function Filterbar<FV extends Record<string, any>, FM>({
             );
           })}
 
-          {remainingFilters.length > 0 && (
+          {!isAdvancedMode && remainingFilters.length > 0 && (
             <FilterDropdown
               filters={filters}
               values={values}
@@ -120,16 +206,46 @@ export function Filterbar<FV extends Record<string, any>, FM>({
             />
           )}
         </div>
-        {sortFilterKey && (
-          <div className="flex w-full flex-1 justify-end">
-            <sortFilter.StandaloneComponent
-              onChange={value => setFilter(sortFilterKey, value)}
-              value={values[sortFilterKey]}
-              intl={intl}
-            />
+        {(sortFilterKey || hasSavedViews || canUseExpressions) && (
+          <div className="flex w-full flex-1 justify-end gap-2">
+            {canUseExpressions && !isAdvancedMode && (
+              <Button
+                className="gap-1.5 rounded-full"
+                variant="outline"
+                size="sm"
+                onClick={() => setIsBuildingExpression(true)}
+              >
+                <ListFilter size={16} className="text-muted-foreground" />
+                <FormattedMessage defaultMessage="Advanced" id="editCollective.menu.advanced" />
+              </Button>
+            )}
+            {hasSavedViews && !isAdvancedMode && (
+              <SavedViewsMenu<FV>
+                scope={savedViewsScope}
+                currentFilter={getViewFilter(values, { filters, defaultSchemaValues })}
+                activeSavedViewId={activeSavedViewId}
+                resetFilters={resetFilters}
+              />
+            )}
+            {sortFilterKey && (
+              <sortFilter.StandaloneComponent
+                onChange={value => setFilter(sortFilterKey, value)}
+                value={values[sortFilterKey]}
+                intl={intl}
+              />
+            )}
           </div>
         )}
       </div>
+      {isBuildingExpression && (
+        <FilterExpressionBuilder<FV, FM>
+          expression={getInitialExpression()}
+          filters={filters}
+          meta={meta}
+          onApply={setExpression}
+          onClose={() => setIsBuildingExpression(false)}
+        />
+      )}
     </div>
   );
 }
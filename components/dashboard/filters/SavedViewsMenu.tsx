@@ -0,0 +1,260 @@
+import React from 'react';
+import { Bookmark, Check, Pin, PinOff, Star, Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { i18nGraphqlException } from '../../../lib/errors';
+import type { resetFilters } from '../../../lib/filters/filter-types';
+import type { SavedView, SavedViewsScope } from '../../../lib/filters/saved-views';
+import useSavedViews from '../../../lib/hooks/useSavedViews';
+import { cn } from '../../../lib/utils';
+
+import { Button } from '../../ui/Button';
+import { Checkbox } from '../../ui/Checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../../ui/Dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../../ui/DropdownMenu';
+import { Input } from '../../ui/Input';
+import { Label } from '../../ui/Label';
+import { useToast } from '../../ui/useToast';
+
+const SaveViewDialog = <FV,>({
+  scope,
+  filter,
+  onClose,
+}: {
+  scope: SavedViewsScope;
+  filter: Partial<FV>;
+  onClose: () => void;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const { createView, loading } = useSavedViews<FV>(scope);
+  const [label, setLabel] = React.useState('');
+  const [pinned, setPinned] = React.useState(true);
+  const [isDefault, setIsDefault] = React.useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createView({ label: label.trim(), filter, pinned }, { isDefault });
+      toast({ variant: 'success', message: <FormattedMessage defaultMessage="View saved" id="FrIr1g" /> });
+      onClose();
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={submit} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>
+              <FormattedMessage defaultMessage="Save view" id="JAYugF" />
+            </DialogTitle>
+            <p className="text-sm text-muted-foreground">
+              <FormattedMessage
+                defaultMessage="Saves the current filters as a view. Views are shared with the other admins of this account."
+                id="0AfT5X"
+              />
+            </p>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="saved-view-label">
+              <FormattedMessage defaultMessage="Name" id="Fields.name" />
+            </Label>
+            <Input
+              id="saved-view-label"
+              value={label}
+              onChange={e => setLabel(e.target.value)}
+              maxLength={50}
+              autoFocus
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="saved-view-pinned"
+              checked={pinned}
+              onCheckedChange={checked => setPinned(checked === true)}
+            />
+            <Label htmlFor="saved-view-pinned" className="font-normal">
+              <FormattedMessage defaultMessage="Pin to the view tabs" id="/9TJdh" />
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="saved-view-default"
+              checked={isDefault}
+              onCheckedChange={checked => setIsDefault(checked === true)}
+            />
+            <Label htmlFor="saved-view-default" className="font-normal">
+              <FormattedMessage defaultMessage="Use as the default view for this section" id="edXDWG" />
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
+              <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+            </Button>
+            <Button type="submit" loading={loading} disabled={!label.trim()}>
+              <FormattedMessage defaultMessage="Save" id="save" />
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const ManageViewsDialog = ({ scope, onClose }: { scope: SavedViewsScope; onClose: () => void }) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const { views, defaultViewId, updateView, deleteView, setDefaultView, loading } = useSavedViews(scope);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage defaultMessage="Saved views" id="49m/TX" />
+          </DialogTitle>
+        </DialogHeader>
+        {views.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            <FormattedMessage defaultMessage="No saved views yet." id="glghdw" />
+          </p>
+        ) : (
+          <ul className="flex flex-col divide-y rounded-lg border">
+            {views.map(view => {
+              const isDefault = view.id === defaultViewId;
+              return (
+                <li key={view.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <span className="truncate font-medium">{view.label}</span>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      size="icon-xs"
+                      variant="ghost"
+                      disabled={loading}
+                      title={intl.formatMessage(
+                        view.pinned
+                          ? { defaultMessage: 'Unpin from the view tabs', id: 'Fiylb5' }
+                          : { defaultMessage: 'Pin to the view tabs', id: '/9TJdh' },
+                      )}
+                      onClick={() => run(() => updateView(view.id, { pinned: !view.pinned }))}
+                    >
+                      {view.pinned ? <PinOff size={16} /> : <Pin size={16} />}
+                    </Button>
+                    <Button
+                      size="icon-xs"
+                      variant="ghost"
+                      disabled={loading}
+                      title={intl.formatMessage(
+                        isDefault
+                          ? { defaultMessage: 'Remove as default view', id: '9F96Zz' }
+                          : { defaultMessage: 'Use as the default view for this section', id: 'edXDWG' },
+                      )}
+                      onClick={() => run(() => setDefaultView(isDefault ? null : view.id))}
+                    >
+                      <Star size={16} className={cn(isDefault && 'fill-yellow-400 text-yellow-500')} />
+                    </Button>
+                    <Button
+                      size="icon-xs"
+                      variant="ghost"
+                      disabled={loading}
+                      title={intl.formatMessage({ defaultMessage: 'Delete', id: 'actions.delete' })}
+                      onClick={() => run(() => deleteView(view.id))}
+                    >
+                      <Trash2 size={16} className="text-red-600" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Lets the admins save the current filters as a view, and apply the views saved for the dashboard section.
+ */
+export function SavedViewsMenu<FV>({
+  scope,
+  currentFilter,
+  activeSavedViewId,
+  resetFilters,
+}: {
+  scope: SavedViewsScope;
+  currentFilter: Partial<FV>;
+  activeSavedViewId?: string;
+  resetFilters: resetFilters<FV>;
+}) {
+  const { views, defaultViewId, canEdit } = useSavedViews<FV>(scope);
+  const [openDialog, setOpenDialog] = React.useState<'save' | 'manage' | null>(null);
+
+  if (!canEdit && views.length === 0) {
+    return null;
+  }
+
+  return (
+    <React.Fragment>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button className="gap-1.5 rounded-full" variant="outline" size="sm">
+            <Bookmark size={16} className="text-muted-foreground" />
+            <FormattedMessage defaultMessage="Views" id="akF0Ly" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {views.length > 0 && (
+            <React.Fragment>
+              <DropdownMenuLabel>
+                <FormattedMessage defaultMessage="Saved views" id="49m/TX" />
+              </DropdownMenuLabel>
+              {views.map((view: SavedView<FV>) => (
+                <DropdownMenuItem key={view.id} onSelect={() => resetFilters(view.filter)} className="gap-2">
+                  <Check size={16} className={cn('shrink-0', activeSavedViewId !== view.id && 'invisible')} />
+                  <span className="flex-1 truncate">{view.label}</span>
+                  {view.id === defaultViewId && <Star size={14} className="shrink-0 text-muted-foreground" />}
+                  {view.pinned && <Pin size={14} className="shrink-0 text-muted-foreground" />}
+                </DropdownMenuItem>
+              ))}
+            </React.Fragment>
+          )}
+          {canEdit && (
+            <React.Fragment>
+              {views.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={() => setOpenDialog('save')}>
+                <FormattedMessage defaultMessage="Save current filters as a view" id="EPz6L/" />
+              </DropdownMenuItem>
+              {views.length > 0 && (
+                <DropdownMenuItem onSelect={() => setOpenDialog('manage')}>
+                  <FormattedMessage defaultMessage="Manage views" id="NzpWcx" />
+                </DropdownMenuItem>
+              )}
+            </React.Fragment>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {openDialog === 'save' && (
+        <SaveViewDialog<FV> scope={scope} filter={currentFilter} onClose={() => setOpenDialog(null)} />
+      )}
+      {openDialog === 'manage' && <ManageViewsDialog scope={scope} onClose={() => setOpenDialog(null)} />}
+    </React.Fragment>
+  );
+}
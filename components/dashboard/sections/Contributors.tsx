@@ -18,6 +18,7 @@ import MessageBoxGraphqlError from '../../MessageBoxGraphqlError';
 import { DataTable } from '../../table/DataTable';
 import { Span } from '../../Text';
 import { Button } from '../../ui/Button';
+import { useSavedViewsScope } from '../DashboardContext';
 import DashboardHeader from '../DashboardHeader';
 import { EmptyResults } from '../EmptyResults';
 import ComboSelectFilter from '../filters/ComboSelectFilter';
@@ -234,6 +235,7 @@ const Contributors = ({ accountSlug }: ContributorsProps) => {
     },
   ];
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema: z.object({
       limit: integer.default(PAGE_SIZE),
@@ -252,6 +254,7 @@ const Contributors = ({ accountSlug }: ContributorsProps) => {
       orderBy: orderByFilter.filter,
       email: emailFilter.filter,
     },
+    savedViews: savedViewsScope,
   });
 
   const {
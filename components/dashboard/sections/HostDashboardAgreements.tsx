@@ -17,6 +17,7 @@ import { AGREEMENT_VIEW_FIELDS_FRAGMENT } from '../../agreements/fragments';
 import FilesViewerModal from '../../FilesViewerModal';
 import MessageBoxGraphqlError from '../../MessageBoxGraphqlError';
 import { Button } from '../../ui/Button';
+import { useSavedViewsScope } from '../DashboardContext';
 import DashboardHeader from '../DashboardHeader';
 import { EmptyResults } from '../EmptyResults';
 import { Filterbar } from '../filters/Filterbar';
@@ -68,11 +69,13 @@ const HostDashboardAgreements = ({ accountSlug: hostSlug }: DashboardSectionProp
   const [agreementInDrawer, setAgreementInDrawer] = React.useState(null);
   const [agreementFilePreview, setAgreementFilePreview] = React.useState<Agreement | null>(null);
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
     toVariables,
     meta: { hostSlug },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, variables, loading, refetch } = useQuery(hostDashboardAgreementsQuery, {
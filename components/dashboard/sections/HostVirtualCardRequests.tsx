@@ -1,5 +1,5 @@
 import React from 'react';
-import { useQuery } from '@apollo/client';
+import { useApolloClient, useQuery } from '@apollo/client';
 import { defineMessage, FormattedMessage, useIntl } from 'react-intl';
 import { z } from 'zod';
 
@@ -10,19 +10,25 @@ import type {
   Account,
   Host,
   HostVirtualCardRequestsQueryVariables,
+  VirtualCardRequest,
   VirtualCardRequestCollection,
 } from '../../../lib/graphql/types/v2/graphql';
 import { VirtualCardRequestStatus } from '../../../lib/graphql/types/v2/graphql';
 import useQueryFilter from '../../../lib/hooks/useQueryFilter';
 import { i18nVirtualCardRequestStatus } from '../../../lib/i18n/virtual-card-request';
+import { fetchAllPages } from '../../../lib/pagination';
 import { sortSelectOptions } from '../../../lib/utils';
 
 import { accountHoverCardFields } from '../../AccountHoverCard';
 import { getI18nLink } from '../../I18nFormatters';
 import MessageBoxGraphqlError from '../../MessageBoxGraphqlError';
 import { VirtualCardRequestDrawer } from '../../virtual-card-requests/VirtualCardRequestDrawer';
-import { VirtualCardRequestsTable } from '../../virtual-card-requests/VirtualCardRequestsTable';
+import {
+  useVirtualCardRequestBulkActions,
+  VirtualCardRequestsTable,
+} from '../../virtual-card-requests/VirtualCardRequestsTable';
 import { StripeVirtualCardComplianceStatement } from '../../virtual-cards/StripeVirtualCardComplianceStatement';
+import { useSavedViewsScope } from '../DashboardContext';
 import DashboardHeader from '../DashboardHeader';
 import { EmptyResults } from '../EmptyResults';
 import ComboSelectFilter from '../filters/ComboSelectFilter';
@@ -146,7 +152,7 @@ const hostVirtualCardRequestsQuery = gql`
 
 export default function HostVirtualCardRequests({ accountSlug: hostSlug }: DashboardSectionProps) {
   const intl = useIntl();
-  const { data: metaData } = useQuery(hostVirtualCardRequestsMetaDataQuery, {
+  const { data: metaData, refetch: refetchMetaData } = useQuery(hostVirtualCardRequestsMetaDataQuery, {
     context: API_V2_CONTEXT,
     variables: { hostSlug },
     errorPolicy: 'all',
@@ -179,12 +185,14 @@ export default function HostVirtualCardRequests({ accountSlug: hostSlug }: Dashb
     },
   ];
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     toVariables,
     schema,
     views,
     meta: { hostSlug },
+    savedViews: savedViewsScope,
   });
 
   const query = useQuery<{
@@ -202,6 +210,24 @@ export default function HostVirtualCardRequests({ accountSlug: hostSlug }: Dashb
 
   const error = !query.data?.virtualCardRequests && query.error;
   const loading = query.loading;
+  const getBulkActions = useVirtualCardRequestBulkActions(() => {
+    query.refetch();
+    refetchMetaData();
+  });
+  const apolloClient = useApolloClient();
+  const fetchAllMatchingVirtualCardRequests = async () => {
+    const { nodes } = await fetchAllPages<VirtualCardRequest>(async ({ offset, limit }) => {
+      const result = await apolloClient.query({
+        query: hostVirtualCardRequestsQuery,
+        variables: { hostSlug, ...queryFilter.variables, offset, limit },
+        context: API_V2_CONTEXT,
+      });
+
+      return result.data.virtualCardRequests;
+    });
+
+    return nodes;
+  };
 
   return (
     <div className="flex max-w-screen-lg flex-col gap-4">
@@ -238,6 +264,9 @@ export default function HostVirtualCardRequests({ accountSlug: hostSlug }: Dashb
             onSelectedVirtualCardRequest={vcr => queryFilter.setFilter('virtualCardRequest', vcr.legacyId)}
             loading={query.loading}
             virtualCardRequests={query.data?.virtualCardRequests.nodes}
+            getBulkActions={getBulkActions}
+            totalCount={query.data?.virtualCardRequests.totalCount}
+            fetchAllMatchingVirtualCardRequests={fetchAllMatchingVirtualCardRequests}
           />
           <Pagination queryFilter={queryFilter} total={query.data?.virtualCardRequests.totalCount} />
 
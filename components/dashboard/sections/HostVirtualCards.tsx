@@ -24,6 +24,7 @@ import { Button } from '../../ui/Button';
 import { useToast } from '../../ui/useToast';
 import { StripeVirtualCardComplianceStatement } from '../../virtual-cards/StripeVirtualCardComplianceStatement';
 import VirtualCardsTable from '../../virtual-cards/VirtualCardsTable';
+import { useSavedViewsScope } from '../DashboardContext';
 import DashboardHeader from '../DashboardHeader';
 import { EmptyResults } from '../EmptyResults';
 import { amountFilter } from '../filters/AmountFilter';
@@ -272,12 +273,14 @@ const HostVirtualCards = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
     },
   ];
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     filters,
     toVariables,
     meta: { hostSlug, currency: metadata?.host?.currency },
     views,
+    savedViews: savedViewsScope,
   });
 
   const { error, loading, data, refetch } = useQuery(hostVirtualCardsQuery, {
@@ -34,6 +34,7 @@ import type { VendorFieldsFragment } from '../../vendors/queries';
 import { setVendorArchiveMutation, vendorFieldFragment } from '../../vendors/queries';
 import VendorDetails, { VendorContactTag } from '../../vendors/VendorDetails';
 import VendorForm from '../../vendors/VendorForm';
+import { useSavedViewsScope } from '../DashboardContext';
 import DashboardHeader from '../DashboardHeader';
 import { EmptyResults } from '../EmptyResults';
 import { Filterbar } from '../filters/Filterbar';
@@ -298,10 +299,13 @@ const Vendors = ({ accountSlug }: DashboardSectionProps) => {
       },
     },
   ];
+
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
     views,
+    savedViews: savedViewsScope,
   });
 
   const {
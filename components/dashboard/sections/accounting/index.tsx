@@ -21,6 +21,7 @@ import ConfirmationModal, { CONFIRMATION_MODAL_TERMINATE } from '../../../Confir
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { Button } from '../../../ui/Button';
 import { useToast } from '../../../ui/useToast';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { buildComboSelectFilter } from '../../filters/ComboSelectFilter';
 import { Filterbar } from '../../filters/Filterbar';
@@ -142,6 +143,7 @@ export const HostAdminAccountingSection = ({ accountSlug }: DashboardSectionProp
   const [isCreateCategoryModalOpen, setIsCreateCategoryModalOpen] = React.useState(false);
   const [deleteCategoryConfirmation, setDeleteCategoryConfirmation] = React.useState(null);
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema: React.useMemo(
       () =>
@@ -165,6 +167,7 @@ export const HostAdminAccountingSection = ({ accountSlug }: DashboardSectionProp
       kind: kindFilter.toVariables,
       hostOnly: v => v === 'yes',
     },
+    savedViews: savedViewsScope,
   });
 
   const query = useQuery<AdminAccountingCategoriesQuery, AdminAccountingCategoriesQueryVariables>(
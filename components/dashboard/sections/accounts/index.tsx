@@ -20,6 +20,7 @@ import { DataTable } from '../../../table/DataTable';
 import { Button } from '../../../ui/Button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../../../ui/DropdownMenu';
 import { Skeleton } from '../../../ui/Skeleton';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { ACCOUNT_STATUS, accountStatusFilter } from '../../filters/AccountStatusFilter';
@@ -94,6 +95,7 @@ const Accounts = ({ accountSlug, subpath }: DashboardSectionProps) => {
     },
   ];
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
@@ -101,6 +103,7 @@ const Accounts = ({ accountSlug, subpath }: DashboardSectionProps) => {
     toVariables,
     defaultFilterValues: views[1].filter,
     meta: { currency: metadata?.host?.currency },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading, refetch } = useQuery(accountsQuery, {
@@ -17,6 +17,7 @@ import formatCollectiveType from '../../../../lib/i18n/collective-type';
 import { Drawer } from '../../../Drawer';
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { DataTable } from '../../../table/DataTable';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { consolidatedBalanceFilter } from '../../filters/BalanceFilter';
@@ -112,11 +113,13 @@ const AllCollectives = ({ subpath }: Omit<DashboardSectionProps, 'accountSlug'>)
     );
   };
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
     toVariables,
     meta: { currency: 'USD' },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading, refetch } = useQuery(allCollectivesQuery, {
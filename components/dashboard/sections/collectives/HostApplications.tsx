@@ -16,6 +16,7 @@ import { LastCommentByFilterLabels } from '../../../../lib/i18n/last-comment-by-
 import { sortSelectOptions } from '../../../../lib/utils';
 
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ComboSelectFilter from '../../filters/ComboSelectFilter';
@@ -127,11 +128,14 @@ const HostApplications = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
       count: metadata?.host?.rejected?.totalCount,
     },
   ];
+
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter<typeof schema, HostApplicationsQueryVariables>({
     schema,
     filters,
     toVariables,
     views,
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading } = useQuery<HostApplicationsQuery, HostApplicationsQueryVariables>(
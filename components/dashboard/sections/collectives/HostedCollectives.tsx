@@ -18,6 +18,7 @@ import { formatHostFeeStructure } from '../../../../lib/i18n/host-fee-structure'
 import { Drawer } from '../../../Drawer';
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { DataTable } from '../../../table/DataTable';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { consolidatedBalanceFilter } from '../../filters/BalanceFilter';
@@ -164,12 +165,14 @@ const HostedCollectives = ({ accountSlug: hostSlug, subpath }: DashboardSectionP
     },
   ];
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
     toVariables,
     views,
     meta: { currency: metadata?.host?.currency, currencies: metadata?.host?.all?.currencies },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading, refetch } = useQuery(hostedCollectivesQuery, {
@@ -1,7 +1,7 @@
 import React from 'react';
 import { useMutation, useQuery } from '@apollo/client';
-import { compact, omit } from 'lodash';
-import { LinkIcon, Pencil, PlusIcon } from 'lucide-react';
+import { compact, last, omit, uniqBy } from 'lodash';
+import { LinkIcon, Pencil, PlusIcon, Upload } from 'lucide-react';
 import { useRouter } from 'next/router';
 import type { IntlShape } from 'react-intl';
 import { defineMessage, FormattedMessage, useIntl } from 'react-intl';
@@ -9,6 +9,10 @@ import type { z } from 'zod';
 
 import type { GetActions } from '../../../../lib/actions/types';
 import { EMPTY_ARRAY } from '../../../../lib/constants/utils';
+import type { FieldAttributes, FieldsConfig } from '../../../../lib/custom-fields';
+import { getCustomDataEntries } from '../../../../lib/custom-fields';
+import { getExpectedFundsInvoice, getExpectedFundsInvoiceStatus } from '../../../../lib/expected-funds-invoices';
+import { getPaymentFailureReason, getPaymentFailures } from '../../../../lib/failed-contributions';
 import type { Views } from '../../../../lib/filters/filter-types';
 import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
 import type { ContributionDrawerQuery } from '../../../../lib/graphql/types/v2/graphql';
@@ -42,6 +46,7 @@ import { managedOrderFragment } from '../../../recurring-contributions/graphql/q
 import { actionsColumn, DataTable } from '../../../table/DataTable';
 import { Button } from '../../../ui/Button';
 import { useToast } from '../../../ui/useToast';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ComboSelectFilter from '../../filters/ComboSelectFilter';
@@ -50,9 +55,13 @@ import { Pagination } from '../../filters/Pagination';
 import type { DashboardSectionProps } from '../../types';
 
 import CreatePendingContributionModal from './CreatePendingOrderModal';
+import { ExpectedFundsInvoiceModal } from './ExpectedFundsInvoiceModal';
+import { ExpectedFundsInvoiceStatusBadge } from './ExpectedFundsInvoiceStatusBadge';
 import type { FilterMeta } from './filters';
 import { filters, OrderTypeFilter, schema, toVariables } from './filters';
+import { ImportExpectedFundsModal } from './ImportExpectedFundsModal';
 import { PausedIncomingContributionsMessage } from './PausedIncomingContributionsMessage';
+import { SendPaymentUpdateLinkModal } from './SendPaymentUpdateLinkModal';
 
 enum ContributionsTab {
   ALL = 'ALL',
@@ -65,6 +74,7 @@ enum ContributionsTab {
   EXPIRED = 'EXPIRED',
   DISPUTED = 'DISPUTED',
   IN_REVIEW = 'IN_REVIEW',
+  FAILED = 'FAILED',
 }
 
 const dashboardContributionsMetadataQuery = gql`
@@ -182,6 +192,14 @@ const dashboardContributionsMetadataQuery = gql`
       ) @skip(if: $onlyExpectedFunds) {
         totalCount
       }
+      FAILED: orders(
+        filter: $filter
+        status: [ERROR]
+        includeIncognito: true
+        includeHostedAccounts: $includeHostedAccounts
+      ) @skip(if: $onlyExpectedFunds) {
+        totalCount
+      }
       DISPUTED: orders(
         filter: $filter
         status: [DISPUTED]
@@ -222,6 +240,8 @@ const dashboardContributionsQuery = gql`
     $expectedDateFrom: DateTime
     $expectedDateTo: DateTime
     $expectedFundsFilter: ExpectedFundsFilter
+    $includeFailures: Boolean!
+    $includeExpectedFundsInvoices: Boolean!
   ) {
     account(slug: $slug) {
       id
@@ -248,6 +268,22 @@ const dashboardContributionsQuery = gql`
         nodes {
           id
           ...ManagedOrderFields
+          activities @include(if: $includeFailures) {
+            nodes {
+              id
+              type
+              createdAt
+              data
+            }
+          }
+          comments(limit: 100) @include(if: $includeExpectedFundsInvoices) {
+            nodes {
+              id
+              type
+              createdAt
+              html
+            }
+          }
         }
       }
     }
@@ -255,7 +291,25 @@ const dashboardContributionsQuery = gql`
   ${managedOrderFragment}
 `;
 
-const getColumns = ({ tab, intl, isIncoming, includeHostedAccounts, onlyExpectedFunds }) => {
+const getColumns = ({
+  tab,
+  intl,
+  isIncoming,
+  includeHostedAccounts,
+  onlyExpectedFunds,
+  includeExpectedFundsInvoices,
+  orders = [],
+}: {
+  tab: string;
+  intl: IntlShape;
+  isIncoming: boolean;
+  includeHostedAccounts: boolean;
+  onlyExpectedFunds: boolean;
+  /** Whether the orders include the notes tracking the invoices of expected funds, see `lib/expected-funds-invoices` */
+  includeExpectedFundsInvoices?: boolean;
+  /** The orders displayed, to add a column for each answered custom field */
+  orders?: Array<{ customData?: Record<string, unknown>; tier?: { customFields?: FieldsConfig | FieldAttributes[] } }>;
+}) => {
   const accounts = {
     accessorKey: 'toAccount',
     header: intl.formatMessage({ defaultMessage: 'Collective & Contributors', id: 'kklCrk' }),
@@ -401,6 +455,36 @@ const getColumns = ({ tab, intl, isIncoming, includeHostedAccounts, onlyExpected
     },
   };
 
+  const invoice = {
+    id: 'invoice',
+    header: intl.formatMessage({ id: 'Expense.Type.Invoice', defaultMessage: 'Invoice' }),
+    cell: ({ row }) => {
+      const order = row.original;
+      const orderInvoice = getExpectedFundsInvoice(order);
+      return <ExpectedFundsInvoiceStatusBadge status={getExpectedFundsInvoiceStatus(order, orderInvoice)} />;
+    },
+  };
+
+  const customDataColumns = uniqBy(
+    orders.flatMap(order => getCustomDataEntries(order.tier?.customFields, order.customData)),
+    'name',
+  ).map(({ name, label }) => ({
+    id: `customData.${name}`,
+    header: label,
+    meta: { className: 'max-w-[200px]' },
+    cell: ({ row }) => {
+      const order = row.original;
+      const entry = getCustomDataEntries(order.tier?.customFields, order.customData).find(e => e.name === name);
+      return (
+        entry && (
+          <div className="truncate" title={entry.value}>
+            {entry.value}
+          </div>
+        )
+      );
+    },
+  }));
+
   const contributionId = {
     accessorKey: 'legacyId',
     header: '#',
@@ -416,7 +500,60 @@ const getColumns = ({ tab, intl, isIncoming, includeHostedAccounts, onlyExpected
     },
   };
 
-  if (!tab || [ContributionsTab.ONETIME, ContributionsTab.ALL].includes(tab)) {
+  if (tab === ContributionsTab.FAILED) {
+    const failure = {
+      accessorKey: 'activities',
+      header: intl.formatMessage({ defaultMessage: 'Failure reason', id: 'lzxQzr' }),
+      meta: { className: 'max-w-[240px]' },
+      cell: ({ cell }) => {
+        const failures = getPaymentFailures(cell.getValue()?.nodes || []);
+        const reason = getPaymentFailureReason(last(failures));
+        return (
+          <div className="overflow-hidden">
+            <div className="truncate text-sm" title={reason}>
+              {reason || (
+                <span className="text-muted-foreground">
+                  <FormattedMessage id="Unknown" defaultMessage="Unknown" />
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              <FormattedMessage
+                defaultMessage="{count, plural, one {# failed attempt} other {# failed attempts}}"
+                id="VMZFuU"
+                values={{ count: failures.length }}
+              />
+            </div>
+          </div>
+        );
+      },
+    };
+    const nextAttempt = {
+      accessorKey: 'nextChargeDate',
+      header: intl.formatMessage({ defaultMessage: 'Next attempt', id: 'r68Vd2' }),
+      cell: ({ cell }) => {
+        const date = cell.getValue();
+        return (
+          date && (
+            <div className="flex items-center gap-2 truncate">
+              <DateTime value={date} dateStyle="medium" timeStyle={undefined} />
+            </div>
+          )
+        );
+      },
+    };
+
+    return [
+      includeHostedAccounts ? accounts : isIncoming ? fromAccount : toAccount,
+      paymentMethod,
+      totalAmount,
+      failure,
+      nextAttempt,
+      actionsColumn,
+    ];
+  }
+
+  if (!tab || [ContributionsTab.ONETIME, ContributionsTab.ALL].includes(tab as ContributionsTab)) {
     return compact([
       onlyExpectedFunds ? contributionId : null,
       includeHostedAccounts ? accounts : isIncoming ? fromAccount : toAccount,
@@ -435,6 +572,8 @@ const getColumns = ({ tab, intl, isIncoming, includeHostedAccounts, onlyExpected
         },
       },
       onlyExpectedFunds ? expectedAt : null,
+      includeExpectedFundsInvoices ? invoice : null,
+      ...customDataColumns,
       status,
       actionsColumn,
     ]);
@@ -460,6 +599,8 @@ const getColumns = ({ tab, intl, isIncoming, includeHostedAccounts, onlyExpected
       amount,
       totalAmount,
       onlyExpectedFunds ? expectedAt : null,
+      includeExpectedFundsInvoices ? invoice : null,
+      ...customDataColumns,
       status,
       actionsColumn,
     ]);
@@ -521,7 +662,10 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
   const [confirmCompletedOrder, setConfirmCompletedOrder] = React.useState(null);
   const { showConfirmationModal } = useModal();
   const [showCreatePendingOrderModal, setShowCreatePendingOrderModal] = React.useState(false);
+  const [showImportExpectedFundsModal, setShowImportExpectedFundsModal] = React.useState(false);
   const [editingExpectedFunds, setEditingExpectedFunds] = React.useState(null);
+  const [sendingPaymentUpdateLink, setSendingPaymentUpdateLink] = React.useState(null);
+  const [sendingExpectedFundsInvoice, setSendingExpectedFundsInvoice] = React.useState(null);
 
   const { LoggedInUser } = useLoggedInUser();
   const intl = useIntl();
@@ -611,6 +755,16 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
           },
         }
       : null,
+    !onlyExpectedFunds && metadata?.account?.[ContributionsTab.FAILED].totalCount
+      ? {
+          id: ContributionsTab.FAILED,
+          label: intl.formatMessage({ defaultMessage: 'Failed payments', id: 'Cw0lRq' }),
+          count: metadata?.account?.[ContributionsTab.FAILED].totalCount,
+          filter: {
+            status: [OrderStatus.ERROR],
+          },
+        }
+      : null,
     !onlyExpectedFunds && metadata?.account?.[ContributionsTab.PAUSED].totalCount
       ? {
           id: ContributionsTab.PAUSED,
@@ -671,14 +825,17 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
     currency: metadata?.account?.currency,
   };
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     toVariables,
     meta: filterMeta,
     views,
     filters: onlyExpectedFunds ? filters : filtersWithoutExpectedFunds,
+    savedViews: savedViewsScope,
   });
 
+  const includeExpectedFundsInvoices = Boolean(onlyExpectedFunds && includeHostedAccounts);
   const {
     data,
     loading: queryLoading,
@@ -690,6 +847,8 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
       filter: direction || 'OUTGOING',
       includeIncognito: true,
       includeHostedAccounts: !!includeHostedAccounts,
+      includeFailures: queryFilter.activeViewId === ContributionsTab.FAILED,
+      includeExpectedFundsInvoices,
       ...queryFilter.variables,
       ...(onlyExpectedFunds
         ? {
@@ -736,6 +895,8 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
     isIncoming,
     includeHostedAccounts,
     onlyExpectedFunds,
+    includeExpectedFundsInvoices,
+    orders: selectedOrders,
   });
   const currentViewCount = views.find(v => v.id === queryFilter.activeViewId)?.count;
   const nbPlaceholders = currentViewCount < queryFilter.values.limit ? currentViewCount : queryFilter.values.limit;
@@ -755,6 +916,9 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
     onUpdatePaymentMethodClick: order => {
       setEditOrder({ order, action: 'editPaymentMethod' });
     },
+    onSendPaymentUpdateLinkClick: order => {
+      setSendingPaymentUpdateLink(order);
+    },
     onMarkAsCompletedClick: order => {
       setConfirmCompletedOrder(order);
     },
@@ -790,6 +954,8 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
     onEditAddedFundsClick(order) {
       setEditOrder({ order, action: 'editAddedFunds' });
     },
+    onExpectedFundsInvoiceClick:
+      onlyExpectedFunds && includeHostedAccounts ? order => setSendingExpectedFundsInvoice(order) : null,
   });
 
   return (
@@ -835,6 +1001,17 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
           actions={
             onlyExpectedFunds && includeHostedAccounts ? (
               <React.Fragment>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowImportExpectedFundsModal(true)}
+                  className="gap-1"
+                >
+                  <span>
+                    <FormattedMessage defaultMessage="Import" id="9XUYQt" />
+                  </span>
+                  <Upload size={16} />
+                </Button>
                 <Button
                   size="sm"
                   onClick={() => setShowCreatePendingOrderModal(true)}
@@ -846,6 +1023,16 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
                   </span>
                   <PlusIcon size={20} />
                 </Button>
+                {showImportExpectedFundsModal && (
+                  <ImportExpectedFundsModal
+                    hostSlug={accountSlug}
+                    onClose={() => setShowImportExpectedFundsModal(false)}
+                    onSuccess={() => {
+                      refetch();
+                      refetchMetadata();
+                    }}
+                  />
+                )}
                 {showCreatePendingOrderModal && (
                   <CreatePendingContributionModal
                     hostSlug={accountSlug}
@@ -872,6 +1059,15 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
             />
           )}
 
+        {queryFilter.activeViewId === ContributionsTab.FAILED && (
+          <p className="text-sm text-muted-foreground">
+            <FormattedMessage
+              defaultMessage="Failed charges are retried automatically by the platform, on a schedule that can't be configured. You can also send a payment update link to the contributors."
+              id="0Bti/h"
+            />
+          </p>
+        )}
+
         {error ? (
           <MessageBoxGraphqlError error={error} />
         ) : !loading && selectedOrders.length === 0 ? (
@@ -928,6 +1124,19 @@ const Contributions = ({ accountSlug, direction, onlyExpectedFunds, includeHoste
           }}
         />
       )}
+      {sendingPaymentUpdateLink && (
+        <SendPaymentUpdateLinkModal
+          order={sendingPaymentUpdateLink}
+          onClose={() => setSendingPaymentUpdateLink(null)}
+        />
+      )}
+      {sendingExpectedFundsInvoice && (
+        <ExpectedFundsInvoiceModal
+          order={sendingExpectedFundsInvoice}
+          onClose={() => setSendingExpectedFundsInvoice(null)}
+          onSuccess={() => refetch()}
+        />
+      )}
     </React.Fragment>
   );
 };
@@ -936,6 +1145,7 @@ type GetContributionActionsOptions = {
   LoggedInUser: LoggedInUser;
   intl: IntlShape;
   onUpdatePaymentMethodClick: (order: ContributionDrawerQuery['order']) => void;
+  onSendPaymentUpdateLinkClick: (order: ContributionDrawerQuery['order']) => void;
   onResumeClick: (order: ContributionDrawerQuery['order']) => void;
   onEditAmountClick: (order: ContributionDrawerQuery['order']) => void;
   onMarkAsCompletedClick: (order: ContributionDrawerQuery['order']) => void;
@@ -943,6 +1153,8 @@ type GetContributionActionsOptions = {
   onCancelClick: (order: ContributionDrawerQuery['order']) => void;
   onEditExpectedFundsClick: (order: ContributionDrawerQuery['order']) => void;
   onEditAddedFundsClick: (order: ContributionDrawerQuery['order']) => void;
+  /** Only available to hosts, from the expected funds section */
+  onExpectedFundsInvoiceClick?: (order: ContributionDrawerQuery['order']) => void;
 };
 
 const getContributionActions: (opts: GetContributionActionsOptions) => GetActions<ContributionDrawerQuery['order']> =
@@ -969,6 +1181,10 @@ const getContributionActions: (opts: GetContributionActionsOptions) => GetAction
       ].includes(order.status) &&
       isAdminOfOrder;
 
+    const canSendPaymentUpdateLink =
+      order.status === OrderStatus.ERROR &&
+      !isAdminOfOrder &&
+      !('isGuest' in order.fromAccount && order.fromAccount.isGuest);
     const canResume = order.status === OrderStatus.PAUSED && order.permissions.canResume;
     const canCancel =
       isAdminOfOrder &&
@@ -990,6 +1206,14 @@ const getContributionActions: (opts: GetContributionActionsOptions) => GetAction
       });
     }
 
+    if (canSendPaymentUpdateLink) {
+      actions.primary.push({
+        label: opts.intl.formatMessage({ defaultMessage: 'Send payment update link', id: 'wAgSFs' }),
+        onClick: () => opts.onSendPaymentUpdateLinkClick(order),
+        key: 'send-payment-update-link',
+      });
+    }
+
     if (canResume) {
       actions.primary.push({
         label: opts.intl.formatMessage({ defaultMessage: 'Resume contribution', id: '51nF6S' }),
@@ -1014,6 +1238,14 @@ const getContributionActions: (opts: GetContributionActionsOptions) => GetAction
       });
     }
 
+    if (isExpectedFunds && opts.onExpectedFundsInvoiceClick) {
+      actions.primary.push({
+        label: opts.intl.formatMessage({ defaultMessage: 'Invoice & reminders', id: '9WFvH6' }),
+        onClick: () => opts.onExpectedFundsInvoiceClick(order),
+        key: 'expected-funds-invoice',
+      });
+    }
+
     if (canMarkAsCompleted) {
       actions.primary.push({
         label: opts.intl.formatMessage({ defaultMessage: 'Mark as completed', id: 'order.markAsCompleted' }),
@@ -0,0 +1,334 @@
+import React from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import { saveAs } from 'file-saver';
+import { Download } from 'lucide-react';
+import type { IntlShape } from 'react-intl';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { formatCurrency } from '../../../../lib/currency-utils';
+import { i18nGraphqlException } from '../../../../lib/errors';
+import {
+  canPrintExpectedFundsInvoiceTexts,
+  ExpectedFundsInvoiceNoteType,
+  generateExpectedFundsInvoicePDF,
+  getExpectedFundsInvoice,
+  getExpectedFundsInvoiceFilename,
+  getExpectedFundsInvoiceIntl,
+  getExpectedFundsInvoiceNoteHtml,
+  getExpectedFundsInvoiceStatus,
+} from '../../../../lib/expected-funds-invoices';
+import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
+import { getWebsiteUrl } from '../../../../lib/utils';
+
+import DateTime from '../../../DateTime';
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { Button } from '../../../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { Input } from '../../../ui/Input';
+import { Label } from '../../../ui/Label';
+import { Skeleton } from '../../../ui/Skeleton';
+import { Textarea } from '../../../ui/Textarea';
+import { useToast } from '../../../ui/useToast';
+
+import { ExpectedFundsInvoiceStatusBadge } from './ExpectedFundsInvoiceStatusBadge';
+
+const expectedFundsInvoiceOrderQuery = gql`
+  query ExpectedFundsInvoiceOrder($order: OrderReferenceInput!) {
+    order(order: $order) {
+      id
+      legacyId
+      status
+      description
+      amount {
+        valueInCents
+        currency
+      }
+      totalAmount {
+        valueInCents
+        currency
+      }
+      tier {
+        id
+        name
+      }
+      fromAccount {
+        id
+        slug
+        name
+      }
+      toAccount {
+        id
+        slug
+        name
+        ... on AccountWithHost {
+          host {
+            id
+            slug
+            name
+            legalName
+            settings
+            location {
+              id
+              address
+              country
+            }
+          }
+        }
+      }
+      pendingContributionData {
+        expectedAt
+        ponumber
+        fromAccountInfo {
+          name
+          email
+        }
+      }
+      comments(limit: 100) {
+        nodes {
+          id
+          type
+          createdAt
+          html
+        }
+      }
+    }
+  }
+`;
+
+const sendExpectedFundsInvoiceMutation = gql`
+  mutation SendExpectedFundsInvoice($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {
+    sendMessage(account: $account, message: $message, subject: $subject) {
+      success
+    }
+  }
+`;
+
+const createExpectedFundsInvoiceNoteMutation = gql`
+  mutation CreateExpectedFundsInvoiceNote($comment: CommentCreateInput!) {
+    createComment(comment: $comment) {
+      id
+    }
+  }
+`;
+
+const getDefaultMessage = (intl: IntlShape, order, isReminder: boolean): { subject: string; message: string } => {
+  const values = {
+    collective: order.toAccount.name,
+    reference: order.legacyId,
+    amount: formatCurrency(order.totalAmount.valueInCents, order.totalAmount.currency, {
+      locale: intl.locale,
+      currencyDisplay: 'code',
+    }),
+    date: intl.formatDate(order.pendingContributionData?.expectedAt, { dateStyle: 'long' }),
+    link: `${getWebsiteUrl()}/${order.toAccount.slug}/orders/${order.legacyId}`,
+  };
+
+  if (isReminder) {
+    return {
+      subject: intl.formatMessage(
+        { defaultMessage: 'Reminder: invoice #{reference} for {collective}', id: 'eFbWLh' },
+        values,
+      ),
+      message: intl.formatMessage(
+        {
+          defaultMessage:
+            'This is a reminder that the payment of {amount} for invoice #{reference} to {collective} is due on {date}. If you already sent the payment, you can ignore this message. Details: {link}',
+          id: 'XBUTCx',
+        },
+        values,
+      ),
+    };
+  } else {
+    return {
+      subject: intl.formatMessage({ defaultMessage: 'Invoice #{reference} for {collective}', id: 'jt9RTP' }, values),
+      message: intl.formatMessage(
+        {
+          defaultMessage:
+            'Please find the details of invoice #{reference} for your contribution to {collective}: {amount}, due on {date}. Please mention the reference #{reference} with your payment. Details: {link}',
+          id: 'k9z8aT',
+        },
+        values,
+      ),
+    };
+  }
+};
+
+/**
+ * Lets hosts download the invoice of expected funds, send it to the sponsor and follow up with reminders. The
+ * invoice is tracked with private notes on the order, see `lib/expected-funds-invoices`.
+ */
+export const ExpectedFundsInvoiceModal = ({
+  order,
+  onClose,
+  onSuccess,
+}: {
+  order: { id: string };
+  onClose: () => void;
+  onSuccess?: () => void;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [subject, setSubject] = React.useState('');
+  const [message, setMessage] = React.useState('');
+  const { data, loading, error } = useQuery(expectedFundsInvoiceOrderQuery, {
+    variables: { order: { id: order.id } },
+    context: API_V2_CONTEXT,
+  });
+  const [sendMessage, { loading: sending }] = useMutation(sendExpectedFundsInvoiceMutation, {
+    context: API_V2_CONTEXT,
+  });
+  const [createNote, { loading: saving }] = useMutation(createExpectedFundsInvoiceNoteMutation, {
+    context: API_V2_CONTEXT,
+  });
+
+  const loadedOrder = data?.order;
+  const host = loadedOrder && 'host' in loadedOrder.toAccount ? loadedOrder.toAccount.host : null;
+  const invoice = loadedOrder && getExpectedFundsInvoice(loadedOrder);
+  const status = loadedOrder && getExpectedFundsInvoiceStatus(loadedOrder, invoice);
+  const isReminder = Boolean(invoice);
+  const canSend = loadedOrder?.status === 'PENDING';
+  const isPDFInEnglish = getExpectedFundsInvoiceIntl(intl) !== intl;
+  const hasUnprintableTexts = Boolean(loadedOrder && host) && !canPrintExpectedFundsInvoiceTexts(host, loadedOrder);
+
+  React.useEffect(() => {
+    if (loadedOrder) {
+      const defaultMessage = getDefaultMessage(intl, loadedOrder, isReminder);
+      setSubject(defaultMessage.subject);
+      setMessage(defaultMessage.message);
+    }
+  }, [loadedOrder, intl, isReminder]);
+
+  const downloadInvoice = () => {
+    const pdf = generateExpectedFundsInvoicePDF(intl, host, loadedOrder, { issuedAt: invoice?.sentAt });
+    saveAs(new Blob([pdf], { type: 'application/pdf' }), getExpectedFundsInvoiceFilename(host, loadedOrder));
+  };
+
+  const onSubmit = async () => {
+    try {
+      await sendMessage({ variables: { account: { id: loadedOrder.fromAccount.id }, subject, message } });
+      await createNote({
+        variables: {
+          comment: {
+            order: { id: loadedOrder.id },
+            type: 'PRIVATE_NOTE',
+            html: getExpectedFundsInvoiceNoteHtml(
+              isReminder ? ExpectedFundsInvoiceNoteType.REMINDER : ExpectedFundsInvoiceNoteType.INVOICE,
+              subject,
+            ),
+          },
+        },
+      });
+      toast({
+        variant: 'success',
+        message: isReminder
+          ? intl.formatMessage({ defaultMessage: 'Reminder sent', id: 'yM0xRC' })
+          : intl.formatMessage({ defaultMessage: 'Invoice sent', id: 'mZM6fc' }),
+      });
+      onSuccess?.();
+      onClose();
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage
+              defaultMessage="Invoice for Expected Funds #{id}"
+              id="9fL/i+"
+              values={{ id: loadedOrder?.legacyId }}
+            />
+          </DialogTitle>
+          <DialogDescription>
+            <FormattedMessage
+              defaultMessage="The sponsor will receive the invoice details by email, with a link to the contribution. The PDF is not attached: download it to share it. Reminders are not sent automatically, send them from here when the payment is late."
+              id="AFSmea"
+            />
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <MessageBoxGraphqlError error={error} />
+        ) : loading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <ExpectedFundsInvoiceStatusBadge status={status} />
+              {invoice && (
+                <span className="text-muted-foreground">
+                  <FormattedMessage
+                    defaultMessage="Sent on {date}, {count, plural, =0 {no reminders} one {# reminder} other {# reminders}}"
+                    id="pcwJav"
+                    values={{
+                      date: <DateTime value={invoice.sentAt} dateStyle="medium" />,
+                      count: invoice.remindersSentAt?.length || 0,
+                    }}
+                  />
+                </span>
+              )}
+            </div>
+            {(isPDFInEnglish || hasUnprintableTexts) && (
+              <p className="text-xs text-muted-foreground">
+                {isPDFInEnglish && (
+                  <FormattedMessage
+                    defaultMessage="The PDF invoice is generated in English, as the characters of your language can't be printed in it."
+                    id="/HS4EM"
+                  />
+                )}{' '}
+                {hasUnprintableTexts && (
+                  <FormattedMessage
+                    defaultMessage="Some names or addresses contain characters that can't be printed in the PDF invoice: they are replaced by question marks."
+                    id="xZ3MXJ"
+                  />
+                )}
+              </p>
+            )}
+            {canSend && (
+              <React.Fragment>
+                <div className="space-y-1">
+                  <Label htmlFor="expected-funds-invoice-subject">
+                    <FormattedMessage id="Contact.Subject" defaultMessage="Subject" />
+                  </Label>
+                  <Input
+                    id="expected-funds-invoice-subject"
+                    value={subject}
+                    onChange={e => setSubject(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="expected-funds-invoice-message">
+                    <FormattedMessage id="Contact.Message" defaultMessage="Message" />
+                  </Label>
+                  <Textarea
+                    id="expected-funds-invoice-message"
+                    rows={6}
+                    value={message}
+                    onChange={e => setMessage(e.target.value)}
+                  />
+                </div>
+              </React.Fragment>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" className="gap-1" disabled={!loadedOrder || !host} onClick={downloadInvoice}>
+            <Download size={16} />
+            <FormattedMessage id="DownloadInvoice" defaultMessage="Download invoice" />
+          </Button>
+          {canSend && (
+            <Button loading={sending || saving} disabled={!host || !message.trim()} onClick={onSubmit}>
+              {isReminder ? (
+                <FormattedMessage defaultMessage="Send reminder" id="TMicLW" />
+              ) : (
+                <FormattedMessage defaultMessage="Send invoice" id="r3BLNJ" />
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
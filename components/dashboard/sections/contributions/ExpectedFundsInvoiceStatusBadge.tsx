@@ -0,0 +1,30 @@
+import React from 'react';
+import { defineMessages, useIntl } from 'react-intl';
+
+import { ExpectedFundsInvoiceStatus } from '../../../../lib/expected-funds-invoices';
+
+import type { BadgeProps } from '../../../ui/Badge';
+import { Badge } from '../../../ui/Badge';
+
+const STATUS_MESSAGES = defineMessages({
+  [ExpectedFundsInvoiceStatus.NOT_SENT]: { defaultMessage: 'Not sent', id: '6DjMvo' },
+  [ExpectedFundsInvoiceStatus.SENT]: { defaultMessage: 'Invoice sent', id: 'mZM6fc' },
+  [ExpectedFundsInvoiceStatus.OVERDUE]: { defaultMessage: 'Overdue', id: 'M0vCGv' },
+  [ExpectedFundsInvoiceStatus.PAID]: { id: 'order.paid', defaultMessage: 'Paid' },
+});
+
+const STATUS_BADGE_TYPES: Record<ExpectedFundsInvoiceStatus, BadgeProps['type']> = {
+  [ExpectedFundsInvoiceStatus.NOT_SENT]: 'neutral',
+  [ExpectedFundsInvoiceStatus.SENT]: 'info',
+  [ExpectedFundsInvoiceStatus.OVERDUE]: 'error',
+  [ExpectedFundsInvoiceStatus.PAID]: 'success',
+};
+
+export const ExpectedFundsInvoiceStatusBadge = ({ status }: { status: ExpectedFundsInvoiceStatus }) => {
+  const intl = useIntl();
+  return (
+    <Badge type={STATUS_BADGE_TYPES[status]} size="sm">
+      {intl.formatMessage(STATUS_MESSAGES[status])}
+    </Badge>
+  );
+};
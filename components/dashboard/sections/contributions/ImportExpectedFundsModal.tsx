@@ -0,0 +1,425 @@
+import React from 'react';
+import { useApolloClient, useMutation, useQuery } from '@apollo/client';
+import type { ColumnDef } from '@tanstack/react-table';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import type { IntlShape } from 'react-intl';
+import { defineMessages, FormattedMessage, useIntl } from 'react-intl';
+
+import { i18nGraphqlException } from '../../../../lib/errors';
+import type {
+  ExpectedFundsColumnsMapping,
+  ExpectedFundsImportAccounts,
+  ExpectedFundsImportError,
+  ExpectedFundsImportField,
+} from '../../../../lib/expected-funds-import';
+import {
+  EXPECTED_FUNDS_IMPORT_FIELDS,
+  ExpectedFundsImportErrorType,
+  getExpectedFundsImportRow,
+  getExpectedFundsImportSlugs,
+  guessExpectedFundsColumnsMapping,
+  readExpectedFundsFile,
+  REQUIRED_EXPECTED_FUNDS_IMPORT_FIELDS,
+} from '../../../../lib/expected-funds-import';
+import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
+
+import DateTime from '../../../DateTime';
+import FormattedMoneyAmount from '../../../FormattedMoneyAmount';
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import StyledDropzone, { DROPZONE_ACCEPT_CSV, DROPZONE_ACCEPT_XLSX } from '../../../StyledDropzone';
+import { DataTable } from '../../../table/DataTable';
+import { Button } from '../../../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { Skeleton } from '../../../ui/Skeleton';
+import { useToast } from '../../../ui/useToast';
+import { CSVColumnSelector } from '../transactions-imports/CSVColumnSelector';
+
+const importExpectedFundsHostQuery = gql`
+  query ImportExpectedFundsHost($slug: String!) {
+    host(slug: $slug) {
+      id
+      slug
+    }
+  }
+`;
+
+const importExpectedFundsAccountQuery = gql`
+  query ImportExpectedFundsAccount($slug: String!) {
+    account(slug: $slug, throwIfMissing: false) {
+      id
+      slug
+      currency
+      ... on AccountWithHost {
+        host {
+          id
+        }
+      }
+      ... on AccountWithContributions {
+        tiers {
+          nodes {
+            id
+            slug
+            legacyId
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+const importExpectedFundsMutation = gql`
+  mutation ImportExpectedFunds($order: PendingOrderCreateInput!) {
+    createPendingOrder(order: $order) {
+      id
+      legacyId
+    }
+  }
+`;
+
+const FIELD_LABELS = defineMessages<ExpectedFundsImportField>({
+  toAccount: { id: 'Collective', defaultMessage: 'Collective' },
+  fromAccount: { id: 'Contributor', defaultMessage: 'Contributor' },
+  contactName: { id: 'ContactName', defaultMessage: 'Contact name' },
+  contactEmail: { id: 'Fields.fromAccountInfo.email', defaultMessage: 'Contact email' },
+  amount: { id: 'Fields.amount', defaultMessage: 'Amount' },
+  currency: { id: 'Currency', defaultMessage: 'Currency' },
+  tier: { defaultMessage: 'Tier', id: 'b07w+D' },
+  expectedAt: { defaultMessage: 'Expected date', id: 'OUzCHW' },
+  description: { id: 'Fields.description', defaultMessage: 'Description' },
+  memo: { defaultMessage: 'Memo', id: 'D5NqQO' },
+  ponumber: { id: 'Fields.PONumber', defaultMessage: 'PO Number' },
+  paymentMethod: { id: 'Fields.paymentMethod', defaultMessage: 'Payment method' },
+  hostFeePercent: { id: 'HostFee', defaultMessage: 'Host fee' },
+});
+
+const formatImportError = (intl: IntlShape, error: ExpectedFundsImportError): string => {
+  const values = { field: intl.formatMessage(FIELD_LABELS[error.field]), value: error.value };
+  switch (error.type) {
+    case ExpectedFundsImportErrorType.MISSING_VALUE:
+      return intl.formatMessage({ defaultMessage: '{field} is missing', id: 'nPdacx' }, values);
+    case ExpectedFundsImportErrorType.UNKNOWN_ACCOUNT:
+      return intl.formatMessage({ defaultMessage: '{field}: no account found for {value}', id: '3NzZCp' }, values);
+    case ExpectedFundsImportErrorType.NOT_HOSTED:
+      return intl.formatMessage({ defaultMessage: '{value} is not hosted by this host', id: 'geBpae' }, values);
+    case ExpectedFundsImportErrorType.INVALID_CURRENCY:
+      return intl.formatMessage(
+        { defaultMessage: '{value} is not the currency of the collective', id: 'LNfua8' },
+        values,
+      );
+    case ExpectedFundsImportErrorType.UNKNOWN_TIER:
+      return intl.formatMessage({ defaultMessage: 'No tier found for {value}', id: '5ljAn4' }, values);
+    default:
+      return intl.formatMessage({ defaultMessage: 'Invalid {field}: {value}', id: 'yH6Kxf' }, values);
+  }
+};
+
+enum ImportStep {
+  UPLOAD = 'UPLOAD',
+  MAP_COLUMNS = 'MAP_COLUMNS',
+  REVIEW = 'REVIEW',
+}
+
+type ImportRow = {
+  index: number;
+  values: Record<string, string>;
+} & ReturnType<typeof getExpectedFundsImportRow>;
+
+type ImportResult = { legacyId: number; error?: never } | { legacyId?: never; error: string };
+
+/**
+ * Creates expected funds in bulk from a CSV or XLSX file: the columns of the file are mapped onto the fields of the
+ * "Create Expected Funds" form, every row is validated and the valid ones are created in one go.
+ */
+export const ImportExpectedFundsModal = ({
+  hostSlug,
+  onClose,
+  onSuccess,
+}: {
+  hostSlug: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const client = useApolloClient();
+  const [step, setStep] = React.useState(ImportStep.UPLOAD);
+  const [file, setFile] = React.useState<File | null>(null);
+  const [rawRows, setRawRows] = React.useState<Array<Record<string, string>>>([]);
+  const [mapping, setMapping] = React.useState<ExpectedFundsColumnsMapping>({});
+  const [rows, setRows] = React.useState<ImportRow[]>([]);
+  const [results, setResults] = React.useState<Record<number, ImportResult>>({});
+  const [isValidating, setIsValidating] = React.useState(false);
+  const [isCreating, setIsCreating] = React.useState(false);
+  const { data, loading, error } = useQuery(importExpectedFundsHostQuery, {
+    variables: { slug: hostSlug },
+    context: API_V2_CONTEXT,
+  });
+  const [createPendingOrder] = useMutation(importExpectedFundsMutation, { context: API_V2_CONTEXT });
+
+  const host = data?.host;
+  const columns = Object.keys(rawRows[0] || {}).filter(Boolean);
+  const validRows = rows.filter(row => row.order);
+  const isDone = Object.keys(results).length > 0 && !isCreating;
+  const hasRequiredColumns = REQUIRED_EXPECTED_FUNDS_IMPORT_FIELDS.every(field => mapping[field]);
+
+  const onFileSelected = async (selectedFile: File) => {
+    try {
+      const fileRows = await readExpectedFundsFile(selectedFile);
+      setFile(selectedFile);
+      setRawRows(fileRows);
+      setMapping(guessExpectedFundsColumnsMapping(Object.keys(fileRows[0] || {})));
+      setStep(ImportStep.MAP_COLUMNS);
+    } catch (e) {
+      toast({
+        variant: 'error',
+        message: intl.formatMessage({
+          defaultMessage: 'Could not read the file. Please make sure it is a valid CSV or XLSX file.',
+          id: 'gJkTaW',
+        }),
+      });
+    }
+  };
+
+  const validateRows = async () => {
+    setIsValidating(true);
+    try {
+      const slugs = getExpectedFundsImportSlugs(rawRows, mapping);
+      const accounts: ExpectedFundsImportAccounts = {};
+      for (const slug of slugs) {
+        const result = await client.query({
+          query: importExpectedFundsAccountQuery,
+          variables: { slug },
+          context: API_V2_CONTEXT,
+        });
+        accounts[slug] = result.data.account;
+      }
+
+      setRows(
+        rawRows.map((values, index) => ({
+          index,
+          values,
+          ...getExpectedFundsImportRow(values, mapping, { hostId: host.id, accounts }),
+        })),
+      );
+      setResults({});
+      setStep(ImportStep.REVIEW);
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const createExpectedFunds = async () => {
+    setIsCreating(true);
+    let nbCreated = 0;
+    for (const row of validRows) {
+      try {
+        const result = await createPendingOrder({ variables: { order: row.order } });
+        setResults(results => ({ ...results, [row.index]: { legacyId: result.data.createPendingOrder.legacyId } }));
+        nbCreated++;
+      } catch (e) {
+        setResults(results => ({ ...results, [row.index]: { error: i18nGraphqlException(intl, e) } }));
+      }
+    }
+
+    setIsCreating(false);
+    if (nbCreated) {
+      onSuccess();
+    }
+
+    toast({
+      variant: nbCreated === validRows.length ? 'success' : 'error',
+      message: intl.formatMessage(
+        { defaultMessage: '{created} of {total} expected funds created', id: 'qIy9rE' },
+        { created: nbCreated, total: validRows.length },
+      ),
+    });
+  };
+
+  const getValue = (row: ImportRow, field: ExpectedFundsImportField) => row.values[mapping[field]] || null;
+  const tableColumns: ColumnDef<ImportRow>[] = [
+    {
+      id: 'line',
+      header: '#',
+      // The first line of the file is the header
+      cell: ({ row }) => row.original.index + 2,
+    },
+    {
+      id: 'toAccount',
+      header: intl.formatMessage(FIELD_LABELS.toAccount),
+      cell: ({ row }) => getValue(row.original, 'toAccount'),
+    },
+    {
+      id: 'fromAccount',
+      header: intl.formatMessage(FIELD_LABELS.fromAccount),
+      cell: ({ row }) => getValue(row.original, 'fromAccount'),
+    },
+    {
+      id: 'amount',
+      header: intl.formatMessage(FIELD_LABELS.amount),
+      cell: ({ row }) =>
+        row.original.order ? (
+          <FormattedMoneyAmount
+            amount={row.original.order.amount.valueInCents}
+            currency={row.original.order.amount.currency}
+          />
+        ) : (
+          getValue(row.original, 'amount')
+        ),
+    },
+    {
+      id: 'expectedAt',
+      header: intl.formatMessage(FIELD_LABELS.expectedAt),
+      cell: ({ row }) =>
+        row.original.order ? (
+          <DateTime value={row.original.order.expectedAt} dateStyle="medium" />
+        ) : (
+          getValue(row.original, 'expectedAt')
+        ),
+    },
+    {
+      id: 'status',
+      header: intl.formatMessage({ id: 'Fields.status', defaultMessage: 'Status' }),
+      cell: ({ row }) => {
+        const result = results[row.original.index];
+        if (result?.legacyId) {
+          return (
+            <span className="flex items-center gap-1 text-green-700">
+              <CheckCircle2 size={14} />
+              <FormattedMessage
+                defaultMessage="Created with reference #{orderId}"
+                id="egewaO"
+                values={{ orderId: result.legacyId }}
+              />
+            </span>
+          );
+        } else if (result?.error) {
+          return <span className="text-red-600">{result.error}</span>;
+        } else if (row.original.errors.length) {
+          return (
+            <ul className="space-y-1 text-red-600">
+              {row.original.errors.map(error => (
+                <li key={`${error.type}-${error.field}`} className="flex items-center gap-1">
+                  <XCircle size={14} className="shrink-0" />
+                  {formatImportError(intl, error)}
+                </li>
+              ))}
+            </ul>
+          );
+        } else if (isDone) {
+          return (
+            <span className="text-slate-500">
+              <FormattedMessage defaultMessage="Skipped" id="djZCU5" />
+            </span>
+          );
+        } else {
+          return (
+            <span className="text-green-700">
+              <FormattedMessage defaultMessage="Ready" id="IZFEUg" />
+            </span>
+          );
+        }
+      },
+    },
+  ];
+
+  return (
+    <Dialog open onOpenChange={open => !open && !isCreating && onClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage defaultMessage="Import Expected Funds" id="t8pw8V" />
+          </DialogTitle>
+          <DialogDescription>
+            <FormattedMessage
+              defaultMessage="Create multiple expected funds at once from a CSV or XLSX file, with one line per expected funds and the columns of the Create Expected Funds form."
+              id="c3qUNv"
+            />
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <MessageBoxGraphqlError error={error} />
+        ) : loading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : step === ImportStep.UPLOAD ? (
+          <StyledDropzone
+            accept={{ ...DROPZONE_ACCEPT_CSV, ...DROPZONE_ACCEPT_XLSX }}
+            name="expected-funds-file"
+            isMulti={false}
+            collectFilesOnly
+            showInstructions
+            minSize={1}
+            maxSize={20 * 1024 * 1024}
+            onSuccess={acceptedFiles => acceptedFiles[0] && onFileSelected(acceptedFiles[0])}
+          />
+        ) : step === ImportStep.MAP_COLUMNS ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              <FormattedMessage
+                defaultMessage="{count, plural, one {# row} other {# rows}} found in {fileName}. Select the column to use for each field."
+                id="vyckHH"
+                values={{ count: rawRows.length, fileName: file?.name }}
+              />
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {EXPECTED_FUNDS_IMPORT_FIELDS.map(field => (
+                <CSVColumnSelector
+                  key={field}
+                  label={intl.formatMessage(FIELD_LABELS[field])}
+                  columns={columns}
+                  selected={mapping[field]}
+                  isOptional={!REQUIRED_EXPECTED_FUNDS_IMPORT_FIELDS.includes(field)}
+                  onChange={column => setMapping(mapping => ({ ...mapping, [field]: column || undefined }))}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              <FormattedMessage
+                defaultMessage="{valid} of {total} rows are valid. Rows with errors will be skipped: fix them in the file and import it again."
+                id="uXj1Br"
+                values={{ valid: validRows.length, total: rows.length }}
+              />
+            </p>
+            <DataTable data={rows} columns={tableColumns} compact />
+          </div>
+        )}
+        <DialogFooter>
+          {step === ImportStep.MAP_COLUMNS && (
+            <React.Fragment>
+              <Button variant="outline" onClick={() => setStep(ImportStep.UPLOAD)}>
+                <FormattedMessage defaultMessage="Select another file" id="gj+C3v" />
+              </Button>
+              <Button loading={isValidating} disabled={!hasRequiredColumns || !rawRows.length} onClick={validateRows}>
+                <FormattedMessage defaultMessage="Validate rows" id="+RJRc4" />
+              </Button>
+            </React.Fragment>
+          )}
+          {step === ImportStep.REVIEW &&
+            (isDone ? (
+              <Button onClick={onClose}>
+                <FormattedMessage id="Close" defaultMessage="Close" />
+              </Button>
+            ) : (
+              <React.Fragment>
+                <Button variant="outline" disabled={isCreating} onClick={() => setStep(ImportStep.MAP_COLUMNS)}>
+                  <FormattedMessage id="Back" defaultMessage="Back" />
+                </Button>
+                <Button loading={isCreating} disabled={!validRows.length} onClick={createExpectedFunds}>
+                  <FormattedMessage
+                    defaultMessage="Create {count} expected funds"
+                    id="lB+uvJ"
+                    values={{ count: validRows.length }}
+                  />
+                </Button>
+              </React.Fragment>
+            ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
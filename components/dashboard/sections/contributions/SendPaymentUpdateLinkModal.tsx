@@ -0,0 +1,155 @@
+import React from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { i18nGraphqlException } from '../../../../lib/errors';
+import { getPaymentUpdateLink } from '../../../../lib/failed-contributions';
+import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
+
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { Button } from '../../../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { Input } from '../../../ui/Input';
+import { Label } from '../../../ui/Label';
+import { Skeleton } from '../../../ui/Skeleton';
+import { Textarea } from '../../../ui/Textarea';
+import { useToast } from '../../../ui/useToast';
+
+const paymentUpdateLinkOrderQuery = gql`
+  query PaymentUpdateLinkOrder($order: OrderReferenceInput!) {
+    order(order: $order) {
+      id
+      legacyId
+      fromAccount {
+        id
+        slug
+        name
+      }
+      toAccount {
+        id
+        slug
+        name
+      }
+      paymentMethod {
+        id
+        legacyId
+        type
+      }
+    }
+  }
+`;
+
+const sendPaymentUpdateLinkMutation = gql`
+  mutation SendPaymentUpdateLink($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {
+    sendMessage(account: $account, message: $message, subject: $subject) {
+      success
+    }
+  }
+`;
+
+/**
+ * Sends a message to the contributor of a failed contribution with a link to update its payment method.
+ */
+export const SendPaymentUpdateLinkModal = ({ order, onClose }: { order: { id: string }; onClose: () => void }) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [subject, setSubject] = React.useState('');
+  const [message, setMessage] = React.useState('');
+  const { data, loading, error } = useQuery(paymentUpdateLinkOrderQuery, {
+    variables: { order: { id: order.id } },
+    context: API_V2_CONTEXT,
+  });
+  const [sendMessage, { loading: submitting }] = useMutation(sendPaymentUpdateLinkMutation, {
+    context: API_V2_CONTEXT,
+  });
+
+  const loadedOrder = data?.order;
+  React.useEffect(() => {
+    if (loadedOrder) {
+      const values = { collective: loadedOrder.toAccount.name, link: getPaymentUpdateLink(loadedOrder) };
+      setSubject(
+        intl.formatMessage(
+          { defaultMessage: 'Your contribution to {collective} could not be processed', id: 'Dl+3Ls' },
+          values,
+        ),
+      );
+      setMessage(
+        intl.formatMessage(
+          {
+            defaultMessage:
+              'The last payment of your contribution to {collective} failed. Please update your payment method to keep your contribution active: {link}',
+            id: 'pGWrrg',
+          },
+          values,
+        ),
+      );
+    }
+  }, [loadedOrder, intl]);
+
+  const onSubmit = async () => {
+    try {
+      await sendMessage({ variables: { account: { id: loadedOrder.fromAccount.id }, subject, message } });
+      toast({
+        variant: 'success',
+        message: intl.formatMessage(
+          { defaultMessage: 'Payment update link sent to {contributor}', id: 'xaYRfa' },
+          { contributor: loadedOrder.fromAccount.name || loadedOrder.fromAccount.slug },
+        ),
+      });
+      onClose();
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage defaultMessage="Send payment update link" id="wAgSFs" />
+          </DialogTitle>
+          <DialogDescription>
+            <FormattedMessage
+              defaultMessage="The contributor will receive this message by email, with a link to update their payment method."
+              id="/yXTmx"
+            />
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <MessageBoxGraphqlError error={error} />
+        ) : loading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="payment-update-link-subject">
+                <FormattedMessage id="Contact.Subject" defaultMessage="Subject" />
+              </Label>
+              <Input id="payment-update-link-subject" value={subject} onChange={e => setSubject(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-update-link-message">
+                <FormattedMessage id="Contact.Message" defaultMessage="Message" />
+              </Label>
+              <Textarea
+                id="payment-update-link-message"
+                rows={6}
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            <FormattedMessage id="actions.cancel" defaultMessage="Cancel" />
+          </Button>
+          <Button loading={submitting} disabled={!loadedOrder || !message.trim()} onClick={onSubmit}>
+            <FormattedMessage defaultMessage="Send link" id="ts57LU" />
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -23,6 +23,7 @@ import StyledLink from '../../../StyledLink';
 import StyledTooltip from '../../../StyledTooltip';
 
 import PayExpensesScheduledForPaymentButton from './PayExpensesScheduledForPaymentButton';
+import PayoutBatchBuilder from './PayoutBatchBuilder';
 import { getPaypalExpiryInfo } from './PaypalPreApprovalDetailsIcon';
 import TransferwiseDetailsIcon, { BalancesBreakdown } from './TransferwiseDetailsIcon';
 
@@ -102,8 +103,18 @@ type ExpensePipelineOverviewProps = {
   className?: string;
   host: Pick<
     Host,
-    'id' | 'legacyId' | 'currency' | 'paypalPreApproval' | 'transferwise' | 'stripe' | 'paypalPreApproval' | 'slug'
+    | 'id'
+    | 'legacyId'
+    | 'name'
+    | 'currency'
+    | 'paypalPreApproval'
+    | 'transferwise'
+    | 'stripe'
+    | 'paypalPreApproval'
+    | 'slug'
   >;
+  /** Called when expenses are scheduled for payment from the payout batch builder */
+  onBatchScheduled?: () => void;
 };
 
 export default function ExpensePipelineOverview(props: ExpensePipelineOverviewProps) {
@@ -119,6 +130,7 @@ export default function ExpensePipelineOverview(props: ExpensePipelineOverviewPr
       currency: props.host.currency,
     },
   });
+  const [showBatchBuilder, setShowBatchBuilder] = React.useState(false);
 
   if (loading) {
     return <LoadingPlaceholder height={150} />;
@@ -139,6 +151,7 @@ export default function ExpensePipelineOverview(props: ExpensePipelineOverviewPr
         scheduledForPaymentAmount={data.wiseScheduledForPayment.totalAmount.amount}
         scheduledForPaymentCount={data.wiseScheduledForPayment.totalCount}
         scheduledForPaymentAmountByCurrency={data.wiseScheduledForPayment.totalAmount.amountsByCurrency}
+        onBuildBatch={() => setShowBatchBuilder(true)}
       />
       {props.host?.paypalPreApproval && (
         <PayPalStatus
@@ -150,9 +163,17 @@ export default function ExpensePipelineOverview(props: ExpensePipelineOverviewPr
           scheduledForPaymentAmount={data.paypalScheduledForPayment.totalAmount.amount}
           scheduledForPaymentCount={data.paypalScheduledForPayment.totalCount}
           scheduledForPaymentAmountByCurrency={data.paypalScheduledForPayment.totalAmount.amountsByCurrency}
+          onBuildBatch={() => setShowBatchBuilder(true)}
         />
       )}
       {props.host?.stripe?.issuingBalance && <StripeIssuingStatus className="w-full" host={props.host} />}
+      {showBatchBuilder && (
+        <PayoutBatchBuilder
+          host={props.host}
+          onClose={() => setShowBatchBuilder(false)}
+          onScheduled={props.onBatchScheduled}
+        />
+      )}
     </div>
   );
 }
@@ -166,6 +187,7 @@ type WiseStatusProps = {
   scheduledForPaymentCount?: number;
   scheduledForPaymentAmount?: Amount;
   scheduledForPaymentAmountByCurrency?: Amount[];
+  onBuildBatch: () => void;
 };
 
 function WiseStatus(props: WiseStatusProps) {
@@ -257,6 +279,11 @@ function WiseStatus(props: WiseStatusProps) {
           </StyledButton>
         </StyledLink>
 
+        {props.readyToPayCount > 0 && (
+          <StyledButton buttonSize="tiny" width="100%" onClick={props.onBuildBatch} data-cy="build-payout-batch">
+            <FormattedMessage defaultMessage="Build Batch" id="3uDoGq" />
+          </StyledButton>
+        )}
         {props.scheduledForPaymentAmount?.valueInCents > 0 &&
           mainBalance?.valueInCents >= props.scheduledForPaymentAmount?.valueInCents && (
             <PayExpensesScheduledForPaymentButton className="w-full" host={props.host} />
@@ -275,6 +302,7 @@ type PayPalStatusProps = {
   scheduledForPaymentCount?: number;
   scheduledForPaymentAmount?: Amount;
   scheduledForPaymentAmountByCurrency?: Amount[];
+  onBuildBatch: () => void;
 };
 
 function PayPalStatus(props: PayPalStatusProps) {
@@ -359,6 +387,11 @@ function PayPalStatus(props: PayPalStatusProps) {
         <StyledButton loading={loading} onClick={connect} width="100%" buttonSize="tiny">
           <FormattedMessage defaultMessage="Refill Balance" id="dqYT8G" />
         </StyledButton>
+        {props.readyToPayCount > 0 && (
+          <StyledButton buttonSize="tiny" width="100%" onClick={props.onBuildBatch}>
+            <FormattedMessage defaultMessage="Build Batch" id="3uDoGq" />
+          </StyledButton>
+        )}
       </div>
     </StyledCard>
   );
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useQuery } from '@apollo/client';
+import { useApolloClient, useQuery } from '@apollo/client';
 import { omit, omitBy } from 'lodash';
 import { useRouter } from 'next/router';
 import { FormattedMessage, useIntl } from 'react-intl';
@@ -14,12 +14,14 @@ import type {
 import { ExpenseStatusFilter, LastCommentBy, PayoutMethodType } from '../../../../lib/graphql/types/v2/graphql';
 import { useLazyGraphQLPaginatedResults } from '../../../../lib/hooks/useLazyGraphQLPaginatedResults';
 import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
+import { fetchAllPages } from '../../../../lib/pagination';
 
 import ExpensesList from '../../../expenses/ExpensesList';
 import LoadingPlaceholder from '../../../LoadingPlaceholder';
 import MessageBox from '../../../MessageBox';
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import StyledButton from '../../../StyledButton';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { expenseTagFilter } from '../../filters/ExpenseTagsFilter';
@@ -28,10 +30,15 @@ import { hostedAccountFilter } from '../../filters/HostedAccountFilter';
 import { Pagination } from '../../filters/Pagination';
 import type { DashboardSectionProps } from '../../types';
 
+import { useExpenseBulkActions } from './actions';
 import ExpensePipelineOverview from './ExpensePipelineOverview';
 import type { FilterMeta as CommonFilterMeta } from './filters';
 import { filters as commonFilters, schema as commonSchema, toVariables as commonToVariables } from './filters';
-import { hostDashboardExpensesQuery, hostDashboardMetadataQuery } from './queries';
+import {
+  hostDashboardExpensesBulkSelectionQuery,
+  hostDashboardExpensesQuery,
+  hostDashboardMetadataQuery,
+} from './queries';
 import ScheduledExpensesBanner from './ScheduledExpensesBanner';
 
 const filterSchema = commonSchema.extend({
@@ -166,6 +173,7 @@ const HostExpenses = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
     includeUncategorized: true,
   };
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema: filterSchema,
     toVariables,
@@ -173,6 +181,7 @@ const HostExpenses = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
     filters,
     meta,
     views,
+    savedViews: savedViewsScope,
   });
 
   const variables = {
@@ -194,6 +203,31 @@ const HostExpenses = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
   }, [query.paypalApprovalError]);
 
   const { data, error, loading } = expenses;
+  const getBulkActions = useExpenseBulkActions({
+    host: data?.host,
+    onComplete: () => {
+      expenses.refetch();
+      refetchMetaData();
+    },
+  });
+
+  // Selecting all the expenses matching the filters loads them with the fields needed by the bulk actions only
+  const apolloClient = useApolloClient();
+  const fetchAllMatchingExpenses = async () => {
+    const { nodes } = await fetchAllPages(async ({ offset, limit }) => {
+      const result = await apolloClient.query({
+        query: hostDashboardExpensesBulkSelectionQuery,
+        variables: { ...variables, offset, limit },
+        context: API_V2_CONTEXT,
+        // The matching expenses change once the bulk actions are applied
+        fetchPolicy: 'network-only',
+      });
+
+      return result.data.expenses;
+    });
+
+    return nodes;
+  };
 
   const getQueryParams = newParams => {
     return omitBy({ ...query, ...newParams }, (value, key) => !value || ROUTE_PARAMS.includes(key));
@@ -229,7 +263,14 @@ const HostExpenses = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
       ) : errorMetaData ? (
         <MessageBoxGraphqlError error={errorMetaData} />
       ) : (
-        <ExpensePipelineOverview className="pt-4" host={metaData.host} />
+        <ExpensePipelineOverview
+          className="pt-4"
+          host={metaData.host}
+          onBatchScheduled={() => {
+            expenses.refetch();
+            refetchMetaData();
+          }}
+        />
       )}
       <ScheduledExpensesBanner
         hostSlug={hostSlug}
@@ -276,6 +317,9 @@ const HostExpenses = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
             nbPlaceholders={paginatedExpenses.limit}
             expenses={paginatedExpenses.nodes}
             view="admin"
+            getBulkActions={getBulkActions}
+            totalCount={data?.expenses?.totalCount}
+            fetchAllMatchingExpenses={fetchAllMatchingExpenses}
             onProcess={(expense, cache) => {
               onExpenseUpdate({ updatedExpense: expense, cache, variables, refetchMetaData });
             }}
@@ -0,0 +1,526 @@
+import React from 'react';
+import { useApolloClient, useMutation, useQuery } from '@apollo/client';
+import { Info } from '@styled-icons/feather/Info';
+import { Download } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import type { BulkAction } from '../../../../lib/actions/types';
+import { formatCurrency } from '../../../../lib/currency-utils';
+import dayjs from '../../../../lib/dayjs';
+import { processExpenseMutation } from '../../../../lib/expenses/useProcessExpense';
+import { exportFile } from '../../../../lib/export_file';
+import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
+import type { Host } from '../../../../lib/graphql/types/v2/graphql';
+import type { PaymentFileTransfer } from './lib/payment-files';
+import {
+  generateNACHAFile,
+  generateSEPACreditTransferFile,
+  getPaymentFileIssue,
+  PaymentFileCurrency,
+  PaymentFileFormat,
+} from './lib/payment-files';
+import type { PayoutBatchExpense, PayoutBatchGroup } from './lib/payout-batch';
+import { canSchedulePayoutMethod, groupPayoutBatchExpenses } from './lib/payout-batch';
+
+import PayoutMethodTypeWithIcon from '../../../expenses/PayoutMethodTypeWithIcon';
+import FormattedMoneyAmount from '../../../FormattedMoneyAmount';
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import StyledTooltip from '../../../StyledTooltip';
+import { BulkActionDialog, useBulkActionRun } from '../../../table/BulkActions';
+import { Badge } from '../../../ui/Badge';
+import { Button } from '../../../ui/Button';
+import { ButtonSet } from '../../../ui/ButtonSet';
+import { Checkbox } from '../../../ui/Checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { Input } from '../../../ui/Input';
+import { Label } from '../../../ui/Label';
+import { Skeleton } from '../../../ui/Skeleton';
+
+import { BalancesBreakdown } from './TransferwiseDetailsIcon';
+
+const MAX_BATCH_SIZE = 1000;
+
+const payoutBatchBuilderQuery = gql`
+  query PayoutBatchBuilder($hostSlug: String!, $limit: Int!) {
+    expenses(
+      host: { slug: $hostSlug }
+      status: READY_TO_PAY
+      limit: $limit
+      orderBy: { field: CREATED_AT, direction: ASC }
+    ) {
+      totalCount
+      nodes {
+        id
+        legacyId
+        description
+        amountV2 {
+          valueInCents
+          currency
+        }
+        feesPayer
+        payoutMethod {
+          id
+          type
+          data
+        }
+        payee {
+          id
+          slug
+          name
+          legalName
+        }
+        account {
+          id
+          slug
+          name
+        }
+        permissions {
+          id
+          canPay
+        }
+      }
+    }
+  }
+`;
+
+const PaymentFileIssueLabel = ({ issue, format }: { issue: string; format: PaymentFileFormat }) =>
+  issue === 'CURRENCY' ? (
+    <FormattedMessage
+      defaultMessage="Only {currency} expenses can be paid with this format"
+      id="S0l/8N"
+      values={{ currency: PaymentFileCurrency[format] }}
+    />
+  ) : (
+    <FormattedMessage defaultMessage="The payout method is missing the required bank details" id="nwzVxF" />
+  );
+
+const toPaymentFileTransfer = (expense: PayoutBatchExpense): PaymentFileTransfer => ({
+  id: `EXPENSE-${expense.legacyId}`,
+  amount: expense.amountV2.valueInCents,
+  currency: expense.amountV2.currency,
+  reference: `Expense #${expense.legacyId} - ${expense.description}`,
+  beneficiaryName: expense.payoutMethod?.data?.accountHolderName || expense.payee.legalName || expense.payee.name,
+  bankAccount: expense.payoutMethod?.data,
+});
+
+const GroupCoverage = ({ group }: { group: PayoutBatchGroup }) => {
+  if (group.coverage === 'UNKNOWN') {
+    return (
+      <Badge type="neutral" size="sm">
+        <FormattedMessage defaultMessage="No balance information" id="uCmOXM" />
+      </Badge>
+    );
+  } else if (group.coverage === 'COVERED') {
+    return (
+      <Badge type="success" size="sm">
+        <FormattedMessage
+          defaultMessage="Covered by the {balance} balance"
+          id="n8tmoj"
+          values={{ balance: formatCurrency(group.balance.valueInCents, group.balance.currency) }}
+        />
+      </Badge>
+    );
+  } else {
+    return (
+      <Badge type="error" size="sm">
+        <FormattedMessage
+          defaultMessage="{missing} missing from the {balance} balance"
+          id="EsiUb1"
+          values={{
+            missing: formatCurrency(group.includedAmount - group.balance.valueInCents, group.currency),
+            balance: formatCurrency(group.balance.valueInCents, group.balance.currency),
+          }}
+        />
+      </Badge>
+    );
+  }
+};
+
+const PayoutBatchGroupCard = ({
+  group,
+  excludedIds,
+  setExcludedIds,
+  balances,
+}: {
+  group: PayoutBatchGroup;
+  excludedIds: string[];
+  setExcludedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  balances?: Host['transferwise']['balances'];
+}) => {
+  const groupIds = group.expenses.map(expense => expense.id);
+  return (
+    <div className="rounded-lg border" data-cy={`payout-batch-group-${group.key}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-slate-50 px-3 py-2">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            checked={group.nbIncluded === group.expenses.length ? true : group.nbIncluded ? 'indeterminate' : false}
+            onCheckedChange={checked =>
+              setExcludedIds(ids =>
+                checked === true ? ids.filter(id => !groupIds.includes(id)) : [...ids, ...groupIds],
+              )
+            }
+          />
+          <PayoutMethodTypeWithIcon type={group.payoutMethodType} iconSize={16} />
+          <Badge type="outline" size="xs">
+            {group.currency}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">
+            <FormattedMessage
+              defaultMessage="{included} of {total} included"
+              id="+5+tZE"
+              values={{ included: group.nbIncluded, total: group.expenses.length }}
+            />
+          </span>
+          <FormattedMoneyAmount amount={group.includedAmount} currency={group.currency} />
+          <GroupCoverage group={group} />
+          {group.balance && balances?.length > 1 && (
+            <StyledTooltip content={() => <BalancesBreakdown balances={balances} />}>
+              <Info size={16} color="#76777A" />
+            </StyledTooltip>
+          )}
+        </div>
+      </div>
+      <ul className="max-h-64 divide-y overflow-y-auto">
+        {group.expenses.map(expense => (
+          <li key={expense.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <Checkbox
+              checked={!excludedIds.includes(expense.id)}
+              onCheckedChange={checked =>
+                setExcludedIds(ids => (checked === true ? ids.filter(id => id !== expense.id) : [...ids, expense.id]))
+              }
+            />
+            <div className="flex min-w-0 flex-1 flex-col">
+              <span className="truncate font-medium">
+                #{expense.legacyId} - {expense.description}
+              </span>
+              <span className="truncate text-xs text-muted-foreground">
+                {expense.payee.name} · {expense.account.name}
+              </span>
+            </div>
+            <FormattedMoneyAmount amount={expense.amountV2.valueInCents} currency={expense.amountV2.currency} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const PaymentFileExport = ({
+  host,
+  expenses,
+  onBack,
+}: {
+  host: Pick<Host, 'name' | 'slug'>;
+  expenses: PayoutBatchExpense[];
+  onBack: () => void;
+}) => {
+  const [format, setFormat] = React.useState(PaymentFileFormat.SEPA);
+  const [values, setValues] = React.useState({
+    name: host.name,
+    iban: '',
+    bic: '',
+    companyId: '',
+    routingNumber: '',
+    date: dayjs().format('YYYY-MM-DD'),
+  });
+  const transfers = expenses.map(toPaymentFileTransfer);
+  const issues = transfers.map(transfer => getPaymentFileIssue(format, transfer));
+  const exportableTransfers = transfers.filter((_, index) => !issues[index]);
+  const leftOut = expenses.filter((_, index) => issues[index]);
+  const isValid =
+    exportableTransfers.length > 0 &&
+    values.name &&
+    (format === PaymentFileFormat.SEPA ? values.iban : values.companyId && values.routingNumber?.length === 9);
+
+  const download = () => {
+    const date = dayjs(values.date).toDate();
+    const fileDate = dayjs().format('YYYY-MM-DD');
+    if (format === PaymentFileFormat.SEPA) {
+      const content = generateSEPACreditTransferFile({
+        transfers: exportableTransfers,
+        debtor: { name: values.name, iban: values.iban, bic: values.bic },
+        messageId: `${host.slug}-${dayjs().format('YYYYMMDDHHmmss')}`,
+        executionDate: date,
+      });
+      exportFile('application/xml;charset=utf-8', `${host.slug}-payouts-${fileDate}.xml`, content);
+    } else {
+      const content = generateNACHAFile({
+        transfers: exportableTransfers,
+        originator: {
+          companyName: values.name,
+          companyId: values.companyId,
+          originatingRoutingNumber: values.routingNumber,
+        },
+        effectiveDate: date,
+      });
+      exportFile('text/plain;charset=utf-8', `${host.slug}-payouts-${fileDate}.ach`, content);
+    }
+  };
+
+  const field = (key: keyof typeof values, label: React.ReactNode, props: React.ComponentProps<typeof Input> = {}) => (
+    <div className="flex flex-col gap-1.5">
+      <Label htmlFor={`payment-file-${key}`}>{label}</Label>
+      <Input
+        id={`payment-file-${key}`}
+        value={values[key]}
+        onChange={e => setValues({ ...values, [key]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <React.Fragment>
+      <div className="flex flex-col gap-4 text-sm">
+        <p className="text-muted-foreground">
+          <FormattedMessage
+            defaultMessage="Generates a file to import in your bank to pay the included expenses manually. Once paid, the expenses must be marked as paid."
+            id="uiCLFs"
+          />
+        </p>
+        <ButtonSet
+          className="mt-0"
+          selected={format}
+          onChange={setFormat}
+          options={[
+            { value: PaymentFileFormat.SEPA, label: 'SEPA (pain.001)' },
+            { value: PaymentFileFormat.NACHA, label: 'NACHA (ACH)' },
+          ]}
+        />
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {field(
+            'name',
+            format === PaymentFileFormat.SEPA ? (
+              <FormattedMessage defaultMessage="Account holder name" id="kqidNP" />
+            ) : (
+              <FormattedMessage defaultMessage="Company name" id="FPGwAt" />
+            ),
+          )}
+          {format === PaymentFileFormat.SEPA ? (
+            <React.Fragment>
+              {field('iban', <FormattedMessage defaultMessage="IBAN of the account to debit" id="GMGKSZ" />)}
+              {field('bic', <FormattedMessage defaultMessage="BIC (optional)" id="7lMr9M" />)}
+            </React.Fragment>
+          ) : (
+            <React.Fragment>
+              {field('companyId', <FormattedMessage defaultMessage="Company identification" id="Lr2HLi" />, {
+                maxLength: 10,
+              })}
+              {field('routingNumber', <FormattedMessage defaultMessage="Routing number of your bank" id="Nr1I6G" />, {
+                maxLength: 9,
+              })}
+            </React.Fragment>
+          )}
+          {field('date', <FormattedMessage defaultMessage="Execution date" id="9wtX7s" />, { type: 'date' })}
+        </div>
+        <p>
+          <FormattedMessage
+            defaultMessage="{count, plural, one {# expense} other {# expenses}} will be included in the file, for a total of {amount}."
+            id="oIOsXg"
+            values={{
+              count: exportableTransfers.length,
+              amount: formatCurrency(
+                exportableTransfers.reduce((total, transfer) => total + transfer.amount, 0),
+                PaymentFileCurrency[format],
+              ),
+            }}
+          />
+        </p>
+        {leftOut.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-muted-foreground">
+              <FormattedMessage
+                defaultMessage="{count, plural, one {# expense is} other {# expenses are}} left out of the file:"
+                id="SQyGFi"
+                values={{ count: leftOut.length }}
+              />
+            </p>
+            <ul className="max-h-40 divide-y overflow-y-auto rounded-lg border">
+              {leftOut.map(expense => (
+                <li key={expense.id} className="flex flex-col gap-0.5 px-3 py-2">
+                  <span className="font-medium">
+                    #{expense.legacyId} - {expense.description}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    <PaymentFileIssueLabel issue={issues[expenses.indexOf(expense)]} format={format} />
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onBack}>
+          <FormattedMessage defaultMessage="Back" id="Back" />
+        </Button>
+        <Button disabled={!isValid} onClick={download} className="gap-1.5" data-cy="download-payment-file">
+          <Download size={16} />
+          <FormattedMessage defaultMessage="Download" id="Download" />
+        </Button>
+      </DialogFooter>
+    </React.Fragment>
+  );
+};
+
+/**
+ * Lets the host admins compose a batch of the expenses ready to pay: expenses are grouped by payout method and
+ * currency, with the balance available to pay them. The included expenses can be scheduled for payment together,
+ * or exported to a payment file for manual bank payouts.
+ */
+export default function PayoutBatchBuilder({
+  host,
+  onClose,
+  onScheduled,
+}: {
+  host: Pick<Host, 'slug' | 'name' | 'transferwise' | 'paypalPreApproval'>;
+  onClose: () => void;
+  onScheduled?: () => void;
+}) {
+  const intl = useIntl();
+  const apolloClient = useApolloClient();
+  const [excludedIds, setExcludedIds] = React.useState<string[]>([]);
+  const [step, setStep] = React.useState<'review' | 'export'>('review');
+  const [isScheduling, setIsScheduling] = React.useState(false);
+  const scheduleRun = useBulkActionRun<PayoutBatchExpense>();
+  const { data, loading, error, refetch } = useQuery(payoutBatchBuilderQuery, {
+    variables: { hostSlug: host.slug, limit: MAX_BATCH_SIZE },
+    context: API_V2_CONTEXT,
+    fetchPolicy: 'network-only',
+  });
+  const [processExpense] = useMutation(processExpenseMutation, { context: API_V2_CONTEXT });
+
+  const expenses: PayoutBatchExpense[] = React.useMemo(() => data?.expenses?.nodes || [], [data]);
+  const groups = React.useMemo(
+    () => groupPayoutBatchExpenses(expenses, excludedIds, host),
+    [expenses, excludedIds, host],
+  );
+  const includedExpenses = expenses.filter(expense => !excludedIds.includes(expense.id));
+
+  const scheduleAction: BulkAction<PayoutBatchExpense> = {
+    key: 'schedule',
+    label: intl.formatMessage({ defaultMessage: 'Schedule for payment', id: 'rdYj0S' }),
+    isAvailable: expense => expense.permissions.canPay && canSchedulePayoutMethod(expense.payoutMethod?.type, host),
+    getUnavailableReason: expense =>
+      !expense.permissions.canPay
+        ? intl.formatMessage({ defaultMessage: 'You are not allowed to pay this expense', id: 'JH9wfy' })
+        : intl.formatMessage({
+            defaultMessage: 'This payout method is paid manually, it cannot be scheduled',
+            id: '8KFEmq',
+          }),
+    confirmMessage: intl.formatMessage(
+      {
+        defaultMessage:
+          '{count, plural, one {# expense} other {# expenses}} will be scheduled for payment. They will be paid when the batch is paid with Wise or PayPal.',
+        id: 'qkaW/L',
+      },
+      { count: includedExpenses.length },
+    ),
+    perform: expense =>
+      processExpense({
+        variables: {
+          id: expense.id,
+          legacyId: expense.legacyId,
+          action: 'SCHEDULE_FOR_PAYMENT',
+          paymentParams: { feesPayer: expense.feesPayer },
+        },
+      }),
+    onComplete: () => {
+      refetch();
+      apolloClient.refetchQueries({ include: ['ScheduledExpensesBanner', 'ExpensePipelineOverview'] });
+      onScheduled?.();
+    },
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            {step === 'review' ? (
+              <FormattedMessage defaultMessage="Build a payout batch" id="Gd/Fb+" />
+            ) : (
+              <FormattedMessage defaultMessage="Export a payment file" id="Drl0ly" />
+            )}
+          </DialogTitle>
+        </DialogHeader>
+        {error ? (
+          <MessageBoxGraphqlError error={error} />
+        ) : loading ? (
+          <div className="flex flex-col gap-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : step === 'export' ? (
+          <PaymentFileExport host={host} expenses={includedExpenses} onBack={() => setStep('review')} />
+        ) : (
+          <React.Fragment>
+            <div className="flex max-h-[60vh] flex-col gap-4 overflow-y-auto">
+              {groups.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  <FormattedMessage defaultMessage="There are no expenses ready to pay." id="SNF+FI" />
+                </p>
+              ) : (
+                groups.map(group => (
+                  <PayoutBatchGroupCard
+                    key={group.key}
+                    group={group}
+                    excludedIds={excludedIds}
+                    setExcludedIds={setExcludedIds}
+                    balances={group.payoutMethodType === 'BANK_ACCOUNT' ? host.transferwise?.balances : null}
+                  />
+                ))
+              )}
+              {data?.expenses?.totalCount > expenses.length && (
+                <p className="text-sm text-muted-foreground">
+                  <FormattedMessage
+                    defaultMessage="Only the {count} oldest expenses ready to pay are listed."
+                    id="eZcY6C"
+                    values={{ count: expenses.length }}
+                  />
+                </p>
+              )}
+            </div>
+            <DialogFooter className="sm:items-center sm:justify-between">
+              <span className="text-sm text-muted-foreground">
+                <FormattedMessage
+                  defaultMessage="{count, plural, one {# expense} other {# expenses}} included"
+                  id="HhuBPM"
+                  values={{ count: includedExpenses.length }}
+                />
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  disabled={!includedExpenses.length}
+                  onClick={() => setStep('export')}
+                  data-cy="export-payment-file"
+                >
+                  <FormattedMessage defaultMessage="Export payment file" id="55bGXr" />
+                </Button>
+                <Button
+                  disabled={!includedExpenses.length}
+                  onClick={() => setIsScheduling(true)}
+                  data-cy="schedule-payout-batch"
+                >
+                  <FormattedMessage defaultMessage="Schedule for payment" id="rdYj0S" />
+                </Button>
+              </div>
+            </DialogFooter>
+          </React.Fragment>
+        )}
+        {isScheduling && (
+          <BulkActionDialog<PayoutBatchExpense>
+            action={scheduleAction}
+            values={includedExpenses}
+            getRowLabel={expense => `#${expense.legacyId} - ${expense.description}`}
+            bulkActionRun={scheduleRun}
+            onClose={() => setIsScheduling(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useQuery } from '@apollo/client';
+import { useApolloClient, useQuery } from '@apollo/client';
 import { get, omit } from 'lodash';
 import { useRouter } from 'next/router';
 import { defineMessage, FormattedMessage } from 'react-intl';
@@ -9,8 +9,10 @@ import type { FilterComponentConfigs, FiltersToVariables } from '../../../../lib
 import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
 import type { Account, ExpensesPageQueryVariables } from '../../../../lib/graphql/types/v2/graphql';
 import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
+import { fetchAllPages } from '../../../../lib/pagination';
 
 import ExpensesList from '../../../expenses/ExpensesList';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ComboSelectFilter from '../../filters/ComboSelectFilter';
@@ -20,9 +22,10 @@ import { AccountRenderer } from '../../filters/HostedAccountFilter';
 import { Pagination } from '../../filters/Pagination';
 import type { DashboardSectionProps } from '../../types';
 
+import { useExpenseBulkActions } from './actions';
 import type { FilterMeta as CommonFilterMeta } from './filters';
 import { filters as commonFilters, schema as commonSchema, toVariables as commonToVariables } from './filters';
-import { accountExpensesMetadataQuery, accountExpensesQuery } from './queries';
+import { accountExpensesBulkSelectionQuery, accountExpensesMetadataQuery, accountExpensesQuery } from './queries';
 
 const schema = commonSchema.extend({
   account: z.string().nullable().default(null),
@@ -97,23 +100,47 @@ const ReceivedExpenses = ({ accountSlug }: DashboardSectionProps) => {
     includeUncategorized: true,
   };
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema: hostSlug ? schema : schemaWithoutHost,
     toVariables,
     meta: filterMeta,
     filters: hostSlug ? filters : filtersWithoutHost,
+    savedViews: savedViewsScope,
   });
 
-  const { data, loading } = useQuery(accountExpensesQuery, {
-    variables: {
-      account: { slug: accountSlug },
-      fetchHostForExpenses: false, // Already fetched at the root level
-      hasAmountInCreatedByAccountCurrency: false,
-      ...queryFilter.variables,
-    },
-    context: API_V2_CONTEXT,
-  });
+  const variables = {
+    account: { slug: accountSlug },
+    fetchHostForExpenses: false, // Already fetched at the root level
+    hasAmountInCreatedByAccountCurrency: false,
+    ...queryFilter.variables,
+  };
+
+  const { data, loading, refetch } = useQuery(accountExpensesQuery, { variables, context: API_V2_CONTEXT });
+
+  // Selecting all the expenses matching the filters loads them with the fields needed by the bulk actions only
+  const apolloClient = useApolloClient();
+  const fetchAllMatchingExpenses = async () => {
+    const { nodes } = await fetchAllPages(async ({ offset, limit }) => {
+      const result = await apolloClient.query({
+        query: accountExpensesBulkSelectionQuery,
+        variables: {
+          ...omit(variables, ['fetchHostForExpenses', 'hasAmountInCreatedByAccountCurrency']),
+          offset,
+          limit,
+        },
+        context: API_V2_CONTEXT,
+        // The matching expenses change once the bulk actions are applied
+        fetchPolicy: 'network-only',
+      });
+
+      return result.data.expenses;
+    });
+
+    return nodes;
+  };
 
+  const getBulkActions = useExpenseBulkActions({ host: metadata?.account?.host, onComplete: () => refetch() });
   const pageRoute = `/dashboard/${accountSlug}/expenses`;
 
   return (
@@ -138,6 +165,9 @@ const ReceivedExpenses = ({ accountSlug }: DashboardSectionProps) => {
             host={metadata?.account?.host}
             expenses={data?.expenses?.nodes}
             nbPlaceholders={queryFilter.values.limit}
+            getBulkActions={getBulkActions}
+            totalCount={data?.expenses?.totalCount}
+            fetchAllMatchingExpenses={fetchAllMatchingExpenses}
             useDrawer
             openExpenseLegacyId={Number(router.query.openExpenseId)}
             setOpenExpenseLegacyId={legacyId => {
@@ -0,0 +1,431 @@
+import React from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import type { ColumnDef, TableMeta } from '@tanstack/react-table';
+import { Pencil, XCircle } from 'lucide-react';
+import type { IntlShape } from 'react-intl';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import type { GetActions } from '../../../../lib/actions/types';
+import dayjs from '../../../../lib/dayjs';
+import { i18nGraphqlException } from '../../../../lib/errors';
+import type { RecurringExpenseSchedule } from '../../../../lib/expenses/recurring-expenses';
+import {
+  getRecurringExpenseNextRunDate,
+  getRecurringExpenseSchedules,
+  RECURRING_EXPENSE_MAX_INTERVAL_DAYS,
+} from '../../../../lib/expenses/recurring-expenses';
+import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
+import type { RecurringExpenseInterval } from '../../../../lib/graphql/types/v2/graphql';
+import { RecurringExpenseIntervals } from '../../../../lib/i18n/expense';
+
+import Avatar from '../../../Avatar';
+import DateTime from '../../../DateTime';
+import ExpenseDrawer from '../../../expenses/ExpenseDrawer';
+import ExpenseStatusTag from '../../../expenses/ExpenseStatusTag';
+import FormattedMoneyAmount from '../../../FormattedMoneyAmount';
+import MessageBox from '../../../MessageBox';
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { useModal } from '../../../ModalContext';
+import { actionsColumn, DataTable } from '../../../table/DataTable';
+import Tabs from '../../../Tabs';
+import { useToast } from '../../../ui/useToast';
+import DashboardHeader from '../../DashboardHeader';
+import type { DashboardSectionProps } from '../../types';
+
+/**
+ * The API doesn't list recurring expenses: they're found through the expenses of the last year, in a single page.
+ * Older schedules, or schedules of accounts with more expenses, are not listed.
+ */
+const MAX_EXPENSES = 1000;
+
+const recurringExpenseLastExpenseFieldsFragment = gql`
+  fragment RecurringExpenseLastExpenseFields on Expense {
+    id
+    legacyId
+    description
+    status
+    createdAt
+    amountV2 {
+      valueInCents
+      currency
+    }
+    permissions {
+      id
+      canEdit
+      canDelete
+    }
+  }
+`;
+
+const recurringExpenseAccountFieldsFragment = gql`
+  fragment RecurringExpenseAccountFields on Account {
+    id
+    slug
+    name
+    type
+    imageUrl
+  }
+`;
+
+const recurringExpensesQuery = gql`
+  query RecurringExpenses(
+    $slug: String!
+    $fromAccount: AccountReferenceInput
+    $account: AccountReferenceInput
+    $host: AccountReferenceInput
+    $dateFrom: DateTime
+    $limit: Int!
+  ) {
+    account(slug: $slug) {
+      id
+      slug
+      name
+      type
+      isHost
+    }
+    expenses(
+      fromAccount: $fromAccount
+      account: $account
+      host: $host
+      dateFrom: $dateFrom
+      limit: $limit
+      orderBy: { field: CREATED_AT, direction: DESC }
+    ) {
+      totalCount
+      nodes {
+        id
+        ...RecurringExpenseLastExpenseFields
+        recurringExpense {
+          id
+          interval
+          endsAt
+          lastDraftedAt
+          account {
+            id
+            ...RecurringExpenseAccountFields
+          }
+          fromAccount {
+            id
+            ...RecurringExpenseAccountFields
+          }
+          lastExpenseCreated {
+            id
+            ...RecurringExpenseLastExpenseFields
+          }
+        }
+      }
+    }
+  }
+  ${recurringExpenseLastExpenseFieldsFragment}
+  ${recurringExpenseAccountFieldsFragment}
+`;
+
+const deleteRecurringExpenseMutation = gql`
+  mutation DeleteRecurringExpense($expense: ExpenseReferenceInput!) {
+    deleteExpense(expense: $expense) {
+      id
+    }
+  }
+`;
+
+enum RecurringExpensesView {
+  SUBMITTED = 'SUBMITTED',
+  RECEIVED = 'RECEIVED',
+  HOSTED = 'HOSTED',
+}
+
+type RecurringExpenseAccount = { id: string; slug: string; name: string; type: string; imageUrl?: string };
+
+type RecurringExpenseLastExpense = {
+  id: string;
+  legacyId: number;
+  description: string;
+  status: string;
+  createdAt: string;
+  amountV2: { valueInCents: number; currency: string };
+  permissions: { canEdit: boolean; canDelete: boolean };
+};
+
+type ListedRecurringExpense = {
+  id: string;
+  interval: RecurringExpenseInterval;
+  endsAt?: string;
+  lastDraftedAt: string;
+  account: RecurringExpenseAccount;
+  fromAccount: RecurringExpenseAccount;
+  lastExpenseCreated?: RecurringExpenseLastExpense | null;
+};
+
+type Schedule = RecurringExpenseSchedule<ListedRecurringExpense, RecurringExpenseLastExpense>;
+
+interface RecurringExpensesTableMeta extends TableMeta<Schedule> {
+  intl: IntlShape;
+  view: RecurringExpensesView;
+}
+
+const AccountCell = ({ account }: { account: RecurringExpenseAccount }) => (
+  <div className="flex items-center gap-2 truncate">
+    <Avatar collective={account} radius={24} />
+    <span className="truncate">{account.name}</span>
+  </div>
+);
+
+const columns: ColumnDef<Schedule>[] = [
+  {
+    accessorKey: 'lastExpense.description',
+    header: () => <FormattedMessage id="Fields.description" defaultMessage="Description" />,
+    meta: { className: 'w-56' },
+    cell: ({ row, table }) => {
+      const { view } = table.options.meta as RecurringExpensesTableMeta;
+      const { lastExpense, account, fromAccount } = row.original;
+      return (
+        <div className="space-y-1">
+          <div className="truncate font-medium">{lastExpense.description}</div>
+          {view !== RecurringExpensesView.SUBMITTED && <AccountCell account={fromAccount} />}
+          {view !== RecurringExpensesView.RECEIVED && <AccountCell account={account} />}
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: 'lastExpense.amountV2',
+    header: () => <FormattedMessage id="Fields.amount" defaultMessage="Amount" />,
+    meta: { className: 'w-32' },
+    cell: ({ row }) => {
+      const { amountV2 } = row.original.lastExpense;
+      return <FormattedMoneyAmount amount={amountV2.valueInCents} currency={amountV2.currency} />;
+    },
+  },
+  {
+    accessorKey: 'interval',
+    header: () => <FormattedMessage id="Frequency" defaultMessage="Frequency" />,
+    meta: { className: 'w-28' },
+    cell: ({ row }) => RecurringExpenseIntervals[row.original.interval] || row.original.interval,
+  },
+  {
+    id: 'nextRun',
+    header: () => <FormattedMessage defaultMessage="Next expense" id="5Ow3zp" />,
+    meta: { className: 'w-32' },
+    cell: ({ row }) => {
+      const nextRun = getRecurringExpenseNextRunDate(row.original);
+      return nextRun ? (
+        <DateTime value={nextRun.toDate()} dateStyle="medium" />
+      ) : (
+        <span className="italic text-muted-foreground">
+          <FormattedMessage defaultMessage="Ended" id="TP/cMX" />
+        </span>
+      );
+    },
+  },
+  {
+    accessorKey: 'endsAt',
+    header: () => <FormattedMessage id="EndDate" defaultMessage="End Date" />,
+    meta: { className: 'w-32' },
+    cell: ({ row }) =>
+      row.original.endsAt ? (
+        <DateTime value={row.original.endsAt} dateStyle="medium" />
+      ) : (
+        <span className="italic text-muted-foreground">
+          <FormattedMessage defaultMessage="Never" id="du1laW" />
+        </span>
+      ),
+  },
+  {
+    id: 'lastExpense',
+    header: () => <FormattedMessage defaultMessage="Last expense" id="J6UEXY" />,
+    meta: { className: 'w-44' },
+    cell: ({ row }) => {
+      const { lastExpense } = row.original;
+      return (
+        <div className="flex flex-col items-start gap-1">
+          <span className="text-sm">
+            #{lastExpense.legacyId} · <DateTime value={lastExpense.createdAt} dateStyle="medium" />
+          </span>
+          <ExpenseStatusTag status={lastExpense.status} />
+          {!lastExpense.permissions.canEdit && getRecurringExpenseNextRunDate(row.original) && (
+            <span className="text-xs text-muted-foreground">
+              <FormattedMessage
+                defaultMessage="Can't be edited anymore, the next expenses will be copies of it"
+                id="HRGN26"
+              />
+            </span>
+          )}
+        </div>
+      );
+    },
+  },
+  actionsColumn,
+];
+
+/**
+ * Lists the recurring expense schedules of an account: the ones it submits, the ones it pays and, for hosts, the ones
+ * of their hosted collectives. See `lib/expenses/recurring-expenses`.
+ */
+const RecurringExpenses = ({ accountSlug }: DashboardSectionProps) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const { showConfirmationModal } = useModal();
+  const [view, setView] = React.useState<RecurringExpensesView>(RecurringExpensesView.SUBMITTED);
+  const [openExpenseLegacyId, setOpenExpenseLegacyId] = React.useState<number>(null);
+  const [dateFrom] = React.useState(() =>
+    dayjs.utc().subtract(RECURRING_EXPENSE_MAX_INTERVAL_DAYS, 'day').startOf('day').toISOString(),
+  );
+  const accountReference = { slug: accountSlug };
+  const { data, loading, error, refetch } = useQuery(recurringExpensesQuery, {
+    context: API_V2_CONTEXT,
+    variables: {
+      slug: accountSlug,
+      fromAccount: view === RecurringExpensesView.SUBMITTED ? accountReference : null,
+      account: view === RecurringExpensesView.RECEIVED ? accountReference : null,
+      host: view === RecurringExpensesView.HOSTED ? accountReference : null,
+      dateFrom,
+      limit: MAX_EXPENSES,
+    },
+  });
+  const [deleteExpense] = useMutation(deleteRecurringExpenseMutation, { context: API_V2_CONTEXT });
+
+  const account = data?.account;
+  const schedules = React.useMemo(
+    () =>
+      getRecurringExpenseSchedules<ListedRecurringExpense, RecurringExpenseLastExpense>(data?.expenses?.nodes || []),
+    [data?.expenses?.nodes],
+  );
+
+  const tabs = [
+    {
+      id: RecurringExpensesView.SUBMITTED,
+      label: intl.formatMessage(
+        { id: 'PVqJoO', defaultMessage: 'From {accountName}' },
+        { accountName: account?.name || accountSlug },
+      ),
+    },
+    ...(account && account.type !== 'INDIVIDUAL'
+      ? [
+          {
+            id: RecurringExpensesView.RECEIVED,
+            label: intl.formatMessage(
+              { id: 'hZhgoW', defaultMessage: 'To {accountName}' },
+              { accountName: account.name },
+            ),
+          },
+        ]
+      : []),
+    ...(account?.isHost
+      ? [
+          {
+            id: RecurringExpensesView.HOSTED,
+            label: intl.formatMessage({ id: 'HostedCollectives', defaultMessage: 'Hosted Collectives' }),
+          },
+        ]
+      : []),
+  ];
+
+  const getActions: GetActions<Schedule> = (schedule, onCloseFocusRef) => {
+    const { lastExpense } = schedule;
+    return {
+      // The next expenses are copies of the last one, which can only be changed while it's editable (e.g. not paid)
+      primary:
+        lastExpense.permissions.canEdit && getRecurringExpenseNextRunDate(schedule)
+          ? [
+              {
+                key: 'edit',
+                label: intl.formatMessage({ defaultMessage: 'Edit next expenses', id: 'HCHcob' }),
+                Icon: Pencil,
+                onClick: () => setOpenExpenseLegacyId(lastExpense.legacyId),
+              },
+            ]
+          : [],
+      secondary: [
+        {
+          key: 'cancel',
+          label: intl.formatMessage({
+            id: 'Expense.Recurring.Edit.Cancel',
+            defaultMessage: 'Cancel Recurring Expense',
+          }),
+          Icon: XCircle,
+          disabled: !lastExpense.permissions?.canDelete,
+          onClick: () =>
+            showConfirmationModal({
+              title: intl.formatMessage({
+                id: 'Expense.Recurring.Edit.Cancel',
+                defaultMessage: 'Cancel Recurring Expense',
+              }),
+              description: intl.formatMessage(
+                {
+                  defaultMessage:
+                    'No more expenses will be submitted for this schedule. Its last expense (#{legacyId}) is deleted.',
+                  id: 'YmsEPj',
+                },
+                { legacyId: lastExpense.legacyId },
+              ),
+              variant: 'destructive',
+              onConfirm: async () => {
+                try {
+                  await deleteExpense({ variables: { expense: { id: lastExpense.id } } });
+                  toast({
+                    variant: 'success',
+                    message: intl.formatMessage({ defaultMessage: 'Recurring expense cancelled', id: 'XvnR23' }),
+                  });
+                  refetch();
+                } catch (e) {
+                  toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+                }
+              },
+              onCloseFocusRef,
+            }),
+        },
+      ],
+    };
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <DashboardHeader
+        title={<FormattedMessage defaultMessage="Recurring expenses" id="KCYVWN" />}
+        description={
+          <FormattedMessage
+            defaultMessage="Expenses that are submitted again on a periodic basis. Each new expense is a copy of the last one, edit it to change the next expenses."
+            id="GwekzV"
+          />
+        }
+      />
+      {tabs.length > 1 && <Tabs tabs={tabs} selectedId={view} onChange={id => setView(id as RecurringExpensesView)} />}
+      {error ? (
+        <MessageBoxGraphqlError error={error} />
+      ) : (
+        <React.Fragment>
+          <MessageBox type="info" withIcon>
+            <FormattedMessage
+              defaultMessage="Recurring expenses are found through the expenses of the last 12 months: older schedules are not listed, nor the ones beyond the last {count} expenses. Pausing a recurring expense is not supported yet, cancel it and submit a new one instead."
+              id="/kJ2N/"
+              values={{ count: MAX_EXPENSES }}
+            />
+          </MessageBox>
+          <DataTable
+            data-cy="recurring-expenses-table"
+            innerClassName="table-fixed"
+            mobileTableView
+            columns={columns}
+            data={schedules}
+            meta={{ intl, view } as RecurringExpensesTableMeta}
+            loading={loading}
+            nbPlaceholders={5}
+            onClickRow={row => setOpenExpenseLegacyId(row.original.lastExpense.legacyId)}
+            getActions={getActions}
+            getRowId={schedule => schedule.id}
+            emptyMessage={() => <FormattedMessage defaultMessage="No recurring expenses" id="TK1nFU" />}
+          />
+        </React.Fragment>
+      )}
+      <ExpenseDrawer
+        openExpenseLegacyId={openExpenseLegacyId}
+        handleClose={() => {
+          setOpenExpenseLegacyId(null);
+          refetch();
+        }}
+      />
+    </div>
+  );
+};
+
+export default RecurringExpenses;
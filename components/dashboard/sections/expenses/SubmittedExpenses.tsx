@@ -4,6 +4,8 @@ import { omit } from 'lodash';
 import { useRouter } from 'next/router';
 import { FormattedMessage } from 'react-intl';
 
+import type { LocalExpenseDraft } from '../../../../lib/expenses/local-expense-drafts';
+import { getLocalExpenseDrafts, removeLocalExpenseDraft } from '../../../../lib/expenses/local-expense-drafts';
 import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
 import useLoggedInUser from '../../../../lib/hooks/useLoggedInUser';
 import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
@@ -11,8 +13,10 @@ import { PREVIEW_FEATURE_KEYS } from '../../../../lib/preview-features';
 
 import ExpensesList from '../../../expenses/ExpensesList';
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { LocalExpenseDraftsList } from '../../../submit-expense/LocalExpenseDrafts';
 import { SubmitExpenseFlow } from '../../../submit-expense/SubmitExpenseFlow';
 import { Button } from '../../../ui/Button';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { Filterbar } from '../../filters/Filterbar';
@@ -28,13 +32,17 @@ const ROUTE_PARAMS = ['slug', 'section', 'subpath'];
 const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
   const [isExpenseFlowOpen, setIsExpenseFlowOpen] = React.useState(false);
   const [duplicateExpenseId, setDuplicateExpenseId] = React.useState(null);
+  const [localDraftId, setLocalDraftId] = React.useState<string>(null);
+  const [localDrafts, setLocalDrafts] = React.useState<LocalExpenseDraft[]>([]);
   const router = useRouter();
   const { LoggedInUser } = useLoggedInUser();
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     toVariables,
     filters,
+    savedViews: savedViewsScope,
   });
   const createdByAccount = accountSlug === LoggedInUser?.collective.slug ? { slug: accountSlug } : null;
   const fromAccount = !createdByAccount ? { slug: accountSlug } : null;
@@ -66,6 +74,14 @@ const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
 
   const pageRoute = `/dashboard/${accountSlug}/submitted-expenses`;
 
+  // Drafts of the new expense flow that were saved on this device but never submitted
+  const isLoggedInAccount = Boolean(createdByAccount);
+  React.useEffect(() => {
+    if (hasNewSubmitExpenseFlow && isLoggedInAccount && !isExpenseFlowOpen) {
+      setLocalDrafts(getLocalExpenseDrafts(accountSlug));
+    }
+  }, [hasNewSubmitExpenseFlow, isLoggedInAccount, isExpenseFlowOpen, accountSlug]);
+
   if (error) {
     return <MessageBoxGraphqlError error={error} />;
   }
@@ -83,6 +99,7 @@ const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
               <Button
                 onClick={() => {
                   setDuplicateExpenseId(null);
+                  setLocalDraftId(null);
                   setIsExpenseFlowOpen(true);
                 }}
                 size="sm"
@@ -93,6 +110,25 @@ const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
             ) : null
           }
         />
+        {localDrafts.length > 0 && (
+          <div className="space-y-2" data-cy="local-expense-drafts">
+            <h2 className="text-sm font-semibold">
+              <FormattedMessage defaultMessage="Unsent drafts on this device" id="7vRwNS" />
+            </h2>
+            <LocalExpenseDraftsList
+              drafts={localDrafts}
+              onResume={draft => {
+                setDuplicateExpenseId(null);
+                setLocalDraftId(draft.id);
+                setIsExpenseFlowOpen(true);
+              }}
+              onDiscard={draft => {
+                removeLocalExpenseDraft(draft.id);
+                setLocalDrafts(localDrafts.filter(d => d.id !== draft.id));
+              }}
+            />
+          </div>
+        )}
         <Filterbar {...queryFilter} meta={filterMeta} />
 
         {!loading && !data.expenses?.nodes.length ? (
@@ -115,6 +151,7 @@ const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
               openExpenseLegacyId={Number(router.query.openExpenseId)}
               expenseFieldForTotalAmount="amountInCreatedByAccountCurrency"
               onDuplicateClick={expenseId => {
+                setLocalDraftId(null);
                 setDuplicateExpenseId(expenseId);
                 setIsExpenseFlowOpen(true);
               }}
@@ -137,6 +174,7 @@ const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
         <SubmitExpenseFlow
           onClose={submittedExpense => {
             setDuplicateExpenseId(null);
+            setLocalDraftId(null);
             setIsExpenseFlowOpen(false);
             if (submittedExpense) {
               refetchExpenses();
@@ -144,6 +182,7 @@ const SubmittedExpenses = ({ accountSlug }: DashboardSectionProps) => {
           }}
           expenseId={duplicateExpenseId}
           duplicateExpense={!!duplicateExpenseId}
+          localDraftId={localDraftId}
         />
       )}
     </React.Fragment>
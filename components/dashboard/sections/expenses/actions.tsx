@@ -0,0 +1,152 @@
+import { useMutation } from '@apollo/client';
+import { Ban, Check, Hand, PlayCircle, ShieldAlert, X } from 'lucide-react';
+import { useIntl } from 'react-intl';
+
+import type { BulkAction, GetBulkActions } from '../../../../lib/actions/types';
+import PERMISSION_CODES, { ReasonMessage } from '../../../../lib/constants/permissions';
+import { processExpenseMutation } from '../../../../lib/expenses/useProcessExpense';
+import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
+import type { ExpensesListFieldsFragmentFragment } from '../../../../lib/graphql/types/v2/graphql';
+import useLoggedInUser from '../../../../lib/hooks/useLoggedInUser';
+import { i18nExpenseStatus } from '../../../../lib/i18n/expense';
+import { collectiveAdminsMustConfirmAccountingCategory } from '../../../expenses/lib/accounting-categories';
+
+type BulkProcessedExpense = Pick<
+  ExpensesListFieldsFragmentFragment,
+  'id' | 'legacyId' | 'status' | 'permissions' | 'createdByAccount'
+>;
+
+type BulkProcessExpenseAction = 'APPROVE' | 'REJECT' | 'UNAPPROVE' | 'HOLD' | 'RELEASE' | 'MARK_AS_SPAM';
+
+/**
+ * Bulk actions to process the expenses selected in a list. Each expense is processed with its own permissions: the
+ * ones that don't allow the action are skipped, with the reason displayed in the results.
+ */
+export function useExpenseBulkActions({
+  host,
+  onComplete,
+}: {
+  host?: Parameters<typeof collectiveAdminsMustConfirmAccountingCategory>[1];
+  /** Called once the action has run on all the selected expenses, e.g. to refetch the list */
+  onComplete?: () => void;
+}): GetBulkActions<BulkProcessedExpense> {
+  const intl = useIntl();
+  const { LoggedInUser } = useLoggedInUser();
+  const [processExpense] = useMutation(processExpenseMutation, { context: API_V2_CONTEXT });
+  // The policy is defined by the host, the expenses of the list don't have to load it
+  const mustConfirmAccountingCategory = collectiveAdminsMustConfirmAccountingCategory(null, host);
+
+  const notAllowedReason = (expense: BulkProcessedExpense) =>
+    intl.formatMessage(
+      { defaultMessage: 'Not allowed for this expense (status: {status})', id: 'FLkv6y' },
+      { status: i18nExpenseStatus(intl, expense.status) },
+    );
+
+  const makeAction = (
+    action: BulkProcessExpenseAction,
+    options: Omit<BulkAction<BulkProcessedExpense>, 'key' | 'perform' | 'onComplete'>,
+  ): BulkAction<BulkProcessedExpense> => ({
+    key: action,
+    getUnavailableReason: notAllowedReason,
+    'data-cy': `bulk-${action.toLowerCase().replace(/_/g, '-')}`,
+    ...options,
+    perform: (expense, { message }) =>
+      processExpense({ variables: { id: expense.id, legacyId: expense.legacyId, action, message } }),
+    onComplete,
+  });
+
+  const actions: BulkAction<BulkProcessedExpense>[] = [
+    makeAction('APPROVE', {
+      label: intl.formatMessage({ id: 'actions.approve', defaultMessage: 'Approve' }),
+      Icon: Check,
+      isAvailable: expense => expense.permissions.approve.allowed && !mustConfirmAccountingCategory,
+      getUnavailableReason: expense => {
+        const { reason, reasonDetails } = expense.permissions.approve;
+        if (reason === PERMISSION_CODES.AUTHOR_CANNOT_APPROVE) {
+          return intl.formatMessage(ReasonMessage[reason], reasonDetails);
+        } else if (expense.permissions.approve.allowed) {
+          return intl.formatMessage({
+            defaultMessage: 'The accounting category must be confirmed from the expense before approving it',
+            id: 'Hy1I7k',
+          });
+        } else {
+          return notAllowedReason(expense);
+        }
+      },
+      confirmMessage: intl.formatMessage({
+        defaultMessage: 'The selected expenses that can be approved will be approved.',
+        id: '9hjcIu',
+      }),
+    }),
+    makeAction('REJECT', {
+      label: intl.formatMessage({ id: 'actions.reject', defaultMessage: 'Reject' }),
+      Icon: X,
+      variant: 'destructive',
+      isAvailable: expense => expense.permissions.canReject,
+      messageInput: {
+        label: intl.formatMessage({
+          defaultMessage: 'Reason, shared with the submitters and added as a comment on each expense',
+          id: 'rb7Nv9',
+        }),
+        placeholder: intl.formatMessage({ defaultMessage: 'e.g, We never worked with this person.', id: 'mpLU2S' }),
+      },
+    }),
+    makeAction('UNAPPROVE', {
+      label: intl.formatMessage({ id: 'expense.unapprove.btn', defaultMessage: 'Unapprove' }),
+      Icon: Ban,
+      isAvailable: expense => expense.permissions.canUnapprove,
+      messageInput: {
+        label: intl.formatMessage({
+          defaultMessage: 'Reason, shared with the submitters and added as a comment on each expense',
+          id: 'rb7Nv9',
+        }),
+      },
+    }),
+    makeAction('HOLD', {
+      label: intl.formatMessage({ id: 'actions.hold', defaultMessage: 'Put On Hold' }),
+      Icon: Hand,
+      isAvailable: expense => expense.permissions.canHold,
+      confirmMessage: intl.formatMessage({
+        defaultMessage:
+          'Expense is still approved but can not be paid out until it is released. Expense is also not displayed in ready to pay.',
+        id: 'aE2FPd',
+      }),
+    }),
+    makeAction('RELEASE', {
+      label: intl.formatMessage({ id: 'actions.release', defaultMessage: 'Release Hold' }),
+      Icon: PlayCircle,
+      isAvailable: expense => expense.permissions.canRelease,
+      confirmMessage: intl.formatMessage({
+        defaultMessage: 'Expense can be paid out and is displayed in ready to pay list.',
+        id: 'zIsgw6',
+      }),
+    }),
+    makeAction('MARK_AS_SPAM', {
+      label: intl.formatMessage({ id: 'actions.spam', defaultMessage: 'Mark as Spam' }),
+      Icon: ShieldAlert,
+      variant: 'destructive',
+      isAvailable: expense =>
+        expense.permissions.canMarkAsSpam && expense.createdByAccount?.legacyId !== LoggedInUser?.CollectiveId,
+      getUnavailableReason: expense =>
+        expense.permissions.canMarkAsSpam
+          ? intl.formatMessage({
+              id: 'expense.spam.notAllowed',
+              defaultMessage: "You can't mark your own expenses as spam",
+            })
+          : notAllowedReason(expense),
+      confirmMessage: intl.formatMessage({
+        id: 'Expense.MarkAsSpamWarning',
+        defaultMessage: 'This will prevent the submitter account to post new expenses.',
+      }),
+      messageInput: {
+        label: intl.formatMessage({
+          id: 'Expense.MarkAsSpamLabel',
+          defaultMessage: 'Why are you marking this expense as spam?',
+        }),
+      },
+    }),
+  ];
+
+  // Only offer the actions that apply to at least one of the selected expenses
+  return expenses => actions.filter(action => expenses.some(action.isAvailable));
+}
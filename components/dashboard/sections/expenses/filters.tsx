@@ -1,5 +1,5 @@
 import React from 'react';
-import { omit } from 'lodash';
+import { difference, omit, uniq } from 'lodash';
 import { defineMessage } from 'react-intl';
 import { z } from 'zod';
 
@@ -11,6 +11,7 @@ import type {
   HostDashboardExpensesQueryVariables,
 } from '../../../../lib/graphql/types/v2/graphql';
 import {
+  ExpenseStatus,
   ExpenseStatusFilter,
   ExpenseType,
   LastCommentBy,
@@ -80,7 +81,10 @@ export const filters: FilterComponentConfigs<FilterValues, FilterMeta> = {
   searchTerm: searchFilter.filter,
   date: dateFilter.filter,
   amount: amountFilter.filter,
-  accountingCategory: accountingCategoryFilter.filter,
+  accountingCategory: {
+    ...accountingCategoryFilter.filter,
+    expression: { anyOf: values => uniq(values.flat()) },
+  },
   status: {
     static: true,
     labelMsg: defineMessage({ id: 'expense.status', defaultMessage: 'Status' }),
@@ -94,6 +98,16 @@ export const filters: FilterComponentConfigs<FilterValues, FilterMeta> = {
       />
     ),
     valueRenderer: ({ intl, value }) => i18nExpenseStatus(intl, value),
+    expression: {
+      anyOf: values => uniq(values.flat()),
+      not: value => {
+        // Statuses like READY_TO_PAY or ON_HOLD overlap with the others, so only actual statuses can be excluded
+        const otherStatuses = difference<string>(Object.values(ExpenseStatus), value);
+        return value.every(status => status in ExpenseStatus) && otherStatuses.length
+          ? (otherStatuses as ExpenseStatusFilter[])
+          : undefined;
+      },
+    },
   },
   type: {
     labelMsg: defineMessage({ id: 'expense.type', defaultMessage: 'Type' }),
@@ -0,0 +1,92 @@
+import {
+  generateNACHAFile,
+  generateSEPACreditTransferFile,
+  getPaymentFileIssue,
+  PaymentFileFormat,
+} from '../payment-files';
+
+const SEPA_TRANSFER = {
+  id: 'EXPENSE-1',
+  amount: 12050,
+  currency: 'EUR',
+  reference: 'Expense #1 - Café & snacks',
+  beneficiaryName: 'Zoé Dupont',
+  bankAccount: { accountHolderName: 'Zoé Dupont', details: { IBAN: 'FR76 3000 6000 0112 3456 7890 189' } },
+};
+
+const ACH_TRANSFER = {
+  id: 'EXPENSE-2',
+  amount: 4200,
+  currency: 'USD',
+  reference: 'Expense #2 - Hosting',
+  beneficiaryName: 'John Doe',
+  bankAccount: {
+    accountHolderName: 'John Doe',
+    details: { abartn: '026009593', accountNumber: '12345678', accountType: 'SAVINGS' },
+  },
+};
+
+describe('getPaymentFileIssue', () => {
+  it('checks the currency and the bank details', () => {
+    expect(getPaymentFileIssue(PaymentFileFormat.SEPA, SEPA_TRANSFER)).toBeNull();
+    expect(getPaymentFileIssue(PaymentFileFormat.NACHA, ACH_TRANSFER)).toBeNull();
+    expect(getPaymentFileIssue(PaymentFileFormat.SEPA, ACH_TRANSFER)).toBe('CURRENCY');
+    expect(getPaymentFileIssue(PaymentFileFormat.SEPA, { ...SEPA_TRANSFER, bankAccount: { details: {} } })).toBe(
+      'MISSING_BANK_DETAILS',
+    );
+    expect(
+      getPaymentFileIssue(PaymentFileFormat.NACHA, {
+        ...ACH_TRANSFER,
+        bankAccount: { details: { abartn: '123', accountNumber: '12345678' } },
+      }),
+    ).toBe('MISSING_BANK_DETAILS');
+  });
+});
+
+describe('generateSEPACreditTransferFile', () => {
+  it('generates a pain.001 file', () => {
+    const file = generateSEPACreditTransferFile({
+      transfers: [SEPA_TRANSFER, { ...SEPA_TRANSFER, id: 'EXPENSE-3', amount: 1000 }],
+      debtor: { name: 'My Host', iban: 'BE68 5390 0754 7034', bic: 'gkccbebb' },
+      messageId: 'my-host-20240101',
+      executionDate: new Date('2024-01-02'),
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+    });
+
+    expect(file).toContain('<CreDtTm>2024-01-01T10:00:00</CreDtTm>');
+    expect(file).toContain('<NbOfTxs>2</NbOfTxs>');
+    expect(file).toContain('<CtrlSum>130.50</CtrlSum>');
+    expect(file).toContain('<ReqdExctnDt>2024-01-02</ReqdExctnDt>');
+    expect(file).toContain('<DbtrAcct><Id><IBAN>BE68539007547034</IBAN></Id></DbtrAcct>');
+    expect(file).toContain('<DbtrAgt><FinInstnId><BIC>GKCCBEBB</BIC></FinInstnId></DbtrAgt>');
+    expect(file).toContain('<InstdAmt Ccy="EUR">120.50</InstdAmt>');
+    expect(file).toContain('<CdtrAcct><Id><IBAN>FR7630006000011234567890189</IBAN></Id></CdtrAcct>');
+    // Text is restricted to the SEPA character set
+    expect(file).toContain('<Nm>Zoe Dupont</Nm>');
+    expect(file).toContain('<Ustrd>Expense 1 - Cafe snacks</Ustrd>');
+  });
+});
+
+describe('generateNACHAFile', () => {
+  it('generates a file with fixed-width records in blocks of 10', () => {
+    const file = generateNACHAFile({
+      transfers: [ACH_TRANSFER],
+      originator: { companyName: 'My Host', companyId: '1234567890', originatingRoutingNumber: '121000248' },
+      effectiveDate: new Date('2024-01-02T12:00:00'),
+      createdAt: new Date('2024-01-01T10:30:00'),
+    });
+
+    const records = file.trim().split('\n');
+    expect(records).toHaveLength(10);
+    records.forEach(record => expect(record).toHaveLength(94));
+    expect(records[0].startsWith('101 121000248 1210002482401011030A094101')).toBe(true);
+    expect(records[1].startsWith('5220MY HOST')).toBe(true);
+    expect(records[1]).toContain('PPDPAYOUTS         240102');
+    expect(records[2]).toBe(
+      `632026009593${'12345678'.padEnd(17)}0000004200${'EXPENSE 2'.padEnd(15)}${'JOHN DOE'.padEnd(22)}  0121000240000001`,
+    );
+    expect(records[3]).toBe(`822000000100026009590000000000000000000042001234567890${' '.repeat(25)}121000240000001`);
+    expect(records[4].startsWith('9000001000001000000010002600959000000000000000000004200')).toBe(true);
+    expect(records[9]).toBe('9'.repeat(94));
+  });
+});
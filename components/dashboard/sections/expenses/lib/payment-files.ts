@@ -0,0 +1,298 @@
+import { padEnd, padStart, sumBy, truncate } from 'lodash';
+
+import dayjs from '../../../../../lib/dayjs';
+import { Currency } from '../../../../../lib/graphql/types/v2/graphql';
+
+export enum PaymentFileFormat {
+  SEPA = 'SEPA',
+  NACHA = 'NACHA',
+}
+
+/** A transfer to include in a payment file. `bankAccount` is the `data` of a `BANK_ACCOUNT` payout method */
+export type PaymentFileTransfer = {
+  id: string;
+  /** In cents */
+  amount: number;
+  currency: Currency;
+  reference: string;
+  beneficiaryName: string;
+  bankAccount: Record<string, any>;
+};
+
+export type SEPADebtor = { name: string; iban: string; bic?: string };
+
+export type NACHAOriginator = {
+  /** Name of the account being debited, as registered with the bank */
+  companyName: string;
+  /** The 10 characters company identification assigned by the bank, usually `1` + the EIN */
+  companyId: string;
+  /** Routing number of the bank sending the file */
+  originatingRoutingNumber: string;
+  /** Routing number and name of the bank receiving the file. Defaults to the originating bank */
+  destinationRoutingNumber?: string;
+  destinationName?: string;
+};
+
+export const PaymentFileCurrency: Record<PaymentFileFormat, Currency> = {
+  [PaymentFileFormat.SEPA]: Currency.EUR,
+  [PaymentFileFormat.NACHA]: Currency.USD,
+};
+
+export type PaymentFileIssue = 'CURRENCY' | 'MISSING_BANK_DETAILS';
+
+const getSEPABankDetails = (bankAccount: Record<string, any>) => {
+  const iban = bankAccount?.details?.IBAN?.replace(/\s/g, '').toUpperCase();
+  const bic = (bankAccount?.details?.BIC || bankAccount?.details?.bic)?.replace(/\s/g, '').toUpperCase();
+  return iban ? { iban, bic } : null;
+};
+
+const getNACHABankDetails = (bankAccount: Record<string, any>) => {
+  const routingNumber = bankAccount?.details?.abartn?.replace(/\D/g, '');
+  const accountNumber = bankAccount?.details?.accountNumber?.replace(/[^0-9A-Za-z]/g, '');
+  if (routingNumber?.length !== 9 || !accountNumber || accountNumber.length > 17) {
+    return null;
+  }
+
+  const isSavings = bankAccount.details.accountType?.toUpperCase() === 'SAVINGS';
+  return { routingNumber, accountNumber, isSavings };
+};
+
+/**
+ * Returns why a transfer can't be included in a file of the given format, or null if it can.
+ */
+export const getPaymentFileIssue = (format: PaymentFileFormat, transfer: PaymentFileTransfer): PaymentFileIssue => {
+  if (transfer.currency !== PaymentFileCurrency[format]) {
+    return 'CURRENCY';
+  } else if (format === PaymentFileFormat.SEPA && !getSEPABankDetails(transfer.bankAccount)) {
+    return 'MISSING_BANK_DETAILS';
+  } else if (format === PaymentFileFormat.NACHA && !getNACHABankDetails(transfer.bankAccount)) {
+    return 'MISSING_BANK_DETAILS';
+  } else {
+    return null;
+  }
+};
+
+// ---- SEPA Credit Transfer (pain.001.001.03) ----
+
+const escapeXML = (str: string): string =>
+  str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Banks only accept the SEPA (latin) character set: accents are removed and other characters replaced by a space.
+ */
+const toSEPAText = (str: string, maxLength: number): string => {
+  const text = (str || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return escapeXML(truncate(text, { length: maxLength, omission: '' }));
+};
+
+const formatDecimalAmount = (cents: number): string => (cents / 100).toFixed(2);
+
+export const generateSEPACreditTransferFile = ({
+  transfers,
+  debtor,
+  messageId,
+  executionDate = new Date(),
+  createdAt = new Date(),
+}: {
+  transfers: PaymentFileTransfer[];
+  debtor: SEPADebtor;
+  messageId: string;
+  executionDate?: Date;
+  createdAt?: Date;
+}): string => {
+  const controlSum = formatDecimalAmount(sumBy(transfers, 'amount'));
+  const debtorIban = debtor.iban.replace(/\s/g, '').toUpperCase();
+  const debtorBic = debtor.bic?.replace(/\s/g, '').toUpperCase();
+  const agent = (bic: string) =>
+    bic
+      ? `<FinInstnId><BIC>${escapeXML(bic)}</BIC></FinInstnId>`
+      : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>';
+
+  const transactions = transfers.map(transfer => {
+    const { iban, bic } = getSEPABankDetails(transfer.bankAccount);
+    return [
+      '      <CdtTrfTxInf>',
+      `        <PmtId><EndToEndId>${toSEPAText(transfer.id, 35)}</EndToEndId></PmtId>`,
+      `        <Amt><InstdAmt Ccy="EUR">${formatDecimalAmount(transfer.amount)}</InstdAmt></Amt>`,
+      bic ? `        <CdtrAgt>${agent(bic)}</CdtrAgt>` : null,
+      `        <Cdtr><Nm>${toSEPAText(transfer.beneficiaryName, 70)}</Nm></Cdtr>`,
+      `        <CdtrAcct><Id><IBAN>${escapeXML(iban)}</IBAN></Id></CdtrAcct>`,
+      `        <RmtInf><Ustrd>${toSEPAText(transfer.reference, 140)}</Ustrd></RmtInf>`,
+      '      </CdtTrfTxInf>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <CstmrCdtTrfInitn>',
+    '    <GrpHdr>',
+    `      <MsgId>${toSEPAText(messageId, 35)}</MsgId>`,
+    `      <CreDtTm>${dayjs(createdAt).utc().format('YYYY-MM-DDTHH:mm:ss')}</CreDtTm>`,
+    `      <NbOfTxs>${transfers.length}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    `      <InitgPty><Nm>${toSEPAText(debtor.name, 70)}</Nm></InitgPty>`,
+    '    </GrpHdr>',
+    '    <PmtInf>',
+    `      <PmtInfId>${toSEPAText(messageId, 35)}</PmtInfId>`,
+    '      <PmtMtd>TRF</PmtMtd>',
+    `      <NbOfTxs>${transfers.length}</NbOfTxs>`,
+    `      <CtrlSum>${controlSum}</CtrlSum>`,
+    '      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>',
+    `      <ReqdExctnDt>${dayjs(executionDate).format('YYYY-MM-DD')}</ReqdExctnDt>`,
+    `      <Dbtr><Nm>${toSEPAText(debtor.name, 70)}</Nm></Dbtr>`,
+    `      <DbtrAcct><Id><IBAN>${escapeXML(debtorIban)}</IBAN></Id></DbtrAcct>`,
+    `      <DbtrAgt>${agent(debtorBic)}</DbtrAgt>`,
+    '      <ChrgBr>SLEV</ChrgBr>',
+    ...transactions,
+    '    </PmtInf>',
+    '  </CstmrCdtTrfInitn>',
+    '</Document>',
+    '',
+  ].join('\n');
+};
+
+// ---- NACHA (ACH credits) ----
+
+const NACHA_RECORD_LENGTH = 94;
+const NACHA_BLOCKING_FACTOR = 10;
+
+/** Alphanumeric fields are uppercase, left-justified and padded with spaces */
+const alpha = (value: string, length: number): string =>
+  padEnd(
+    (value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^A-Za-z0-9 ]/g, ' ')
+      .toUpperCase()
+      .slice(0, length),
+    length,
+  );
+
+/** Numeric fields are right-justified and padded with zeros */
+const numeric = (value: number | string, length: number): string => padStart(String(value), length, '0').slice(-length);
+
+export const generateNACHAFile = ({
+  transfers,
+  originator,
+  effectiveDate = new Date(),
+  createdAt = new Date(),
+}: {
+  transfers: PaymentFileTransfer[];
+  originator: NACHAOriginator;
+  effectiveDate?: Date;
+  createdAt?: Date;
+}): string => {
+  const originatingDFI = originator.originatingRoutingNumber.replace(/\D/g, '').slice(0, 8);
+  const destinationRoutingNumber = (originator.destinationRoutingNumber || originator.originatingRoutingNumber).replace(
+    /\D/g,
+    '',
+  );
+  const companyId = alpha(originator.companyId.replace(/\s/g, ''), 10);
+  const batchNumber = numeric(1, 7);
+  const created = dayjs(createdAt);
+
+  const entries = transfers.map((transfer, index) => {
+    const { routingNumber, accountNumber, isSavings } = getNACHABankDetails(transfer.bankAccount);
+    return [
+      '6',
+      isSavings ? '32' : '22', // Credit to a savings / checking account
+      routingNumber.slice(0, 8),
+      routingNumber.slice(8, 9),
+      padEnd(accountNumber, 17),
+      numeric(transfer.amount, 10),
+      alpha(transfer.id, 15),
+      alpha(transfer.beneficiaryName, 22),
+      '  ',
+      '0', // No addenda
+      `${originatingDFI}${numeric(index + 1, 7)}`,
+    ].join('');
+  });
+
+  const totalCredit = numeric(sumBy(transfers, 'amount'), 12);
+  const entryHash = numeric(
+    sumBy(transfers, transfer => parseInt(getNACHABankDetails(transfer.bankAccount).routingNumber.slice(0, 8))),
+    10,
+  );
+
+  const records = [
+    [
+      '1',
+      '01',
+      ` ${numeric(destinationRoutingNumber, 9)}`,
+      ` ${numeric(originator.originatingRoutingNumber.replace(/\D/g, ''), 9)}`,
+      created.format('YYMMDD'),
+      created.format('HHmm'),
+      'A',
+      '094',
+      numeric(NACHA_BLOCKING_FACTOR, 2),
+      '1',
+      alpha(originator.destinationName, 23),
+      alpha(originator.companyName, 23),
+      alpha('', 8),
+    ].join(''),
+    [
+      '5',
+      '220', // Credits only
+      alpha(originator.companyName, 16),
+      alpha('', 20),
+      companyId,
+      'PPD',
+      alpha('PAYOUTS', 10),
+      alpha('', 6),
+      dayjs(effectiveDate).format('YYMMDD'),
+      alpha('', 3),
+      '1',
+      originatingDFI,
+      batchNumber,
+    ].join(''),
+    ...entries,
+    [
+      '8',
+      '220',
+      numeric(entries.length, 6),
+      entryHash,
+      numeric(0, 12),
+      totalCredit,
+      companyId,
+      alpha('', 19),
+      alpha('', 6),
+      originatingDFI,
+      batchNumber,
+    ].join(''),
+  ];
+
+  const blockCount = Math.ceil((records.length + 1) / NACHA_BLOCKING_FACTOR);
+  records.push(
+    [
+      '9',
+      numeric(1, 6),
+      numeric(blockCount, 6),
+      numeric(entries.length, 8),
+      entryHash,
+      numeric(0, 12),
+      totalCredit,
+      alpha('', 39),
+    ].join(''),
+  );
+
+  // The file is padded with lines of 9s to fill the last block
+  while (records.length % NACHA_BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(NACHA_RECORD_LENGTH));
+  }
+
+  return `${records.join('\n')}\n`;
+};
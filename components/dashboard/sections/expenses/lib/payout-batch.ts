@@ -0,0 +1,96 @@
+import { groupBy, sumBy } from 'lodash';
+
+import type { Amount, Currency } from '../../../../../lib/graphql/types/v2/graphql';
+import { PayoutMethodType } from '../../../../../lib/graphql/types/v2/graphql';
+
+export type PayoutBatchExpense = {
+  id: string;
+  legacyId: number;
+  description: string;
+  amountV2: Pick<Amount, 'valueInCents' | 'currency'>;
+  feesPayer?: string;
+  payoutMethod?: { id: string; type?: PayoutMethodType; data?: Record<string, any> } | null;
+  payee: { name?: string; legalName?: string; slug: string };
+  account: { name?: string; slug: string };
+  permissions: { canPay: boolean };
+};
+
+export type PayoutBatchGroup = {
+  key: string;
+  payoutMethodType: PayoutMethodType;
+  currency: Currency;
+  expenses: PayoutBatchExpense[];
+  /** Total of the included expenses, in cents */
+  includedAmount: number;
+  nbIncluded: number;
+  /** The balance available to pay this group, when known */
+  balance: Pick<Amount, 'valueInCents' | 'currency'> | null;
+  coverage: 'COVERED' | 'INSUFFICIENT' | 'UNKNOWN';
+};
+
+type PayoutBalances = {
+  transferwise?: { balances?: Array<Pick<Amount, 'valueInCents' | 'currency'>> } | null;
+  paypalPreApproval?: { balance?: Pick<Amount, 'valueInCents' | 'currency'> } | null;
+};
+
+const getGroupBalance = (
+  payoutMethodType: PayoutMethodType,
+  currency: Currency,
+  host: PayoutBalances,
+): Pick<Amount, 'valueInCents' | 'currency'> | null => {
+  if (payoutMethodType === PayoutMethodType.BANK_ACCOUNT) {
+    return host.transferwise?.balances?.find(balance => balance.currency === currency) || null;
+  } else if (payoutMethodType === PayoutMethodType.PAYPAL) {
+    const balance = host.paypalPreApproval?.balance;
+    return balance?.currency === currency ? balance : null;
+  } else {
+    return null;
+  }
+};
+
+/**
+ * Groups the expenses by payout method and currency, with the total of the included expenses and whether the
+ * matching Wise or PayPal balance covers it.
+ */
+export const groupPayoutBatchExpenses = (
+  expenses: PayoutBatchExpense[],
+  excludedIds: string[],
+  host: PayoutBalances,
+): PayoutBatchGroup[] => {
+  const groups = groupBy(
+    expenses,
+    expense => `${expense.payoutMethod?.type || PayoutMethodType.OTHER}-${expense.amountV2.currency}`,
+  );
+  return Object.entries(groups)
+    .map(([key, groupExpenses]) => {
+      const payoutMethodType = groupExpenses[0].payoutMethod?.type || PayoutMethodType.OTHER;
+      const currency = groupExpenses[0].amountV2.currency;
+      const included = groupExpenses.filter(expense => !excludedIds.includes(expense.id));
+      const includedAmount = sumBy(included, expense => expense.amountV2.valueInCents);
+      const balance = getGroupBalance(payoutMethodType, currency, host);
+      return {
+        key,
+        payoutMethodType,
+        currency,
+        expenses: groupExpenses,
+        includedAmount,
+        nbIncluded: included.length,
+        balance,
+        coverage: !balance ? 'UNKNOWN' : balance.valueInCents >= includedAmount ? 'COVERED' : 'INSUFFICIENT',
+      } as PayoutBatchGroup;
+    })
+    .sort((a, b) => a.payoutMethodType.localeCompare(b.payoutMethodType) || a.currency.localeCompare(b.currency));
+};
+
+/**
+ * Expenses can only be scheduled for payment with the payout methods that are paid in batch by the platform.
+ */
+export const canSchedulePayoutMethod = (payoutMethodType: PayoutMethodType, host: PayoutBalances): boolean => {
+  if (payoutMethodType === PayoutMethodType.BANK_ACCOUNT) {
+    return Boolean(host.transferwise);
+  } else if (payoutMethodType === PayoutMethodType.PAYPAL) {
+    return Boolean(host.paypalPreApproval);
+  } else {
+    return false;
+  }
+};
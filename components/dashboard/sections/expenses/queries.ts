@@ -193,11 +193,146 @@ export const hostDashboardExpensesQuery = gql`
   ${expenseHostFields}
 `;
 
+/**
+ * The fields needed to run the bulk actions, for selecting all the expenses matching the filters. The full list
+ * fragment is too heavy to load hundreds of expenses at once.
+ */
+const expenseBulkActionFields = gql`
+  fragment ExpenseBulkActionFields on Expense {
+    id
+    legacyId
+    description
+    status
+    createdByAccount {
+      id
+      legacyId
+    }
+    permissions {
+      id
+      canReject
+      canUnapprove
+      canHold
+      canRelease
+      canMarkAsSpam
+      approve {
+        allowed
+        reason
+        reasonDetails
+      }
+    }
+  }
+`;
+
+export const accountExpensesBulkSelectionQuery = gql`
+  query AccountExpensesBulkSelection(
+    $account: AccountReferenceInput
+    $fromAccount: AccountReferenceInput
+    $limit: Int!
+    $offset: Int!
+    $type: ExpenseType
+    $tags: [String]
+    $status: [ExpenseStatusFilter]
+    $minAmount: Int
+    $maxAmount: Int
+    $payoutMethodType: PayoutMethodType
+    $dateFrom: DateTime
+    $dateTo: DateTime
+    $searchTerm: String
+    $sort: ChronologicalOrderInput
+    $chargeHasReceipts: Boolean
+    $virtualCards: [VirtualCardReferenceInput]
+    $createdByAccount: AccountReferenceInput
+    $includeChildrenExpenses: Boolean
+    $accountingCategory: [String]
+  ) {
+    expenses(
+      account: $account
+      fromAccount: $fromAccount
+      limit: $limit
+      offset: $offset
+      type: $type
+      tag: $tags
+      status: $status
+      minAmount: $minAmount
+      maxAmount: $maxAmount
+      payoutMethodType: $payoutMethodType
+      dateFrom: $dateFrom
+      dateTo: $dateTo
+      searchTerm: $searchTerm
+      orderBy: $sort
+      chargeHasReceipts: $chargeHasReceipts
+      virtualCards: $virtualCards
+      createdByAccount: $createdByAccount
+      includeChildrenExpenses: $includeChildrenExpenses
+      accountingCategory: $accountingCategory
+    ) {
+      totalCount
+      nodes {
+        id
+        ...ExpenseBulkActionFields
+      }
+    }
+  }
+  ${expenseBulkActionFields}
+`;
+
+export const hostDashboardExpensesBulkSelectionQuery = gql`
+  query HostDashboardExpensesBulkSelection(
+    $hostSlug: String!
+    $limit: Int!
+    $offset: Int!
+    $type: ExpenseType
+    $tags: [String]
+    $status: [ExpenseStatusFilter]
+    $minAmount: Int
+    $maxAmount: Int
+    $payoutMethodType: PayoutMethodType
+    $dateFrom: DateTime
+    $dateTo: DateTime
+    $searchTerm: String
+    $sort: ChronologicalOrderInput
+    $chargeHasReceipts: Boolean
+    $virtualCards: [VirtualCardReferenceInput]
+    $account: AccountReferenceInput
+    $lastCommentBy: [LastCommentBy]
+    $accountingCategory: [String]
+  ) {
+    expenses(
+      host: { slug: $hostSlug }
+      account: $account
+      limit: $limit
+      offset: $offset
+      type: $type
+      tag: $tags
+      status: $status
+      minAmount: $minAmount
+      maxAmount: $maxAmount
+      payoutMethodType: $payoutMethodType
+      dateFrom: $dateFrom
+      dateTo: $dateTo
+      searchTerm: $searchTerm
+      orderBy: $sort
+      chargeHasReceipts: $chargeHasReceipts
+      virtualCards: $virtualCards
+      lastCommentBy: $lastCommentBy
+      accountingCategory: $accountingCategory
+    ) {
+      totalCount
+      nodes {
+        id
+        ...ExpenseBulkActionFields
+      }
+    }
+  }
+  ${expenseBulkActionFields}
+`;
+
 const hostInfoCardFields = gql`
   fragment HostInfoCardFields on Host {
     id
     legacyId
     slug
+    name
     currency
     location {
       id
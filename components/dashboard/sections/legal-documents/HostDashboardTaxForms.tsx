@@ -1,18 +1,20 @@
 import React from 'react';
-import { useQuery } from '@apollo/client';
+import { useApolloClient, useQuery } from '@apollo/client';
 import { defineMessage, FormattedMessage } from 'react-intl';
 import { z } from 'zod';
 
 import type { FilterComponentConfigs, FiltersToVariables } from '../../../../lib/filters/filter-types';
 import { integer, isMulti } from '../../../../lib/filters/schemas';
 import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
-import type { HostTaxFormsQueryVariables } from '../../../../lib/graphql/types/v2/graphql';
+import type { HostTaxFormsQueryVariables, LegalDocument } from '../../../../lib/graphql/types/v2/graphql';
 import { LegalDocumentRequestStatus } from '../../../../lib/graphql/types/v2/graphql';
 import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
 import { i18nLegalDocumentStatus } from '../../../../lib/i18n/legal-document';
+import { fetchAllPages } from '../../../../lib/pagination';
 import { sortSelectOptions } from '../../../../lib/utils';
 
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { accountFilter } from '../../filters/AccountFilter';
@@ -25,7 +27,7 @@ import { Pagination } from '../../filters/Pagination';
 import { searchFilter } from '../../filters/SearchFilter';
 import type { DashboardSectionProps } from '../../types';
 
-import { useLegalDocumentActions } from './actions';
+import { useLegalDocumentActions, useLegalDocumentBulkActions } from './actions';
 import LegalDocumentDrawer from './LegalDocumentDrawer';
 import LegalDocumentsTable from './LegalDocumentsTable';
 
@@ -130,17 +132,34 @@ const filters: FilterComponentConfigs<z.infer<typeof schema>> = {
 
 const HostDashboardTaxForms = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
   const [focusedLegalDocumentId, setFocusedLegalDocumentId] = React.useState(null);
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
     toVariables,
     meta: { hostSlug },
+    savedViews: savedViewsScope,
   });
   const { data, error, loading, refetch } = useQuery(hostDashboardTaxFormsQuery, {
     variables: { hostSlug, ...queryFilter.variables },
     context: API_V2_CONTEXT,
   });
   const getActions = useLegalDocumentActions(data?.host, refetch);
+  const getBulkActions = useLegalDocumentBulkActions();
+  const apolloClient = useApolloClient();
+  const fetchAllMatchingDocuments = async () => {
+    const { nodes } = await fetchAllPages<LegalDocument>(async ({ offset, limit }) => {
+      const result = await apolloClient.query({
+        query: hostDashboardTaxFormsQuery,
+        variables: { hostSlug, ...queryFilter.variables, offset, limit },
+        context: API_V2_CONTEXT,
+      });
+
+      return result.data.host.taxForms;
+    });
+
+    return nodes;
+  };
 
   return (
     <div className="flex max-w-screen-lg flex-col gap-4">
@@ -165,6 +184,8 @@ const HostDashboardTaxForms = ({ accountSlug: hostSlug }: DashboardSectionProps)
             nbPlaceholders={NB_LEGAL_DOCUMENTS_DISPLAYED}
             resetFilters={() => queryFilter.resetFilters({})}
             getActions={getActions}
+            getBulkActions={getBulkActions}
+            fetchAllMatchingDocuments={fetchAllMatchingDocuments}
             onOpen={document => setFocusedLegalDocumentId(document.id)}
           />
           <Pagination queryFilter={queryFilter} total={data?.host?.taxForms?.totalCount} />
@@ -3,7 +3,7 @@ import type { ColumnDef, TableMeta } from '@tanstack/react-table';
 import type { IntlShape } from 'react-intl';
 import { FormattedMessage, useIntl } from 'react-intl';
 
-import type { GetActions } from '../../../../lib/actions/types';
+import type { GetActions, GetBulkActions } from '../../../../lib/actions/types';
 import type { Account, Host, LegalDocument } from '../../../../lib/graphql/types/v2/graphql';
 import formatCollectiveType from '../../../../lib/i18n/collective-type';
 
@@ -94,13 +94,15 @@ const columns: ColumnDef<LegalDocument>[] = [
 
 type LegalDocumentsTableProps = {
   host: Host | Account;
-  documents: { nodes: LegalDocument[] };
   onOpen: (document: LegalDocument) => void;
   resetFilters?: () => void;
   loading?: boolean;
   nbPlaceholders?: number;
   refetch?: () => void;
   getActions: GetActions<LegalDocument>;
+  getBulkActions?: GetBulkActions<LegalDocument>;
+  documents: { nodes: LegalDocument[]; totalCount?: number };
+  fetchAllMatchingDocuments?: () => Promise<LegalDocument[]>;
 };
 
 export default function LegalDocumentsTable({
@@ -111,6 +113,8 @@ export default function LegalDocumentsTable({
   nbPlaceholders,
   resetFilters,
   getActions,
+  getBulkActions,
+  fetchAllMatchingDocuments,
 }: Readonly<LegalDocumentsTableProps>) {
   const intl = useIntl();
   return (
@@ -125,6 +129,10 @@ export default function LegalDocumentsTable({
       nbPlaceholders={nbPlaceholders}
       onClickRow={row => onOpen(row.original)}
       getActions={getActions}
+      getBulkActions={getBulkActions}
+      getRowLabel={document => document.account?.name}
+      totalCount={documents?.totalCount}
+      fetchAllMatchingRows={fetchAllMatchingDocuments}
       emptyMessage={() => (
         <div>
           <P fontSize="16px">
@@ -1,7 +1,7 @@
 import { Download, FileX, Upload } from 'lucide-react';
 import { useIntl } from 'react-intl';
 
-import type { GetActions } from '../../../../lib/actions/types';
+import type { GetActions, GetBulkActions } from '../../../../lib/actions/types';
 import { downloadLegalDocument } from '../../../../lib/api';
 import { formatErrorMessage } from '../../../../lib/errors';
 import type { Host, LegalDocument } from '../../../../lib/graphql/types/v2/graphql';
@@ -72,3 +72,18 @@ export function useLegalDocumentActions(host: Host, refetch: () => void): GetAct
 
   return getActions;
 }
+
+export function useLegalDocumentBulkActions(): GetBulkActions<LegalDocument> {
+  const intl = useIntl();
+  const prompt2fa = useTwoFactorAuthenticationPrompt();
+
+  return () => [
+    {
+      key: 'download-pdf',
+      label: intl.formatMessage({ defaultMessage: 'Download {format}', id: 'n+rgej' }, { format: 'PDF' }),
+      Icon: Download,
+      isAvailable: legalDocument => Boolean(legalDocument.documentLink),
+      perform: legalDocument => downloadLegalDocument(legalDocument, legalDocument.account, prompt2fa),
+    },
+  ];
+}
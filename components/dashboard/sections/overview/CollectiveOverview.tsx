@@ -6,6 +6,7 @@ import { FormattedMessage } from 'react-intl';
 import { z } from 'zod';
 
 import { HELP_MESSAGE } from '../../../../lib/constants/dismissable-help-message';
+import { getContributionsRecoveryRate } from '../../../../lib/failed-contributions';
 import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
 import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
 import { getDashboardRoute } from '../../../../lib/url-helpers';
@@ -57,6 +58,7 @@ export function CollectiveOverview({ accountSlug }: DashboardSectionProps) {
           includeBalanceTimeseries: false,
           includeSpent: false,
           includeContributionsCount: false,
+          includeRecoveryRate: false,
         };
         switch (subpath) {
           case 'received':
@@ -89,6 +91,7 @@ export function CollectiveOverview({ accountSlug }: DashboardSectionProps) {
               includeBalanceTimeseries: account.isActive, // only showing Balance if account is active
               includeContributionsCount: true,
               includeReceivedTimeseries: true,
+              includeRecoveryRate: account.isActive || account.isHost,
             };
         }
       },
@@ -108,6 +111,7 @@ export function CollectiveOverview({ accountSlug }: DashboardSectionProps) {
       slug: accountSlug,
       ...queryFilter.variables,
       ...(account.parent && { includeChildren: false }),
+      includeHostedAccounts: Boolean(account.isHost),
     },
     fetchPolicy: 'cache-and-network',
     context: API_V2_CONTEXT,
@@ -117,6 +121,7 @@ export function CollectiveOverview({ accountSlug }: DashboardSectionProps) {
     return <MessageBoxGraphqlError error={error} />;
   }
 
+  const recovery = getContributionsRecoveryRate(data?.failedContributions?.nodes || []);
   const metrics: MetricProps[] = [
     {
       id: 'balance',
@@ -152,6 +157,21 @@ export function CollectiveOverview({ accountSlug }: DashboardSectionProps) {
       count: data?.account.contributionsCount,
       hide: !account.isActive,
     },
+    {
+      id: 'recovery-rate',
+      label: <FormattedMessage defaultMessage="Recovered payments" id="SLL4d0" />,
+      helpLabel: (
+        <FormattedMessage
+          defaultMessage="Share of the contributions whose payment failed this period that have been charged again since"
+          id="qsF7IY"
+        />
+      ),
+      count: { current: recovery.rate },
+      isPercentage: true,
+      hide: !recovery.failed,
+      onClick: () =>
+        router.push(`${getDashboardRoute(account, account.isHost ? 'orders' : 'incoming-contributions')}?status=ERROR`),
+    },
   ];
 
   if (queryFilter.values.subpath) {
@@ -247,7 +267,7 @@ export function CollectiveOverview({ accountSlug }: DashboardSectionProps) {
                 key={metric.id}
                 {...metric}
                 loading={loading}
-                onClick={() => queryFilter.setFilter('subpath', metric.id)}
+                onClick={'onClick' in metric ? metric.onClick : () => queryFilter.setFilter('subpath', metric.id)}
               />
             ))}
         </div>
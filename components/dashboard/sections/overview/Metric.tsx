@@ -47,6 +47,8 @@ interface BaseMetricProps {
   expanded?: boolean;
   currency?: Currency;
   isSnapshot?: boolean;
+  /** Renders `count` as a percentage */
+  isPercentage?: boolean;
   hide?: boolean;
 }
 
@@ -71,6 +73,7 @@ export function Metric({
   showTimeSeries = false,
   helpLabel,
   isSnapshot = false,
+  isPercentage = false,
   ...props
 }: MetricProps) {
   let value, comparisonValue;
@@ -116,6 +119,8 @@ export function Metric({
                     precision={2}
                     showCurrencyCode={showCurrencyCode}
                   />
+                ) : isPercentage && !isNil(count?.current) ? (
+                  `${count.current}%`
                 ) : (
                   count?.current.toLocaleString()
                 )}
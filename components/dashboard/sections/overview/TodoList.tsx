@@ -1,14 +1,71 @@
 import React from 'react';
-import { Coins, Receipt } from 'lucide-react';
+import { useQuery } from '@apollo/client';
+import { Coins, Receipt, Signature } from 'lucide-react';
 import { FormattedMessage } from 'react-intl';
 
+import {
+  getApplicableApprovalRule,
+  getApprovalWorkflow,
+  isExpectedApprover,
+} from '../../../../lib/expenses/approval-workflows';
+import { getApprovalWorkflowRoles } from '../../../../lib/expenses/useExpenseApprovalWorkflow';
+import { API_V2_CONTEXT, gql } from '../../../../lib/graphql/helpers';
+import useLoggedInUser from '../../../../lib/hooks/useLoggedInUser';
 import { getDashboardRoute } from '../../../../lib/url-helpers';
 
+import { expenseApprovalWorkflowFieldsFragment } from '../../../expenses/graphql/fragments';
 import Link from '../../../Link';
 import { DashboardContext } from '../../DashboardContext';
 
+const expensesAwaitingApprovalQuery = gql`
+  query ExpensesAwaitingApproval($account: AccountReferenceInput, $host: AccountReferenceInput) {
+    expenses(account: $account, host: $host, status: PENDING, includeChildrenExpenses: true, limit: 100) {
+      totalCount
+      nodes {
+        id
+        ...ExpenseApprovalWorkflowFields
+        permissions {
+          id
+          approve {
+            allowed
+          }
+        }
+      }
+    }
+  }
+  ${expenseApprovalWorkflowFieldsFragment}
+`;
+
+/**
+ * Counts the pending expenses that the logged in user can approve, and that the approval workflow of the host expects
+ * them to review. Only loads the expenses when the host has configured an approval workflow.
+ */
+const useExpensesAwaitingApprovalCount = account => {
+  const { LoggedInUser } = useLoggedInUser();
+  const host = account?.isHost ? account : account?.host;
+  const hasWorkflow = getApprovalWorkflow(host).rules.length > 0;
+  const { data } = useQuery(expensesAwaitingApprovalQuery, {
+    variables: account?.isHost ? { host: { slug: account.slug } } : { account: { slug: account?.slug } },
+    context: API_V2_CONTEXT,
+    skip: !hasWorkflow || !LoggedInUser,
+  });
+
+  return React.useMemo(() => {
+    const expenses = data?.expenses?.nodes || [];
+    return expenses.filter(expense => {
+      const rule = getApplicableApprovalRule(getApprovalWorkflow(expense.host), expense, expense.host?.currency);
+      return (
+        rule &&
+        expense.permissions.approve.allowed &&
+        isExpectedApprover(rule, getApprovalWorkflowRoles(expense, LoggedInUser))
+      );
+    }).length;
+  }, [data, LoggedInUser]);
+};
+
 export const TodoList = () => {
   const { account } = React.useContext(DashboardContext);
+  const awaitingApprovalCount = useExpensesAwaitingApprovalCount(account);
 
   const pendingExpenseCount = account?.pendingExpenses.totalCount;
   const pausedIncomingContributionsCount = account?.pausedIncomingContributions.totalCount;
@@ -16,7 +73,12 @@ export const TodoList = () => {
   const canStartResumeContributionsProcess = account?.canStartResumeContributionsProcess;
   const canActOnPausedIncomingContributions =
     pausedIncomingContributionsCount > 0 && canStartResumeContributionsProcess;
-  if (!pendingExpenseCount && !pausedOutgoingContributions && !canActOnPausedIncomingContributions) {
+  if (
+    !pendingExpenseCount &&
+    !awaitingApprovalCount &&
+    !pausedOutgoingContributions &&
+    !canActOnPausedIncomingContributions
+  ) {
     return null;
   }
 
@@ -51,6 +113,34 @@ export const TodoList = () => {
         </div>
       )}
 
+      {awaitingApprovalCount > 0 && (
+        <div className="rounded-xl border bg-slate-50 p-3 text-sm" data-cy="todo-awaiting-approval">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Signature size={16} />
+            <span>
+              <FormattedMessage
+                defaultMessage="{awaitingApprovalCount, plural, one {<Link>{awaitingApprovalCount} expense</Link> is} other {<Link>{awaitingApprovalCount} expenses</Link> are}} awaiting your approval"
+                id="ky+Ssw"
+                values={{
+                  Link: chunks => (
+                    <Link
+                      className="font-medium text-primary hover:underline"
+                      href={getDashboardRoute(
+                        account,
+                        account.isHost ? 'host-expenses?status=PENDING' : 'expenses?status=PENDING',
+                      )}
+                    >
+                      {chunks}
+                    </Link>
+                  ),
+                  awaitingApprovalCount,
+                }}
+              />
+            </span>
+          </div>
+        </div>
+      )}
+
       {canActOnPausedIncomingContributions && (
         <div className="rounded-xl border bg-slate-50 p-3 text-sm">
           <div className="flex items-center gap-2 text-muted-foreground">
@@ -257,6 +257,8 @@ export const overviewMetricsQuery = gql`
     $includeReceived: Boolean!
     $includeReceivedTimeseries: Boolean!
     $includeContributionsCount: Boolean!
+    $includeRecoveryRate: Boolean!
+    $includeHostedAccounts: Boolean!
     $timeUnit: TimeUnit
   ) {
     account(slug: $slug) {
@@ -395,6 +397,23 @@ export const overviewMetricsQuery = gql`
           @include(if: $includeComparison)
       }
     }
+    failedContributions: activities(
+      account: [{ slug: $slug }]
+      type: [ORDER_PAYMENT_FAILED, PAYMENT_FAILED]
+      includeHostedAccounts: $includeHostedAccounts
+      dateFrom: $dateFrom
+      dateTo: $dateTo
+      limit: 1000
+    ) @include(if: $includeRecoveryRate) {
+      totalCount
+      nodes {
+        id
+        order {
+          id
+          status
+        }
+      }
+    }
   }
   ${accountHoverCardFields}
 `;
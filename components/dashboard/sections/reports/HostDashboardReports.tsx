@@ -24,6 +24,7 @@ import StyledLink from '../../../StyledLink';
 import StyledTooltip from '../../../StyledTooltip';
 import { H2 } from '../../../Text';
 import { Button } from '../../../ui/Button';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import ExportTransactionsCSVModal from '../../ExportTransactionsCSVModal';
 import { dateFilter } from '../../filters/DateFilter';
@@ -183,12 +184,14 @@ const getDefaultFilterValues = (): Partial<FilterValues> => {
 };
 const HostDashboardReports = ({ accountSlug: hostSlug }: DashboardSectionProps) => {
   const defaultFilterValues = getDefaultFilterValues();
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     filters,
     schema,
     toVariables,
     defaultFilterValues,
     meta: { hostSlug },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading } = useQuery(hostReportPageQuery, {
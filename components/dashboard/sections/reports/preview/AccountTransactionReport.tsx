@@ -30,7 +30,8 @@ import { ReportNavigationArrows } from './NavigationArrows';
 import { reportQuery } from './queries';
 import { ReportContent } from './ReportContent';
 import { deserializeReportSlug, ReportPeriodSelector } from './ReportPeriodSelector';
-import type { GroupFilter } from './types';
+import { ReportRowTransactionsDrawer } from './ReportRowTransactionsDrawer';
+import type { GroupFilter, ReportRowFilter } from './types';
 
 const schema = z.object({
   computational: boolean.default(false),
@@ -76,17 +77,26 @@ const TransactionReport = ({ accountSlug, subpath }: DashboardSectionProps) => {
     skipRouter: true, // we don't want to update the URL (already done by the main query filter)
   });
 
-  const openExportTransactionsModal = (rowFilter: GroupFilter = {}) => {
+  const openExportTransactionsModal = (rowFilter: GroupFilter | ReportRowFilter = {}) => {
     const transactionsFilters = filterToTransactionsFilterValues(rowFilter, variables);
     transactionsQueryFilter.resetFilters(transactionsFilters);
     setDisplayExportCSVModal(true);
   };
 
-  const viewTransactions = (rowFilter: GroupFilter = {}) => {
+  const viewTransactions = (rowFilter: GroupFilter | ReportRowFilter = {}) => {
     const transactionsFilters = filterToTransactionsFilterValues(rowFilter, variables);
     transactionsQueryFilter.resetFilters(transactionsFilters, `/dashboard/${accountSlug}/transactions`);
   };
 
+  // The report row whose transactions are displayed in the drawer, one part at a time
+  const [selectedRow, setSelectedRow] = React.useState(null);
+  const [selectedPartIndex, setSelectedPartIndex] = React.useState(0);
+  const showRowTransactions = (row, partIndex = 0) => {
+    transactionsQueryFilter.resetFilters(filterToTransactionsFilterValues(row.parts[partIndex].filter, variables));
+    setSelectedRow(row);
+    setSelectedPartIndex(partIndex);
+  };
+
   const showCreditDebit = layout === TestLayout.DEBITCREDIT;
 
   const report = buildReport(data?.account?.transactionReports?.nodes[0], {
@@ -148,6 +158,7 @@ const TransactionReport = ({ accountSlug, subpath }: DashboardSectionProps) => {
                 variables={variables}
                 openExportTransactionsModal={openExportTransactionsModal}
                 viewTransactions={viewTransactions}
+                showRowTransactions={showRowTransactions}
                 currency={data?.account?.currency}
                 showCreditDebit={showCreditDebit}
               />
@@ -155,6 +166,21 @@ const TransactionReport = ({ accountSlug, subpath }: DashboardSectionProps) => {
           )}
         </div>
       </div>
+      <ReportRowTransactionsDrawer
+        row={selectedRow}
+        partIndex={selectedPartIndex}
+        onPartChange={partIndex => showRowTransactions(selectedRow, partIndex)}
+        onClose={() => setSelectedRow(null)}
+        queryFilter={transactionsQueryFilter}
+        queryVariables={{ account: { slug: accountSlug } }}
+        reportVariables={variables}
+        currency={data?.account?.currency}
+        onViewAll={() => viewTransactions(selectedRow.parts[selectedPartIndex].filter)}
+        onExport={() => {
+          setSelectedRow(null);
+          openExportTransactionsModal(selectedRow.parts[selectedPartIndex].filter);
+        }}
+      />
       <ExportTransactionsCSVModal
         open={displayExportCSVModal}
         setOpen={setDisplayExportCSVModal}
@@ -34,7 +34,8 @@ import { ReportNavigationArrows } from './NavigationArrows';
 import { hostReportQuery } from './queries';
 import { ReportContent } from './ReportContent';
 import { deserializeReportSlug, ReportPeriodSelector } from './ReportPeriodSelector';
-import type { GroupFilter } from './types';
+import { ReportRowTransactionsDrawer } from './ReportRowTransactionsDrawer';
+import type { GroupFilter, ReportRowFilter } from './types';
 
 const schema = z.object({
   isHost: boolean.default(false),
@@ -81,17 +82,28 @@ const HostTransactionReport = ({ accountSlug: hostSlug, subpath }: DashboardSect
     skipRouter: true, // we don't want to update the URL (already done by the main query filter)
   });
 
-  const openExportTransactionsModal = (rowFilter: GroupFilter = {}) => {
+  const openExportTransactionsModal = (rowFilter: GroupFilter | ReportRowFilter = {}) => {
     const transactionsFilters = filterToHostTransactionsFilterValues(hostSlug, rowFilter, variables);
     hostTransactionsQueryFilter.resetFilters(transactionsFilters);
     setDisplayExportCSVModal(true);
   };
 
-  const viewTransactions = (rowFilter: GroupFilter = {}) => {
+  const viewTransactions = (rowFilter: GroupFilter | ReportRowFilter = {}) => {
     const transactionsFilters = filterToHostTransactionsFilterValues(hostSlug, rowFilter, variables);
     hostTransactionsQueryFilter.resetFilters(transactionsFilters, `/dashboard/${hostSlug}/host-transactions`);
   };
 
+  // The report row whose transactions are displayed in the drawer, one part at a time
+  const [selectedRow, setSelectedRow] = React.useState(null);
+  const [selectedPartIndex, setSelectedPartIndex] = React.useState(0);
+  const showRowTransactions = (row, partIndex = 0) => {
+    hostTransactionsQueryFilter.resetFilters(
+      filterToHostTransactionsFilterValues(hostSlug, row.parts[partIndex].filter, variables),
+    );
+    setSelectedRow(row);
+    setSelectedPartIndex(partIndex);
+  };
+
   const showCreditDebit = layout === TestLayout.DEBITCREDIT;
   const currentRawReport =
     data?.host?.hostTransactionsReports?.nodes[0]?.[queryFilter.values.isHost ? 'operationalFunds' : 'managedFunds'];
@@ -157,6 +169,7 @@ const HostTransactionReport = ({ accountSlug: hostSlug, subpath }: DashboardSect
                 report={report}
                 openExportTransactionsModal={openExportTransactionsModal}
                 viewTransactions={viewTransactions}
+                showRowTransactions={showRowTransactions}
                 currency={data?.host?.currency}
                 showCreditDebit={showCreditDebit}
               />
@@ -164,6 +177,21 @@ const HostTransactionReport = ({ accountSlug: hostSlug, subpath }: DashboardSect
           )}
         </div>
       </div>
+      <ReportRowTransactionsDrawer
+        row={selectedRow}
+        partIndex={selectedPartIndex}
+        onPartChange={partIndex => showRowTransactions(selectedRow, partIndex)}
+        onClose={() => setSelectedRow(null)}
+        queryFilter={hostTransactionsQueryFilter}
+        queryVariables={{ hostAccount: { slug: hostSlug } }}
+        reportVariables={variables}
+        currency={data?.host?.currency}
+        onViewAll={() => viewTransactions(selectedRow.parts[selectedPartIndex].filter)}
+        onExport={() => {
+          setSelectedRow(null);
+          openExportTransactionsModal(selectedRow.parts[selectedPartIndex].filter);
+        }}
+      />
       <ExportTransactionsCSVModal
         open={displayExportCSVModal}
         setOpen={setDisplayExportCSVModal}
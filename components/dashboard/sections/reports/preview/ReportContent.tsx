@@ -20,6 +20,7 @@ export function ReportContent({
   currency,
   viewTransactions,
   openExportTransactionsModal,
+  showRowTransactions,
 }) {
   const intl = useIntl();
 
@@ -66,7 +67,10 @@ export function ReportContent({
 
                 return (
                   <React.Fragment key={JSON.stringify(row.filter)}>
-                    <tr className="group text-sm hover:bg-muted has-[[data-state=open]]:bg-muted">
+                    <tr
+                      className="group cursor-pointer text-sm hover:bg-muted has-[[data-state=open]]:bg-muted"
+                      onClick={() => showRowTransactions(row)}
+                    >
                       <td className="flex min-h-8 flex-1 items-center gap-1 overflow-hidden truncate text-wrap py-1 pl-6 text-left sm:pl-10">
                         <span className="underline-offset-2 transition-colors hover:decoration-slate-400">
                           {row.label || <TransactionReportRowLabel filter={row.filter} />}
@@ -99,7 +103,7 @@ export function ReportContent({
                         </td>
                       )}
 
-                      <td className="pr-1 text-right sm:pr-2">
+                      <td className="pr-1 text-right sm:pr-2" onClick={e => e.stopPropagation()}>
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
                             <Button
@@ -111,12 +115,21 @@ export function ReportContent({
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => viewTransactions(row.filter)}>
-                              <FormattedMessage defaultMessage="View transactions" id="DfQJQ6" />
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => openExportTransactionsModal(row.filter)}>
-                              <FormattedMessage defaultMessage="Export transactions" id="T72ceA" />
-                            </DropdownMenuItem>
+                            {row.parts.length === 1 ? (
+                              <React.Fragment>
+                                <DropdownMenuItem onClick={() => viewTransactions(row.parts[0].filter)}>
+                                  <FormattedMessage defaultMessage="View transactions" id="DfQJQ6" />
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => openExportTransactionsModal(row.parts[0].filter)}>
+                                  <FormattedMessage defaultMessage="Export transactions" id="T72ceA" />
+                                </DropdownMenuItem>
+                              </React.Fragment>
+                            ) : (
+                              // The transactions of this row need several queries, they're listed part by part in the drawer
+                              <DropdownMenuItem onClick={() => showRowTransactions(row)}>
+                                <FormattedMessage defaultMessage="View transactions" id="DfQJQ6" />
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </td>
@@ -0,0 +1,189 @@
+import React from 'react';
+import { useQuery } from '@apollo/client';
+import { ArrowUpRight, Download } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import dayjs from '../../../../../lib/dayjs';
+import { API_V2_CONTEXT } from '../../../../../lib/graphql/helpers';
+import type { TransactionsTableQueryVariables } from '../../../../../lib/graphql/types/v2/graphql';
+import type { useQueryFilterReturnType } from '../../../../../lib/hooks/useQueryFilter';
+
+import DateTime from '../../../../DateTime';
+import DrawerHeader from '../../../../DrawerHeader';
+import FormattedMoneyAmount from '../../../../FormattedMoneyAmount';
+import MessageBox from '../../../../MessageBox';
+import MessageBoxGraphqlError from '../../../../MessageBoxGraphqlError';
+import { DataList, DataListItem } from '../../../../ui/DataList';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../../ui/Select';
+import { Sheet, SheetBody, SheetContent } from '../../../../ui/Sheet';
+import { Skeleton } from '../../../../ui/Skeleton';
+import { Pagination } from '../../../filters/Pagination';
+import type { schema as transactionsSchema } from '../../transactions/filters';
+import { transactionsTableQuery } from '../../transactions/queries';
+
+import { TransactionReportRowLabel } from './TransactionRowLabel';
+import type { ReportRowPart } from './types';
+
+const getPartAmount = (part: ReportRowPart) =>
+  part.groups.reduce((total, group) => total + group.amount.valueInCents, 0);
+
+/**
+ * Lists the transactions behind a row of a transactions report, with shortcuts to open them in the transactions
+ * section or to export them. Rows that can't be loaded with a single query are split in parts, see `getReportRowParts`.
+ */
+export function ReportRowTransactionsDrawer({
+  row,
+  partIndex,
+  onPartChange,
+  onClose,
+  queryFilter,
+  queryVariables,
+  reportVariables,
+  currency,
+  onViewAll,
+  onExport,
+}: {
+  row: { label?: string; filter: Record<string, unknown>; amount: number; parts: ReportRowPart[] } | null;
+  partIndex: number;
+  onPartChange: (partIndex: number) => void;
+  onClose: () => void;
+  queryFilter: useQueryFilterReturnType<typeof transactionsSchema, TransactionsTableQueryVariables>;
+  /** Variables identifying the account of the report, e.g. `{ hostAccount: { slug } }` */
+  queryVariables: Record<string, unknown>;
+  reportVariables: { dateFrom?: string; dateTo?: string };
+  currency: string;
+  onViewAll: () => void;
+  onExport: () => void;
+}) {
+  const intl = useIntl();
+  const { data, loading, error } = useQuery(transactionsTableQuery, {
+    variables: {
+      includeIncognitoTransactions: true,
+      includeChildrenTransactions: true,
+      ...queryVariables,
+      ...queryFilter.variables,
+    },
+    context: API_V2_CONTEXT,
+    skip: !row,
+  });
+  const transactions = data?.transactions;
+  const part = row?.parts[partIndex];
+
+  return (
+    <Sheet open={Boolean(row)} onOpenChange={open => !open && onClose()}>
+      {row && (
+        <SheetContent className="text-sm">
+          <DrawerHeader
+            entityName={intl.formatMessage({ defaultMessage: 'Report line', id: 'HdpAfd' })}
+            entityIdentifier={null}
+            entityLabel={
+              <span className="text-base font-semibold text-foreground">
+                {row.label || <TransactionReportRowLabel filter={row.filter} />}
+              </span>
+            }
+            dropdownTriggerRef={null}
+            actions={{
+              primary: [
+                {
+                  key: 'view',
+                  label: intl.formatMessage({ defaultMessage: 'View transactions', id: 'DfQJQ6' }),
+                  Icon: ArrowUpRight,
+                  onClick: onViewAll,
+                },
+                {
+                  key: 'export',
+                  label: intl.formatMessage({ defaultMessage: 'Export transactions', id: 'T72ceA' }),
+                  Icon: Download,
+                  onClick: onExport,
+                },
+              ],
+            }}
+          />
+          <SheetBody className="flex flex-col gap-6">
+            {row.parts.length > 1 && (
+              <div className="flex flex-col gap-2">
+                <p className="text-muted-foreground">
+                  <FormattedMessage
+                    defaultMessage="The transactions of this line can't be loaded at once. Select the part to display:"
+                    id="IgHd1y"
+                  />
+                </p>
+                <Select value={String(partIndex)} onValueChange={value => onPartChange(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {row.parts.map((part, index) => (
+                      // eslint-disable-next-line react/no-array-index-key
+                      <SelectItem key={index} value={String(index)}>
+                        <span className="flex gap-2">
+                          {part.groups.map(group => (
+                            <TransactionReportRowLabel
+                              key={[group.kind, group.type, group.expenseType, group.isRefund].join('-')}
+                              filter={group}
+                            />
+                          ))}
+                          <FormattedMoneyAmount amount={getPartAmount(part)} currency={currency} />
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {part?.includesOtherRows && (
+              <MessageBox type="warning" withIcon>
+                <FormattedMessage
+                  defaultMessage="Transactions without an expense type can't be filtered separately: this list also includes transactions of other lines of the report."
+                  id="c+KFvY"
+                />
+              </MessageBox>
+            )}
+            <DataList>
+              <DataListItem
+                label={intl.formatMessage({ defaultMessage: 'Period', id: 'Period' })}
+                value={`${dayjs(reportVariables.dateFrom).utc().format('D MMM, YYYY')} - ${dayjs(reportVariables.dateTo).utc().format('D MMM, YYYY')} (UTC)`}
+              />
+              <DataListItem
+                label={intl.formatMessage({ id: 'Fields.amount', defaultMessage: 'Amount' })}
+                value={<FormattedMoneyAmount amount={part ? getPartAmount(part) : row.amount} currency={currency} />}
+              />
+              <DataListItem
+                label={intl.formatMessage({ defaultMessage: 'Number of transactions', id: 'c3RuBq' })}
+                value={loading ? <Skeleton className="h-4 w-12" /> : transactions?.totalCount}
+              />
+            </DataList>
+            {error ? (
+              <MessageBoxGraphqlError error={error} />
+            ) : (
+              <ul className="flex flex-col divide-y rounded-lg border">
+                {loading
+                  ? Array.from({ length: 5 }, (_, i) => (
+                      <li key={i} className="px-3 py-2">
+                        <Skeleton className="h-10 w-full" />
+                      </li>
+                    ))
+                  : transactions?.nodes.map(transaction => (
+                      <li key={transaction.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate font-medium text-foreground">{transaction.description}</span>
+                          <span className="truncate text-xs text-muted-foreground">
+                            <DateTime value={transaction.createdAt} dateStyle="medium" /> · {transaction.account?.name}
+                          </span>
+                        </div>
+                        <FormattedMoneyAmount
+                          amount={transaction.amount.valueInCents}
+                          currency={transaction.amount.currency}
+                          showCurrencyCode={false}
+                        />
+                      </li>
+                    ))}
+              </ul>
+            )}
+            <Pagination queryFilter={queryFilter} total={transactions?.totalCount} />
+          </SheetBody>
+        </SheetContent>
+      )}
+    </Sheet>
+  );
+}
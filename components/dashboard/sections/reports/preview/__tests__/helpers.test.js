@@ -0,0 +1,104 @@
+import { filterToTransactionsFilterValues, getReportRowParts, matchesReportRowFilter } from '../helpers';
+import { buildReport } from '../report-builder/build-report';
+
+const amount = valueInCents => ({ valueInCents, currency: 'USD' });
+const group = (fields, valueInCents) => ({
+  amount: amount(valueInCents),
+  netAmount: amount(valueInCents),
+  platformFee: amount(0),
+  paymentProcessorFee: amount(0),
+  hostFee: amount(0),
+  taxAmount: amount(0),
+  isHost: true,
+  isRefund: false,
+  expenseType: null,
+  ...fields,
+});
+
+describe('getReportRowParts', () => {
+  it('merges the groups that only differ by their expense type or kind', () => {
+    const groups = [
+      group({ kind: 'EXPENSE', type: 'DEBIT', expenseType: 'INVOICE' }, -100),
+      group({ kind: 'EXPENSE', type: 'DEBIT', expenseType: 'RECEIPT' }, -200),
+    ];
+
+    expect(getReportRowParts({ filter: { kind: 'EXPENSE' }, groups }, groups)).toEqual([
+      {
+        filter: {
+          isHost: true,
+          kind: ['EXPENSE'],
+          type: 'DEBIT',
+          expenseType: ['INVOICE', 'RECEIPT'],
+          isRefund: false,
+        },
+        groups,
+        includesOtherRows: false,
+      },
+    ]);
+  });
+
+  it('splits the groups that cannot be matched with a single filter', () => {
+    const groups = [
+      group({ kind: 'CONTRIBUTION', type: 'CREDIT' }, 100),
+      group({ kind: 'ADDED_FUNDS', type: 'DEBIT', isRefund: true }, -50),
+    ];
+
+    const parts = getReportRowParts({ filter: {}, groups }, groups);
+    expect(parts.map(part => part.filter)).toEqual([
+      { isHost: true, kind: ['CONTRIBUTION'], type: 'CREDIT', isRefund: false },
+      { isHost: true, kind: ['ADDED_FUNDS'], type: 'DEBIT', isRefund: true },
+    ]);
+  });
+
+  it('flags the parts that also match the groups of other rows', () => {
+    const feeWithoutExpense = group({ kind: 'PAYMENT_PROCESSOR_FEE', type: 'DEBIT' }, -10);
+    const feeOfInvoice = group({ kind: 'PAYMENT_PROCESSOR_FEE', type: 'DEBIT', expenseType: 'INVOICE' }, -20);
+
+    const [part] = getReportRowParts({ filter: {}, groups: [feeWithoutExpense] }, [feeWithoutExpense, feeOfInvoice]);
+    expect(part.includesOtherRows).toBe(true);
+    expect(getReportRowParts({ filter: {}, groups: [feeOfInvoice] }, [feeWithoutExpense, feeOfInvoice])).toEqual([
+      expect.objectContaining({ includesOtherRows: false }),
+    ]);
+  });
+
+  it('matches exactly the transactions of each row of a report', () => {
+    const groups = [
+      group({ kind: 'CONTRIBUTION', type: 'CREDIT' }, 1000),
+      group({ kind: 'CONTRIBUTION', type: 'DEBIT', isRefund: true }, -100),
+      group({ kind: 'EXPENSE', type: 'DEBIT', expenseType: 'INVOICE' }, -300),
+      group({ kind: 'EXPENSE', type: 'DEBIT', expenseType: 'RECEIPT' }, -200),
+      group({ kind: 'EXPENSE', type: 'DEBIT', expenseType: 'GRANT' }, -150),
+      group({ kind: 'EXPENSE', type: 'CREDIT', expenseType: 'INVOICE', isRefund: true }, 30),
+      group({ kind: 'HOST_FEE', type: 'CREDIT' }, 60),
+      group({ kind: 'ADDED_FUNDS', type: 'CREDIT' }, 500),
+      group({ kind: 'BALANCE_TRANSFER', type: 'DEBIT' }, -40),
+    ];
+
+    const report = buildReport(
+      { groups },
+      { showCreditDebit: false, filter: { isHost: true }, useComputationalLayout: false },
+    );
+    const rows = report.sections.flatMap(section => section.rows);
+    const matchedGroups = rows.flatMap(row => {
+      const rowGroups = groups.filter(g => row.parts.some(part => matchesReportRowFilter(part.filter, g)));
+      const listedTotal = rowGroups.reduce((total, g) => total + g.amount.valueInCents, 0);
+      expect(listedTotal).toEqual(row.amount);
+      return rowGroups;
+    });
+
+    // Each group of transactions is listed in exactly one row
+    expect(matchedGroups).toHaveLength(groups.length);
+    expect(new Set(matchedGroups).size).toBe(groups.length);
+  });
+});
+
+describe('filterToTransactionsFilterValues', () => {
+  it('converts the filter of a row to the filters of the transactions list', () => {
+    const variables = { dateFrom: '2024-01-01T00:00:00.000Z', dateTo: '2024-01-31T23:59:59.999Z' };
+    expect(filterToTransactionsFilterValues({ kind: ['EXPENSE'], expenseType: ['INVOICE'] }, variables)).toEqual({
+      kind: ['EXPENSE'],
+      expenseType: ['INVOICE'],
+      date: { gte: '2024-01-01', lte: '2024-01-31', type: 'BETWEEN', tz: 'UTC' },
+    });
+  });
+});
@@ -1,13 +1,13 @@
-import { isNil } from 'lodash';
+import { castArray, groupBy, isEmpty, isNil, omitBy, uniq } from 'lodash';
 
 import { getDayjsIsoUnit } from '../../../../../lib/date-utils';
 import dayjs from '../../../../../lib/dayjs';
-import type { TimeUnit } from '../../../../../lib/graphql/types/v2/graphql';
+import type { TimeUnit, TransactionsAmountGroup } from '../../../../../lib/graphql/types/v2/graphql';
 
 import { DateFilterType } from '../../../filters/DateFilter/schema';
 import type { FilterValues as HostTransactionsFilterValues } from '../../transactions/HostTransactions';
 
-import type { GroupFilter } from './types';
+import type { GroupFilter, ReportRowFilter, ReportRowPart } from './types';
 
 export const isCurrentPeriod = variables => {
   const now = dayjs.utc();
@@ -16,9 +16,70 @@ export const isCurrentPeriod = variables => {
   return dateFrom.isSame(now.startOf(dayjsIsoUnit), dayjsIsoUnit);
 };
 
+/**
+ * Whether the transactions of a report group are matched by the filter, the same way the transactions API applies it.
+ */
+export const matchesReportRowFilter = (filter: ReportRowFilter, group: TransactionsAmountGroup): boolean =>
+  (isNil(filter.isHost) || group.isHost === filter.isHost) &&
+  (isEmpty(filter.kind) || filter.kind.includes(group.kind)) &&
+  (!filter.type || group.type === filter.type) &&
+  (isEmpty(filter.expenseType) || filter.expenseType.includes(group.expenseType)) &&
+  (isNil(filter.isRefund) || group.isRefund === filter.isRefund);
+
+// Merges the parts whose filters only differ by the values of `key`, which keeps them exact
+const mergePartsBy = (parts: ReportRowPart[], key: 'kind' | 'expenseType'): ReportRowPart[] => {
+  const partsByOtherValues = groupBy(parts, part => JSON.stringify({ ...part.filter, [key]: null }));
+  return Object.values(partsByOtherValues).flatMap(similarParts => {
+    // An empty list means "all values", which can't be merged with the others
+    if (similarParts.length === 1 || similarParts.some(part => isEmpty(part.filter[key]))) {
+      return similarParts;
+    }
+
+    const values = uniq(similarParts.flatMap<string>(part => part.filter[key])).sort();
+    const groups = similarParts.flatMap(part => part.groups);
+    return [{ ...similarParts[0], filter: { ...similarParts[0].filter, [key]: values }, groups }];
+  });
+};
+
+/**
+ * Splits a report row in parts that each match a single transactions query. The transactions API can't combine
+ * filters with OR, and rows only include the groups that were not matched by the previous rows: a single filter built
+ * from the definition of the row would include transactions of other rows.
+ *
+ * Transactions without an expense type can't be filtered as such, so a part for them can also match groups of other
+ * rows that only differ by their expense type. These parts are flagged with `includesOtherRows`.
+ */
+export const getReportRowParts = (
+  row: { filter: GroupFilter; groups?: TransactionsAmountGroup[] },
+  reportGroups: TransactionsAmountGroup[],
+): ReportRowPart[] => {
+  const groups = row.groups || [];
+  const parts = groups.map(group => ({
+    filter: omitBy(
+      {
+        isHost: group.isHost ?? row.filter.isHost,
+        kind: [group.kind],
+        type: group.type,
+        expenseType: group.expenseType ? [group.expenseType] : undefined,
+        isRefund: group.isRefund,
+      },
+      isNil,
+    ) as ReportRowFilter,
+    groups: [group],
+    includesOtherRows: false,
+  }));
+
+  return mergePartsBy(mergePartsBy(parts, 'expenseType'), 'kind').map(part => ({
+    ...part,
+    includesOtherRows: reportGroups.some(
+      group => !groups.includes(group) && matchesReportRowFilter(part.filter, group),
+    ),
+  }));
+};
+
 export const filterToHostTransactionsFilterValues = (
   hostSlug,
-  groupFilter: GroupFilter,
+  groupFilter: GroupFilter | ReportRowFilter,
   variables,
 ): Partial<HostTransactionsFilterValues> => {
   return {
@@ -29,14 +90,14 @@ export const filterToHostTransactionsFilterValues = (
       : {
           excludeAccount: hostSlug,
         }),
-    ...(groupFilter.kind && {
-      kind: [groupFilter.kind],
+    ...(!isEmpty(groupFilter.kind) && {
+      kind: castArray(groupFilter.kind),
     }),
     ...(groupFilter.type && {
       type: groupFilter.type,
     }),
-    ...(groupFilter.expenseType && {
-      expenseType: [groupFilter.expenseType],
+    ...(!isEmpty(groupFilter.expenseType) && {
+      expenseType: castArray(groupFilter.expenseType),
     }),
     ...(!isNil(groupFilter.isRefund) && {
       isRefund: groupFilter.isRefund,
@@ -51,18 +112,18 @@ export const filterToHostTransactionsFilterValues = (
 };
 
 export const filterToTransactionsFilterValues = (
-  groupFilter: GroupFilter,
+  groupFilter: GroupFilter | ReportRowFilter,
   variables,
 ): Partial<HostTransactionsFilterValues> => {
   return {
-    ...(groupFilter.kind && {
-      kind: [groupFilter.kind],
+    ...(!isEmpty(groupFilter.kind) && {
+      kind: castArray(groupFilter.kind),
     }),
     ...(groupFilter.type && {
       type: groupFilter.type,
     }),
-    ...(groupFilter.expenseType && {
-      expenseType: [groupFilter.expenseType],
+    ...(!isEmpty(groupFilter.expenseType) && {
+      expenseType: castArray(groupFilter.expenseType),
     }),
     ...(!isNil(groupFilter.isRefund) && {
       isRefund: groupFilter.isRefund,
@@ -2,6 +2,7 @@ import { pick } from 'lodash';
 
 import type { TransactionReport } from '../../../../../../lib/graphql/types/v2/graphql';
 
+import { getReportRowParts } from '../helpers';
 import { ReportSection } from '../types';
 
 import { computationalGroups } from './computational-groups';
@@ -70,9 +71,9 @@ export const buildReport = (report: TransactionReport, { showCreditDebit, filter
   }));
 
   // Filter out groups with 0 amount, unless showCreditDebit is enabled
-  const rows = [...reportRows, ...remainderRows].filter(part =>
-    showCreditDebit ? part.groups?.length : part.amount !== 0,
-  );
+  const rows = [...reportRows, ...remainderRows]
+    .filter(part => (showCreditDebit ? part.groups?.length : part.amount !== 0))
+    .map(row => ({ ...row, parts: getReportRowParts(row, transactionsReportResultGroups) }));
 
   // Group by section
   const rowsBySection = rows.reduce((acc, row) => {
@@ -1,4 +1,9 @@
-import type { ExpenseType, TransactionKind, TransactionType } from '../../../../../lib/graphql/types/v2/graphql';
+import type {
+  ExpenseType,
+  TransactionKind,
+  TransactionsAmountGroup,
+  TransactionType,
+} from '../../../../../lib/graphql/types/v2/graphql';
 
 export enum ReportSection {
   CONTRIBUTIONS = 'CONTRIBUTIONS',
@@ -17,6 +22,23 @@ export type GroupFilter = {
   expenseType?: ExpenseType;
 };
 
+/** A filter on the transactions behind a report row, see `getReportRowParts` */
+export type ReportRowFilter = {
+  kind?: TransactionKind[];
+  isHost?: boolean;
+  isRefund?: boolean;
+  type?: TransactionType;
+  expenseType?: ExpenseType[];
+};
+
+/** A part of a report row whose transactions can be loaded with a single query */
+export type ReportRowPart = {
+  filter: ReportRowFilter;
+  groups: TransactionsAmountGroup[];
+  /** Whether the filter also matches groups of other rows, see `getReportRowParts` */
+  includesOtherRows: boolean;
+};
+
 export type Group = {
   section?: string;
   label?: string;
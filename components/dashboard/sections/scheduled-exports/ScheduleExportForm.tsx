@@ -0,0 +1,172 @@
+import React from 'react';
+import { useMutation } from '@apollo/client';
+import { FormattedMessage, useIntl } from 'react-intl';
+import { v4 as uuid } from 'uuid';
+
+import type { CSVField } from '../../../../lib/csv';
+import { i18nGraphqlException } from '../../../../lib/errors';
+import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
+import type { Account } from '../../../../lib/graphql/types/v2/graphql';
+
+import Link from '../../../Link';
+import { Button } from '../../../ui/Button';
+import { Input } from '../../../ui/Input';
+import { Label } from '../../../ui/Label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../ui/Select';
+import { useToast } from '../../../ui/useToast';
+
+import type { ScheduledTransactionsExport } from './helpers';
+import {
+  SCHEDULED_EXPORTS_SETTINGS_KEY,
+  ScheduledExportFrequency,
+  ScheduledExportFrequencyLabels,
+  ScheduledExportWindow,
+  ScheduledExportWindowLabels,
+} from './helpers';
+import { editScheduledExportsMutation } from './queries';
+
+const DEFAULT_WINDOWS = {
+  [ScheduledExportFrequency.WEEKLY]: ScheduledExportWindow.PREVIOUS_WEEK,
+  [ScheduledExportFrequency.MONTHLY]: ScheduledExportWindow.PREVIOUS_MONTH,
+};
+
+/**
+ * Saves the current export settings (fields and filters) as a recurring export, downloadable for each period.
+ */
+export const ScheduleExportForm = ({
+  account,
+  defaultName,
+  fields,
+  query,
+  isHostReport,
+  onCancel,
+  onSuccess,
+}: {
+  account: Pick<Account, 'slug'>;
+  defaultName: string;
+  fields: Array<CSVField>;
+  query: string;
+  isHostReport: boolean;
+  onCancel: () => void;
+  onSuccess: () => void;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [name, setName] = React.useState(defaultName);
+  const [frequency, setFrequency] = React.useState(ScheduledExportFrequency.MONTHLY);
+  const [window, setWindow] = React.useState(ScheduledExportWindow.PREVIOUS_MONTH);
+  const [editSetting, { loading }] = useMutation(editScheduledExportsMutation, { context: API_V2_CONTEXT });
+
+  const submit = async () => {
+    const schedule: ScheduledTransactionsExport = {
+      name: name.trim(),
+      frequency,
+      window,
+      fields,
+      query,
+      isHostReport,
+      createdAt: new Date().toISOString(),
+    };
+
+    try {
+      await editSetting({
+        variables: {
+          account: { slug: account.slug },
+          key: `${SCHEDULED_EXPORTS_SETTINGS_KEY}.${uuid()}`,
+          value: schedule,
+        },
+      });
+      toast({
+        variant: 'success',
+        message: (
+          <FormattedMessage
+            defaultMessage="Export saved. Its files can be downloaded from <Link>Recurring exports</Link> at the end of each period."
+            id="zVXQAZ"
+            values={{
+              Link: chunks => (
+                <Link className="underline" href={`/dashboard/${account.slug}/scheduled-exports`}>
+                  {chunks}
+                </Link>
+              ),
+            }}
+          />
+        ),
+      });
+      onSuccess();
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-lg border border-solid border-slate-200 px-6 py-4">
+      <div>
+        <h1 className="font-bold">
+          <FormattedMessage defaultMessage="Make this a recurring export" id="1AtnxV" />
+        </h1>
+        <p className="mt-1 text-xs text-gray-500">
+          <FormattedMessage
+            defaultMessage="The selected fields and filters will be saved, and a file will be available to download at the end of each period. The date filter is replaced by the period below. Files are not sent automatically."
+            id="iIyUhg"
+          />
+        </p>
+      </div>
+      <div className="flex flex-col gap-4 sm:flex-row">
+        <div className="flex flex-1 flex-col gap-2">
+          <Label htmlFor="scheduled-export-name">
+            <FormattedMessage defaultMessage="Name" id="Fields.name" />
+          </Label>
+          <Input id="scheduled-export-name" value={name} onChange={e => setName(e.target.value)} maxLength={100} />
+        </div>
+        <div className="flex flex-1 flex-col gap-2">
+          <Label htmlFor="scheduled-export-frequency">
+            <FormattedMessage defaultMessage="Frequency" id="Frequency" />
+          </Label>
+          <Select
+            value={frequency}
+            onValueChange={(value: ScheduledExportFrequency) => {
+              setFrequency(value);
+              setWindow(DEFAULT_WINDOWS[value]);
+            }}
+          >
+            <SelectTrigger id="scheduled-export-frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ScheduledExportFrequency).map(value => (
+                <SelectItem key={value} value={value}>
+                  {intl.formatMessage(ScheduledExportFrequencyLabels[value])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-1 flex-col gap-2">
+          <Label htmlFor="scheduled-export-window">
+            <FormattedMessage defaultMessage="Period" id="Period" />
+          </Label>
+          <Select value={window} onValueChange={(value: ScheduledExportWindow) => setWindow(value)}>
+            <SelectTrigger id="scheduled-export-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ScheduledExportWindow).map(value => (
+                <SelectItem key={value} value={value}>
+                  {intl.formatMessage(ScheduledExportWindowLabels[value])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={loading}>
+          <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+        </Button>
+        <Button onClick={submit} loading={loading} disabled={!name.trim() || !fields.length}>
+          <FormattedMessage defaultMessage="Save" id="save" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React from 'react';
+import { useMutation, useQuery } from '@apollo/client';
+import { isEmpty, omit } from 'lodash';
+import { CalendarClock, Download, Trash2 } from 'lucide-react';
+import { FormattedDate, FormattedMessage, useIntl } from 'react-intl';
+
+import { setRestAuthorizationCookie } from '../../../../lib/auth';
+import { i18nGraphqlException } from '../../../../lib/errors';
+import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
+
+import LoadingPlaceholder from '../../../LoadingPlaceholder';
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { Button } from '../../../ui/Button';
+import { useToast } from '../../../ui/useToast';
+import DashboardHeader from '../../DashboardHeader';
+import type { DashboardSectionProps } from '../../types';
+
+import type { ScheduledTransactionsExport } from './helpers';
+import {
+  getScheduledExportNextPeriodDate,
+  getScheduledExportPeriods,
+  getScheduledExportPeriodUrl,
+  SCHEDULED_EXPORTS_SETTINGS_KEY,
+  ScheduledExportFrequencyLabels,
+  ScheduledExportWindowLabels,
+} from './helpers';
+import { editScheduledExportsMutation, scheduledExportsQuery } from './queries';
+
+const ScheduledExportCard = ({
+  account,
+  schedule,
+  isDeleting,
+  onDelete,
+}: {
+  account: { slug: string };
+  schedule: ScheduledTransactionsExport;
+  isDeleting: boolean;
+  onDelete: () => void;
+}) => {
+  const intl = useIntl();
+  const periods = getScheduledExportPeriods(schedule);
+  return (
+    <div className="rounded-lg border border-neutral-200 bg-white p-4 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-bold">{schedule.name}</p>
+          <p className="text-sm text-muted-foreground">
+            {intl.formatMessage(ScheduledExportFrequencyLabels[schedule.frequency])}
+            {' · '}
+            {intl.formatMessage(ScheduledExportWindowLabels[schedule.window])}
+            {' · '}
+            <FormattedMessage
+              defaultMessage="{count, plural, one {# field} other {# fields}}"
+              id="S3b/ZN"
+              values={{ count: schedule.fields.length }}
+            />
+          </p>
+        </div>
+        <Button size="xs" variant="outlineDestructive" loading={isDeleting} onClick={onDelete}>
+          <Trash2 size={14} />
+          <FormattedMessage defaultMessage="Delete" id="actions.delete" />
+        </Button>
+      </div>
+      <div className="mt-3 flex items-center gap-2 text-sm">
+        <CalendarClock size={16} />
+        <FormattedMessage
+          defaultMessage="Next period available on {date}"
+          id="0Oqpqv"
+          values={{
+            date: (
+              <FormattedDate
+                value={getScheduledExportNextPeriodDate(schedule).toDate()}
+                dateStyle="medium"
+                timeZone="UTC"
+              />
+            ),
+          }}
+        />
+      </div>
+      {periods.length > 0 && (
+        <ul className="mt-3 flex flex-col divide-y rounded-lg border border-neutral-200">
+          {periods.map(period => (
+            <li key={period.date.toISOString()} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <FormattedMessage
+                defaultMessage="{dateFrom} to {dateTo}"
+                id="76YT3Y"
+                values={{
+                  dateFrom: <FormattedDate value={period.dateFrom.toDate()} dateStyle="medium" timeZone="UTC" />,
+                  dateTo: <FormattedDate value={period.dateTo.toDate()} dateStyle="medium" timeZone="UTC" />,
+                }}
+              />
+              <Button size="xs" variant="outline" asChild>
+                <a
+                  href={getScheduledExportPeriodUrl(account, schedule, period)}
+                  rel="noreferrer"
+                  target="_blank"
+                  onClick={setRestAuthorizationCookie}
+                >
+                  <Download size={14} />
+                  <FormattedMessage defaultMessage="Download" id="Download" />
+                </a>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists the recurring transactions exports saved from the export modal, with a download for each past period.
+ * Files are generated when downloaded, nothing is generated or sent in the background.
+ */
+const ScheduledExports = ({ accountSlug }: DashboardSectionProps) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [deletingKey, setDeletingKey] = React.useState<string | null>(null);
+  const { data, loading, error } = useQuery(scheduledExportsQuery, {
+    variables: { slug: accountSlug },
+    context: API_V2_CONTEXT,
+  });
+  const [editSetting] = useMutation(editScheduledExportsMutation, { context: API_V2_CONTEXT });
+  const account = data?.account;
+  const schedules: Record<string, ScheduledTransactionsExport> =
+    account?.settings?.[SCHEDULED_EXPORTS_SETTINGS_KEY] || {};
+
+  const deleteSchedule = async (key: string) => {
+    setDeletingKey(key);
+    try {
+      await editSetting({
+        variables: {
+          account: { slug: account.slug },
+          key: SCHEDULED_EXPORTS_SETTINGS_KEY,
+          value: omit(schedules, [key]),
+        },
+      });
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    } finally {
+      setDeletingKey(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <DashboardHeader
+        title={<FormattedMessage defaultMessage="Recurring exports" id="+VVUoU" />}
+        description={
+          <FormattedMessage
+            defaultMessage="Saved transactions exports, with a file to download for each period. Files are generated when you download them: nothing is sent automatically. Use the export button from the transactions page to save a new one."
+            id="sUwncZ"
+          />
+        }
+      />
+      {loading ? (
+        <LoadingPlaceholder height={300} />
+      ) : error ? (
+        <MessageBoxGraphqlError error={error} />
+      ) : isEmpty(schedules) ? (
+        <div className="rounded-lg border border-dashed border-neutral-300 p-6 text-center text-sm text-muted-foreground">
+          <FormattedMessage defaultMessage="No recurring exports yet." id="DB2u6S" />
+        </div>
+      ) : (
+        Object.entries(schedules).map(([key, schedule]) => (
+          <ScheduledExportCard
+            key={key}
+            account={account}
+            schedule={schedule}
+            isDeleting={deletingKey === key}
+            onDelete={() => deleteSchedule(key)}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ScheduledExports;
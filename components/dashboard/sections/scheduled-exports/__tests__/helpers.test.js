@@ -0,0 +1,43 @@
+import dayjs from '../../../../../lib/dayjs';
+
+import { getScheduledExportPeriods, ScheduledExportFrequency, ScheduledExportWindow } from '../helpers';
+
+const makeSchedule = (frequency, window) => ({
+  name: 'Test',
+  frequency,
+  window,
+  fields: ['date'],
+  query: '',
+  isHostReport: true,
+  createdAt: '2024-01-10T12:00:00.000Z',
+});
+
+describe('getScheduledExportPeriods', () => {
+  it('returns the monthly periods with the previous month window, most recent first', () => {
+    const schedule = makeSchedule(ScheduledExportFrequency.MONTHLY, ScheduledExportWindow.PREVIOUS_MONTH);
+    const periods = getScheduledExportPeriods(schedule, dayjs.utc('2024-03-15'));
+    expect(periods.map(period => period.date.toISOString())).toEqual([
+      '2024-03-01T00:00:00.000Z',
+      '2024-02-01T00:00:00.000Z',
+    ]);
+    expect(periods[0].dateFrom.toISOString()).toBe('2024-02-01T00:00:00.000Z');
+    expect(periods[0].dateTo.toISOString()).toBe('2024-02-29T23:59:59.999Z');
+  });
+
+  it('returns the weekly periods, available on Mondays', () => {
+    const schedule = makeSchedule(ScheduledExportFrequency.WEEKLY, ScheduledExportWindow.PREVIOUS_WEEK);
+    const periods = getScheduledExportPeriods(schedule, dayjs.utc('2024-01-23'));
+    expect(periods.map(period => period.date.toISOString())).toEqual([
+      '2024-01-22T00:00:00.000Z',
+      '2024-01-15T00:00:00.000Z',
+    ]);
+    expect(periods[1].dateFrom.toISOString()).toBe('2024-01-08T00:00:00.000Z');
+  });
+
+  it('limits the history to 12 periods', () => {
+    const schedule = makeSchedule(ScheduledExportFrequency.WEEKLY, ScheduledExportWindow.YEAR_TO_DATE);
+    const periods = getScheduledExportPeriods(schedule, dayjs.utc('2025-01-01'));
+    expect(periods).toHaveLength(12);
+    expect(periods[0].dateFrom.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,126 @@
+import { defineMessages } from 'react-intl';
+
+import type { CSVField } from '../../../../lib/csv';
+import dayjs from '../../../../lib/dayjs';
+
+export const SCHEDULED_EXPORTS_SETTINGS_KEY = 'exportedTransactionsSchedules';
+
+export enum ScheduledExportFrequency {
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+}
+
+/** The period covered by each file, relative to the date at which it becomes available */
+export enum ScheduledExportWindow {
+  PREVIOUS_WEEK = 'PREVIOUS_WEEK',
+  PREVIOUS_MONTH = 'PREVIOUS_MONTH',
+  PREVIOUS_QUARTER = 'PREVIOUS_QUARTER',
+  MONTH_TO_DATE = 'MONTH_TO_DATE',
+  YEAR_TO_DATE = 'YEAR_TO_DATE',
+}
+
+export const ScheduledExportFrequencyLabels = defineMessages({
+  [ScheduledExportFrequency.WEEKLY]: { defaultMessage: 'Every Monday', id: '7MVauf' },
+  [ScheduledExportFrequency.MONTHLY]: { defaultMessage: 'On the first day of every month', id: '1LEe/4' },
+});
+
+export const ScheduledExportWindowLabels = defineMessages({
+  [ScheduledExportWindow.PREVIOUS_WEEK]: { defaultMessage: 'Previous week', id: 'GAjQnO' },
+  [ScheduledExportWindow.PREVIOUS_MONTH]: { defaultMessage: 'Previous month', id: 'PeriodCompareFilter.PreviousMonth' },
+  [ScheduledExportWindow.PREVIOUS_QUARTER]: {
+    defaultMessage: 'Previous quarter',
+    id: 'PeriodCompareFilter.PreviousQuarter',
+  },
+  [ScheduledExportWindow.MONTH_TO_DATE]: { defaultMessage: 'Month to date', id: 'rwUDGW' },
+  [ScheduledExportWindow.YEAR_TO_DATE]: { defaultMessage: 'Year to date', id: 'zvczgi' },
+});
+
+/**
+ * A saved transactions export, with a file to download for each period. Stored in the account settings, under
+ * `exportedTransactionsSchedules`. Nothing is generated or sent in the background: the files are generated by the
+ * REST API when downloaded.
+ */
+export type ScheduledTransactionsExport = {
+  name: string;
+  frequency: ScheduledExportFrequency;
+  window: ScheduledExportWindow;
+  fields: Array<CSVField>;
+  /** The filters of the export, as REST API search params (without the dates) */
+  query: string;
+  isHostReport: boolean;
+  createdAt: string;
+};
+
+export type ScheduledExportPeriod = {
+  /** When the period becomes available for download */
+  date: dayjs.Dayjs;
+  dateFrom: dayjs.Dayjs;
+  dateTo: dayjs.Dayjs;
+};
+
+const MAX_PERIODS = 12;
+
+const getPeriodWindow = (date: dayjs.Dayjs, window: ScheduledExportWindow): Omit<ScheduledExportPeriod, 'date'> => {
+  const dateTo = date.subtract(1, 'millisecond');
+  switch (window) {
+    case ScheduledExportWindow.PREVIOUS_WEEK:
+      return { dateFrom: dateTo.startOf('isoWeek'), dateTo: dateTo.endOf('isoWeek') };
+    case ScheduledExportWindow.PREVIOUS_MONTH:
+      return { dateFrom: dateTo.startOf('month'), dateTo: dateTo.endOf('month') };
+    case ScheduledExportWindow.PREVIOUS_QUARTER:
+      return { dateFrom: dateTo.startOf('quarter'), dateTo: dateTo.endOf('quarter') };
+    case ScheduledExportWindow.MONTH_TO_DATE:
+      return { dateFrom: dateTo.startOf('month'), dateTo };
+    case ScheduledExportWindow.YEAR_TO_DATE:
+      return { dateFrom: dateTo.startOf('year'), dateTo };
+  }
+};
+
+const getNextPeriodDate = (date: dayjs.Dayjs, frequency: ScheduledExportFrequency): dayjs.Dayjs => {
+  if (frequency === ScheduledExportFrequency.WEEKLY) {
+    return date.startOf('isoWeek').add(1, 'week');
+  } else {
+    return date.startOf('month').add(1, 'month');
+  }
+};
+
+/**
+ * Returns the date at which the next period becomes available (in UTC).
+ */
+export const getScheduledExportNextPeriodDate = (
+  schedule: ScheduledTransactionsExport,
+  now: dayjs.Dayjs = dayjs.utc(),
+): dayjs.Dayjs => {
+  return getNextPeriodDate(now.utc(), schedule.frequency);
+};
+
+/**
+ * Returns the periods available for download, most recent first. Periods become available at midnight (UTC) on
+ * Mondays for weekly schedules, and on the first day of the month for monthly ones.
+ */
+export const getScheduledExportPeriods = (
+  schedule: ScheduledTransactionsExport,
+  now: dayjs.Dayjs = dayjs.utc(),
+): ScheduledExportPeriod[] => {
+  const periods: ScheduledExportPeriod[] = [];
+  let date = getNextPeriodDate(dayjs.utc(schedule.createdAt), schedule.frequency);
+  while (!date.isAfter(now)) {
+    periods.unshift({ date, ...getPeriodWindow(date, schedule.window) });
+    date = getNextPeriodDate(date, schedule.frequency);
+  }
+
+  return periods.slice(0, MAX_PERIODS);
+};
+
+export const getScheduledExportPeriodUrl = (
+  account: { slug: string },
+  schedule: ScheduledTransactionsExport,
+  period: ScheduledExportPeriod,
+): string => {
+  const path = schedule.isHostReport ? 'hostTransactions.csv' : 'transactions.csv';
+  const url = new URL(`${process.env.REST_URL}/v2/${account.slug}/${path}${schedule.query}`);
+  url.searchParams.set('dateFrom', period.dateFrom.toISOString());
+  url.searchParams.set('dateTo', period.dateTo.toISOString());
+  url.searchParams.set('fetchAll', '1');
+  return url.toString();
+};
@@ -0,0 +1,20 @@
+import { gql } from '@apollo/client';
+
+export const scheduledExportsQuery = gql`
+  query ScheduledExports($slug: String!) {
+    account(slug: $slug) {
+      id
+      slug
+      settings
+    }
+  }
+`;
+
+export const editScheduledExportsMutation = gql`
+  mutation EditScheduledExports($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {
+    editAccountSetting(account: $account, key: $key, value: $value) {
+      id
+      settings
+    }
+  }
+`;
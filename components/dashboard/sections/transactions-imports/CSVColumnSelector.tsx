@@ -1,5 +1,6 @@
 import React from 'react';
 import { Settings } from 'lucide-react';
+import { FormattedMessage } from 'react-intl';
 
 import { cn } from '../../../../lib/utils';
 
@@ -7,19 +8,36 @@ import { Button } from '../../../ui/Button';
 import { DropdownMenu, DropdownMenuTrigger } from '../../../ui/DropdownMenu';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../ui/Select';
 
-export const CSVColumnSelector = ({ label, selected, columns, onChange, SettingsDropdownMenuContent = null }) => {
+const NO_COLUMN = '__none__';
+
+export const CSVColumnSelector = ({
+  label,
+  selected,
+  columns,
+  onChange,
+  SettingsDropdownMenuContent = null,
+  isOptional = false,
+}) => {
   return (
     <div className="flex items-stretch">
       <div className="relative flex items-center rounded-bl-md rounded-tl-md border border-r-0 border-neutral-200 bg-neutral-100 px-3 text-sm font-medium text-neutral-700">
         {label}
       </div>
-      <Select onValueChange={onChange} value={selected}>
+      <Select
+        onValueChange={value => onChange(value === NO_COLUMN ? null : value)}
+        value={isOptional && !selected ? NO_COLUMN : selected}
+      >
         <SelectTrigger className={cn('rounded-none', { 'rounded-br-md rounded-tr-md': !SettingsDropdownMenuContent })}>
           <div className="truncate italic text-neutral-800">
             <SelectValue />
           </div>
         </SelectTrigger>
         <SelectContent>
+          {isOptional && (
+            <SelectItem value={NO_COLUMN}>
+              <FormattedMessage defaultMessage="None" id="450Fty" />
+            </SelectItem>
+          )}
           {columns.map(column => (
             <SelectItem value={column} key={column}>
               {column}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { groupBy } from 'lodash';
+import { Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { i18nGraphqlException } from '../../../../lib/errors';
+import type { Account } from '../../../../lib/graphql/types/v2/graphql';
+import { useCSVMappingProfiles } from './lib/csv-mapping-profiles';
+
+import { Button } from '../../../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { useToast } from '../../../ui/useToast';
+
+/**
+ * Lists the CSV mappings saved by the host, grouped by import source.
+ */
+export const CSVMappingProfilesDialog = ({
+  host,
+  ...props
+}: {
+  host: Pick<Account, 'slug' | 'settings'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const { profiles, deleteProfile } = useCSVMappingProfiles(host);
+  const [deletingKey, setDeletingKey] = React.useState<string | null>(null);
+  const profilesBySource = groupBy(Object.keys(profiles), key => profiles[key].source);
+
+  return (
+    <Dialog {...props}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage defaultMessage="Saved CSV mappings" id="1hxnzx" />
+          </DialogTitle>
+          {!Object.keys(profiles).length && (
+            <DialogDescription>
+              <FormattedMessage
+                defaultMessage="No saved mappings yet. You can save the column mapping when importing a CSV file."
+                id="PsMDqT"
+              />
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          {Object.entries(profilesBySource).map(([source, keys]) => (
+            <div key={source}>
+              <div className="mb-2 text-sm font-bold text-slate-700">{source}</div>
+              <ul className="flex flex-col divide-y rounded-lg border border-neutral-200">
+                {keys.map(key => (
+                  <li key={key} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{profiles[key].name}</p>
+                      <p className="truncate text-xs text-muted-foreground" title={profiles[key].headers?.join(', ')}>
+                        <FormattedMessage
+                          defaultMessage="{count} columns"
+                          id="Ad4sYN"
+                          values={{ count: profiles[key].headers?.length || 0 }}
+                        />
+                      </p>
+                    </div>
+                    <Button
+                      size="xs"
+                      variant="outlineDestructive"
+                      loading={deletingKey === key}
+                      disabled={Boolean(deletingKey)}
+                      aria-label={intl.formatMessage({ defaultMessage: 'Delete', id: 'actions.delete' })}
+                      onClick={async () => {
+                        setDeletingKey(key);
+                        try {
+                          await deleteProfile(key);
+                          toast({
+                            variant: 'success',
+                            message: intl.formatMessage({ defaultMessage: 'Mapping deleted', id: '9asPGI' }),
+                          });
+                        } catch (e) {
+                          toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+                        } finally {
+                          setDeletingKey(null);
+                        }
+                      }}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
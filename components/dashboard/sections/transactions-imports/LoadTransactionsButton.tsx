@@ -0,0 +1,202 @@
+import React from 'react';
+import { useMutation } from '@apollo/client';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { i18nGraphqlException } from '../../../../lib/errors';
+import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
+import type { TransactionsImportRowCreateInput } from '../../../../lib/graphql/types/v2/graphql';
+import type { DuplicateRowMatch } from './lib/duplicates';
+import { findDuplicateImportRows } from './lib/duplicates';
+import { importTransactionsMutation } from './lib/graphql';
+import type { CSVConfig } from './lib/types';
+
+import DateTime from '../../../DateTime';
+import FormattedMoneyAmount from '../../../FormattedMoneyAmount';
+import { Badge } from '../../../ui/Badge';
+import { Button } from '../../../ui/Button';
+import { Checkbox } from '../../../ui/Checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { useToast } from '../../../ui/useToast';
+
+const ImportRowSummary = ({
+  row,
+}: {
+  row: Pick<TransactionsImportRowCreateInput, 'date' | 'description'> & { amount };
+}) => (
+  <div className="flex flex-col gap-1 text-sm">
+    <div className="flex justify-between gap-2">
+      <DateTime value={new Date(row.date)} />
+      <FormattedMoneyAmount amount={row.amount.valueInCents} currency={row.amount.currency} />
+    </div>
+    <p className="line-clamp-2 text-xs text-neutral-600">{row.description}</p>
+  </div>
+);
+
+const DuplicateImportRowsDialog = ({
+  duplicates,
+  totalCount,
+  loading,
+  onConfirm,
+  ...props
+}: {
+  duplicates: DuplicateRowMatch[];
+  totalCount: number;
+  loading: boolean;
+  onConfirm: (skippedIndexes: Set<number>) => void;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const [skippedIndexes, setSkippedIndexes] = React.useState(() => new Set(duplicates.map(({ index }) => index)));
+  const toggleSkipped = (index: number, skipped: boolean) => {
+    const newSkippedIndexes = new Set(skippedIndexes);
+    if (skipped) {
+      newSkippedIndexes.add(index);
+    } else {
+      newSkippedIndexes.delete(index);
+    }
+    setSkippedIndexes(newSkippedIndexes);
+  };
+
+  return (
+    <Dialog {...props}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage
+              defaultMessage="{count, plural, one {# transaction looks} other {# transactions look}} already imported"
+              id="nhr4fQ"
+              values={{ count: duplicates.length }}
+            />
+          </DialogTitle>
+          <DialogDescription>
+            <FormattedMessage
+              defaultMessage="These rows match transactions that already exist in this import. Select the ones you want to skip."
+              id="38gFLt"
+            />
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto">
+          <table className="w-full border-separate border-spacing-y-2">
+            <thead>
+              <tr className="text-left text-xs font-medium uppercase text-neutral-500">
+                <th className="w-8" />
+                <th>
+                  <FormattedMessage defaultMessage="New row" id="GvzGsq" />
+                </th>
+                <th>
+                  <FormattedMessage defaultMessage="Existing row" id="IRstHV" />
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {duplicates.map(({ index, row, existingRow, reason }) => (
+                <tr key={index} className="align-top">
+                  <td className="pt-1">
+                    <Checkbox
+                      checked={skippedIndexes.has(index)}
+                      onCheckedChange={checked => toggleSkipped(index, Boolean(checked))}
+                      aria-label="Skip row"
+                    />
+                  </td>
+                  <td className="rounded-l-lg border border-r-0 border-neutral-200 p-2">
+                    <ImportRowSummary row={row} />
+                  </td>
+                  <td className="rounded-r-lg border border-neutral-200 p-2">
+                    <ImportRowSummary row={existingRow} />
+                    <Badge size="sm" type={reason === 'SOURCE_ID' ? 'error' : 'warning'} className="mt-1">
+                      {reason === 'SOURCE_ID' ? (
+                        <FormattedMessage defaultMessage="Same reference" id="+NR5l4" />
+                      ) : (
+                        <FormattedMessage defaultMessage="Same date, amount and description" id="Q7whTI" />
+                      )}
+                    </Badge>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => props.onOpenChange(false)} disabled={loading}>
+            <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+          </Button>
+          <Button loading={loading} onClick={() => onConfirm(skippedIndexes)}>
+            <FormattedMessage
+              defaultMessage="Load {count} transactions"
+              id="bX1v1a"
+              values={{ count: totalCount - skippedIndexes.size }}
+            />
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Submits the parsed rows to the import. If some of them look like rows that were already imported,
+ * asks the user which ones to skip first.
+ */
+export const LoadTransactionsButton = ({
+  importId,
+  rows,
+  existingRows,
+  csvConfig = undefined,
+  file,
+  onSuccess,
+  disabled = false,
+}: {
+  importId: string;
+  rows: TransactionsImportRowCreateInput[];
+  existingRows: DuplicateRowMatch['existingRow'][];
+  csvConfig?: CSVConfig;
+  file: File;
+  onSuccess: () => void;
+  disabled?: boolean;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [duplicates, setDuplicates] = React.useState<DuplicateRowMatch[] | null>(null);
+  const [importTransactions, { loading }] = useMutation(importTransactionsMutation, { context: API_V2_CONTEXT });
+
+  const submit = async (skippedIndexes: Set<number> = new Set()) => {
+    try {
+      const data = rows.filter((_, index) => !skippedIndexes.has(index));
+      await importTransactions({ variables: { importId, csvConfig, data, file } });
+      setDuplicates(null);
+      onSuccess();
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <React.Fragment>
+      <Button
+        size="sm"
+        loading={loading}
+        disabled={disabled}
+        onClick={() => {
+          const duplicateRows = findDuplicateImportRows(rows, existingRows);
+          if (duplicateRows.length) {
+            setDuplicates(duplicateRows);
+          } else {
+            submit();
+          }
+        }}
+      >
+        <FormattedMessage defaultMessage="Load {count} transactions" id="bX1v1a" values={{ count: rows.length }} />
+      </Button>
+      {duplicates && (
+        <DuplicateImportRowsDialog
+          open
+          onOpenChange={() => setDuplicates(null)}
+          duplicates={duplicates}
+          totalCount={rows.length}
+          loading={loading}
+          onConfirm={submit}
+        />
+      )}
+    </React.Fragment>
+  );
+};
@@ -14,7 +14,7 @@ import { FormikZod } from '../../../FormikZod';
 import StyledInputFormikField from '../../../StyledInputFormikField';
 import StyledSelectCreatable from '../../../StyledSelectCreatable';
 import { Button } from '../../../ui/Button';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../../ui/Dialog';
 import { useToast } from '../../../ui/useToast';
 
 const newImportFormSchema = z.object({
@@ -81,6 +81,12 @@ export const NewTransactionsImportDialog = ({ accountSlug, onSuccess, ...props }
           <DialogTitle>
             <FormattedMessage defaultMessage="New Transactions Import" id="4jJjCO" />
           </DialogTitle>
+          <DialogDescription>
+            <FormattedMessage
+              defaultMessage="Transactions can be imported from CSV files or from OFX/QFX, CAMT.053 and MT940 bank statements."
+              id="LueOOF"
+            />
+          </DialogDescription>
         </DialogHeader>
         <FormikZod
           schema={newImportFormSchema}
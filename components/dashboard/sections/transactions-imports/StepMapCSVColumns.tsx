@@ -1,14 +1,25 @@
 import React from 'react';
-import { gql, useMutation } from '@apollo/client';
-import { cloneDeep, set } from 'lodash';
+import { cloneDeep, set, unset, without } from 'lodash';
+import { Columns3 } from 'lucide-react';
 import { FormattedMessage, useIntl } from 'react-intl';
 
 import { i18nGraphqlException } from '../../../../lib/errors';
 import { formatFileSize } from '../../../../lib/file-utils';
-import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
-import type { Amount, Currency, TransactionsImportRowCreateInput } from '../../../../lib/graphql/types/v2/graphql';
-import { TransactionsImportRowFieldsFragment } from './lib/graphql';
-import { applyCSVConfig, getDefaultCSVConfig, guessCSVColumnsConfig, parseTransactionsCSVFile } from './lib/parse-csv';
+import type {
+  Account,
+  Amount,
+  Currency,
+  TransactionsImportRowCreateInput,
+} from '../../../../lib/graphql/types/v2/graphql';
+import { findMatchingCSVMappingProfile, useCSVMappingProfiles } from './lib/csv-mapping-profiles';
+import type { DuplicateRowMatch } from './lib/duplicates';
+import {
+  applyCSVConfig,
+  getDefaultCSVConfig,
+  guessCSVColumnsConfig,
+  isValidCurrencyCode,
+  parseTransactionsCSVFile,
+} from './lib/parse-csv';
 import type { CSVConfig } from './lib/types';
 import { ACCEPTED_DATE_FORMATS, ACCEPTED_NUMBER_FORMATS } from './lib/types';
 
@@ -19,16 +30,22 @@ import StyledLink from '../../../StyledLink';
 import { DataTable } from '../../../table/DataTable';
 import { Button } from '../../../ui/Button';
 import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuLabel,
   DropdownMenuRadioGroup,
   DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuTrigger,
 } from '../../../ui/DropdownMenu';
+import { Input } from '../../../ui/Input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../ui/Select';
 import { useStepper } from '../../../ui/Stepper';
 import { useToast } from '../../../ui/useToast';
 
 import { CSVColumnSelector } from './CSVColumnSelector';
+import { LoadTransactionsButton } from './LoadTransactionsButton';
 
 const AmountFormatSettingsDropdownMenuContent = ({ value, onChange }) => {
   return (
@@ -68,36 +85,81 @@ const DateFormatSettingsDropdownMenuContent = ({ value, onChange }) => {
 
 type ParsingResultRow = ReturnType<typeof applyCSVConfig>;
 
-const uploadTransactionsImportMutation = gql`
-  mutation UploadTransactionsImport(
-    $importId: NonEmptyString!
-    $csvConfig: JSONObject
-    $data: [TransactionsImportRowCreateInput!]!
-    $file: Upload
-  ) {
-    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {
-      id
-      rows {
-        totalCount
-        offset
-        limit
-        nodes {
-          ...TransactionsImportRowFields
-        }
-      }
-    }
+const ParsedAmount = ({ amount }: { amount: Amount }) => {
+  if (!isValidCurrencyCode(amount.currency)) {
+    return (
+      <span className="text-red-500">
+        <FormattedMessage defaultMessage="Invalid currency" id="wg14oP" />: {amount.currency}
+      </span>
+    );
   }
-  ${TransactionsImportRowFieldsFragment}
-`;
+
+  return <FormattedMoneyAmount amount={amount.valueInCents} currency={amount.currency} />;
+};
+
+/**
+ * Lets the user pick which of the non-mapped columns should be kept with the imported rows.
+ */
+const ExtraColumnsDropdownMenu = ({
+  columns,
+  extraColumns,
+  onChange,
+}: {
+  columns: string[];
+  extraColumns: CSVConfig['extraColumns'];
+  onChange: (extraColumns: CSVConfig['extraColumns']) => void;
+}) => {
+  const selectedColumns = extraColumns ? columns.filter(column => extraColumns.includes(column)) : columns;
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={!columns.length}>
+          <Columns3 size={16} />
+          <FormattedMessage
+            defaultMessage="Extra columns ({count})"
+            id="Cajqde"
+            values={{ count: selectedColumns.length }}
+          />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuLabel>
+          <FormattedMessage defaultMessage="Columns stored with the transactions" id="TiMJus" />
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {columns.map(column => (
+          <DropdownMenuCheckboxItem
+            key={column}
+            checked={selectedColumns.includes(column)}
+            onSelect={e => e.preventDefault()}
+            onCheckedChange={checked =>
+              onChange(checked ? [...selectedColumns, column] : without(selectedColumns, column))
+            }
+          >
+            {column}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
 
 export const StepMapCSVColumns = ({
   importId,
   file,
   currency,
+  source,
+  host,
+  existingRows,
+  onSuccess = undefined,
 }: {
   file: File;
   importId: string;
   currency: Currency;
+  source: string;
+  host: Pick<Account, 'slug' | 'settings'>;
+  existingRows: DuplicateRowMatch['existingRow'][];
+  onSuccess?: () => void;
 }) => {
   const { toast } = useToast();
   const intl = useIntl();
@@ -106,7 +168,11 @@ export const StepMapCSVColumns = ({
   const [nbRowsDisplayed, setNbRowsDisplayed] = React.useState(5);
   const [csvConfig, setCSVConfig] = React.useState<CSVConfig>(() => getDefaultCSVConfig(currency));
   const [parsingError, setParsingError] = React.useState<string | null>(null);
-  const [importTransactions, { loading }] = useMutation(uploadTransactionsImportMutation, { context: API_V2_CONTEXT });
+  const { profiles, saveProfile, loading: isSavingProfile } = useCSVMappingProfiles(host);
+  const [selectedProfileKey, setSelectedProfileKey] = React.useState<string | null>(null);
+  const [profileName, setProfileName] = React.useState(source);
+  const profilesRef = React.useRef(profiles);
+  profilesRef.current = profiles;
   const parsedData = React.useMemo<TransactionsImportRowCreateInput[]>(
     () => rawCSVData.map(row => applyCSVConfig(row, csvConfig)),
     [rawCSVData, csvConfig],
@@ -118,13 +184,24 @@ export const StepMapCSVColumns = ({
       parseTransactionsCSVFile(file, intl)
         .then(({ delimiter, parsedCSV }) => {
           setRawCSVData(parsedCSV);
-          setCSVConfig({ delimiter, columns: guessCSVColumnsConfig(parsedCSV, currency) });
+
+          // Re-use the saved mapping if the file has the same columns, otherwise try to guess the mapping
+          const headers = Object.keys(parsedCSV[0] || {});
+          const profileKey = findMatchingCSVMappingProfile(profilesRef.current, source, headers);
+          if (profileKey) {
+            const profile = profilesRef.current[profileKey];
+            setSelectedProfileKey(profileKey);
+            setProfileName(profile.name);
+            setCSVConfig({ ...cloneDeep(profile.csvConfig), delimiter });
+          } else {
+            setCSVConfig({ delimiter, columns: guessCSVColumnsConfig(parsedCSV, currency) });
+          }
         })
         .catch(e => {
           setParsingError(e);
         });
     }
-  }, [intl, file, currency]);
+  }, [intl, file, currency, source]);
 
   if (!parsedData) {
     return <LoadingPlaceholder height={300} />;
@@ -153,7 +230,26 @@ export const StepMapCSVColumns = ({
     );
   }
 
-  const availableColumns = Object.keys(parsedData[0].rawValue).filter(Boolean);
+  const availableColumns = Object.keys(rawCSVData[0]).filter(Boolean);
+  const mappedColumns = Object.values(csvConfig.columns).map(columnConfig => columnConfig?.target);
+  const unmappedColumns = availableColumns.filter(column => !mappedColumns.includes(column));
+  const hasInvalidCurrencies = parsedData.some(row => row.amount && !isValidCurrencyCode(row.amount.currency));
+  const selectProfile = (profileKey: string) => {
+    setSelectedProfileKey(profileKey);
+    setProfileName(profiles[profileKey].name);
+    setCSVConfig(prevConfig => ({ ...cloneDeep(profiles[profileKey].csvConfig), delimiter: prevConfig.delimiter }));
+  };
+
+  const saveCurrentProfile = async () => {
+    try {
+      const profileKey = await saveProfile(source, profileName.trim(), availableColumns, csvConfig);
+      setSelectedProfileKey(profileKey);
+      toast({ variant: 'success', message: intl.formatMessage({ defaultMessage: 'Mapping saved', id: '8lwJlr' }) });
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
   const setColumnSetting = (column, setting, value) =>
     setCSVConfig(prevConfig => {
       const newConfig = cloneDeep(prevConfig);
@@ -161,6 +257,19 @@ export const StepMapCSVColumns = ({
       return newConfig;
     });
 
+  const setOptionalColumn = (column: 'currency' | 'fee' | 'reference', target: string | null) =>
+    setCSVConfig(prevConfig => {
+      const newConfig = cloneDeep(prevConfig);
+      if (!target) {
+        unset(newConfig, `columns.${column}`);
+      } else if (column === 'fee') {
+        newConfig.columns.fee = { format: ACCEPTED_NUMBER_FORMATS[0], ...newConfig.columns.fee, target };
+      } else {
+        newConfig.columns[column] = { target };
+      }
+      return newConfig;
+    });
+
   return (
     <div>
       <p className="mb-4 text-sm">
@@ -174,6 +283,45 @@ export const StepMapCSVColumns = ({
           {file.name} ({formatFileSize(file.size)})
         </StyledLink>
       </p>
+      <div className="mb-4 flex flex-col gap-2 sm:flex-row sm:items-center">
+        {Object.keys(profiles).length > 0 && (
+          <Select value={selectedProfileKey} onValueChange={selectProfile}>
+            <SelectTrigger className="sm:max-w-xs">
+              <SelectValue
+                placeholder={intl.formatMessage({ defaultMessage: 'Select a saved mapping', id: 'Esh2hn' })}
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(profiles).map(([key, profile]) => (
+                <SelectItem key={key} value={key}>
+                  {profile.source === source ? profile.name : `${profile.source} - ${profile.name}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          className="sm:max-w-xs"
+          value={profileName}
+          onChange={e => setProfileName(e.target.value)}
+          placeholder={intl.formatMessage({ defaultMessage: 'Mapping name', id: 'X38Lp7' })}
+          maxLength={100}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={saveCurrentProfile}
+          loading={isSavingProfile}
+          disabled={!profileName.trim()}
+        >
+          <FormattedMessage defaultMessage="Save mapping" id="GigjpC" />
+        </Button>
+        <ExtraColumnsDropdownMenu
+          columns={unmappedColumns}
+          extraColumns={csvConfig.extraColumns}
+          onChange={extraColumns => setCSVConfig(prevConfig => ({ ...prevConfig, extraColumns }))}
+        />
+      </div>
       <DataTable
         data={parsedData.slice(0, nbRowsDisplayed)}
         columns={[
@@ -233,7 +381,7 @@ export const StepMapCSVColumns = ({
               if (!parsedAmount || parsedAmount.valueInCents <= 0) {
                 return null;
               }
-              return <FormattedMoneyAmount amount={parsedAmount.valueInCents} currency={parsedAmount.currency} />;
+              return <ParsedAmount amount={parsedAmount} />;
             },
           },
           {
@@ -259,7 +407,7 @@ export const StepMapCSVColumns = ({
               if (!parsedAmount || parsedAmount.valueInCents >= 0) {
                 return null;
               }
-              return <FormattedMoneyAmount amount={parsedAmount.valueInCents} currency={parsedAmount.currency} />;
+              return <ParsedAmount amount={parsedAmount} />;
             },
           },
           {
@@ -275,6 +423,59 @@ export const StepMapCSVColumns = ({
             ),
             cell: ({ cell }) => <p className="max-w-xs">{cell.getValue() as string}</p>,
           },
+          {
+            id: 'currency',
+            header: () => (
+              <CSVColumnSelector
+                isOptional
+                label="Currency"
+                columns={availableColumns}
+                selected={csvConfig.columns.currency?.target}
+                onChange={value => setOptionalColumn('currency', value)}
+              />
+            ),
+            cell: ({ row }) => {
+              const currency = row.original.amount?.currency;
+              return isValidCurrencyCode(currency) ? currency : <span className="text-red-500">{currency}</span>;
+            },
+          },
+          {
+            id: 'fee',
+            header: () => (
+              <CSVColumnSelector
+                isOptional
+                label="Fee"
+                columns={availableColumns}
+                selected={csvConfig.columns.fee?.target}
+                onChange={value => setOptionalColumn('fee', value)}
+                SettingsDropdownMenuContent={
+                  csvConfig.columns.fee &&
+                  (() => (
+                    <AmountFormatSettingsDropdownMenuContent
+                      value={csvConfig.columns.fee.format}
+                      onChange={format => setColumnSetting('fee', 'format', format)}
+                    />
+                  ))
+                }
+              />
+            ),
+            cell: ({ row }) => row.original.rawValue['fee'] || null,
+          },
+          {
+            id: 'reference',
+            accessorKey: 'sourceId',
+            header: () => (
+              <CSVColumnSelector
+                isOptional
+                label="Reference"
+                columns={availableColumns}
+                selected={csvConfig.columns.reference?.target}
+                onChange={value => setOptionalColumn('reference', value)}
+              />
+            ),
+            cell: ({ row }) =>
+              csvConfig.columns.reference ? row.original.rawValue[csvConfig.columns.reference.target] : null,
+          },
         ]}
         footer={
           parsedData.length > 5 && (
@@ -291,35 +492,30 @@ export const StepMapCSVColumns = ({
           )
         }
       />
+      {hasInvalidCurrencies && (
+        <p className="mt-4 text-sm text-red-500">
+          <FormattedMessage
+            defaultMessage="Some rows have a currency that is not a valid ISO 4217 code (e.g. USD, EUR). Please check the currency column."
+            id="xiqTjT"
+          />
+        </p>
+      )}
       <div className="my-4 flex w-full gap-2">
-        <Button onClick={prevStep} size="sm" variant="secondary" disabled={loading}>
+        <Button onClick={prevStep} size="sm" variant="secondary">
           <FormattedMessage defaultMessage="Select another file" id="gj+C3v" />
         </Button>
-        <Button
-          size="sm"
-          loading={loading}
-          onClick={async () => {
-            try {
-              await importTransactions({
-                variables: {
-                  importId,
-                  csvConfig,
-                  data: parsedData,
-                  file,
-                },
-              });
-              nextStep();
-            } catch (e) {
-              toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
-            }
+        <LoadTransactionsButton
+          importId={importId}
+          rows={parsedData}
+          existingRows={existingRows}
+          csvConfig={csvConfig}
+          file={file}
+          disabled={hasInvalidCurrencies}
+          onSuccess={() => {
+            nextStep();
+            onSuccess?.();
           }}
-        >
-          <FormattedMessage
-            defaultMessage="Load {count} transactions"
-            id="bX1v1a"
-            values={{ count: parsedData.length }}
-          />
-        </Button>
+        />
       </div>
     </div>
   );
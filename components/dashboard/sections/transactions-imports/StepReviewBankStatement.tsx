@@ -0,0 +1,172 @@
+import React from 'react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { formatFileSize } from '../../../../lib/file-utils';
+import type { Amount, Currency } from '../../../../lib/graphql/types/v2/graphql';
+import type { DuplicateRowMatch } from './lib/duplicates';
+import { parseBankStatementFile } from './lib/parse-bank-statements';
+import type { BankStatementFormat } from './lib/types';
+
+import DateTime from '../../../DateTime';
+import FormattedMoneyAmount from '../../../FormattedMoneyAmount';
+import LoadingPlaceholder from '../../../LoadingPlaceholder';
+import StyledLink from '../../../StyledLink';
+import { DataTable } from '../../../table/DataTable';
+import { Button } from '../../../ui/Button';
+import { useStepper } from '../../../ui/Stepper';
+
+import { LoadTransactionsButton } from './LoadTransactionsButton';
+
+type ParsedStatement = Awaited<ReturnType<typeof parseBankStatementFile>>;
+
+/**
+ * Bank statements (OFX, CAMT.053, MT940) have a standard structure, so there are no columns to map:
+ * we only show a preview of the parsed transactions before loading them.
+ */
+export const StepReviewBankStatement = ({
+  importId,
+  file,
+  format,
+  currency,
+  existingRows,
+  onSuccess = undefined,
+}: {
+  file: File;
+  format: BankStatementFormat;
+  importId: string;
+  currency: Currency;
+  existingRows: DuplicateRowMatch['existingRow'][];
+  onSuccess?: () => void;
+}) => {
+  const intl = useIntl();
+  const { nextStep, prevStep } = useStepper();
+  const [statement, setStatement] = React.useState<ParsedStatement | null>(null);
+  const [nbRowsDisplayed, setNbRowsDisplayed] = React.useState(5);
+  const [parsingError, setParsingError] = React.useState<string | null>(null);
+
+  // Parse the statement when the file changes
+  React.useEffect(() => {
+    if (file) {
+      parseBankStatementFile(file, format, currency, intl).then(setStatement).catch(setParsingError);
+    }
+  }, [intl, file, format, currency]);
+
+  // Link to open the statement file, released when the file changes or the step is unmounted
+  const fileUrl = React.useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+  React.useEffect(() => {
+    return () => {
+      if (fileUrl) {
+        URL.revokeObjectURL(fileUrl);
+      }
+    };
+  }, [fileUrl]);
+
+  if (!statement && !parsingError) {
+    return <LoadingPlaceholder height={300} />;
+  } else if (parsingError || !statement.rows.length) {
+    return (
+      <div>
+        {parsingError || (
+          <p>
+            <FormattedMessage
+              defaultMessage="No transactions found in the <link>statement file</link>."
+              id="rM7Vpt"
+              values={{
+                link: chunks => (
+                  <StyledLink openInNewTab href={fileUrl}>
+                    {chunks}
+                  </StyledLink>
+                ),
+              }}
+            />
+          </p>
+        )}
+        <Button onClick={prevStep} size="sm" variant="secondary">
+          <FormattedMessage defaultMessage="Select another file" id="gj+C3v" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="mb-4 text-sm">
+        <FormattedMessage
+          id="withColon"
+          defaultMessage="{item}:"
+          values={{
+            item: <FormattedMessage defaultMessage="{format} statement" id="xO09Jh" values={{ format }} />,
+          }}
+        />
+        &nbsp;
+        <StyledLink openInNewTab href={fileUrl}>
+          {file.name} ({formatFileSize(file.size)})
+        </StyledLink>
+      </p>
+      <DataTable
+        data={statement.rows.slice(0, nbRowsDisplayed)}
+        columns={[
+          {
+            header: 'Date',
+            accessorKey: 'date',
+            cell: ({ row }) => <DateTime value={row.original.date.toDate()} timeStyle="short" />,
+          },
+          {
+            header: 'Amount',
+            accessorKey: 'amount',
+            cell: ({ cell }) => {
+              const amount = cell.getValue() as Amount;
+              return <FormattedMoneyAmount amount={amount.valueInCents} currency={amount.currency} />;
+            },
+          },
+          {
+            header: 'Description',
+            accessorKey: 'description',
+            cell: ({ cell }) => <p className="max-w-xs">{cell.getValue() as string}</p>,
+          },
+          {
+            header: 'Counterparty',
+            accessorKey: 'rawValue.counterpartyName',
+            cell: ({ row }) => (
+              <div className="max-w-xs">
+                <p>{row.original.rawValue.counterpartyName}</p>
+                {row.original.rawValue.counterpartyAccount && (
+                  <p className="text-xs text-muted-foreground">{row.original.rawValue.counterpartyAccount}</p>
+                )}
+              </div>
+            ),
+          },
+        ]}
+        footer={
+          statement.rows.length > nbRowsDisplayed && (
+            <div className="flex items-center justify-center gap-2 border-t border-neutral-200 p-3 text-sm font-normal">
+              <FormattedMessage
+                defaultMessage="And {count} more rows..."
+                id="z1ZQ8H"
+                values={{ count: statement.rows.length - nbRowsDisplayed }}
+              />
+              <Button variant="outline" size="xs" onClick={() => setNbRowsDisplayed(nbRowsDisplayed + 5)}>
+                <FormattedMessage defaultMessage="Show more" id="aWpBzj" />
+              </Button>
+            </div>
+          )
+        }
+      />
+      <div className="my-4 flex w-full gap-2">
+        <Button onClick={prevStep} size="sm" variant="secondary">
+          <FormattedMessage defaultMessage="Select another file" id="gj+C3v" />
+        </Button>
+        <LoadTransactionsButton
+          importId={importId}
+          rows={statement.rows}
+          existingRows={existingRows}
+          file={file}
+          onSuccess={() => {
+            nextStep();
+            onSuccess?.();
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,45 @@
 import React from 'react';
+import { useIntl } from 'react-intl';
 
-import StyledDropzone, { DROPZONE_ACCEPT_CSV } from '../../../StyledDropzone';
+import { getBankStatementFormat, readTransactionsFile } from './lib/parse-bank-statements';
+import type { BankStatementFormat } from './lib/types';
+
+import StyledDropzone, { DROPZONE_ACCEPT_BANK_STATEMENTS, DROPZONE_ACCEPT_CSV } from '../../../StyledDropzone';
 import { useStepper } from '../../../ui/Stepper';
+import { useToast } from '../../../ui/useToast';
 
-export const StepSelectCSV = ({ onFileSelected }) => {
+export const StepSelectCSV = ({
+  onFileSelected,
+}: {
+  onFileSelected: (file: File, bankStatementFormat: BankStatementFormat | null) => void;
+}) => {
+  const intl = useIntl();
   const { nextStep } = useStepper();
+  const { toast } = useToast();
 
   return (
     <StyledDropzone
-      accept={DROPZONE_ACCEPT_CSV}
+      accept={{ ...DROPZONE_ACCEPT_CSV, ...DROPZONE_ACCEPT_BANK_STATEMENTS }}
       name="transactions-csv"
       isMulti={false}
       collectFilesOnly
       showInstructions
       minSize={1}
       maxSize={20 * 1024 * 1024}
-      onSuccess={acceptedFiles => {
-        onFileSelected(acceptedFiles[0]);
+      onSuccess={async acceptedFiles => {
+        const file = acceptedFiles[0];
+        let content: string;
+        try {
+          content = await readTransactionsFile(file);
+        } catch {
+          toast({
+            variant: 'error',
+            message: intl.formatMessage({ defaultMessage: 'Could not read the file. Please try again.', id: 'ztVqtF' }),
+          });
+          return;
+        }
+
+        onFileSelected(file, getBankStatementFormat(file.name, content));
         nextStep();
       }}
     />
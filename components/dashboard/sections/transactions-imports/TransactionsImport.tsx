@@ -1,7 +1,16 @@
 import React from 'react';
 import { gql, useQuery } from '@apollo/client';
 import { partition } from 'lodash';
-import { Calendar, CalendarClock, Download, FilePenLine, FileSliders, SquareSlashIcon, Upload } from 'lucide-react';
+import {
+  Calendar,
+  CalendarClock,
+  Download,
+  FilePenLine,
+  FileSliders,
+  SquareSlashIcon,
+  Upload,
+  Wand2,
+} from 'lucide-react';
 import type { IntlShape } from 'react-intl';
 import { FormattedMessage, useIntl } from 'react-intl';
 
@@ -10,6 +19,7 @@ import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
 import type { Amount, TransactionsImportRow } from '../../../../lib/graphql/types/v2/graphql';
 import { useTransactionsImportActions } from './lib/actions';
 import { TransactionsImportRowFieldsFragment } from './lib/graphql';
+import type { BankStatementFormat } from './lib/types';
 
 import Avatar from '../../../Avatar';
 import DateTime from '../../../DateTime';
@@ -26,22 +36,28 @@ import { Step, Stepper } from '../../../ui/Stepper';
 import DashboardHeader from '../../DashboardHeader';
 
 import { StepMapCSVColumns } from './StepMapCSVColumns';
+import { StepReviewBankStatement } from './StepReviewBankStatement';
 import { StepSelectCSV } from './StepSelectCSV';
 import { TransactionsImportRowDrawer } from './TransactionsImportRowDrawer';
 import { TransactionsImportRowStatus } from './TransactionsImportRowStatus';
+import { TransactionsImportRulesDialog } from './TransactionsImportRulesDialog';
 
-const getSteps = (intl: IntlShape): StepItem[] => {
+const getSteps = (intl: IntlShape, isBankStatement: boolean): StepItem[] => {
   const getPrefix = stepNum => intl.formatMessage({ defaultMessage: 'Step {stepNum}:', id: 'Z9Dody' }, { stepNum });
   return [
     {
       id: 'import-csv',
       icon: Upload,
-      label: `${getPrefix(1)} ${intl.formatMessage({ defaultMessage: 'Select CSV', id: '1s14km' })}`,
+      label: `${getPrefix(1)} ${intl.formatMessage({ defaultMessage: 'Select file', id: 'V3zw7m' })}`,
     },
     {
       id: 'map-csv',
       icon: FileSliders,
-      label: `${getPrefix(2)} ${intl.formatMessage({ defaultMessage: 'Map columns', id: 'rcGwE8' })}`,
+      label: `${getPrefix(2)} ${
+        isBankStatement
+          ? intl.formatMessage({ defaultMessage: 'Review transactions', id: 'rB2Ff7' })
+          : intl.formatMessage({ defaultMessage: 'Map columns', id: 'rcGwE8' })
+      }`,
     },
     {
       id: 'process',
@@ -84,6 +100,7 @@ const transactionsImportQuery = gql`
         slug
         currency
         type
+        settings
       }
       rows {
         totalCount
@@ -100,8 +117,11 @@ const transactionsImportQuery = gql`
 
 export const TransactionsImport = ({ accountSlug, importId }) => {
   const intl = useIntl();
-  const steps = React.useMemo(() => getSteps(intl), [intl]);
   const [csvFile, setCsvFile] = React.useState<File | null>(null);
+  const [isImportingMore, setIsImportingMore] = React.useState(false);
+  const [hasRulesDialog, setHasRulesDialog] = React.useState(false);
+  const [bankStatementFormat, setBankStatementFormat] = React.useState<BankStatementFormat | null>(null);
+  const steps = React.useMemo(() => getSteps(intl, Boolean(bankStatementFormat)), [intl, bankStatementFormat]);
   const [drawerRowId, setDrawerRowId] = React.useState<string | null>(null);
   const { data, loading, error } = useQuery(transactionsImportQuery, {
     context: API_V2_CONTEXT,
@@ -110,7 +130,7 @@ export const TransactionsImport = ({ accountSlug, importId }) => {
 
   const importData = data?.transactionsImport;
   const importType = importData?.type;
-  const hasStepper = importType === 'CSV' && !importData?.rows?.totalCount;
+  const hasStepper = importType === 'CSV' && (!importData?.rows?.totalCount || isImportingMore);
   const importRows = importData?.rows?.nodes ?? [];
   const selectedRowIdx = importRows.findIndex(row => row.id === drawerRowId);
 
@@ -126,6 +146,30 @@ export const TransactionsImport = ({ accountSlug, importId }) => {
         subpathTitle={importData ? `${importData.source} - ${importData.name}` : `#${importId.split('-')[0]}`}
         titleRoute={`/dashboard/${accountSlug}/host-transactions/import`}
         className="mb-5"
+        actions={
+          importData?.rows?.totalCount > 0 && (
+            <div className="flex gap-2">
+              {!hasStepper && (
+                <Button size="sm" variant="outline" onClick={() => setHasRulesDialog(true)}>
+                  <Wand2 size={16} />
+                  <FormattedMessage defaultMessage="Rules" id="kAAlGL" />
+                </Button>
+              )}
+              {importType === 'CSV' && (
+                <Button size="sm" variant="outline" onClick={() => setIsImportingMore(!isImportingMore)}>
+                  {isImportingMore ? (
+                    <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+                  ) : (
+                    <React.Fragment>
+                      <Upload size={16} />
+                      <FormattedMessage defaultMessage="Import more" id="t2DPmB" />
+                    </React.Fragment>
+                  )}
+                </Button>
+              )}
+            </div>
+          )
+        }
       />
       {loading ? (
         <LoadingPlaceholder height={300} />
@@ -141,9 +185,31 @@ export const TransactionsImport = ({ accountSlug, importId }) => {
                 return (
                   <Step key={stepProps.id} {...stepProps}>
                     {stepProps.id === 'import-csv' ? (
-                      <StepSelectCSV onFileSelected={setCsvFile} />
+                      <StepSelectCSV
+                        onFileSelected={(file, format) => {
+                          setCsvFile(file);
+                          setBankStatementFormat(format);
+                        }}
+                      />
+                    ) : stepProps.id === 'map-csv' && bankStatementFormat ? (
+                      <StepReviewBankStatement
+                        importId={importId}
+                        file={csvFile}
+                        format={bankStatementFormat}
+                        currency={importData.account.currency}
+                        existingRows={importRows}
+                        onSuccess={() => setIsImportingMore(false)}
+                      />
                     ) : stepProps.id === 'map-csv' ? (
-                      <StepMapCSVColumns importId={importId} file={csvFile} currency={importData.account.currency} />
+                      <StepMapCSVColumns
+                        importId={importId}
+                        file={csvFile}
+                        currency={importData.account.currency}
+                        source={importData.source}
+                        host={importData.account}
+                        existingRows={importRows}
+                        onSuccess={() => setIsImportingMore(false)}
+                      />
                     ) : null}
                   </Step>
                 );
@@ -364,6 +430,14 @@ export const TransactionsImport = ({ accountSlug, importId }) => {
         getActions={getActions}
         rowIndex={selectedRowIdx}
       />
+      {hasRulesDialog && importData && (
+        <TransactionsImportRulesDialog
+          open
+          onOpenChange={setHasRulesDialog}
+          transactionsImport={importData}
+          host={importData.account}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,532 @@
+import React from 'react';
+import { useApolloClient, useMutation, useQuery } from '@apollo/client';
+import { countBy, pick } from 'lodash';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+import { v4 as uuid } from 'uuid';
+
+import { getAccountReferenceInput } from '../../../../lib/collective';
+import { i18nGraphqlException } from '../../../../lib/errors';
+import { standardizeExpenseItemIncurredAt } from '../../../../lib/expenses';
+import { API_V2_CONTEXT } from '../../../../lib/graphql/helpers';
+import type { Account, TransactionsImport } from '../../../../lib/graphql/types/v2/graphql';
+import { ExpenseType } from '../../../../lib/graphql/types/v2/graphql';
+import { i18nExpenseType } from '../../../../lib/i18n/expense';
+import {
+  transactionsImportRuleCreateExpenseMutation,
+  transactionsImportRuleProcessOrderMutation,
+  transactionsImportRulesExpectedFundsQuery,
+  updateTransactionsImportRows,
+} from './lib/graphql';
+import type { RuleMatch } from './lib/rules';
+import { getConditionByType, getRulesMatches, useTransactionsImportRules } from './lib/rules';
+import type { TransactionsImportRule, TransactionsImportRuleAction } from './lib/types';
+
+import CollectivePickerAsync from '../../../CollectivePickerAsync';
+import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
+import { Badge } from '../../../ui/Badge';
+import { Button } from '../../../ui/Button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../ui/Dialog';
+import { Input } from '../../../ui/Input';
+import { Label } from '../../../ui/Label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../ui/Select';
+import { useToast } from '../../../ui/useToast';
+
+const RULE_EXPENSE_TYPES = [ExpenseType.INVOICE, ExpenseType.RECEIPT, ExpenseType.GRANT];
+
+type RuleFormValues = {
+  name: string;
+  actionType: TransactionsImportRuleAction['type'];
+  descriptionContains: string;
+  amount: string;
+  dateWithinDays: string;
+  account: Extract<TransactionsImportRuleAction, { type: 'CREATE_EXPENSE' }>['account'] | null;
+  payee: Extract<TransactionsImportRuleAction, { type: 'CREATE_EXPENSE' }>['payee'] | null;
+  expenseType: ExpenseType;
+};
+
+type ApplyRulesResult = {
+  processed: number;
+  failed: number;
+  errors: string[];
+};
+
+const getRuleFormValues = (rule: TransactionsImportRule | null): RuleFormValues => {
+  const amountCondition = rule && getConditionByType(rule, 'AMOUNT_EQUALS');
+  return {
+    name: rule?.name || '',
+    actionType: rule?.action.type || 'MATCH_EXPECTED_FUNDS',
+    descriptionContains: (rule && getConditionByType(rule, 'DESCRIPTION_CONTAINS'))?.value || '',
+    amount: amountCondition ? (amountCondition.valueInCents / 100).toString() : '',
+    dateWithinDays: (rule && getConditionByType(rule, 'DATE_WITHIN_DAYS'))?.days?.toString() || '',
+    account: rule?.action.type === 'CREATE_EXPENSE' ? rule.action.account : null,
+    payee: rule?.action.type === 'CREATE_EXPENSE' ? rule.action.payee : null,
+    expenseType: rule?.action.type === 'CREATE_EXPENSE' ? rule.action.expenseType : ExpenseType.INVOICE,
+  };
+};
+
+const buildRuleFromFormValues = (id: string, values: RuleFormValues): TransactionsImportRule => {
+  const conditions: TransactionsImportRule['conditions'] = [];
+  if (values.descriptionContains.trim()) {
+    conditions.push({ type: 'DESCRIPTION_CONTAINS', value: values.descriptionContains.trim() });
+  }
+  if (values.amount) {
+    conditions.push({ type: 'AMOUNT_EQUALS', valueInCents: Math.round(Math.abs(parseFloat(values.amount)) * 100) });
+  }
+  if (values.dateWithinDays && values.actionType === 'MATCH_EXPECTED_FUNDS') {
+    conditions.push({ type: 'DATE_WITHIN_DAYS', days: parseInt(values.dateWithinDays) });
+  }
+
+  const pickAccountFields = (account: RuleFormValues['account']) =>
+    pick(account, ['id', 'slug', 'name', 'type', 'imageUrl']) as RuleFormValues['account'];
+  return {
+    id,
+    name: values.name.trim(),
+    conditions,
+    action:
+      values.actionType === 'CREATE_EXPENSE'
+        ? {
+            type: 'CREATE_EXPENSE',
+            account: pickAccountFields(values.account),
+            payee: pickAccountFields(values.payee),
+            expenseType: values.expenseType,
+          }
+        : { type: values.actionType },
+  };
+};
+
+const RuleActionLabel = ({ action }: { action: TransactionsImportRuleAction }) => {
+  switch (action.type) {
+    case 'MATCH_EXPECTED_FUNDS':
+      return <FormattedMessage defaultMessage="Match expected funds" id="J/7TIn" />;
+    case 'CREATE_EXPENSE':
+      return (
+        <FormattedMessage
+          defaultMessage="Add expense to {account}"
+          id="7541cX"
+          values={{ account: action.account?.name }}
+        />
+      );
+    case 'DISMISS':
+      return <FormattedMessage defaultMessage="Ignore" id="paBpxN" />;
+  }
+};
+
+const RuleForm = ({
+  rule,
+  host,
+  loading,
+  onSubmit,
+  onCancel,
+}: {
+  rule: TransactionsImportRule | null;
+  host: Pick<Account, 'legacyId'>;
+  loading: boolean;
+  onSubmit: (rule: TransactionsImportRule) => void;
+  onCancel: () => void;
+}) => {
+  const intl = useIntl();
+  const [values, setValues] = React.useState<RuleFormValues>(() => getRuleFormValues(rule));
+  const setValue = <K extends keyof RuleFormValues>(key: K, value: RuleFormValues[K]) =>
+    setValues(values => ({ ...values, [key]: value }));
+  const hasCondition = Boolean(values.descriptionContains.trim() || values.amount);
+  const isValid =
+    Boolean(values.name.trim()) &&
+    hasCondition &&
+    (values.actionType !== 'CREATE_EXPENSE' || Boolean(values.account && values.payee && values.expenseType));
+
+  return (
+    <form
+      className="flex flex-col gap-4"
+      onSubmit={e => {
+        e.preventDefault();
+        if (isValid) {
+          onSubmit(buildRuleFromFormValues(rule?.id || uuid(), values));
+        }
+      }}
+    >
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="rule-name">
+          <FormattedMessage defaultMessage="Name" id="Fields.name" />
+        </Label>
+        <Input id="rule-name" value={values.name} onChange={e => setValue('name', e.target.value)} maxLength={100} />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label>
+          <FormattedMessage defaultMessage="When a transaction matches" id="mmnzBj" />
+        </Label>
+        <Input
+          placeholder={intl.formatMessage({ defaultMessage: 'Description contains...', id: 'Nc/+X6' })}
+          value={values.descriptionContains}
+          onChange={e => setValue('descriptionContains', e.target.value)}
+        />
+        <Input
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder={intl.formatMessage({ defaultMessage: 'Amount equals...', id: 'GHGV/n' })}
+          value={values.amount}
+          onChange={e => setValue('amount', e.target.value)}
+        />
+        {values.actionType === 'MATCH_EXPECTED_FUNDS' && (
+          <Input
+            type="number"
+            min={0}
+            step="1"
+            placeholder={intl.formatMessage({
+              defaultMessage: 'Expected within (days)...',
+              id: '4lhTbv',
+            })}
+            value={values.dateWithinDays}
+            onChange={e => setValue('dateWithinDays', e.target.value)}
+          />
+        )}
+        {!hasCondition && (
+          <p className="text-xs text-muted-foreground">
+            <FormattedMessage defaultMessage="Set at least a description or an amount condition." id="bhB2d0" />
+          </p>
+        )}
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="rule-action">
+          <FormattedMessage defaultMessage="Then" id="yfODku" />
+        </Label>
+        <Select
+          value={values.actionType}
+          onValueChange={value => setValue('actionType', value as RuleFormValues['actionType'])}
+        >
+          <SelectTrigger id="rule-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="MATCH_EXPECTED_FUNDS">
+              <FormattedMessage defaultMessage="Match expected funds" id="J/7TIn" />
+            </SelectItem>
+            <SelectItem value="CREATE_EXPENSE">
+              <FormattedMessage defaultMessage="Add expense" id="6/UjBO" />
+            </SelectItem>
+            <SelectItem value="DISMISS">
+              <FormattedMessage defaultMessage="Ignore" id="paBpxN" />
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        {values.actionType === 'MATCH_EXPECTED_FUNDS' && (
+          <p className="text-xs text-muted-foreground">
+            <FormattedMessage
+              defaultMessage="Incoming transactions are matched with the only pending expected funds that have the same amount. Transactions with no or several candidates are skipped."
+              id="VTnfIc"
+            />
+          </p>
+        )}
+        {values.actionType === 'CREATE_EXPENSE' && (
+          <React.Fragment>
+            <CollectivePickerAsync
+              inputId="rule-account"
+              collective={values.account}
+              onChange={({ value }) => setValue('account', value)}
+              hostCollectiveIds={[host.legacyId]}
+              placeholder={intl.formatMessage({ defaultMessage: 'Account', id: 'TwyMau' })}
+              menuPortalTarget={null}
+              preload
+            />
+            <CollectivePickerAsync
+              inputId="rule-payee"
+              collective={values.payee}
+              onChange={({ value }) => setValue('payee', value)}
+              types={['USER', 'ORGANIZATION', 'VENDOR']}
+              includeVendorsForHostId={host.legacyId}
+              placeholder={intl.formatMessage({ defaultMessage: 'Payee', id: 'SecurityScope.Payee' })}
+              menuPortalTarget={null}
+            />
+            <Select value={values.expenseType} onValueChange={value => setValue('expenseType', value as ExpenseType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_EXPENSE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {i18nExpenseType(intl, type, undefined)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </React.Fragment>
+        )}
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={loading}>
+          <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+        </Button>
+        <Button type="submit" loading={loading} disabled={!isValid}>
+          <FormattedMessage defaultMessage="Save rule" id="eN+yub" />
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+/**
+ * Lets hosts define rules to process the rows of a transactions import in bulk. Each rule shows how many
+ * rows it would affect (dry-run) before being applied.
+ */
+export const TransactionsImportRulesDialog = ({
+  transactionsImport,
+  host,
+  ...props
+}: {
+  transactionsImport: Pick<TransactionsImport, 'id' | 'source'> & {
+    rows: { nodes: Parameters<typeof getRulesMatches>[1] };
+  };
+  host: Pick<Account, 'id' | 'legacyId' | 'slug' | 'settings'>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const client = useApolloClient();
+  const { rules, saveRule, deleteRule, loading: savingRules } = useTransactionsImportRules(host);
+  const [editedRule, setEditedRule] = React.useState<TransactionsImportRule | 'new' | null>(null);
+  const [deletingRuleId, setDeletingRuleId] = React.useState<string | null>(null);
+  const [isApplying, setIsApplying] = React.useState(false);
+  const [result, setResult] = React.useState<ApplyRulesResult | null>(null);
+  const hasMatchRule = rules.some(rule => rule.action.type === 'MATCH_EXPECTED_FUNDS');
+  const expectedFundsQuery = useQuery(transactionsImportRulesExpectedFundsQuery, {
+    context: API_V2_CONTEXT,
+    variables: { hostId: host.id },
+    skip: !props.open || !hasMatchRule,
+    fetchPolicy: 'cache-and-network',
+  });
+  const [updateRows] = useMutation(updateTransactionsImportRows, { context: API_V2_CONTEXT });
+  const [processOrder] = useMutation(transactionsImportRuleProcessOrderMutation, { context: API_V2_CONTEXT });
+  const [createExpense] = useMutation(transactionsImportRuleCreateExpenseMutation, { context: API_V2_CONTEXT });
+  const expectedFunds = expectedFundsQuery.data?.account?.orders?.nodes;
+  const matches = React.useMemo(
+    () => getRulesMatches(rules, transactionsImport.rows.nodes, expectedFunds),
+    [rules, transactionsImport.rows.nodes, expectedFunds],
+  );
+  const matchesCountByRule = countBy(matches, match => match.rule.id);
+
+  const applyMatch = async ({ row, rule, expectedFunds }: RuleMatch) => {
+    if (rule.action.type === 'MATCH_EXPECTED_FUNDS') {
+      const order = expectedFunds as (typeof expectedFundsQuery)['data']['account']['orders']['nodes'][number];
+      const currency = order.totalAmount.currency;
+      const platformTip = order.platformTipAmount?.valueInCents || 0;
+      await processOrder({
+        variables: {
+          order: {
+            id: order.id,
+            amount: { valueInCents: row.amount.valueInCents - platformTip, currency },
+            paymentProcessorFee: { valueInCents: 0, currency },
+            platformTip: { valueInCents: platformTip, currency },
+            hostFeePercent: order.hostFeePercent || order.toAccount['bankTransfersHostFeePercent'] || 0,
+            processedAt: new Date(row.date),
+            transactionsImportRow: { id: row.id },
+          },
+        },
+      });
+    } else if (rule.action.type === 'CREATE_EXPENSE') {
+      await createExpense({
+        variables: {
+          account: getAccountReferenceInput(rule.action.account),
+          transactionsImportRow: { id: row.id },
+          expense: {
+            type: rule.action.expenseType,
+            description: row.description || rule.name,
+            payee: getAccountReferenceInput(rule.action.payee),
+            currency: row.amount.currency,
+            payoutMethod: {
+              type: 'OTHER',
+              data: { importId: transactionsImport.id, source: transactionsImport.source },
+            },
+            items: [
+              {
+                amountV2: { valueInCents: Math.abs(row.amount.valueInCents), currency: row.amount.currency },
+                description: row.description || rule.name,
+                incurredAt: standardizeExpenseItemIncurredAt(row.date),
+              },
+            ],
+            attachedFiles: [],
+          },
+        },
+      });
+    }
+  };
+
+  const applyRules = async () => {
+    const newResult: ApplyRulesResult = { processed: 0, failed: 0, errors: [] };
+    const dismissedMatches = matches.filter(({ rule }) => rule.action.type === 'DISMISS');
+    const otherMatches = matches.filter(({ rule }) => rule.action.type !== 'DISMISS');
+    setIsApplying(true);
+    try {
+      // Dismissing can be done in a single request
+      if (dismissedMatches.length) {
+        try {
+          await updateRows({
+            variables: {
+              importId: transactionsImport.id,
+              rows: dismissedMatches.map(({ row }) => ({ id: row.id, isDismissed: true })),
+            },
+          });
+          newResult.processed += dismissedMatches.length;
+        } catch (e) {
+          newResult.failed += dismissedMatches.length;
+          newResult.errors.push(i18nGraphqlException(intl, e));
+        }
+      }
+
+      // Other actions have their own mutation, we run them one by one to not overload the API
+      for (const match of otherMatches) {
+        try {
+          await applyMatch(match);
+          newResult.processed++;
+        } catch (e) {
+          newResult.failed++;
+          newResult.errors.push(`${match.row.description}: ${i18nGraphqlException(intl, e)}`);
+        }
+      }
+
+      await client.refetchQueries({ include: ['TransactionsImport'] });
+      if (hasMatchRule) {
+        await expectedFundsQuery.refetch();
+      }
+    } finally {
+      setIsApplying(false);
+      setResult(newResult);
+    }
+  };
+
+  return (
+    <Dialog {...props}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>
+            {editedRule === 'new' ? (
+              <FormattedMessage defaultMessage="New rule" id="FoikIK" />
+            ) : editedRule ? (
+              <FormattedMessage defaultMessage="Edit rule" id="v1vJ77" />
+            ) : (
+              <FormattedMessage defaultMessage="Rules" id="kAAlGL" />
+            )}
+          </DialogTitle>
+          {!editedRule && (
+            <DialogDescription>
+              <FormattedMessage
+                defaultMessage="Rules are applied in order to the transactions that are not processed or ignored yet. The first rule matching a transaction wins."
+                id="/Ez3vS"
+              />
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {editedRule ? (
+          <RuleForm
+            rule={editedRule === 'new' ? null : editedRule}
+            host={host}
+            loading={savingRules}
+            onCancel={() => setEditedRule(null)}
+            onSubmit={async rule => {
+              try {
+                await saveRule(rule);
+                setEditedRule(null);
+              } catch (e) {
+                toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+              }
+            }}
+          />
+        ) : (
+          <React.Fragment>
+            {expectedFundsQuery.error && <MessageBoxGraphqlError error={expectedFundsQuery.error} />}
+            {rules.length > 0 && (
+              <ul className="flex flex-col divide-y rounded-lg border border-neutral-200">
+                {rules.map(rule => (
+                  <li key={rule.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">{rule.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        <RuleActionLabel action={rule.action} />
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Badge size="sm" type={matchesCountByRule[rule.id] ? 'info' : 'neutral'}>
+                        {rule.action.type === 'MATCH_EXPECTED_FUNDS' && expectedFundsQuery.loading ? (
+                          '...'
+                        ) : (
+                          <FormattedMessage
+                            defaultMessage="{count, plural, one {# row} other {# rows}}"
+                            id="fad/lV"
+                            values={{ count: matchesCountByRule[rule.id] || 0 }}
+                          />
+                        )}
+                      </Badge>
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        disabled={isApplying}
+                        aria-label={intl.formatMessage({ defaultMessage: 'Edit', id: 'Edit' })}
+                        onClick={() => setEditedRule(rule)}
+                      >
+                        <Pencil size={14} />
+                      </Button>
+                      <Button
+                        size="xs"
+                        variant="outlineDestructive"
+                        loading={deletingRuleId === rule.id}
+                        disabled={Boolean(deletingRuleId) || isApplying}
+                        aria-label={intl.formatMessage({ defaultMessage: 'Delete', id: 'actions.delete' })}
+                        onClick={async () => {
+                          setDeletingRuleId(rule.id);
+                          try {
+                            await deleteRule(rule.id);
+                          } catch (e) {
+                            toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+                          } finally {
+                            setDeletingRuleId(null);
+                          }
+                        }}
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result && (
+              <div className="rounded-lg border border-neutral-200 p-3 text-sm">
+                <FormattedMessage
+                  defaultMessage="{processed, plural, one {# row} other {# rows}} processed, {failed} failed."
+                  id="ZecGCB"
+                  values={{ processed: result.processed, failed: result.failed }}
+                />
+                {result.errors.length > 0 && (
+                  <ul className="mt-2 list-inside list-disc text-xs text-red-600">
+                    {result.errors.map((error, index) => (
+                      // eslint-disable-next-line react/no-array-index-key
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <DialogFooter className="sm:justify-between">
+              <Button variant="outline" onClick={() => setEditedRule('new')} disabled={isApplying}>
+                <Plus size={16} />
+                <FormattedMessage defaultMessage="Add rule" id="gzM1em" />
+              </Button>
+              <Button
+                onClick={applyRules}
+                loading={isApplying}
+                disabled={!matches.length || (hasMatchRule && expectedFundsQuery.loading)}
+              >
+                <FormattedMessage
+                  defaultMessage="Apply rules to {count, plural, one {# row} other {# rows}}"
+                  id="F4OvUh"
+                  values={{ count: matches.length }}
+                />
+              </Button>
+            </DialogFooter>
+          </React.Fragment>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -19,6 +19,7 @@ import { Button } from '../../../ui/Button';
 import DashboardHeader from '../../DashboardHeader';
 import { Pagination } from '../../filters/Pagination';
 
+import { CSVMappingProfilesDialog } from './CSVMappingProfilesDialog';
 import { NewTransactionsImportDialog } from './NewTransactionsImportDialog';
 
 const NB_IMPORTS_DISPLAYED = 20;
@@ -32,6 +33,8 @@ const transactionsImportsQuery = gql`
   query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {
     host(slug: $accountSlug) {
       id
+      slug
+      settings
       transactionsImports(limit: $limit, offset: $offset) {
         totalCount
         limit
@@ -49,6 +52,7 @@ const transactionsImportsQuery = gql`
 export const TransactionsImportsTable = ({ accountSlug }) => {
   const intl = useIntl();
   const [hasNewImportDialog, setHasNewImportDialog] = React.useState(false);
+  const [hasCSVMappingsDialog, setHasCSVMappingsDialog] = React.useState(false);
   const router = useRouter();
   const queryFilter = useQueryFilter({ schema, filters: {} });
   const { data, loading, refetch, error } = useQuery(transactionsImportsQuery, {
@@ -64,9 +68,14 @@ export const TransactionsImportsTable = ({ accountSlug }) => {
         subpathTitle="Imports"
         className="mb-5"
         actions={
-          <Button size="sm" variant="outline" onClick={() => setHasNewImportDialog(true)}>
-            <FormattedMessage defaultMessage="New import" id="tMqgaI" />
-          </Button>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={!data?.host} onClick={() => setHasCSVMappingsDialog(true)}>
+              <FormattedMessage defaultMessage="CSV mappings" id="XN1/IR" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setHasNewImportDialog(true)}>
+              <FormattedMessage defaultMessage="New import" id="tMqgaI" />
+            </Button>
+          </div>
         }
       />
       {error ? (
@@ -151,6 +160,9 @@ export const TransactionsImportsTable = ({ accountSlug }) => {
         open={hasNewImportDialog}
         onSuccess={refetch}
       />
+      {data?.host && (
+        <CSVMappingProfilesDialog host={data.host} open={hasCSVMappingsDialog} onOpenChange={setHasCSVMappingsDialog} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,41 @@
+import { findCSVMappingProfileKeyByName, findMatchingCSVMappingProfile } from '../csv-mapping-profiles';
+
+describe('findCSVMappingProfileKeyByName', () => {
+  const profiles = {
+    'f3b8c0a2-1': { name: 'Monthly export', source: 'Bank', headers: [], csvConfig: {} },
+    'f3b8c0a2-2': { name: 'Bank 日本', source: 'Bank', headers: [], csvConfig: {} },
+  };
+
+  it('finds the profile with the same name for the source', () => {
+    expect(findCSVMappingProfileKeyByName(profiles, 'Bank', 'Monthly export')).toBe('f3b8c0a2-1');
+    expect(findCSVMappingProfileKeyByName(profiles, 'Bank', 'Bank 日本')).toBe('f3b8c0a2-2');
+  });
+
+  it('does not confuse names that would have the same slug', () => {
+    expect(findCSVMappingProfileKeyByName(profiles, 'Bank', 'monthly-export')).toBeNull();
+    expect(findCSVMappingProfileKeyByName(profiles, 'Bank', 'Bank')).toBeNull();
+    expect(findCSVMappingProfileKeyByName(profiles, 'Wise', 'Monthly export')).toBeNull();
+  });
+});
+
+describe('findMatchingCSVMappingProfile', () => {
+  const profiles = {
+    'wise-default': { name: 'Default', source: 'Wise', headers: ['Date', 'Amount', 'Description'], csvConfig: {} },
+    'bank-default': { name: 'Default', source: 'Bank', headers: ['date', 'amount', 'description'], csvConfig: {} },
+    'bank-other': { name: 'Other', source: 'Bank', headers: ['Date', 'Amount'], csvConfig: {} },
+  };
+
+  it('matches the headers regardless of their order, case and spacing', () => {
+    expect(findMatchingCSVMappingProfile(profiles, 'Wise', [' description', 'AMOUNT', 'Date'])).toBe('wise-default');
+  });
+
+  it('prefers the profiles saved for the same source', () => {
+    expect(findMatchingCSVMappingProfile(profiles, 'Bank', ['Date', 'Amount', 'Description'])).toBe('bank-default');
+    expect(findMatchingCSVMappingProfile(profiles, 'Other', ['Date', 'Amount', 'Description'])).toBe('wise-default');
+  });
+
+  it('returns null when no profile matches', () => {
+    expect(findMatchingCSVMappingProfile(profiles, 'Bank', ['Date', 'Reference'])).toBeNull();
+    expect(findMatchingCSVMappingProfile({}, 'Bank', ['Date'])).toBeNull();
+  });
+});
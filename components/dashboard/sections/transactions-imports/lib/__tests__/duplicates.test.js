@@ -0,0 +1,55 @@
+import { findDuplicateImportRows, getImportRowFingerprint } from '../duplicates';
+
+const makeRow = (sourceId, valueInCents, description, date = '2024-03-10T12:00:00.000Z') => ({
+  sourceId,
+  date,
+  description,
+  amount: { valueInCents, currency: 'EUR' },
+});
+
+describe('getImportRowFingerprint', () => {
+  it('ignores the time, the case, the accents and the punctuation', () => {
+    expect(getImportRowFingerprint(makeRow('1', 1000, 'Café  Payment #12', '2024-03-10T08:00:00.000Z'))).toBe(
+      getImportRowFingerprint(makeRow('2', 1000, 'cafe payment 12', '2024-03-10T22:00:00.000Z')),
+    );
+  });
+
+  it('differs when the amount, the currency or the day changes', () => {
+    const fingerprint = getImportRowFingerprint(makeRow('1', 1000, 'Payment'));
+    expect(getImportRowFingerprint(makeRow('1', 1001, 'Payment'))).not.toBe(fingerprint);
+    expect(getImportRowFingerprint({ ...makeRow('1', 1000, 'Payment'), amount: { valueInCents: 1000 } })).not.toBe(
+      fingerprint,
+    );
+    expect(getImportRowFingerprint(makeRow('1', 1000, 'Payment', '2024-03-11T12:00:00.000Z'))).not.toBe(fingerprint);
+  });
+
+  it('keeps non-Latin descriptions', () => {
+    expect(getImportRowFingerprint(makeRow('1', 1000, '家賃'))).not.toBe(
+      getImportRowFingerprint(makeRow('1', 1000, '給料')),
+    );
+  });
+});
+
+describe('findDuplicateImportRows', () => {
+  const existingRows = [
+    { id: 'a', isDismissed: false, ...makeRow('bank-1', 1000, 'Rent') },
+    { id: 'b', isDismissed: false, ...makeRow('bank-2', 2500, 'Office supplies') },
+  ];
+
+  it('matches by source ID first, then by fingerprint', () => {
+    const rows = [
+      makeRow('bank-1', 9999, 'Something else'),
+      makeRow('other-file-2', 2500, 'OFFICE SUPPLIES'),
+      makeRow('bank-3', 2500, 'Office chairs'),
+    ];
+
+    expect(findDuplicateImportRows(rows, existingRows)).toEqual([
+      { index: 0, row: rows[0], existingRow: existingRows[0], reason: 'SOURCE_ID' },
+      { index: 1, row: rows[1], existingRow: existingRows[1], reason: 'FINGERPRINT' },
+    ]);
+  });
+
+  it('returns nothing when the import is empty', () => {
+    expect(findDuplicateImportRows([makeRow('bank-1', 1000, 'Rent')], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  getBankStatementFormat,
+  parseBankStatementFile,
+  parseCAMT053Statement,
+  parseMT940Statement,
+  parseOFXStatement,
+} from '../parse-bank-statements';
+
+const OFX_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000248
+<ACCTID>123456789
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240101
+<DTEND>20240131
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240105120000[-5:EST]
+<TRNAMT>1500.00
+<FITID>2024010501
+<NAME>ACME Corp
+<MEMO>Sponsorship January
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240110
+<TRNAMT>-42.50
+<FITID>2024011001
+<NAME>Hosting Provider
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const CAMT053_STATEMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>BE68539007547034</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">250.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2024-02-01</Dt></BookgDt>
+        <AcctSvcrRef>REF-001</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><EndToEndId>E2E-001</EndToEndId></Refs>
+            <RltdPties>
+              <Dbtr><Nm>Jane Doe</Nm></Dbtr>
+              <DbtrAcct><Id><IBAN>FR7630006000011234567890189</IBAN></Id></DbtrAcct>
+            </RltdPties>
+            <RmtInf><Ustrd>Donation to Webpack</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">19.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2024-02-03</Dt></BookgDt>
+        <AcctSvcrRef>REF-002</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties><Cdtr><Nm>Bank Fees Inc</Nm></Cdtr></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const MT940_STATEMENT = `:20:STARTUMSE
+:25:10020030/1234567
+:28C:00001/001
+:60F:C240301EUR1000,00
+:61:2403010301C150,00NTRFNONREF//BANKREF1
+:86:166?00GUTSCHRIFT?20Membership fee ?21March?30DEUTDEFF?31DE89370400440532013000?32John Smith
+:61:2403050305D12,34NMSCNONREF
+:86:Card payment coffee shop
+:62F:C240305EUR1137,66
+-`;
+
+describe('Bank statements parsing', () => {
+  describe('getBankStatementFormat', () => {
+    it('detects the format from the content', () => {
+      expect(getBankStatementFormat('statement.txt', OFX_STATEMENT)).toBe('OFX');
+      expect(getBankStatementFormat('statement.xml', CAMT053_STATEMENT)).toBe('CAMT.053');
+      expect(getBankStatementFormat('statement.txt', MT940_STATEMENT)).toBe('MT940');
+    });
+
+    it('returns null for CSV files', () => {
+      expect(getBankStatementFormat('statement.csv', 'date,amount,description\n2024-01-01,10,Test')).toBeNull();
+    });
+  });
+
+  it('parses OFX statements', () => {
+    const rows = parseOFXStatement(OFX_STATEMENT, 'EUR');
+    expect(rows).toHaveLength(2);
+    expect(rows[0].sourceId).toBe('2024010501');
+    expect(rows[0].amount).toEqual({ valueInCents: 150000, currency: 'USD' });
+    expect(rows[0].date.toISOString()).toBe('2024-01-05T17:00:00.000Z');
+    expect(rows[0].description).toBe('ACME Corp - Sponsorship January');
+    expect(rows[0].rawValue.counterpartyName).toBe('ACME Corp');
+    expect(rows[1].amount).toEqual({ valueInCents: -4250, currency: 'USD' });
+  });
+
+  it('parses CAMT.053 statements', () => {
+    const rows = parseCAMT053Statement(CAMT053_STATEMENT, 'USD');
+    expect(rows).toHaveLength(2);
+    expect(rows[0].sourceId).toBe('REF-001');
+    expect(rows[0].amount).toEqual({ valueInCents: 25000, currency: 'EUR' });
+    expect(rows[0].description).toBe('Donation to Webpack');
+    expect(rows[0].rawValue.counterpartyName).toBe('Jane Doe');
+    expect(rows[0].rawValue.counterpartyAccount).toBe('FR7630006000011234567890189');
+    expect(rows[1].amount).toEqual({ valueInCents: -1999, currency: 'EUR' });
+    expect(rows[1].rawValue.counterpartyName).toBe('Bank Fees Inc');
+  });
+
+  it('parses MT940 statements', () => {
+    const rows = parseMT940Statement(MT940_STATEMENT, 'USD');
+    expect(rows).toHaveLength(2);
+    expect(rows[0].sourceId).toBe('BANKREF1');
+    expect(rows[0].amount).toEqual({ valueInCents: 15000, currency: 'EUR' });
+    expect(rows[0].date.format('YYYY-MM-DD')).toBe('2024-03-01');
+    expect(rows[0].description).toBe('Membership fee March');
+    expect(rows[0].rawValue.counterpartyName).toBe('John Smith');
+    expect(rows[0].rawValue.counterpartyAccount).toBe('DE89370400440532013000');
+    expect(rows[1].amount).toEqual({ valueInCents: -1234, currency: 'EUR' });
+    expect(rows[1].description).toBe('Card payment coffee shop');
+  });
+
+  describe('parseBankStatementFile', () => {
+    const intl = { formatMessage: (message, values) => message.defaultMessage.replace('{format}', values?.format) };
+    const getFile = (content, name) => new window.File([content], name);
+
+    it('parses the file with the given format', async () => {
+      const { format, rows } = await parseBankStatementFile(
+        getFile(MT940_STATEMENT, 'statement.dat'),
+        'MT940',
+        'USD',
+        intl,
+      );
+      expect(format).toBe('MT940');
+      expect(rows).toHaveLength(2);
+    });
+
+    it('reports the given format when the file cannot be parsed', async () => {
+      await expect(
+        parseBankStatementFile(getFile(OFX_STATEMENT, 'statement.xml'), 'CAMT.053', 'USD', intl),
+      ).rejects.toBe('Could not parse the CAMT.053 file. Please make sure it is correctly formatted.');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { applyCSVConfig, guessCSVColumnsConfig, isValidCurrencyCode } from '../parse-csv';
+
+const ROW = {
+  'Booking date': '2024-03-10',
+  Amount: '-1.234,50',
+  Currency: 'eur',
+  'Bank fee': '0,50',
+  Reference: 'TX-001',
+  Description: 'Office rent',
+  Branch: 'Brussels',
+};
+
+describe('parse-csv', () => {
+  it('guesses the currency, fee and reference columns', () => {
+    const columns = guessCSVColumnsConfig([ROW], 'USD');
+    expect(columns.credit.target).toBe('Amount');
+    expect(columns.debit.target).toBe('Amount');
+    expect(columns.currency).toEqual({ target: 'Currency' });
+    expect(columns.fee).toEqual({ target: 'Bank fee', format: '1.000,00' });
+    expect(columns.reference).toEqual({ target: 'Reference' });
+  });
+
+  it('applies the mapping with the currency column, fees, reference and extra columns', () => {
+    const columns = guessCSVColumnsConfig([ROW], 'USD');
+    const result = applyCSVConfig(ROW, { delimiter: ',', columns, extraColumns: [] });
+    expect(result.amount).toEqual({ valueInCents: -123450, currency: 'EUR' });
+    expect(result.sourceId).toBe('TX-001');
+    expect(result.rawValue).not.toHaveProperty('Branch');
+    expect(result.rawValue.fee).toBe('0.50 EUR');
+
+    const resultWithAllColumns = applyCSVConfig(ROW, { delimiter: ',', columns });
+    expect(resultWithAllColumns.rawValue.Branch).toBe('Brussels');
+  });
+
+  it('only takes ISO 4217 currency codes from amounts', () => {
+    const columns = guessCSVColumnsConfig([{ Date: '2024-03-10', Amount: '$1,000.00' }], 'GBP');
+    expect(applyCSVConfig({ Date: '2024-03-10', Amount: '$1,000.00' }, { delimiter: ',', columns }).amount).toEqual({
+      valueInCents: 100000,
+      currency: 'GBP',
+    });
+    expect(applyCSVConfig({ Date: '2024-03-10', Amount: '(12.00) CAD' }, { delimiter: ',', columns }).amount).toEqual({
+      valueInCents: -1200,
+      currency: 'CAD',
+    });
+    expect(isValidCurrencyCode('CAD')).toBe(true);
+    expect(isValidCurrencyCode('XYZ')).toBe(false);
+  });
+});
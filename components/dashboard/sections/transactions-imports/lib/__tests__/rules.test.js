@@ -0,0 +1,78 @@
+import { getRulesMatches } from '../rules';
+
+const makeRow = (id, valueInCents, description, extra = {}) => ({
+  id,
+  date: '2024-03-10T00:00:00.000Z',
+  description,
+  amount: { valueInCents, currency: 'USD' },
+  isDismissed: false,
+  expense: null,
+  order: null,
+  ...extra,
+});
+
+const makeExpectedFunds = (id, valueInCents, expectedAt = '2024-03-08T00:00:00.000Z') => ({
+  id,
+  totalAmount: { valueInCents, currency: 'USD' },
+  pendingContributionData: { expectedAt },
+});
+
+describe('getRulesMatches', () => {
+  it('applies the first matching rule and skips processed rows', () => {
+    const rules = [
+      {
+        id: 'fees',
+        name: 'Bank fees',
+        conditions: [{ type: 'DESCRIPTION_CONTAINS', value: 'fee' }],
+        action: { type: 'DISMISS' },
+      },
+      {
+        id: 'all',
+        name: 'Everything',
+        conditions: [{ type: 'DESCRIPTION_CONTAINS', value: '' }],
+        action: { type: 'DISMISS' },
+      },
+    ];
+    const rows = [
+      makeRow('1', -500, 'Monthly FEE'),
+      makeRow('2', -1000, 'Office rent'),
+      makeRow('3', -500, 'Card fee', { isDismissed: true }),
+      makeRow('4', -500, 'Wire fee', { expense: { id: 'e1' } }),
+    ];
+
+    const matches = getRulesMatches(rules, rows);
+    expect(matches.map(({ row, rule }) => [row.id, rule.id])).toEqual([
+      ['1', 'fees'],
+      ['2', 'all'],
+    ]);
+  });
+
+  it('only matches a single unclaimed expected funds with the same amount', () => {
+    const rules = [
+      {
+        id: 'match',
+        name: 'Donations',
+        conditions: [
+          { type: 'DESCRIPTION_CONTAINS', value: 'donation' },
+          { type: 'DATE_WITHIN_DAYS', days: 5 },
+        ],
+        action: { type: 'MATCH_EXPECTED_FUNDS' },
+      },
+    ];
+    const rows = [
+      makeRow('1', 10000, 'Donation from Jane'),
+      makeRow('2', 10000, 'Donation from John'),
+      makeRow('3', 5000, 'Donation from Alice'),
+      makeRow('4', 2000, 'Donation from Bob'),
+    ];
+    const expectedFunds = [
+      makeExpectedFunds('o1', 10000),
+      makeExpectedFunds('o2', 5000),
+      makeExpectedFunds('o3', 5000),
+      makeExpectedFunds('o4', 2000, '2024-01-01T00:00:00.000Z'),
+    ];
+
+    const matches = getRulesMatches(rules, rows, expectedFunds);
+    expect(matches.map(({ row, expectedFunds }) => [row.id, expectedFunds.id])).toEqual([['1', 'o1']]);
+  });
+});
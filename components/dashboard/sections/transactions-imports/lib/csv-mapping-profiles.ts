@@ -0,0 +1,74 @@
+import { useMutation } from '@apollo/client';
+import { isEqual, omit, sortBy } from 'lodash';
+import { v4 as uuid } from 'uuid';
+
+import { API_V2_CONTEXT } from '../../../../../lib/graphql/helpers';
+import type { Account } from '../../../../../lib/graphql/types/v2/graphql';
+
+import { editTransactionsImportsSettingsMutation } from './graphql';
+import type { CSVConfig, CSVMappingProfile } from './types';
+
+const SETTINGS_KEY = 'transactionsImportsCSVMappings';
+
+const normalizeHeaders = (headers: string[]): string[] => {
+  return sortBy(headers.filter(Boolean).map(header => header.trim().toLowerCase()));
+};
+
+/**
+ * Returns the key of the profile saved with this exact name for the source, which is updated rather than duplicated
+ * when saved again. Other profiles are never overwritten, whatever their names.
+ */
+export const findCSVMappingProfileKeyByName = (
+  profiles: Record<string, CSVMappingProfile>,
+  source: string,
+  name: string,
+): string | null => {
+  return Object.keys(profiles).find(key => profiles[key].source === source && profiles[key].name === name) || null;
+};
+
+export const getCSVMappingProfiles = (
+  account: Pick<Account, 'settings'> | null | undefined,
+): Record<string, CSVMappingProfile> => {
+  return account?.settings?.[SETTINGS_KEY] || {};
+};
+
+/**
+ * Finds the saved mapping that matches the header row of a CSV file, preferring the ones saved for the same source.
+ * Returns the key of the profile, or `null` if none matches.
+ */
+export const findMatchingCSVMappingProfile = (
+  profiles: Record<string, CSVMappingProfile>,
+  source: string,
+  headers: string[],
+): string | null => {
+  const normalizedHeaders = normalizeHeaders(headers);
+  const matchingKeys = Object.keys(profiles).filter(key =>
+    isEqual(normalizeHeaders(profiles[key].headers || []), normalizedHeaders),
+  );
+
+  return matchingKeys.find(key => profiles[key].source === source) || matchingKeys[0] || null;
+};
+
+export const useCSVMappingProfiles = (account: Pick<Account, 'slug' | 'settings'>) => {
+  const [editSetting, { loading }] = useMutation(editTransactionsImportsSettingsMutation, {
+    context: API_V2_CONTEXT,
+  });
+  const profiles = getCSVMappingProfiles(account);
+
+  const saveProfile = async (source: string, name: string, headers: string[], csvConfig: CSVConfig) => {
+    const key = findCSVMappingProfileKeyByName(profiles, source, name) || uuid();
+    const profile: CSVMappingProfile = { name, source, headers, csvConfig };
+    await editSetting({
+      variables: { account: { slug: account.slug }, key: `${SETTINGS_KEY}.${key}`, value: profile },
+    });
+    return key;
+  };
+
+  const deleteProfile = async (key: string) => {
+    await editSetting({
+      variables: { account: { slug: account.slug }, key: SETTINGS_KEY, value: omit(profiles, [key]) },
+    });
+  };
+
+  return { profiles, saveProfile, deleteProfile, loading };
+};
@@ -0,0 +1,64 @@
+import { deburr } from 'lodash';
+
+import dayjs from '../../../../../lib/dayjs';
+import type {
+  TransactionsImportRow,
+  TransactionsImportRowCreateInput,
+} from '../../../../../lib/graphql/types/v2/graphql';
+
+type ImportRowLike = Pick<TransactionsImportRowCreateInput, 'sourceId' | 'date' | 'description'> & {
+  amount: { valueInCents?: number; currency?: string };
+};
+
+export type DuplicateRowMatch = {
+  /** Index of the row in the list of rows being imported */
+  index: number;
+  row: TransactionsImportRowCreateInput;
+  existingRow: Pick<TransactionsImportRow, 'id' | 'sourceId' | 'date' | 'description' | 'amount' | 'isDismissed'>;
+  /** `SOURCE_ID` when the bank reference is the same, `FINGERPRINT` when date, amount and description match */
+  reason: 'SOURCE_ID' | 'FINGERPRINT';
+};
+
+const normalizeDescription = (description: string | null | undefined): string => {
+  return deburr(description || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+};
+
+/**
+ * Returns a fingerprint of the row based on its date (day precision), amount and description, used to detect
+ * rows that were imported from a different file (e.g. an export with an overlapping date range).
+ */
+export const getImportRowFingerprint = (row: ImportRowLike): string => {
+  const date = row.date ? dayjs.utc(row.date).format('YYYY-MM-DD') : '';
+  return [date, row.amount?.valueInCents, row.amount?.currency, normalizeDescription(row.description)].join('|');
+};
+
+/**
+ * Compares the rows about to be imported with the rows that already exist in the import.
+ */
+export const findDuplicateImportRows = (
+  rows: TransactionsImportRowCreateInput[],
+  existingRows: DuplicateRowMatch['existingRow'][],
+): DuplicateRowMatch[] => {
+  if (!existingRows?.length) {
+    return [];
+  }
+
+  const existingBySourceId = new Map(existingRows.map(row => [row.sourceId, row]));
+  const existingByFingerprint = new Map(existingRows.map(row => [getImportRowFingerprint(row), row]));
+  const duplicates: DuplicateRowMatch[] = [];
+  rows.forEach((row, index) => {
+    if (row.sourceId && existingBySourceId.has(row.sourceId)) {
+      duplicates.push({ index, row, existingRow: existingBySourceId.get(row.sourceId), reason: 'SOURCE_ID' });
+    } else {
+      const existingRow = existingByFingerprint.get(getImportRowFingerprint(row));
+      if (existingRow) {
+        duplicates.push({ index, row, existingRow, reason: 'FINGERPRINT' });
+      }
+    }
+  });
+
+  return duplicates;
+};
@@ -85,3 +85,106 @@ export const updateTransactionsImportRows = gql`
   }
   ${TransactionsImportRowFieldsFragment}
 `;
+
+export const importTransactionsMutation = gql`
+  mutation UploadTransactionsImport(
+    $importId: NonEmptyString!
+    $csvConfig: JSONObject
+    $data: [TransactionsImportRowCreateInput!]!
+    $file: Upload
+  ) {
+    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {
+      id
+      rows {
+        totalCount
+        offset
+        limit
+        nodes {
+          ...TransactionsImportRowFields
+        }
+      }
+    }
+  }
+  ${TransactionsImportRowFieldsFragment}
+`;
+
+export const editTransactionsImportsSettingsMutation = gql`
+  mutation EditTransactionsImportsSettings($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {
+    editAccountSetting(account: $account, key: $key, value: $value) {
+      id
+      settings
+    }
+  }
+`;
+
+export const transactionsImportRulesExpectedFundsQuery = gql`
+  query TransactionsImportRulesExpectedFunds($hostId: String!) {
+    account(id: $hostId) {
+      id
+      orders(
+        filter: INCOMING
+        includeIncognito: true
+        includeHostedAccounts: true
+        status: [PENDING]
+        expectedFundsFilter: ALL_EXPECTED_FUNDS
+        limit: 1000
+      ) {
+        totalCount
+        nodes {
+          id
+          legacyId
+          description
+          hostFeePercent
+          totalAmount {
+            valueInCents
+            currency
+          }
+          platformTipAmount {
+            valueInCents
+            currency
+          }
+          tax {
+            id
+          }
+          pendingContributionData {
+            expectedAt
+          }
+          fromAccount {
+            id
+            name
+          }
+          toAccount {
+            id
+            slug
+            name
+            ... on AccountWithHost {
+              bankTransfersHostFeePercent: hostFeePercent(paymentMethodType: MANUAL)
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const transactionsImportRuleProcessOrderMutation = gql`
+  mutation TransactionsImportRuleProcessOrder($order: OrderUpdateInput!) {
+    processPendingOrder(order: $order, action: MARK_AS_PAID) {
+      id
+      status
+    }
+  }
+`;
+
+export const transactionsImportRuleCreateExpenseMutation = gql`
+  mutation TransactionsImportRuleCreateExpense(
+    $expense: ExpenseCreateInput!
+    $account: AccountReferenceInput!
+    $transactionsImportRow: TransactionsImportRowReferenceInput
+  ) {
+    createExpense(expense: $expense, account: $account, transactionsImportRow: $transactionsImportRow) {
+      id
+      legacyId
+    }
+  }
+`;
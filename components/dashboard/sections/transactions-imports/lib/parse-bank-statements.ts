@@ -0,0 +1,434 @@
+import { compact, uniq } from 'lodash';
+import type { IntlShape } from 'react-intl';
+
+import dayjs from '../../../../../lib/dayjs';
+import type { Currency, TransactionsImportRowCreateInput } from '../../../../../lib/graphql/types/v2/graphql';
+
+import type { BankStatementFormat } from './types';
+
+type BankStatementRow = TransactionsImportRowCreateInput & {
+  rawValue: Record<string, string>;
+};
+
+const cleanText = (str: string | null | undefined): string => {
+  return str ? str.replace(/[\n\t\r\s]+/g, ' ').trim() : '';
+};
+
+/**
+ * Converts a decimal string (e.g. `-12.34` or `12,34`) to a signed number of cents.
+ */
+const parseDecimalToCents = (value: string): number => {
+  const normalized = value.trim().replace(/\s/g, '').replace(',', '.');
+  return Math.round(parseFloat(normalized) * 100);
+};
+
+/**
+ * Builds the `rawValue` stored with the row, dropping the empty values so that they don't
+ * clutter the row details.
+ */
+const buildRawValue = (values: Record<string, string | null | undefined>): Record<string, string> => {
+  return Object.entries(values).reduce((result, [key, value]) => {
+    const cleanValue = cleanText(value);
+    if (cleanValue) {
+      result[key] = cleanValue;
+    }
+    return result;
+  }, {});
+};
+
+/**
+ * Some banks re-use the same reference for multiple entries. This makes sure every row of a statement
+ * gets a unique source id by suffixing the duplicates.
+ */
+const deduplicateSourceIds = (rows: BankStatementRow[]): BankStatementRow[] => {
+  const counts: Record<string, number> = {};
+  return rows.map(row => {
+    counts[row.sourceId] = (counts[row.sourceId] || 0) + 1;
+    if (counts[row.sourceId] === 1) {
+      return row;
+    } else {
+      return { ...row, sourceId: `${row.sourceId}|${counts[row.sourceId]}` };
+    }
+  });
+};
+
+// ---- OFX / QFX ----
+
+/**
+ * Returns the value of an OFX tag. Works with both OFX 1.x (SGML, where closing tags are optional)
+ * and OFX 2.x (XML).
+ */
+const getOFXTagValue = (content: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(content);
+  return match ? match[1].trim() : undefined;
+};
+
+const getOFXAggregate = (content: string, tag: string): string => {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i').exec(content);
+  return match ? match[1] : '';
+};
+
+/**
+ * OFX dates are formatted as `YYYYMMDDHHMMSS.XXX[gmt offset:tz name]`, with everything after the day being optional.
+ */
+const parseOFXDate = (value: string | undefined): dayjs.Dayjs | null => {
+  const match = value && /^(\d{8})(\d{6})?/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const offsetMatch = /\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\]/.exec(value);
+  const format = match[2] ? 'YYYYMMDDHHmmss' : 'YYYYMMDD';
+  const date = dayjs.utc(`${match[1]}${match[2] || ''}`, format, true);
+  if (!offsetMatch) {
+    return date;
+  }
+
+  // Dates are expressed in the timezone given by the offset, convert them back to UTC
+  return date.subtract(parseFloat(offsetMatch[1]) * 60, 'minute');
+};
+
+export const parseOFXStatement = (content: string, defaultCurrency: Currency): BankStatementRow[] => {
+  const rows: BankStatementRow[] = [];
+  const statementRegex = /<(?:STMTRS|CCSTMTRS)>([\s\S]*?)<\/(?:STMTRS|CCSTMTRS)>/gi;
+  const statements = content.match(statementRegex) || [content];
+  for (const statement of statements) {
+    const currency = (getOFXTagValue(statement, 'CURDEF') as Currency) || defaultCurrency;
+    const accountId = getOFXTagValue(statement, 'ACCTID');
+    const transactions = statement.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+    for (const transaction of transactions) {
+      const amount = getOFXTagValue(transaction, 'TRNAMT');
+      const name = getOFXTagValue(transaction, 'NAME') || getOFXTagValue(transaction, 'PAYEEID');
+      const memo = getOFXTagValue(transaction, 'MEMO');
+      const fitId = getOFXTagValue(transaction, 'FITID');
+      const datePosted = parseOFXDate(getOFXTagValue(transaction, 'DTPOSTED'));
+      const valueInCents = amount ? parseDecimalToCents(amount) : null;
+      rows.push({
+        sourceId: fitId || `${datePosted?.toISOString()}|${valueInCents}|${currency}`,
+        description: cleanText(compact(uniq([name, memo])).join(' - ')),
+        date: datePosted,
+        amount: { valueInCents, currency: (getOFXTagValue(transaction, 'CURRENCY') as Currency) || currency },
+        rawValue: buildRawValue({
+          transactionType: getOFXTagValue(transaction, 'TRNTYPE'),
+          counterpartyName: name,
+          counterpartyAccount: getOFXTagValue(getOFXAggregate(transaction, 'BANKACCTTO'), 'ACCTID'),
+          memo,
+          reference: getOFXTagValue(transaction, 'REFNUM'),
+          checkNumber: getOFXTagValue(transaction, 'CHECKNUM'),
+          bankReference: fitId,
+          account: accountId,
+        }),
+      });
+    }
+  }
+
+  return deduplicateSourceIds(rows);
+};
+
+// ---- ISO 20022 CAMT.053 ----
+
+/**
+ * Returns the first descendant matching the given path of local names, ignoring XML namespaces.
+ */
+const findXMLElement = (root: Element | null | undefined, path: string): Element | null => {
+  let current: Element | null | undefined = root;
+  for (const name of path.split('/')) {
+    if (!current) {
+      return null;
+    }
+    current = Array.from(current.children).find(child => child.localName === name);
+  }
+
+  return current || null;
+};
+
+const getXMLText = (root: Element | null | undefined, ...paths: string[]): string | undefined => {
+  for (const path of paths) {
+    const text = findXMLElement(root, path)?.textContent;
+    if (text?.trim()) {
+      return text.trim();
+    }
+  }
+};
+
+const getXMLChildren = (root: Element | null | undefined, name: string): Element[] => {
+  return root ? Array.from(root.children).filter(child => child.localName === name) : [];
+};
+
+export const parseCAMT053Statement = (content: string, defaultCurrency: Currency): BankStatementRow[] => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length) {
+    throw new Error('Invalid XML');
+  }
+
+  const rows: BankStatementRow[] = [];
+  const statements = Array.from(document.getElementsByTagNameNS('*', 'Stmt'));
+  for (const statement of statements) {
+    const accountIban = getXMLText(statement, 'Acct/Id/IBAN', 'Acct/Id/Othr/Id');
+    const accountCurrency = getXMLText(statement, 'Acct/Ccy') as Currency;
+    for (const entry of getXMLChildren(statement, 'Ntry')) {
+      const amountElement = findXMLElement(entry, 'Amt');
+      const isDebit = getXMLText(entry, 'CdtDbtInd') === 'DBIT';
+      const currency = (amountElement?.getAttribute('Ccy') as Currency) || accountCurrency || defaultCurrency;
+      const absoluteValue = amountElement ? Math.abs(parseDecimalToCents(amountElement.textContent)) : null;
+      const valueInCents = absoluteValue === null ? null : isDebit ? -absoluteValue : absoluteValue;
+      const date = getXMLText(entry, 'BookgDt/DtTm', 'BookgDt/Dt', 'ValDt/DtTm', 'ValDt/Dt');
+      const entryReference = getXMLText(entry, 'AcctSvcrRef', 'NtryRef');
+      const transactionDetails = getXMLChildren(findXMLElement(entry, 'NtryDtls'), 'TxDtls');
+
+      // An entry can be a batch of multiple transactions. In that case, we import each transaction separately.
+      const details = transactionDetails.length > 1 ? transactionDetails : [transactionDetails[0]];
+      details.forEach((transaction, index) => {
+        const isBatchItem = details.length > 1;
+        const transactionAmount = isBatchItem ? findXMLElement(transaction, 'Amt') : null;
+        const transactionIsDebit = isBatchItem
+          ? (getXMLText(transaction, 'CdtDbtInd') || getXMLText(entry, 'CdtDbtInd')) === 'DBIT'
+          : isDebit;
+        const transactionValueInCents = transactionAmount
+          ? Math.abs(parseDecimalToCents(transactionAmount.textContent)) * (transactionIsDebit ? -1 : 1)
+          : valueInCents;
+
+        // The counterparty is the creditor for outgoing payments, the debtor for incoming ones
+        const counterpartyRole = transactionIsDebit ? 'Cdtr' : 'Dbtr';
+        const counterpartyName = getXMLText(
+          transaction,
+          `RltdPties/${counterpartyRole}/Nm`,
+          `RltdPties/${counterpartyRole}/Pty/Nm`,
+        );
+        const remittanceInformation = getXMLChildren(findXMLElement(transaction, 'RmtInf'), 'Ustrd')
+          .map(element => element.textContent)
+          .join(' ');
+        const endToEndId = getXMLText(transaction, 'Refs/EndToEndId');
+        const transactionReference = getXMLText(transaction, 'Refs/AcctSvcrRef', 'Refs/TxId');
+        const additionalInfo = getXMLText(transaction, 'AddtlTxInf') || getXMLText(entry, 'AddtlNtryInf');
+        const sourceId =
+          (isBatchItem && transactionReference) ||
+          (entryReference && (isBatchItem ? `${entryReference}|${index + 1}` : entryReference)) ||
+          transactionReference ||
+          (endToEndId !== 'NOTPROVIDED' && endToEndId) ||
+          `${date}|${transactionValueInCents}|${currency}`;
+
+        rows.push({
+          sourceId,
+          description: cleanText(remittanceInformation || additionalInfo || counterpartyName),
+          date: date ? dayjs.utc(date) : null,
+          amount: {
+            valueInCents: transactionValueInCents,
+            currency: (transactionAmount?.getAttribute('Ccy') as Currency) || currency,
+          },
+          rawValue: buildRawValue({
+            counterpartyName,
+            counterpartyAccount: getXMLText(
+              transaction,
+              `RltdPties/${counterpartyRole}Acct/Id/IBAN`,
+              `RltdPties/${counterpartyRole}Acct/Id/Othr/Id`,
+            ),
+            counterpartyBic: getXMLText(
+              transaction,
+              `RltdAgts/${counterpartyRole}Agt/FinInstnId/BIC`,
+              `RltdAgts/${counterpartyRole}Agt/FinInstnId/BICFI`,
+            ),
+            remittanceInformation,
+            reference: getXMLText(transaction, 'RmtInf/Strd/CdtrRefInf/Ref'),
+            endToEndId: endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+            bankReference: transactionReference || entryReference,
+            valueDate: getXMLText(entry, 'ValDt/Dt', 'ValDt/DtTm'),
+            bankTransactionCode: getXMLText(entry, 'BkTxCd/Prtry/Cd', 'BkTxCd/Domn/Fmly/SubFmlyCd'),
+            additionalInfo,
+            isReversal: getXMLText(entry, 'RvslInd') === 'true' ? 'true' : undefined,
+            account: accountIban,
+          }),
+        });
+      });
+    }
+  }
+
+  return deduplicateSourceIds(rows);
+};
+
+// ---- SWIFT MT940 ----
+
+/**
+ * Splits an MT940 file into its `:XX:` fields, keeping multi-line values together.
+ */
+const splitMT940Fields = (content: string): Array<{ tag: string; value: string }> => {
+  const fields = [];
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length && line.trim() && line.trim() !== '-' && !line.startsWith('{')) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return fields;
+};
+
+/**
+ * Parses the `:86:` information field. Many European banks use a structured format where
+ * subfields are prefixed by `?XX` (e.g. `?20` to `?29` for the purpose, `?32`/`?33` for the counterparty name).
+ */
+const parseMT940Information = (value: string) => {
+  const text = value.replace(/\r?\n/g, '');
+  if (!/^\d{3}\?\d{2}/.test(text) && !/^\?\d{2}/.test(text)) {
+    return { description: value };
+  }
+
+  const subfields: Record<string, string> = {};
+  for (const match of Array.from(text.matchAll(/\?(\d{2})([^?]*)/g))) {
+    subfields[match[1]] = (subfields[match[1]] || '') + match[2];
+  }
+
+  const getRange = (start: number, end: number) => {
+    const values = [];
+    for (let idx = start; idx <= end; idx++) {
+      values.push(subfields[idx.toString().padStart(2, '0')]);
+    }
+    return compact(values).join('');
+  };
+
+  return {
+    description: getRange(20, 29) || getRange(60, 63),
+    transactionType: subfields['00'],
+    counterpartyBic: subfields['30'],
+    counterpartyAccount: subfields['31'],
+    counterpartyName: getRange(32, 33),
+  };
+};
+
+export const parseMT940Statement = (content: string, defaultCurrency: Currency): BankStatementRow[] => {
+  const rows: BankStatementRow[] = [];
+  let account: string;
+  let currency = defaultCurrency;
+  for (const { tag, value } of splitMT940Fields(content)) {
+    if (tag === '25') {
+      account = value.trim();
+    } else if (tag === '60F' || tag === '60M') {
+      // Opening balance, e.g. C230101EUR1234,56
+      currency = (/^[CD]\d{6}([A-Z]{3})/.exec(value)?.[1] as Currency) || currency;
+    } else if (tag === '61') {
+      // Statement line: YYMMDD[MMDD](C|D|RC|RD)[funds code]amount(N|F|S)XXX(reference)[//bank reference][\nsupplementary details]
+      const [firstLine, ...supplementaryLines] = value.split('\n');
+      const match = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/.exec(
+        firstLine,
+      );
+      if (!match) {
+        continue;
+      }
+
+      const [, valueDate, , mark, , amount, transactionType, customerReference, bankReference] = match;
+      const isDebit = mark === 'D' || mark === 'RC';
+      const valueInCents = Math.abs(parseDecimalToCents(amount)) * (isDebit ? -1 : 1);
+      const date = dayjs.utc(valueDate, 'YYMMDD', true);
+      const reference = customerReference.trim() !== 'NONREF' ? customerReference.trim() : undefined;
+      rows.push({
+        sourceId: bankReference?.trim() || reference || `${date.toISOString()}|${valueInCents}|${currency}`,
+        description: '',
+        date,
+        amount: { valueInCents, currency },
+        rawValue: buildRawValue({
+          transactionType,
+          reference,
+          bankReference: bankReference?.trim(),
+          supplementaryDetails: supplementaryLines.join(' '),
+          account,
+        }),
+      });
+    } else if (tag === '86' && rows.length) {
+      // Information to account owner, always refers to the previous statement line
+      const lastRow = rows[rows.length - 1];
+      const { description, ...information } = parseMT940Information(value);
+      lastRow.description = cleanText(description);
+      lastRow.rawValue = buildRawValue({ ...lastRow.rawValue, ...information, information: value });
+      if (!lastRow.description && lastRow.rawValue.counterpartyName) {
+        lastRow.description = lastRow.rawValue.counterpartyName;
+      }
+    }
+  }
+
+  return deduplicateSourceIds(rows);
+};
+
+// ---- Format detection ----
+
+/**
+ * Guesses the format of a bank statement from its content, falling back on the file extension.
+ * Returns `null` for CSV files.
+ */
+export const getBankStatementFormat = (fileName: string, content: string): BankStatementFormat | null => {
+  const head = content.slice(0, 2000);
+  if (/<OFX>|OFXHEADER/i.test(head)) {
+    return 'OFX';
+  } else if (/camt\.053/i.test(head) || (head.includes('<BkToCstmrStmt>') && head.startsWith('<?xml'))) {
+    return 'CAMT.053';
+  } else if (/^\s*(?:\{1:[^}]*\}.*)?:20:/s.test(head) && /^:61:/m.test(content)) {
+    return 'MT940';
+  }
+
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (['ofx', 'qfx'].includes(extension)) {
+    return 'OFX';
+  } else if (['sta', 'mt940', '940'].includes(extension)) {
+    return 'MT940';
+  }
+
+  return null;
+};
+
+const BANK_STATEMENT_PARSERS: Record<
+  BankStatementFormat,
+  (content: string, defaultCurrency: Currency) => BankStatementRow[]
+> = {
+  OFX: parseOFXStatement,
+  'CAMT.053': parseCAMT053Statement,
+  MT940: parseMT940Statement,
+};
+
+export const parseBankStatement = (
+  format: BankStatementFormat,
+  content: string,
+  defaultCurrency: Currency,
+): BankStatementRow[] => {
+  return BANK_STATEMENT_PARSERS[format](content, defaultCurrency);
+};
+
+export const readTransactionsFile = (file: File): Promise<string> => {
+  const reader = new FileReader();
+  return new Promise((resolve, reject) => {
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+};
+
+export const parseBankStatementFile = async (
+  file: File,
+  format: BankStatementFormat,
+  defaultCurrency: Currency,
+  intl: IntlShape,
+): Promise<{ format: BankStatementFormat; rows: BankStatementRow[] }> => {
+  let content: string;
+  try {
+    content = await readTransactionsFile(file);
+  } catch {
+    throw intl.formatMessage({ defaultMessage: 'Could not read the file. Please try again.', id: 'ztVqtF' });
+  }
+
+  try {
+    const rows = parseBankStatement(format, content, defaultCurrency);
+    if (rows.some(row => !row.date?.isValid() || !Number.isFinite(row.amount.valueInCents))) {
+      throw new Error('Invalid row');
+    }
+
+    return { format, rows };
+  } catch {
+    throw intl.formatMessage(
+      {
+        defaultMessage: 'Could not parse the {format} file. Please make sure it is correctly formatted.',
+        id: 'ryz0Xm',
+      },
+      { format },
+    );
+  }
+};
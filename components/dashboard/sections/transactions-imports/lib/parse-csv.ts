@@ -1,49 +1,57 @@
 import { parse as parseCSV } from 'csv-parse/sync';
-import { deburr, uniq, words } from 'lodash';
+import { deburr, pick, uniq, words } from 'lodash';
 import type { IntlShape } from 'react-intl';
 
 import dayjs from '../../../../../lib/dayjs';
-import type { Currency, TransactionsImportRowCreateInput } from '../../../../../lib/graphql/types/v2/graphql';
+import type { TransactionsImportRowCreateInput } from '../../../../../lib/graphql/types/v2/graphql';
+import { Currency } from '../../../../../lib/graphql/types/v2/graphql';
 import { toNegative } from '../../../../../lib/math';
 
 import type { CSVConfig } from './types';
 import { ACCEPTED_DATE_FORMATS, ACCEPTED_NUMBER_FORMATS, CSV_DELIMITERS } from './types';
 
+const CURRENCY_CODES = new Set<string>(Object.values(Currency));
+
+/**
+ * Checks that the currency is a valid ISO 4217 code supported by the platform.
+ */
+export const isValidCurrencyCode = (currency: string | null | undefined): currency is Currency => {
+  return CURRENCY_CODES.has(currency);
+};
+
+/** Negative amounts are either prefixed with a minus sign (possibly after the currency) or in parentheses */
+const isNegativeAmount = (amountInput: string): boolean => {
+  return /^[^\d]*-/.test(amountInput) || /\(\s*[\d.,\s]+\)/.test(amountInput);
+};
+
+/**
+ * Parses an amount like `-1,000.00`, `(12.50)`, `1.000,00 EUR` or `USD 12`. The currency is only taken from an
+ * ISO 4217 code in the value (symbols are ignored), otherwise it defaults to `defaultCurrency`.
+ */
 const parseAmount = (
   amountInput: string,
   format: (typeof ACCEPTED_NUMBER_FORMATS)[number],
   defaultCurrency: Currency,
-) => {
+): { valueInCents: number; currency: string } | null => {
   if (!amountInput) {
     return null;
   }
 
+  const currency = /[A-Z]{3}/.exec(amountInput)?.[0];
+  let numberStr = amountInput.replace(/[^\d.,]/g, '');
   if (format === '1.000,00') {
-    amountInput = amountInput.replace(/\./g, '').replace(',', '.');
-  }
-
-  const currencyRegex = /[A-Z]{3}/;
-  let currency = currencyRegex.exec(amountInput)?.[0];
-  let valueInCents = Math.abs(parseFloat(amountInput) * 100);
-  if (!currency) {
-    if (amountInput.startsWith('$')) {
-      currency = 'USD';
-    } else if (amountInput.startsWith('€')) {
-      currency = 'EUR';
-    } else if (amountInput.startsWith('£')) {
-      currency = 'GBP';
-    } else if (amountInput.startsWith('¥')) {
-      currency = 'JPY';
-    }
+    numberStr = numberStr.replace(/\./g, '').replace(',', '.');
+  } else {
+    numberStr = numberStr.replace(/,/g, '');
   }
 
-  // Handle sign
-  if (amountInput.startsWith('-')) {
-    valueInCents *= -1;
+  const value = parseFloat(numberStr);
+  if (isNaN(value)) {
+    return null;
   }
 
   return {
-    valueInCents: Math.round(valueInCents),
+    valueInCents: Math.round(isNegativeAmount(amountInput) ? -value * 100 : value * 100),
     currency: currency || defaultCurrency,
   };
 };
@@ -95,6 +103,12 @@ const DESCRIPTION_ALIASES = [
   'content',
 ];
 
+const CURRENCY_ALIASES = ['currency', 'ccy', 'cur', 'iso'];
+
+const FEE_ALIASES = ['fee', 'fees', 'commission', 'charge', 'charges'];
+
+const REFERENCE_ALIASES = ['reference', 'ref', 'fitid', 'uuid'];
+
 const guessDateFormat = (dateStr: string): (typeof ACCEPTED_DATE_FORMATS)[number] | undefined => {
   for (const format of ACCEPTED_DATE_FORMATS) {
     if (dayjs(dateStr, format, true).isValid()) {
@@ -164,21 +178,31 @@ export const guessCSVColumnsConfig = (
     for (const column of Object.keys(data[0])) {
       const columnWords = words(deburr(column).toLowerCase());
       const matchAlias = (aliases: string[]) => aliases.some(alias => columnWords.includes(alias));
+      const isFeeColumn = matchAlias(FEE_ALIASES);
       if (!config.date.target && matchAlias(DATE_ALIASES)) {
         config.date.target = column;
         config.date.format = guessDateFormat(data[0][column]);
       }
-      if (!config.credit.target && matchAlias(CREDIT_ALIASES)) {
+      if (!config.credit.target && !isFeeColumn && matchAlias(CREDIT_ALIASES)) {
         config.credit.target = column;
         config.credit.format = guessNumberFormat(data[0][column]);
       }
-      if (!config.debit.target && matchAlias(DEBIT_ALIASES)) {
+      if (!config.debit.target && !isFeeColumn && matchAlias(DEBIT_ALIASES)) {
         config.debit.target = column;
         config.debit.format = guessNumberFormat(data[0][column]);
       }
       if (!config.description.target && matchAlias(DESCRIPTION_ALIASES)) {
         config.description.target = column;
       }
+      if (!config.currency && matchAlias(CURRENCY_ALIASES)) {
+        config.currency = { target: column };
+      }
+      if (!config.fee && isFeeColumn) {
+        config.fee = { target: column, format: guessNumberFormat(data[0][column]) };
+      }
+      if (!config.reference && matchAlias(REFERENCE_ALIASES)) {
+        config.reference = { target: column };
+      }
     }
   }
 
@@ -190,6 +214,10 @@ export const getDefaultCSVConfig = (currency: Currency): CSVConfig => ({
   columns: guessCSVColumnsConfig([], currency),
 });
 
+const formatAmountForRawValue = (valueInCents: number, currency: string): string => {
+  return `${(valueInCents / 100).toFixed(2)} ${currency}`;
+};
+
 const cleanDescription = str => {
   if (!str) {
     return '';
@@ -198,6 +226,13 @@ const cleanDescription = str => {
   }
 };
 
+/**
+ * Returns the columns used by the mapping, to always keep them in the row `rawValue`.
+ */
+const getMappedColumns = (columnsConfig: CSVConfig['columns']): string[] => {
+  return uniq(Object.values(columnsConfig).map(columnConfig => columnConfig?.target)).filter(Boolean);
+};
+
 export const applyCSVConfig = (row: Record<string, string>, csvConfig: CSVConfig): TransactionsImportRowCreateInput => {
   const columnsConfig = csvConfig.columns;
   const amountColumns = uniq([columnsConfig.credit.target, columnsConfig.debit.target]).filter(Boolean);
@@ -207,8 +242,7 @@ export const applyCSVConfig = (row: Record<string, string>, csvConfig: CSVConfig
   if (amountColumns.length === 1) {
     // Credit/debit point to the same column, we'll use the sign to determine the amount
     const rawValue = row[amountColumns[0]].trim();
-    const isNegative = rawValue.startsWith('-');
-    const amountConfig = isNegative ? columnsConfig.debit : columnsConfig.credit;
+    const amountConfig = isNegativeAmount(rawValue) ? columnsConfig.debit : columnsConfig.credit;
     amount = parseAmount(rawValue, amountConfig.format, amountConfig.currency);
   } else {
     // Split Debit/Credit columns
@@ -227,9 +261,26 @@ export const applyCSVConfig = (row: Record<string, string>, csvConfig: CSVConfig
     }
   }
 
+  // A dedicated currency column takes precedence over the currency of the amount columns
+  const currencyFromColumn = columnsConfig.currency?.target && row[columnsConfig.currency.target]?.trim();
+  if (amount && currencyFromColumn) {
+    amount.currency = currencyFromColumn.toUpperCase();
+  }
+
+  const rawValue = csvConfig.extraColumns
+    ? pick(row, [...getMappedColumns(columnsConfig), ...csvConfig.extraColumns])
+    : { ...row };
+  if (columnsConfig.fee?.target && amount) {
+    const fee = parseAmount(row[columnsConfig.fee.target]?.trim(), columnsConfig.fee.format, amount.currency);
+    if (fee?.valueInCents) {
+      rawValue['fee'] = formatAmountForRawValue(Math.abs(fee.valueInCents), amount.currency);
+    }
+  }
+
+  const reference = columnsConfig.reference?.target && row[columnsConfig.reference.target]?.trim();
   return {
-    rawValue: row,
-    sourceId: `${row[columnsConfig.date.target]}|${amount?.valueInCents}|${amount?.currency}`,
+    rawValue,
+    sourceId: reference || `${row[columnsConfig.date.target]}|${amount?.valueInCents}|${amount?.currency}`,
     description: cleanDescription(row[columnsConfig.description.target]),
     date: dayjs(row[columnsConfig.date.target], columnsConfig.date.format),
     amount,
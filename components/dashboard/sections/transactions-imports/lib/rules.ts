@@ -0,0 +1,158 @@
+import { useMutation } from '@apollo/client';
+import { deburr } from 'lodash';
+
+import dayjs from '../../../../../lib/dayjs';
+import { API_V2_CONTEXT } from '../../../../../lib/graphql/helpers';
+import type { Account, Order, TransactionsImportRow } from '../../../../../lib/graphql/types/v2/graphql';
+
+import { editTransactionsImportsSettingsMutation } from './graphql';
+import type { TransactionsImportRule, TransactionsImportRuleCondition } from './types';
+
+const SETTINGS_KEY = 'transactionsImportsRules';
+
+type RuleRow = Pick<TransactionsImportRow, 'id' | 'date' | 'description' | 'amount' | 'isDismissed'> & {
+  expense?: unknown;
+  order?: unknown;
+};
+
+type ExpectedFunds = Pick<Order, 'id' | 'totalAmount' | 'pendingContributionData'> & { tax?: unknown };
+
+export type RuleMatch = {
+  row: RuleRow;
+  rule: TransactionsImportRule;
+  /** For `MATCH_EXPECTED_FUNDS`, the expected funds that will be marked as received */
+  expectedFunds?: ExpectedFunds;
+};
+
+const normalizeText = (str: string | null | undefined): string => deburr(str || '').toLowerCase();
+
+export const getConditionByType = <T extends TransactionsImportRuleCondition['type']>(
+  rule: TransactionsImportRule,
+  type: T,
+): Extract<TransactionsImportRuleCondition, { type: T }> | undefined => {
+  return rule.conditions.find(condition => condition.type === type) as Extract<
+    TransactionsImportRuleCondition,
+    { type: T }
+  >;
+};
+
+/**
+ * Only rows that have not been processed or dismissed yet can be handled by rules.
+ */
+export const isRowPendingProcessing = (row: RuleRow): boolean => {
+  return !row.isDismissed && !row.expense && !row.order;
+};
+
+/**
+ * Checks the row-level conditions of a rule. `DATE_WITHIN_DAYS` is not checked here, since it
+ * compares the row with the expected funds (see `findExpectedFundsForRow`).
+ */
+export const rowMatchesRuleConditions = (row: RuleRow, rule: TransactionsImportRule): boolean => {
+  // Expected funds are incoming money, expenses are outgoing money
+  if (rule.action.type === 'MATCH_EXPECTED_FUNDS' && row.amount.valueInCents <= 0) {
+    return false;
+  } else if (rule.action.type === 'CREATE_EXPENSE' && row.amount.valueInCents >= 0) {
+    return false;
+  }
+
+  return rule.conditions.every(condition => {
+    switch (condition.type) {
+      case 'DESCRIPTION_CONTAINS':
+        return normalizeText(row.description).includes(normalizeText(condition.value));
+      case 'AMOUNT_EQUALS':
+        return Math.abs(row.amount.valueInCents) === Math.abs(condition.valueInCents);
+      default:
+        return true;
+    }
+  });
+};
+
+/**
+ * Looks for a single expected funds with the same amount as the row. If multiple expected funds match,
+ * we can't decide automatically and return `null`. Contributions with taxes are ignored, as the tax amount
+ * needs to be reviewed manually.
+ */
+export const findExpectedFundsForRow = (
+  row: RuleRow,
+  rule: TransactionsImportRule,
+  expectedFunds: ExpectedFunds[],
+  excludedIds: Set<string> = new Set(),
+): ExpectedFunds | null => {
+  const dateCondition = getConditionByType(rule, 'DATE_WITHIN_DAYS');
+  const candidates = expectedFunds.filter(order => {
+    if (excludedIds.has(order.id) || order.tax) {
+      return false;
+    } else if (
+      order.totalAmount.valueInCents !== row.amount.valueInCents ||
+      order.totalAmount.currency !== row.amount.currency
+    ) {
+      return false;
+    } else if (dateCondition) {
+      const expectedAt = order.pendingContributionData?.expectedAt;
+      return Boolean(expectedAt) && Math.abs(dayjs(row.date).diff(expectedAt, 'day', true)) <= dateCondition.days;
+    }
+
+    return true;
+  });
+
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+/**
+ * Dry-run: returns the rows that would be processed by the given rules, without applying anything.
+ * Rules are evaluated in order, and each row is only matched by the first applicable rule.
+ */
+export const getRulesMatches = (
+  rules: TransactionsImportRule[],
+  rows: RuleRow[],
+  expectedFunds: ExpectedFunds[] = [],
+): RuleMatch[] => {
+  const matches: RuleMatch[] = [];
+  const claimedExpectedFunds = new Set<string>();
+  for (const row of rows.filter(isRowPendingProcessing)) {
+    for (const rule of rules) {
+      if (!rowMatchesRuleConditions(row, rule)) {
+        continue;
+      } else if (rule.action.type === 'MATCH_EXPECTED_FUNDS') {
+        const matchingExpectedFunds = findExpectedFundsForRow(row, rule, expectedFunds, claimedExpectedFunds);
+        if (!matchingExpectedFunds) {
+          continue;
+        }
+
+        claimedExpectedFunds.add(matchingExpectedFunds.id);
+        matches.push({ row, rule, expectedFunds: matchingExpectedFunds });
+      } else {
+        matches.push({ row, rule });
+      }
+
+      break;
+    }
+  }
+
+  return matches;
+};
+
+export const getTransactionsImportRules = (
+  account: Pick<Account, 'settings'> | null | undefined,
+): TransactionsImportRule[] => {
+  return account?.settings?.[SETTINGS_KEY] || [];
+};
+
+export const useTransactionsImportRules = (account: Pick<Account, 'slug' | 'settings'>) => {
+  const [editSetting, { loading }] = useMutation(editTransactionsImportsSettingsMutation, {
+    context: API_V2_CONTEXT,
+  });
+  const rules = getTransactionsImportRules(account);
+  const saveRules = (newRules: TransactionsImportRule[]) =>
+    editSetting({ variables: { account: { slug: account.slug }, key: SETTINGS_KEY, value: newRules } });
+
+  return {
+    rules,
+    loading,
+    saveRule: (rule: TransactionsImportRule) => {
+      const existingIndex = rules.findIndex(({ id }) => id === rule.id);
+      return saveRules(existingIndex === -1 ? [...rules, rule] : rules.map(r => (r.id === rule.id ? rule : r)));
+    },
+    deleteRule: (ruleId: string) => saveRules(rules.filter(({ id }) => id !== ruleId)),
+  };
+};
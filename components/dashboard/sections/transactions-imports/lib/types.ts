@@ -1,4 +1,4 @@
-import type { Currency } from '../../../../../lib/graphql/types/v2/graphql';
+import type { Currency, ExpenseType } from '../../../../../lib/graphql/types/v2/graphql';
 
 export const ACCEPTED_DATE_FORMATS = [
   undefined, // ISO 8601
@@ -30,5 +30,65 @@ export type CSVConfig = {
     credit: AmountColumnSettings;
     debit: AmountColumnSettings;
     description: CommonColumnSettings;
+    /** A column with ISO 4217 currency codes, takes precedence over the currency of the amount columns */
+    currency?: CommonColumnSettings;
+    /** Fees charged by the bank, stored in the row `rawValue` as `fee` */
+    fee?: Omit<AmountColumnSettings, 'currency'>;
+    /** A unique reference provided by the bank, used as the row `sourceId` */
+    reference?: CommonColumnSettings;
   };
+  /**
+   * Columns to keep in the row `rawValue`, in addition to the mapped ones. If not set, all columns are kept.
+   */
+  extraColumns?: string[];
+};
+
+export const BANK_STATEMENT_FORMATS = ['OFX', 'CAMT.053', 'MT940'] as const;
+
+export type BankStatementFormat = (typeof BANK_STATEMENT_FORMATS)[number];
+
+/**
+ * A CSV mapping saved by the host to be reused for future imports from the same source.
+ * Stored in the host settings, under `transactionsImportsCSVMappings`.
+ */
+export type CSVMappingProfile = {
+  name: string;
+  source: string;
+  headers: string[];
+  csvConfig: CSVConfig;
+};
+
+type TransactionsImportRuleAccount = {
+  id: string;
+  slug: string;
+  name: string;
+  type: string;
+  imageUrl?: string;
+};
+
+export type TransactionsImportRuleCondition =
+  | { type: 'DESCRIPTION_CONTAINS'; value: string }
+  | { type: 'AMOUNT_EQUALS'; valueInCents: number }
+  /** Only for `MATCH_EXPECTED_FUNDS`: the expected date of the funds must be within N days of the row date */
+  | { type: 'DATE_WITHIN_DAYS'; days: number };
+
+export type TransactionsImportRuleAction =
+  | { type: 'MATCH_EXPECTED_FUNDS' }
+  | {
+      type: 'CREATE_EXPENSE';
+      account: TransactionsImportRuleAccount;
+      payee: TransactionsImportRuleAccount;
+      expenseType: ExpenseType;
+    }
+  | { type: 'DISMISS' };
+
+/**
+ * A rule used to process transactions import rows in bulk. Rules are stored in the host settings,
+ * under `transactionsImportsRules`, and applied in order: the first rule matching a row wins.
+ */
+export type TransactionsImportRule = {
+  id: string;
+  name: string;
+  conditions: TransactionsImportRuleCondition[];
+  action: TransactionsImportRuleAction;
 };
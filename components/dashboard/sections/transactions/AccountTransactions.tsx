@@ -7,6 +7,7 @@ import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
 
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { Button } from '../../../ui/Button';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ExportTransactionsCSVModal from '../../ExportTransactionsCSVModal';
@@ -42,6 +43,7 @@ const AccountTransactions = ({ accountSlug }: DashboardSectionProps) => {
     fetchPolicy: 'cache-first',
   });
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     toVariables,
@@ -51,6 +53,7 @@ const AccountTransactions = ({ accountSlug }: DashboardSectionProps) => {
       paymentMethodTypes: metaData?.transactions?.paymentMethodTypes,
       kinds: metaData?.transactions?.kinds,
     },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading, refetch } = useQuery(transactionsTableQuery, {
@@ -10,6 +10,7 @@ import useQueryFilter from '../../../../lib/hooks/useQueryFilter';
 
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { Button } from '../../../ui/Button';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ExportTransactionsCSVModal from '../../ExportTransactionsCSVModal';
@@ -57,6 +58,7 @@ const filters: FilterComponentConfigs<FilterValues, FilterMeta> = {
 const AllTransactions = () => {
   const [displayExportCSVModal, setDisplayExportCSVModal] = React.useState(false);
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     toVariables,
@@ -70,6 +72,7 @@ const AllTransactions = () => {
         tz: 'UTC',
       },
     },
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading, refetch } = useQuery(transactionsTableQuery, {
@@ -14,6 +14,7 @@ import { PREVIEW_FEATURE_KEYS } from '../../../../lib/preview-features';
 import Link from '../../../Link';
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { Button } from '../../../ui/Button';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ExportTransactionsCSVModal from '../../ExportTransactionsCSVModal';
@@ -112,6 +113,8 @@ const HostTransactionsBase = ({ accountSlug: hostSlug }: DashboardSectionProps)
       id: 'fiscal_host',
     },
   ];
+
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     toVariables,
@@ -123,6 +126,7 @@ const HostTransactionsBase = ({ accountSlug: hostSlug }: DashboardSectionProps)
       paymentMethodTypes: metaData?.transactions?.paymentMethodTypes,
     },
     views,
+    savedViews: savedViewsScope,
   });
 
   const { data, error, loading, refetch } = useQuery(transactionsTableQuery, {
@@ -18,7 +18,7 @@ import Link from '../../../Link';
 import MessageBoxGraphqlError from '../../../MessageBoxGraphqlError';
 import { Button } from '../../../ui/Button';
 import { Skeleton } from '../../../ui/Skeleton';
-import { DashboardContext } from '../../DashboardContext';
+import { DashboardContext, useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import { Filterbar } from '../../filters/Filterbar';
@@ -127,11 +127,13 @@ const UpdatesList = () => {
     },
   ];
 
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     views,
     filters,
     toVariables,
+    savedViews: savedViewsScope,
   });
   const {
     data,
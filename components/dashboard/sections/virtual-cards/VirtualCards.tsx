@@ -21,6 +21,7 @@ import Loading from '../../../Loading';
 import RequestVirtualCardBtn from '../../../RequestVirtualCardBtn';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '../../../ui/Accordion';
 import { Button } from '../../../ui/Button';
+import { useSavedViewsScope } from '../../DashboardContext';
 import DashboardHeader from '../../DashboardHeader';
 import { EmptyResults } from '../../EmptyResults';
 import ComboSelectFilter from '../../filters/ComboSelectFilter';
@@ -67,10 +68,12 @@ const filters: FilterComponentConfigs<FilterValues> = {
 };
 
 const VitualCards = ({ accountSlug }: DashboardSectionProps) => {
+  const savedViewsScope = useSavedViewsScope();
   const queryFilter = useQueryFilter({
     schema,
     toVariables,
     filters,
+    savedViews: savedViewsScope,
   });
   const { loading, data } = useQuery(accountVirtualCardsQuery, {
     context: API_V2_CONTEXT,
@@ -0,0 +1,307 @@
+import React from 'react';
+import { useMutation } from '@apollo/client';
+import { Plus, Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { i18nGraphqlException } from '../../../lib/errors';
+import type {
+  ContributionFlowExperiment,
+  ContributionFlowExperimentVariant,
+} from '../../../lib/experiments/contribution-flow-experiments';
+import {
+  CONTRIBUTION_FLOW_EXPERIMENTS_SETTINGS_KEY,
+  ContributionFlowExperimentType,
+  getContributionFlowExperiments,
+} from '../../../lib/experiments/contribution-flow-experiments';
+import { API_V2_CONTEXT } from '../../../lib/graphql/helpers';
+import { collectiveSettingsQuery } from '../../../lib/graphql/v1/queries';
+
+import { Button } from '../../ui/Button';
+import { Input } from '../../ui/Input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../ui/Select';
+import { Switch } from '../../ui/Switch';
+import { useToast } from '../../ui/useToast';
+import { editAccountSettingsMutation } from '../mutations';
+
+const MAX_VARIANTS = 5;
+
+/** Used in the selects, as their values must be strings */
+const DEFAULT_TIER_VALUE = 'custom';
+
+const formatPresets = (presets: number[] = []): string => presets.map(amount => amount / 100).join(', ');
+
+const parsePresets = (value: string): number[] =>
+  value
+    .split(',')
+    .map(amount => Math.round(parseFloat(amount) * 100))
+    .filter(amount => !isNaN(amount) && amount > 0);
+
+const getNewVariant = (index: number): ContributionFlowExperimentVariant => ({
+  name: index === 0 ? 'control' : `variant-${index}`,
+  weight: 1,
+});
+
+const VariantSettings = ({
+  experiment,
+  variant,
+  tiers,
+  onChange,
+  onRemove,
+}: {
+  experiment: ContributionFlowExperiment;
+  variant: ContributionFlowExperimentVariant;
+  tiers: Array<{ legacyId: number; name: string }>;
+  onChange: (variant: ContributionFlowExperimentVariant) => void;
+  onRemove: () => void;
+}) => {
+  const intl = useIntl();
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        className="w-36"
+        value={variant.name}
+        placeholder={intl.formatMessage({ id: 'Fields.name', defaultMessage: 'Name' })}
+        onChange={e => onChange({ ...variant, name: e.target.value })}
+      />
+      <Input
+        type="number"
+        className="w-20"
+        min={0}
+        value={variant.weight}
+        title={intl.formatMessage({ defaultMessage: 'Weight', id: 'zCb8fX' })}
+        onChange={e => onChange({ ...variant, weight: Math.max(0, Number(e.target.value)) })}
+      />
+      {experiment.type === ContributionFlowExperimentType.AMOUNT_PRESETS ? (
+        <Input
+          // Only parsed on blur, to let users type the separators
+          key={formatPresets(variant.presets)}
+          className="w-56"
+          defaultValue={formatPresets(variant.presets)}
+          placeholder={intl.formatMessage({ defaultMessage: 'Amounts, e.g. 5, 10, 20', id: 'DtlW48' })}
+          onBlur={e => onChange({ ...variant, presets: parsePresets(e.target.value) })}
+        />
+      ) : (
+        <Select
+          value={variant.tiersOrder?.[0] ? String(variant.tiersOrder[0]) : ''}
+          onValueChange={value =>
+            onChange({ ...variant, tiersOrder: [value === DEFAULT_TIER_VALUE ? DEFAULT_TIER_VALUE : Number(value)] })
+          }
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder={intl.formatMessage({ defaultMessage: 'Tier shown first', id: 'L2m/1S' })} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_TIER_VALUE}>
+              <FormattedMessage defaultMessage="Default contribution tier" id="QzRSDQ" />
+            </SelectItem>
+            {tiers.map(tier => (
+              <SelectItem key={tier.legacyId} value={String(tier.legacyId)}>
+                {tier.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button type="button" variant="ghost" size="icon-xs" onClick={onRemove}>
+        <Trash2 size={14} />
+      </Button>
+    </div>
+  );
+};
+
+const ExperimentSettings = ({
+  experiment,
+  tiers,
+  onChange,
+  onRemove,
+}: {
+  experiment: ContributionFlowExperiment;
+  tiers: Array<{ legacyId: number; name: string }>;
+  onChange: (experiment: ContributionFlowExperiment) => void;
+  onRemove: () => void;
+}) => {
+  const intl = useIntl();
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="w-48"
+          value={experiment.id}
+          placeholder={intl.formatMessage({ id: 'Fields.name', defaultMessage: 'Name' })}
+          onChange={e => onChange({ ...experiment, id: e.target.value })}
+        />
+        <Select
+          value={experiment.type}
+          onValueChange={(type: ContributionFlowExperimentType) =>
+            onChange({
+              ...experiment,
+              type,
+              variants: experiment.variants.map(({ name, weight }) => ({ name, weight })),
+            })
+          }
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ContributionFlowExperimentType.AMOUNT_PRESETS}>
+              <FormattedMessage defaultMessage="Suggested amounts" id="tier.presets.label" />
+            </SelectItem>
+            <SelectItem value={ContributionFlowExperimentType.TIERS_ORDER}>
+              <FormattedMessage defaultMessage="Tiers order" id="UwY3Qr" />
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        {experiment.type === ContributionFlowExperimentType.AMOUNT_PRESETS && (
+          <Select
+            value={experiment.tierId ? String(experiment.tierId) : DEFAULT_TIER_VALUE}
+            onValueChange={value =>
+              onChange({ ...experiment, tierId: value === DEFAULT_TIER_VALUE ? null : Number(value) })
+            }
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_TIER_VALUE}>
+                <FormattedMessage defaultMessage="Default contribution tier" id="QzRSDQ" />
+              </SelectItem>
+              {tiers.map(tier => (
+                <SelectItem key={tier.legacyId} value={String(tier.legacyId)}>
+                  {tier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={experiment.isActive} onCheckedChange={isActive => onChange({ ...experiment, isActive })} />
+          <FormattedMessage id="Subscriptions.Active" defaultMessage="Active" />
+        </label>
+        <Button type="button" variant="ghost" size="icon-xs" className="ml-auto" onClick={onRemove}>
+          <Trash2 size={14} />
+        </Button>
+      </div>
+      <div className="space-y-2">
+        {experiment.variants.map((variant, index) => (
+          <VariantSettings
+            // eslint-disable-next-line react/no-array-index-key
+            key={index}
+            experiment={experiment}
+            variant={variant}
+            tiers={tiers}
+            onChange={variant =>
+              onChange({ ...experiment, variants: experiment.variants.map((v, i) => (i === index ? variant : v)) })
+            }
+            onRemove={() => onChange({ ...experiment, variants: experiment.variants.filter((_, i) => i !== index) })}
+          />
+        ))}
+        {experiment.variants.length < MAX_VARIANTS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="xs"
+            className="gap-1"
+            onClick={() =>
+              onChange({ ...experiment, variants: [...experiment.variants, getNewVariant(experiment.variants.length)] })
+            }
+          >
+            <Plus size={14} />
+            <FormattedMessage defaultMessage="Add a variant" id="M1mJZB" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lets collective admins run A/B tests on the amounts suggested in the contribution flow and on the order of the
+ * tiers. See `lib/experiments/contribution-flow-experiments`.
+ */
+export const ContributionFlowExperimentsSettings = ({
+  collective,
+  tiers,
+}: {
+  collective: { id: number; slug: string; settings?: Record<string, unknown> };
+  tiers: Array<{ legacyId: number; name: string }>;
+}) => {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [experiments, setExperiments] = React.useState(() => getContributionFlowExperiments(collective));
+  const [editSettings, { loading }] = useMutation(editAccountSettingsMutation, {
+    context: API_V2_CONTEXT,
+    refetchQueries: [{ query: collectiveSettingsQuery, variables: { slug: collective.slug } }],
+    awaitRefetchQueries: true,
+  });
+
+  const save = async () => {
+    try {
+      await editSettings({
+        variables: {
+          account: { legacyId: collective.id },
+          key: CONTRIBUTION_FLOW_EXPERIMENTS_SETTINGS_KEY,
+          value: experiments.filter(experiment => experiment.id.trim() && experiment.variants.length),
+        },
+      });
+      toast({
+        variant: 'success',
+        message: intl.formatMessage({ id: 'Settings.Updated', defaultMessage: 'Settings updated.' }),
+      });
+    } catch (e) {
+      toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-bold">
+          <FormattedMessage defaultMessage="Contribution flow experiments" id="EVjcWA" />
+        </p>
+        <p className="mt-1 text-sm text-slate-700">
+          <FormattedMessage
+            defaultMessage="Compare different suggested amounts or tier orders. Each visitor sees one of the variants, according to their weights, and keeps seeing the same one on their next visits. Only the first active experiment of each kind is applied. Admins always see the default order of the tiers."
+            id="xRUC2E"
+          />
+        </p>
+      </div>
+      {experiments.map((experiment, index) => (
+        <ExperimentSettings
+          // eslint-disable-next-line react/no-array-index-key
+          key={index}
+          experiment={experiment}
+          tiers={tiers}
+          onChange={experiment => setExperiments(experiments.map((e, i) => (i === index ? experiment : e)))}
+          onRemove={() => setExperiments(experiments.filter((_, i) => i !== index))}
+        />
+      ))}
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="xs"
+          className="gap-1"
+          onClick={() =>
+            setExperiments([
+              ...experiments,
+              {
+                id: `experiment-${experiments.length + 1}`,
+                type: ContributionFlowExperimentType.AMOUNT_PRESETS,
+                isActive: false,
+                tierId: null,
+                variants: [getNewVariant(0), getNewVariant(1)],
+              },
+            ])
+          }
+        >
+          <Plus size={14} />
+          <FormattedMessage defaultMessage="Add an experiment" id="q7naiy" />
+        </Button>
+        <Button type="button" size="xs" loading={loading} onClick={save}>
+          <FormattedMessage id="save" defaultMessage="Save" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FormattedMessage } from 'react-intl';
+
+import type { DuplicateExpensesSettings as DuplicateExpensesSettingsValue } from '../../../lib/expenses/related-expenses';
+import { RELATED_EXPENSE_MIN_SCORE } from '../../../lib/expenses/related-expenses';
+
+import { Checkbox } from '../../ui/Checkbox';
+import { Input } from '../../ui/Input';
+import { Label } from '../../ui/Label';
+
+const DEFAULT_BLOCK_THRESHOLD = 90;
+
+/**
+ * Lets hosts block the submission of expenses that are too similar to an existing one. See
+ * `lib/expenses/related-expenses`.
+ */
+export const DuplicateExpensesSettings = ({
+  value,
+  onChange,
+}: {
+  value: DuplicateExpensesSettingsValue;
+  onChange: (value: DuplicateExpensesSettingsValue) => void;
+}) => {
+  const blockThreshold = value?.blockThreshold;
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        <FormattedMessage
+          defaultMessage="Reviewers see the expenses that look like duplicates, scored by payee, amount, dates, attachments and description. You can also block the submission of new expenses that are too similar to an existing one: submitters are then asked to contact you."
+          id="iO7ppx"
+        />
+      </p>
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="duplicate-expenses-block"
+          checked={Boolean(blockThreshold)}
+          onCheckedChange={checked => onChange({ ...value, blockThreshold: checked ? DEFAULT_BLOCK_THRESHOLD : null })}
+        />
+        <Label htmlFor="duplicate-expenses-block">
+          <FormattedMessage defaultMessage="Block the submission of likely duplicates" id="+j4BHH" />
+        </Label>
+      </div>
+      {Boolean(blockThreshold) && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="duplicate-expenses-threshold" className="text-sm font-normal">
+            <FormattedMessage defaultMessage="Similarity threshold" id="ODnYNH" />
+          </Label>
+          <Input
+            id="duplicate-expenses-threshold"
+            type="number"
+            className="w-24"
+            min={RELATED_EXPENSE_MIN_SCORE}
+            max={100}
+            value={blockThreshold}
+            onChange={e => onChange({ ...value, blockThreshold: Number(e.target.value) || null })}
+          />
+          <span className="text-sm">%</span>
+        </div>
+      )}
+    </div>
+  );
+};
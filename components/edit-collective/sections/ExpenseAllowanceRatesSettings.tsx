@@ -0,0 +1,144 @@
+import React from 'react';
+import { omit, toPairs } from 'lodash';
+import { Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import type { AllowanceRates } from '../../../lib/expenses/allowances';
+import { DistanceUnit } from '../../../lib/expenses/allowances';
+
+import InputTypeCountry from '../../InputTypeCountry';
+import StyledInputAmount from '../../StyledInputAmount';
+import StyledSelect from '../../StyledSelect';
+import { Button } from '../../ui/Button';
+import { Label } from '../../ui/Label';
+
+/**
+ * Lets hosts define the rates of mileage and per diem allowances. See `lib/expenses/allowances`.
+ */
+export const ExpenseAllowanceRatesSettings = ({
+  host,
+  value,
+  onChange,
+}: {
+  host: { currency: string };
+  value: AllowanceRates;
+  onChange: (value: AllowanceRates) => void;
+}) => {
+  const intl = useIntl();
+  const rates = value || {};
+  const countryRates = toPairs(rates.perDiem?.countries || {});
+  const unitOptions = [
+    { value: DistanceUnit.KM, label: intl.formatMessage({ defaultMessage: 'Kilometers', id: 'Ch2zvg' }) },
+    { value: DistanceUnit.MI, label: intl.formatMessage({ defaultMessage: 'Miles', id: '2uS1TC' }) },
+  ];
+  const setCountryRates = (pairs: [string, number][]) =>
+    onChange({ ...rates, perDiem: { ...rates.perDiem, countries: Object.fromEntries(pairs) } });
+  const setCountryRate = (index: number, country: string, rate: number) => {
+    // A country can only have one rate
+    if (!countryRates.some(([c], i) => c === country && i !== index)) {
+      setCountryRates(
+        index === countryRates.length
+          ? [...countryRates, [country, rate]]
+          : countryRates.map((pair, i) => (i === index ? [country, rate] : pair)),
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        <FormattedMessage
+          defaultMessage="Let expense submitters claim mileage and per diem allowances in reimbursements. Their amount is computed from the rates below, in {currency}. Leave a rate empty to disable the allowance."
+          id="OCXYER"
+          values={{ currency: host.currency }}
+        />
+      </p>
+      <div className="space-y-2 rounded-lg border p-4">
+        <Label>
+          <FormattedMessage defaultMessage="Mileage rate" id="gaFj0u" />
+        </Label>
+        <div className="flex flex-wrap items-center gap-2">
+          <StyledInputAmount
+            id="expense-allowance-mileage-rate"
+            maxWidth="11em"
+            currency={host.currency}
+            currencyDisplay="CODE"
+            placeholder="0.00"
+            value={rates.mileage?.rate}
+            onChange={rate => onChange({ ...rates, mileage: { unit: DistanceUnit.KM, ...rates.mileage, rate } })}
+          />
+          <span className="text-sm">/</span>
+          <StyledSelect
+            inputId="expense-allowance-mileage-unit"
+            isSearchable={false}
+            minWidth={160}
+            options={unitOptions}
+            value={unitOptions.find(option => option.value === (rates.mileage?.unit || DistanceUnit.KM))}
+            onChange={option => onChange({ ...rates, mileage: { ...rates.mileage, unit: option.value } })}
+          />
+        </div>
+      </div>
+      <div className="space-y-2 rounded-lg border p-4">
+        <Label>
+          <FormattedMessage defaultMessage="Per diem daily rates" id="DrjLYX" />
+        </Label>
+        <div className="flex items-center gap-2">
+          <span className="w-[250px] text-sm">
+            <FormattedMessage defaultMessage="All other countries" id="fpUUHB" />
+          </span>
+          <StyledInputAmount
+            id="expense-allowance-per-diem-default-rate"
+            maxWidth="11em"
+            currency={host.currency}
+            currencyDisplay="CODE"
+            placeholder="0.00"
+            value={rates.perDiem?.defaultRate}
+            onChange={defaultRate => onChange({ ...rates, perDiem: { ...rates.perDiem, defaultRate } })}
+          />
+        </div>
+        {countryRates.map(([country, rate], index) => (
+          <div key={country} className="flex items-center gap-2">
+            <div className="w-[250px]">
+              <InputTypeCountry
+                inputId={`expense-allowance-per-diem-country-${country}`}
+                value={country}
+                onChange={newCountry => setCountryRate(index, newCountry, rate)}
+              />
+            </div>
+            <StyledInputAmount
+              id={`expense-allowance-per-diem-rate-${country}`}
+              maxWidth="11em"
+              currency={host.currency}
+              currencyDisplay="CODE"
+              placeholder="0.00"
+              value={rate}
+              onChange={newRate => setCountryRate(index, country, newRate)}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-xs"
+              onClick={() =>
+                onChange({ ...rates, perDiem: { ...rates.perDiem, countries: omit(rates.perDiem.countries, country) } })
+              }
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+        <InputTypeCountry
+          inputId="expense-allowance-per-diem-new-country"
+          placeholder={intl.formatMessage({ defaultMessage: 'Add a rate for a country', id: 'RP1TB3' })}
+          value={null}
+          onChange={country => setCountryRate(countryRates.length, country, null)}
+        />
+        <p className="text-xs text-muted-foreground">
+          <FormattedMessage
+            defaultMessage="Countries without a specific rate use the rate of all other countries, if set."
+            id="hH1LYq"
+          />
+        </p>
+      </div>
+    </div>
+  );
+};
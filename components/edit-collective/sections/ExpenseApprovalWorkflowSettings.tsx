@@ -0,0 +1,247 @@
+import React from 'react';
+import { useQuery } from '@apollo/client';
+import { Plus, Trash2 } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+import { v4 as uuid } from 'uuid';
+
+import type { ApprovalWorkflow, ApprovalWorkflowRule } from '../../../lib/expenses/approval-workflows';
+import { ApprovalWorkflowRole } from '../../../lib/expenses/approval-workflows';
+import { API_V2_CONTEXT, gql } from '../../../lib/graphql/helpers';
+import { ExpenseType } from '../../../lib/graphql/types/v2/graphql';
+import { i18nExpenseType } from '../../../lib/i18n/expense';
+
+import StyledInputAmount from '../../StyledInputAmount';
+import StyledSelect from '../../StyledSelect';
+import { Button } from '../../ui/Button';
+import { Checkbox } from '../../ui/Checkbox';
+import { Input } from '../../ui/Input';
+import { Label } from '../../ui/Label';
+
+const WORKFLOW_EXPENSE_TYPES = [ExpenseType.RECEIPT, ExpenseType.INVOICE, ExpenseType.GRANT];
+
+const approvalWorkflowAccountingCategoriesQuery = gql`
+  query ApprovalWorkflowAccountingCategories($slug: String!) {
+    host(slug: $slug) {
+      id
+      accountingCategories(kind: EXPENSE) {
+        nodes {
+          id
+          code
+          name
+        }
+      }
+    }
+  }
+`;
+
+const ApprovalWorkflowRuleForm = ({
+  rule,
+  currency,
+  categoryOptions,
+  onChange,
+  onRemove,
+}: {
+  rule: ApprovalWorkflowRule;
+  currency: string;
+  categoryOptions: { value: string; label: string }[];
+  onChange: (rule: ApprovalWorkflowRule) => void;
+  onRemove: () => void;
+}) => {
+  const intl = useIntl();
+  const roleOptions = [
+    {
+      value: ApprovalWorkflowRole.COLLECTIVE_ADMIN,
+      label: intl.formatMessage({ defaultMessage: 'Collective admins', id: 'QcJiX/' }),
+    },
+    {
+      value: ApprovalWorkflowRole.HOST_ADMIN,
+      label: intl.formatMessage({ defaultMessage: 'Host admins', id: 'IwtKUP' }),
+    },
+  ];
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4" data-cy="approval-workflow-rule">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>
+            <FormattedMessage defaultMessage="For expenses above" id="9gW/+k" />
+          </Label>
+          <StyledInputAmount
+            maxWidth="11em"
+            currency={currency}
+            currencyDisplay="CODE"
+            placeholder="0"
+            value={rule.minAmount}
+            onChange={minAmount => onChange({ ...rule, minAmount })}
+          />
+        </div>
+        <div className="min-w-[250px] flex-1 space-y-1">
+          <Label>
+            <FormattedMessage defaultMessage="With accounting categories" id="2LmIsE" />
+          </Label>
+          <StyledSelect
+            inputId={`approval-workflow-categories-${rule.id}`}
+            isMulti
+            options={categoryOptions}
+            placeholder={intl.formatMessage({ defaultMessage: 'All categories', id: '9g2jKz' })}
+            value={categoryOptions.filter(option => rule.accountingCategoryIds?.includes(option.value))}
+            onChange={options => onChange({ ...rule, accountingCategoryIds: options.map(option => option.value) })}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {WORKFLOW_EXPENSE_TYPES.map(type => (
+          <div key={type} className="flex items-center gap-2">
+            <Checkbox
+              id={`approval-workflow-type-${rule.id}-${type}`}
+              checked={Boolean(rule.expenseTypes?.includes(type))}
+              onCheckedChange={checked =>
+                onChange({
+                  ...rule,
+                  expenseTypes: checked
+                    ? [...(rule.expenseTypes || []), type]
+                    : rule.expenseTypes.filter(t => t !== type),
+                })
+              }
+            />
+            <Label htmlFor={`approval-workflow-type-${rule.id}-${type}`}>{i18nExpenseType(intl, type, null)}</Label>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-2">
+        <Label>
+          <FormattedMessage defaultMessage="Recommended reviewers" id="4WgBUq" />
+        </Label>
+        {rule.steps.map((step, index) => (
+          // eslint-disable-next-line react/no-array-index-key
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-20"
+              value={step.approvals}
+              onChange={e => {
+                const steps = [...rule.steps];
+                steps[index] = { ...step, approvals: Math.max(1, parseInt(e.target.value) || 1) };
+                onChange({ ...rule, steps });
+              }}
+            />
+            <StyledSelect
+              inputId={`approval-workflow-step-role-${rule.id}-${index}`}
+              isSearchable={false}
+              minWidth={200}
+              options={roleOptions}
+              value={roleOptions.find(option => option.value === step.role)}
+              onChange={option => {
+                const steps = [...rule.steps];
+                steps[index] = { ...step, role: option.value };
+                onChange({ ...rule, steps });
+              }}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-xs"
+              disabled={rule.steps.length === 1}
+              onClick={() => onChange({ ...rule, steps: rule.steps.filter((_, i) => i !== index) })}
+            >
+              <Trash2 size={16} />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="xs"
+          onClick={() =>
+            onChange({ ...rule, steps: [...rule.steps, { role: ApprovalWorkflowRole.HOST_ADMIN, approvals: 1 }] })
+          }
+        >
+          <Plus size={14} />
+          <FormattedMessage defaultMessage="Add reviewers" id="SPl3ur" />
+        </Button>
+        <Button type="button" variant="outlineDestructive" size="xs" onClick={onRemove}>
+          <FormattedMessage defaultMessage="Remove rule" id="E8UYvP" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lets hosts recommend several reviewers for some expenses. See `lib/expenses/approval-workflows`.
+ */
+export const ExpenseApprovalWorkflowSettings = ({
+  host,
+  value,
+  onChange,
+}: {
+  host: { slug: string; currency: string };
+  value: ApprovalWorkflow;
+  onChange: (value: ApprovalWorkflow) => void;
+}) => {
+  const { data } = useQuery(approvalWorkflowAccountingCategoriesQuery, {
+    variables: { slug: host.slug },
+    context: API_V2_CONTEXT,
+  });
+  const categoryOptions = React.useMemo(
+    () =>
+      (data?.host?.accountingCategories?.nodes || []).map(category => ({
+        value: category.id,
+        label: `${category.code} - ${category.name}`,
+      })),
+    [data],
+  );
+  const rules = value?.rules || [];
+  const updateRule = (index: number, rule: ApprovalWorkflowRule) =>
+    onChange({ ...value, rules: rules.map((r, i) => (i === index ? rule : r)) });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        <FormattedMessage
+          defaultMessage="Recommend several reviewers for some expenses. Rules are evaluated in order, the first one matching an expense defines its recommended reviewers, which are displayed on the expense. This is only a recommendation: the reviews are not tracked, and any admin allowed to approve the expense can still approve it directly."
+          id="TSXQ2o"
+        />
+      </p>
+      {rules.map((rule, index) => (
+        <ApprovalWorkflowRuleForm
+          key={rule.id}
+          rule={rule}
+          currency={host.currency}
+          categoryOptions={categoryOptions}
+          onChange={rule => updateRule(index, rule)}
+          onRemove={() => onChange({ ...value, rules: rules.filter((_, i) => i !== index) })}
+        />
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        data-cy="add-approval-workflow-rule"
+        onClick={() =>
+          onChange({
+            ...value,
+            rules: [
+              ...rules,
+              {
+                id: uuid(),
+                minAmount: null,
+                steps: [
+                  { role: ApprovalWorkflowRole.COLLECTIVE_ADMIN, approvals: 1 },
+                  { role: ApprovalWorkflowRole.HOST_ADMIN, approvals: 1 },
+                ],
+              },
+            ],
+          })
+        }
+      >
+        <Plus size={16} />
+        <FormattedMessage defaultMessage="Add rule" id="gzM1em" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { omit } from 'lodash';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { Currency } from '../../../lib/constants/currency';
+import type { ExpensePolicyRules } from '../../../lib/expenses/expense-policy-rules';
+import { ExpensePolicyRuleSeverity, ExpensePolicyRuleType } from '../../../lib/expenses/expense-policy-rules';
+
+import StyledInputAmount from '../../StyledInputAmount';
+import StyledSelect from '../../StyledSelect';
+import { Checkbox } from '../../ui/Checkbox';
+import { Input } from '../../ui/Input';
+import { Label } from '../../ui/Label';
+import { Textarea } from '../../ui/Textarea';
+
+const DEFAULT_RULES: Required<ExpensePolicyRules> = {
+  [ExpensePolicyRuleType.MAX_ITEM_AMOUNT]: { severity: ExpensePolicyRuleSeverity.ERROR, amount: null },
+  [ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE]: { severity: ExpensePolicyRuleSeverity.ERROR, amount: 0 },
+  [ExpensePolicyRuleType.BANNED_KEYWORDS]: { severity: ExpensePolicyRuleSeverity.WARNING, keywords: [] },
+  [ExpensePolicyRuleType.ALLOWED_CURRENCIES]: { severity: ExpensePolicyRuleSeverity.ERROR, currencies: [] },
+  [ExpensePolicyRuleType.MAX_ITEM_AGE]: { severity: ExpensePolicyRuleSeverity.WARNING, days: 90 },
+};
+
+const RULE_LABELS = {
+  [ExpensePolicyRuleType.MAX_ITEM_AMOUNT]: <FormattedMessage defaultMessage="Maximum amount per item" id="xbyTxx" />,
+  [ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE]: (
+    <FormattedMessage defaultMessage="Require a receipt for items above" id="9sqf3Y" />
+  ),
+  [ExpensePolicyRuleType.BANNED_KEYWORDS]: (
+    <FormattedMessage defaultMessage="Banned merchants and keywords, one per line" id="Y/fKvz" />
+  ),
+  [ExpensePolicyRuleType.ALLOWED_CURRENCIES]: <FormattedMessage defaultMessage="Allowed currencies" id="ta81ed" />,
+  [ExpensePolicyRuleType.MAX_ITEM_AGE]: <FormattedMessage defaultMessage="Maximum age of items, in days" id="Uw3HiV" />,
+};
+
+/**
+ * Lets hosts define the policy rules that expenses submitted to their collectives are checked against. See
+ * `lib/expenses/expense-policy-rules`.
+ */
+export const ExpensePolicyRulesSettings = ({
+  host,
+  value,
+  onChange,
+}: {
+  host: { currency: string };
+  value: ExpensePolicyRules;
+  onChange: (value: ExpensePolicyRules) => void;
+}) => {
+  const intl = useIntl();
+  const rules = value || {};
+  const severityOptions = [
+    {
+      value: ExpensePolicyRuleSeverity.ERROR,
+      label: intl.formatMessage({ defaultMessage: 'Block the submission form', id: 'rn3Ex/' }),
+    },
+    {
+      value: ExpensePolicyRuleSeverity.WARNING,
+      label: intl.formatMessage({ defaultMessage: 'Show a warning', id: 'cUBJbD' }),
+    },
+  ];
+  const currencyOptions = React.useMemo(() => Currency.map(currency => ({ value: currency, label: currency })), []);
+  const updateRule = <T extends ExpensePolicyRuleType>(type: T, rule: Partial<ExpensePolicyRules[T]>) =>
+    onChange({ ...rules, [type]: { ...rules[type], ...rule } });
+
+  const renderParams = (type: ExpensePolicyRuleType) => {
+    switch (type) {
+      case ExpensePolicyRuleType.MAX_ITEM_AMOUNT:
+      case ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE:
+        return (
+          <StyledInputAmount
+            id={`expense-policy-rule-${type}-amount`}
+            maxWidth="11em"
+            currency={host.currency}
+            currencyDisplay="CODE"
+            placeholder="0"
+            value={rules[type].amount}
+            onChange={amount => updateRule(type, { amount })}
+          />
+        );
+      case ExpensePolicyRuleType.BANNED_KEYWORDS:
+        return (
+          <Textarea
+            id={`expense-policy-rule-${type}-keywords`}
+            className="max-w-md"
+            rows={3}
+            value={rules[type].keywords.join('\n')}
+            onChange={e => updateRule(type, { keywords: e.target.value.split('\n') })}
+          />
+        );
+      case ExpensePolicyRuleType.ALLOWED_CURRENCIES:
+        return (
+          <StyledSelect
+            inputId={`expense-policy-rule-${type}-currencies`}
+            isMulti
+            maxWidth={600}
+            options={currencyOptions}
+            value={currencyOptions.filter(option => rules[type].currencies.includes(option.value))}
+            onChange={options => updateRule(type, { currencies: options.map(option => option.value) })}
+          />
+        );
+      case ExpensePolicyRuleType.MAX_ITEM_AGE:
+        return (
+          <Input
+            id={`expense-policy-rule-${type}-days`}
+            type="number"
+            min={1}
+            className="w-24"
+            value={rules[type].days}
+            onChange={e => updateRule(type, { days: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        <FormattedMessage
+          defaultMessage="Check the expenses submitted to your collectives against these rules. The rules are advisory: they are only checked by the submission form, where violations either block the submission or show a warning, and they are not enforced by the API. Violations are also displayed to the reviewers of the expense, who can still approve it."
+          id="MuQTBD"
+        />
+      </p>
+      {Object.values(ExpensePolicyRuleType).map(type => (
+        <div key={type} className="space-y-2 rounded-lg border p-4" data-cy={`expense-policy-rule-${type}`}>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`expense-policy-rule-${type}`}
+                checked={Boolean(rules[type])}
+                onCheckedChange={checked =>
+                  onChange(checked ? { ...rules, [type]: DEFAULT_RULES[type] } : omit(rules, type))
+                }
+              />
+              <Label htmlFor={`expense-policy-rule-${type}`}>{RULE_LABELS[type]}</Label>
+            </div>
+            {rules[type] && (
+              <StyledSelect
+                inputId={`expense-policy-rule-${type}-severity`}
+                isSearchable={false}
+                minWidth={180}
+                options={severityOptions}
+                value={severityOptions.find(option => option.value === rules[type].severity)}
+                onChange={option => updateRule(type, { severity: option.value })}
+              />
+            )}
+          </div>
+          {rules[type] && renderParams(type)}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -9,6 +9,10 @@ import { isSelfHostedAccount } from '../../../lib/collective';
 import { MODERATION_CATEGORIES } from '../../../lib/constants/moderation-categories';
 import { i18nGraphqlException } from '../../../lib/errors';
 import { DEFAULT_SUPPORTED_EXPENSE_TYPES } from '../../../lib/expenses';
+import { ALLOWANCE_RATES_SETTINGS_KEY } from '../../../lib/expenses/allowances';
+import { APPROVAL_WORKFLOW_SETTINGS_KEY } from '../../../lib/expenses/approval-workflows';
+import { EXPENSE_POLICY_RULES_SETTINGS_KEY } from '../../../lib/expenses/expense-policy-rules';
+import { DUPLICATE_EXPENSES_SETTINGS_KEY } from '../../../lib/expenses/related-expenses';
 import { API_V2_CONTEXT, gql } from '../../../lib/graphql/helpers';
 import { editCollectivePolicyMutation } from '../../../lib/graphql/v1/mutations';
 import { stripHTML } from '../../../lib/html';
@@ -29,7 +33,11 @@ import StyledSelect from '../../StyledSelect';
 import { P } from '../../Text';
 import { useToast } from '../../ui/useToast';
 
+import { DuplicateExpensesSettings } from './DuplicateExpensesSettings';
 import { getSettingsQuery } from './EditCollectivePage';
+import { ExpenseAllowanceRatesSettings } from './ExpenseAllowanceRatesSettings';
+import { ExpenseApprovalWorkflowSettings } from './ExpenseApprovalWorkflowSettings';
+import { ExpensePolicyRulesSettings } from './ExpensePolicyRulesSettings';
 import SettingsSectionTitle from './SettingsSectionTitle';
 
 const EXPENSE_POLICY_MAX_LENGTH = 16000; // max in database is ~15,500
@@ -176,6 +184,10 @@ const Policies = ({ collective, showOnlyExpensePolicy }) => {
       expensePolicy: collectiveExpensePolicy || '',
       disablePublicExpenseSubmission: collectiveDisableExpenseSubmission || false,
       expenseTypes,
+      expenseApprovalWorkflow: get(collective, ['settings', APPROVAL_WORKFLOW_SETTINGS_KEY]) || { rules: [] },
+      expensePolicyRules: get(collective, ['settings', EXPENSE_POLICY_RULES_SETTINGS_KEY]) || {},
+      expenseAllowanceRates: get(collective, ['settings', ALLOWANCE_RATES_SETTINGS_KEY]) || {},
+      expenseDuplicateDetection: get(collective, ['settings', DUPLICATE_EXPENSES_SETTINGS_KEY]) || {},
       policies: omitDeep(data?.account?.policies || {}, ['__typename']),
     },
     async onSubmit(values) {
@@ -183,6 +195,10 @@ const Policies = ({ collective, showOnlyExpensePolicy }) => {
       const newSettings = { ...collective.settings, disablePublicExpenseSubmission };
       if (collective.isHost) {
         newSettings.expenseTypes = expenseTypes;
+        newSettings[APPROVAL_WORKFLOW_SETTINGS_KEY] = values.expenseApprovalWorkflow;
+        newSettings[EXPENSE_POLICY_RULES_SETTINGS_KEY] = values.expensePolicyRules;
+        newSettings[ALLOWANCE_RATES_SETTINGS_KEY] = values.expenseAllowanceRates;
+        newSettings[DUPLICATE_EXPENSES_SETTINGS_KEY] = values.expenseDuplicateDetection;
       }
 
       try {
@@ -679,6 +695,45 @@ const Policies = ({ collective, showOnlyExpensePolicy }) => {
                 />
               </div>
             </Container>
+            <Container>
+              <SettingsSectionTitle mt={4}>
+                <FormattedMessage defaultMessage="Recommended expense reviewers" id="+maucL" />
+              </SettingsSectionTitle>
+              <ExpenseApprovalWorkflowSettings
+                host={collective}
+                value={formik.values.expenseApprovalWorkflow}
+                onChange={value => formik.setFieldValue('expenseApprovalWorkflow', value)}
+              />
+            </Container>
+            <Container>
+              <SettingsSectionTitle mt={4}>
+                <FormattedMessage defaultMessage="Expense policy rules" id="3iMZ8G" />
+              </SettingsSectionTitle>
+              <ExpensePolicyRulesSettings
+                host={collective}
+                value={formik.values.expensePolicyRules}
+                onChange={value => formik.setFieldValue('expensePolicyRules', value)}
+              />
+            </Container>
+            <Container>
+              <SettingsSectionTitle mt={4}>
+                <FormattedMessage defaultMessage="Mileage and per diem" id="TW9ujj" />
+              </SettingsSectionTitle>
+              <ExpenseAllowanceRatesSettings
+                host={collective}
+                value={formik.values.expenseAllowanceRates}
+                onChange={value => formik.setFieldValue('expenseAllowanceRates', value)}
+              />
+            </Container>
+            <Container>
+              <SettingsSectionTitle mt={4}>
+                <FormattedMessage defaultMessage="Duplicate expenses" id="ujmGTY" />
+              </SettingsSectionTitle>
+              <DuplicateExpensesSettings
+                value={formik.values.expenseDuplicateDetection}
+                onChange={value => formik.setFieldValue('expenseDuplicateDetection', value)}
+              />
+            </Container>
             {collective.isHost && (
               <Container>
                 <SettingsSectionTitle mt={4}>
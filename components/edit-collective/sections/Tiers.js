@@ -25,6 +25,8 @@ import { P, Span, Strong } from '../../Text';
 import { editAccountSettingsMutation } from '../mutations';
 import { listTierQuery } from '../tiers/EditTierModal';
 
+import { ContributionFlowExperimentsSettings } from './ContributionFlowExperimentsSettings';
+
 const getSortedContributeCards = (collective, tiers, intl) => {
   const sortedTiers = sortTiersForCollective(collective, tiers);
 
@@ -177,6 +179,8 @@ const Tiers = ({ collective, isLegacyOCFDuplicatedAccount }) => {
               enableReordering={false}
               onTierUpdate={() => refetch()}
             />
+            <StyledHr my={4} borderColor="black.300" />
+            <ContributionFlowExperimentsSettings collective={collective} tiers={tiers} />
           </div>
         )}
       </Box>
@@ -1,34 +1,219 @@
 import React from 'react';
+import { useQuery } from '@apollo/client';
 import { some } from 'lodash';
-import { FormattedMessage } from 'react-intl';
+import { AlertTriangle } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
 
-import { compareItemOCRValues } from './lib/ocr';
+import { formatValueAsCurrency } from '../../lib/currency-utils';
+import { API_V2_CONTEXT, gql } from '../../lib/graphql/helpers';
+import { cn } from '../../lib/utils';
+import type { ExpenseWithReceipts } from './lib/ocr';
+import {
+  compareItemOCRValues,
+  findOtherExpensesWithSameReceipt,
+  getItemOCRFieldConfidence,
+  itemHasOCR,
+  OCR_LOW_CONFIDENCE_THRESHOLD,
+} from './lib/ocr';
 
+import Link from '../Link';
 import MessageBox from '../MessageBox';
 import { Checkbox } from '../ui/Checkbox';
 
 import type { ExpenseItemFormValues } from './types/FormValues';
 
+const expensesWithSameReceiptsQuery = gql`
+  query ExpensesWithSameReceipts($payee: AccountReferenceInput!) {
+    expenses(fromAccount: $payee, limit: 100) {
+      nodes {
+        id
+        legacyId
+        description
+        account {
+          id
+          slug
+        }
+        items {
+          id
+          incurredAt
+          amountV2 {
+            valueInCents
+            currency
+          }
+          file {
+            id
+            name
+            size
+          }
+        }
+      }
+    }
+  }
+`;
+
+const OCR_REVIEWED_FIELDS = ['description', 'incurredAt', 'amountV2'] as const;
+
+const OCRFieldReview = ({
+  item,
+  field,
+  comparison,
+}: {
+  item: ExpenseItemFormValues;
+  field: (typeof OCR_REVIEWED_FIELDS)[number];
+  comparison: ReturnType<typeof compareItemOCRValues>[(typeof OCR_REVIEWED_FIELDS)[number]];
+}) => {
+  const intl = useIntl();
+  const confidence = getItemOCRFieldConfidence(item, field);
+  const formatValue = value =>
+    field === 'amountV2'
+      ? `${value.currency} ${formatValueAsCurrency(value, { locale: intl.locale })}`
+      : field === 'incurredAt'
+        ? value.split('T')[0]
+        : value;
+
+  if (!comparison?.ocrValue) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-2 text-xs">
+      <span className="w-20 shrink-0 text-muted-foreground">
+        {field === 'description' ? (
+          <FormattedMessage defaultMessage="Merchant" id="Go7nIP" />
+        ) : field === 'incurredAt' ? (
+          <FormattedMessage id="expense.incurredAt" defaultMessage="Date" />
+        ) : (
+          <FormattedMessage id="Fields.amount" defaultMessage="Amount" />
+        )}
+      </span>
+      <span className={cn('font-medium', comparison.hasMismatch && 'text-yellow-700')}>
+        {formatValue(comparison.ocrValue)}
+      </span>
+      {confidence !== null && (
+        <span className={cn(confidence < OCR_LOW_CONFIDENCE_THRESHOLD ? 'text-red-600' : 'text-muted-foreground')}>
+          <FormattedMessage
+            defaultMessage="{confidence}% confidence"
+            id="l94vPo"
+            values={{ confidence: Math.round(confidence) }}
+          />
+        </span>
+      )}
+      {comparison.hasMismatch && (
+        <span className="text-yellow-700" data-cy="ocr-mismatch">
+          <FormattedMessage
+            defaultMessage="You entered {value}"
+            id="7oRM3w"
+            values={{ value: formatValue(item[field]) }}
+          />
+        </span>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lets the submitter review the values scanned from each receipt before submitting: the confidence of the scan, the
+ * values that don't match what they entered and the receipts that seem to be used in other expenses. Each scanned
+ * item must be confirmed.
+ */
 export const ConfirmOCRValues = ({
   onConfirm,
   items,
   currency,
+  payee,
+  expenseId,
 }: {
   onConfirm: (boolean) => void;
   items: ExpenseItemFormValues[];
   currency: string;
+  /** Used to look for the receipts already used in the other expenses of the payee */
+  payee?: { slug?: string };
+  /** The legacy ID of the expense being edited, if any */
+  expenseId?: number;
 }) => {
-  const hasMismatches = React.useMemo(() => {
-    return items.some(item => some(compareItemOCRValues(item), { hasMismatch: true }));
-  }, [items, currency]);
+  const [confirmedItems, setConfirmedItems] = React.useState<string[]>([]);
+  const itemsWithOCR = React.useMemo(() => items.filter(itemHasOCR), [items]);
+  const { data } = useQuery(expensesWithSameReceiptsQuery, {
+    context: API_V2_CONTEXT,
+    variables: { payee: { slug: payee?.slug } },
+    skip: !payee?.slug,
+  });
+
+  const otherExpenses: ExpenseWithReceipts[] = React.useMemo(
+    () => (data?.expenses?.nodes || []).filter(expense => expense.legacyId !== expenseId),
+    [data, expenseId],
+  );
+  const comparisons = React.useMemo(
+    () => itemsWithOCR.map(item => compareItemOCRValues(item)),
+    [itemsWithOCR, currency],
+  );
+  const hasMismatches = comparisons.some(comparison => some(comparison, { hasMismatch: true }));
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    const newConfirmedItems = checked ? [...confirmedItems, itemId] : confirmedItems.filter(id => id !== itemId);
+    setConfirmedItems(newConfirmedItems);
+    onConfirm(itemsWithOCR.every(item => newConfirmedItems.includes(item.id)));
+  };
 
   return (
     <MessageBox type={hasMismatches ? 'warning' : 'info'}>
-      <div className="flex items-center">
-        <Checkbox id="confirm-expense-ocr-values" onCheckedChange={onConfirm} />
-        <label htmlFor="confirm-expense-ocr-values" className="ml-2 text-xs font-medium leading-none">
-          <FormattedMessage defaultMessage="I have confirmed the date and amount." id="wXQfoE" />
-        </label>
+      <div className="mb-2 text-sm font-medium">
+        <FormattedMessage
+          defaultMessage="Please review the {count, plural, one {scanned receipt} other {# scanned receipts}}"
+          id="o592nz"
+          values={{ count: itemsWithOCR.length }}
+        />
+      </div>
+      <div className="space-y-3">
+        {itemsWithOCR.map((item, index) => {
+          const duplicates = findOtherExpensesWithSameReceipt(item, otherExpenses);
+          const checkboxId = `confirm-expense-ocr-values-${item.id}`;
+          return (
+            <div key={item.id} className="rounded border border-slate-200 bg-white p-2" data-cy="ocr-item-review">
+              <div className="mb-1 text-xs font-medium">
+                {item.__file?.name || (
+                  <FormattedMessage defaultMessage="Receipt {number}" id="Eyeb1l" values={{ number: index + 1 }} />
+                )}
+              </div>
+              {OCR_REVIEWED_FIELDS.map(field => (
+                <OCRFieldReview key={field} item={item} field={field} comparison={comparisons[index][field]} />
+              ))}
+              {duplicates.length > 0 && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-red-600" data-cy="ocr-duplicate-receipt">
+                  <AlertTriangle size={14} />
+                  <FormattedMessage
+                    defaultMessage="This receipt seems to be used in another expense: {expenses}"
+                    id="oRfYHD"
+                    values={{
+                      expenses: duplicates.map((expense, idx) => (
+                        <React.Fragment key={expense.legacyId}>
+                          {idx > 0 && ', '}
+                          <Link
+                            href={`/${expense.account?.slug}/expenses/${expense.legacyId}`}
+                            openInNewTab
+                            className="underline"
+                          >
+                            #{expense.legacyId}
+                          </Link>
+                        </React.Fragment>
+                      )),
+                    }}
+                  />
+                </div>
+              )}
+              <div className="mt-2 flex items-center">
+                <Checkbox
+                  id={checkboxId}
+                  checked={confirmedItems.includes(item.id)}
+                  onCheckedChange={checked => toggleItem(item.id, Boolean(checked))}
+                />
+                <label htmlFor={checkboxId} className="ml-2 text-xs font-medium leading-none">
+                  <FormattedMessage defaultMessage="I have confirmed the date and amount." id="wXQfoE" />
+                </label>
+              </div>
+            </div>
+          );
+        })}
       </div>
     </MessageBox>
   );
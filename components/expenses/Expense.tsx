@@ -661,6 +661,8 @@ function Expense(props) {
                   onConfirm={setConfirmedOCR}
                   items={state.editedExpense.items}
                   currency={state.editedExpense.currency}
+                  payee={state.editedExpense.payee}
+                  expenseId={expense?.legacyId}
                 />
               )}
               {isRecurring && <ExpenseRecurringBanner expense={expense} />}
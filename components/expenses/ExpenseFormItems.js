@@ -146,6 +146,59 @@ class ExpenseFormItems extends React.PureComponent {
     this.props.form.setFieldValue('items', otherItems);
   }
 
+  /**
+   * A dropzone to upload several receipts at once, each of them becoming an item.
+   * @param append Whether to add the items after the existing ones rather than replacing them
+   */
+  renderMultiItemsDropzone(append = false) {
+    const { hasOCRFeature, collective } = this.props;
+    const { values } = this.props.form;
+    return (
+      <StyledDropzone
+        {...attachmentDropzoneParams}
+        kind="EXPENSE_ITEM"
+        data-cy={append ? 'expense-add-items-dropzone' : 'expense-multi-items-dropzone'}
+        onSuccess={files => filesListToItems(files).map(this.props.push)}
+        onReject={uploadErrors => {
+          this.reportErrors(uploadErrors);
+          this.removeMultiUploadingItems();
+        }}
+        mockImageGenerator={index => `https://loremflickr.com/120/120/invoice?lock=${index}`}
+        mb={3}
+        mt={append ? 3 : 0}
+        minHeight={append ? 72 : undefined}
+        useGraphQL={hasOCRFeature}
+        parseDocument={hasOCRFeature}
+        parsingOptions={{ currency: values.currency }}
+        onDrop={files => {
+          // Insert dummy items to display the loading states when uploading through GraphQL
+          if (hasOCRFeature) {
+            const uploadingItems = files.map(file =>
+              newExpenseItem({ __isUploading: true, __file: file, __fromInput: 'multi' }, values.currency),
+            );
+            this.props.form.setFieldValue('items', append ? [...values.items, ...uploadingItems] : uploadingItems);
+          }
+        }}
+        onGraphQLSuccess={uploadResults => {
+          const indexesToUpdate = this.getUploadingItemsIndexes();
+          updateExpenseFormWithUploadResult(collective, this.props.form, uploadResults, indexesToUpdate);
+        }}
+      >
+        <P color="black.700" mt={1} px={2}>
+          {append ? (
+            <FormattedMessage defaultMessage="Drop more receipts here to add them as new items" id="cnAO8W" />
+          ) : (
+            <FormattedMessage
+              id="MultipleAttachmentsDropzone.UploadWarning"
+              defaultMessage="<i18n-bold>Important</i18n-bold>: Expenses will not be paid without a valid receipt."
+              values={{ 'i18n-bold': I18nBold }}
+            />
+          )}
+        </P>
+      </StyledDropzone>
+    );
+  }
+
   render() {
     const { hasOCRFeature, collective } = this.props;
     const { values, errors, setFieldValue } = this.props.form;
@@ -164,48 +217,7 @@ class ExpenseFormItems extends React.PureComponent {
     );
 
     if (!hasItems && requireFile) {
-      return (
-        <React.Fragment>
-          <StyledDropzone
-            {...attachmentDropzoneParams}
-            kind="EXPENSE_ITEM"
-            data-cy="expense-multi-items-dropzone"
-            onSuccess={files => filesListToItems(files).map(this.props.push)}
-            onReject={uploadErrors => {
-              this.reportErrors(uploadErrors);
-              this.removeMultiUploadingItems();
-            }}
-            mockImageGenerator={index => `https://loremflickr.com/120/120/invoice?lock=${index}`}
-            mb={3}
-            useGraphQL={hasOCRFeature}
-            parseDocument={hasOCRFeature}
-            parsingOptions={{ currency: values.currency }}
-            onDrop={files => {
-              // Insert dummy items to display the loading states when uploading through GraphQL
-              if (hasOCRFeature) {
-                this.props.form.setFieldValue(
-                  'items',
-                  files.map(file =>
-                    newExpenseItem({ __isUploading: true, __file: file, __fromInput: 'multi' }, values.currency),
-                  ),
-                );
-              }
-            }}
-            onGraphQLSuccess={uploadResults => {
-              const indexesToUpdate = this.getUploadingItemsIndexes();
-              updateExpenseFormWithUploadResult(collective, this.props.form, uploadResults, indexesToUpdate);
-            }}
-          >
-            <P color="black.700" mt={1} px={2}>
-              <FormattedMessage
-                id="MultipleAttachmentsDropzone.UploadWarning"
-                defaultMessage="<i18n-bold>Important</i18n-bold>: Expenses will not be paid without a valid receipt."
-                values={{ 'i18n-bold': I18nBold }}
-              />
-            </P>
-          </StyledDropzone>
-        </React.Fragment>
-      );
+      return this.renderMultiItemsDropzone();
     }
 
     const onRemove = requireFile || items.length > 1 ? this.remove : null;
@@ -233,6 +245,7 @@ class ExpenseFormItems extends React.PureComponent {
             hasCurrencyPicker={itemsHaveCurrencyPicker}
           />
         ))}
+        {requireFile && !isCreditCardCharge && this.renderMultiItemsDropzone(true)}
         {/** Do not display OCR warnings for OCR charges since date/amount can't be changed */}
         {!isCreditCardCharge && itemsWithOCR.length > 0 && (
           <MessageBox type={hasOCRWarnings ? 'warning' : 'info'} withIcon mt={3}>
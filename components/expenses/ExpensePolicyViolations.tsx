@@ -0,0 +1,178 @@
+import React from 'react';
+import { AlertTriangle, Ban } from 'lucide-react';
+import type { IntlShape } from 'react-intl';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { formatCurrency } from '../../lib/currency-utils';
+import type { ExpensePolicyViolation } from '../../lib/expenses/expense-policy-rules';
+import {
+  evaluateExpensePolicyRules,
+  ExpensePolicyRuleSeverity,
+  ExpensePolicyRuleType,
+  getExpensePolicyRules,
+} from '../../lib/expenses/expense-policy-rules';
+import type { Currency } from '../../lib/graphql/types/v2/graphql';
+import { ExpenseStatus } from '../../lib/graphql/types/v2/graphql';
+
+import { Badge } from '../ui/Badge';
+
+/**
+ * Returns a human-readable description of a policy violation, prefixed with the item number if the violation is
+ * on an item.
+ */
+export const getExpensePolicyViolationMessage = (intl: IntlShape, violation: ExpensePolicyViolation): string => {
+  const values = violation.values;
+  let message: string;
+  switch (violation.type) {
+    case ExpensePolicyRuleType.MAX_ITEM_AMOUNT:
+      message = intl.formatMessage(
+        { defaultMessage: 'Items cannot exceed {amount}', id: 'IJXpD6' },
+        { amount: formatCurrency(values.amount as number, values.currency as Currency, { locale: intl.locale }) },
+      );
+      break;
+    case ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE:
+      message = values.amount
+        ? intl.formatMessage(
+            { defaultMessage: 'A receipt is required for items above {amount}', id: 'adKiLm' },
+            { amount: formatCurrency(values.amount as number, values.currency as Currency, { locale: intl.locale }) },
+          )
+        : intl.formatMessage({ defaultMessage: 'A receipt is required for all items', id: 'bOH12f' });
+      break;
+    case ExpensePolicyRuleType.BANNED_KEYWORDS:
+      message =
+        violation.field === 'payee'
+          ? intl.formatMessage(
+              { defaultMessage: 'The payee matches a banned merchant or keyword: {keyword}', id: 'isTU8P' },
+              values,
+            )
+          : intl.formatMessage(
+              { defaultMessage: 'The description contains a banned keyword: {keyword}', id: 'cCz67u' },
+              values,
+            );
+      break;
+    case ExpensePolicyRuleType.ALLOWED_CURRENCIES:
+      message = intl.formatMessage(
+        { defaultMessage: 'Only the following currencies are allowed: {currencies}', id: 'J1D6OQ' },
+        values,
+      );
+      break;
+    case ExpensePolicyRuleType.MAX_ITEM_AGE:
+      message = intl.formatMessage(
+        {
+          defaultMessage: 'Items must be incurred within {days, plural, one {the last day} other {the last # days}}',
+          id: '4OYPnr',
+        },
+        values,
+      );
+      break;
+    default:
+      return null;
+  }
+
+  if (typeof violation.itemIndex === 'number') {
+    return intl.formatMessage(
+      { defaultMessage: 'Item {number}: {message}', id: 'SOOOvP' },
+      { number: violation.itemIndex + 1, message },
+    );
+  } else {
+    return message;
+  }
+};
+
+/**
+ * Lists policy violations, blocking ones first.
+ */
+export const ExpensePolicyViolationsList = ({ violations }: { violations: ExpensePolicyViolation[] }) => {
+  const intl = useIntl();
+  const sortedViolations = [...violations].sort(
+    (a, b) =>
+      Number(b.severity === ExpensePolicyRuleSeverity.ERROR) - Number(a.severity === ExpensePolicyRuleSeverity.ERROR),
+  );
+
+  return (
+    <ul className="space-y-1">
+      {sortedViolations.map((violation, index) => {
+        const isError = violation.severity === ExpensePolicyRuleSeverity.ERROR;
+        const Icon = isError ? Ban : AlertTriangle;
+        return (
+          // eslint-disable-next-line react/no-array-index-key
+          <li key={index} className="flex gap-2">
+            <Icon size={16} className={isError ? 'mt-0.5 shrink-0 text-red-600' : 'mt-0.5 shrink-0 text-yellow-600'} />
+            <span>{getExpensePolicyViolationMessage(intl, violation)}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+type ExpensePolicyViolationsProps = {
+  expense: {
+    status?: string;
+    description?: string;
+    currency?: string;
+    createdAt?: string;
+    payee?: { name?: string };
+    attachedFiles?: { url?: string }[];
+    items?: {
+      description?: string;
+      incurredAt?: string;
+      url?: string;
+      amountV2?: { valueInCents: number; currency: string; exchangeRate?: { value?: number; toCurrency?: string } };
+    }[];
+  };
+  host: Parameters<typeof getExpensePolicyRules>[0] & { currency?: string };
+};
+
+/**
+ * Displays to reviewers the host policy rules that a pending or approved expense violates, evaluated as of the
+ * submission date. See `lib/expenses/expense-policy-rules`.
+ */
+export const ExpensePolicyViolations = ({ expense, host }: ExpensePolicyViolationsProps) => {
+  const rules = getExpensePolicyRules(host);
+  const violations = React.useMemo(() => {
+    if (
+      !host?.currency ||
+      ![ExpenseStatus.PENDING, ExpenseStatus.APPROVED].includes(expense?.status as ExpenseStatus)
+    ) {
+      return [];
+    }
+
+    return evaluateExpensePolicyRules(
+      rules,
+      {
+        description: expense.description,
+        currency: expense.currency,
+        payeeName: expense.payee?.name,
+        hasAttachedFiles: expense.attachedFiles?.length > 0,
+        items: expense.items?.map(item => ({ ...item, amount: item.amountV2 })),
+      },
+      { currency: host.currency, now: expense.createdAt },
+    );
+  }, [expense, host?.currency, rules]);
+
+  if (!violations.length) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mt-4 rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm"
+      data-cy="expense-policy-violations"
+    >
+      <div className="mb-1 flex items-center gap-2 font-medium">
+        <FormattedMessage defaultMessage="Policy violations" id="Thfn0O" />
+        <Badge size="xs" type="warning">
+          <FormattedMessage defaultMessage="Advisory" id="Cmdoi3" />
+        </Badge>
+      </div>
+      <p className="mb-2 text-muted-foreground">
+        <FormattedMessage
+          defaultMessage="Checked against the host expense policy. The rules are advisory, they are not enforced by the API."
+          id="TmywOb"
+        />
+      </p>
+      <ExpensePolicyViolationsList violations={violations} />
+    </div>
+  );
+};
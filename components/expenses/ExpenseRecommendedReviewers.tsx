@@ -0,0 +1,70 @@
+import React from 'react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import { ApprovalWorkflowRole } from '../../lib/expenses/approval-workflows';
+import useExpenseApprovalWorkflow from '../../lib/expenses/useExpenseApprovalWorkflow';
+
+import { Skeleton } from '../ui/Skeleton';
+
+type ExpenseRecommendedReviewersProps = Parameters<typeof useExpenseApprovalWorkflow>[0];
+
+const StepRole = ({ role, approvals }: { role: ApprovalWorkflowRole; approvals: number }) =>
+  role === ApprovalWorkflowRole.HOST_ADMIN ? (
+    <FormattedMessage
+      defaultMessage="{count, plural, one {# host admin} other {# host admins}}"
+      id="J0DeGm"
+      values={{ count: approvals }}
+    />
+  ) : (
+    <FormattedMessage
+      defaultMessage="{count, plural, one {# collective admin} other {# collective admins}}"
+      id="9rpbDg"
+      values={{ count: approvals }}
+    />
+  );
+
+/**
+ * Displays the reviewers recommended by the approval workflow of the host for a pending expense, if any: the number
+ * of approvals expected from each role and the admins who can give them. This is only a recommendation: the API
+ * only records a single approval, so the progress of the reviews is not tracked.
+ */
+export const ExpenseRecommendedReviewers = (props: ExpenseRecommendedReviewersProps) => {
+  const intl = useIntl();
+  const { isEnabled, loading, rule, approvers } = useExpenseApprovalWorkflow(props);
+  if (!isEnabled) {
+    return null;
+  } else if (loading && !rule) {
+    return <Skeleton className="mt-4 h-20 w-full" />;
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border bg-slate-50 p-3 text-sm" data-cy="expense-recommended-reviewers">
+      <div className="mb-1 font-medium">
+        <FormattedMessage defaultMessage="Recommended reviewers" id="4WgBUq" />
+      </div>
+      <p className="mb-2 text-muted-foreground">
+        <FormattedMessage
+          defaultMessage="The host recommends these reviews for this expense. They are not tracked nor enforced: any admin allowed to approve the expense can approve it."
+          id="qq1xs5"
+        />
+      </p>
+      <ul className="list-inside list-disc space-y-1">
+        {rule.steps.map((step, index) => (
+          // eslint-disable-next-line react/no-array-index-key
+          <li key={index}>
+            <StepRole role={step.role} approvals={step.approvals} />
+            {approvers[index]?.length > 0 && (
+              <span className="text-muted-foreground">
+                {': '}
+                {intl.formatList(
+                  approvers[index].map(admin => admin.name || admin.slug),
+                  { type: 'disjunction' },
+                )}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
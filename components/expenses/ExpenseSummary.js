@@ -38,9 +38,12 @@ import { ExpenseAccountingCategoryPill } from './ExpenseAccountingCategoryPill';
 import ExpenseAmountBreakdown from './ExpenseAmountBreakdown';
 import ExpenseAttachedFiles from './ExpenseAttachedFiles';
 import ExpenseMoreActionsButton from './ExpenseMoreActionsButton';
+import { ExpensePolicyViolations } from './ExpensePolicyViolations';
+import { ExpenseRecommendedReviewers } from './ExpenseRecommendedReviewers';
 import ExpenseStatusTag from './ExpenseStatusTag';
 import ExpenseSummaryAdditionalInformation from './ExpenseSummaryAdditionalInformation';
 import ProcessExpenseButtons, { hasProcessButtons } from './ProcessExpenseButtons';
+import { RelatedExpenses } from './RelatedExpenses';
 
 export const SummaryHeader = styled(H1)`
   > a {
@@ -338,6 +341,13 @@ const ExpenseSummary = ({
           </P>
         )}
       </Flex>
+      {existsInAPI && <ExpenseRecommendedReviewers expense={expense} host={host} />}
+      {existsInAPI && (isLoggedInUserExpenseAdmin || isLoggedInUserExpenseHostAdmin) && (
+        <React.Fragment>
+          <ExpensePolicyViolations expense={expense} host={host} />
+          <RelatedExpenses expense={expense} host={host} />
+        </React.Fragment>
+      )}
       {isGrant && expense.longDescription && (
         <Fragment>
           <Flex alignItems="center" mt={4}>
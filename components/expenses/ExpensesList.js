@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import PropTypes from 'prop-types';
 import FlipMove from 'react-flip-move';
-import { FormattedMessage } from 'react-intl';
+import { FormattedMessage, useIntl } from 'react-intl';
 import styled, { css } from 'styled-components';
 
 import { DISABLE_ANIMATIONS } from '../../lib/animations';
@@ -14,7 +14,9 @@ import ExpenseBudgetItem from '../budget/ExpenseBudgetItem';
 import FormattedMoneyAmount from '../FormattedMoneyAmount';
 import { Box, Flex } from '../Grid';
 import StyledCard from '../StyledCard';
+import { BulkActionBar, useBulkSelection } from '../table/BulkActions';
 import { P } from '../Text';
+import { Checkbox } from '../ui/Checkbox';
 
 import { SubmittedExpenseListItem } from './list/SubmittedExpenseListItem';
 import ExpenseDrawer from './ExpenseDrawer';
@@ -38,6 +40,8 @@ const FooterLabel = styled.span`
   text-transform: uppercase;
 `;
 
+const getExpenseId = expense => expense.id;
+
 const ExpensesTotal = ({ collective, host, expenses, expenseFieldForTotalAmount }) => {
   const { total, currency, isApproximate } = React.useMemo(() => {
     let isApproximate = false;
@@ -84,8 +88,18 @@ const ExpensesList = ({
   setOpenExpenseLegacyId,
   openExpenseLegacyId,
   onDuplicateClick,
+  getBulkActions,
+  totalCount,
+  fetchAllMatchingExpenses,
 }) => {
+  const intl = useIntl();
   const { LoggedInUser } = useLoggedInUser();
+  // Refetches return new arrays, so the selection is only reset when the list of IDs changes
+  const selection = useBulkSelection(expenses, getExpenseId, { resetOn: expenses?.map(getExpenseId).join() });
+  const hasSelection = Boolean(getBulkActions) && view !== 'submitter-new';
+  const canSelectAllMatching =
+    Boolean(fetchAllMatchingExpenses) && selection.selectAllState === true && totalCount > expenses.length;
+
   // Initial values for expense in drawer
   const expenseInDrawer = React.useMemo(() => {
     if (openExpenseLegacyId) {
@@ -139,94 +153,138 @@ const ExpensesList = ({
   }
 
   return (
-    <StyledCard>
-      {useDrawer && (
-        <ExpenseDrawer
-          openExpenseLegacyId={openExpenseLegacyId}
-          handleClose={() => setOpenExpenseLegacyId(null)}
-          initialExpenseValues={expenseInDrawer}
-        />
+    <React.Fragment>
+      {hasSelection && selection.selectedValues.length > 0 && (
+        <div className="mb-2">
+          <BulkActionBar
+            selectedValues={selection.selectedValues}
+            getBulkActions={getBulkActions}
+            getRowLabel={expense => `#${expense.legacyId} - ${expense.description}`}
+            totalCount={totalCount}
+            isAllMatchingSelected={selection.isAllMatchingSelected}
+            onSelectAllMatching={canSelectAllMatching ? selection.selectAllMatching : undefined}
+            fetchAllMatchingValues={fetchAllMatchingExpenses}
+            onClearSelection={selection.clearSelection}
+          />
+        </div>
       )}
+      <StyledCard>
+        {hasSelection && !isLoading && (
+          <div className="flex items-center gap-3 border-b border-gray-300 px-4 py-2 text-sm text-muted-foreground">
+            <Checkbox
+              checked={selection.selectAllState}
+              onCheckedChange={checked => selection.toggleAll(checked === true)}
+              id="select-all-expenses"
+              data-cy="select-all-expenses"
+            />
+            <label htmlFor="select-all-expenses" className="cursor-pointer">
+              <FormattedMessage defaultMessage="Select all" id="ExportTransactionsCSVModal.SelectAll" />
+            </label>
+          </div>
+        )}
+        {useDrawer && (
+          <ExpenseDrawer
+            openExpenseLegacyId={openExpenseLegacyId}
+            handleClose={() => setOpenExpenseLegacyId(null)}
+            initialExpenseValues={expenseInDrawer}
+          />
+        )}
 
-      {isLoading ? (
-        [...new Array(nbPlaceholders)].map((_, idx) => (
-          // eslint-disable-next-line react/no-array-index-key
-          <ExpenseContainer key={idx} isFirst={!idx}>
-            <ExpenseBudgetItem isLoading />
-          </ExpenseContainer>
-        ))
-      ) : (
-        <FlipMove enterAnimation="fade" leaveAnimation="fade" disableAllAnimations={DISABLE_ANIMATIONS}>
-          {expenses.map((expense, idx) => (
-            <div
-              key={expense.id}
-              id={`expense-${expense.legacyId}`}
-              className={cn(idx && 'border-t border-gray-300')}
-              data-cy={`expense-${expense.status}`}
-            >
-              {view === 'submitter-new' ? (
-                <SubmittedExpenseListItem
-                  expense={expense}
-                  onDuplicateClick={onDuplicateClick}
-                  onClick={() => {
-                    setOpenExpenseLegacyId(expense.legacyId);
-                  }}
-                />
-              ) : (
-                <ExpenseBudgetItem
-                  isInverted={isInverted}
-                  expense={expense}
-                  host={host || expense.host}
-                  showProcessActions
-                  view={view}
-                  onDelete={onDelete}
-                  onProcess={onProcess}
-                  selected={
-                    openExpenseLegacyId === expense.legacyId || (!openExpenseLegacyId && selectedExpenseIndex === idx)
-                  }
-                  expandExpense={e => {
-                    e.preventDefault();
-                    setOpenExpenseLegacyId(expense.legacyId);
-                  }}
-                  useDrawer={useDrawer}
-                />
-              )}
-            </div>
-          ))}
-        </FlipMove>
-      )}
-      {!isLoading && (
-        <FooterContainer>
-          <Flex flexDirection={['row', 'column']} mt={[3, 0]} flexWrap="wrap" alignItems={['center', 'flex-end']}>
-            <Flex
-              my={2}
-              mr={[3, 0]}
-              minWidth={100}
-              justifyContent="flex-end"
-              data-cy="transaction-amount"
-              flexDirection="column"
-            >
-              <Box alignSelf="flex-end">
-                <FooterLabel color="black.500">
-                  <FormattedMessage id="expense.page.total" defaultMessage="Page Total" />:
-                </FooterLabel>
-                <FooterLabel color="black.500">
-                  <ExpensesTotal
-                    expenses={expenses}
-                    collective={collective}
-                    host={host}
-                    expenseFieldForTotalAmount={expenseFieldForTotalAmount}
+        {isLoading ? (
+          [...new Array(nbPlaceholders)].map((_, idx) => (
+            // eslint-disable-next-line react/no-array-index-key
+            <ExpenseContainer key={idx} isFirst={!idx}>
+              <ExpenseBudgetItem isLoading />
+            </ExpenseContainer>
+          ))
+        ) : (
+          <FlipMove enterAnimation="fade" leaveAnimation="fade" disableAllAnimations={DISABLE_ANIMATIONS}>
+            {expenses.map((expense, idx) => (
+              <div
+                key={expense.id}
+                id={`expense-${expense.legacyId}`}
+                className={cn(idx && 'border-t border-gray-300')}
+                data-cy={`expense-${expense.status}`}
+              >
+                {view === 'submitter-new' ? (
+                  <SubmittedExpenseListItem
+                    expense={expense}
+                    onDuplicateClick={onDuplicateClick}
+                    onClick={() => {
+                      setOpenExpenseLegacyId(expense.legacyId);
+                    }}
                   />
-                </FooterLabel>
-              </Box>
-              <P fontSize="12px" color="black.600">
-                <FormattedMessage id="expense.page.description" defaultMessage="Payment processor fees may apply." />
-              </P>
+                ) : (
+                  <div className="flex items-start">
+                    {hasSelection && (
+                      <div className="pl-4 pt-5">
+                        <Checkbox
+                          checked={selection.isSelected(expense)}
+                          onCheckedChange={checked => selection.toggle(expense, checked === true)}
+                          aria-label={intl.formatMessage({ defaultMessage: 'Select row', id: '4pJVaS' })}
+                          data-cy="select-expense"
+                        />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <ExpenseBudgetItem
+                        isInverted={isInverted}
+                        expense={expense}
+                        host={host || expense.host}
+                        showProcessActions
+                        view={view}
+                        onDelete={onDelete}
+                        onProcess={onProcess}
+                        selected={
+                          openExpenseLegacyId === expense.legacyId ||
+                          (!openExpenseLegacyId && selectedExpenseIndex === idx)
+                        }
+                        expandExpense={e => {
+                          e.preventDefault();
+                          setOpenExpenseLegacyId(expense.legacyId);
+                        }}
+                        useDrawer={useDrawer}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </FlipMove>
+        )}
+        {!isLoading && (
+          <FooterContainer>
+            <Flex flexDirection={['row', 'column']} mt={[3, 0]} flexWrap="wrap" alignItems={['center', 'flex-end']}>
+              <Flex
+                my={2}
+                mr={[3, 0]}
+                minWidth={100}
+                justifyContent="flex-end"
+                data-cy="transaction-amount"
+                flexDirection="column"
+              >
+                <Box alignSelf="flex-end">
+                  <FooterLabel color="black.500">
+                    <FormattedMessage id="expense.page.total" defaultMessage="Page Total" />:
+                  </FooterLabel>
+                  <FooterLabel color="black.500">
+                    <ExpensesTotal
+                      expenses={expenses}
+                      collective={collective}
+                      host={host}
+                      expenseFieldForTotalAmount={expenseFieldForTotalAmount}
+                    />
+                  </FooterLabel>
+                </Box>
+                <P fontSize="12px" color="black.600">
+                  <FormattedMessage id="expense.page.description" defaultMessage="Payment processor fees may apply." />
+                </P>
+              </Flex>
             </Flex>
-          </Flex>
-        </FooterContainer>
-      )}
-    </StyledCard>
+          </FooterContainer>
+        )}
+      </StyledCard>
+    </React.Fragment>
   );
 };
 
@@ -257,6 +315,12 @@ ExpensesList.propTypes = {
   setOpenExpenseLegacyId: PropTypes.func,
   openExpenseLegacyId: PropTypes.number,
   onDuplicateClick: PropTypes.func,
+  /** If set, expenses can be selected to run the returned bulk actions on them */
+  getBulkActions: PropTypes.func,
+  /** The number of expenses matching the filters, across all pages */
+  totalCount: PropTypes.number,
+  /** If set, all the expenses matching the filters can be selected, not only the ones of the current page */
+  fetchAllMatchingExpenses: PropTypes.func,
 };
 
 export default ExpensesList;
@@ -0,0 +1,412 @@
+import React from 'react';
+import { useQuery } from '@apollo/client';
+import { Copy } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import type { ExpenseSimilarity, ExpenseSimilarityCriterion } from '../../lib/expenses/related-expenses';
+import { findRelatedExpenses } from '../../lib/expenses/related-expenses';
+import { API_V2_CONTEXT, gql } from '../../lib/graphql/helpers';
+import { cn } from '../../lib/utils';
+
+import DateTime from '../DateTime';
+import FormattedMoneyAmount from '../FormattedMoneyAmount';
+import Link from '../Link';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { Skeleton } from '../ui/Skeleton';
+
+import ExpenseStatusTag from './ExpenseStatusTag';
+
+/** Candidates are the last expenses of the payee, and the expenses of the host with a close amount */
+const MAX_CANDIDATES = 100;
+const CANDIDATES_AMOUNT_TOLERANCE = 0.05;
+
+const relatedExpenseFieldsFragment = gql`
+  fragment RelatedExpenseFields on Expense {
+    id
+    legacyId
+    description
+    status
+    createdAt
+    amountV2 {
+      valueInCents
+      currency
+    }
+    account {
+      id
+      slug
+      name
+    }
+    payee {
+      id
+      slug
+      name
+    }
+    items {
+      id
+      description
+      incurredAt
+      url
+      amountV2 {
+        valueInCents
+        currency
+      }
+      file {
+        id
+        name
+        size
+      }
+    }
+    attachedFiles {
+      id
+      url
+      name
+      info {
+        id
+        name
+        size
+      }
+    }
+  }
+`;
+
+export const relatedExpensesQuery = gql`
+  query RelatedExpenses(
+    $expense: ExpenseReferenceInput
+    $hasExpense: Boolean!
+    $payee: AccountReferenceInput
+    $hasPayee: Boolean!
+    $host: AccountReferenceInput
+    $hasHost: Boolean!
+    $minAmount: Int
+    $maxAmount: Int
+    $limit: Int!
+  ) {
+    expense(expense: $expense) @include(if: $hasExpense) {
+      id
+      ...RelatedExpenseFields
+    }
+    payeeExpenses: expenses(fromAccount: $payee, limit: $limit) @include(if: $hasPayee) {
+      nodes {
+        id
+        ...RelatedExpenseFields
+      }
+    }
+    hostExpenses: expenses(host: $host, minAmount: $minAmount, maxAmount: $maxAmount, limit: $limit)
+      @include(if: $hasHost) {
+      nodes {
+        id
+        ...RelatedExpenseFields
+      }
+    }
+  }
+  ${relatedExpenseFieldsFragment}
+`;
+
+/**
+ * Returns the variables of `relatedExpensesQuery` to find the candidates related to an expense.
+ */
+export const getRelatedExpensesQueryVariables = ({
+  expenseId,
+  payeeSlug,
+  hostSlug,
+  amount,
+}: {
+  expenseId?: string;
+  payeeSlug?: string;
+  hostSlug?: string;
+  amount?: number;
+}) => ({
+  expense: expenseId ? { id: expenseId } : null,
+  hasExpense: Boolean(expenseId),
+  payee: payeeSlug ? { slug: payeeSlug } : null,
+  hasPayee: Boolean(payeeSlug),
+  host: hostSlug ? { slug: hostSlug } : null,
+  hasHost: Boolean(hostSlug && amount),
+  minAmount: amount ? Math.floor(amount * (1 - CANDIDATES_AMOUNT_TOLERANCE)) : null,
+  maxAmount: amount ? Math.ceil(amount * (1 + CANDIDATES_AMOUNT_TOLERANCE)) : null,
+  limit: MAX_CANDIDATES,
+});
+
+/**
+ * Adds the `amount` and `currency` compared by `getExpenseSimilarity` to the expenses of `relatedExpensesQuery`.
+ */
+const toComparableExpense = <Expense extends { amountV2?: { valueInCents: number; currency: string } }>(
+  expense: Expense,
+): Expense & { amount?: number; currency?: string } => ({
+  ...expense,
+  amount: expense.amountV2?.valueInCents,
+  currency: expense.amountV2?.currency,
+});
+
+export const getRelatedExpensesCandidates = data =>
+  [...(data?.payeeExpenses?.nodes || []), ...(data?.hostExpenses?.nodes || [])].map(toComparableExpense);
+
+type RelatedExpense = {
+  id: string;
+  legacyId: number;
+  description: string;
+  status: string;
+  createdAt: string;
+  amountV2: { valueInCents: number; currency: string };
+  account: { slug: string; name: string };
+  payee: { slug: string; name: string };
+  items: {
+    id: string;
+    description?: string;
+    incurredAt?: string;
+    url?: string;
+    amountV2?: { valueInCents: number; currency: string };
+    file?: { name?: string; size?: number };
+  }[];
+  attachedFiles: { id: string; url: string; name?: string; info?: { name?: string; size?: number } }[];
+};
+
+const CriterionLabel = ({ criterion }: { criterion: ExpenseSimilarityCriterion }) => {
+  switch (criterion) {
+    case 'payee':
+      return <FormattedMessage defaultMessage="Same payee" id="TaxhRI" />;
+    case 'amount':
+      return <FormattedMessage defaultMessage="Similar amount" id="abw90d" />;
+    case 'dates':
+      return <FormattedMessage defaultMessage="Close dates" id="6usr/L" />;
+    case 'attachments':
+      return <FormattedMessage defaultMessage="Same attachment" id="mVNFLL" />;
+    case 'description':
+      return <FormattedMessage defaultMessage="Similar description" id="o4qxQe" />;
+  }
+};
+
+/** Criteria that match enough to be worth mentioning */
+const getMatchingCriteria = (similarity: ExpenseSimilarity) =>
+  (Object.keys(similarity.criteria) as ExpenseSimilarityCriterion[]).filter(
+    criterion => similarity.criteria[criterion] >= 0.5,
+  );
+
+const ComparisonRow = ({
+  label,
+  highlight,
+  render,
+  expenses,
+}: {
+  label: React.ReactNode;
+  highlight?: boolean;
+  render: (expense: RelatedExpense) => React.ReactNode;
+  expenses: [RelatedExpense, RelatedExpense];
+}) => (
+  <tr className={cn('border-b align-top', highlight && 'bg-yellow-50')}>
+    <th className="w-32 py-2 pr-2 text-left font-medium text-muted-foreground">{label}</th>
+    {expenses.map(expense => (
+      <td key={expense.id} className="py-2 pr-2">
+        {render(expense)}
+      </td>
+    ))}
+  </tr>
+);
+
+/**
+ * Displays two expenses side by side, highlighting what they have in common.
+ */
+export const ExpenseComparisonDialog = ({
+  expenses,
+  similarity,
+  onClose,
+}: {
+  expenses: [RelatedExpense, RelatedExpense];
+  similarity: ExpenseSimilarity;
+  onClose: () => void;
+}) => {
+  const matches = getMatchingCriteria(similarity);
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>
+            <FormattedMessage
+              defaultMessage="Compare expenses ({score}% similar)"
+              id="EU3kSu"
+              values={{ score: similarity.score }}
+            />
+          </DialogTitle>
+        </DialogHeader>
+        <div className="overflow-x-auto">
+          <table className="w-full table-fixed text-sm" data-cy="expense-comparison">
+            <thead>
+              <tr className="border-b">
+                <th className="w-32" />
+                {expenses.map(expense => (
+                  <th key={expense.id} className="py-2 pr-2 text-left">
+                    <Link href={`/${expense.account.slug}/expenses/${expense.legacyId}`} openInNewTab>
+                      #{expense.legacyId}
+                    </Link>{' '}
+                    <ExpenseStatusTag status={expense.status} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage defaultMessage="Collective" id="Collective" />}
+                render={expense => expense.account.name}
+              />
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage defaultMessage="Payee" id="SecurityScope.Payee" />}
+                highlight={matches.includes('payee')}
+                render={expense => expense.payee?.name}
+              />
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage id="Fields.description" defaultMessage="Description" />}
+                highlight={matches.includes('description')}
+                render={expense => expense.description}
+              />
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage id="Fields.amount" defaultMessage="Amount" />}
+                highlight={matches.includes('amount')}
+                render={expense => (
+                  <FormattedMoneyAmount amount={expense.amountV2.valueInCents} currency={expense.amountV2.currency} />
+                )}
+              />
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage defaultMessage="Submitted on" id="FT9rTI" />}
+                render={expense => <DateTime value={expense.createdAt} dateStyle="medium" />}
+              />
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage defaultMessage="Items" id="yNmV/R" />}
+                highlight={matches.includes('dates')}
+                render={expense => (
+                  <ul className="space-y-1">
+                    {expense.items.map(item => (
+                      <li key={item.id}>
+                        {item.description}
+                        <div className="text-xs text-muted-foreground">
+                          {item.incurredAt && <DateTime value={item.incurredAt} dateStyle="medium" />}
+                          {item.amountV2 && (
+                            <React.Fragment>
+                              {' · '}
+                              <FormattedMoneyAmount
+                                amount={item.amountV2.valueInCents}
+                                currency={item.amountV2.currency}
+                              />
+                            </React.Fragment>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              />
+              <ComparisonRow
+                expenses={expenses}
+                label={<FormattedMessage defaultMessage="Attachments" id="Expense.Attachments" />}
+                highlight={matches.includes('attachments')}
+                render={expense => (
+                  <ul className="space-y-1 break-all">
+                    {[
+                      ...expense.items.filter(item => item.url).map(item => ({ url: item.url, name: item.file?.name })),
+                      ...expense.attachedFiles.map(file => ({ url: file.url, name: file.info?.name || file.name })),
+                    ].map(file => (
+                      <li key={file.url}>
+                        <Link href={file.url} openInNewTab className="underline">
+                          {file.name || file.url.split('/').pop()}
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              />
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type RelatedExpensesProps = {
+  expense: { id: string; amount?: number; payee?: { slug?: string } };
+  host: { slug?: string } | null | undefined;
+};
+
+/**
+ * Lists the expenses that may be duplicates of `expense`: the same invoice submitted to different collectives or
+ * submitted again after a rejection. See `lib/expenses/related-expenses`.
+ */
+export const RelatedExpenses = ({ expense, host }: RelatedExpensesProps) => {
+  const intl = useIntl();
+  const [comparedExpenseId, setComparedExpenseId] = React.useState<string>(null);
+  const { data, loading } = useQuery(relatedExpensesQuery, {
+    context: API_V2_CONTEXT,
+    variables: getRelatedExpensesQueryVariables({
+      expenseId: expense.id,
+      payeeSlug: expense.payee?.slug,
+      hostSlug: host?.slug,
+      amount: expense.amount,
+    }),
+  });
+
+  const relatedExpenses = React.useMemo(
+    () =>
+      data?.expense ? findRelatedExpenses(toComparableExpense(data.expense), getRelatedExpensesCandidates(data)) : [],
+    [data],
+  );
+  const compared = relatedExpenses.find(related => related.expense.id === comparedExpenseId);
+
+  if (loading && !data) {
+    return <Skeleton className="mt-4 h-16 w-full" />;
+  } else if (!relatedExpenses.length) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm" data-cy="related-expenses">
+      <div className="mb-2 flex items-center gap-2 font-medium">
+        <Copy size={16} className="text-orange-600" />
+        <FormattedMessage defaultMessage="Possibly related expenses" id="ZX6xJ0" />
+      </div>
+      <ul className="space-y-2">
+        {relatedExpenses.map(({ expense: related, similarity }) => (
+          <li key={related.id} className="flex flex-wrap items-center gap-2">
+            <Badge type={similarity.score >= 80 ? 'error' : 'warning'} size="xs">
+              {similarity.score}%
+            </Badge>
+            <Link href={`/${related.account.slug}/expenses/${related.legacyId}`} openInNewTab className="font-medium">
+              #{related.legacyId}
+            </Link>
+            <span className="max-w-[200px] truncate">{related.description}</span>
+            <span className="text-muted-foreground">
+              {intl.formatMessage(
+                { defaultMessage: 'to {collective}', id: 'Mj+101' },
+                { collective: related.account.name },
+              )}
+            </span>
+            <ExpenseStatusTag status={related.status} />
+            <span className="text-xs text-muted-foreground">
+              {intl.formatList(
+                getMatchingCriteria(similarity).map(criterion => (
+                  <CriterionLabel key={criterion} criterion={criterion} />
+                )),
+              )}
+            </span>
+            <Button size="xs" variant="outline" className="ml-auto" onClick={() => setComparedExpenseId(related.id)}>
+              <FormattedMessage defaultMessage="Compare" id="493J7R" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {compared && (
+        <ExpenseComparisonDialog
+          expenses={[data.expense, compared.expense]}
+          similarity={compared.similarity}
+          onClose={() => setComparedExpenseId(null)}
+        />
+      )}
+    </div>
+  );
+};
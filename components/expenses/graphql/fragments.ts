@@ -829,3 +829,49 @@ export const expensesListAdminFieldsFragment = gql`
     }
   }
 `;
+
+const approvalWorkflowAccountFieldsFragment = gql`
+  fragment ApprovalWorkflowAccountFields on Account {
+    id
+    slug
+    name
+    type
+    ... on AccountWithParent {
+      parent {
+        id
+        slug
+      }
+    }
+  }
+`;
+
+/**
+ * The fields needed to find the approval workflow that applies to an expense, and whether the logged in user is one
+ * of its approvers. See `lib/expenses/useExpenseApprovalWorkflow`.
+ */
+export const expenseApprovalWorkflowFieldsFragment = gql`
+  fragment ExpenseApprovalWorkflowFields on Expense {
+    id
+    legacyId
+    status
+    type
+    amountInHostCurrency: amountV2(currencySource: HOST) {
+      valueInCents
+      currency
+    }
+    accountingCategory {
+      id
+    }
+    account {
+      id
+      ...ApprovalWorkflowAccountFields
+    }
+    host {
+      id
+      currency
+      settings
+      ...ApprovalWorkflowAccountFields
+    }
+  }
+  ${approvalWorkflowAccountFieldsFragment}
+`;
@@ -51,6 +51,11 @@ const updateExpenseItemWithUploadResult = (
     }
   }
 
+  // The description usually holds the merchant name
+  if (parsingResult.description && !itemValues.description) {
+    itemValues.description = parsingResult.description;
+  }
+
   set(formValues, itemPath, itemValues);
 
   return true;
@@ -186,3 +191,53 @@ export const compareItemOCRValues = (item: ExpenseItemFormValues): ExpenseOCRVal
 export const itemHasOCR = (item: ExpenseItemFormValues): boolean => {
   return Boolean(item.__parsingResult);
 };
+
+/** Below this confidence (in %), the scanned values should be reviewed carefully */
+export const OCR_LOW_CONFIDENCE_THRESHOLD = 80;
+
+/**
+ * Returns the confidence (in %) of the value scanned for `field`, or null if nothing was scanned for it. The API
+ * only returns a confidence for the whole document, which therefore applies to all the scanned fields.
+ */
+export const getItemOCRFieldConfidence = (item: ExpenseItemFormValues, field: FieldsWithOCRSupport): number | null => {
+  const ocrValue = get(item, ITEM_OCR_FIELD_MAPPING[field]);
+  const confidence = item.__parsingResult?.confidence;
+  return isNil(ocrValue) || isNil(confidence) ? null : confidence;
+};
+
+export type ExpenseWithReceipts = {
+  legacyId: number;
+  description?: string;
+  account?: { slug: string };
+  items?: Array<{
+    incurredAt?: string;
+    amountV2?: { valueInCents: number; currency: string };
+    file?: { name?: string; size?: number } | null;
+  }>;
+};
+
+/**
+ * Finds the other expenses that seem to use the same receipt as `item`: either the same file (same name and size),
+ * or an item with the same scanned amount and date.
+ */
+export const findOtherExpensesWithSameReceipt = (
+  item: ExpenseItemFormValues,
+  otherExpenses: ExpenseWithReceipts[],
+): ExpenseWithReceipts[] => {
+  const file = item.__file;
+  const parsingResult = item.__parsingResult;
+  const isSameFile = otherFile =>
+    Boolean(file?.name && !isNil(file.size) && otherFile?.name === file.name && otherFile.size === file.size);
+  const isSameScannedValues = otherItem =>
+    Boolean(
+      parsingResult?.amount?.valueInCents &&
+        parsingResult.date &&
+        otherItem.amountV2?.valueInCents === parsingResult.amount.valueInCents &&
+        otherItem.amountV2.currency === parsingResult.amount.currency &&
+        otherItem.incurredAt?.split('T')[0] === parsingResult.date.split('T')[0],
+    );
+
+  return otherExpenses.filter(expense =>
+    expense.items?.some(otherItem => isSameFile(otherItem.file) || isSameScannedValues(otherItem)),
+  );
+};
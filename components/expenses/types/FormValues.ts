@@ -15,7 +15,7 @@ export interface ExpenseItemFormValues {
   __isNew?: boolean;
   __parsingResult?: UploadFileResult['parsingResult']['expense'];
   __isUploading?: boolean;
-  __file?: { name?: string; path?: string };
+  __file?: { name?: string; path?: string; size?: number };
   __fromInput?: 'multi';
 }
 
@@ -43,6 +43,7 @@ export const managedOrderFragment = gql`
     status
     description
     memo
+    customData
     createdAt
     processedAt
     hostFeePercent
@@ -50,6 +51,7 @@ export const managedOrderFragment = gql`
     tier {
       id
       name
+      customFields
     }
     tax {
       id
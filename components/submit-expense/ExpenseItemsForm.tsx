@@ -4,22 +4,72 @@ import dayjs from 'dayjs';
 import { FormikProvider } from 'formik';
 import { get } from 'lodash';
 import { PlusIcon } from 'lucide-react';
+import type { IntlShape } from 'react-intl';
 import { FormattedMessage, useIntl } from 'react-intl';
 
+import { formatCurrency } from '../../lib/currency-utils';
+import type { AllowanceRates } from '../../lib/expenses/allowances';
+import {
+  computeAllowanceAmount,
+  DistanceUnit,
+  ExpenseItemKind,
+  getAvailableAllowanceKinds,
+  getPerDiemRate,
+} from '../../lib/expenses/allowances';
 import type { Currency, CurrencyExchangeRateInput } from '../../lib/graphql/types/v2/graphql';
 import { CurrencyExchangeRateSourceType } from '../../lib/graphql/types/v2/graphql';
+import { getCountryDisplayName } from '../../lib/i18n/countries';
 import { isValidUrl } from '../../lib/utils';
 import { attachmentDropzoneParams } from '../expenses/lib/attachments';
 import { FX_RATE_ERROR_THRESHOLD, getExpenseExchangeRateWarningOrError } from '../expenses/lib/utils';
 
 import { ExchangeRate } from '../ExchangeRate';
+import FormattedMoneyAmount from '../FormattedMoneyAmount';
+import InputTypeCountry from '../InputTypeCountry';
 import StyledDropzone from '../StyledDropzone';
 import StyledInput from '../StyledInput';
 import StyledInputAmount from '../StyledInputAmount';
 import StyledInputFormikField from '../StyledInputFormikField';
 import { Button } from '../ui/Button';
 
-import type { ExpenseForm } from './useExpenseForm';
+import type { ExpenseForm, ExpenseItem } from './useExpenseForm';
+
+const i18nAllowanceKind = (intl: IntlShape, kind: ExpenseItemKind) =>
+  kind === ExpenseItemKind.MILEAGE
+    ? intl.formatMessage({ defaultMessage: 'Mileage', id: 'ReNUFV' })
+    : intl.formatMessage({ defaultMessage: 'Per diem', id: 'MZXWTJ' });
+
+/**
+ * The description of allowance items is generated from their details, so that reviewers can check the amount.
+ */
+const getAllowanceItemDescription = (
+  intl: IntlShape,
+  item: ExpenseItem,
+  rates: AllowanceRates,
+  currency: string,
+): string => {
+  const formatRate = (rate: number) => formatCurrency(rate, currency as Currency, { locale: intl.locale });
+  if (computeAllowanceAmount(rates, item) === null) {
+    return i18nAllowanceKind(intl, item.kind);
+  } else if (item.kind === ExpenseItemKind.MILEAGE) {
+    return intl.formatMessage(
+      { defaultMessage: 'Mileage from {from} to {to}: {distance} {unit} at {rate}/{unit}', id: 'JQOlC4' },
+      { ...item.mileage, unit: rates.mileage.unit, rate: formatRate(rates.mileage.rate) },
+    );
+  } else {
+    return intl.formatMessage(
+      {
+        defaultMessage: 'Per diem in {country}: {days, plural, one {# day} other {# days}} at {rate}/day',
+        id: 'XKH/Bo',
+      },
+      {
+        country: getCountryDisplayName(intl, item.perDiem.country),
+        days: item.perDiem.days,
+        rate: formatRate(getPerDiemRate(rates, item.perDiem.country)),
+      },
+    );
+  }
+};
 
 type ExpenseItemsFormProps = {
   className?: string;
@@ -27,6 +77,9 @@ type ExpenseItemsFormProps = {
 };
 
 export function ExpenseItemsForm(props: ExpenseItemsFormProps) {
+  const intl = useIntl();
+  const allowanceKinds = getAvailableAllowanceKinds(props.form.options.allowanceRates || {});
+
   return (
     <div className={clsx(props.className)}>
       <div className="my-4 flex items-center justify-between gap-2">
@@ -57,6 +110,41 @@ export function ExpenseItemsForm(props: ExpenseItemsFormProps) {
             <FormattedMessage id="ExpenseForm.AddLineItem" defaultMessage="Add new item" />
           </span>
         </Button>
+        {allowanceKinds.map(kind => (
+          <Button
+            key={kind}
+            className="flex w-fit gap-1 rounded-full px-3 py-1"
+            variant="outline"
+            size="icon-xs"
+            data-cy={`add-${kind.toLowerCase()}-item`}
+            onClick={() => {
+              props.form.setFieldValue('expenseItems', [
+                ...(props.form.values.expenseItems ?? []),
+                {
+                  kind,
+                  ...(kind === ExpenseItemKind.MILEAGE
+                    ? { mileage: { from: '', to: '', distance: null } }
+                    : { perDiem: { country: null, days: null } }),
+                  description: i18nAllowanceKind(intl, kind),
+                  incurredAt: null,
+                  amount: {
+                    valueInCents: 0,
+                    currency: props.form.options.host?.currency,
+                  },
+                },
+              ]);
+            }}
+          >
+            <PlusIcon size={12} />
+            <span className="text-xs font-medium">
+              {kind === ExpenseItemKind.MILEAGE ? (
+                <FormattedMessage defaultMessage="Add mileage" id="NmFqnY" />
+              ) : (
+                <FormattedMessage defaultMessage="Add per diem" id="x49bWR" />
+              )}
+            </span>
+          </Button>
+        ))}
       </div>
       <div className="flex flex-col gap-4">
         <FormikProvider value={props.form}>
@@ -127,7 +215,7 @@ function ExpenseItemForm(props: ExpenseItemFormProps) {
   return (
     <FormikProvider value={props.form}>
       <div className="flex gap-4">
-        {props.form.options.allowExpenseItemAttachment && (
+        {props.form.options.allowExpenseItemAttachment && !expenseItem.kind && (
           <div className="flex flex-col">
             <StyledInputFormikField
               name={`${props.fieldName}.url`}
@@ -163,93 +251,77 @@ function ExpenseItemForm(props: ExpenseItemFormProps) {
           </div>
         )}
         <div className="flex flex-grow flex-col gap-4">
-          <StyledInputFormikField
-            name={`${props.fieldName}.description`}
-            labelFontWeight="bold"
-            labelColor="slate.800"
-            labelFontSize="16px"
-            labelProps={{ my: 2, letterSpacing: 0 }}
-            label={<FormattedMessage id="Fields.description" defaultMessage="Description" />}
-            hint={
-              <FormattedMessage
-                defaultMessage={`Specify item or activity and timeframe, e.g. "Volunteer Training, April 2023"`}
-                id="rpqkOE"
-              />
-            }
-          >
-            {({ field }) => (
-              <StyledInput
-                {...field}
-                onBlur={e => {
-                  field.onBlur(e);
-                  props.form.setFieldTouched(`${props.fieldName}.url`, true);
-                }}
-                className="w-full"
-              />
-            )}
-          </StyledInputFormikField>
-          <div className="flex gap-4">
-            <StyledInputFormikField
-              flexGrow={1}
-              name={`${props.fieldName}.incurredAt`}
-              labelFontWeight="bold"
-              labelColor="slate.800"
-              labelFontSize="16px"
-              labelProps={{ my: 2, letterSpacing: 0 }}
-              label={<FormattedMessage id="expense.incurredAt" defaultMessage="Date" />}
-            >
-              {({ field }) => (
-                <StyledInput
-                  {...field}
-                  onChange={e => {
-                    props.form.setFieldTouched(field.name);
-                    props.form.setFieldValue(field.name, dayjs(e.target.value).utc().toDate());
-                    e.target.value;
-                  }}
-                  value={field.value ? dayjs.utc(field.value).toDate().toISOString().substring(0, 10) : null}
-                  type="date"
-                  className="w-full"
-                />
-              )}
-            </StyledInputFormikField>
+          {expenseItem.kind ? (
+            <AllowanceItemFields fieldName={props.fieldName} form={props.form} />
+          ) : (
+            <React.Fragment>
+              <StyledInputFormikField
+                name={`${props.fieldName}.description`}
+                labelFontWeight="bold"
+                labelColor="slate.800"
+                labelFontSize="16px"
+                labelProps={{ my: 2, letterSpacing: 0 }}
+                label={<FormattedMessage id="Fields.description" defaultMessage="Description" />}
+                hint={
+                  <FormattedMessage
+                    defaultMessage={`Specify item or activity and timeframe, e.g. "Volunteer Training, April 2023"`}
+                    id="rpqkOE"
+                  />
+                }
+              >
+                {({ field }) => (
+                  <StyledInput
+                    {...field}
+                    onBlur={e => {
+                      field.onBlur(e);
+                      props.form.setFieldTouched(`${props.fieldName}.url`, true);
+                    }}
+                    className="w-full"
+                  />
+                )}
+              </StyledInputFormikField>
+              <div className="flex gap-4">
+                <ExpenseItemDateField fieldName={props.fieldName} form={props.form} />
 
-            <StyledInputFormikField
-              flexGrow={1}
-              name={`${props.fieldName}.amount.valueInCents`}
-              labelFontWeight="bold"
-              labelColor="slate.800"
-              labelFontSize="16px"
-              labelProps={{ my: 2, letterSpacing: 0 }}
-              label={<FormattedMessage id="Fields.amount" defaultMessage="Amount" />}
-            >
-              {({ field }) => (
-                <StyledInputAmount
-                  {...field}
-                  error={field.error || props.form.getFieldMeta(`${props.fieldName}.amount.currency`).error}
-                  hasCurrencyPicker={props.form.options.allowExpenseItemCurrencyChange}
-                  onCurrencyChange={onCurrencyChange}
-                  value={field.value}
-                  currency={get(props.form.values, `${props.fieldName}.amount.currency`, null)}
-                  currencyDisplay="CODE"
-                  maxWidth="100%"
-                  placeholder="0.00"
-                  onBlur={onAmountBlur}
-                  onChange={onAmountChange}
-                  exchangeRate={get(props.form.values, `${props.fieldName}.amount.exchangeRate`, 0)}
-                  minFxRate={
-                    get(props.form.values, `${props.fieldName}.amount.referenceExchangeRate.value`, 0) *
-                      (1 - FX_RATE_ERROR_THRESHOLD) || undefined
-                  }
-                  maxFxRate={
-                    get(props.form.values, `${props.fieldName}.amount.referenceExchangeRate.value`, 0) *
-                      (1 + FX_RATE_ERROR_THRESHOLD) || undefined
-                  }
-                  showErrorIfEmpty={false} // Validation is already done in `ExpenseForm`
-                  onExchangeRateChange={onAmountExchangeRateChange}
-                />
-              )}
-            </StyledInputFormikField>
-          </div>
+                <StyledInputFormikField
+                  flexGrow={1}
+                  name={`${props.fieldName}.amount.valueInCents`}
+                  labelFontWeight="bold"
+                  labelColor="slate.800"
+                  labelFontSize="16px"
+                  labelProps={{ my: 2, letterSpacing: 0 }}
+                  label={<FormattedMessage id="Fields.amount" defaultMessage="Amount" />}
+                >
+                  {({ field }) => (
+                    <StyledInputAmount
+                      {...field}
+                      error={field.error || props.form.getFieldMeta(`${props.fieldName}.amount.currency`).error}
+                      hasCurrencyPicker={props.form.options.allowExpenseItemCurrencyChange}
+                      onCurrencyChange={onCurrencyChange}
+                      value={field.value}
+                      currency={get(props.form.values, `${props.fieldName}.amount.currency`, null)}
+                      currencyDisplay="CODE"
+                      maxWidth="100%"
+                      placeholder="0.00"
+                      onBlur={onAmountBlur}
+                      onChange={onAmountChange}
+                      exchangeRate={get(props.form.values, `${props.fieldName}.amount.exchangeRate`, 0)}
+                      minFxRate={
+                        get(props.form.values, `${props.fieldName}.amount.referenceExchangeRate.value`, 0) *
+                          (1 - FX_RATE_ERROR_THRESHOLD) || undefined
+                      }
+                      maxFxRate={
+                        get(props.form.values, `${props.fieldName}.amount.referenceExchangeRate.value`, 0) *
+                          (1 + FX_RATE_ERROR_THRESHOLD) || undefined
+                      }
+                      showErrorIfEmpty={false} // Validation is already done in `ExpenseForm`
+                      onExchangeRateChange={onAmountExchangeRateChange}
+                    />
+                  )}
+                </StyledInputFormikField>
+              </div>
+            </React.Fragment>
+          )}
           <div className="self-end">
             {Boolean(
               expenseItem.amount?.currency && props.form.values.expenseCurrency !== expenseItem.amount?.currency,
@@ -281,3 +353,174 @@ function ExpenseItemForm(props: ExpenseItemFormProps) {
     </FormikProvider>
   );
 }
+
+function ExpenseItemDateField(props: ExpenseItemFormProps) {
+  return (
+    <StyledInputFormikField
+      flexGrow={1}
+      name={`${props.fieldName}.incurredAt`}
+      labelFontWeight="bold"
+      labelColor="slate.800"
+      labelFontSize="16px"
+      labelProps={{ my: 2, letterSpacing: 0 }}
+      label={<FormattedMessage id="expense.incurredAt" defaultMessage="Date" />}
+    >
+      {({ field }) => (
+        <StyledInput
+          {...field}
+          onChange={e => {
+            props.form.setFieldTouched(field.name);
+            props.form.setFieldValue(field.name, dayjs(e.target.value).utc().toDate());
+            e.target.value;
+          }}
+          value={field.value ? dayjs.utc(field.value).toDate().toISOString().substring(0, 10) : null}
+          type="date"
+          className="w-full"
+        />
+      )}
+    </StyledInputFormikField>
+  );
+}
+
+const parseNumber = (value: string): number | null => (value === '' ? null : Number(value));
+
+function AllowanceItemFields(props: ExpenseItemFormProps) {
+  const intl = useIntl();
+  const expenseItem: ExpenseItem = get(props.form.values, props.fieldName);
+  const rates = props.form.options.allowanceRates || {};
+  const currency = props.form.options.host?.currency;
+  const { setFieldValue, setFieldTouched } = props.form;
+
+  const updateDetails = (fieldName: string, changes: Pick<ExpenseItem, 'mileage' | 'perDiem'>) => {
+    const item = { ...expenseItem, ...changes };
+    setFieldTouched(`${props.fieldName}.${fieldName}`, true, false);
+    setFieldValue(props.fieldName, {
+      ...item,
+      description: getAllowanceItemDescription(intl, item, rates, currency),
+      amount: { ...item.amount, valueInCents: computeAllowanceAmount(rates, item) ?? 0, currency },
+    });
+  };
+
+  const fieldProps = {
+    labelFontWeight: 'bold',
+    labelColor: 'slate.800',
+    labelFontSize: '16px',
+    labelProps: { my: 2, letterSpacing: 0 },
+    flexGrow: 1,
+  };
+
+  return (
+    <React.Fragment>
+      <div className="text-sm font-medium text-slate-700">{expenseItem.description}</div>
+      {expenseItem.kind === ExpenseItemKind.MILEAGE ? (
+        <div className="flex gap-4">
+          <StyledInputFormikField
+            {...fieldProps}
+            name={`${props.fieldName}.mileage.from`}
+            label={<FormattedMessage defaultMessage="From" id="dM+p3/" />}
+          >
+            {({ field }) => (
+              <StyledInput
+                {...field}
+                className="w-full"
+                onChange={e =>
+                  updateDetails('mileage.from', { mileage: { ...expenseItem.mileage, from: e.target.value } })
+                }
+              />
+            )}
+          </StyledInputFormikField>
+          <StyledInputFormikField
+            {...fieldProps}
+            name={`${props.fieldName}.mileage.to`}
+            label={<FormattedMessage id="To" defaultMessage="To" />}
+          >
+            {({ field }) => (
+              <StyledInput
+                {...field}
+                className="w-full"
+                onChange={e => updateDetails('mileage.to', { mileage: { ...expenseItem.mileage, to: e.target.value } })}
+              />
+            )}
+          </StyledInputFormikField>
+          <StyledInputFormikField
+            {...fieldProps}
+            name={`${props.fieldName}.mileage.distance`}
+            label={
+              <FormattedMessage
+                defaultMessage="Distance ({unit})"
+                id="WHT9dF"
+                values={{ unit: rates.mileage?.unit || DistanceUnit.KM }}
+              />
+            }
+          >
+            {({ field }) => (
+              <StyledInput
+                {...field}
+                type="number"
+                min={0}
+                step="any"
+                className="w-full"
+                value={field.value ?? ''}
+                onChange={e =>
+                  updateDetails('mileage.distance', {
+                    mileage: { ...expenseItem.mileage, distance: parseNumber(e.target.value) },
+                  })
+                }
+              />
+            )}
+          </StyledInputFormikField>
+        </div>
+      ) : (
+        <div className="flex gap-4">
+          <StyledInputFormikField
+            {...fieldProps}
+            name={`${props.fieldName}.perDiem.country`}
+            label={<FormattedMessage id="collective.country.label" defaultMessage="Country" />}
+          >
+            {({ field }) => (
+              <InputTypeCountry
+                inputId={field.id}
+                name={field.name}
+                value={field.value}
+                error={field.error}
+                onChange={country => updateDetails('perDiem.country', { perDiem: { ...expenseItem.perDiem, country } })}
+              />
+            )}
+          </StyledInputFormikField>
+          <StyledInputFormikField
+            {...fieldProps}
+            name={`${props.fieldName}.perDiem.days`}
+            label={<FormattedMessage defaultMessage="Number of days" id="BtS6aB" />}
+          >
+            {({ field }) => (
+              <StyledInput
+                {...field}
+                type="number"
+                min={1}
+                step={1}
+                className="w-full"
+                value={field.value ?? ''}
+                onChange={e =>
+                  updateDetails('perDiem.days', {
+                    perDiem: { ...expenseItem.perDiem, days: parseNumber(e.target.value) },
+                  })
+                }
+              />
+            )}
+          </StyledInputFormikField>
+        </div>
+      )}
+      <div className="flex items-end gap-4">
+        <ExpenseItemDateField fieldName={props.fieldName} form={props.form} />
+        <div className="flex-grow">
+          <div className="my-2 text-base font-bold text-slate-800">
+            <FormattedMessage id="Fields.amount" defaultMessage="Amount" />
+          </div>
+          <div className="flex h-[38px] items-center" data-cy={`${props.fieldName}.amount`}>
+            <FormattedMoneyAmount amount={expenseItem.amount?.valueInCents} currency={currency} />
+          </div>
+        </div>
+      </div>
+    </React.Fragment>
+  );
+}
@@ -1,17 +1,22 @@
 import React from 'react';
 import { get, isEmpty } from 'lodash';
 import { AlertOctagon } from 'lucide-react';
-import { FormattedMessage } from 'react-intl';
+import { FormattedMessage, useIntl } from 'react-intl';
 
+import { ExpensePolicyRuleSeverity } from '../../lib/expenses/expense-policy-rules';
+
+import { getExpensePolicyViolationMessage } from '../expenses/ExpensePolicyViolations';
 import FormattedMoneyAmount from '../FormattedMoneyAmount';
 
 import type { ExpenseForm } from './useExpenseForm';
+import { getExpenseFormPolicyViolations } from './useExpenseForm';
 
 type ExpenseWarningsProps = {
   form: ExpenseForm;
 };
 
 export function ExpenseWarnings(props: ExpenseWarningsProps) {
+  const intl = useIntl();
   if (!props.form.options.account) {
     return null;
   }
@@ -84,6 +89,15 @@ export function ExpenseWarnings(props: ExpenseWarningsProps) {
     }
   }
 
+  getExpenseFormPolicyViolations(props.form.values, props.form.options).forEach((violation, index) => {
+    if (violation.severity === ExpensePolicyRuleSeverity.WARNING) {
+      warnings.push({
+        id: `policy_violation_${index}`,
+        content: getExpensePolicyViolationMessage(intl, violation),
+      });
+    }
+  });
+
   if (warnings.length === 0) {
     return null;
   }
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { FormattedMessage } from 'react-intl';
+
+import type { LocalExpenseDraft } from '../../lib/expenses/local-expense-drafts';
+
+import DateTime from '../DateTime';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+
+type LocalExpenseDraftsListProps = {
+  drafts: LocalExpenseDraft[];
+  onResume: (draft: LocalExpenseDraft) => void;
+  onDiscard: (draft: LocalExpenseDraft) => void;
+};
+
+/**
+ * Lists the expense drafts saved on this device that haven't been submitted yet.
+ */
+export const LocalExpenseDraftsList = ({ drafts, onResume, onDiscard }: LocalExpenseDraftsListProps) => {
+  return (
+    <ul className="divide-y rounded-lg border">
+      {drafts.map(draft => (
+        <li key={draft.id} className="flex items-center gap-3 px-3 py-2" data-cy="local-expense-draft">
+          <div className="min-w-0 flex-grow">
+            <div className="truncate text-sm font-medium">
+              {draft.values.title || <FormattedMessage defaultMessage="Untitled expense" id="24KH9j" />}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>{draft.collectiveSlug}</span>
+              <span>·</span>
+              <DateTime value={draft.updatedAt} dateStyle="medium" timeStyle="short" />
+              {draft.pendingSubmission && (
+                <Badge type="warning" size="xs">
+                  <FormattedMessage defaultMessage="Not sent" id="6DjMvo" />
+                </Badge>
+              )}
+            </div>
+          </div>
+          <Button type="button" variant="outline" size="xs" onClick={() => onResume(draft)}>
+            <FormattedMessage defaultMessage="Resume" id="3y9DGg" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon-xs" onClick={() => onDiscard(draft)}>
+            <Trash2 size={16} />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+};
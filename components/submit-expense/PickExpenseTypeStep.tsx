@@ -1,6 +1,7 @@
 import React from 'react';
 import { FormattedMessage } from 'react-intl';
 
+import { getAllowanceRates, getAvailableAllowanceKinds } from '../../lib/expenses/allowances';
 import { ExpenseType } from '../../lib/graphql/types/v2/graphql';
 
 import HTMLContent from '../HTMLContent';
@@ -15,6 +16,7 @@ type PickExpenseTypeFormProps = {
 
 export function PickExpenseTypeForm(props: PickExpenseTypeFormProps) {
   const supportedExpenseTypes = props.form.options.supportedExpenseTypes || [];
+  const hasAllowances = getAvailableAllowanceKinds(getAllowanceRates(props.form.options.host)).length > 0;
 
   return (
     <div className="flex-grow pr-2">
@@ -34,10 +36,17 @@ export function PickExpenseTypeForm(props: PickExpenseTypeFormProps) {
           <ExpenseTypeOptionButton
             title={<FormattedMessage id="ExpenseForm.ReceiptLabel" defaultMessage="Reimbursement" />}
             subtitle={
-              <FormattedMessage
-                defaultMessage="I am asking to be reimbursed for something I've already paid for"
-                id="DCHS89"
-              />
+              <React.Fragment>
+                <FormattedMessage
+                  defaultMessage="I am asking to be reimbursed for something I've already paid for"
+                  id="DCHS89"
+                />
+                {hasAllowances && (
+                  <div className="mt-1 text-muted-foreground">
+                    <FormattedMessage defaultMessage="Including mileage and per diem allowances" id="fRwHCr" />
+                  </div>
+                )}
+              </React.Fragment>
             }
             onClick={() => props.form.setFieldValue('expenseTypeOption', ExpenseType.RECEIPT)}
             checked={props.form.values.expenseTypeOption === ExpenseType.RECEIPT}
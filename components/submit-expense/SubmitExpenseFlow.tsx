@@ -1,6 +1,6 @@
 import React from 'react';
 import type { FetchResult } from '@apollo/client';
-import { gql, useMutation } from '@apollo/client';
+import { gql, useApolloClient, useMutation } from '@apollo/client';
 import clsx from 'clsx';
 import { isEmpty, pick } from 'lodash';
 import { ArrowLeft, ArrowRight, ChevronDown, ChevronUp, X } from 'lucide-react';
@@ -9,6 +9,15 @@ import { defineMessages, FormattedMessage, useIntl } from 'react-intl';
 import { AnalyticsEvent } from '../../lib/analytics/events';
 import { track } from '../../lib/analytics/plausible';
 import { i18nGraphqlException } from '../../lib/errors';
+import type { LocalExpenseDraft } from '../../lib/expenses/local-expense-drafts';
+import {
+  getLocalExpenseDraft,
+  getLocalExpenseDraftId,
+  getLocalExpenseDrafts,
+  removeLocalExpenseDraft,
+  saveLocalExpenseDraft,
+} from '../../lib/expenses/local-expense-drafts';
+import { findRelatedExpenses, getDuplicateExpensesSettings } from '../../lib/expenses/related-expenses';
 import { API_V2_CONTEXT } from '../../lib/graphql/helpers';
 import type {
   CreateExpenseFromDashboardMutation,
@@ -22,8 +31,16 @@ import type {
 } from '../../lib/graphql/types/v2/graphql';
 import { ExpenseStatus } from '../../lib/graphql/types/v2/graphql';
 import useLoggedInUser from '../../lib/hooks/useLoggedInUser';
+import { getCollectivePageRoute } from '../../lib/url-helpers';
 
+import {
+  getRelatedExpensesCandidates,
+  getRelatedExpensesQueryVariables,
+  relatedExpensesQuery,
+} from '../expenses/RelatedExpenses';
+import { getI18nLink } from '../I18nFormatters';
 import LoadingPlaceholder from '../LoadingPlaceholder';
+import MessageBox from '../MessageBox';
 import { Survey, SURVEY_KEY } from '../Survey';
 import { Button } from '../ui/Button';
 import { Dialog, DialogContent, DialogFooter } from '../ui/Dialog';
@@ -32,10 +49,11 @@ import { useToast } from '../ui/useToast';
 
 import { ExpenseWarnings } from './ExpenseWarnings';
 import { useNavigationWarning, useSteps } from './hooks';
+import { LocalExpenseDraftsList } from './LocalExpenseDrafts';
 import type { ExpenseFlowStep } from './Steps';
 import { ExpenseStepOrder, Steps } from './Steps';
 import { SubmittedExpense } from './SubmittedExpense';
-import type { ExpenseForm } from './useExpenseForm';
+import type { ExpenseForm, ExpenseFormValues } from './useExpenseForm';
 import { useExpenseForm } from './useExpenseForm';
 
 type SubmitExpenseFlowProps = {
@@ -43,6 +61,8 @@ type SubmitExpenseFlowProps = {
   expenseId?: number;
   draftKey?: string;
   duplicateExpense?: boolean;
+  /** The id of a draft saved on this device to resume, see `lib/expenses/local-expense-drafts` */
+  localDraftId?: string;
 };
 
 const I18nMessages = defineMessages({
@@ -52,8 +72,11 @@ const I18nMessages = defineMessages({
   },
 });
 
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
 export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
   const { toast } = useToast();
+  const apolloClient = useApolloClient();
   const intl = useIntl();
 
   const startOptions = React.useRef({
@@ -62,9 +85,18 @@ export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
     expenseId: props.expenseId,
   });
 
+  // Drafts are only saved on this device for new expenses, drafts shared with a key are already saved on the API
+  const canSaveLocalDraft = !props.draftKey && (!props.expenseId || props.duplicateExpense);
+
   const formRef = React.useRef<HTMLFormElement>();
   const [submittedExpenseId, setSubmittedExpenseId] = React.useState(null);
+  const [isWaitingForConnection, setIsWaitingForConnection] = React.useState(false);
+  const [localDrafts, setLocalDrafts] = React.useState<LocalExpenseDraft[]>([]);
+  const [isLocalDraftsPromptDismissed, setIsLocalDraftsPromptDismissed] = React.useState(
+    !canSaveLocalDraft || Boolean(props.duplicateExpense),
+  );
   const { LoggedInUser } = useLoggedInUser();
+  const accountSlug = LoggedInUser?.collective?.slug;
   const [createExpense] = useMutation<CreateExpenseFromDashboardMutation, CreateExpenseFromDashboardMutationVariables>(
     gql`
       mutation CreateExpenseFromDashboard($expenseCreateInput: ExpenseCreateInput!, $account: AccountReferenceInput!) {
@@ -113,6 +145,54 @@ export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
     },
   );
 
+  const [blockedDuplicates, setBlockedDuplicates] = React.useState<{
+    host: ExpenseForm['options']['host'];
+    legacyIds: number[];
+  }>(null);
+  /**
+   * Looks for existing expenses that are too similar to the submitted one, when the host blocks them. If the lookup
+   * fails, the expense is submitted anyway: the reviewers still see the related expenses.
+   */
+  const getLikelyDuplicates = async (
+    values: ExpenseFormValues,
+    formOptions: ExpenseForm['options'],
+    startOptions: ExpenseForm['startOptions'],
+  ) => {
+    const isEditing = formOptions.expense?.id && !startOptions.duplicateExpense;
+    const { blockThreshold } = getDuplicateExpensesSettings(formOptions.host);
+    if (isEditing || !blockThreshold) {
+      return [];
+    }
+
+    try {
+      const { data } = await apolloClient.query({
+        query: relatedExpensesQuery,
+        context: API_V2_CONTEXT,
+        fetchPolicy: 'network-only',
+        variables: getRelatedExpensesQueryVariables({
+          payeeSlug: values.payeeSlug,
+          hostSlug: formOptions.host?.slug,
+          amount: formOptions.totalInvoicedInExpenseCurrency,
+        }),
+      });
+
+      return findRelatedExpenses(
+        {
+          description: values.title,
+          currency: values.expenseCurrency,
+          amount: formOptions.totalInvoicedInExpenseCurrency,
+          payee: values.payeeSlug ? { slug: values.payeeSlug } : null,
+          items: values.expenseItems?.map(ei => pick(ei, ['description', 'incurredAt', 'url'])),
+          attachedFiles: values.expenseAttachedFiles,
+        },
+        getRelatedExpensesCandidates(data),
+        blockThreshold,
+      );
+    } catch {
+      return [];
+    }
+  };
+
   const expenseForm = useExpenseForm({
     formRef,
     initialValues: {
@@ -121,6 +201,32 @@ export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
     },
     startOptions: startOptions.current,
     async onSubmit(values, h, formOptions, startOptions) {
+      const waitForConnection = () => {
+        if (canSaveLocalDraft) {
+          saveLocalExpenseDraft(accountSlug, values, { pendingSubmission: true });
+        }
+        setIsWaitingForConnection(true);
+      };
+
+      // The request would fail, the expense is submitted when the connection returns
+      if (isOffline()) {
+        waitForConnection();
+        h.setSubmitting(false);
+        return;
+      }
+
+      const duplicates = await getLikelyDuplicates(values, formOptions, startOptions);
+      if (duplicates.length > 0) {
+        setBlockedDuplicates({
+          host: formOptions.host,
+          legacyIds: duplicates.map(({ expense }) => expense.legacyId),
+        });
+        h.setSubmitting(false);
+        return;
+      } else {
+        setBlockedDuplicates(null);
+      }
+
       let result:
         | FetchResult<CreateExpenseFromDashboardMutation>
         | FetchResult<InviteExpenseFromDashboardMutation>
@@ -245,10 +351,18 @@ export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
         }
 
         track(AnalyticsEvent.EXPENSE_SUBMISSION_SUBMITTED_SUCCESS);
+        if (canSaveLocalDraft) {
+          removeLocalExpenseDraft(getLocalExpenseDraftId(accountSlug, values.collectiveSlug));
+        }
         setSubmittedExpenseId(result.data.expense.legacyId);
       } catch (err) {
         track(AnalyticsEvent.EXPENSE_SUBMISSION_SUBMITTED_ERROR);
-        toast({ variant: 'error', message: i18nGraphqlException(intl, err) });
+        // Only retry when the request could not have reached the API, to not submit the expense twice
+        if (err?.networkError && isOffline()) {
+          waitForConnection();
+        } else {
+          toast({ variant: 'error', message: i18nGraphqlException(intl, err) });
+        }
       } finally {
         h.setSubmitting(false);
       }
@@ -260,6 +374,61 @@ export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
     form: expenseForm,
   });
 
+  // Load the drafts saved on this device
+  const { localDraftId } = props;
+  const { setValues } = expenseForm;
+  React.useEffect(() => {
+    if (!canSaveLocalDraft || !accountSlug) {
+      return;
+    }
+
+    const draft = localDraftId && getLocalExpenseDraft(localDraftId);
+    if (draft?.accountSlug === accountSlug) {
+      setValues(draft.values);
+      setIsLocalDraftsPromptDismissed(true);
+    } else {
+      setLocalDrafts(getLocalExpenseDrafts(accountSlug));
+    }
+  }, [canSaveLocalDraft, accountSlug, localDraftId, setValues]);
+
+  const showLocalDraftsPrompt = !isLocalDraftsPromptDismissed && localDrafts.length > 0;
+
+  // Autosave
+  React.useEffect(() => {
+    if (!canSaveLocalDraft || showLocalDraftsPrompt || submittedExpenseId) {
+      return;
+    }
+
+    const timeout = setTimeout(
+      () => saveLocalExpenseDraft(accountSlug, expenseForm.values, { pendingSubmission: isWaitingForConnection }),
+      1000,
+    );
+    return () => clearTimeout(timeout);
+  }, [
+    canSaveLocalDraft,
+    showLocalDraftsPrompt,
+    submittedExpenseId,
+    accountSlug,
+    expenseForm.values,
+    isWaitingForConnection,
+  ]);
+
+  // Retry the submission when the connection returns
+  const { submitForm } = expenseForm;
+  React.useEffect(() => {
+    if (!isWaitingForConnection) {
+      return;
+    }
+
+    const onOnline = () => {
+      setIsWaitingForConnection(false);
+      submitForm();
+    };
+
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [isWaitingForConnection, submitForm]);
+
   const [confirmNavigation] = useNavigationWarning({
     enabled: !submittedExpenseId,
     confirmationMessage: intl.formatMessage(I18nMessages.ConfirmExit),
@@ -341,13 +510,68 @@ export function SubmitExpenseFlow(props: SubmitExpenseFlowProps) {
                 />
 
                 <div className="flex-grow px-4 pt-4 sm:px-0 sm:pt-0">
-                  <form ref={formRef} onSubmit={e => e.preventDefault()}>
-                    <step.Form form={expenseForm} />
-                  </form>
+                  {showLocalDraftsPrompt ? (
+                    <div className="space-y-4" data-cy="resume-local-expense-draft">
+                      <h2 className="text-lg font-semibold">
+                        <FormattedMessage defaultMessage="Resume a draft?" id="bINXSp" />
+                      </h2>
+                      <p className="text-sm text-muted-foreground">
+                        <FormattedMessage
+                          defaultMessage="These expenses were started on this device but never submitted. For your security, the payout, address and tax details are not saved: you will have to enter them again."
+                          id="14ePYv"
+                        />
+                      </p>
+                      <LocalExpenseDraftsList
+                        drafts={localDrafts}
+                        onResume={draft => {
+                          setValues(draft.values);
+                          setIsLocalDraftsPromptDismissed(true);
+                        }}
+                        onDiscard={draft => {
+                          removeLocalExpenseDraft(draft.id);
+                          setLocalDrafts(localDrafts.filter(d => d.id !== draft.id));
+                        }}
+                      />
+                      <Button variant="outline" onClick={() => setIsLocalDraftsPromptDismissed(true)}>
+                        <FormattedMessage defaultMessage="Start a new expense" id="CUi5Vc" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <form ref={formRef} onSubmit={e => e.preventDefault()}>
+                      <step.Form form={expenseForm} />
+                    </form>
+                  )}
                 </div>
               </div>
             </div>
           </main>
+          {isWaitingForConnection && (
+            <div className="px-4 pb-2 sm:px-10">
+              <MessageBox type="warning" withIcon data-cy="expense-waiting-for-connection">
+                <FormattedMessage
+                  defaultMessage="You are offline. Your expense is saved on this device and will be submitted as soon as the connection returns."
+                  id="OYN/33"
+                />
+              </MessageBox>
+            </div>
+          )}
+          {blockedDuplicates && (
+            <div className="px-4 pb-2 sm:px-10">
+              <MessageBox type="error" withIcon data-cy="expense-blocked-duplicate">
+                <FormattedMessage
+                  defaultMessage="This expense can't be submitted: the host doesn't accept expenses that are too similar to an existing one ({expenses}). If it is not a duplicate, please <ContactLink>contact the host</ContactLink>."
+                  id="gQnpax"
+                  values={{
+                    expenses: blockedDuplicates.legacyIds.map(id => `#${id}`).join(', '),
+                    ContactLink: getI18nLink({
+                      href: `${getCollectivePageRoute(blockedDuplicates.host)}/contact`,
+                      openInNewTab: true,
+                    }),
+                  }}
+                />
+              </MessageBox>
+            </div>
+          )}
           <ExpenseWarnings form={expenseForm} />
           <SubmitExpenseFlowFooter
             expenseForm={expenseForm}
@@ -6,7 +6,7 @@ import dayjs from 'dayjs';
 import type { Path, PathValue } from 'dot-path-value';
 import type { FormikErrors, FormikHelpers } from 'formik';
 import { useFormik } from 'formik';
-import { isEmpty, isEqual, pick, set, uniqBy } from 'lodash';
+import { get, isEmpty, isEqual, pick, set, uniqBy } from 'lodash';
 import memoizeOne from 'memoize-one';
 import type { IntlShape } from 'react-intl';
 import { useIntl } from 'react-intl';
@@ -15,6 +15,14 @@ import z from 'zod';
 
 import { AccountTypesWithHost, CollectiveType } from '../../lib/constants/collectives';
 import { getPayoutProfiles } from '../../lib/expenses';
+import type { AllowanceRates, MileageDetails, PerDiemDetails } from '../../lib/expenses/allowances';
+import { ExpenseItemKind, getAllowanceRates, getPerDiemRate } from '../../lib/expenses/allowances';
+import type { ExpensePolicyViolation } from '../../lib/expenses/expense-policy-rules';
+import {
+  evaluateExpensePolicyRules,
+  ExpensePolicyRuleSeverity,
+  getExpensePolicyRules,
+} from '../../lib/expenses/expense-policy-rules';
 import { API_V2_CONTEXT } from '../../lib/graphql/helpers';
 import type {
   Amount,
@@ -31,12 +39,17 @@ import type LoggedInUser from '../../lib/LoggedInUser';
 import { userMustSetAccountingCategory } from '../expenses/lib/accounting-categories';
 import { computeExpenseAmounts, expenseTypeSupportsItemCurrency, getSupportedCurrencies } from '../expenses/lib/utils';
 
+import { getExpensePolicyViolationMessage } from '../expenses/ExpensePolicyViolations';
 import { loggedInAccountExpensePayoutFieldsFragment } from '../expenses/graphql/fragments';
 import { getCustomZodErrorMap } from '../FormikZod';
 
 type ExpenseTypeOption = ExpenseType.INVOICE | ExpenseType.RECEIPT;
 
 export type ExpenseItem = {
+  /** Set for mileage and per diem items, whose amount is computed from the host rates */
+  kind?: ExpenseItemKind;
+  mileage?: MileageDetails;
+  perDiem?: PerDiemDetails;
   description?: string;
   incurredAt?: Date;
   amount?: {
@@ -429,6 +442,7 @@ type ExpenseFormOptions = {
   accountingCategories?: ExpenseFormSchemaHostFieldsFragment['accountingCategories']['nodes'];
   allowExpenseItemAttachment?: boolean;
   allowExpenseItemCurrencyChange?: boolean;
+  allowanceRates?: AllowanceRates;
   taxType?: TaxType;
   recentlySubmittedExpenses?: ExpenseFormSchemaQuery['recentlySubmittedExpenses'];
   host?: ExpenseFormSchemaHostFieldsFragment;
@@ -564,23 +578,40 @@ function buildFormSchema(
     expenseItems: z.array(
       z
         .object({
+          kind: z.nativeEnum(ExpenseItemKind).nullish(),
+          mileage: z
+            .object({
+              from: z.string().min(1),
+              to: z.string().min(1),
+              distance: z.number().positive(),
+            })
+            .nullish(),
+          perDiem: z
+            .object({
+              country: z
+                .string()
+                .min(1)
+                .refine(country => getPerDiemRate(options.allowanceRates || {}, country) !== null, {
+                  message: intl.formatMessage({
+                    defaultMessage: 'There is no per diem rate for this country',
+                    id: 'Tcq61I',
+                  }),
+                }),
+              days: z.number().int().positive(),
+            })
+            .nullish(),
           description: z.string().min(1),
           url: z
             .string()
             .url()
             .nullish()
-            .refine(
-              url => {
-                if (values.expenseTypeOption === ExpenseType.INVOICE) {
-                  return true;
-                }
-
-                return !!url;
-              },
-              {
-                message: 'File upload required for expense items',
-              },
-            ),
+            .superRefine((url, ctx) => {
+              // Allowances are computed from the host rates, they don't need a receipt
+              const item = get(values, ctx.path.slice(0, -1)) as ExpenseItem;
+              if (values.expenseTypeOption !== ExpenseType.INVOICE && !item?.kind && !url) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'File upload required for expense items' });
+              }
+            }),
           incurredAt: z.date(),
           amount: z.object({
             valueInCents: z.number().min(1),
@@ -807,6 +838,7 @@ async function buildFormOptions(
     }
 
     options.allowExpenseItemAttachment = values.expenseTypeOption === ExpenseType.RECEIPT;
+    options.allowanceRates = values.expenseTypeOption === ExpenseType.RECEIPT ? getAllowanceRates(host) : {};
     options.allowExpenseItemCurrencyChange = expenseTypeSupportsItemCurrency(values.expenseTypeOption);
 
     if (values.expenseTypeOption === ExpenseType.INVOICE) {
@@ -861,6 +893,51 @@ const needExchangeRateFilter = (expectedCurrency: string) => (ei: ExpenseItem) =
     (ei.amount.exchangeRate.source === 'OPENCOLLECTIVE' &&
       Math.abs(dayjs.utc(ei.amount.exchangeRate.date).diff(dayjs.utc(ei.incurredAt), 'days')) > 2));
 
+/**
+ * Evaluates the host expense policy rules against the values of the form.
+ */
+export function getExpenseFormPolicyViolations(
+  values: ExpenseFormValues,
+  options: ExpenseFormOptions,
+): ExpensePolicyViolation[] {
+  if (!options.host?.currency) {
+    return [];
+  }
+
+  const invitePayee = values.invitePayee && !('legacyId' in values.invitePayee) ? values.invitePayee : null;
+  return evaluateExpensePolicyRules(
+    getExpensePolicyRules(options.host),
+    {
+      description: values.title,
+      currency: values.expenseCurrency,
+      payeeName: invitePayee ? invitePayee.organization?.name || invitePayee.name : options.payee?.name,
+      hasAttachedFiles: values.expenseAttachedFiles?.length > 0,
+      items: values.expenseItems,
+    },
+    { currency: options.host.currency },
+  );
+}
+
+const getExpensePolicyViolationPath = (violation: ExpensePolicyViolation, values: ExpenseFormValues): string[] => {
+  if (typeof violation.itemIndex === 'number') {
+    const itemPath = ['expenseItems', String(violation.itemIndex)];
+    switch (violation.field) {
+      case 'amount':
+        return [...itemPath, 'amount', 'valueInCents'];
+      case 'currency':
+        return [...itemPath, 'amount', 'currency'];
+      default:
+        return [...itemPath, violation.field];
+    }
+  } else if (violation.field === 'payee') {
+    return values.invitePayee ? ['invitePayee'] : ['payeeSlug'];
+  } else if (violation.field === 'currency') {
+    return ['expenseCurrency'];
+  } else {
+    return ['title'];
+  }
+};
+
 type ExpenseFormStartOptions = {
   duplicateExpense?: boolean;
   expenseId?: number;
@@ -891,12 +968,24 @@ export function useExpenseForm(opts: {
     initialStatus: { schema: formOptions.schema },
     async validate(values) {
       const result = formOptions.schema.safeParse(values, { errorMap: getCustomZodErrorMap(intl) });
+      const errs = {};
       if (result.success === false) {
-        const errs = {};
-
         for (const issue of result.error.issues) {
           set(errs, issue.path, issue.message);
         }
+      }
+
+      // Blocking policy violations, unless the field already has an error
+      for (const violation of getExpenseFormPolicyViolations(values, formOptions)) {
+        const path = getExpensePolicyViolationPath(violation, values);
+        const hasError =
+          !isEmpty(get(errs, path)) || path.some((_, i) => typeof get(errs, path.slice(0, i)) === 'string');
+        if (violation.severity === ExpensePolicyRuleSeverity.ERROR && !hasError) {
+          set(errs, path, getExpensePolicyViolationMessage(intl, violation));
+        }
+      }
+
+      if (!isEmpty(errs)) {
         return errs;
       }
     },
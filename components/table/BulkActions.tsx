@@ -0,0 +1,407 @@
+import React from 'react';
+import type { OnChangeFn, RowSelectionState } from '@tanstack/react-table';
+import { isEmpty, omit } from 'lodash';
+import { CheckCircle2, X, XCircle } from 'lucide-react';
+import { FormattedMessage, useIntl } from 'react-intl';
+
+import type { BulkAction, BulkActionResult, GetBulkActions } from '../../lib/actions/types';
+import { i18nGraphqlException } from '../../lib/errors';
+
+import { Button } from '../ui/Button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { Label } from '../ui/Label';
+import { Progress } from '../ui/Progress';
+import { Textarea } from '../ui/Textarea';
+import { useToast } from '../ui/useToast';
+
+/**
+ * State of a "Select all" checkbox. Never checked when there is nothing to select.
+ */
+export const getSelectAllCheckedState = (nbSelected: number, nbValues: number): boolean | 'indeterminate' => {
+  if (!nbValues || !nbSelected) {
+    return false;
+  } else {
+    return nbSelected >= nbValues ? true : 'indeterminate';
+  }
+};
+
+/**
+ * Selection of the rows to run bulk actions on, shared by `DataTable` and the lists that don't use it. The selection
+ * uses the format of TanStack's `rowSelection` (selected IDs as keys), and is reset every time `resetOn` changes.
+ */
+export function useBulkSelection<V>(values: V[], getId: (value: V) => string, { resetOn }: { resetOn?: unknown } = {}) {
+  const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({});
+  const [isAllMatchingSelected, setIsAllMatchingSelected] = React.useState(false);
+  const clearSelection = React.useCallback(() => {
+    setRowSelection(selection => (isEmpty(selection) ? selection : {}));
+    setIsAllMatchingSelected(false);
+  }, []);
+
+  React.useEffect(() => {
+    clearSelection();
+  }, [resetOn, clearSelection]);
+
+  const onRowSelectionChange: OnChangeFn<RowSelectionState> = React.useCallback(updater => {
+    setIsAllMatchingSelected(false);
+    setRowSelection(updater);
+  }, []);
+
+  // Values that left the list (e.g. after a refetch) are not selected anymore
+  const selectedValues = (values || []).filter(value => rowSelection[getId(value)]);
+  return {
+    rowSelection,
+    onRowSelectionChange,
+    selectedValues,
+    isAllMatchingSelected,
+    selectAllMatching: () => setIsAllMatchingSelected(true),
+    clearSelection,
+    isSelected: (value: V) => Boolean(rowSelection[getId(value)]),
+    toggle: (value: V, checked: boolean) =>
+      onRowSelectionChange(selection => ({
+        ...omit(selection, getId(value)),
+        ...(checked && { [getId(value)]: true }),
+      })),
+    selectAllState: getSelectAllCheckedState(selectedValues.length, values?.length ?? 0),
+    toggleAll: (checked: boolean) =>
+      onRowSelectionChange(checked ? Object.fromEntries((values || []).map(value => [getId(value), true])) : {}),
+  };
+}
+
+/**
+ * Runs the action on each row, one at a time, and reports the progress after each of them.
+ */
+export const runBulkAction = async <V,>(
+  action: BulkAction<V>,
+  values: V[],
+  onProgress: (results: BulkActionResult<V>[]) => void,
+  params: { message?: string } = {},
+): Promise<BulkActionResult<V>[]> => {
+  const results: BulkActionResult<V>[] = [];
+  for (const value of values) {
+    if (action.isAvailable && !action.isAvailable(value)) {
+      results.push({ value, status: 'skipped', reason: action.getUnavailableReason?.(value) });
+    } else {
+      try {
+        await action.perform(value, params);
+        results.push({ value, status: 'success' });
+      } catch (error) {
+        results.push({ value, status: 'error', error });
+      }
+    }
+
+    onProgress([...results]);
+  }
+
+  return results;
+};
+
+const isCountMismatch = (nbValues: number, expectedCount?: number): boolean =>
+  expectedCount !== undefined && expectedCount !== nbValues;
+
+/**
+ * Whether the dialog must ask for a confirmation (or a message) before running the action. The action starts right
+ * away otherwise.
+ */
+export const hasBulkActionConfirmationStep = <V,>(
+  action: BulkAction<V>,
+  nbValues: number,
+  expectedCount?: number,
+): boolean => Boolean(action.confirmMessage || action.messageInput) || isCountMismatch(nbValues, expectedCount);
+
+/**
+ * Progress of a bulk action, displayed by `BulkActionDialog`. Kept by the component that opens the dialog, so that
+ * actions without a confirmation step can be started from its open handler.
+ */
+export function useBulkActionRun<V>() {
+  const [results, setResults] = React.useState<BulkActionResult<V>[] | null>(null);
+  const [isRunning, setIsRunning] = React.useState(false);
+
+  const run = React.useCallback(async (action: BulkAction<V>, values: V[], params: { message?: string } = {}) => {
+    setIsRunning(true);
+    setResults([]);
+    const results = await runBulkAction(action, values, setResults, params);
+    setIsRunning(false);
+    action.onComplete?.(results);
+  }, []);
+
+  const reset = React.useCallback(() => setResults(null), []);
+  return { results, isRunning, run, reset };
+}
+
+export type BulkActionRun<V> = ReturnType<typeof useBulkActionRun<V>>;
+
+/**
+ * Asks for a confirmation if needed, then runs the action on the rows and summarizes the results.
+ */
+export function BulkActionDialog<V>({
+  action,
+  values,
+  expectedCount,
+  getRowLabel,
+  bulkActionRun,
+  onClose,
+}: {
+  action: BulkAction<V>;
+  values: V[];
+  /** The number of rows displayed as selected, when the values were loaded afterwards (all the matching rows) */
+  expectedCount?: number;
+  getRowLabel: (value: V) => React.ReactNode;
+  bulkActionRun: BulkActionRun<V>;
+  onClose: (results: BulkActionResult<V>[] | null) => void;
+}) {
+  const intl = useIntl();
+  const { results, isRunning } = bulkActionRun;
+  const [message, setMessage] = React.useState('');
+  const isDone = Boolean(results) && !isRunning;
+  const hasCountMismatch = isCountMismatch(values.length, expectedCount);
+  const failures = results?.filter(result => result.status === 'error') || [];
+  const skipped = results?.filter(result => result.status === 'skipped') || [];
+  const nbSuccess = results?.filter(result => result.status === 'success').length || 0;
+
+  const close = () => {
+    bulkActionRun.reset();
+    onClose(results);
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && !isRunning && close()}>
+      <DialogContent className="sm:max-w-lg" hideCloseButton={isRunning}>
+        <DialogHeader>
+          <DialogTitle>{action.label}</DialogTitle>
+        </DialogHeader>
+        {!results ? (
+          <div className="flex flex-col gap-4 text-sm">
+            {hasCountMismatch && (
+              <p className="text-yellow-700" data-cy="bulk-action-count-mismatch">
+                <FormattedMessage
+                  defaultMessage="{count, plural, one {# item was} other {# items were}} loaded, while {expectedCount} matched the filters: the list has changed in the meantime. The action will only run on the loaded items."
+                  id="ZgYzNC"
+                  values={{ count: values.length, expectedCount }}
+                />
+              </p>
+            )}
+            {action.confirmMessage && <div>{action.confirmMessage}</div>}
+            {action.messageInput && (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="bulk-action-message">{action.messageInput.label}</Label>
+                <Textarea
+                  id="bulk-action-message"
+                  value={message}
+                  placeholder={action.messageInput.placeholder}
+                  onChange={e => setMessage(e.target.value)}
+                  data-cy="bulk-action-message"
+                />
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 text-sm">
+            <Progress value={(results.length / values.length) * 100} className="h-2" />
+            <p className="text-muted-foreground">
+              <FormattedMessage
+                defaultMessage="{processed} of {total} processed"
+                id="lYE2wH"
+                values={{ processed: results.length, total: values.length }}
+              />
+            </p>
+            {isDone && (
+              <div className="flex flex-col gap-2">
+                {nbSuccess > 0 && (
+                  <p className="flex items-center gap-2 text-green-700">
+                    <CheckCircle2 size={16} />
+                    <FormattedMessage
+                      defaultMessage="{count, plural, one {# item} other {# items}} processed successfully"
+                      id="E7lCeq"
+                      values={{ count: nbSuccess }}
+                    />
+                  </p>
+                )}
+                {skipped.length > 0 && (
+                  <div className="flex flex-col gap-2">
+                    <p className="text-muted-foreground">
+                      <FormattedMessage
+                        defaultMessage="{count, plural, one {# item was} other {# items were}} skipped, as the action is not available for them"
+                        id="dX18VA"
+                        values={{ count: skipped.length }}
+                      />
+                    </p>
+                    {skipped.some(result => result.reason) && (
+                      <ul className="max-h-60 divide-y overflow-y-auto rounded-lg border">
+                        {skipped.map((result, index) => (
+                          // eslint-disable-next-line react/no-array-index-key
+                          <li key={index} className="flex flex-col gap-0.5 px-3 py-2">
+                            <span className="font-medium">{getRowLabel(result.value)}</span>
+                            {result.reason && <span className="text-xs text-muted-foreground">{result.reason}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+                {failures.length > 0 && (
+                  <div className="flex flex-col gap-2">
+                    <p className="flex items-center gap-2 text-red-600">
+                      <XCircle size={16} />
+                      <FormattedMessage
+                        defaultMessage="{count, plural, one {# item} other {# items}} failed"
+                        id="mJhHO2"
+                        values={{ count: failures.length }}
+                      />
+                    </p>
+                    <ul className="max-h-60 divide-y overflow-y-auto rounded-lg border">
+                      {failures.map((failure, index) => (
+                        // eslint-disable-next-line react/no-array-index-key
+                        <li key={index} className="flex flex-col gap-0.5 px-3 py-2">
+                          <span className="font-medium">{getRowLabel(failure.value)}</span>
+                          <span className="text-xs text-red-600">{i18nGraphqlException(intl, failure.error)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          {!results ? (
+            <React.Fragment>
+              <Button variant="outline" onClick={close}>
+                <FormattedMessage defaultMessage="Cancel" id="actions.cancel" />
+              </Button>
+              <Button
+                variant={action.variant === 'destructive' ? 'destructive' : 'default'}
+                disabled={action.messageInput?.required && !message.trim()}
+                onClick={() => bulkActionRun.run(action, values, { message: message.trim() || undefined })}
+                data-cy="bulk-action-confirm"
+              >
+                <FormattedMessage defaultMessage="Confirm" id="confirm" />
+              </Button>
+            </React.Fragment>
+          ) : (
+            <Button variant="outline" disabled={isRunning} onClick={close}>
+              <FormattedMessage defaultMessage="Close" id="Close" />
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The bar displayed above a table when rows are selected, to run bulk actions on them.
+ */
+export function BulkActionBar<V>({
+  selectedValues,
+  getBulkActions,
+  getRowLabel,
+  totalCount,
+  isAllMatchingSelected,
+  onSelectAllMatching,
+  fetchAllMatchingValues,
+  onClearSelection,
+}: {
+  selectedValues: V[];
+  getBulkActions: GetBulkActions<V>;
+  getRowLabel: (value: V) => React.ReactNode;
+  /** The number of rows matching the filters, across all pages */
+  totalCount?: number;
+  isAllMatchingSelected: boolean;
+  /** Only provided when all the rows matching the filters can be selected */
+  onSelectAllMatching?: () => void;
+  fetchAllMatchingValues?: () => Promise<V[]>;
+  onClearSelection: () => void;
+}) {
+  const intl = useIntl();
+  const { toast } = useToast();
+  const [runningAction, setRunningAction] = React.useState<{
+    action: BulkAction<V>;
+    values: V[];
+    expectedCount?: number;
+  } | null>(null);
+  const [isFetchingValues, setIsFetchingValues] = React.useState(false);
+  const bulkActionRun = useBulkActionRun<V>();
+  const nbSelected = isAllMatchingSelected ? totalCount : selectedValues.length;
+  const actions = getBulkActions(selectedValues);
+
+  const startAction = async (action: BulkAction<V>) => {
+    let values = selectedValues;
+    let expectedCount: number;
+    if (isAllMatchingSelected && fetchAllMatchingValues) {
+      expectedCount = totalCount;
+      setIsFetchingValues(true);
+      try {
+        values = await fetchAllMatchingValues();
+      } catch (e) {
+        toast({ variant: 'error', message: i18nGraphqlException(intl, e) });
+        return;
+      } finally {
+        setIsFetchingValues(false);
+      }
+    }
+
+    setRunningAction({ action, values, expectedCount });
+    if (!hasBulkActionConfirmationStep(action, values.length, expectedCount)) {
+      bulkActionRun.run(action, values);
+    }
+  };
+
+  return (
+    <React.Fragment>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-slate-50 px-3 py-2 text-sm">
+        <span className="font-medium">
+          <FormattedMessage defaultMessage="{count} selected" id="NKPfmm" values={{ count: nbSelected }} />
+        </span>
+        {onSelectAllMatching && !isAllMatchingSelected && totalCount > selectedValues.length && (
+          <Button variant="link" size="xs" className="px-1" onClick={onSelectAllMatching}>
+            <FormattedMessage
+              defaultMessage="Select all {count} matching the filters"
+              id="NRuAfQ"
+              values={{ count: totalCount }}
+            />
+          </Button>
+        )}
+        <div className="flex flex-1 flex-wrap items-center justify-end gap-2">
+          {actions.map(action => (
+            <Button
+              key={action.key}
+              size="xs"
+              variant={action.variant === 'destructive' ? 'outlineDestructive' : 'outline'}
+              className="gap-1.5"
+              loading={isFetchingValues}
+              onClick={() => startAction(action)}
+              data-cy={action['data-cy']}
+            >
+              {action.Icon && <action.Icon size={14} />}
+              {action.label}
+            </Button>
+          ))}
+          <Button
+            size="icon-xs"
+            variant="ghost"
+            title={intl.formatMessage({ defaultMessage: 'Clear selection', id: 'EYIw2M' })}
+            onClick={onClearSelection}
+          >
+            <X size={16} />
+          </Button>
+        </div>
+      </div>
+      {runningAction && (
+        <BulkActionDialog<V>
+          action={runningAction.action}
+          values={runningAction.values}
+          expectedCount={runningAction.expectedCount}
+          getRowLabel={getRowLabel}
+          bulkActionRun={bulkActionRun}
+          onClose={results => {
+            setRunningAction(null);
+            if (results?.some(result => result.status === 'success')) {
+              onClearSelection();
+            }
+          }}
+        />
+      )}
+    </React.Fragment>
+  );
+}
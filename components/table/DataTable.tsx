@@ -12,14 +12,17 @@ import { flexRender, getCoreRowModel, getSortedRowModel, useReactTable } from '@
 import clsx from 'clsx';
 import { isEqual, omitBy } from 'lodash';
 import { FormattedMessage, useIntl } from 'react-intl';
+import type { z } from 'zod';
 
-import type { GetActions } from '../../lib/actions/types';
+import type { GetActions, GetBulkActions } from '../../lib/actions/types';
 import type { useQueryFilterReturnType } from '../../lib/hooks/useQueryFilter';
 import { cn } from '../../lib/utils';
 
+import { Checkbox } from '../ui/Checkbox';
 import { Skeleton } from '../ui/Skeleton';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
 
+import { BulkActionBar, useBulkSelection } from './BulkActions';
 import { ColumnToggleDropdown } from './ColumnToggleDropdown';
 import { RowActionsMenu } from './RowActionsMenu';
 
@@ -49,8 +52,16 @@ interface DataTableProps<TData, TValue> {
   columnVisibility?: VisibilityState;
   setColumnVisibility?: OnChangeFn<VisibilityState>;
   defaultColumnVisibility?: VisibilityState;
-  queryFilter?: useQueryFilterReturnType<any, any>;
+  queryFilter?: useQueryFilterReturnType<z.AnyZodObject, Record<string, unknown>>;
   getActions?: GetActions<TData>;
+  /** Enables the selection of rows, to run the returned actions on all of them */
+  getBulkActions?: GetBulkActions<TData>;
+  /** Used to identify the rows in the results of bulk actions */
+  getRowLabel?: (data: TData) => React.ReactNode;
+  /** The number of rows matching the filters, across all pages */
+  totalCount?: number;
+  /** When provided, all the rows matching the filters can be selected, not only the ones of the current page */
+  fetchAllMatchingRows?: () => Promise<TData[]>;
 }
 
 const defaultGetRowId = (data: any) => data.id;
@@ -78,12 +89,21 @@ export function DataTable<TData, TValue>({
   setColumnVisibility,
   queryFilter,
   getActions,
+  getBulkActions,
+  getRowLabel = defaultGetRowId,
+  totalCount,
+  fetchAllMatchingRows,
   meta, // TODO: Possibly remove this prop once the getActions pattern is implemented fully
   ...tableProps
 }: DataTableProps<TData, TValue>) {
   const intl = useIntl();
   const [sorting, setSorting] = React.useState<SortingState>(initialSort ?? []);
-  const [rowSelection, setRowSelection] = React.useState({});
+  // With bulk actions, the selection is reset when the rows change (e.g. new page or filters, or refetch after a bulk
+  // action). Tables that manage their own selection column keep it.
+  const hasBulkActions = Boolean(getBulkActions);
+  const { rowSelection, onRowSelectionChange, isAllMatchingSelected, selectAllMatching, clearSelection } =
+    useBulkSelection<TData>(data, getRowId, { resetOn: hasBulkActions ? data : undefined });
+  const tableColumns = hasBulkActions ? [selectColumn as ColumnDef<TData, TValue>, ...columns] : columns;
 
   const hasDefaultColumnVisibility = isEqual(
     omitBy(columnVisibility, v => v),
@@ -92,11 +112,11 @@ export function DataTable<TData, TValue>({
 
   const table = useReactTable<TData>({
     data: data || [],
-    columns,
+    columns: tableColumns,
     getCoreRowModel: getCoreRowModel(),
     onSortingChange: setSorting,
     getSortedRowModel: getSortedRowModel(),
-    onRowSelectionChange: setRowSelection,
+    onRowSelectionChange,
     getRowId,
     onColumnVisibilityChange: setColumnVisibility,
     state: {
@@ -116,90 +136,108 @@ export function DataTable<TData, TValue>({
     },
   });
 
+  const selectedRows = table.getSelectedRowModel().rows;
+  const canSelectAllMatching =
+    Boolean(fetchAllMatchingRows) && table.getIsAllPageRowsSelected() && totalCount > selectedRows.length;
+
   return (
-    <Table {...tableProps} ref={tableRef}>
-      {!hideHeader && (
-        <TableHeader className="relative">
-          {table.getHeaderGroups().map(headerGroup => (
-            <TableRow key={headerGroup.id} highlightOnHover={false}>
-              {headerGroup.headers.map(header => {
-                const { className, align } = header.column.columnDef.meta || {};
-                return (
-                  <TableHead
-                    key={header.id}
-                    className={clsx(align === 'right' && 'text-right', className)}
-                    fullWidth={tableProps.fullWidth}
-                  >
-                    {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
-                  </TableHead>
-                );
-              })}
-            </TableRow>
-          ))}
-        </TableHeader>
+    <React.Fragment>
+      {getBulkActions && selectedRows.length > 0 && (
+        <BulkActionBar<TData>
+          selectedValues={selectedRows.map(row => row.original)}
+          getBulkActions={getBulkActions}
+          getRowLabel={getRowLabel}
+          totalCount={totalCount}
+          isAllMatchingSelected={isAllMatchingSelected}
+          onSelectAllMatching={canSelectAllMatching ? selectAllMatching : undefined}
+          fetchAllMatchingValues={fetchAllMatchingRows}
+          onClearSelection={clearSelection}
+        />
       )}
+      <Table {...tableProps} ref={tableRef}>
+        {!hideHeader && (
+          <TableHeader className="relative">
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id} highlightOnHover={false}>
+                {headerGroup.headers.map(header => {
+                  const { className, align } = header.column.columnDef.meta || {};
+                  return (
+                    <TableHead
+                      key={header.id}
+                      className={clsx(align === 'right' && 'text-right', className)}
+                      fullWidth={tableProps.fullWidth}
+                    >
+                      {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+        )}
 
-      <TableBody>
-        {loading ? (
-          [...new Array(nbPlaceholders)].map((_, rowIdx) => (
-            // eslint-disable-next-line react/no-array-index-key
-            <TableRow key={rowIdx}>
-              {table.getVisibleFlatColumns().map(column => {
-                const { className, align } = column.columnDef.meta || {};
-                const showSkeleton = column.id !== 'actions' && column.columnDef.header;
+        <TableBody>
+          {loading ? (
+            [...new Array(nbPlaceholders)].map((_, rowIdx) => (
+              // eslint-disable-next-line react/no-array-index-key
+              <TableRow key={rowIdx}>
+                {table.getVisibleFlatColumns().map(column => {
+                  const { className, align } = column.columnDef.meta || {};
+                  const showSkeleton = !['actions', 'select'].includes(column.id) && column.columnDef.header;
 
-                return (
-                  <TableCell
-                    key={column.id}
-                    fullWidth={tableProps.fullWidth}
-                    compact={compact}
-                    className={clsx(align === 'right' && 'text-right', className)}
-                  >
-                    {showSkeleton && (
-                      <div className="inline-block w-1/2">
-                        <Skeleton className="h-4 rounded-lg" />
-                      </div>
-                    )}
-                  </TableCell>
-                );
-              })}
-            </TableRow>
-          ))
-        ) : table.getRowModel().rows?.length ? (
-          table
-            .getRowModel()
-            .rows.map(row => (
-              <DataTableRow
-                key={row.id}
-                row={row}
-                onClickRow={onClickRow}
-                getRowDataCy={getRowDataCy}
-                rowHasIndicator={rowHasIndicator}
-                tableProps={tableProps}
-                compact={compact}
-                onHoverRow={onHoverRow}
-                getRowClassName={getRowClassName}
-              />
+                  return (
+                    <TableCell
+                      key={column.id}
+                      fullWidth={tableProps.fullWidth}
+                      compact={compact}
+                      className={clsx(align === 'right' && 'text-right', className)}
+                    >
+                      {showSkeleton && (
+                        <div className="inline-block w-1/2">
+                          <Skeleton className="h-4 rounded-lg" />
+                        </div>
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
             ))
-        ) : (
-          <TableRow highlightOnHover={false}>
-            <TableCell colSpan={columns.length} compact={compact}>
-              <div className="p-4 text-center text-slate-500">
-                {emptyMessage ? emptyMessage() : <FormattedMessage defaultMessage="No data" id="UG5qoS" />}
-              </div>
-            </TableCell>
-          </TableRow>
-        )}
-      </TableBody>
+          ) : table.getRowModel().rows?.length ? (
+            table
+              .getRowModel()
+              .rows.map(row => (
+                <DataTableRow
+                  key={row.id}
+                  row={row}
+                  onClickRow={onClickRow}
+                  getRowDataCy={getRowDataCy}
+                  rowHasIndicator={rowHasIndicator}
+                  tableProps={tableProps}
+                  compact={compact}
+                  onHoverRow={onHoverRow}
+                  getRowClassName={getRowClassName}
+                />
+              ))
+          ) : (
+            <TableRow highlightOnHover={false}>
+              <TableCell colSpan={tableColumns.length} compact={compact}>
+                <div className="p-4 text-center text-slate-500">
+                  {emptyMessage ? emptyMessage() : <FormattedMessage defaultMessage="No data" id="UG5qoS" />}
+                </div>
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
 
-      {footer && (
-        <tfoot>
-          <tr>
-            <th colSpan={table.getCenterLeafColumns().length}>{footer}</th>
-          </tr>
-        </tfoot>
-      )}
-    </Table>
+        {footer && (
+          <tfoot>
+            <tr>
+              <th colSpan={table.getCenterLeafColumns().length}>{footer}</th>
+            </tr>
+          </tfoot>
+        )}
+      </Table>
+    </React.Fragment>
   );
 }
 
@@ -256,6 +294,34 @@ type CellContext<TData, TValue> = TanCellContext<TData, TValue> & {
   actionsMenuTriggerRef?: React.MutableRefObject<any>;
 };
 
+const selectColumn: ColumnDef<unknown> = {
+  id: 'select',
+  header: ({ table }) => (
+    <Checkbox
+      checked={table.getIsAllPageRowsSelected() ? true : table.getIsSomePageRowsSelected() ? 'indeterminate' : false}
+      onCheckedChange={value => table.toggleAllPageRowsSelected(Boolean(value))}
+      aria-label={table.options.meta.intl?.formatMessage({
+        defaultMessage: 'Select all',
+        id: 'ExportTransactionsCSVModal.SelectAll',
+      })}
+    />
+  ),
+  cell: ({ row, table }) => (
+    // eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions
+    <div onClick={e => e.stopPropagation()} className="flex items-center">
+      <Checkbox
+        checked={row.getIsSelected()}
+        disabled={!row.getCanSelect()}
+        onCheckedChange={value => row.toggleSelected(Boolean(value))}
+        aria-label={table.options.meta.intl?.formatMessage({ defaultMessage: 'Select row', id: '4pJVaS' })}
+      />
+    </div>
+  ),
+  meta: { className: 'w-10' },
+  enableHiding: false,
+  enableSorting: false,
+};
+
 export const actionsColumn = {
   accessorKey: 'actions',
   header: ({ table }) => (
@@ -1,9 +1,11 @@
 import React from 'react';
 import { useMutation } from '@apollo/client';
 import type { CellContext, ColumnDef } from '@tanstack/react-table';
+import { X } from 'lucide-react';
 import type { IntlShape } from 'react-intl';
 import { FormattedMessage, useIntl } from 'react-intl';
 
+import type { GetBulkActions } from '../../lib/actions/types';
 import { i18nGraphqlException } from '../../lib/errors';
 import { API_V2_CONTEXT, gql } from '../../lib/graphql/helpers';
 import type { Account, VirtualCardRequest } from '../../lib/graphql/types/v2/graphql';
@@ -41,6 +43,34 @@ const RejectVirtualCardRequestMutation = gql`
   }
 `;
 
+/**
+ * Bulk actions for the virtual card requests. Approving a request requires creating its card, so only the rejection
+ * can be done in bulk.
+ */
+export function useVirtualCardRequestBulkActions(onComplete: () => void): GetBulkActions<VirtualCardRequest> {
+  const intl = useIntl();
+  const [rejectRequest] = useMutation(RejectVirtualCardRequestMutation, { context: API_V2_CONTEXT });
+
+  return () => [
+    {
+      key: 'reject',
+      label: intl.formatMessage({ id: 'actions.reject', defaultMessage: 'Reject' }),
+      Icon: X,
+      variant: 'destructive',
+      isAvailable: virtualCardRequest => virtualCardRequest.status === VirtualCardRequestStatus.PENDING,
+      getUnavailableReason: () =>
+        intl.formatMessage({ defaultMessage: 'Only pending requests can be rejected', id: 'DeNqqG' }),
+      confirmMessage: intl.formatMessage({
+        defaultMessage: 'The selected requests will be rejected.',
+        id: 'NMbnyP',
+      }),
+      perform: virtualCardRequest =>
+        rejectRequest({ variables: { virtualCardRequest: { id: virtualCardRequest.id } } }),
+      onComplete,
+    },
+  ];
+}
+
 function VirtualCardRequestTableActions({
   virtualCardRequest,
   onSelectedVirtualCardRequest,
@@ -255,6 +285,10 @@ type VirtualCardRequestsTableProps = {
   virtualCardRequests: VirtualCardRequest[];
   loading?: boolean;
   onSelectedVirtualCardRequest: (virtualCardRequest: VirtualCardRequest) => void;
+  getBulkActions?: GetBulkActions<VirtualCardRequest>;
+  /** The number of requests matching the filters, across all pages */
+  totalCount?: number;
+  fetchAllMatchingVirtualCardRequests?: () => Promise<VirtualCardRequest[]>;
 };
 
 export function VirtualCardRequestsTable(props: VirtualCardRequestsTableProps) {
@@ -280,6 +314,10 @@ export function VirtualCardRequestsTable(props: VirtualCardRequestsTableProps) {
           data={props.virtualCardRequests || []}
           loading={props.loading}
           onClickRow={row => props?.onSelectedVirtualCardRequest(row.original)}
+          getBulkActions={props.getBulkActions}
+          getRowLabel={virtualCardRequest => `${virtualCardRequest.account.name} - ${virtualCardRequest.purpose}`}
+          totalCount={props.totalCount}
+          fetchAllMatchingRows={props.fetchAllMatchingVirtualCardRequests}
           emptyMessage={() => (
             <p className="font-base">
               <FormattedMessage defaultMessage="No Virtual Card Requests" id="zUk+h9" />
@@ -0,0 +1,49 @@
+import {
+  computeAllowanceAmount,
+  DistanceUnit,
+  ExpenseItemKind,
+  getAvailableAllowanceKinds,
+  getPerDiemRate,
+} from '../expenses/allowances';
+
+const RATES = {
+  mileage: { unit: DistanceUnit.KM, rate: 30 },
+  perDiem: { defaultRate: 5000, countries: { FR: 8000, US: 0 } },
+};
+
+describe('getAvailableAllowanceKinds', () => {
+  it('only returns the kinds that have a rate', () => {
+    expect(getAvailableAllowanceKinds(RATES)).toEqual([ExpenseItemKind.MILEAGE, ExpenseItemKind.PER_DIEM]);
+    expect(
+      getAvailableAllowanceKinds({ mileage: { unit: DistanceUnit.MI, rate: 0 }, perDiem: { countries: { FR: 8000 } } }),
+    ).toEqual([ExpenseItemKind.PER_DIEM]);
+    expect(getAvailableAllowanceKinds({})).toEqual([]);
+  });
+});
+
+describe('getPerDiemRate', () => {
+  it('falls back on the default rate', () => {
+    expect(getPerDiemRate(RATES, 'FR')).toBe(8000);
+    expect(getPerDiemRate(RATES, 'BE')).toBe(5000);
+    expect(getPerDiemRate(RATES, 'US')).toBeNull();
+    expect(getPerDiemRate({ perDiem: { countries: { FR: 8000 } } }, 'BE')).toBeNull();
+  });
+});
+
+describe('computeAllowanceAmount', () => {
+  it('multiplies the distance or the number of days by the rate', () => {
+    const mileage = { kind: ExpenseItemKind.MILEAGE, mileage: { from: 'Paris', to: 'Lyon', distance: 465.5 } };
+    expect(computeAllowanceAmount(RATES, mileage)).toBe(13965);
+    expect(computeAllowanceAmount(RATES, { kind: ExpenseItemKind.PER_DIEM, perDiem: { country: 'FR', days: 3 } })).toBe(
+      24000,
+    );
+  });
+
+  it('returns null when the details are incomplete', () => {
+    expect(computeAllowanceAmount(RATES, { kind: ExpenseItemKind.MILEAGE, mileage: { distance: null } })).toBeNull();
+    expect(
+      computeAllowanceAmount(RATES, { kind: ExpenseItemKind.PER_DIEM, perDiem: { country: 'US', days: 2 } }),
+    ).toBeNull();
+    expect(computeAllowanceAmount(RATES, {})).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import { normalizeLocation } from '../analytics/plausible';
+import { normalizeLocation, setExperimentVariantProperty, track } from '../analytics/plausible';
 
 describe('normalizeLocation', () => {
   it('handles dashboard urls', () => {
@@ -75,3 +75,18 @@ describe('normalizeLocation', () => {
     );
   });
 });
+
+describe('track', () => {
+  it('adds the experiment variants to the events without changing the given options', () => {
+    const plausible = jest.fn();
+    window.plausible = plausible;
+    setExperimentVariantProperty('babel/presets', 'variant-1');
+    const options = { props: { contributionStep: 'details' } };
+    track('Contribution Started', options);
+    expect(options).toEqual({ props: { contributionStep: 'details' } });
+    expect(plausible).toHaveBeenCalledWith('Contribution Started', {
+      props: { 'experiment:babel/presets': 'variant-1', contributionStep: 'details' },
+      u: expect.any(String),
+    });
+  });
+});
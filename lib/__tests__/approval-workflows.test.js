@@ -0,0 +1,54 @@
+import { ApprovalWorkflowRole, getApplicableApprovalRule, isExpectedApprover } from '../expenses/approval-workflows';
+
+const { COLLECTIVE_ADMIN, HOST_ADMIN } = ApprovalWorkflowRole;
+
+const LARGE_EXPENSES_RULE = {
+  id: 'large',
+  minAmount: 100000,
+  steps: [
+    { role: COLLECTIVE_ADMIN, approvals: 2 },
+    { role: HOST_ADMIN, approvals: 1 },
+  ],
+};
+
+const TRAVEL_INVOICES_RULE = {
+  id: 'travel',
+  accountingCategoryIds: ['travel'],
+  expenseTypes: ['INVOICE'],
+  steps: [{ role: HOST_ADMIN, approvals: 1 }],
+};
+
+const WORKFLOW = { rules: [LARGE_EXPENSES_RULE, TRAVEL_INVOICES_RULE] };
+
+describe('getApplicableApprovalRule', () => {
+  it('returns the first rule matching all its conditions', () => {
+    const expense = { type: 'INVOICE', amount: 5000, currency: 'USD', accountingCategory: { id: 'travel' } };
+    expect(getApplicableApprovalRule(WORKFLOW, expense, 'USD')).toBe(TRAVEL_INVOICES_RULE);
+    expect(getApplicableApprovalRule(WORKFLOW, { ...expense, amount: 150000 }, 'USD')).toBe(LARGE_EXPENSES_RULE);
+    expect(getApplicableApprovalRule(WORKFLOW, { ...expense, type: 'RECEIPT' }, 'USD')).toBeNull();
+    expect(getApplicableApprovalRule({ rules: [] }, expense, 'USD')).toBeNull();
+  });
+
+  it('compares the amount in the host currency', () => {
+    const expense = {
+      type: 'RECEIPT',
+      amount: 150000,
+      currency: 'JPY',
+      amountInHostCurrency: { valueInCents: 1000, currency: 'USD' },
+    };
+    expect(getApplicableApprovalRule(WORKFLOW, expense, 'USD')).toBeNull();
+    // When the amount can't be converted, the threshold applies
+    expect(getApplicableApprovalRule(WORKFLOW, { ...expense, amountInHostCurrency: null }, 'USD')).toBe(
+      LARGE_EXPENSES_RULE,
+    );
+  });
+});
+
+describe('isExpectedApprover', () => {
+  it('checks whether one of the roles is expected by a step of the rule', () => {
+    expect(isExpectedApprover(LARGE_EXPENSES_RULE, [COLLECTIVE_ADMIN])).toBe(true);
+    expect(isExpectedApprover(TRAVEL_INVOICES_RULE, [COLLECTIVE_ADMIN])).toBe(false);
+    expect(isExpectedApprover(TRAVEL_INVOICES_RULE, [COLLECTIVE_ADMIN, HOST_ADMIN])).toBe(true);
+    expect(isExpectedApprover(TRAVEL_INVOICES_RULE, [])).toBe(false);
+  });
+});
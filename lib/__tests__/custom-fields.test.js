@@ -0,0 +1,82 @@
+import {
+  getCustomDataEntries,
+  getVisibleCustomFields,
+  removeHiddenCustomFieldsData,
+  validateCustomFields,
+} from '../custom-fields';
+
+const config = {
+  fields: [
+    {
+      type: 'select',
+      name: 'dinner',
+      label: 'Attending dinner?',
+      required: true,
+      options: [
+        { value: 'yes', label: 'Yes' },
+        { value: 'no', label: 'No' },
+      ],
+    },
+    {
+      type: 'text',
+      name: 'dietaryRestrictions',
+      label: 'Dietary restrictions',
+      showIf: { field: 'dinner', equals: 'yes' },
+    },
+    { type: 'text', name: 'allergies', label: 'Allergies', showIf: { field: 'dietaryRestrictions', isSet: true } },
+    { type: 'checkbox', name: 'isStudent', label: 'I am a student' },
+    {
+      type: 'text',
+      name: 'studentId',
+      label: 'Student ID',
+      requiredIf: { field: 'isStudent', equals: true },
+      validation: { pattern: '[A-Z]{2}\\d{4}', message: 'Must look like AB1234' },
+    },
+  ],
+};
+
+describe('getVisibleCustomFields', () => {
+  const names = data => getVisibleCustomFields(config, data).map(field => field.name);
+
+  it('shows the fields whose conditions match', () => {
+    expect(names({})).toEqual(['dinner', 'isStudent', 'studentId']);
+    expect(names({ dinner: 'yes' })).toEqual(['dinner', 'dietaryRestrictions', 'isStudent', 'studentId']);
+    expect(names({ dinner: 'yes', dietaryRestrictions: 'Vegan' })).toContain('allergies');
+  });
+
+  it('hides the fields that depend on hidden fields', () => {
+    expect(names({ dinner: 'no', dietaryRestrictions: 'Vegan' })).not.toContain('allergies');
+  });
+});
+
+describe('validateCustomFields', () => {
+  it('validates required, required-if and pattern rules of visible fields', () => {
+    expect(validateCustomFields(config, {})).toEqual({ dinner: 'REQUIRED' });
+    expect(validateCustomFields(config, { dinner: 'no', isStudent: true })).toEqual({ studentId: 'REQUIRED' });
+    expect(validateCustomFields(config, { dinner: 'no', studentId: 'ab12' })).toEqual({ studentId: 'PATTERN' });
+    expect(validateCustomFields(config, { dinner: 'no', isStudent: true, studentId: 'AB1234' })).toEqual({});
+  });
+
+  it('ignores the patterns that are not valid regular expressions', () => {
+    const invalidConfig = { fields: [{ type: 'text', name: 'code', label: 'Code', validation: { pattern: '[A-Z' } }] };
+    expect(validateCustomFields(invalidConfig, { code: 'anything' })).toEqual({});
+  });
+});
+
+describe('removeHiddenCustomFieldsData', () => {
+  it('removes the answers of hidden fields, but keeps unknown keys', () => {
+    const data = { dinner: 'no', dietaryRestrictions: 'Vegan', allergies: 'Nuts', other: 'value' };
+    expect(removeHiddenCustomFieldsData(config, data)).toEqual({ dinner: 'no', other: 'value' });
+  });
+});
+
+describe('getCustomDataEntries', () => {
+  it('returns the answers with their labels, in the order of the fields', () => {
+    const data = { legacyField: 'x', studentId: 'AB1234', dinner: 'yes', isStudent: false };
+    expect(getCustomDataEntries(config, data)).toEqual([
+      { name: 'dinner', label: 'Attending dinner?', value: 'Yes' },
+      { name: 'studentId', label: 'Student ID', value: 'AB1234' },
+      { name: 'legacyField', label: 'legacyField', value: 'x' },
+    ]);
+  });
+});
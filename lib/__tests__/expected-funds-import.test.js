@@ -0,0 +1,124 @@
+import {
+  getExpectedFundsImportRow,
+  getExpectedFundsImportSlugs,
+  guessExpectedFundsColumnsMapping,
+  readExpectedFundsFile,
+} from '../expected-funds-import';
+import { generateXLSX } from '../xlsx';
+
+const HEADERS = ['Collective', 'Contributor', 'Contact name', 'Contact email', 'Amount', 'Tier name', 'Expected date'];
+
+const accounts = {
+  babel: {
+    id: 'c1',
+    slug: 'babel',
+    currency: 'USD',
+    host: { id: 'h1' },
+    tiers: { nodes: [{ id: 't1', slug: 'gold-sponsor', legacyId: 42, name: 'Gold Sponsor' }] },
+  },
+  webpack: { id: 'c2', slug: 'webpack', currency: 'USD', host: { id: 'h2' } },
+  acme: { id: 'o1', slug: 'acme' },
+};
+
+const row = {
+  Collective: 'babel',
+  Contributor: 'ACME',
+  'Contact name': 'Jane',
+  'Contact email': 'jane@acme.com',
+  Amount: '1,000.50',
+  'Tier name': 'gold sponsor',
+  'Expected date': '2024-06-01',
+};
+
+describe('readExpectedFundsFile', () => {
+  it('reads CSV files', async () => {
+    const file = new File(['Collective;Amount\nbabel;10\n'], 'funds.csv');
+    expect(await readExpectedFundsFile(file)).toEqual([{ Collective: 'babel', Amount: '10' }]);
+  });
+
+  it('reads XLSX files', async () => {
+    const content = await generateXLSX([
+      ['Collective', 'Amount', 'Expected date'],
+      ['babel', 10.5, { type: 'date', value: new Date('2024-06-01') }],
+      [],
+    ]);
+    const file = new File([content], 'funds.xlsx');
+    expect(await readExpectedFundsFile(file)).toEqual([
+      { Collective: 'babel', Amount: '10.5', 'Expected date': '2024-06-01' },
+    ]);
+  });
+});
+
+describe('guessExpectedFundsColumnsMapping', () => {
+  it('maps the columns on the form fields', () => {
+    expect(guessExpectedFundsColumnsMapping(HEADERS)).toEqual({
+      toAccount: 'Collective',
+      fromAccount: 'Contributor',
+      contactName: 'Contact name',
+      contactEmail: 'Contact email',
+      amount: 'Amount',
+      tier: 'Tier name',
+      expectedAt: 'Expected date',
+    });
+  });
+});
+
+describe('getExpectedFundsImportRow', () => {
+  const mapping = guessExpectedFundsColumnsMapping(HEADERS);
+  const options = { hostId: 'h1', accounts };
+
+  it('returns the slugs to load', () => {
+    expect(getExpectedFundsImportSlugs([row, { ...row, Collective: 'Webpack ' }], mapping)).toEqual([
+      'babel',
+      'acme',
+      'webpack',
+    ]);
+  });
+
+  it('builds the pending order', () => {
+    const { order, errors } = getExpectedFundsImportRow(row, mapping, options);
+    expect(errors).toEqual([]);
+    expect(order).toMatchObject({
+      amount: { valueInCents: 100050, currency: 'USD' },
+      fromAccount: { id: 'o1' },
+      fromAccountInfo: { name: 'Jane', email: 'jane@acme.com' },
+      toAccount: { id: 'c1' },
+      tier: { id: 't1' },
+      expectedAt: '2024-06-01T00:00:00+00:00',
+    });
+  });
+
+  it('validates the row', () => {
+    const getErrors = (values, rowMapping = mapping) =>
+      getExpectedFundsImportRow({ ...row, ...values }, rowMapping, options).errors.map(e => `${e.type}:${e.field}`);
+
+    expect(getErrors({ Collective: 'unknown' })).toEqual(['UNKNOWN_ACCOUNT:toAccount']);
+    expect(getErrors({ Collective: 'webpack', 'Tier name': '' })).toEqual(['NOT_HOSTED:toAccount']);
+    expect(getErrors({ 'Tier name': 'Silver' })).toEqual(['UNKNOWN_TIER:tier']);
+    expect(getErrors({ Amount: '-5', 'Contact email': 'jane' })).toEqual([
+      'INVALID_VALUE:contactEmail',
+      'INVALID_VALUE:amount',
+    ]);
+    expect(getErrors({ Currency: 'EUR' }, { ...mapping, currency: 'Currency' })).toEqual(['INVALID_CURRENCY:currency']);
+    expect(getErrors({ Currency: 'XYZ' }, { ...mapping, currency: 'Currency' })).toEqual(['INVALID_VALUE:currency']);
+    expect(getErrors({ 'Expected date': '' })).toEqual(['MISSING_VALUE:expectedAt']);
+  });
+
+  it('parses the amounts with a decimal point or a decimal comma', () => {
+    const getAmount = Amount =>
+      getExpectedFundsImportRow({ ...row, Amount }, mapping, options).order?.amount.valueInCents;
+    expect(getAmount('1,5')).toBe(150);
+    expect(getAmount('1.000,50')).toBe(100050);
+    expect(getAmount('1 000,50 €')).toBe(100050);
+    expect(getAmount('$1,000.50')).toBe(100050);
+    expect(getAmount('1,000,000')).toBe(100000000);
+  });
+
+  it('rejects the amounts whose decimal separator is ambiguous', () => {
+    for (const Amount of ['1,000', '1.000', '12.345', '1,00,000']) {
+      expect(getExpectedFundsImportRow({ ...row, Amount }, mapping, options).errors).toEqual([
+        { type: 'INVALID_VALUE', field: 'amount', value: Amount },
+      ]);
+    }
+  });
+});
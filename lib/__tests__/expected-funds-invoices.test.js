@@ -0,0 +1,114 @@
+import { createIntl } from 'react-intl';
+
+import {
+  canPrintExpectedFundsInvoiceTexts,
+  ExpectedFundsInvoiceNoteType,
+  generateExpectedFundsInvoicePDF,
+  getExpectedFundsInvoice,
+  getExpectedFundsInvoiceNoteHtml,
+  getExpectedFundsInvoiceStatus,
+} from '../expected-funds-invoices';
+
+const order = {
+  legacyId: 42,
+  status: 'PENDING',
+  description: 'Gold sponsorship',
+  amount: { valueInCents: 100000, currency: 'USD' },
+  totalAmount: { valueInCents: 115000, currency: 'USD' },
+  fromAccount: { slug: 'acme', name: 'ACME Inc.' },
+  toAccount: { slug: 'babel', name: 'Babel' },
+  pendingContributionData: {
+    expectedAt: '2024-06-10T00:00:00Z',
+    ponumber: 'PO-1234',
+    fromAccountInfo: { name: 'Jane', email: 'jane@acme.com' },
+  },
+  comments: {
+    nodes: [
+      { type: 'COMMENT', createdAt: '2024-05-30T10:00:00Z', html: '<p>Invoice sent to the sponsor</p>' },
+      {
+        type: 'PRIVATE_NOTE',
+        createdAt: '2024-06-01T10:00:00Z',
+        html: getExpectedFundsInvoiceNoteHtml(ExpectedFundsInvoiceNoteType.INVOICE, 'Invoice #42 for Babel'),
+      },
+      { type: 'PRIVATE_NOTE', createdAt: '2024-06-02T10:00:00Z', html: '<p>Called the sponsor</p>' },
+      {
+        type: 'PRIVATE_NOTE',
+        createdAt: '2024-06-11T10:00:00Z',
+        html: getExpectedFundsInvoiceNoteHtml(ExpectedFundsInvoiceNoteType.REMINDER, 'Reminder: <invoice> #42'),
+      },
+    ],
+  },
+};
+
+const host = {
+  slug: 'opensource',
+  name: 'Open Source Collective',
+  settings: {
+    invoice: { templates: { default: { info: 'Tax ID: 12-3456789' } } },
+  },
+};
+
+describe('getExpectedFundsInvoice', () => {
+  it('reads the invoice from the private notes of the order', () => {
+    expect(getExpectedFundsInvoice(order)).toEqual({
+      sentAt: '2024-06-01T10:00:00Z',
+      remindersSentAt: ['2024-06-11T10:00:00Z'],
+    });
+    expect(getExpectedFundsInvoice({ ...order, comments: { nodes: order.comments.nodes.slice(0, 1) } })).toBeNull();
+    expect(getExpectedFundsInvoice({ ...order, comments: null })).toBeNull();
+  });
+
+  it('escapes the subject in the notes', () => {
+    expect(getExpectedFundsInvoiceNoteHtml(ExpectedFundsInvoiceNoteType.REMINDER, 'Reminder: <invoice> #42')).toBe(
+      '<p><strong>Invoice reminder sent to the sponsor</strong></p><p>Reminder: &lt;invoice&gt; #42</p>',
+    );
+  });
+});
+
+describe('getExpectedFundsInvoiceStatus', () => {
+  const invoice = getExpectedFundsInvoice(order);
+
+  it('is paid once the order is completed', () => {
+    expect(getExpectedFundsInvoiceStatus({ ...order, status: 'PAID' }, invoice)).toBe('PAID');
+    expect(getExpectedFundsInvoiceStatus({ ...order, status: 'PAID' }, null)).toBe('PAID');
+  });
+
+  it('is overdue after the expected date', () => {
+    expect(getExpectedFundsInvoiceStatus(order, null, new Date('2024-06-05'))).toBe('NOT_SENT');
+    expect(getExpectedFundsInvoiceStatus(order, invoice, new Date('2024-06-10T18:00:00Z'))).toBe('SENT');
+    expect(getExpectedFundsInvoiceStatus(order, invoice, new Date('2024-06-11'))).toBe('OVERDUE');
+  });
+});
+
+describe('generateExpectedFundsInvoicePDF', () => {
+  it('generates a PDF with the invoice details', () => {
+    const intl = createIntl({ locale: 'en' });
+    const pdf = Buffer.from(generateExpectedFundsInvoicePDF(intl, host, order)).toString('latin1');
+    expect(pdf).toMatch(/^%PDF-1\.4/);
+    expect(pdf).toMatch(/%%EOF\n$/);
+    [
+      '(Open Source Collective)',
+      '(Reference: #42)',
+      '(PO Number: PO-1234)',
+      '(ACME Inc.)',
+      '(Tax ID: 12-3456789)',
+    ].forEach(text => expect(pdf).toContain(text));
+    expect(pdf).toContain('(Taxes)');
+    expect(pdf).toMatch(/\(USD\s1,150\.00\)/);
+  });
+
+  it('falls back to English when the locale cannot be printed', () => {
+    const intl = createIntl({ locale: 'ja', messages: { 'Expense.Type.Invoice': '請求書' }, onError: () => {} });
+    const pdf = Buffer.from(generateExpectedFundsInvoicePDF(intl, host, order)).toString('latin1');
+    expect(pdf).toContain('(Invoice)');
+    expect(pdf).not.toContain('?');
+    expect(pdf).toMatch(/\(USD\s1,150\.00\)/);
+  });
+
+  it('detects the names that cannot be printed', () => {
+    expect(canPrintExpectedFundsInvoiceTexts(host, order)).toBe(true);
+    expect(
+      canPrintExpectedFundsInvoiceTexts(host, { ...order, fromAccount: { slug: 'acme', name: 'Ａｃｍｅ 株式会社' } }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  evaluateExpensePolicyRules,
+  ExpensePolicyRuleSeverity,
+  ExpensePolicyRuleType,
+} from '../expenses/expense-policy-rules';
+
+const { ERROR, WARNING } = ExpensePolicyRuleSeverity;
+
+const RULES = {
+  [ExpensePolicyRuleType.MAX_ITEM_AMOUNT]: { severity: ERROR, amount: 100000 },
+  [ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE]: { severity: ERROR, amount: 5000 },
+  [ExpensePolicyRuleType.BANNED_KEYWORDS]: { severity: WARNING, keywords: ['Casino', 'alcohol'] },
+  [ExpensePolicyRuleType.ALLOWED_CURRENCIES]: { severity: ERROR, currencies: ['USD', 'EUR'] },
+  [ExpensePolicyRuleType.MAX_ITEM_AGE]: { severity: WARNING, days: 30 },
+};
+
+const item = (valueInCents, props = {}) => ({
+  description: 'Train ticket',
+  incurredAt: '2024-03-01',
+  url: 'https://example.com/receipt.pdf',
+  amount: { valueInCents, currency: 'USD' },
+  ...props,
+});
+
+const evaluate = (expense, rules = RULES) =>
+  evaluateExpensePolicyRules(rules, { currency: 'USD', ...expense }, { currency: 'USD', now: '2024-03-10' });
+
+describe('evaluateExpensePolicyRules', () => {
+  it('returns no violation when the expense complies', () => {
+    expect(evaluate({ description: 'Travel', items: [item(1000), item(2000)] })).toEqual([]);
+    expect(evaluate({ description: 'Casino night', items: [item(200000, { url: null })] }, {})).toEqual([]);
+  });
+
+  it('checks the amounts in the host currency', () => {
+    const exchangeRate = { value: 1.1, toCurrency: 'USD' };
+    const violations = evaluate({
+      items: [item(95000, { amount: { valueInCents: 95000, currency: 'EUR', exchangeRate } }), item(6000, { url: '' })],
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({ type: ExpensePolicyRuleType.MAX_ITEM_AMOUNT, field: 'amount', itemIndex: 0 }),
+      expect.objectContaining({ type: ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE, field: 'url', itemIndex: 1 }),
+    ]);
+  });
+
+  it('does not require item receipts when files are attached to the expense', () => {
+    expect(evaluate({ hasAttachedFiles: true, items: [item(6000, { url: null })] })).toEqual([]);
+  });
+
+  it('reports banned keywords, currencies and old items', () => {
+    const violations = evaluate({
+      description: 'Team outing',
+      payeeName: 'Lucky CASINO Ltd',
+      currency: 'GBP',
+      items: [item(1000, { description: 'Alcohol', incurredAt: '2024-01-15', amount: { valueInCents: 1000 } })],
+    });
+
+    expect(violations).toEqual([
+      {
+        type: ExpensePolicyRuleType.BANNED_KEYWORDS,
+        severity: WARNING,
+        field: 'payee',
+        values: { keyword: 'Casino' },
+      },
+      {
+        type: ExpensePolicyRuleType.BANNED_KEYWORDS,
+        severity: WARNING,
+        field: 'description',
+        itemIndex: 0,
+        values: { keyword: 'alcohol' },
+      },
+      {
+        type: ExpensePolicyRuleType.ALLOWED_CURRENCIES,
+        severity: ERROR,
+        field: 'currency',
+        values: { currencies: 'USD, EUR' },
+      },
+      {
+        type: ExpensePolicyRuleType.MAX_ITEM_AGE,
+        severity: WARNING,
+        field: 'incurredAt',
+        itemIndex: 0,
+        values: { days: 30 },
+      },
+    ]);
+  });
+});
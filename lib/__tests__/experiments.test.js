@@ -0,0 +1,82 @@
+import {
+  getAmountPresetsWithExperiments,
+  getContributionCardsOrderWithExperiments,
+} from '../experiments/contribution-flow-experiments';
+import { CONTROL_VARIANT, getExperimentBucket, pickExperimentVariant } from '../experiments/experiments';
+
+describe('pickExperimentVariant', () => {
+  const config = {
+    key: 'test',
+    variants: [
+      { name: 'a', weight: 3 },
+      { name: 'b', weight: 1 },
+    ],
+  };
+
+  it('is deterministic', () => {
+    expect(getExperimentBucket('test', 'user-1')).toBe(getExperimentBucket('test', 'user-1'));
+    expect(pickExperimentVariant(config, 'user-42')).toBe(pickExperimentVariant(config, 'user-42'));
+  });
+
+  it('follows the weights', () => {
+    const counts = { a: 0, b: 0 };
+    for (let i = 0; i < 4000; i++) {
+      counts[pickExperimentVariant(config, `anonymous-${i}`)]++;
+    }
+
+    expect(counts.a / 4000).toBeCloseTo(0.75, 1);
+    expect(counts.b / 4000).toBeCloseTo(0.25, 1);
+  });
+
+  it('returns the control variant without unit, unless the experiment is rolled out', () => {
+    expect(pickExperimentVariant(config, null)).toBe(CONTROL_VARIANT);
+    expect(pickExperimentVariant({ key: 'test', variants: [{ name: 'enabled', weight: 1 }] }, null)).toBe('enabled');
+    expect(pickExperimentVariant({ ...config, variants: [{ name: 'a', weight: 0 }, config.variants[1]] }, null)).toBe(
+      'b',
+    );
+  });
+});
+
+describe('contribution flow experiments', () => {
+  const user = { CollectiveId: 1 };
+  const getAccount = experiment => ({
+    slug: 'test-collective',
+    settings: { contributionFlowExperiments: [experiment] },
+  });
+
+  it('applies the presets of the variant to the matching tier', () => {
+    const account = getAccount({
+      id: 'presets',
+      type: 'AMOUNT_PRESETS',
+      isActive: true,
+      tierId: 12,
+      variants: [{ name: 'higher', weight: 1, presets: [2000, 5000, 10000] }],
+    });
+
+    expect(getAmountPresetsWithExperiments(account, { legacyId: 12 }, [500, 1000], user)).toEqual([2000, 5000, 10000]);
+    expect(getAmountPresetsWithExperiments(account, null, [500, 1000], user)).toEqual([500, 1000]);
+    expect(getAmountPresetsWithExperiments({ ...account, settings: {} }, { legacyId: 12 }, [500], user)).toEqual([500]);
+  });
+
+  it('ignores inactive experiments', () => {
+    const account = getAccount({
+      id: 'presets',
+      type: 'AMOUNT_PRESETS',
+      isActive: false,
+      variants: [{ name: 'higher', weight: 1, presets: [2000] }],
+    });
+
+    expect(getAmountPresetsWithExperiments(account, null, [500], user)).toEqual([500]);
+  });
+
+  it('puts the tiers of the variant first', () => {
+    const account = getAccount({
+      id: 'order',
+      type: 'TIERS_ORDER',
+      isActive: true,
+      variants: [{ name: 'custom-first', weight: 1, tiersOrder: ['custom'] }],
+    });
+
+    expect(getContributionCardsOrderWithExperiments(account, [3, 'custom', 4], user)).toEqual(['custom', 3, 4]);
+  });
+});
@@ -0,0 +1,124 @@
+import ExcelJS from 'exceljs';
+
+import { convertTransactionsCSV, ExportFormat, getJournalEntries, splitOrderCustomDataColumn } from '../export-formats';
+
+const CSV = `date,shortId,description,amount,currency,accountingCategoryCode,oppositeAccountName
+2024-03-10,a1b2c3d4,Monthly contribution,100.00,USD,4000,Jane Doe
+2024-03-12,e5f6g7h8,"Office rent, March",-250.50,USD,,ACME
+`;
+
+describe('lib/export-formats', () => {
+  it('turns transactions into balanced journal entries', () => {
+    const entries = getJournalEntries(CSV, { accounts: { balancing: '1000' } });
+    expect(entries.map(entry => entry.lines)).toEqual([
+      [
+        { account: '1000', amount: 100 },
+        { account: '4000', amount: -100 },
+      ],
+      [
+        { account: 'Uncategorized', amount: 250.5 },
+        { account: '1000', amount: -250.5 },
+      ],
+    ]);
+  });
+
+  it('books the fees and taxes on their own accounts, so that the balancing account moves by the net amount', () => {
+    const csv = `date,shortId,description,amount,paymentProcessorFee,platformFee,hostFee,taxAmount,currency,accountingCategoryCode
+2024-03-10,a1b2c3d4,Monthly contribution,100.00,-3.20,-5.00,0,-10.00,USD,4000
+2023-01-05,e5f6g7h8,Expense,-250.00,-1.50,,,,USD,5000
+`;
+    const [contribution, expense] = getJournalEntries(csv);
+    expect(contribution.amount).toBe(81.8);
+    expect(contribution.lines).toEqual([
+      { account: 'Bank', amount: 81.8 },
+      { account: 'Payment processor fees', amount: 3.2 },
+      { account: 'Platform fees', amount: 5 },
+      { account: 'Taxes', amount: 10 },
+      { account: '4000', amount: -100 },
+    ]);
+    expect(expense.amount).toBe(-251.5);
+    expect(expense.lines).toEqual([
+      { account: '5000', amount: 250 },
+      { account: 'Payment processor fees', amount: 1.5 },
+      { account: 'Bank', amount: -251.5 },
+    ]);
+
+    for (const entry of [contribution, expense]) {
+      expect(entry.lines.reduce((total, line) => total + Math.round(line.amount * 100), 0)).toBe(0);
+    }
+  });
+
+  it('books the entries on the account codes provided by the user', async () => {
+    const csv = `date,shortId,description,amount,paymentProcessorFee,currency,accountingCategoryCode
+2024-03-10,a1b2c3d4,Monthly contribution,100.00,-3.20,USD,
+`;
+    const accounts = { balancing: '090', uncategorized: '', paymentProcessorFee: '404' };
+    const { content } = await convertTransactionsCSV(csv, ExportFormat.XERO, { accounts });
+    expect(content.split('\n')).toEqual([
+      '*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount',
+      'Monthly contribution (a1b2c3d4),2024-03-10,,090,Tax Exempt,96.80',
+      'Monthly contribution (a1b2c3d4),2024-03-10,,404,Tax Exempt,3.20',
+      'Monthly contribution (a1b2c3d4),2024-03-10,,Uncategorized,Tax Exempt,-100.00',
+    ]);
+  });
+
+  it('generates a double-entry journal CSV', async () => {
+    const { content, extension } = await convertTransactionsCSV(CSV, ExportFormat.JOURNAL);
+    expect(extension).toBe('csv');
+    expect(content.split('\n')).toEqual([
+      'Date,Entry,Account,Description,Debit,Credit,Currency',
+      '2024-03-10,a1b2c3d4,Bank,Monthly contribution,100.00,,USD',
+      '2024-03-10,a1b2c3d4,4000,Monthly contribution,,100.00,USD',
+      '2024-03-12,e5f6g7h8,Uncategorized,"Office rent, March",250.50,,USD',
+      '2024-03-12,e5f6g7h8,Bank,"Office rent, March",,250.50,USD',
+    ]);
+  });
+
+  it('generates a QuickBooks IIF file', async () => {
+    const lines = (await convertTransactionsCSV(CSV, ExportFormat.QUICKBOOKS_IIF)).content.split('\r\n');
+    expect(lines[3]).toBe(
+      'TRNS\t\tGENERAL JOURNAL\t03/10/2024\tBank\tJane Doe\t100.00\tMonthly contribution (a1b2c3d4)',
+    );
+    expect(lines[4]).toBe(
+      'SPL\t\tGENERAL JOURNAL\t03/10/2024\t4000\tJane Doe\t-100.00\tMonthly contribution (a1b2c3d4)',
+    );
+    expect(lines[5]).toBe('ENDTRNS');
+  });
+
+  it('refuses to generate a QBO file with multiple currencies', async () => {
+    const csv = `${CSV}2024-03-13,i9j0k1l2,Refund,10.00,EUR,,ACME\n`;
+    await expect(convertTransactionsCSV(csv, ExportFormat.QUICKBOOKS_QBO)).rejects.toMatchObject({
+      type: 'EXPORT_MULTIPLE_CURRENCIES',
+      payload: { currencies: 'USD, EUR' },
+    });
+  });
+
+  it('generates an XLSX file with typed cells', async () => {
+    const { content, extension } = await convertTransactionsCSV(CSV, ExportFormat.XLSX);
+    expect(extension).toBe('xlsx');
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(content);
+    const sheet = workbook.worksheets[0];
+    expect(sheet.name).toBe('Transactions');
+    expect(sheet.getCell('A1').value).toBe('date');
+    expect(sheet.getCell('A2').value).toEqual(new Date('2024-03-10T00:00:00Z'));
+    expect(sheet.getCell('A2').numFmt).toBe('yyyy-mm-dd');
+    expect(sheet.getCell('D3').value).toBe(-250.5);
+    expect(sheet.getCell('C3').value).toBe('Office rent, March');
+  });
+
+  it('splits the custom data of the contributions in one column per field', () => {
+    const csv = `shortId,orderCustomData,currency
+a1b2c3d4,"{""dinner"":""yes"",""allergies"":[""Nuts"",""Gluten""]}",USD
+e5f6g7h8,,USD
+i9j0k1l2,"{""studentId"":""AB1234""}",EUR
+`;
+    expect(splitOrderCustomDataColumn(csv).split('\n')).toEqual([
+      'shortId,orderCustomData.dinner,orderCustomData.allergies,orderCustomData.studentId,currency',
+      'a1b2c3d4,yes,"Nuts, Gluten",,USD',
+      'e5f6g7h8,,,,USD',
+      'i9j0k1l2,,,AB1234,EUR',
+    ]);
+    expect(splitOrderCustomDataColumn(CSV)).toBe(CSV);
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  getContributionsRecoveryRate,
+  getPaymentFailureReason,
+  getPaymentFailures,
+  getPaymentUpdateLink,
+} from '../failed-contributions';
+
+describe('getPaymentFailures', () => {
+  it('returns the failures since the last successful charge', () => {
+    const failures = getPaymentFailures([
+      { id: '1', type: 'ORDER_PAYMENT_FAILED', createdAt: '2024-01-01', data: { reason: 'Old' } },
+      { id: '2', type: 'ORDER_THANKYOU', createdAt: '2024-02-01' },
+      { id: '3', type: 'ORDER_PAYMENT_FAILED', createdAt: '2024-03-01', data: { errorMessage: 'Card declined' } },
+      { id: '4', type: 'ORDER_UPDATED', createdAt: '2024-03-02' },
+      { id: '5', type: 'PAYMENT_FAILED', createdAt: '2024-03-03', data: { reason: 'Insufficient funds' } },
+    ]);
+
+    expect(failures.map(failure => failure.id)).toEqual(['3', '5']);
+    expect(failures.map(getPaymentFailureReason)).toEqual(['Card declined', 'Insufficient funds']);
+    expect(getPaymentFailureReason(undefined)).toBeNull();
+  });
+});
+
+describe('getContributionsRecoveryRate', () => {
+  it('counts each failed order once', () => {
+    const recovery = getContributionsRecoveryRate([
+      { order: { id: 'a', status: 'ACTIVE' } },
+      { order: { id: 'a', status: 'ACTIVE' } },
+      { order: { id: 'b', status: 'ERROR' } },
+      { order: { id: 'c', status: 'CANCELLED' } },
+      { order: null },
+    ]);
+
+    expect(recovery).toEqual({ failed: 3, recovered: 1, rate: 33 });
+    expect(getContributionsRecoveryRate([]).rate).toBeNull();
+  });
+});
+
+describe('getPaymentUpdateLink', () => {
+  it('links to the credit card update page when possible', () => {
+    const order = { legacyId: 42, fromAccount: { slug: 'alice' } };
+    expect(getPaymentUpdateLink({ ...order, paymentMethod: { legacyId: 7, type: 'CREDITCARD' } })).toMatch(
+      /\/paymentmethod\/7\/update$/,
+    );
+    expect(getPaymentUpdateLink({ ...order, paymentMethod: { legacyId: 7, type: 'PAYPAL' } })).toMatch(
+      /\/dashboard\/alice\/outgoing-contributions\?resumeOrderId=42$/,
+    );
+  });
+});
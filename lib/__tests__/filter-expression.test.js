@@ -0,0 +1,105 @@
+import { difference, uniq } from 'lodash';
+import { z } from 'zod';
+
+import {
+  FilterExpressionOperator,
+  getFilterExpressionValues,
+  parseFilterExpression,
+  serializeFilterExpression,
+} from '../filters/filter-expression';
+
+const schema = z.object({
+  status: z.array(z.enum(['PAID', 'PENDING'])).optional(),
+  type: z.enum(['INVOICE', 'RECEIPT']).optional(),
+  tag: z.array(z.string()).optional(),
+});
+
+const filters = {
+  status: {
+    expression: {
+      anyOf: values => uniq(values.flat()),
+      not: value => difference(['PAID', 'PENDING'], value),
+    },
+  },
+  type: {},
+  tag: { expression: { anyOf: values => uniq(values.flat()) } },
+};
+
+const condition = (key, value, negate = false) => ({ type: 'condition', key, value, negate });
+const group = (operator, children, negate = false) => ({ type: 'group', operator, negate, children });
+
+const expression = {
+  type: 'group',
+  operator: FilterExpressionOperator.AND,
+  negate: false,
+  children: [
+    { type: 'condition', key: 'status', value: ['PAID'], negate: false },
+    {
+      type: 'group',
+      operator: FilterExpressionOperator.OR,
+      negate: false,
+      children: [
+        { type: 'condition', key: 'type', value: 'INVOICE', negate: false },
+        { type: 'condition', key: 'tag', value: ['travel'], negate: true },
+      ],
+    },
+  ],
+};
+
+describe('lib/filters/filter-expression', () => {
+  it('serializes and parses expressions', () => {
+    const serialized = serializeFilterExpression(expression);
+    expect(serialized).toBe('{"and":[{"status":["PAID"]},{"or":[{"type":"INVOICE"},{"not":{"tag":["travel"]}}]}]}');
+    expect(parseFilterExpression(serialized, schema)).toEqual(expression);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => parseFilterExpression('not json', schema)).toThrow('not valid JSON');
+    expect(() => parseFilterExpression('{"or":[]}', schema)).toThrow('non-empty list');
+    expect(() => parseFilterExpression('{"unknown":"A"}', schema)).toThrow('Unknown filter "unknown"');
+    expect(() => parseFilterExpression('{"type":"OTHER"}', schema)).toThrow('Invalid value for filter "type"');
+  });
+
+  it('translates the conditions combined with AND into filter values', () => {
+    const { values, unsupported } = getFilterExpressionValues(
+      group(FilterExpressionOperator.AND, [
+        condition('type', 'INVOICE'),
+        group(FilterExpressionOperator.AND, [condition('tag', ['travel'])]),
+      ]),
+      filters,
+    );
+
+    expect(values).toEqual({ type: 'INVOICE', tag: ['travel'] });
+    expect(unsupported).toEqual([]);
+  });
+
+  it('translates OR groups and negations of filters that support them', () => {
+    const { values, unsupported } = getFilterExpressionValues(
+      group(FilterExpressionOperator.AND, [
+        group(FilterExpressionOperator.OR, [condition('tag', ['travel']), condition('tag', ['food', 'travel'])]),
+        condition('status', ['PENDING'], true),
+      ]),
+      filters,
+    );
+
+    expect(values).toEqual({ tag: ['travel', 'food'], status: ['PAID'] });
+    expect(unsupported).toEqual([]);
+  });
+
+  it('rejects the conditions that cannot be translated', () => {
+    // OR between different filters, negated group, negation without complement and the same filter used twice
+    expect(getFilterExpressionValues(expression, filters)).toEqual({
+      values: { status: ['PAID'] },
+      unsupported: [expression.children[1].children[0], expression.children[1].children[1]],
+    });
+
+    const negatedGroup = group(FilterExpressionOperator.OR, [condition('status', ['PAID'])], true);
+    expect(getFilterExpressionValues(negatedGroup, filters).unsupported).toEqual([negatedGroup.children[0]]);
+
+    const negatedType = condition('type', 'INVOICE', true);
+    expect(getFilterExpressionValues(negatedType, filters).unsupported).toEqual([negatedType]);
+
+    const duplicated = group(FilterExpressionOperator.AND, [condition('tag', ['travel']), condition('tag', ['food'])]);
+    expect(getFilterExpressionValues(duplicated, filters)).toEqual({ values: {}, unsupported: duplicated.children });
+  });
+});
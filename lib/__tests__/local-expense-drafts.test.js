@@ -0,0 +1,62 @@
+import {
+  getLocalExpenseDrafts,
+  parseLocalExpenseDraftValues,
+  removeLocalExpenseDraft,
+  saveLocalExpenseDraft,
+} from '../expenses/local-expense-drafts';
+
+describe('local expense drafts', () => {
+  beforeEach(() => {
+    const storage = {};
+    global.window = {
+      localStorage: {
+        getItem: key => storage[key] ?? null,
+        setItem: (key, value) => (storage[key] = value),
+        removeItem: key => delete storage[key],
+      },
+    };
+  });
+
+  afterEach(() => {
+    delete global.window;
+  });
+
+  it('saves one draft per account and collective', () => {
+    expect(saveLocalExpenseDraft('alice', { title: 'Nothing picked yet' })).toBeNull();
+    saveLocalExpenseDraft('alice', { collectiveSlug: 'babel', title: 'First' });
+    saveLocalExpenseDraft('alice', { collectiveSlug: 'babel', title: 'Second' }, { pendingSubmission: true });
+    saveLocalExpenseDraft('bob', { collectiveSlug: 'babel', title: 'Other' });
+
+    const drafts = getLocalExpenseDrafts('alice');
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({ id: 'alice/babel', values: { title: 'Second' }, pendingSubmission: true });
+
+    removeLocalExpenseDraft('alice/babel');
+    expect(getLocalExpenseDrafts('alice')).toEqual([]);
+    expect(getLocalExpenseDrafts('bob')).toHaveLength(1);
+  });
+
+  it('does not save the payout, location and tax details of the payee', () => {
+    saveLocalExpenseDraft('alice', {
+      collectiveSlug: 'babel',
+      title: 'Invoice',
+      payeeLocation: { address: '1 Main Street', country: 'FR' },
+      tax: { rate: 0.2, idNumber: 'FR123' },
+      invitePayee: { name: 'Bob', email: 'bob@example.com', payoutMethod: { type: 'BANK_ACCOUNT', data: {} } },
+    });
+
+    expect(getLocalExpenseDrafts('alice')[0].values).toEqual({
+      collectiveSlug: 'babel',
+      title: 'Invoice',
+      tax: { rate: 0.2 },
+      invitePayee: { name: 'Bob', email: 'bob@example.com' },
+    });
+  });
+
+  it('restores the items dates', () => {
+    const values = JSON.parse(JSON.stringify({ expenseItems: [{ incurredAt: new Date('2024-01-02') }, {}] }));
+    const parsed = parseLocalExpenseDraftValues(values);
+    expect(parsed.expenseItems[0].incurredAt).toEqual(new Date('2024-01-02'));
+    expect(parsed.expenseItems[1].incurredAt).toBeUndefined();
+  });
+});
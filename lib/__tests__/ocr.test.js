@@ -1,6 +1,8 @@
 import {
   compareItemOCRValues,
   filterParsableItems,
+  findOtherExpensesWithSameReceipt,
+  getItemOCRFieldConfidence,
   updateExpenseFormWithUploadResult,
 } from '../../components/expenses/lib/ocr';
 
@@ -59,7 +61,7 @@ describe('OCR functions', () => {
             __isUploading: false,
             __parsingResult: uploadResult.parsingResult.expense,
             amountV2: { valueInCents: 1000, currency: 'USD' },
-            description: '',
+            description: 'Test expense',
             id: expect.any(String),
             incurredAt: '2022-01-01',
             url: 'https://example.com/file.pdf',
@@ -167,4 +169,40 @@ describe('OCR functions', () => {
       });
     });
   });
+
+  describe('getItemOCRFieldConfidence', () => {
+    it('returns the document confidence for the scanned fields only', () => {
+      const item = {
+        description: 'Test',
+        __parsingResult: { ...uploadResult.parsingResult.expense, description: null, confidence: 72 },
+      };
+
+      expect(getItemOCRFieldConfidence(item, 'amountV2')).toBe(72);
+      expect(getItemOCRFieldConfidence(item, 'description')).toBeNull();
+      expect(getItemOCRFieldConfidence({ description: 'Test' }, 'amountV2')).toBeNull();
+    });
+  });
+
+  describe('findOtherExpensesWithSameReceipt', () => {
+    it('matches the same file or the same scanned amount and date', () => {
+      const item = {
+        __file: { name: 'receipt.pdf', size: 1234 },
+        __parsingResult: uploadResult.parsingResult.expense,
+      };
+      const sameFile = { legacyId: 1, items: [{ file: { name: 'receipt.pdf', size: 1234 } }] };
+      const sameValues = {
+        legacyId: 2,
+        items: [{ incurredAt: '2022-01-01T00:00:00.000Z', amountV2: { valueInCents: 1000, currency: 'USD' } }],
+      };
+      const other = {
+        legacyId: 3,
+        items: [
+          { file: { name: 'receipt.pdf', size: 999 } },
+          { incurredAt: '2022-01-01T00:00:00.000Z', amountV2: { valueInCents: 1000, currency: 'EUR' } },
+        ],
+      };
+
+      expect(findOtherExpensesWithSameReceipt(item, [sameFile, sameValues, other])).toEqual([sameFile, sameValues]);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { paginationElements } from '../pagination';
+import { fetchAllPages, paginationElements } from '../pagination';
 
 describe('paginationElements', () => {
   it('generates pagination elements without elipsis', () => {
@@ -141,3 +141,33 @@ describe('paginationElements', () => {
     ).toEqual([1, 'left_elipsis', 93, 94, 95, 96, 97, 'right_elipsis', 100]);
   });
 });
+
+describe('fetchAllPages', () => {
+  const items = Array.from({ length: 25 }, (_, i) => i);
+  const fetchPage = jest.fn(async ({ offset, limit }) => ({
+    nodes: items.slice(offset, offset + limit),
+    totalCount: 25,
+  }));
+
+  beforeEach(() => fetchPage.mockClear());
+
+  it('loads the pages until all the nodes are fetched', async () => {
+    expect(await fetchAllPages(fetchPage, { pageSize: 10 })).toEqual({ nodes: items, totalCount: 25 });
+    expect(fetchPage.mock.calls.map(([params]) => params)).toEqual([
+      { offset: 0, limit: 10 },
+      { offset: 10, limit: 10 },
+      { offset: 20, limit: 10 },
+    ]);
+  });
+
+  it('stops on an incomplete page, e.g. when items were removed meanwhile', async () => {
+    const shrunkFetchPage = async ({ offset, limit }) => ({
+      nodes: items.slice(offset, 15).slice(0, limit),
+      totalCount: 25,
+    });
+    expect(await fetchAllPages(shrunkFetchPage, { pageSize: 10 })).toEqual({
+      nodes: items.slice(0, 15),
+      totalCount: 25,
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { getRecurringExpenseNextRunDate, getRecurringExpenseSchedules } from '../expenses/recurring-expenses';
+
+describe('getRecurringExpenseNextRunDate', () => {
+  it('adds the interval to the last run', () => {
+    const schedule = { interval: 'month', lastDraftedAt: '2024-01-31T00:00:00Z' };
+    expect(getRecurringExpenseNextRunDate(schedule).toISOString()).toBe('2024-02-29T00:00:00.000Z');
+    expect(
+      getRecurringExpenseNextRunDate({ interval: 'quarter', lastDraftedAt: '2024-01-15T00:00:00Z' }).toISOString(),
+    ).toBe('2024-04-15T00:00:00.000Z');
+  });
+
+  it('returns null when the schedule has ended', () => {
+    const schedule = { interval: 'year', lastDraftedAt: '2024-01-01T00:00:00Z', endsAt: '2024-06-01T00:00:00Z' };
+    expect(getRecurringExpenseNextRunDate(schedule)).toBeNull();
+    expect(getRecurringExpenseNextRunDate({ interval: 'week' })).toBeNull();
+  });
+});
+
+describe('getRecurringExpenseSchedules', () => {
+  it('lists each schedule once with its last expense', () => {
+    const lastExpenseA = { id: 'e6', legacyId: 6, createdAt: '2024-03-01' };
+    const recurringA = { id: 'A', interval: 'month', lastDraftedAt: '2024-03-01', lastExpenseCreated: lastExpenseA };
+    const recurringB = { id: 'B', interval: 'week', lastDraftedAt: '2024-01-17', lastExpenseCreated: null };
+    const schedules = getRecurringExpenseSchedules([
+      { id: 'e1', legacyId: 1, createdAt: '2024-01-01', recurringExpense: recurringA },
+      { id: 'e2', legacyId: 2, createdAt: '2024-02-01', recurringExpense: recurringA },
+      { id: 'e3', legacyId: 3, createdAt: '2024-03-01', recurringExpense: null },
+      { id: 'e4', legacyId: 4, createdAt: '2024-01-10', recurringExpense: recurringB },
+      { id: 'e5', legacyId: 5, createdAt: '2024-01-17', recurringExpense: recurringB },
+    ]);
+
+    // The last expense of the API is used even when it's not listed, the most recent listed expense otherwise
+    expect(schedules.map(schedule => [schedule.id, schedule.interval, schedule.lastExpense.id])).toEqual([
+      ['A', 'month', 'e6'],
+      ['B', 'week', 'e5'],
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { findRelatedExpenses, getExpenseSimilarity, getTextSimilarity } from '../expenses/related-expenses';
+
+const invoice = {
+  id: 'e1',
+  description: 'Web hosting invoice March',
+  currency: 'USD',
+  amount: 10000,
+  payee: { slug: 'alice' },
+  items: [{ description: 'Hosting', incurredAt: '2024-03-01', url: 'https://files/invoice.pdf' }],
+};
+
+describe('getTextSimilarity', () => {
+  it('compares the words of both texts', () => {
+    expect(getTextSimilarity('Web hosting', 'hosting WEB!')).toBe(1);
+    expect(getTextSimilarity('Web hosting', 'Flight tickets')).toBe(0);
+    expect(getTextSimilarity('', 'Flight tickets')).toBe(0);
+  });
+});
+
+describe('getExpenseSimilarity', () => {
+  it('scores identical expenses 100', () => {
+    expect(getExpenseSimilarity(invoice, { ...invoice, id: 'e2' }).score).toBe(100);
+  });
+
+  it('matches the amounts and dates with a tolerance', () => {
+    const similarity = getExpenseSimilarity(invoice, {
+      ...invoice,
+      amount: 10200,
+      items: [{ ...invoice.items[0], incurredAt: '2024-03-05' }],
+    });
+    expect(similarity.criteria.amount).toBeCloseTo(0.6, 1);
+    expect(similarity.criteria.dates).toBeCloseTo(0.5);
+    expect(getExpenseSimilarity(invoice, { ...invoice, currency: 'EUR' }).criteria.amount).toBe(0);
+  });
+
+  it('matches the attachments by name and size', () => {
+    const withFile = file => ({ ...invoice, items: [{ ...invoice.items[0], url: null, file }] });
+    const a = withFile({ name: 'invoice.pdf', size: 42 });
+    expect(getExpenseSimilarity(a, withFile({ name: 'invoice.pdf', size: 42 })).criteria.attachments).toBe(1);
+    expect(getExpenseSimilarity(a, withFile({ name: 'invoice.pdf', size: 43 })).criteria.attachments).toBe(0);
+  });
+});
+
+describe('findRelatedExpenses', () => {
+  it('returns the related expenses above the score, most similar first', () => {
+    const unrelated = { id: 'e3', description: 'Flight', currency: 'EUR', amount: 50000, payee: { slug: 'bob' } };
+    const close = { ...invoice, id: 'e4', items: [{ ...invoice.items[0], url: 'https://files/other.pdf' }] };
+    const identical = { ...invoice, id: 'e5' };
+    const results = findRelatedExpenses(invoice, [invoice, unrelated, close, identical, close]);
+    expect(results.map(({ expense }) => expense.id)).toEqual(['e5', 'e4']);
+    expect(findRelatedExpenses(invoice, [close], 90)).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { getDefaultSavedView, getSavedViewTabId, getSectionSavedViews } from '../filters/saved-views';
+
+const view = (id, extra = {}) => ({ id, label: `View ${id}`, filter: { status: 'PAID' }, pinned: false, ...extra });
+
+describe('getSectionSavedViews', () => {
+  const account = {
+    settings: {
+      dashboardSavedViews: {
+        expenses: { views: [view('a'), view('b', { pinned: true })], defaultViewId: 'b' },
+        broken: { views: 'not-an-array' },
+      },
+    },
+  };
+
+  it('returns the views of the section', () => {
+    expect(getSectionSavedViews(account, 'expenses')).toEqual({
+      views: [view('a'), view('b', { pinned: true })],
+      defaultViewId: 'b',
+    });
+  });
+
+  it('returns an empty list for other sections, missing settings or invalid values', () => {
+    const empty = { views: [], defaultViewId: null };
+    expect(getSectionSavedViews(account, 'contributions')).toEqual(empty);
+    expect(getSectionSavedViews(account, null)).toEqual(empty);
+    expect(getSectionSavedViews(null, 'expenses')).toEqual(empty);
+    expect(getSectionSavedViews(account, 'broken')).toEqual(empty);
+  });
+});
+
+describe('getDefaultSavedView', () => {
+  it('returns the default view of the section, if it still exists', () => {
+    const settings = { dashboardSavedViews: { expenses: { views: [view('a')], defaultViewId: 'a' } } };
+    expect(getDefaultSavedView({ settings }, 'expenses')).toEqual(view('a'));
+    settings.dashboardSavedViews.expenses.defaultViewId = 'deleted';
+    expect(getDefaultSavedView({ settings }, 'expenses')).toBeUndefined();
+  });
+});
+
+describe('getSavedViewTabId', () => {
+  it('prefixes the ID to avoid conflicts with the views of the section', () => {
+    expect(getSavedViewTabId(view('a'))).toBe('saved-a');
+  });
+});
@@ -16,3 +16,33 @@ export type GetActions<V> = (
   onCloseFocusRef?: React.MutableRefObject<HTMLElement>,
   refetch?: () => void,
 ) => { primary?: Action[]; secondary?: Action[] };
+
+export type BulkActionResult<V> = {
+  value: V;
+  status: 'success' | 'error' | 'skipped';
+  error?: Error;
+  /** Why the row was skipped, when known */
+  reason?: React.ReactNode;
+};
+
+export type BulkAction<V> = {
+  key: string;
+  label: React.ReactNode;
+  Icon?: LucideIcon;
+  variant?: 'outline' | 'destructive';
+  /** Rows for which the action is not available are skipped and reported as such in the results */
+  isAvailable?: (value: V) => boolean;
+  /** Explains why the action is not available for a row, displayed with the skipped rows in the results */
+  getUnavailableReason?: (value: V) => React.ReactNode;
+  /** If set, the user is asked to confirm before running the action */
+  confirmMessage?: React.ReactNode;
+  /** If set, the confirmation step asks for a message that is shared by all the rows, e.g. a rejection reason */
+  messageInput?: { label: React.ReactNode; placeholder?: string; required?: boolean };
+  /** Runs the action on a single row. A failure doesn't stop the other rows, it is reported in the results */
+  perform: (value: V, params: { message?: string }) => Promise<unknown>;
+  /** Called once all the rows have been processed, e.g. to refetch the list */
+  onComplete?: (results: BulkActionResult<V>[]) => void;
+  'data-cy'?: string;
+};
+
+export type GetBulkActions<V> = (values: V[]) => BulkAction<V>[];
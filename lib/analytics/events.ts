@@ -6,6 +6,8 @@ export const enum AnalyticsEvent {
   CONTRIBUTION_SUCCESS = 'Contribution Success',
   CONTRIBUTION_ERROR = 'Contribution Error',
 
+  EXPERIMENT_EXPOSURE = 'Experiment Exposure',
+
   EXPENSE_SUBMISSION_STARTED = 'Expense Submission Started',
   EXPENSE_SUBMISSION_PICKED_COLLECTIVE = 'Expense Submission Picked Collective',
   EXPENSE_SUBMISSION_PICKED_PAYEE = 'Expense Submission Picked Payee',
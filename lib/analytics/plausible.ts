@@ -1,5 +1,5 @@
 import type { AnalyticsEvent } from './events';
-import type { AnalyticsProperty } from './properties';
+import type { AnalyticsProperty, ExperimentVariantProperty } from './properties';
 
 declare global {
   interface Window {
@@ -17,18 +17,33 @@ declare global {
 }
 
 type TrackOptions = {
-  props?: Record<AnalyticsProperty, string | number | boolean>;
+  props?: Partial<Record<AnalyticsProperty | ExperimentVariantProperty, string | number | boolean>>;
 };
 
+/** The variants of the experiments the visitor was exposed to, by experiment key */
+const experimentVariants: Partial<Record<ExperimentVariantProperty, string>> = {};
+
+/**
+ * Adds the variant of an experiment to the properties of all the events tracked afterwards, so that conversions can
+ * be compared between variants.
+ */
+export function setExperimentVariantProperty(experimentKey: string, variant: string) {
+  experimentVariants[`experiment:${experimentKey}`] = variant;
+}
+
 export function track(event: AnalyticsEvent | 'pageview', options: TrackOptions = {}) {
   const location = normalizeLocation(window.location.href);
+  const trackOptions =
+    event !== 'pageview' && Object.keys(experimentVariants).length
+      ? { ...options, props: { ...experimentVariants, ...options.props } }
+      : { ...options };
 
   if (process.env.NODE_ENV === 'development') {
     // eslint-disable-next-line no-console
-    console.log('plausible event', event, location, JSON.stringify(options));
+    console.log('plausible event', event, location, JSON.stringify(trackOptions));
   }
   if (window.plausible) {
-    window.plausible(event, Object.assign(options, { u: location }));
+    window.plausible(event, { ...trackOptions, u: location });
   }
 }
 
@@ -3,4 +3,9 @@ export const enum AnalyticsProperty {
   CONTRIBUTION_HAS_PLATFORM_TIP = 'contributionHasPlatformTip',
   CONTRIBUTION_PLATFORM_TIP_PERCENTAGE = 'contributionPlatformTipPercentage',
   CONTRIBUTION_IS_NEW_PLATFORM_TIP = 'contributionIsNewPlatformTip',
+  EXPERIMENT = 'experiment',
+  EXPERIMENT_VARIANT = 'experimentVariant',
 }
+
+/** The variant of an experiment, added to the events tracked after the visitor was exposed to it */
+export type ExperimentVariantProperty = `${AnalyticsProperty.EXPERIMENT}:${string}`;
@@ -1,6 +1,6 @@
 import type Express from 'express';
 
-import { LOCAL_STORAGE_KEYS, removeFromLocalStorage } from './local-storage';
+import { getFromLocalStorage, LOCAL_STORAGE_KEYS, removeFromLocalStorage } from './local-storage';
 
 export function logout() {
   removeFromLocalStorage(LOCAL_STORAGE_KEYS.ACCESS_TOKEN);
@@ -16,3 +16,19 @@ export function getTokenFromCookie(req: Express.Request) {
     ? [req.cookies.accessTokenPayload, req.cookies.accessTokenSignature].join('.')
     : null;
 }
+
+/**
+ * Files exported by the REST API (e.g. transactions CSV) are downloaded with regular links, so the access token is
+ * passed through a short-lived cookie. It can't be HttpOnly when set from JavaScript, so SameSite and Domain are
+ * enforced in production to prevent CSRF.
+ */
+export function setRestAuthorizationCookie() {
+  const env = process.env.OC_ENV;
+  const accessToken = getFromLocalStorage(LOCAL_STORAGE_KEYS.ACCESS_TOKEN);
+  if (typeof document !== 'undefined' && accessToken) {
+    document.cookie =
+      env === 'development' || env === 'e2e'
+        ? `authorization="Bearer ${accessToken}";path=/;SameSite=strict;max-age=120`
+        : `authorization="Bearer ${accessToken}";path=/;SameSite=strict;max-age=120;domain=opencollective.com;secure`;
+  }
+}
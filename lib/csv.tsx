@@ -518,7 +518,12 @@ export const FIELDS: Array<{
   {
     id: 'orderCustomData',
     group: 'order',
-    tooltip: <FormattedMessage defaultMessage="Additional contribution metadata." id="WbW/6b" />,
+    tooltip: (
+      <FormattedMessage
+        defaultMessage="Additional contribution metadata, such as the answers to the custom fields of the tier. Each field is exported in its own column."
+        id="+X66aZ"
+      />
+    ),
     label: <FormattedMessage defaultMessage="Contribution Custom Data" id="OV4x2C" />,
   },
   {
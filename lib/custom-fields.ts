@@ -0,0 +1,245 @@
+import { castArray, isEmpty, isNil, keyBy } from 'lodash';
+import type { HTMLInputTypeAttribute } from 'react';
+
+/**
+ * Custom fields let tiers and hosts collect extra information in the contribution flow. The answers are stored in
+ * the order `customData`, by field name.
+ */
+
+type CustomFieldValue = string | number | boolean;
+
+/**
+ * A rule on the answer of another field. When several properties are set, all of them must match.
+ */
+export type CustomFieldCondition = {
+  /** The name of the field to check */
+  field: string;
+  /** Matches when the answer is this value, or one of these values */
+  equals?: CustomFieldValue | CustomFieldValue[];
+  /** Matches when the answer is not this value, nor one of these values */
+  notEquals?: CustomFieldValue | CustomFieldValue[];
+  /** Matches when the field has been answered (true) or left empty (false) */
+  isSet?: boolean;
+};
+
+type CustomFieldConditions = CustomFieldCondition | CustomFieldCondition[];
+
+type CommonFieldAttributes = {
+  name: string;
+  label: string;
+  placeholder?: string;
+  required?: boolean;
+  disabled?: boolean;
+  useRequiredLabel?: boolean;
+  hideOptionalLabel?: boolean;
+  hint?: string;
+  helpText?: string;
+  isPrivate?: boolean;
+  /** The field is only displayed (and its answer kept) when all the conditions match */
+  showIf?: CustomFieldConditions;
+  /** The field becomes required when all the conditions match */
+  requiredIf?: CustomFieldConditions;
+  validation?: {
+    /** A regular expression that the whole answer must match */
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    /** Replaces the default error message when the answer is invalid */
+    message?: string;
+  };
+};
+
+export type SelectFieldAttributes = CommonFieldAttributes & {
+  type: 'select';
+  options: { value: string; label: string }[];
+  settings?: { isMulti?: boolean };
+};
+
+export type TextareaFieldAttributes = CommonFieldAttributes & {
+  type: 'textarea';
+};
+
+export type HTMLInputFieldAttributes = CommonFieldAttributes & {
+  type: HTMLInputTypeAttribute;
+  pattern?: string;
+};
+
+export type InputFieldAttributes = SelectFieldAttributes | TextareaFieldAttributes | HTMLInputFieldAttributes;
+
+export type FieldAttributes = InputFieldAttributes | { type: 'separator'; showIf?: CustomFieldConditions };
+
+export type FieldsConfig = {
+  fields: FieldAttributes[];
+  translations?: Record<
+    string, // The locale
+    Record<string, string> // An object like { originalString: 'Translated string' }
+  >;
+};
+
+export enum CustomFieldErrorType {
+  REQUIRED = 'REQUIRED',
+  PATTERN = 'PATTERN',
+  MIN_LENGTH = 'MIN_LENGTH',
+  MAX_LENGTH = 'MAX_LENGTH',
+}
+
+/**
+ * Returns null if the `validation.pattern` of a field is not a valid regular expression, which is then ignored.
+ */
+const toAnchoredRegExp = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+const isAnswered = (value: unknown): boolean =>
+  !isNil(value) && value !== '' && value !== false && !(Array.isArray(value) && value.length === 0);
+
+const includesAnswer = (values: CustomFieldValue | CustomFieldValue[], answer: unknown): boolean => {
+  const answers = castArray(answer);
+  return castArray(values).some(value => answers.some(a => String(a) === String(value)));
+};
+
+const matchesCondition = (condition: CustomFieldCondition, data: Record<string, unknown>): boolean => {
+  const answer = data?.[condition.field];
+  if (!isNil(condition.isSet) && isAnswered(answer) !== condition.isSet) {
+    return false;
+  } else if (!isNil(condition.equals) && !includesAnswer(condition.equals, answer)) {
+    return false;
+  } else if (!isNil(condition.notEquals) && includesAnswer(condition.notEquals, answer)) {
+    return false;
+  } else {
+    return true;
+  }
+};
+
+const matchesConditions = (conditions: CustomFieldConditions, data: Record<string, unknown>): boolean =>
+  castArray(conditions).every(condition => matchesCondition(condition, data));
+
+/**
+ * Returns the fields to display for the given answers. A field is hidden when its conditions don't match, or when
+ * it depends on a hidden field.
+ */
+export const getVisibleCustomFields = (
+  config: FieldsConfig | null,
+  data: Record<string, unknown>,
+): FieldAttributes[] => {
+  const fields = config?.fields || [];
+  const fieldsByName = keyBy(
+    fields.filter(field => 'name' in field),
+    field => (field as InputFieldAttributes).name,
+  );
+  const isVisible = (field: FieldAttributes, checkedNames: string[] = []): boolean => {
+    if (!field.showIf) {
+      return true;
+    }
+
+    return castArray(field.showIf).every(condition => {
+      const dependency = fieldsByName[condition.field];
+      const isDependencyVisible =
+        !dependency ||
+        (!checkedNames.includes(condition.field) && isVisible(dependency, [...checkedNames, condition.field]));
+      return isDependencyVisible && matchesCondition(condition, data);
+    });
+  };
+
+  return fields.filter(field => isVisible(field));
+};
+
+export const isCustomFieldRequired = (field: InputFieldAttributes, data: Record<string, unknown>): boolean =>
+  Boolean(field.required || (field.requiredIf && matchesConditions(field.requiredIf, data)));
+
+export const getCustomFieldError = (
+  field: InputFieldAttributes,
+  data: Record<string, unknown>,
+): CustomFieldErrorType | null => {
+  const value = data?.[field.name];
+  if (!isAnswered(value)) {
+    return isCustomFieldRequired(field, data) ? CustomFieldErrorType.REQUIRED : null;
+  } else if (typeof value !== 'string' || !field.validation) {
+    return null;
+  }
+
+  const { pattern, minLength, maxLength } = field.validation;
+  const regExp = pattern && toAnchoredRegExp(pattern);
+  if (regExp && !regExp.test(value)) {
+    return CustomFieldErrorType.PATTERN;
+  } else if (minLength && value.length < minLength) {
+    return CustomFieldErrorType.MIN_LENGTH;
+  } else if (maxLength && value.length > maxLength) {
+    return CustomFieldErrorType.MAX_LENGTH;
+  } else {
+    return null;
+  }
+};
+
+/**
+ * Validates the answers of the visible fields. Returns an empty object if all answers are valid.
+ */
+export const validateCustomFields = (
+  config: FieldsConfig | null,
+  data: Record<string, unknown>,
+): Record<string, CustomFieldErrorType> => {
+  const errors = {};
+  getVisibleCustomFields(config, data).forEach(field => {
+    if (field.type !== 'separator') {
+      const error = getCustomFieldError(field as InputFieldAttributes, data);
+      if (error) {
+        errors[(field as InputFieldAttributes).name] = error;
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Removes the answers of the fields that are hidden, so that they're not submitted with the contribution.
+ */
+export const removeHiddenCustomFieldsData = (
+  config: FieldsConfig | null,
+  data: Record<string, unknown>,
+): Record<string, unknown> => {
+  if (isEmpty(data)) {
+    return data;
+  }
+
+  const names = new Set(config?.fields.map(field => 'name' in field && field.name).filter(Boolean));
+  const visibleNames = new Set(getVisibleCustomFields(config, data).map(field => 'name' in field && field.name));
+  return Object.fromEntries(Object.entries(data).filter(([name]) => !names.has(name) || visibleNames.has(name)));
+};
+
+/**
+ * Returns the label of each answered field, in the order of the configuration. Answers to fields that are not in
+ * the configuration anymore come last, labelled by their name.
+ */
+export const getCustomDataEntries = (
+  config: FieldsConfig | FieldAttributes[] | null,
+  data: Record<string, unknown>,
+): { name: string; label: string; value: string }[] => {
+  const fields = (Array.isArray(config) ? config : config?.fields || []).filter(
+    field => 'name' in field,
+  ) as InputFieldAttributes[];
+  const fieldNames = fields.map(field => field.name);
+  const formatValue = (field: InputFieldAttributes | undefined, value: unknown): string =>
+    castArray(value)
+      .map(v => {
+        if (typeof v === 'object') {
+          return JSON.stringify(v);
+        } else if (field?.type === 'select') {
+          return (field as SelectFieldAttributes).options?.find(o => o.value === v)?.label || String(v);
+        } else {
+          return String(v);
+        }
+      })
+      .join(', ');
+
+  return [...fieldNames, ...Object.keys(data || {}).filter(name => !fieldNames.includes(name))]
+    .filter(name => isAnswered(data?.[name]))
+    .map(name => {
+      const field = fields.find(field => field.name === name);
+      return { name, label: field?.label || name, value: formatValue(field, data[name]) };
+    });
+};
@@ -53,6 +53,7 @@ export const ERROR = {
   INVALID_FILE_MIME_TYPE: 'INVALID_FILE_MIME_TYPE',
   JWT_EXPIRED: 'JWT_EXPIRED',
   TWO_FACTOR_AUTH_CANCELED: 'TWO_FACTOR_AUTH_CANCELED',
+  EXPORT_MULTIPLE_CURRENCIES: 'EXPORT_MULTIPLE_CURRENCIES',
   'PM.Remove.HasActiveSubscriptions': 'PM.Remove.HasActiveSubscriptions',
   ...TRANSFERWISE_ERROR,
 };
@@ -300,6 +301,11 @@ const msg = {
       defaultMessage: 'Your session has expired. Please sign-in again.',
       id: 'Dtil7S',
     },
+    [ERROR.EXPORT_MULTIPLE_CURRENCIES]: {
+      defaultMessage:
+        'QuickBooks Online files only support a single currency, but this export contains {currencies}. Choose another format to export these transactions.',
+      id: '0165u7',
+    },
   }),
   ...transferwiseMsg,
 };
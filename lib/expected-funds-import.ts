@@ -0,0 +1,296 @@
+import { parse as parseCSV } from 'csv-parse/sync';
+import dayjs from 'dayjs';
+import { deburr, maxBy, words } from 'lodash';
+import { isEmail } from 'validator';
+
+import type { PendingOrderCreateInput } from './graphql/types/v2/graphql';
+import { Currency } from './graphql/types/v2/graphql';
+import { readXLSX } from './xlsx';
+
+/**
+ * Helpers to create expected funds in bulk from a spreadsheet: each row is mapped onto the fields of the
+ * "Create Expected Funds" form, then validated against the accounts it references.
+ */
+
+export const EXPECTED_FUNDS_IMPORT_FIELDS = [
+  'toAccount',
+  'fromAccount',
+  'contactName',
+  'contactEmail',
+  'amount',
+  'currency',
+  'tier',
+  'expectedAt',
+  'description',
+  'memo',
+  'ponumber',
+  'paymentMethod',
+  'hostFeePercent',
+] as const;
+
+export type ExpectedFundsImportField = (typeof EXPECTED_FUNDS_IMPORT_FIELDS)[number];
+
+/** Same as the required fields of the "Create Expected Funds" form */
+export const REQUIRED_EXPECTED_FUNDS_IMPORT_FIELDS: ExpectedFundsImportField[] = [
+  'toAccount',
+  'fromAccount',
+  'contactName',
+  'contactEmail',
+  'amount',
+  'expectedAt',
+];
+
+/** The column of the file used for each field */
+export type ExpectedFundsColumnsMapping = Partial<Record<ExpectedFundsImportField, string>>;
+
+export enum ExpectedFundsImportErrorType {
+  MISSING_VALUE = 'MISSING_VALUE',
+  UNKNOWN_ACCOUNT = 'UNKNOWN_ACCOUNT',
+  NOT_HOSTED = 'NOT_HOSTED',
+  INVALID_VALUE = 'INVALID_VALUE',
+  INVALID_CURRENCY = 'INVALID_CURRENCY',
+  UNKNOWN_TIER = 'UNKNOWN_TIER',
+}
+
+export type ExpectedFundsImportError = {
+  type: ExpectedFundsImportErrorType;
+  field: ExpectedFundsImportField;
+  value?: string;
+};
+
+export type ExpectedFundsImportAccount = {
+  id: string;
+  slug: string;
+  currency?: string;
+  host?: { id: string } | null;
+  tiers?: { nodes: Array<{ id: string; slug: string; legacyId: number; name: string }> };
+};
+
+/** Accounts referenced by the file, by slug. `null` when the account does not exist. */
+export type ExpectedFundsImportAccounts = Record<string, ExpectedFundsImportAccount | null>;
+
+export const EXPECTED_FUNDS_PAYMENT_METHODS = ['UNKNOWN', 'BANK_TRANSFER', 'CHECK'];
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/** Sorted by priority when guessing the mapping, e.g. "Tier name" is a tier and not a contact name */
+const FIELD_ALIASES: Array<[ExpectedFundsImportField, string[]]> = [
+  ['tier', ['tier', 'level']],
+  ['contactEmail', ['email', 'mail']],
+  ['hostFeePercent', ['fee', 'fees']],
+  ['paymentMethod', ['method', 'payment']],
+  ['expectedAt', ['expected', 'date', 'due']],
+  ['currency', ['currency', 'ccy']],
+  ['amount', ['amount', 'total', 'value', 'sum']],
+  ['toAccount', ['collective', 'to', 'recipient', 'beneficiary', 'project', 'event']],
+  ['fromAccount', ['contributor', 'from', 'sponsor', 'donor', 'organization', 'payer']],
+  ['contactName', ['contact', 'name']],
+  ['description', ['description', 'title']],
+  ['memo', ['memo', 'note', 'notes', 'comment']],
+  ['ponumber', ['po', 'ponumber', 'reference', 'ref']],
+];
+
+/**
+ * Reads the rows of a CSV or XLSX file, using the first line as header.
+ */
+export const readExpectedFundsFile = async (file: File): Promise<Array<Record<string, string>>> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const [headers = [], ...rows] = await readXLSX(await file.arrayBuffer());
+    return rows
+      .filter(row => row.some(value => value?.trim()))
+      .map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] || ''])));
+  }
+
+  // Use the delimiter that splits the header in the most columns
+  const content = await file.text();
+  const header = content.split('\n', 1)[0];
+  const delimiter = maxBy(CSV_DELIMITERS, delimiter => header.split(delimiter).length);
+  return parseCSV(content, { columns: true, skip_empty_lines: true, delimiter });
+};
+
+/**
+ * Guesses the column used for each field from the headers of the file.
+ */
+export const guessExpectedFundsColumnsMapping = (headers: string[]): ExpectedFundsColumnsMapping => {
+  const mapping: ExpectedFundsColumnsMapping = {};
+  const usedHeaders = new Set<string>();
+  for (const [field, aliases] of FIELD_ALIASES) {
+    const header = headers.find(header => {
+      const headerWords = words(deburr(header).toLowerCase());
+      return !usedHeaders.has(header) && aliases.some(alias => headerWords.includes(alias));
+    });
+    if (header) {
+      mapping[field] = header;
+      usedHeaders.add(header);
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Returns the slugs of the accounts referenced by the rows, to load them before validating the rows.
+ */
+export const getExpectedFundsImportSlugs = (
+  rows: Array<Record<string, string>>,
+  mapping: ExpectedFundsColumnsMapping,
+): string[] => {
+  const slugs = new Set<string>();
+  for (const row of rows) {
+    for (const field of ['toAccount', 'fromAccount'] as const) {
+      const slug = mapping[field] && row[mapping[field]]?.trim().toLowerCase();
+      if (slug) {
+        slugs.add(slug);
+      }
+    }
+  }
+
+  return Array.from(slugs);
+};
+
+/**
+ * Returns the decimal separator of an amount stripped of everything but digits and separators, `null` if it has
+ * none, or `undefined` if it can't be told, like in `1,000` or `1.000`.
+ */
+const getDecimalSeparator = (amount: string): '.' | ',' | null | undefined => {
+  const separators = amount.replace(/\d/g, '');
+  const lastSeparator = separators[separators.length - 1] as '.' | ',' | undefined;
+  if (!lastSeparator) {
+    return null;
+  } else if (new Set(separators).size > 1) {
+    return lastSeparator; // e.g. `1,000.50` or `1.000,50`
+  } else if (separators.length > 1) {
+    return null; // The separator is repeated, so it separates the thousands, e.g. `1,000,000`
+  } else if (/^\d{1,3}[.,]\d{3}$/.test(amount)) {
+    return undefined;
+  } else {
+    return lastSeparator;
+  }
+};
+
+/**
+ * Parses amounts like `1,000.50`, `1.000,50`, `1 000,50` or `$ 12`. Returns `null` when the amount is invalid or
+ * when its decimal separator is ambiguous, like in `1,000`.
+ */
+const parseAmountToCents = (value: string): number | null => {
+  const isNegative = /^[^\d]*-/.test(value);
+  const amount = value.replace(/[^\d.,]/g, '');
+  const decimalSeparator = getDecimalSeparator(amount);
+  if (decimalSeparator === undefined) {
+    return null;
+  }
+
+  const [integerPart, decimalPart, ...rest] = decimalSeparator ? amount.split(decimalSeparator) : [amount];
+  const thousands = integerPart.split(/[.,]/);
+  if (
+    rest.length ||
+    !thousands[0] ||
+    (thousands.length > 1 && !thousands.slice(1).every(group => group.length === 3)) ||
+    (decimalSeparator && !/^\d{1,2}$/.test(decimalPart))
+  ) {
+    return null;
+  }
+
+  const cents = parseInt(thousands.join('')) * 100 + parseInt((decimalPart || '0').padEnd(2, '0'));
+  return isNegative ? -cents : cents;
+};
+
+/**
+ * Builds the `createPendingOrder` input for a row, or returns the reasons why it can't be created.
+ */
+export const getExpectedFundsImportRow = (
+  row: Record<string, string>,
+  mapping: ExpectedFundsColumnsMapping,
+  { hostId, accounts }: { hostId: string; accounts: ExpectedFundsImportAccounts },
+): { order: PendingOrderCreateInput | null; errors: ExpectedFundsImportError[] } => {
+  const errors: ExpectedFundsImportError[] = [];
+  const values = Object.fromEntries(
+    EXPECTED_FUNDS_IMPORT_FIELDS.map(field => [field, (mapping[field] && row[mapping[field]]?.trim()) || '']),
+  ) as Record<ExpectedFundsImportField, string>;
+  const addError = (type: ExpectedFundsImportErrorType, field: ExpectedFundsImportField) =>
+    errors.push({ type, field, value: values[field] });
+
+  for (const field of REQUIRED_EXPECTED_FUNDS_IMPORT_FIELDS) {
+    if (!values[field]) {
+      addError(ExpectedFundsImportErrorType.MISSING_VALUE, field);
+    }
+  }
+
+  const collective = values.toAccount ? accounts[values.toAccount.toLowerCase()] : null;
+  if (values.toAccount && !collective) {
+    addError(ExpectedFundsImportErrorType.UNKNOWN_ACCOUNT, 'toAccount');
+  } else if (collective && collective.host?.id !== hostId) {
+    addError(ExpectedFundsImportErrorType.NOT_HOSTED, 'toAccount');
+  }
+
+  const contributor = values.fromAccount ? accounts[values.fromAccount.toLowerCase()] : null;
+  if (values.fromAccount && !contributor) {
+    addError(ExpectedFundsImportErrorType.UNKNOWN_ACCOUNT, 'fromAccount');
+  }
+
+  if (values.contactEmail && !isEmail(values.contactEmail)) {
+    addError(ExpectedFundsImportErrorType.INVALID_VALUE, 'contactEmail');
+  }
+
+  const valueInCents = values.amount ? parseAmountToCents(values.amount) : null;
+  if (values.amount && !(valueInCents > 0)) {
+    addError(ExpectedFundsImportErrorType.INVALID_VALUE, 'amount');
+  }
+
+  // Expected funds are always in the currency of the collective, like in the form
+  const currency = values.currency.toUpperCase() || collective?.currency;
+  if (values.currency && !Object.values(Currency).includes(currency as Currency)) {
+    addError(ExpectedFundsImportErrorType.INVALID_VALUE, 'currency');
+  } else if (collective && currency !== collective.currency) {
+    addError(ExpectedFundsImportErrorType.INVALID_CURRENCY, 'currency');
+  }
+
+  let tier = null;
+  if (values.tier && collective) {
+    tier = collective.tiers?.nodes.find(
+      tier =>
+        tier.slug === values.tier.toLowerCase() ||
+        tier.name.toLowerCase() === values.tier.toLowerCase() ||
+        tier.legacyId.toString() === values.tier,
+    );
+    if (!tier) {
+      addError(ExpectedFundsImportErrorType.UNKNOWN_TIER, 'tier');
+    }
+  }
+
+  const expectedAt = dayjs(values.expectedAt);
+  if (values.expectedAt && (!/^\d{4}-\d{2}-\d{2}/.test(values.expectedAt) || !expectedAt.isValid())) {
+    addError(ExpectedFundsImportErrorType.INVALID_VALUE, 'expectedAt');
+  }
+
+  const paymentMethod = values.paymentMethod.toUpperCase().replace(/\s+/g, '_');
+  if (paymentMethod && !EXPECTED_FUNDS_PAYMENT_METHODS.includes(paymentMethod)) {
+    addError(ExpectedFundsImportErrorType.INVALID_VALUE, 'paymentMethod');
+  }
+
+  const hostFeePercent = values.hostFeePercent ? Number(values.hostFeePercent.replace('%', '')) : null;
+  if (hostFeePercent !== null && !(hostFeePercent >= 0 && hostFeePercent <= 100)) {
+    addError(ExpectedFundsImportErrorType.INVALID_VALUE, 'hostFeePercent');
+  }
+
+  if (errors.length) {
+    return { order: null, errors };
+  }
+
+  return {
+    errors,
+    order: {
+      amount: { valueInCents, currency: currency as Currency },
+      fromAccount: { id: contributor.id },
+      fromAccountInfo: { name: values.contactName, email: values.contactEmail },
+      toAccount: { id: collective.id },
+      tier: tier ? { id: tier.id } : null,
+      expectedAt: expectedAt.format(),
+      description: values.description || null,
+      memo: values.memo || null,
+      ponumber: values.ponumber || null,
+      paymentMethod: paymentMethod || null,
+      ...(hostFeePercent !== null && { hostFeePercent }),
+    },
+  };
+};
@@ -0,0 +1,276 @@
+import { escape, get } from 'lodash';
+import type { IntlShape } from 'react-intl';
+import { createIntl, defineMessages } from 'react-intl';
+
+import type { Currency } from './graphql/types/v2/graphql';
+import { CommentType, OrderStatus } from './graphql/types/v2/graphql';
+import { formatCurrency } from './currency-utils';
+import dayjs from './dayjs';
+import type { PDFElement } from './pdf';
+import { canPrintPDFText, generatePDF, PDF_PAGE_WIDTH, wrapPDFText } from './pdf';
+
+/**
+ * Helpers to bill the sponsors of expected funds: the invoice PDF and its status. The invoices and reminders sent by
+ * the host are tracked with private notes on the orders, see `getExpectedFundsInvoiceNoteHtml`. Reminders are sent by
+ * hand from the dashboard: nothing sends them on a schedule, and whether the sponsor viewed the invoice is not tracked.
+ */
+
+export type ExpectedFundsInvoice = {
+  sentAt: string;
+  remindersSentAt?: string[];
+};
+
+export enum ExpectedFundsInvoiceStatus {
+  NOT_SENT = 'NOT_SENT',
+  SENT = 'SENT',
+  OVERDUE = 'OVERDUE',
+  PAID = 'PAID',
+}
+
+export enum ExpectedFundsInvoiceNoteType {
+  INVOICE = 'INVOICE',
+  REMINDER = 'REMINDER',
+}
+
+/** Not translated, as they identify the notes of the invoices */
+const NOTE_TITLES: Record<ExpectedFundsInvoiceNoteType, string> = {
+  [ExpectedFundsInvoiceNoteType.INVOICE]: 'Invoice sent to the sponsor',
+  [ExpectedFundsInvoiceNoteType.REMINDER]: 'Invoice reminder sent to the sponsor',
+};
+
+type InvoiceAmount = { valueInCents: number; currency: Currency | `${Currency}` };
+
+type ExpectedFundsInvoiceNote = {
+  type: CommentType | `${CommentType}`;
+  createdAt?: string | null;
+  html?: string | null;
+};
+
+export type ExpectedFundsInvoiceOrder = {
+  legacyId: number;
+  status: OrderStatus | `${OrderStatus}`;
+  description?: string | null;
+  amount: InvoiceAmount;
+  totalAmount: InvoiceAmount;
+  tier?: { name: string } | null;
+  fromAccount: { name?: string | null; slug: string };
+  toAccount: { name?: string | null; slug: string };
+  pendingContributionData?: {
+    expectedAt?: string | null;
+    ponumber?: string | null;
+    fromAccountInfo?: { name?: string | null; email?: string | null } | null;
+  } | null;
+  comments?: { nodes?: ExpectedFundsInvoiceNote[] | null } | null;
+};
+
+export type ExpectedFundsInvoiceHost = {
+  slug: string;
+  name?: string | null;
+  legalName?: string | null;
+  location?: { address?: string | null; country?: string | null } | null;
+  settings?: Record<string, unknown>;
+};
+
+/**
+ * The private note added to the order when the invoice or a reminder is sent, with the subject of the message.
+ */
+export const getExpectedFundsInvoiceNoteHtml = (type: ExpectedFundsInvoiceNoteType, subject: string): string =>
+  `<p><strong>${NOTE_TITLES[type]}</strong></p><p>${escape(subject)}</p>`;
+
+const getNoteType = (note: ExpectedFundsInvoiceNote): ExpectedFundsInvoiceNoteType | undefined => {
+  if (note.type === CommentType.PRIVATE_NOTE) {
+    const text = note.html?.replace(/<[^>]*>/g, '') || '';
+    return Object.values(ExpectedFundsInvoiceNoteType).find(type => text.startsWith(NOTE_TITLES[type]));
+  }
+};
+
+export const getExpectedFundsInvoice = (
+  order: Pick<ExpectedFundsInvoiceOrder, 'comments'>,
+): ExpectedFundsInvoice | null => {
+  const notes = order.comments?.nodes || [];
+  const invoiceNote = notes.find(note => getNoteType(note) === ExpectedFundsInvoiceNoteType.INVOICE);
+  if (!invoiceNote) {
+    return null;
+  }
+
+  return {
+    sentAt: invoiceNote.createdAt,
+    remindersSentAt: notes
+      .filter(note => getNoteType(note) === ExpectedFundsInvoiceNoteType.REMINDER)
+      .map(note => note.createdAt),
+  };
+};
+
+/**
+ * The invoice is paid as soon as the expected funds are marked as completed, and overdue once the expected date
+ * is passed.
+ */
+export const getExpectedFundsInvoiceStatus = (
+  order: Pick<ExpectedFundsInvoiceOrder, 'status' | 'pendingContributionData'>,
+  invoice: ExpectedFundsInvoice | null,
+  now = new Date(),
+): ExpectedFundsInvoiceStatus => {
+  const expectedAt = order.pendingContributionData?.expectedAt;
+  if (order.status === OrderStatus.PAID) {
+    return ExpectedFundsInvoiceStatus.PAID;
+  } else if (!invoice) {
+    return ExpectedFundsInvoiceStatus.NOT_SENT;
+  } else if (expectedAt && dayjs(expectedAt).isBefore(now, 'day')) {
+    return ExpectedFundsInvoiceStatus.OVERDUE;
+  } else {
+    return ExpectedFundsInvoiceStatus.SENT;
+  }
+};
+
+export const getExpectedFundsInvoiceFilename = (
+  host: Pick<ExpectedFundsInvoiceHost, 'slug'>,
+  order: Pick<ExpectedFundsInvoiceOrder, 'legacyId'>,
+): string => `${host.slug}_invoice_${order.legacyId}.pdf`;
+
+const messages = defineMessages({
+  title: { id: 'Expense.Type.Invoice', defaultMessage: 'Invoice' },
+  reference: { id: 'Expense.Reference', defaultMessage: 'Reference' },
+  issueDate: { defaultMessage: 'Issue date', id: 'c3mXbd' },
+  dueDate: { defaultMessage: 'Due date', id: 'l3AfOI' },
+  poNumber: { id: 'Fields.PONumber', defaultMessage: 'PO Number' },
+  billTo: { defaultMessage: 'Bill to', id: 'gSv0eP' },
+  collective: { id: 'Collective', defaultMessage: 'Collective' },
+  description: { id: 'Fields.description', defaultMessage: 'Description' },
+  amount: { id: 'Fields.amount', defaultMessage: 'Amount' },
+  taxes: { defaultMessage: 'Taxes', id: 'r+dgiv' },
+  total: { defaultMessage: 'Total', id: 'MJ2jZQ' },
+  defaultDescription: { defaultMessage: 'Contribution to {collective}', id: 'hGCfgo' },
+});
+
+const GREY: [number, number, number] = [0.4, 0.4, 0.4];
+
+const MARGIN = 50;
+
+/**
+ * The standard PDF fonts only print Latin characters (see `lib/pdf`): the invoice falls back to English when the labels
+ * or dates of the current locale can't be printed with them, e.g. in Japanese or Russian.
+ */
+export const getExpectedFundsInvoiceIntl = (intl: IntlShape): IntlShape => {
+  const labels = [
+    ...Object.values(messages).map(message => intl.formatMessage(message, { collective: '' })),
+    intl.formatDate(new Date(), { dateStyle: 'long' }),
+  ];
+  return labels.every(canPrintPDFText) ? intl : createIntl({ locale: 'en', defaultLocale: 'en' });
+};
+
+/**
+ * Whether the names, addresses and description printed on the invoice only use characters supported by the PDF.
+ * Other characters are replaced by "?".
+ */
+export const canPrintExpectedFundsInvoiceTexts = (
+  host: ExpectedFundsInvoiceHost,
+  order: ExpectedFundsInvoiceOrder,
+): boolean => {
+  const contact = order.pendingContributionData?.fromAccountInfo;
+  return [
+    host.legalName || host.name,
+    host.location?.address,
+    host.location?.country,
+    get(host, 'settings.invoice.templates.default.info'),
+    order.fromAccount.name,
+    order.toAccount.name,
+    contact?.name,
+    contact?.email,
+    order.pendingContributionData?.ponumber,
+    order.description || order.tier?.name,
+  ]
+    .filter(Boolean)
+    .every(canPrintPDFText);
+};
+
+/**
+ * Generates the PDF invoice of expected funds, branded with the host name, address and the extra information of its
+ * default receipt template (see `InvoicesReceipts`).
+ */
+export const generateExpectedFundsInvoicePDF = (
+  localeIntl: IntlShape,
+  host: ExpectedFundsInvoiceHost,
+  order: ExpectedFundsInvoiceOrder,
+  { issuedAt = new Date() }: { issuedAt?: Date | string } = {},
+): Uint8Array => {
+  const intl = getExpectedFundsInvoiceIntl(localeIntl);
+  const elements: PDFElement[] = [];
+  const formatDate = (date: Date | string) => intl.formatDate(date, { dateStyle: 'long' });
+  const formatAmount = (valueInCents: number) =>
+    formatCurrency(valueInCents, order.totalAmount.currency as Currency, {
+      locale: intl.locale,
+      currencyDisplay: 'code',
+    });
+  const addText = (text: string, x: number, y: number, options: Partial<Extract<PDFElement, { type: 'text' }>> = {}) =>
+    elements.push({ type: 'text', text, x, y, ...options });
+  const addLines = (lines: string[], x: number, y: number, options = {}): number => {
+    lines.filter(Boolean).forEach((line, index) => addText(line, x, y + index * 14, options));
+    return y + lines.filter(Boolean).length * 14;
+  };
+
+  // Header: host on the left, invoice details on the right
+  const hostName = host.legalName || host.name || host.slug;
+  addText(hostName, MARGIN, MARGIN, { size: 16, bold: true });
+  addLines(
+    [...(host.location?.address?.split('\n') || []), host.location?.country].filter(Boolean),
+    MARGIN,
+    MARGIN + 24,
+    { color: GREY },
+  );
+
+  const detailsX = 360;
+  addText(intl.formatMessage(messages.title), detailsX, MARGIN, { size: 20, bold: true });
+  const expectedAt = order.pendingContributionData?.expectedAt;
+  const ponumber = order.pendingContributionData?.ponumber;
+  addLines(
+    [
+      `${intl.formatMessage(messages.reference)}: #${order.legacyId}`,
+      `${intl.formatMessage(messages.issueDate)}: ${formatDate(issuedAt)}`,
+      expectedAt && `${intl.formatMessage(messages.dueDate)}: ${formatDate(expectedAt)}`,
+      ponumber && `${intl.formatMessage(messages.poNumber)}: ${ponumber}`,
+    ],
+    detailsX,
+    MARGIN + 32,
+  );
+
+  // Sponsor & collective
+  let y = 180;
+  addText(intl.formatMessage(messages.billTo), MARGIN, y, { bold: true });
+  addText(intl.formatMessage(messages.collective), detailsX, y, { bold: true });
+  const contact = order.pendingContributionData?.fromAccountInfo;
+  addLines([order.fromAccount.name || order.fromAccount.slug, contact?.name, contact?.email], MARGIN, y + 16);
+  addText(order.toAccount.name || order.toAccount.slug, detailsX, y + 16);
+
+  // Lines
+  const amountX = 460;
+  const right = PDF_PAGE_WIDTH - MARGIN;
+  y = 270;
+  addText(intl.formatMessage(messages.description), MARGIN, y, { bold: true });
+  addText(intl.formatMessage(messages.amount), amountX, y, { bold: true });
+  elements.push({ type: 'line', x1: MARGIN, y1: y + 16, x2: right, y2: y + 16, color: GREY });
+  const description =
+    order.description ||
+    order.tier?.name ||
+    intl.formatMessage(messages.defaultDescription, { collective: order.toAccount.name || order.toAccount.slug });
+  y = addLines(wrapPDFText(description, 70), MARGIN, y + 24);
+  addText(formatAmount(order.amount.valueInCents), amountX, y - 14);
+
+  const taxes = order.totalAmount.valueInCents - order.amount.valueInCents;
+  if (taxes > 0) {
+    addText(intl.formatMessage(messages.taxes), MARGIN, y + 6);
+    addText(formatAmount(taxes), amountX, y + 6);
+    y += 20;
+  }
+
+  elements.push({ type: 'line', x1: MARGIN, y1: y + 8, x2: right, y2: y + 8, color: GREY });
+  addText(intl.formatMessage(messages.total), MARGIN, y + 16, { bold: true, size: 12 });
+  addText(formatAmount(order.totalAmount.valueInCents), amountX, y + 16, { bold: true, size: 12 });
+
+  // Extra information from the receipt template, e.g. tax ID or payment details
+  const info = get(host, 'settings.invoice.templates.default.info');
+  if (info) {
+    addLines(wrapPDFText(info, 95), MARGIN, y + 60, { size: 9, color: GREY });
+  }
+
+  return generatePDF([elements], { title: `${intl.formatMessage(messages.title)} #${order.legacyId}` });
+};
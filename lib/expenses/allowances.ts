@@ -0,0 +1,81 @@
+import { get, isNil } from 'lodash';
+
+/**
+ * Mileage and per diem allowances. Hosts define the rates in their settings, in the host currency, and the amount of
+ * an allowance item is computed from these rates in the submission flow rather than entered by the submitter.
+ */
+
+export const ALLOWANCE_RATES_SETTINGS_KEY = 'expenseAllowanceRates';
+
+export enum ExpenseItemKind {
+  MILEAGE = 'MILEAGE',
+  PER_DIEM = 'PER_DIEM',
+}
+
+export enum DistanceUnit {
+  KM = 'km',
+  MI = 'mi',
+}
+
+/** All rates are in cents, in the host currency */
+export type AllowanceRates = {
+  mileage?: { unit: DistanceUnit; rate: number };
+  perDiem?: {
+    /** Used for the countries that don't have a specific rate */
+    defaultRate?: number;
+    /** Daily rates by country code */
+    countries?: Record<string, number>;
+  };
+};
+
+export type MileageDetails = { from?: string; to?: string; distance?: number };
+
+export type PerDiemDetails = { country?: string; days?: number };
+
+export const getAllowanceRates = (host: { settings?: Record<string, unknown> } | null | undefined): AllowanceRates => {
+  return get(host, ['settings', ALLOWANCE_RATES_SETTINGS_KEY]) || {};
+};
+
+/**
+ * Returns the kinds of allowance items that can be submitted with these rates.
+ */
+export const getAvailableAllowanceKinds = (rates: AllowanceRates): ExpenseItemKind[] => {
+  const kinds = [];
+  if (rates.mileage?.rate > 0) {
+    kinds.push(ExpenseItemKind.MILEAGE);
+  }
+  if (rates.perDiem?.defaultRate > 0 || Object.values(rates.perDiem?.countries || {}).some(rate => rate > 0)) {
+    kinds.push(ExpenseItemKind.PER_DIEM);
+  }
+
+  return kinds;
+};
+
+/**
+ * Returns the daily rate for `country`, or null if there's none.
+ */
+export const getPerDiemRate = (rates: AllowanceRates, country: string): number | null => {
+  const rate = get(rates, ['perDiem', 'countries', country]) ?? rates.perDiem?.defaultRate;
+  return rate > 0 ? rate : null;
+};
+
+/**
+ * Computes the amount of an allowance item, in cents in the host currency. Returns null if the details are incomplete
+ * or if there's no rate for them.
+ */
+export const computeAllowanceAmount = (
+  rates: AllowanceRates,
+  item: { kind?: ExpenseItemKind | `${ExpenseItemKind}`; mileage?: MileageDetails; perDiem?: PerDiemDetails },
+): number | null => {
+  if (item.kind === ExpenseItemKind.MILEAGE) {
+    const distance = item.mileage?.distance;
+    const rate = rates.mileage?.rate;
+    return !isNil(distance) && distance > 0 && rate > 0 ? Math.round(distance * rate) : null;
+  } else if (item.kind === ExpenseItemKind.PER_DIEM) {
+    const days = item.perDiem?.days;
+    const rate = getPerDiemRate(rates, item.perDiem?.country);
+    return !isNil(days) && days > 0 && rate ? Math.round(days * rate) : null;
+  } else {
+    return null;
+  }
+};
@@ -0,0 +1,111 @@
+import { get } from 'lodash';
+
+import type { ExpenseType } from '../graphql/types/v2/graphql';
+
+/**
+ * Multi-step approval workflows for expenses, configured by the host in its settings.
+ *
+ * The workflows are advisory: the API only knows about a single approval, that any admin allowed to approve the
+ * expense can give. The interface displays the approvals that the host policy expects for an expense and who should
+ * review it, but it doesn't record or enforce them.
+ */
+
+export const APPROVAL_WORKFLOW_SETTINGS_KEY = 'expenseApprovalWorkflow';
+
+export enum ApprovalWorkflowRole {
+  COLLECTIVE_ADMIN = 'COLLECTIVE_ADMIN',
+  HOST_ADMIN = 'HOST_ADMIN',
+}
+
+export type ApprovalWorkflowStep = {
+  role: ApprovalWorkflowRole;
+  /** Number of distinct approvers expected for this step */
+  approvals: number;
+};
+
+/**
+ * A rule applies to an expense when all its conditions match. Conditions that are not set match all expenses.
+ */
+export type ApprovalWorkflowRule = {
+  id: string;
+  /** In cents, in the host currency */
+  minAmount?: number | null;
+  accountingCategoryIds?: string[] | null;
+  expenseTypes?: Array<ExpenseType | `${ExpenseType}`> | null;
+  steps: ApprovalWorkflowStep[];
+};
+
+export type ApprovalWorkflow = {
+  /** Evaluated in order, the first matching rule applies */
+  rules: ApprovalWorkflowRule[];
+};
+
+type ApprovalWorkflowExpense = {
+  type: ExpenseType | `${ExpenseType}`;
+  accountingCategory?: { id: string } | null;
+  amount?: number;
+  currency?: string;
+  amountInAccountCurrency?: { valueInCents?: number; currency?: string } | null;
+  amountInHostCurrency?: { valueInCents?: number; currency?: string } | null;
+};
+
+export const getApprovalWorkflow = (
+  host: { settings?: Record<string, unknown> } | null | undefined,
+): ApprovalWorkflow => {
+  return { rules: get(host, ['settings', APPROVAL_WORKFLOW_SETTINGS_KEY, 'rules']) || [] };
+};
+
+/**
+ * Returns the amount of the expense in `currency`, or null if it's not available in this currency.
+ */
+const getExpenseAmountInCurrency = (expense: ApprovalWorkflowExpense, currency: string): number | null => {
+  if (expense.amountInHostCurrency?.currency === currency) {
+    return expense.amountInHostCurrency.valueInCents;
+  } else if (expense.amountInAccountCurrency?.currency === currency) {
+    return expense.amountInAccountCurrency.valueInCents;
+  } else if (expense.currency === currency) {
+    return expense.amount;
+  } else {
+    return null;
+  }
+};
+
+const ruleMatchesExpense = (
+  rule: ApprovalWorkflowRule,
+  expense: ApprovalWorkflowExpense,
+  hostCurrency: string,
+): boolean => {
+  if (rule.expenseTypes?.length && !rule.expenseTypes.includes(expense.type)) {
+    return false;
+  } else if (
+    rule.accountingCategoryIds?.length &&
+    !rule.accountingCategoryIds.includes(expense.accountingCategory?.id)
+  ) {
+    return false;
+  } else if (rule.minAmount) {
+    // When the amount is not available in the host currency, we can't rule out the threshold
+    const amount = getExpenseAmountInCurrency(expense, hostCurrency);
+    return amount === null || amount >= rule.minAmount;
+  } else {
+    return true;
+  }
+};
+
+export const getApplicableApprovalRule = (
+  workflow: ApprovalWorkflow,
+  expense: ApprovalWorkflowExpense,
+  hostCurrency: string,
+): ApprovalWorkflowRule | null => {
+  if (!expense) {
+    return null;
+  }
+
+  return workflow.rules.find(rule => rule.steps?.length && ruleMatchesExpense(rule, expense, hostCurrency)) || null;
+};
+
+/**
+ * Whether the user is one of the approvers expected by the rule, for any of its steps.
+ */
+export const isExpectedApprover = (rule: ApprovalWorkflowRule, roles: ApprovalWorkflowRole[]): boolean => {
+  return rule.steps.some(step => roles.includes(step.role));
+};
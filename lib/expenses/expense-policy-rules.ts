@@ -0,0 +1,193 @@
+import { get, isNil } from 'lodash';
+
+import dayjs from '../dayjs';
+
+/**
+ * Structured expense policy rules, defined by the host in its settings. They're evaluated live in the submission
+ * flow and displayed to reviewers: rules with an `ERROR` severity block the submission form, the others are warnings.
+ * The rules are advisory, the API doesn't enforce them.
+ */
+
+export const EXPENSE_POLICY_RULES_SETTINGS_KEY = 'expensePolicyRules';
+
+export enum ExpensePolicyRuleType {
+  MAX_ITEM_AMOUNT = 'MAX_ITEM_AMOUNT',
+  RECEIPT_REQUIRED_ABOVE = 'RECEIPT_REQUIRED_ABOVE',
+  BANNED_KEYWORDS = 'BANNED_KEYWORDS',
+  ALLOWED_CURRENCIES = 'ALLOWED_CURRENCIES',
+  MAX_ITEM_AGE = 'MAX_ITEM_AGE',
+}
+
+export enum ExpensePolicyRuleSeverity {
+  ERROR = 'ERROR',
+  WARNING = 'WARNING',
+}
+
+type RuleConfig<Params> = Params & { severity: ExpensePolicyRuleSeverity };
+
+/** A rule that is not set is disabled. Amounts are in cents, in the host currency */
+export type ExpensePolicyRules = {
+  [ExpensePolicyRuleType.MAX_ITEM_AMOUNT]?: RuleConfig<{ amount: number }>;
+  [ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE]?: RuleConfig<{ amount: number }>;
+  [ExpensePolicyRuleType.BANNED_KEYWORDS]?: RuleConfig<{ keywords: string[] }>;
+  [ExpensePolicyRuleType.ALLOWED_CURRENCIES]?: RuleConfig<{ currencies: string[] }>;
+  [ExpensePolicyRuleType.MAX_ITEM_AGE]?: RuleConfig<{ days: number }>;
+};
+
+export type ExpensePolicyViolation = {
+  type: ExpensePolicyRuleType;
+  severity: ExpensePolicyRuleSeverity;
+  /** The field that violates the rule, on the item if `itemIndex` is set, on the expense otherwise */
+  field: 'description' | 'currency' | 'payee' | 'amount' | 'url' | 'incurredAt';
+  itemIndex?: number;
+  /** Values to describe the violation, e.g. the matched keyword or the maximum amount */
+  values: Record<string, string | number>;
+};
+
+export type ExpensePolicyExpense = {
+  description?: string;
+  currency?: string;
+  payeeName?: string;
+  /** Invoices can be justified by files attached to the expense rather than to each item */
+  hasAttachedFiles?: boolean;
+  items?: Array<{
+    /** Allowances (mileage, per diem) are computed from the host rates and don't have receipts */
+    kind?: string;
+    description?: string;
+    incurredAt?: Date | string;
+    url?: string;
+    amount?: {
+      valueInCents?: number;
+      currency?: string;
+      exchangeRate?: { value?: number; toCurrency?: string } | null;
+    };
+  }>;
+};
+
+export const getExpensePolicyRules = (
+  host: { settings?: Record<string, unknown> } | null | undefined,
+): ExpensePolicyRules => {
+  return get(host, ['settings', EXPENSE_POLICY_RULES_SETTINGS_KEY]) || {};
+};
+
+/**
+ * Returns the amount of the item in `currency`, converted with the exchange rate of the item if needed, or null if it
+ * can't be determined.
+ */
+const getItemAmountInCurrency = (item: ExpensePolicyExpense['items'][number], currency: string): number | null => {
+  if (isNil(item.amount?.valueInCents)) {
+    return null;
+  } else if (item.amount.currency === currency) {
+    return item.amount.valueInCents;
+  } else if (item.amount.exchangeRate?.value && item.amount.exchangeRate.toCurrency === currency) {
+    return Math.round(item.amount.valueInCents * item.amount.exchangeRate.value);
+  } else {
+    return null;
+  }
+};
+
+const findKeyword = (text: string, keywords: string[]): string | undefined => {
+  const lowerText = text?.toLowerCase();
+  if (lowerText) {
+    const trimmedKeywords = keywords.map(keyword => keyword?.trim()).filter(Boolean);
+    return trimmedKeywords.find(keyword => lowerText.includes(keyword.toLowerCase()));
+  }
+};
+
+export const evaluateExpensePolicyRules = (
+  rules: ExpensePolicyRules,
+  expense: ExpensePolicyExpense,
+  {
+    currency,
+    now = new Date(),
+  }: {
+    /** The host currency, in which the amounts of the rules are defined */
+    currency: string;
+    /** The date to compare the items dates with, e.g. when the expense was submitted */
+    now?: Date | string;
+  },
+): ExpensePolicyViolation[] => {
+  const violations: ExpensePolicyViolation[] = [];
+  const items = expense.items || [];
+
+  const maxItemAmount = rules[ExpensePolicyRuleType.MAX_ITEM_AMOUNT];
+  if (maxItemAmount?.amount) {
+    items.forEach((item, itemIndex) => {
+      const amount = getItemAmountInCurrency(item, currency);
+      if (amount !== null && amount > maxItemAmount.amount) {
+        violations.push({
+          type: ExpensePolicyRuleType.MAX_ITEM_AMOUNT,
+          severity: maxItemAmount.severity,
+          field: 'amount',
+          itemIndex,
+          values: { amount: maxItemAmount.amount, currency },
+        });
+      }
+    });
+  }
+
+  const receiptRequired = rules[ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE];
+  if (receiptRequired && !expense.hasAttachedFiles) {
+    items.forEach((item, itemIndex) => {
+      const amount = getItemAmountInCurrency(item, currency);
+      if (!item.url && !item.kind && amount !== null && amount > (receiptRequired.amount || 0)) {
+        violations.push({
+          type: ExpensePolicyRuleType.RECEIPT_REQUIRED_ABOVE,
+          severity: receiptRequired.severity,
+          field: 'url',
+          itemIndex,
+          values: { amount: receiptRequired.amount || 0, currency },
+        });
+      }
+    });
+  }
+
+  const bannedKeywords = rules[ExpensePolicyRuleType.BANNED_KEYWORDS];
+  if (bannedKeywords?.keywords?.length) {
+    const check = (text: string, field: ExpensePolicyViolation['field'], itemIndex?: number) => {
+      const keyword = findKeyword(text, bannedKeywords.keywords);
+      if (keyword) {
+        const violation = { type: ExpensePolicyRuleType.BANNED_KEYWORDS, severity: bannedKeywords.severity };
+        violations.push({ ...violation, field, values: { keyword }, ...(!isNil(itemIndex) && { itemIndex }) });
+      }
+    };
+
+    check(expense.description, 'description');
+    check(expense.payeeName, 'payee');
+    items.forEach((item, itemIndex) => check(item.description, 'description', itemIndex));
+  }
+
+  const allowedCurrencies = rules[ExpensePolicyRuleType.ALLOWED_CURRENCIES];
+  if (allowedCurrencies?.currencies?.length) {
+    const values = { currencies: allowedCurrencies.currencies.join(', ') };
+    const violation = { type: ExpensePolicyRuleType.ALLOWED_CURRENCIES, severity: allowedCurrencies.severity, values };
+    if (expense.currency && !allowedCurrencies.currencies.includes(expense.currency)) {
+      violations.push({ ...violation, field: 'currency' });
+    }
+
+    items.forEach((item, itemIndex) => {
+      const itemCurrency = item.amount?.currency;
+      if (itemCurrency && itemCurrency !== expense.currency && !allowedCurrencies.currencies.includes(itemCurrency)) {
+        violations.push({ ...violation, field: 'currency', itemIndex });
+      }
+    });
+  }
+
+  const maxItemAge = rules[ExpensePolicyRuleType.MAX_ITEM_AGE];
+  if (maxItemAge?.days) {
+    const oldestAllowedDate = dayjs(now).subtract(maxItemAge.days, 'day').startOf('day');
+    items.forEach((item, itemIndex) => {
+      if (item.incurredAt && dayjs(item.incurredAt).isBefore(oldestAllowedDate)) {
+        violations.push({
+          type: ExpensePolicyRuleType.MAX_ITEM_AGE,
+          severity: maxItemAge.severity,
+          field: 'incurredAt',
+          itemIndex,
+          values: { days: maxItemAge.days },
+        });
+      }
+    });
+  }
+
+  return violations;
+};
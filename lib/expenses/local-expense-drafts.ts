@@ -0,0 +1,104 @@
+import { omit, omitBy, orderBy } from 'lodash';
+
+import type { ExpenseFormValues } from '../../components/submit-expense/useExpenseForm';
+
+import { getFromLocalStorageWithTTL, LOCAL_STORAGE_KEYS, setLocalStorageWithTTL } from '../local-storage';
+
+/**
+ * Drafts of the expense submission flow that are saved on this device, so that they survive a refresh or a network
+ * drop. There's one draft per submitter and collective.
+ */
+
+/** The payout, location and tax details of the payee are not saved on the device, they must be entered again */
+const LOCAL_EXPENSE_DRAFTS_OMITTED_FIELDS = ['invitePayee.payoutMethod', 'payeeLocation', 'tax.idNumber'];
+
+const LOCAL_EXPENSE_DRAFTS_TTL = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+export type LocalExpenseDraft = {
+  id: string;
+  /** The slug of the logged in account that submits the expense */
+  accountSlug: string;
+  collectiveSlug: string;
+  values: ExpenseFormValues;
+  updatedAt: string;
+  /** Set when the submission failed because the device was offline */
+  pendingSubmission?: boolean;
+};
+
+export const getLocalExpenseDraftId = (accountSlug: string, collectiveSlug: string): string =>
+  `${accountSlug}/${collectiveSlug}`;
+
+/**
+ * Restores the values that don't survive the JSON serialization, like the items dates.
+ */
+export const parseLocalExpenseDraftValues = (values: ExpenseFormValues): ExpenseFormValues => {
+  return {
+    ...values,
+    expenseItems: values.expenseItems?.map(item => ({
+      ...item,
+      incurredAt: item.incurredAt ? new Date(item.incurredAt) : item.incurredAt,
+    })),
+  };
+};
+
+const getAllLocalExpenseDrafts = (): Record<string, LocalExpenseDraft> => {
+  return getFromLocalStorageWithTTL(LOCAL_STORAGE_KEYS.EXPENSE_FORM_DRAFTS) || {};
+};
+
+const setAllLocalExpenseDrafts = (drafts: Record<string, LocalExpenseDraft>) => {
+  setLocalStorageWithTTL(
+    LOCAL_STORAGE_KEYS.EXPENSE_FORM_DRAFTS,
+    Object.keys(drafts).length ? drafts : null,
+    LOCAL_EXPENSE_DRAFTS_TTL,
+  );
+};
+
+/**
+ * Returns the drafts of `accountSlug`, most recent first.
+ */
+export const getLocalExpenseDrafts = (accountSlug: string): LocalExpenseDraft[] => {
+  if (!accountSlug) {
+    return [];
+  }
+
+  const drafts = Object.values(getAllLocalExpenseDrafts()).filter(draft => draft.accountSlug === accountSlug);
+  return orderBy(drafts, 'updatedAt', 'desc').map(draft => ({
+    ...draft,
+    values: parseLocalExpenseDraftValues(draft.values),
+  }));
+};
+
+export const getLocalExpenseDraft = (id: string): LocalExpenseDraft | null => {
+  const draft = getAllLocalExpenseDrafts()[id];
+  return draft ? { ...draft, values: parseLocalExpenseDraftValues(draft.values) } : null;
+};
+
+/**
+ * Saves the values of the form. Nothing is saved until a collective is picked.
+ */
+export const saveLocalExpenseDraft = (
+  accountSlug: string,
+  values: ExpenseFormValues,
+  { pendingSubmission = false } = {},
+): LocalExpenseDraft | null => {
+  if (!accountSlug || !values.collectiveSlug) {
+    return null;
+  }
+
+  const id = getLocalExpenseDraftId(accountSlug, values.collectiveSlug);
+  const draft = {
+    id,
+    accountSlug,
+    collectiveSlug: values.collectiveSlug,
+    values: omit(values, LOCAL_EXPENSE_DRAFTS_OMITTED_FIELDS) as ExpenseFormValues,
+    updatedAt: new Date().toISOString(),
+    pendingSubmission,
+  };
+
+  setAllLocalExpenseDrafts({ ...getAllLocalExpenseDrafts(), [id]: draft });
+  return draft;
+};
+
+export const removeLocalExpenseDraft = (id: string) => {
+  setAllLocalExpenseDrafts(omitBy(getAllLocalExpenseDrafts(), draft => draft.id === id));
+};
@@ -0,0 +1,81 @@
+import { maxBy, orderBy, uniqBy } from 'lodash';
+
+import dayjs from '../dayjs';
+
+/**
+ * Recurring expenses are not exposed as a collection by the API: each expense drafted from a schedule links to it
+ * through `recurringExpense`, so the schedules are found through these expenses.
+ */
+
+type RecurringExpenseInterval = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+type RecurringExpenseFields = {
+  id: string;
+  interval: RecurringExpenseInterval | `${RecurringExpenseInterval}`;
+  endsAt?: string;
+  /** When the last expense of the schedule was drafted */
+  lastDraftedAt?: string;
+};
+
+type ListedRecurringExpense<LastExpense> = RecurringExpenseFields & {
+  /** The most recent expense of the schedule, which the API copies for the next run */
+  lastExpenseCreated?: LastExpense | null;
+};
+
+export type RecurringExpenseSchedule<
+  RecurringExpense extends ListedRecurringExpense<LastExpense>,
+  LastExpense,
+> = RecurringExpense & {
+  /** The `lastExpenseCreated` of the schedule, or its most recent listed expense if the API doesn't return it */
+  lastExpense: LastExpense;
+};
+
+/**
+ * The longest interval between two expenses of a schedule. An active schedule always has an expense in this window.
+ */
+export const RECURRING_EXPENSE_MAX_INTERVAL_DAYS = 366;
+
+const INTERVAL_DURATIONS: Record<RecurringExpenseInterval, [number, dayjs.ManipulateType]> = {
+  day: [1, 'day'],
+  week: [1, 'week'],
+  month: [1, 'month'],
+  quarter: [3, 'month'],
+  year: [1, 'year'],
+};
+
+/**
+ * Returns the date of the next expense of the schedule, or null if the schedule has ended.
+ */
+export const getRecurringExpenseNextRunDate = (
+  schedule: Pick<RecurringExpenseFields, 'interval' | 'endsAt' | 'lastDraftedAt'>,
+): dayjs.Dayjs | null => {
+  const duration = INTERVAL_DURATIONS[schedule.interval];
+  if (!schedule.lastDraftedAt || !duration) {
+    return null;
+  }
+
+  const nextRun = dayjs.utc(schedule.lastDraftedAt).add(...duration);
+  return schedule.endsAt && nextRun.isAfter(dayjs.utc(schedule.endsAt)) ? null : nextRun;
+};
+
+/**
+ * Returns the schedules that generated the expenses, most recent first.
+ */
+export const getRecurringExpenseSchedules = <
+  RecurringExpense extends ListedRecurringExpense<LastExpense>,
+  LastExpense extends { createdAt: string },
+>(
+  expenses: Array<LastExpense & { recurringExpense?: RecurringExpense | null }>,
+): RecurringExpenseSchedule<RecurringExpense, LastExpense>[] => {
+  const expensesWithSchedule = expenses.filter(expense => expense.recurringExpense);
+  const schedules = uniqBy(expensesWithSchedule, expense => expense.recurringExpense.id).map(({ recurringExpense }) => {
+    const scheduleExpenses = expensesWithSchedule.filter(
+      expense => expense.recurringExpense.id === recurringExpense.id,
+    );
+    const lastExpense: LastExpense =
+      recurringExpense.lastExpenseCreated || maxBy(scheduleExpenses, expense => new Date(expense.createdAt).getTime());
+    return { ...recurringExpense, lastExpense };
+  });
+
+  return orderBy(schedules, schedule => schedule.lastDraftedAt || schedule.lastExpense.createdAt, 'desc');
+};
@@ -0,0 +1,166 @@
+import { get, intersection, isNil, max, round, uniq, uniqBy } from 'lodash';
+
+import dayjs from '../dayjs';
+
+/**
+ * Scores how likely two expenses are the same expense submitted twice, e.g. the same invoice submitted to different
+ * collectives or submitted again after being rejected. Hosts can block the submissions that score above a threshold,
+ * submitters are then asked to contact the host.
+ */
+
+export const DUPLICATE_EXPENSES_SETTINGS_KEY = 'expenseDuplicateDetection';
+
+/** Expenses that score below this are not considered related */
+export const RELATED_EXPENSE_MIN_SCORE = 50;
+
+export type DuplicateExpensesSettings = {
+  /** Submissions of expenses that score at or above this threshold with another expense are blocked */
+  blockThreshold?: number | null;
+};
+
+export type ComparableExpense = {
+  description?: string;
+  currency?: string;
+  amount?: number;
+  payee?: { slug?: string } | null;
+  items?: {
+    description?: string;
+    incurredAt?: string | Date;
+    url?: string;
+    file?: { name?: string; size?: number } | null;
+  }[];
+  attachedFiles?: { url?: string; name?: string; info?: { name?: string; size?: number } | null }[];
+};
+
+export type ExpenseSimilarityCriterion = 'payee' | 'amount' | 'dates' | 'attachments' | 'description';
+
+export type ExpenseSimilarity = {
+  /** From 0 to 100 */
+  score: number;
+  /** How much each criterion matches, from 0 to 1 */
+  criteria: Record<ExpenseSimilarityCriterion, number>;
+};
+
+const CRITERIA_WEIGHTS: Record<ExpenseSimilarityCriterion, number> = {
+  payee: 20,
+  amount: 25,
+  dates: 15,
+  attachments: 25,
+  description: 15,
+};
+
+/** Amounts that differ by more than this ratio don't match at all */
+const AMOUNT_TOLERANCE = 0.05;
+
+/** Dates that are more than this number of days apart don't match at all */
+const DATES_TOLERANCE_DAYS = 7;
+
+export const getDuplicateExpensesSettings = (
+  host: { settings?: Record<string, unknown> } | null | undefined,
+): DuplicateExpensesSettings => {
+  return get(host, ['settings', DUPLICATE_EXPENSES_SETTINGS_KEY]) || {};
+};
+
+const tokenize = (text: string): string[] =>
+  uniq(
+    (text || '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1),
+  );
+
+/**
+ * The Sørensen–Dice coefficient of the words of both texts.
+ */
+export const getTextSimilarity = (a: string, b: string): number => {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (!wordsA.length || !wordsB.length) {
+    return 0;
+  }
+
+  return (2 * intersection(wordsA, wordsB).length) / (wordsA.length + wordsB.length);
+};
+
+/**
+ * The API doesn't expose the hash of the files: they're identified by their URL, or by their name and size.
+ */
+const getFileFingerprints = (expense: ComparableExpense): string[] => {
+  const fingerprints = [];
+  const addFile = (url: string, name: string, size: number) => {
+    if (url) {
+      fingerprints.push(url);
+    }
+    if (name && !isNil(size)) {
+      fingerprints.push(`${name}:${size}`);
+    }
+  };
+
+  expense.items?.forEach(item => addFile(item.url, item.file?.name, item.file?.size));
+  expense.attachedFiles?.forEach(file => addFile(file.url, file.info?.name || file.name, file.info?.size));
+  return uniq(fingerprints);
+};
+
+const getAmountSimilarity = (a: ComparableExpense, b: ComparableExpense): number => {
+  if (!a.amount || !b.amount || a.currency !== b.currency) {
+    return 0;
+  }
+
+  const difference = Math.abs(a.amount - b.amount) / Math.max(a.amount, b.amount);
+  return difference > AMOUNT_TOLERANCE ? 0 : 1 - difference / AMOUNT_TOLERANCE;
+};
+
+const getDatesSimilarity = (a: ComparableExpense, b: ComparableExpense): number => {
+  const datesA = (a.items || []).filter(item => item.incurredAt).map(item => dayjs.utc(item.incurredAt));
+  const datesB = (b.items || []).filter(item => item.incurredAt).map(item => dayjs.utc(item.incurredAt));
+  const similarities = datesA.flatMap(dateA =>
+    datesB.map(dateB => {
+      const days = Math.abs(dateA.startOf('day').diff(dateB.startOf('day'), 'day'));
+      return days > DATES_TOLERANCE_DAYS ? 0 : 1 - days / (DATES_TOLERANCE_DAYS + 1);
+    }),
+  );
+
+  return max(similarities) || 0;
+};
+
+const getDescriptionSimilarity = (a: ComparableExpense, b: ComparableExpense): number => {
+  const getText = (expense: ComparableExpense) =>
+    [expense.description, ...(expense.items || []).map(item => item.description)].filter(Boolean).join(' ');
+  return getTextSimilarity(getText(a), getText(b));
+};
+
+/**
+ * Scores the similarity of two expenses, from 0 (unrelated) to 100 (identical).
+ */
+export const getExpenseSimilarity = (a: ComparableExpense, b: ComparableExpense): ExpenseSimilarity => {
+  const fingerprintsA = getFileFingerprints(a);
+  const criteria: ExpenseSimilarity['criteria'] = {
+    payee: a.payee?.slug && a.payee.slug === b.payee?.slug ? 1 : 0,
+    amount: getAmountSimilarity(a, b),
+    dates: getDatesSimilarity(a, b),
+    attachments: fingerprintsA.length && intersection(fingerprintsA, getFileFingerprints(b)).length ? 1 : 0,
+    description: getDescriptionSimilarity(a, b),
+  };
+
+  const score = Object.entries(criteria).reduce(
+    (total, [criterion, value]) => total + CRITERIA_WEIGHTS[criterion] * value,
+    0,
+  );
+
+  return { score: round(score), criteria };
+};
+
+/**
+ * Returns the expenses that are related to `expense`, most similar first.
+ */
+export const findRelatedExpenses = <Expense extends ComparableExpense & { id: string }>(
+  expense: ComparableExpense & { id?: string },
+  candidates: Expense[],
+  minScore = RELATED_EXPENSE_MIN_SCORE,
+): { expense: Expense; similarity: ExpenseSimilarity }[] => {
+  return uniqBy(candidates, 'id')
+    .filter(candidate => candidate.id !== expense.id)
+    .map(candidate => ({ expense: candidate, similarity: getExpenseSimilarity(expense, candidate) }))
+    .filter(({ similarity }) => similarity.score >= minScore)
+    .sort((a, b) => b.similarity.score - a.similarity.score);
+};
@@ -0,0 +1,122 @@
+import { useQuery } from '@apollo/client';
+import { uniqBy } from 'lodash';
+
+import { expenseApprovalWorkflowFieldsFragment } from '../../components/expenses/graphql/fragments';
+
+import { API_V2_CONTEXT, gql } from '../graphql/helpers';
+import type { ExpenseApprovalWorkflowFieldsFragment } from '../graphql/types/v2/graphql';
+import { ExpenseStatus } from '../graphql/types/v2/graphql';
+import type LoggedInUser from '../LoggedInUser';
+
+import type { ApprovalWorkflowRule } from './approval-workflows';
+import { ApprovalWorkflowRole, getApplicableApprovalRule, getApprovalWorkflow } from './approval-workflows';
+
+const approvalWorkflowAdminsFragment = gql`
+  fragment ApprovalWorkflowAdmins on Account {
+    id
+    admins: members(role: ADMIN) {
+      nodes {
+        id
+        account {
+          id
+          slug
+          name
+          imageUrl
+        }
+      }
+    }
+  }
+`;
+
+const expenseApprovalWorkflowQuery = gql`
+  query ExpenseApprovalWorkflow($legacyId: Int!) {
+    expense(expense: { legacyId: $legacyId }) {
+      id
+      ...ExpenseApprovalWorkflowFields
+      account {
+        id
+        ...ApprovalWorkflowAdmins
+      }
+      host {
+        id
+        ...ApprovalWorkflowAdmins
+      }
+    }
+  }
+  ${expenseApprovalWorkflowFieldsFragment}
+  ${approvalWorkflowAdminsFragment}
+`;
+
+/**
+ * Returns the roles of the logged in user in the approval workflows of an expense loaded with
+ * `ExpenseApprovalWorkflowFields`.
+ */
+export const getApprovalWorkflowRoles = (
+  expense: Pick<ExpenseApprovalWorkflowFieldsFragment, 'account' | 'host'>,
+  LoggedInUser: LoggedInUser | null,
+): ApprovalWorkflowRole[] => {
+  const roles = [];
+  if (LoggedInUser?.isAdminOfCollective(expense.account)) {
+    roles.push(ApprovalWorkflowRole.COLLECTIVE_ADMIN);
+  }
+  if (expense.host && LoggedInUser?.isAdminOfCollective(expense.host)) {
+    roles.push(ApprovalWorkflowRole.HOST_ADMIN);
+  }
+
+  return roles;
+};
+
+type ApprovalWorkflowAdmin = { id: string; slug: string; name?: string; imageUrl?: string };
+
+export type ExpenseApprovalWorkflowState = {
+  /** Whether an approval workflow applies to this expense */
+  isEnabled: boolean;
+  loading: boolean;
+  rule: ApprovalWorkflowRule | null;
+  /** For each step of the rule, the admins expected to review the expense */
+  approvers: ApprovalWorkflowAdmin[][];
+};
+
+/**
+ * Loads the approval workflow that applies to a pending expense, with the admins expected to review it. The
+ * workflow is only loaded when the host has one that may apply to the expense, based on the fields already
+ * available in `expense`.
+ */
+export default function useExpenseApprovalWorkflow({
+  expense,
+  host,
+  skip = false,
+}: {
+  expense: Parameters<typeof getApplicableApprovalRule>[1] & { legacyId?: number; status?: string };
+  host: Parameters<typeof getApprovalWorkflow>[0] & { currency?: string };
+  skip?: boolean;
+}): ExpenseApprovalWorkflowState {
+  const mayApply = Boolean(
+    !skip &&
+      expense?.legacyId &&
+      expense.status === ExpenseStatus.PENDING &&
+      getApplicableApprovalRule(getApprovalWorkflow(host), expense, host?.currency),
+  );
+  const { data, loading } = useQuery(expenseApprovalWorkflowQuery, {
+    variables: { legacyId: expense?.legacyId },
+    context: API_V2_CONTEXT,
+    skip: !mayApply,
+  });
+
+  const fullExpense = data?.expense;
+  const rule =
+    mayApply && fullExpense?.host
+      ? getApplicableApprovalRule(getApprovalWorkflow(fullExpense.host), fullExpense, fullExpense.host.currency)
+      : null;
+
+  if (!rule || fullExpense.status !== ExpenseStatus.PENDING) {
+    return { isEnabled: mayApply && loading, loading, rule: null, approvers: [] };
+  }
+
+  const getAdmins = (role: ApprovalWorkflowRole): ApprovalWorkflowAdmin[] => {
+    const account = role === ApprovalWorkflowRole.HOST_ADMIN ? fullExpense.host : fullExpense.account;
+    return uniqBy(account.admins.nodes.map(member => member.account).filter(Boolean), admin => admin.id);
+  };
+
+  return { isEnabled: true, loading, rule, approvers: rule.steps.map(step => getAdmins(step.role)) };
+}
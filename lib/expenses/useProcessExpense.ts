@@ -43,7 +43,7 @@ type UseProcessExpenseOptions = {
   expense: Pick<Expense, 'id' | 'legacyId' | 'permissions'>;
 };
 
-const processExpenseMutation = gql`
+export const processExpenseMutation = gql`
   mutation ProcessExpense(
     $id: String
     $legacyId: Int
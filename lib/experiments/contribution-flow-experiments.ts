@@ -0,0 +1,106 @@
+import { get, uniq } from 'lodash';
+
+import type LoggedInUser from '../LoggedInUser';
+
+import type { ExperimentConfig } from './experiments';
+import { getExperimentVariant } from './experiments';
+
+/**
+ * Experiments defined by collectives in their settings, to compare variants of their contribution flow.
+ */
+
+export const CONTRIBUTION_FLOW_EXPERIMENTS_SETTINGS_KEY = 'contributionFlowExperiments';
+
+export enum ContributionFlowExperimentType {
+  /** Changes the amounts suggested in the contribution flow */
+  AMOUNT_PRESETS = 'AMOUNT_PRESETS',
+  /** Changes which tiers are displayed first on the collective page */
+  TIERS_ORDER = 'TIERS_ORDER',
+}
+
+export type ContributionFlowExperimentVariant = {
+  name: string;
+  weight: number;
+  /** For AMOUNT_PRESETS experiments, in cents. The default presets are used if not set */
+  presets?: number[];
+  /** For TIERS_ORDER experiments, the legacy IDs of the tiers to display first (`custom` for the default tier) */
+  tiersOrder?: Array<number | 'custom'>;
+};
+
+export type ContributionFlowExperiment = {
+  id: string;
+  type: ContributionFlowExperimentType | `${ContributionFlowExperimentType}`;
+  isActive: boolean;
+  /** For AMOUNT_PRESETS experiments, the legacy ID of the tier. Applies to the default tier if not set */
+  tierId?: number | null;
+  variants: ContributionFlowExperimentVariant[];
+};
+
+type ExperimentAccount = { slug: string; settings?: Record<string, unknown> };
+
+export const getContributionFlowExperiments = (account: ExperimentAccount): ContributionFlowExperiment[] => {
+  return (get(account, ['settings', CONTRIBUTION_FLOW_EXPERIMENTS_SETTINGS_KEY]) as ContributionFlowExperiment[]) || [];
+};
+
+const getExperimentConfig = (account: ExperimentAccount, experiment: ContributionFlowExperiment): ExperimentConfig => ({
+  key: `${account.slug}/${experiment.id}`,
+  variants: experiment.variants,
+});
+
+/**
+ * Returns the variant of the first active experiment of the given type for the visitor, or null if there's none.
+ */
+const getActiveExperimentVariant = (
+  account: ExperimentAccount,
+  loggedInUser: LoggedInUser | undefined,
+  isMatching: (experiment: ContributionFlowExperiment) => boolean,
+): ContributionFlowExperimentVariant | null => {
+  const experiment = getContributionFlowExperiments(account).find(
+    experiment => experiment.isActive && experiment.variants?.length && isMatching(experiment),
+  );
+  if (!experiment) {
+    return null;
+  }
+
+  const variantName = getExperimentVariant(getExperimentConfig(account, experiment), loggedInUser);
+  return experiment.variants.find(variant => variant.name === variantName) || null;
+};
+
+/**
+ * Returns the amount presets to suggest for the tier (or the default tier if null), from the variant of the
+ * visitor if the collective runs an experiment on it.
+ */
+export const getAmountPresetsWithExperiments = (
+  account: ExperimentAccount,
+  tier: { legacyId: number } | null,
+  defaultPresets: number[],
+  loggedInUser?: LoggedInUser,
+): number[] => {
+  const variant = getActiveExperimentVariant(
+    account,
+    loggedInUser,
+    experiment =>
+      experiment.type === ContributionFlowExperimentType.AMOUNT_PRESETS &&
+      (experiment.tierId ?? null) === (tier?.legacyId ?? null),
+  );
+
+  return variant?.presets?.length ? variant.presets : defaultPresets;
+};
+
+/**
+ * Returns the order of the contribute cards (see `getCollectiveContributionCardsOrder`), with the tiers of the
+ * variant of the visitor first if the collective runs an experiment on it.
+ */
+export const getContributionCardsOrderWithExperiments = (
+  account: ExperimentAccount,
+  defaultOrder: Array<number | string>,
+  loggedInUser?: LoggedInUser,
+): Array<number | string> => {
+  const variant = getActiveExperimentVariant(
+    account,
+    loggedInUser,
+    experiment => experiment.type === ContributionFlowExperimentType.TIERS_ORDER,
+  );
+
+  return variant?.tiersOrder?.length ? uniq([...variant.tiersOrder, ...defaultOrder]) : defaultOrder;
+};
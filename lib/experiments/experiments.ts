@@ -1,21 +1,148 @@
+import { v4 as uuid } from 'uuid';
+
+import { AnalyticsEvent } from '../analytics/events';
+import { setExperimentVariantProperty, track } from '../analytics/plausible';
+import { AnalyticsProperty } from '../analytics/properties';
+import { getFromLocalStorage, LOCAL_STORAGE_KEYS, setLocalStorage } from '../local-storage';
 import type LoggedInUser from '../LoggedInUser';
 
 export const enum Experiment {
   NEW_PLATFORM_TIP_FLOW = 'newPlatformTipFlow',
 }
 
-type ExperimentConfig = {
-  enabled: (user?: LoggedInUser) => boolean;
+/** The variant of visitors that are not part of an experiment */
+export const CONTROL_VARIANT = 'control';
+
+export type ExperimentVariant = {
+  name: string;
+  /** Relative to the other variants, e.g. two variants with a weight of 1 get 50% of the visitors each */
+  weight: number;
+};
+
+export type ExperimentConfig = {
+  /** A stable key, used to bucket visitors and to report exposures */
+  key: string;
+  variants: ExperimentVariant[];
+  /** Visitors that are not eligible always get the control variant, and are not reported */
+  isEligible?: (user?: LoggedInUser) => boolean;
 };
 
 const experiments: Record<Experiment, ExperimentConfig> = {
   [Experiment.NEW_PLATFORM_TIP_FLOW]: {
-    enabled(): boolean {
-      return true;
-    },
+    key: Experiment.NEW_PLATFORM_TIP_FLOW,
+    variants: [{ name: 'enabled', weight: 1 }],
   },
 };
 
+let sessionAnonymousId: string;
+
+/**
+ * Returns a random ID for visitors that are not logged in, kept in the local storage (or for the session if the
+ * storage is not available).
+ */
+const getAnonymousId = (): string => {
+  const storedId = getFromLocalStorage(LOCAL_STORAGE_KEYS.EXPERIMENTS_ANONYMOUS_ID);
+  if (storedId) {
+    return storedId;
+  } else if (!sessionAnonymousId) {
+    sessionAnonymousId = uuid();
+    setLocalStorage(LOCAL_STORAGE_KEYS.EXPERIMENTS_ANONYMOUS_ID, sessionAnonymousId);
+  }
+
+  return sessionAnonymousId;
+};
+
+/**
+ * Visitors are bucketed by user when logged in, by anonymous ID otherwise. Returns null during server-side
+ * rendering for anonymous visitors.
+ */
+export const getExperimentUnitId = (loggedInUser?: LoggedInUser): string | null => {
+  if (loggedInUser?.CollectiveId) {
+    return `user-${loggedInUser.CollectiveId}`;
+  } else if (typeof window === 'undefined') {
+    return null;
+  } else {
+    return `anonymous-${getAnonymousId()}`;
+  }
+};
+
+/**
+ * Deterministically maps a unit to a number in [0, 1), using the 32-bit FNV-1a hash.
+ */
+export const getExperimentBucket = (experimentKey: string, unitId: string): number => {
+  const value = `${experimentKey}:${unitId}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * Picks a variant according to the weights. Without unit ID, only an experiment rolled out to all visitors (a single
+ * variant) can be picked.
+ */
+export const pickExperimentVariant = (config: ExperimentConfig, unitId: string | null): string => {
+  const variants = config.variants.filter(variant => variant.weight > 0);
+  const totalWeight = variants.reduce((total, variant) => total + variant.weight, 0);
+  if (variants.length === 1) {
+    return variants[0].name;
+  } else if (!totalWeight || !unitId) {
+    return CONTROL_VARIANT;
+  }
+
+  const target = getExperimentBucket(config.key, unitId) * totalWeight;
+  let cumulatedWeight = 0;
+  for (const variant of variants) {
+    cumulatedWeight += variant.weight;
+    if (target < cumulatedWeight) {
+      return variant.name;
+    }
+  }
+
+  return variants[variants.length - 1].name;
+};
+
+const reportedExposures = new Set<string>();
+
+/**
+ * Reports the exposure of the visitor to a variant, once per page load.
+ */
+const trackExperimentExposure = (experimentKey: string, variant: string) => {
+  setExperimentVariantProperty(experimentKey, variant);
+  if (!reportedExposures.has(experimentKey)) {
+    reportedExposures.add(experimentKey);
+    track(AnalyticsEvent.EXPERIMENT_EXPOSURE, {
+      props: { [AnalyticsProperty.EXPERIMENT]: experimentKey, [AnalyticsProperty.EXPERIMENT_VARIANT]: variant },
+    });
+  }
+};
+
+/**
+ * Returns the variant of the experiment for the visitor, and reports the exposure (unless `trackExposure` is false).
+ * Accepts the ad-hoc experiments defined by collectives, see `contribution-flow-experiments`.
+ */
+export function getExperimentVariant(
+  experiment: Experiment | ExperimentConfig,
+  loggedInUser?: LoggedInUser,
+  { trackExposure = true } = {},
+): string {
+  const config = typeof experiment === 'string' ? experiments[experiment] : experiment;
+  if (!config || (config.isEligible && !config.isEligible(loggedInUser))) {
+    return CONTROL_VARIANT;
+  }
+
+  const variant = pickExperimentVariant(config, getExperimentUnitId(loggedInUser));
+  const isRolledOut = config.variants.filter(v => v.weight > 0).length === 1;
+  if (trackExposure && !isRolledOut && typeof window !== 'undefined') {
+    trackExperimentExposure(config.key, variant);
+  }
+
+  return variant;
+}
+
 export function isExperimentEnabled(experiment: Experiment, loggedInUser?: LoggedInUser): boolean {
-  return experiments[experiment]?.enabled(loggedInUser);
+  return getExperimentVariant(experiment, loggedInUser) !== CONTROL_VARIANT;
 }
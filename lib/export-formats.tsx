@@ -0,0 +1,429 @@
+import React from 'react';
+import { parse as parseCSV } from 'csv-parse/sync';
+import { isPlainObject, pickBy, sortBy, sumBy, uniq } from 'lodash';
+import { FormattedMessage } from 'react-intl';
+
+import type { CSVField } from './csv';
+import dayjs from './dayjs';
+import { createError, ERROR } from './errors';
+import type { XLSXCell } from './xlsx';
+import { generateXLSX } from './xlsx';
+
+export enum ExportFormat {
+  CSV = 'CSV',
+  XLSX = 'XLSX',
+  JOURNAL = 'JOURNAL',
+  XERO = 'XERO',
+  QUICKBOOKS_IIF = 'QUICKBOOKS_IIF',
+  QUICKBOOKS_QBO = 'QUICKBOOKS_QBO',
+}
+
+export const ExportFormatLabels: Record<ExportFormat, React.ReactNode> = {
+  [ExportFormat.CSV]: 'CSV',
+  [ExportFormat.XLSX]: 'Excel (XLSX)',
+  [ExportFormat.JOURNAL]: <FormattedMessage defaultMessage="Double-entry journal (CSV)" id="WBS76w" />,
+  [ExportFormat.XERO]: <FormattedMessage defaultMessage="Xero manual journal (CSV)" id="L0Yt6y" />,
+  [ExportFormat.QUICKBOOKS_IIF]: 'QuickBooks Desktop (IIF)',
+  [ExportFormat.QUICKBOOKS_QBO]: 'QuickBooks Online (QBO)',
+};
+
+export const ExportFormatFileTypes: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'CSV',
+  [ExportFormat.XLSX]: 'XLSX',
+  [ExportFormat.JOURNAL]: 'CSV',
+  [ExportFormat.XERO]: 'CSV',
+  [ExportFormat.QUICKBOOKS_IIF]: 'IIF',
+  [ExportFormat.QUICKBOOKS_QBO]: 'QBO',
+};
+
+/** Formats that turn each transaction into a journal entry, rather than exporting the selected fields */
+export const ACCOUNTING_EXPORT_FORMATS = [
+  ExportFormat.JOURNAL,
+  ExportFormat.XERO,
+  ExportFormat.QUICKBOOKS_IIF,
+  ExportFormat.QUICKBOOKS_QBO,
+] as const;
+
+export const isAccountingExportFormat = (format: ExportFormat): boolean =>
+  (ACCOUNTING_EXPORT_FORMATS as readonly ExportFormat[]).includes(format);
+
+/** The fields requested from the API to generate the accounting formats */
+export const JOURNAL_FIELDS: CSVField[] = [
+  'date',
+  'shortId',
+  'description',
+  'amount',
+  'paymentProcessorFee',
+  'platformFee',
+  'hostFee',
+  'taxAmount',
+  'currency',
+  'accountingCategoryCode',
+  'oppositeAccountName',
+];
+
+/**
+ * Fees and taxes stored as columns of the transactions (see the legacy fields in `lib/csv`), booked on their own
+ * accounts. More recent fees are separate transactions, exported as their own entries.
+ */
+const FEE_COLUMNS = ['paymentProcessorFee', 'platformFee', 'hostFee', 'taxAmount'] as const;
+
+/**
+ * The accounts the entries are booked on, besides the accounting categories. Some packages (e.g. Xero) match the
+ * accounts by code, so users can replace these names with the codes of their chart of accounts.
+ */
+export type JournalAccounts = Record<'balancing' | 'uncategorized' | (typeof FEE_COLUMNS)[number], string>;
+
+export const DEFAULT_JOURNAL_ACCOUNTS: JournalAccounts = {
+  balancing: 'Bank',
+  uncategorized: 'Uncategorized',
+  paymentProcessorFee: 'Payment processor fees',
+  platformFee: 'Platform fees',
+  hostFee: 'Host fees',
+  taxAmount: 'Taxes',
+};
+
+// Columns of the CSV returned by the API, which are the field ids (with `debitAndCreditAmounts` split in two)
+const NUMBER_COLUMNS = new Set([
+  'amount',
+  'paymentProcessorFee',
+  'platformFee',
+  'hostFee',
+  'netAmount',
+  'balance',
+  'taxAmount',
+  'taxRate',
+  'debitAmount',
+  'creditAmount',
+]);
+
+const DATE_COLUMNS = new Set(['date', 'datetime', 'effectiveDate', 'orderProcessedDate']);
+
+type ExportFile = { content: BlobPart; mimeType: string; extension: string };
+
+type JournalEntry = {
+  id: string;
+  date: dayjs.Dayjs;
+  description: string;
+  currency: string;
+  counterparty: string;
+  /** The accounting category code */
+  account: string;
+  /** The movement of the balancing account, net of fees and taxes. Positive when money comes in */
+  amount: number;
+  /** Positive amounts are debits, negative ones are credits */
+  lines: Array<{ account: string; amount: number }>;
+};
+
+const toCell = (column: string, value: string): XLSXCell => {
+  if (!value) {
+    return null;
+  } else if (NUMBER_COLUMNS.has(column) && !isNaN(Number(value))) {
+    return Number(value);
+  } else if (DATE_COLUMNS.has(column) && dayjs.utc(value).isValid()) {
+    return { type: /^\d{4}-\d{2}-\d{2}$/.test(value) ? 'date' : 'datetime', value: dayjs.utc(value).toDate() };
+  } else {
+    return value;
+  }
+};
+
+const formatAmount = (amount: number): string => amount.toFixed(2);
+
+const toCSV = (rows: Array<Array<string | number>>): string =>
+  rows
+    .map(row =>
+      row
+        .map(value => {
+          const str = String(value ?? '');
+          return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+        })
+        .join(','),
+    )
+    .join('\n');
+
+/** Removes the characters that would break the line-based formats (IIF, OFX) */
+const toSingleLine = (value: string): string => (value || '').replace(/[\t\r\n]+/g, ' ').trim();
+
+const escapeSGML = (value: string): string =>
+  toSingleLine(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Fills the accounts left empty by the user with their default name */
+const getJournalAccounts = (accounts: Partial<JournalAccounts>): JournalAccounts => ({
+  ...DEFAULT_JOURNAL_ACCOUNTS,
+  ...pickBy(accounts, account => account?.trim()),
+});
+
+const toCents = (value: string): number => Math.round(Number(value || 0) * 100) || 0;
+
+/**
+ * Turns each transaction into a balanced journal entry: money coming in is debited to the balancing account and
+ * credited to the accounting category, money going out is debited to the accounting category. Fees and taxes
+ * (negative amounts) are debited to their own accounts, so that the balancing account moves by the net amount.
+ */
+export const getJournalEntries = (
+  csv: string,
+  { accounts: customAccounts = {} }: { accounts?: Partial<JournalAccounts> } = {},
+): JournalEntry[] => {
+  const accounts = getJournalAccounts(customAccounts);
+  const records: Array<Record<string, string>> = parseCSV(csv, { columns: true, skip_empty_lines: true, bom: true });
+  const entries: JournalEntry[] = [];
+  for (const record of records) {
+    const grossAmount = toCents(record.amount);
+    const fees = FEE_COLUMNS.map(column => ({ account: accounts[column], amount: toCents(record[column]) })).filter(
+      fee => fee.amount,
+    );
+    if (!grossAmount && !fees.length) {
+      continue;
+    }
+
+    const netAmount = grossAmount + sumBy(fees, 'amount');
+    const account = record.accountingCategoryCode || accounts.uncategorized;
+    const lines = [
+      { account: accounts.balancing, amount: netAmount },
+      { account, amount: -grossAmount },
+      ...fees.map(fee => ({ account: fee.account, amount: -fee.amount })),
+    ];
+
+    entries.push({
+      id: record.shortId || record.id,
+      date: dayjs.utc(record.date),
+      description: record.description || '',
+      currency: record.currency,
+      counterparty: record.oppositeAccountName || '',
+      account,
+      amount: netAmount / 100,
+      // Debits first, as most accounting packages expect
+      lines: sortBy(
+        lines.filter(line => line.amount),
+        line => (line.amount > 0 ? 0 : 1),
+      ).map(line => ({ account: line.account, amount: line.amount / 100 })),
+    });
+  }
+
+  return entries;
+};
+
+const parseOrderCustomData = (value: string): Record<string, unknown> => {
+  try {
+    const data = value ? JSON.parse(value) : {};
+    return isPlainObject(data) ? data : {};
+  } catch {
+    return {};
+  }
+};
+
+const formatOrderCustomDataValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.map(formatOrderCustomDataValue).join(', ');
+  } else if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  } else {
+    return String(value ?? '');
+  }
+};
+
+/**
+ * Replaces the `orderCustomData` column, that holds the answers to the custom fields of the contributions as JSON,
+ * with one `orderCustomData.<name>` column per field.
+ */
+export const splitOrderCustomDataColumn = (csv: string): string => {
+  const [header = [], ...rows]: string[][] = parseCSV(csv, { skip_empty_lines: true, bom: true });
+  const columnIdx = header.indexOf('orderCustomData');
+  if (columnIdx === -1) {
+    return csv;
+  }
+
+  const customData = rows.map(row => parseOrderCustomData(row[columnIdx]));
+  const names = uniq(customData.flatMap(data => Object.keys(data)));
+  const replaceColumn = (row: string[], values: string[]) => [
+    ...row.slice(0, columnIdx),
+    ...values,
+    ...row.slice(columnIdx + 1),
+  ];
+
+  return toCSV([
+    replaceColumn(
+      header,
+      names.map(name => `orderCustomData.${name}`),
+    ),
+    ...rows.map((row, idx) =>
+      replaceColumn(
+        row,
+        names.map(name => formatOrderCustomDataValue(customData[idx][name])),
+      ),
+    ),
+  ]);
+};
+
+const generateXLSXFile = async (csv: string, sheetName: string): Promise<ExportFile> => {
+  const [header = [], ...rows]: string[][] = parseCSV(csv, { skip_empty_lines: true, bom: true });
+  const cells = rows.map(row => row.map((value, idx) => toCell(header[idx], value)));
+  return {
+    content: await generateXLSX([header, ...cells], { sheetName }),
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  };
+};
+
+const generateJournalFile = (entries: JournalEntry[]): ExportFile => {
+  const rows = entries.flatMap(entry =>
+    entry.lines.map(line => [
+      entry.date.format('YYYY-MM-DD'),
+      entry.id,
+      line.account,
+      entry.description,
+      line.amount > 0 ? formatAmount(line.amount) : '',
+      line.amount < 0 ? formatAmount(-line.amount) : '',
+      entry.currency,
+    ]),
+  );
+
+  return {
+    content: toCSV([['Date', 'Entry', 'Account', 'Description', 'Debit', 'Credit', 'Currency'], ...rows]),
+    mimeType: 'text/csv',
+    extension: 'csv',
+  };
+};
+
+/** See https://central.xero.com/s/article/Import-a-manual-journal */
+const generateXeroFile = (entries: JournalEntry[]): ExportFile => {
+  const rows = entries.flatMap(entry =>
+    entry.lines.map(line => [
+      `${entry.description} (${entry.id})`,
+      entry.date.format('YYYY-MM-DD'),
+      entry.counterparty,
+      line.account,
+      'Tax Exempt',
+      formatAmount(line.amount),
+    ]),
+  );
+
+  return {
+    content: toCSV([['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount'], ...rows]),
+    mimeType: 'text/csv',
+    extension: 'csv',
+  };
+};
+
+/** Intuit Interchange Format, used to import general journal entries in QuickBooks Desktop */
+const generateIIFFile = (entries: JournalEntry[]): ExportFile => {
+  const lines = [
+    '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tMEMO',
+    '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tMEMO',
+    '!ENDTRNS',
+  ];
+
+  for (const entry of entries) {
+    entry.lines.forEach((line, idx) => {
+      lines.push(
+        [
+          idx === 0 ? 'TRNS' : 'SPL',
+          '',
+          'GENERAL JOURNAL',
+          entry.date.format('MM/DD/YYYY'),
+          toSingleLine(line.account),
+          toSingleLine(entry.counterparty),
+          formatAmount(line.amount),
+          toSingleLine(`${entry.description} (${entry.id})`),
+        ].join('\t'),
+      );
+    });
+    lines.push('ENDTRNS');
+  }
+
+  return { content: lines.join('\r\n'), mimeType: 'application/x-iif', extension: 'iif' };
+};
+
+/**
+ * QuickBooks Web Connect file (OFX), listing the movements of the balancing account. QuickBooks Online imports it
+ * as a bank statement, the accounting category code is kept in the memo to help categorizing.
+ */
+const generateQBOFile = (entries: JournalEntry[], balancingAccount: string): ExportFile => {
+  const currencies = uniq(entries.map(entry => entry.currency));
+  if (currencies.length > 1) {
+    throw createError(ERROR.EXPORT_MULTIPLE_CURRENCIES, {
+      message: `QBO files only support a single currency, but this export contains ${currencies.join(', ')}`,
+      payload: { currencies: currencies.join(', ') },
+    });
+  }
+
+  const formatDate = (date: dayjs.Dayjs) => date.format('YYYYMMDDHHmmss');
+  const sortedDates = entries.map(entry => entry.date).sort((a, b) => a.valueOf() - b.valueOf());
+  const now = dayjs.utc();
+  const startDate = sortedDates[0] || now;
+  const endDate = sortedDates[sortedDates.length - 1] || now;
+  const transactions = entries.map(entry =>
+    [
+      '<STMTTRN>',
+      `<TRNTYPE>${entry.amount > 0 ? 'CREDIT' : 'DEBIT'}`,
+      `<DTPOSTED>${formatDate(entry.date)}`,
+      `<TRNAMT>${formatAmount(entry.amount)}`,
+      `<FITID>${escapeSGML(entry.id)}`,
+      `<NAME>${escapeSGML(entry.counterparty || entry.description).slice(0, 32)}`,
+      `<MEMO>${escapeSGML(`${entry.description} [${entry.account}]`)}`,
+      '</STMTTRN>',
+    ].join('\n'),
+  );
+
+  const balance = entries.reduce((total, entry) => total + entry.amount, 0);
+  const content = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${formatDate(now)}`,
+    '<LANGUAGE>ENG',
+    '<INTU.BID>3000',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${currencies[0] || 'USD'}`,
+    `<BANKACCTFROM><BANKID>000000000<ACCTID>${escapeSGML(balancingAccount)}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+    `<BANKTRANLIST><DTSTART>${formatDate(startDate)}<DTEND>${formatDate(endDate)}`,
+    ...transactions,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${formatAmount(balance)}<DTASOF>${formatDate(endDate)}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+  ];
+
+  return { content: content.join('\n'), mimeType: 'application/vnd.intu.qbo', extension: 'qbo' };
+};
+
+/**
+ * Converts a transactions CSV returned by the API to another format. Accounting formats expect the CSV to
+ * contain the `JOURNAL_FIELDS`. The custom data of the contributions is split in one column per field.
+ */
+export const convertTransactionsCSV = async (
+  csv: string,
+  format: ExportFormat,
+  { accounts = {}, sheetName = 'Transactions' }: { accounts?: Partial<JournalAccounts>; sheetName?: string } = {},
+): Promise<ExportFile> => {
+  const transactionsCSV = splitOrderCustomDataColumn(csv);
+  switch (format) {
+    case ExportFormat.XLSX:
+      return generateXLSXFile(transactionsCSV, sheetName);
+    case ExportFormat.JOURNAL:
+      return generateJournalFile(getJournalEntries(transactionsCSV, { accounts }));
+    case ExportFormat.XERO:
+      return generateXeroFile(getJournalEntries(transactionsCSV, { accounts }));
+    case ExportFormat.QUICKBOOKS_IIF:
+      return generateIIFFile(getJournalEntries(transactionsCSV, { accounts }));
+    case ExportFormat.QUICKBOOKS_QBO:
+      return generateQBOFile(getJournalEntries(transactionsCSV, { accounts }), getJournalAccounts(accounts).balancing);
+    default:
+      return { content: transactionsCSV, mimeType: 'text/csv', extension: 'csv' };
+  }
+};
@@ -0,0 +1,90 @@
+import { findLastIndex, round, uniqBy } from 'lodash';
+
+import { ActivityType, OrderStatus, PaymentMethodType } from './graphql/types/v2/graphql';
+import { getDashboardRoute } from './url-helpers';
+import { getWebsiteUrl } from './utils';
+
+/**
+ * Helpers to recover the recurring contributions whose payment failed: the failures since the last successful
+ * charge and the share of failed contributions that were recovered. The charges are retried by the API, on its own
+ * schedule.
+ */
+
+const PAYMENT_FAILURE_ACTIVITIES = [ActivityType.ORDER_PAYMENT_FAILED, ActivityType.PAYMENT_FAILED];
+
+const PAYMENT_SUCCESS_ACTIVITIES = [
+  ActivityType.ORDER_THANKYOU,
+  ActivityType.SUBSCRIPTION_ACTIVATED,
+  ActivityType.SUBSCRIPTION_RESUMED,
+];
+
+/** A contribution that failed is recovered once it's charged again */
+const RECOVERED_ORDER_STATUSES = [OrderStatus.ACTIVE, OrderStatus.PAID];
+
+/** The details of a payment failure, as recorded by the API in the activity data */
+type PaymentFailureData = {
+  reason?: string;
+  errorMessage?: string;
+  error?: { message?: string };
+};
+
+type OrderActivity = {
+  id: string;
+  type: ActivityType | `${ActivityType}`;
+  createdAt: string;
+  data?: PaymentFailureData | null;
+};
+
+/**
+ * Returns the payment failures that happened since the last successful charge, from the order timeline (sorted by
+ * date ascending).
+ */
+export const getPaymentFailures = <Activity extends OrderActivity>(activities: Activity[]): Activity[] => {
+  const lastSuccessIndex = findLastIndex(activities, activity =>
+    PAYMENT_SUCCESS_ACTIVITIES.includes(activity.type as ActivityType),
+  );
+
+  return activities
+    .slice(lastSuccessIndex + 1)
+    .filter(activity => PAYMENT_FAILURE_ACTIVITIES.includes(activity.type as ActivityType));
+};
+
+/**
+ * The reason reported by the payment processor, if any.
+ */
+export const getPaymentFailureReason = (activity: OrderActivity | null | undefined): string | null => {
+  const data = activity?.data;
+  return data?.reason || data?.errorMessage || data?.error?.message || null;
+};
+
+/**
+ * The share of contributions whose payment failed that have been charged again since then, from 0 to 100.
+ */
+export const getContributionsRecoveryRate = (
+  failures: { order?: { id: string; status: OrderStatus | `${OrderStatus}` } | null }[],
+): { failed: number; recovered: number; rate: number | null } => {
+  const orders = uniqBy(failures.map(failure => failure.order).filter(Boolean), 'id');
+  const recovered = orders.filter(order => RECOVERED_ORDER_STATUSES.includes(order.status as OrderStatus)).length;
+  return {
+    failed: orders.length,
+    recovered,
+    rate: orders.length ? round((recovered / orders.length) * 100) : null,
+  };
+};
+
+/**
+ * The page where the contributor can update the payment method of a failed contribution: the credit card update
+ * page when possible, the contributor's dashboard otherwise.
+ */
+export const getPaymentUpdateLink = (order: {
+  legacyId: number;
+  fromAccount: { slug: string };
+  paymentMethod?: { legacyId?: number; type?: PaymentMethodType | `${PaymentMethodType}` } | null;
+}): string => {
+  const paymentMethod = order.paymentMethod;
+  if (paymentMethod?.legacyId && paymentMethod.type === PaymentMethodType.CREDITCARD) {
+    return `${getWebsiteUrl()}/paymentmethod/${paymentMethod.legacyId}/update`;
+  }
+
+  return `${getWebsiteUrl()}${getDashboardRoute(order.fromAccount, 'outgoing-contributions')}?resumeOrderId=${order.legacyId}`;
+};
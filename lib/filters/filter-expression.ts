@@ -0,0 +1,171 @@
+import { countBy, isPlainObject } from 'lodash';
+import type { z } from 'zod';
+
+import type { FilterComponentConfigs } from './filter-types';
+
+/** The URL query key used to store the filter expression of the advanced mode */
+export const FILTER_EXPRESSION_QUERY_KEY = 'where';
+
+export enum FilterExpressionOperator {
+  AND = 'AND',
+  OR = 'OR',
+}
+
+export type FilterCondition<FV = Record<string, unknown>> = {
+  type: 'condition';
+  key: keyof FV & string;
+  value: FV[keyof FV & string];
+  negate?: boolean;
+};
+
+export type FilterGroup<FV = Record<string, unknown>> = {
+  type: 'group';
+  operator: FilterExpressionOperator;
+  negate?: boolean;
+  children: FilterExpression<FV>[];
+};
+
+export type FilterExpression<FV = Record<string, unknown>> = FilterCondition<FV> | FilterGroup<FV>;
+
+// Keys of the serialized expression, e.g. `{"and":[{"status":["PAID"]},{"not":{"or":[{"tag":["travel"]}]}}]}`
+const AND = 'and';
+const OR = 'or';
+const NOT = 'not';
+
+const toJSON = (expression: FilterExpression) => {
+  let json;
+  if (expression.type === 'group') {
+    json = { [expression.operator === FilterExpressionOperator.OR ? OR : AND]: expression.children.map(toJSON) };
+  } else {
+    json = { [expression.key]: expression.value };
+  }
+
+  return expression.negate ? { [NOT]: json } : json;
+};
+
+const fromJSON = <FV>(json: unknown, schema: z.ZodObject<z.ZodRawShape>, negate = false): FilterExpression<FV> => {
+  if (!isPlainObject(json) || Object.keys(json).length !== 1) {
+    throw new Error('Each node of the filter expression must be an object with a single key');
+  }
+
+  const [key, value] = Object.entries(json)[0];
+  if (key === NOT) {
+    return fromJSON(value, schema, !negate);
+  } else if (key === AND || key === OR) {
+    if (!Array.isArray(value) || !value.length) {
+      throw new Error(`"${key}" expects a non-empty list of conditions`);
+    }
+
+    const operator = key === OR ? FilterExpressionOperator.OR : FilterExpressionOperator.AND;
+    return { type: 'group', operator, negate, children: value.map(child => fromJSON<FV>(child, schema)) };
+  } else if (!schema.shape[key]) {
+    throw new Error(`Unknown filter "${key}"`);
+  } else {
+    const result = schema.shape[key].safeParse(value);
+    if (!result.success || result.data === undefined || result.data === null) {
+      throw new Error(`Invalid value for filter "${key}"`);
+    }
+
+    return { type: 'condition', key: key as keyof FV & string, value: result.data, negate };
+  }
+};
+
+export const serializeFilterExpression = (expression: FilterExpression): string => JSON.stringify(toJSON(expression));
+
+/**
+ * Parses and validates an expression from the URL. Condition values are validated with the filters schemas, the
+ * same way regular filters are. Throws if the expression is invalid.
+ */
+export const parseFilterExpression = <FV>(str: string, schema: z.ZodObject<z.ZodRawShape>): FilterExpression<FV> => {
+  let json;
+  try {
+    json = JSON.parse(str);
+  } catch {
+    throw new Error('The filter expression is not valid JSON');
+  }
+
+  return fromJSON<FV>(json, schema);
+};
+
+type FilterValueEntry<FV> = { key: keyof FV & string; value: FV[keyof FV & string]; conditions: FilterCondition<FV>[] };
+
+const getConditions = <FV>(node: FilterExpression<FV>): FilterCondition<FV>[] =>
+  node.type === 'condition' ? [node] : node.children.flatMap(getConditions);
+
+/**
+ * Translates the expression into regular filter values, which are sent to the API. Conditions are combined with AND
+ * by default; an OR group is only possible between conditions on the same filter when it defines `expression.anyOf`,
+ * and a negated condition when it defines `expression.not`. Everything else is returned as `unsupported`.
+ */
+export const getFilterExpressionValues = <FV, Meta>(
+  expression: FilterExpression<FV>,
+  filters: FilterComponentConfigs<FV, Meta>,
+  meta?: Meta,
+): { values: Partial<FV>; unsupported: FilterCondition<FV>[] } => {
+  const unsupported: FilterCondition<FV>[] = [];
+
+  // Translates a node into the value of a single filter, or returns null if that's not possible
+  const toEntry = (node: FilterExpression<FV>): FilterValueEntry<FV> | null => {
+    if (node.type === 'condition') {
+      if (!node.negate) {
+        return { key: node.key, value: node.value, conditions: [node] };
+      }
+
+      const value = filters[node.key]?.expression?.not?.(node.value, meta);
+      return value === undefined ? null : { key: node.key, value, conditions: [node] };
+    } else if (node.negate || node.operator !== FilterExpressionOperator.OR) {
+      return null;
+    }
+
+    const entries = node.children.map(toEntry);
+    if (entries.length === 1) {
+      return entries[0];
+    }
+
+    const key = entries[0]?.key;
+    const anyOf = filters[key]?.expression?.anyOf;
+    if (!anyOf || entries.some(entry => !entry || entry.key !== key)) {
+      return null;
+    }
+
+    return { key, value: anyOf(entries.map(entry => entry.value)), conditions: entries.flatMap(e => e.conditions) };
+  };
+
+  // Conditions combined with AND at the root of the expression are sent side by side
+  const entries: FilterValueEntry<FV>[] = [];
+  const visitAnd = (node: FilterExpression<FV>) => {
+    if (node.type === 'group' && !node.negate && node.operator === FilterExpressionOperator.AND) {
+      node.children.forEach(visitAnd);
+    } else {
+      const entry = toEntry(node);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        unsupported.push(...getConditions(node));
+      }
+    }
+  };
+
+  visitAnd(expression);
+
+  // A filter can only be sent once to the API
+  const keyCounts = countBy(entries, 'key');
+  const values: Partial<FV> = {};
+  entries.forEach(entry => {
+    if (keyCounts[entry.key] > 1) {
+      unsupported.push(...entry.conditions);
+    } else {
+      values[entry.key] = entry.value;
+    }
+  });
+
+  return { values, unsupported };
+};
+
+/** The filters that can be used in conditions, i.e. the ones edited in a dropdown. Others (e.g. search) stay available */
+export const getFilterExpressionKeys = (filters: FilterComponentConfigs): string[] =>
+  Object.keys(filters).filter(key => Boolean(filters[key]?.Component));
+
+/** Whether some filters of a section can be combined with OR or negated, which is what the advanced mode is for */
+export const supportsFilterExpressions = (filters: FilterComponentConfigs): boolean =>
+  Object.values(filters).some(filter => Boolean(filter?.expression));
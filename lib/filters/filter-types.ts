@@ -48,10 +48,22 @@ type StandaloneFilter<FilterValue, Meta = any> = {
   StandaloneComponent: (props: FilterComponentProps<FilterValue, Meta>) => React.ReactNode;
 };
 
+/**
+ * How the conditions of the advanced mode translate into a regular filter value, which is what the API receives.
+ * Return `undefined` when a value can't be translated.
+ */
+type FilterExpressionConfig<FilterValue, Meta> = {
+  /** Combines the values of conditions joined with OR, e.g. the union of the selected statuses */
+  anyOf?: (values: FilterValue[]) => FilterValue;
+  /** Returns the value that matches everything the condition doesn't, e.g. all the other statuses */
+  not?: (value: FilterValue, meta?: Meta) => FilterValue | undefined;
+};
+
 type FilterComponentConfig<FilterValue, Meta = any> = {
   labelMsg?: MessageDescriptor;
   static?: boolean;
   hide?: ({ meta }: { meta: Meta }) => boolean;
+  expression?: FilterExpressionConfig<FilterValue, Meta>;
 } & (DropdownFilter<FilterValue, Meta> | StandaloneFilter<FilterValue, Meta>);
 
 export type FilterComponentConfigs<FilterValues = Record<string, any>, Meta = any> = Partial<{
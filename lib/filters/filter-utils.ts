@@ -53,7 +53,7 @@ export function structureQueryValues(queryValues) {
   }
 */
 
-export function destructureFilterValues(values: { [key: string]: any }): { [key: string]: string | string[] } {
+export function destructureFilterValues(values: Record<string, unknown>): { [key: string]: string | string[] } {
   const flatValues = {};
 
   forOwn(values, (value, key) => {
@@ -126,6 +126,13 @@ const omitForViewMatching = (values, { filters, defaultSchemaValues }) => {
   );
 };
 
+/**
+ * Returns the filter values that define a view, i.e. the ones that differ from the schema defaults.
+ */
+export const getViewFilter = (values, { filters, defaultSchemaValues }) => {
+  return omitForViewMatching(values, { filters, defaultSchemaValues });
+};
+
 export const getActiveViewId = (values, { filters, views, defaultSchemaValues }) => {
   const currentViewValues = omitForViewMatching(values, { filters, defaultSchemaValues });
 
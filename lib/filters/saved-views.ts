@@ -0,0 +1,53 @@
+import { get } from 'lodash';
+
+import type { Account } from '../graphql/types/v2/graphql';
+
+export const SAVED_VIEWS_SETTINGS_KEY = 'dashboardSavedViews';
+
+/** Views saved by the admins of an account, shared with all the other admins */
+export type SavedView<FV = Record<string, unknown>> = {
+  id: string;
+  label: string;
+  filter: Partial<FV>;
+  /** Pinned views are displayed with the tabs of the section */
+  pinned: boolean;
+  createdAt: string;
+};
+
+export type SectionSavedViews<FV = Record<string, unknown>> = {
+  views: SavedView<FV>[];
+  defaultViewId?: string | null;
+};
+
+/**
+ * The dashboard section that saved views belong to. Passed to `useQueryFilter` by the main filters of the section
+ * only, so that the other filters of the section (e.g. in drawers or secondary tables) keep their own defaults.
+ */
+export type SavedViewsScope = {
+  account: Pick<Account, 'slug' | 'type' | 'settings'>;
+  section: string;
+};
+
+/** Saved views use a prefixed id to avoid conflicts with the views defined by the sections */
+export const getSavedViewTabId = (view: Pick<SavedView, 'id'>) => `saved-${view.id}`;
+
+export const getSectionSavedViews = <FV = Record<string, unknown>>(
+  account: Pick<Account, 'settings'> | null | undefined,
+  section: string | null | undefined,
+): SectionSavedViews<FV> => {
+  const sectionViews: Partial<SectionSavedViews<FV>> | undefined = section
+    ? get(account, ['settings', SAVED_VIEWS_SETTINGS_KEY, section])
+    : undefined;
+  return {
+    views: Array.isArray(sectionViews?.views) ? sectionViews.views : [],
+    defaultViewId: sectionViews?.defaultViewId || null,
+  };
+};
+
+export const getDefaultSavedView = <FV = Record<string, unknown>>(
+  account: Pick<Account, 'settings'> | null | undefined,
+  section: string | null | undefined,
+): SavedView<FV> | undefined => {
+  const { views, defaultViewId } = getSectionSavedViews<FV>(account, section);
+  return defaultViewId ? views.find(view => view.id === defaultViewId) : undefined;
+};
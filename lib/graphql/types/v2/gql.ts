@@ -39,7 +39,7 @@ const documents = {
     "\n  query ContributionFlowPaymentMethods($slug: String) {\n    account(slug: $slug) {\n      id\n      paymentMethods(\n        type: [CREDITCARD, US_BANK_ACCOUNT, SEPA_DEBIT, BACS_DEBIT, GIFTCARD, PREPAID, COLLECTIVE]\n        includeExpired: true\n      ) {\n        id\n        name\n        data\n        service\n        type\n        expiryDate\n        providerType\n        sourcePaymentMethod {\n          id\n          name\n          data\n          service\n          type\n          expiryDate\n          providerType\n          balance {\n            currency\n          }\n          limitedToHosts {\n            id\n            legacyId\n            slug\n          }\n        }\n        balance {\n          valueInCents\n          currency\n        }\n        account {\n          id\n          slug\n          type\n          name\n          imageUrl\n        }\n        limitedToHosts {\n          id\n          legacyId\n          slug\n        }\n      }\n    }\n  }\n": types.ContributionFlowPaymentMethodsDocument,
     "\n  fragment ConfirmContributionFields on Order {\n    id\n    hostFeePercent\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    memo\n    fromAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      isIncognito\n      ... on Individual {\n        isGuest\n      }\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ... on AccountWithHost {\n        bankTransfersHostFeePercent: hostFeePercent(paymentMethodType: MANUAL)\n        host {\n          id\n          settings\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          settings\n        }\n      }\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      imageUrl\n    }\n    totalAmount {\n      valueInCents\n      currency\n    }\n    amount {\n      currency\n      valueInCents\n    }\n    taxAmount {\n      currency\n      valueInCents\n    }\n    tax {\n      id\n      type\n      rate\n    }\n    platformTipAmount {\n      currency\n      valueInCents\n    }\n    platformTipEligible\n  }\n": types.ConfirmContributionFieldsFragmentDoc,
     "\n  mutation ConfirmContribution($order: OrderUpdateInput!, $action: ProcessOrderAction!) {\n    processPendingOrder(order: $order, action: $action) {\n      id\n      legacyId\n      status\n      permissions {\n        id\n        canMarkAsPaid\n        canMarkAsExpired\n      }\n      ...ConfirmContributionFields\n    }\n  }\n  \n": types.ConfirmContributionDocument,
-    "\n      query ContributionDrawer($orderId: Int!) {\n        order(order: { legacyId: $orderId }) {\n          id\n          legacyId\n          nextChargeDate\n          amount {\n            value\n            valueInCents\n            currency\n          }\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          paymentMethod {\n            id\n            type\n          }\n          status\n          description\n          createdAt\n          processedAt\n          frequency\n          tier {\n            id\n            name\n            description\n          }\n          createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          individual: createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          fromAccount {\n            ...ContributionDrawerAccountFields\n            ... on AccountWithHost {\n              host {\n                id\n                slug\n              }\n            }\n          }\n          toAccount {\n            ...ContributionDrawerAccountFields\n          }\n          platformTipEligible\n          platformTipAmount {\n            value\n            valueInCents\n            currency\n          }\n          hostFeePercent\n          tags\n          tax {\n            type\n            idNumber\n            rate\n          }\n          accountingCategory {\n            id\n            name\n            friendlyName\n            code\n          }\n          activities {\n            nodes {\n              id\n              type\n              createdAt\n              fromAccount {\n                ...ContributionDrawerAccountFields\n              }\n              account {\n                ...ContributionDrawerAccountFields\n              }\n              host {\n                ...ContributionDrawerAccountFields\n              }\n              individual {\n                ...ContributionDrawerAccountFields\n              }\n              data\n              transaction {\n                ...ContributionDrawerTransactionFields\n              }\n            }\n          }\n          customData\n          memo\n          needsConfirmation\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          transactions {\n            ...ContributionDrawerTransactionFields\n          }\n          permissions {\n            id\n            canResume\n            canMarkAsExpired\n            canMarkAsPaid\n            canEdit\n            canComment\n            canSeePrivateActivities\n            canSetTags\n            canUpdateAccountingCategory\n          }\n        }\n      }\n\n      fragment ContributionDrawerAccountFields on Account {\n        id\n        name\n        slug\n        isIncognito\n        type\n        imageUrl\n        isHost\n        isArchived\n        ... on Individual {\n          isGuest\n        }\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            type\n            accountingCategories {\n              nodes {\n                id\n                code\n                name\n                friendlyName\n                kind\n                appliesTo\n              }\n            }\n          }\n          approvedAt\n        }\n\n        ... on AccountWithParent {\n          parent {\n            id\n            slug\n          }\n        }\n      }\n\n      fragment ContributionDrawerTransactionFields on Transaction {\n        id\n        legacyId\n        uuid\n        kind\n        amount {\n          currency\n          valueInCents\n        }\n        netAmount {\n          currency\n          valueInCents\n        }\n        group\n        type\n        description\n        createdAt\n        isRefunded\n        isRefund\n        isOrderRejected\n        account {\n          ...ContributionDrawerAccountFields\n        }\n        oppositeAccount {\n          ...ContributionDrawerAccountFields\n        }\n        expense {\n          id\n          type\n        }\n        permissions {\n          id\n          canRefund\n          canDownloadInvoice\n          canReject\n        }\n        paymentProcessorUrl\n      }\n    ": types.ContributionDrawerDocument,
+    "\n      query ContributionDrawer($orderId: Int!) {\n        order(order: { legacyId: $orderId }) {\n          id\n          legacyId\n          nextChargeDate\n          amount {\n            value\n            valueInCents\n            currency\n          }\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          paymentMethod {\n            id\n            type\n          }\n          status\n          description\n          createdAt\n          processedAt\n          frequency\n          tier {\n            id\n            name\n            description\n            customFields\n          }\n          createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          individual: createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          fromAccount {\n            ...ContributionDrawerAccountFields\n            ... on AccountWithHost {\n              host {\n                id\n                slug\n              }\n            }\n          }\n          toAccount {\n            ...ContributionDrawerAccountFields\n          }\n          platformTipEligible\n          platformTipAmount {\n            value\n            valueInCents\n            currency\n          }\n          hostFeePercent\n          tags\n          tax {\n            type\n            idNumber\n            rate\n          }\n          accountingCategory {\n            id\n            name\n            friendlyName\n            code\n          }\n          activities {\n            nodes {\n              id\n              type\n              createdAt\n              fromAccount {\n                ...ContributionDrawerAccountFields\n              }\n              account {\n                ...ContributionDrawerAccountFields\n              }\n              host {\n                ...ContributionDrawerAccountFields\n              }\n              individual {\n                ...ContributionDrawerAccountFields\n              }\n              data\n              transaction {\n                ...ContributionDrawerTransactionFields\n              }\n            }\n          }\n          customData\n          memo\n          needsConfirmation\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          transactions {\n            ...ContributionDrawerTransactionFields\n          }\n          permissions {\n            id\n            canResume\n            canMarkAsExpired\n            canMarkAsPaid\n            canEdit\n            canComment\n            canSeePrivateActivities\n            canSetTags\n            canUpdateAccountingCategory\n          }\n        }\n      }\n\n      fragment ContributionDrawerAccountFields on Account {\n        id\n        name\n        slug\n        isIncognito\n        type\n        imageUrl\n        isHost\n        isArchived\n        ... on Individual {\n          isGuest\n        }\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            type\n            accountingCategories {\n              nodes {\n                id\n                code\n                name\n                friendlyName\n                kind\n                appliesTo\n              }\n            }\n          }\n          approvedAt\n        }\n\n        ... on AccountWithParent {\n          parent {\n            id\n            slug\n          }\n        }\n      }\n\n      fragment ContributionDrawerTransactionFields on Transaction {\n        id\n        legacyId\n        uuid\n        kind\n        amount {\n          currency\n          valueInCents\n        }\n        netAmount {\n          currency\n          valueInCents\n        }\n        group\n        type\n        description\n        createdAt\n        isRefunded\n        isRefund\n        isOrderRejected\n        account {\n          ...ContributionDrawerAccountFields\n        }\n        oppositeAccount {\n          ...ContributionDrawerAccountFields\n        }\n        expense {\n          id\n          type\n        }\n        permissions {\n          id\n          canRefund\n          canDownloadInvoice\n          canReject\n        }\n        paymentProcessorUrl\n      }\n    ": types.ContributionDrawerDocument,
     "\n  fragment CommentFields on Comment {\n    id\n    createdAt\n    html\n    reactions\n    userReactions\n    type\n    account {\n      id\n      slug\n      type\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    fromAccount {\n      id\n      type\n      name\n      slug\n      imageUrl\n      ...AccountHoverCardFields\n    }\n  }\n  \n": types.CommentFieldsFragmentDoc,
     "\n  fragment ConversationListFragment on ConversationCollection {\n    totalCount\n    offset\n    limit\n    nodes {\n      id\n      title\n      summary\n      slug\n      createdAt\n      tags\n      fromAccount {\n        id\n        name\n        type\n        slug\n        imageUrl\n      }\n      followers(limit: 5) {\n        totalCount\n        nodes {\n          id\n          slug\n          type\n          name\n          imageUrl(height: 64)\n        }\n      }\n      stats {\n        id\n        commentsCount\n      }\n    }\n  }\n": types.ConversationListFragmentFragmentDoc,
     "\n  query IsUserFollowingConversation($id: String!) {\n    loggedInAccount {\n      id\n      slug\n      imageUrl\n      type\n      name\n      ... on Individual {\n        isFollowingConversation(id: $id)\n      }\n    }\n  }\n": types.IsUserFollowingConversationDocument,
@@ -93,23 +93,39 @@ const documents = {
     "\n  query HostedCollectives(\n    $hostSlug: String!\n    $limit: Int!\n    $offset: Int!\n    $sort: OrderByInput\n    $hostFeesStructure: HostFeeStructure\n    $searchTerm: String\n    $type: [AccountType]\n    $isApproved: Boolean\n    $isFrozen: Boolean\n    $isUnhosted: Boolean\n    $balance: AmountRangeInput\n    $consolidatedBalance: AmountRangeInput\n    $currencies: [String]\n  ) {\n    host(slug: $hostSlug) {\n      id\n      legacyId\n      slug\n      name\n      currency\n      isHost\n      type\n      settings\n      hostFeePercent\n      plan {\n        id\n        hostFees\n        hostFeeSharePercent\n      }\n      hostedAccounts(\n        limit: $limit\n        offset: $offset\n        searchTerm: $searchTerm\n        hostFeesStructure: $hostFeesStructure\n        accountType: $type\n        orderBy: $sort\n        isApproved: $isApproved\n        isFrozen: $isFrozen\n        isUnhosted: $isUnhosted\n        balance: $balance\n        consolidatedBalance: $consolidatedBalance\n        currencies: $currencies\n      ) {\n        offset\n        limit\n        totalCount\n        nodes {\n          id\n          ...HostedCollectiveFields\n        }\n      }\n    }\n  }\n\n  \n": types.HostedCollectivesDocument,
     "\n  query HostedCollectiveDetail($id: String!) {\n    account(id: $id) {\n      id\n      ...HostedCollectiveFields\n      transactions(limit: 10, offset: 0, kind: [ADDED_FUNDS, CONTRIBUTION, EXPENSE]) {\n        nodes {\n          id\n          clearedAt\n          createdAt\n          type\n          kind\n          description\n          isRefund\n          isRefunded\n          isInReview\n          isDisputed\n          isOrderRejected\n          amount {\n            valueInCents\n            currency\n          }\n          netAmount {\n            valueInCents\n            currency\n          }\n          oppositeAccount {\n            id\n            slug\n            name\n            imageUrl\n          }\n        }\n      }\n    }\n    activities(account: { id: $id }, limit: 5, offset: 0, type: [COLLECTIVE]) {\n      nodes {\n        id\n        type\n        createdAt\n        data\n        isSystem\n        account {\n          id\n          slug\n          name\n          imageUrl\n        }\n        fromAccount {\n          id\n          slug\n          name\n          imageUrl\n        }\n        individual {\n          id\n          slug\n          name\n          imageUrl\n        }\n        host {\n          id\n          name\n          slug\n          type\n        }\n      }\n    }\n  }\n\n  \n": types.HostedCollectiveDetailDocument,
     "\n  query AllCollectives(\n    $limit: Int!\n    $offset: Int!\n    $sort: OrderByInput\n    $searchTerm: String\n    $type: [AccountType]\n    $isHost: Boolean\n    $host: [AccountReferenceInput]\n    $isActive: Boolean\n    $consolidatedBalance: AmountRangeInput\n  ) {\n    accounts(\n      limit: $limit\n      offset: $offset\n      searchTerm: $searchTerm\n      type: $type\n      orderBy: $sort\n      isHost: $isHost\n      isActive: $isActive\n      host: $host\n      consolidatedBalance: $consolidatedBalance\n      skipGuests: false\n    ) {\n      offset\n      limit\n      totalCount\n      nodes {\n        id\n        ...HostedCollectiveFields\n      }\n    }\n  }\n\n  \n": types.AllCollectivesDocument,
-    "\n  query DashboardContributionsMetadata(\n    $slug: String!\n    $filter: AccountOrdersFilter!\n    $onlyExpectedFunds: Boolean!\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeHostedAccounts: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      currency\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          imageUrl\n          type\n          hostFeePercent\n        }\n      }\n      ALL: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PENDING: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [PENDING]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      EXPIRED: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [EXPIRED]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      RECURRING: orders(\n        filter: $filter\n        onlyActiveSubscriptions: true\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAID: orders(\n        filter: $filter\n        includeIncognito: true\n        status: [PAID]\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      ONETIME: orders(\n        filter: $filter\n        frequency: ONETIME\n        status: [PAID, PROCESSING]\n        includeIncognito: true\n        minAmount: 1\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      CANCELED: orders(\n        filter: $filter\n        status: [CANCELLED]\n        includeIncognito: true\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PAUSED: orders(\n        filter: $filter\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAUSED_RESUMABLE: orders(\n        filter: INCOMING\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: false\n        includeChildrenAccounts: true\n        pausedBy: [COLLECTIVE, HOST, PLATFORM]\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      DISPUTED: orders(\n        filter: $filter\n        status: [DISPUTED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      IN_REVIEW: orders(\n        filter: $filter\n        status: [IN_REVIEW]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n    }\n  }\n": types.DashboardContributionsMetadataDocument,
-    "\n  query DashboardRecurringContributions(\n    $slug: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $filter: AccountOrdersFilter!\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $includeIncognito: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $includeHostedAccounts: Boolean!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n  ) {\n    account(slug: $slug) {\n      id\n      orders(\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        filter: $filter\n        frequency: $frequency\n        status: $status\n        onlySubscriptions: $onlySubscriptions\n        includeIncognito: $includeIncognito\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n        }\n      }\n    }\n  }\n  \n": types.DashboardRecurringContributionsDocument,
+    "\n  query DashboardContributionsMetadata(\n    $slug: String!\n    $filter: AccountOrdersFilter!\n    $onlyExpectedFunds: Boolean!\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeHostedAccounts: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      currency\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          imageUrl\n          type\n          hostFeePercent\n        }\n      }\n      ALL: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PENDING: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [PENDING]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      EXPIRED: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [EXPIRED]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      RECURRING: orders(\n        filter: $filter\n        onlyActiveSubscriptions: true\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAID: orders(\n        filter: $filter\n        includeIncognito: true\n        status: [PAID]\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      ONETIME: orders(\n        filter: $filter\n        frequency: ONETIME\n        status: [PAID, PROCESSING]\n        includeIncognito: true\n        minAmount: 1\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      CANCELED: orders(\n        filter: $filter\n        status: [CANCELLED]\n        includeIncognito: true\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PAUSED: orders(\n        filter: $filter\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAUSED_RESUMABLE: orders(\n        filter: INCOMING\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: false\n        includeChildrenAccounts: true\n        pausedBy: [COLLECTIVE, HOST, PLATFORM]\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      FAILED: orders(\n        filter: $filter\n        status: [ERROR]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      DISPUTED: orders(\n        filter: $filter\n        status: [DISPUTED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      IN_REVIEW: orders(\n        filter: $filter\n        status: [IN_REVIEW]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n    }\n  }\n": types.DashboardContributionsMetadataDocument,
+    "\n  query DashboardRecurringContributions(\n    $slug: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $filter: AccountOrdersFilter!\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $includeIncognito: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $includeHostedAccounts: Boolean!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeFailures: Boolean!\n    $includeExpectedFundsInvoices: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      orders(\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        filter: $filter\n        frequency: $frequency\n        status: $status\n        onlySubscriptions: $onlySubscriptions\n        includeIncognito: $includeIncognito\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n          activities @include(if: $includeFailures) {\n            nodes {\n              id\n              type\n              createdAt\n              data\n            }\n          }\n          comments(limit: 100) @include(if: $includeExpectedFundsInvoices) {\n            nodes {\n              id\n              type\n              createdAt\n              html\n            }\n          }\n        }\n      }\n    }\n  }\n  \n": types.DashboardRecurringContributionsDocument,
     "\n      mutation ContributionsExpireOrder($orderId: Int) {\n        processPendingOrder(order: { legacyId: $orderId }, action: MARK_AS_EXPIRED) {\n          id\n          status\n          permissions {\n            id\n            canMarkAsPaid\n            canMarkAsExpired\n          }\n          activities {\n            nodes {\n              id\n            }\n          }\n        }\n      }\n    ": types.ContributionsExpireOrderDocument,
     "\n  query CreatePendingContributionModal($slug: String!) {\n    host(slug: $slug) {\n      id\n      legacyId\n      type\n      isHost\n      name\n      slug\n      currency\n      settings\n      hostFeePercent\n      orderAccountingCategories: accountingCategories(kind: [CONTRIBUTION, ADDED_FUNDS]) {\n        nodes {\n          id\n          name\n          friendlyName\n          code\n          kind\n          appliesTo\n        }\n      }\n      plan {\n        id\n        hostFees\n      }\n      policies {\n        id\n        REQUIRE_2FA_FOR_ADMINS\n      }\n      isTrustedHost\n      vendors {\n        totalCount\n        nodes {\n          id\n          ...VendorFields\n        }\n      }\n    }\n  }\n\n  \n": types.CreatePendingContributionModalDocument,
     "\n  query CreatePendingContributionCollective($slug: String!) {\n    account(slug: $slug) {\n      id\n      type\n      currency\n      childrenAccounts {\n        nodes {\n          id\n          type\n          legacyId\n          isHost\n          name\n          slug\n          currency\n          settings\n          imageUrl\n          ... on AccountWithContributions {\n            tiers {\n              nodes {\n                id\n                slug\n                legacyId\n                name\n              }\n            }\n          }\n        }\n      }\n      ... on AccountWithHost {\n        bankTransfersHostFeePercent: hostFeePercent(paymentMethodType: MANUAL)\n        host {\n          id\n          legacyId\n          vendors(forAccount: { slug: $slug }, limit: 5) {\n            nodes {\n              id\n              slug\n              name\n              type\n              description\n              imageUrl(height: 64)\n            }\n          }\n        }\n      }\n      ... on AccountWithContributions {\n        tiers {\n          nodes {\n            id\n            slug\n            legacyId\n            name\n          }\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n        }\n      }\n    }\n  }\n": types.CreatePendingContributionCollectiveDocument,
     "\n  mutation CreatePendingContribution($order: PendingOrderCreateInput!) {\n    createPendingOrder(order: $order) {\n      legacyId\n      id\n      status\n    }\n  }\n": types.CreatePendingContributionDocument,
     "\n  mutation EditPendingContribution($order: PendingOrderEditInput!) {\n    editPendingOrder(order: $order) {\n      legacyId\n      id\n      status\n      ...ConfirmContributionFields\n    }\n  }\n  \n": types.EditPendingContributionDocument,
+    "\n  query ExpectedFundsInvoiceOrder($order: OrderReferenceInput!) {\n    order(order: $order) {\n      id\n      legacyId\n      status\n      description\n      amount {\n        valueInCents\n        currency\n      }\n      totalAmount {\n        valueInCents\n        currency\n      }\n      tier {\n        id\n        name\n      }\n      fromAccount {\n        id\n        slug\n        name\n      }\n      toAccount {\n        id\n        slug\n        name\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            name\n            legalName\n            settings\n            location {\n              id\n              address\n              country\n            }\n          }\n        }\n      }\n      pendingContributionData {\n        expectedAt\n        ponumber\n        fromAccountInfo {\n          name\n          email\n        }\n      }\n      comments(limit: 100) {\n        nodes {\n          id\n          type\n          createdAt\n          html\n        }\n      }\n    }\n  }\n": types.ExpectedFundsInvoiceOrderDocument,
+    "\n  mutation SendExpectedFundsInvoice($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {\n    sendMessage(account: $account, message: $message, subject: $subject) {\n      success\n    }\n  }\n": types.SendExpectedFundsInvoiceDocument,
+    "\n  mutation CreateExpectedFundsInvoiceNote($comment: CommentCreateInput!) {\n    createComment(comment: $comment) {\n      id\n    }\n  }\n": types.CreateExpectedFundsInvoiceNoteDocument,
+    "\n  query ImportExpectedFundsHost($slug: String!) {\n    host(slug: $slug) {\n      id\n      slug\n    }\n  }\n": types.ImportExpectedFundsHostDocument,
+    "\n  query ImportExpectedFundsAccount($slug: String!) {\n    account(slug: $slug, throwIfMissing: false) {\n      id\n      slug\n      currency\n      ... on AccountWithHost {\n        host {\n          id\n        }\n      }\n      ... on AccountWithContributions {\n        tiers {\n          nodes {\n            id\n            slug\n            legacyId\n            name\n          }\n        }\n      }\n    }\n  }\n": types.ImportExpectedFundsAccountDocument,
+    "\n  mutation ImportExpectedFunds($order: PendingOrderCreateInput!) {\n    createPendingOrder(order: $order) {\n      id\n      legacyId\n    }\n  }\n": types.ImportExpectedFundsDocument,
     "\n  mutation StartResumeContributionsProcess($account: AccountReferenceInput!, $message: String) {\n    startResumeOrdersProcess(account: $account, message: $message) {\n      id\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n    }\n  }\n": types.StartResumeContributionsProcessDocument,
+    "\n  query PaymentUpdateLinkOrder($order: OrderReferenceInput!) {\n    order(order: $order) {\n      id\n      legacyId\n      fromAccount {\n        id\n        slug\n        name\n      }\n      toAccount {\n        id\n        slug\n        name\n      }\n      paymentMethod {\n        id\n        legacyId\n        type\n      }\n    }\n  }\n": types.PaymentUpdateLinkOrderDocument,
+    "\n  mutation SendPaymentUpdateLink($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {\n    sendMessage(account: $account, message: $message, subject: $subject) {\n      success\n    }\n  }\n": types.SendPaymentUpdateLinkDocument,
     "\n  query ExpensePipelineOverview($hostSlug: String!, $currency: Currency!) {\n    wiseReadyToPay: expenses(\n      host: { slug: $hostSlug }\n      limit: 0\n      status: READY_TO_PAY\n      payoutMethodType: BANK_ACCOUNT\n    ) {\n      totalCount\n      totalAmount {\n        amount(currency: $currency) {\n          valueInCents\n          currency\n        }\n        amountsByCurrency {\n          valueInCents\n          currency\n        }\n      }\n    }\n    wiseScheduledForPayment: expenses(\n      host: { slug: $hostSlug }\n      limit: 0\n      status: SCHEDULED_FOR_PAYMENT\n      payoutMethodType: BANK_ACCOUNT\n    ) {\n      totalCount\n      totalAmount {\n        amount(currency: $currency) {\n          valueInCents\n          currency\n        }\n        amountsByCurrency {\n          valueInCents\n          currency\n        }\n      }\n    }\n    paypalReadyToPay: expenses(host: { slug: $hostSlug }, limit: 0, status: READY_TO_PAY, payoutMethodType: PAYPAL) {\n      totalCount\n      totalAmount {\n        amount(currency: $currency) {\n          valueInCents\n          currency\n        }\n        amountsByCurrency {\n          valueInCents\n          currency\n        }\n      }\n    }\n    paypalScheduledForPayment: expenses(\n      host: { slug: $hostSlug }\n      limit: 0\n      status: SCHEDULED_FOR_PAYMENT\n      payoutMethodType: PAYPAL\n    ) {\n      totalCount\n      totalAmount {\n        amount(currency: $currency) {\n          valueInCents\n          currency\n        }\n        amountsByCurrency {\n          valueInCents\n          currency\n        }\n      }\n    }\n  }\n": types.ExpensePipelineOverviewDocument,
     "\n  query HostCreateExpenseModal($hostId: String!, $forAccount: AccountReferenceInput) {\n    host(id: $hostId) {\n      id\n      slug\n      name\n      type\n      description\n      isHost\n      imageUrl(height: 64)\n      vendors(forAccount: $forAccount) {\n        nodes {\n          id\n          slug\n          name\n          type\n          description\n          imageUrl(height: 64)\n        }\n      }\n    }\n  }\n": types.HostCreateExpenseModalDocument,
     "\n  mutation HostCreateExpense(\n    $expense: ExpenseCreateInput!\n    $account: AccountReferenceInput!\n    $transactionsImportRow: TransactionsImportRowReferenceInput\n  ) {\n    createExpense(expense: $expense, account: $account, transactionsImportRow: $transactionsImportRow) {\n      id\n      legacyId\n      account {\n        id\n        slug\n        name\n        type\n        imageUrl(height: 48)\n      }\n    }\n  }\n": types.HostCreateExpenseDocument,
     "\n  query ExpensesScheduledForPayment($hostSlug: String!) {\n    expenses(host: { slug: $hostSlug }, status: SCHEDULED_FOR_PAYMENT, payoutMethodType: BANK_ACCOUNT) {\n      totalCount\n      nodes {\n        id\n      }\n    }\n  }\n": types.ExpensesScheduledForPaymentDocument,
+    "\n  query PayoutBatchBuilder($hostSlug: String!, $limit: Int!) {\n    expenses(\n      host: { slug: $hostSlug }\n      status: READY_TO_PAY\n      limit: $limit\n      orderBy: { field: CREATED_AT, direction: ASC }\n    ) {\n      totalCount\n      nodes {\n        id\n        legacyId\n        description\n        amountV2 {\n          valueInCents\n          currency\n        }\n        feesPayer\n        payoutMethod {\n          id\n          type\n          data\n        }\n        payee {\n          id\n          slug\n          name\n          legalName\n        }\n        account {\n          id\n          slug\n          name\n        }\n        permissions {\n          id\n          canPay\n        }\n      }\n    }\n  }\n": types.PayoutBatchBuilderDocument,
+    "\n  fragment RecurringExpenseLastExpenseFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdAt\n    amountV2 {\n      valueInCents\n      currency\n    }\n    permissions {\n      id\n      canEdit\n      canDelete\n    }\n  }\n": types.RecurringExpenseLastExpenseFieldsFragmentDoc,
+    "\n  fragment RecurringExpenseAccountFields on Account {\n    id\n    slug\n    name\n    type\n    imageUrl\n  }\n": types.RecurringExpenseAccountFieldsFragmentDoc,
+    "\n  query RecurringExpenses(\n    $slug: String!\n    $fromAccount: AccountReferenceInput\n    $account: AccountReferenceInput\n    $host: AccountReferenceInput\n    $dateFrom: DateTime\n    $limit: Int!\n  ) {\n    account(slug: $slug) {\n      id\n      slug\n      name\n      type\n      isHost\n    }\n    expenses(\n      fromAccount: $fromAccount\n      account: $account\n      host: $host\n      dateFrom: $dateFrom\n      limit: $limit\n      orderBy: { field: CREATED_AT, direction: DESC }\n    ) {\n      totalCount\n      nodes {\n        id\n        ...RecurringExpenseLastExpenseFields\n        recurringExpense {\n          id\n          interval\n          endsAt\n          lastDraftedAt\n          account {\n            id\n            ...RecurringExpenseAccountFields\n          }\n          fromAccount {\n            id\n            ...RecurringExpenseAccountFields\n          }\n          lastExpenseCreated {\n            id\n            ...RecurringExpenseLastExpenseFields\n          }\n        }\n      }\n    }\n  }\n  \n  \n": types.RecurringExpensesDocument,
+    "\n  mutation DeleteRecurringExpense($expense: ExpenseReferenceInput!) {\n    deleteExpense(expense: $expense) {\n      id\n    }\n  }\n": types.DeleteRecurringExpenseDocument,
     "\n  query ScheduledExpensesBanner($hostSlug: String!, $limit: Int!, $payoutMethodType: PayoutMethodType) {\n    host(slug: $hostSlug) {\n      id\n      currency\n      transferwise {\n        id\n        amountBatched {\n          valueInCents\n          currency\n        }\n      }\n    }\n    expenses(\n      host: { slug: $hostSlug }\n      status: SCHEDULED_FOR_PAYMENT\n      limit: $limit\n      payoutMethodType: $payoutMethodType\n    ) {\n      totalCount\n      offset\n      limit\n      nodes {\n        id\n      }\n    }\n  }\n": types.ScheduledExpensesBannerDocument,
     "\n  query AccountExpenses(\n    $account: AccountReferenceInput\n    $fromAccount: AccountReferenceInput\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $createdByAccount: AccountReferenceInput\n    $includeChildrenExpenses: Boolean\n    $fetchHostForExpenses: Boolean!\n    $hasAmountInCreatedByAccountCurrency: Boolean!\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      account: $account\n      fromAccount: $fromAccount\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      createdByAccount: $createdByAccount\n      includeChildrenExpenses: $includeChildrenExpenses\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      offset\n      limit\n      nodes {\n        id\n        ...ExpensesListFieldsFragment\n        amountInCreatedByAccountCurrency: amountV2(currencySource: CREATED_BY_ACCOUNT)\n          @include(if: $hasAmountInCreatedByAccountCurrency) {\n          value\n          valueInCents\n          currency\n          exchangeRate {\n            date\n            value\n            source\n            isApproximate\n            fromCurrency\n            toCurrency\n          }\n        }\n        host @include(if: $fetchHostForExpenses) {\n          id\n          ...ExpenseHostFields\n        }\n      }\n    }\n  }\n\n  \n  \n": types.AccountExpensesDocument,
     "\n  query AccountExpensesMetadata($accountSlug: String!) {\n    account(slug: $accountSlug) {\n      id\n      slug\n      name\n      imageUrl\n      type\n      currency\n      childrenAccounts {\n        totalCount\n        nodes {\n          id\n          name\n          slug\n          imageUrl\n          currency\n          type\n          isActive\n          isArchived\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          ...ExpenseHostFields\n        }\n      }\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n        }\n      }\n    }\n    expenseTagStats(account: { slug: $accountSlug }) {\n      nodes {\n        id\n        tag\n      }\n    }\n  }\n  \n": types.AccountExpensesMetadataDocument,
     "\n  query HostDashboardExpenses(\n    $hostSlug: String!\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $account: AccountReferenceInput\n    $lastCommentBy: [LastCommentBy]\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      host: { slug: $hostSlug }\n      account: $account\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      lastCommentBy: $lastCommentBy\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      offset\n      limit\n      nodes {\n        id\n        ...ExpensesListFieldsFragment\n        ...ExpensesListAdminFieldsFragment\n      }\n    }\n    host(slug: $hostSlug) {\n      id\n      ...ExpenseHostFields\n    }\n  }\n  \n  \n  \n": types.HostDashboardExpensesDocument,
-    "\n  fragment HostInfoCardFields on Host {\n    id\n    legacyId\n    slug\n    currency\n    location {\n      id\n      address\n      country\n    }\n    paypalPreApproval {\n      id\n      name\n      expiryDate\n      createdAt\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    transferwise {\n      id\n      balances {\n        valueInCents\n        currency\n      }\n    }\n    stripe {\n      issuingBalance {\n        valueInCents\n        currency\n      }\n    }\n    stats {\n      id\n      balance {\n        valueInCents\n      }\n    }\n  }\n": types.HostInfoCardFieldsFragmentDoc,
+    "\n  fragment ExpenseBulkActionFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdByAccount {\n      id\n      legacyId\n    }\n    permissions {\n      id\n      canReject\n      canUnapprove\n      canHold\n      canRelease\n      canMarkAsSpam\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n  }\n": types.ExpenseBulkActionFieldsFragmentDoc,
+    "\n  query AccountExpensesBulkSelection(\n    $account: AccountReferenceInput\n    $fromAccount: AccountReferenceInput\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $createdByAccount: AccountReferenceInput\n    $includeChildrenExpenses: Boolean\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      account: $account\n      fromAccount: $fromAccount\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      createdByAccount: $createdByAccount\n      includeChildrenExpenses: $includeChildrenExpenses\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseBulkActionFields\n      }\n    }\n  }\n  \n": types.AccountExpensesBulkSelectionDocument,
+    "\n  query HostDashboardExpensesBulkSelection(\n    $hostSlug: String!\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $account: AccountReferenceInput\n    $lastCommentBy: [LastCommentBy]\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      host: { slug: $hostSlug }\n      account: $account\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      lastCommentBy: $lastCommentBy\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseBulkActionFields\n      }\n    }\n  }\n  \n": types.HostDashboardExpensesBulkSelectionDocument,
+    "\n  fragment HostInfoCardFields on Host {\n    id\n    legacyId\n    slug\n    name\n    currency\n    location {\n      id\n      address\n      country\n    }\n    paypalPreApproval {\n      id\n      name\n      expiryDate\n      createdAt\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    transferwise {\n      id\n      balances {\n        valueInCents\n        currency\n      }\n    }\n    stripe {\n      issuingBalance {\n        valueInCents\n        currency\n      }\n    }\n    stats {\n      id\n      balance {\n        valueInCents\n      }\n    }\n  }\n": types.HostInfoCardFieldsFragmentDoc,
     "\n  query HostDashboardMetadata($hostSlug: String!) {\n    host(slug: $hostSlug) {\n      id\n      ...HostInfoCardFields\n      transferwise {\n        id\n        availableCurrencies\n        amountBatched {\n          valueInCents\n          currency\n        }\n      }\n    }\n    all: expenses(host: { slug: $hostSlug }) {\n      totalCount\n    }\n    unreplied: expenses(host: { slug: $hostSlug }, status: [APPROVED, ERROR, INCOMPLETE], lastCommentBy: [USER]) {\n      totalCount\n    }\n    ready_to_pay: expenses(host: { slug: $hostSlug }, status: [READY_TO_PAY]) {\n      totalCount\n    }\n    scheduled_for_payment: expenses(host: { slug: $hostSlug }, status: [SCHEDULED_FOR_PAYMENT]) {\n      totalCount\n    }\n    on_hold: expenses(host: { slug: $hostSlug }, status: [ON_HOLD]) {\n      totalCount\n    }\n    incomplete: expenses(host: { slug: $hostSlug }, status: [INCOMPLETE]) {\n      totalCount\n    }\n    error: expenses(host: { slug: $hostSlug }, status: [ERROR]) {\n      totalCount\n    }\n    paid: expenses(host: { slug: $hostSlug }, status: [PAID]) {\n      totalCount\n    }\n\n    hostedAccounts: accounts(host: { slug: $hostSlug }, orderBy: { field: ACTIVITY, direction: DESC }) {\n      nodes {\n        id\n        ...AccountHoverCardFields\n      }\n    }\n\n    expenseTags: expenseTagStats(host: { slug: $hostSlug }) {\n      nodes {\n        id\n        tag\n      }\n    }\n  }\n\n  \n  \n": types.HostDashboardMetadataDocument,
     "\n      query HostExpensesReportList($accountSlug: String!, $timeUnit: TimeUnit, $dateFrom: DateTime, $dateTo: DateTime) {\n        host(slug: $accountSlug) {\n          hostExpensesReport(timeUnit: $timeUnit, dateFrom: $dateFrom, dateTo: $dateTo) {\n            timeUnit\n            dateFrom\n            dateTo\n            nodes {\n              date\n              isHost\n              amount {\n                currency\n                valueInCents\n              }\n              count\n            }\n          }\n        }\n      }\n    ": types.HostExpensesReportListDocument,
     "\n      query HostExpensesReport($accountSlug: String!, $timeUnit: TimeUnit, $dateFrom: DateTime, $dateTo: DateTime) {\n        host(slug: $accountSlug) {\n          createdAt\n          currency\n          hostExpensesReport(timeUnit: $timeUnit, dateFrom: $dateFrom, dateTo: $dateTo) {\n            timeUnit\n            dateFrom\n            dateTo\n            nodes {\n              date\n              isHost\n              amount {\n                currency\n                valueInCents\n              }\n              count\n              accountingCategory {\n                id\n                code\n                name\n                friendlyName\n              }\n            }\n          }\n        }\n      }\n    ": types.HostExpensesReportDocument,
@@ -117,24 +133,31 @@ const documents = {
     "\n  mutation EditLegalDocumentStatus(\n    $id: String!\n    $host: AccountReferenceInput!\n    $status: LegalDocumentRequestStatus!\n    $message: String\n  ) {\n    editLegalDocumentStatus(id: $id, status: $status, message: $message, host: $host) {\n      id\n      status\n    }\n  }\n": types.EditLegalDocumentStatusDocument,
     "\n  query LegalDocumentDrawer($hostId: String!, $accountId: String!) {\n    expenses(\n      limit: 5\n      fromAccount: { id: $accountId }\n      host: { id: $hostId }\n      orderBy: { field: CREATED_AT, direction: DESC }\n      types: [INVOICE, GRANT, UNCLASSIFIED]\n    ) {\n      totalCount\n      nodes {\n        id\n        legacyId\n        type\n        description\n        createdAt\n        amountV2 {\n          valueInCents\n          currency\n        }\n        account {\n          ...AccountHoverCardFields\n        }\n      }\n    }\n  }\n  \n": types.LegalDocumentDrawerDocument,
     "\n  mutation UploadTaxForm($id: String!, $host: AccountReferenceInput!, $file: Upload!) {\n    editLegalDocumentStatus(id: $id, status: RECEIVED, host: $host, file: $file) {\n      id\n      status\n      documentLink\n      year\n      isExpired\n    }\n  }\n": types.UploadTaxFormDocument,
+    "\n  query ExpensesAwaitingApproval($account: AccountReferenceInput, $host: AccountReferenceInput) {\n    expenses(account: $account, host: $host, status: PENDING, includeChildrenExpenses: true, limit: 100) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseApprovalWorkflowFields\n        permissions {\n          id\n          approve {\n            allowed\n          }\n        }\n      }\n    }\n  }\n  \n": types.ExpensesAwaitingApprovalDocument,
     "\n  query Timeline($slug: String!, $limit: Int, $dateTo: DateTime, $classes: [ActivityClassType!]) {\n    account(slug: $slug) {\n      id\n      feed(limit: $limit, dateTo: $dateTo, classes: $classes) {\n        id\n        createdAt\n        type\n        data\n        isSystem\n        fromAccount {\n          id\n          name\n          slug\n          type\n          isIncognito\n          ...AccountHoverCardFields\n\n          imageUrl\n          ... on Individual {\n            isGuest\n          }\n        }\n        host {\n          id\n          name\n          slug\n          type\n        }\n        account {\n          id\n          name\n          slug\n          type\n          isIncognito\n          ...AccountHoverCardFields\n          imageUrl\n          ... on Individual {\n            isGuest\n          }\n          ... on AccountWithParent {\n            parent {\n              id\n              slug\n              name\n              type\n            }\n          }\n        }\n        expense {\n          id\n          legacyId\n          description\n          amountV2 {\n            valueInCents\n            currency\n          }\n          payee {\n            id\n            name\n            slug\n            imageUrl\n            ...AccountHoverCardFields\n          }\n          account {\n            id\n            name\n            type\n            slug\n            ...AccountHoverCardFields\n            ... on AccountWithParent {\n              parent {\n                id\n                slug\n              }\n            }\n          }\n        }\n        order {\n          id\n          legacyId\n          description\n          toAccount {\n            id\n            name\n            slug\n            ... on AccountWithParent {\n              parent {\n                id\n                slug\n              }\n            }\n          }\n        }\n        update {\n          id\n          legacyId\n          title\n          summary\n          slug\n        }\n        conversation {\n          id\n          title\n          summary\n          slug\n        }\n        individual {\n          id\n          slug\n          name\n          type\n          imageUrl\n          isIncognito\n          ...AccountHoverCardFields\n        }\n      }\n    }\n  }\n  \n": types.TimelineDocument,
     "\n  query CollectiveBalance($slug: String!) {\n    account(slug: $slug) {\n      id\n      name\n      imageUrl\n      slug\n      ...AccountHoverCardFields\n      type\n\n      stats {\n        id\n        balance {\n          currency\n          valueInCents\n        }\n      }\n\n      childrenAccounts {\n        totalCount\n        nodes {\n          id\n          name\n          slug\n          imageUrl\n          isArchived\n          ...AccountHoverCardFields\n          ... on Event {\n            startsAt\n            endsAt\n          }\n          stats {\n            id\n            balance {\n              currency\n              valueInCents\n            }\n          }\n        }\n      }\n    }\n  }\n  \n": types.CollectiveBalanceDocument,
     "\n  query MetricsPerAccount(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeBalance: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeContributionsCount: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      ...AccountMetrics\n\n      childrenAccounts {\n        totalCount\n        nodes {\n          id\n          ...AccountMetrics\n        }\n      }\n    }\n  }\n  fragment AccountMetrics on Account {\n    ...AccountHoverCardFields\n    balance: stats @include(if: $includeBalance) {\n      id\n      current: balance(dateTo: $dateTo) {\n        currency\n        valueInCents\n      }\n      comparison: balance(dateTo: $compareTo) @include(if: $includeComparison) {\n        currency\n        valueInCents\n      }\n    }\n    spent: stats @include(if: $includeSpent) {\n      id\n      current: totalAmountSpent(dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n        currency\n        valueInCents\n      }\n      comparison: totalAmountSpent(dateFrom: $compareFrom, dateTo: $compareTo, net: true)\n        @include(if: $includeComparison) {\n        currency\n        valueInCents\n      }\n    }\n    received: stats @include(if: $includeReceived) {\n      id\n      current: totalAmountReceived(dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n        currency\n        valueInCents\n      }\n      comparison: totalAmountReceived(dateFrom: $compareFrom, dateTo: $compareTo, net: true)\n        @include(if: $includeComparison) {\n        currency\n        valueInCents\n      }\n    }\n\n    contributions: stats @include(if: $includeContributionsCount) {\n      id\n      current: contributionsCount(dateFrom: $dateFrom, dateTo: $dateTo)\n      comparison: contributionsCount(dateFrom: $compareFrom, dateTo: $compareTo) @include(if: $includeComparison)\n    }\n  }\n  \n": types.MetricsPerAccountDocument,
-    "\n  query OverviewMetrics(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeChildren: Boolean\n    $includeBalance: Boolean!\n    $includeBalanceTimeseries: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeReceivedTimeseries: Boolean!\n    $includeContributionsCount: Boolean!\n    $timeUnit: TimeUnit\n  ) {\n    account(slug: $slug) {\n      id\n      isActive\n      ...AccountHoverCardFields\n      balance: stats @include(if: $includeBalance) {\n        id\n        current: balance(includeChildren: $includeChildren, dateTo: $dateTo) {\n          currency\n          valueInCents\n        }\n        comparison: balance(includeChildren: $includeChildren, dateTo: $compareTo) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      balanceTimeseries: stats @include(if: $includeBalanceTimeseries) {\n        id\n        current: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n      spent: stats @include(if: $includeSpent) {\n        id\n        current: totalAmountSpent(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountSpent(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      received: stats @include(if: $includeReceived) {\n        id\n        current: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          net: true\n        ) @include(if: $includeReceived) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      receivedTimeseries: stats @include(if: $includeReceivedTimeseries) {\n        id\n        current: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n          net: true\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n          net: true\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n\n      contributionsCount: stats @include(if: $includeContributionsCount) {\n        id\n        current: contributionsCount(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo)\n        comparison: contributionsCount(includeChildren: $includeChildren, dateFrom: $compareFrom, dateTo: $compareTo)\n          @include(if: $includeComparison)\n      }\n    }\n  }\n  \n": types.OverviewMetricsDocument,
+    "\n  query OverviewMetrics(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeChildren: Boolean\n    $includeBalance: Boolean!\n    $includeBalanceTimeseries: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeReceivedTimeseries: Boolean!\n    $includeContributionsCount: Boolean!\n    $includeRecoveryRate: Boolean!\n    $includeHostedAccounts: Boolean!\n    $timeUnit: TimeUnit\n  ) {\n    account(slug: $slug) {\n      id\n      isActive\n      ...AccountHoverCardFields\n      balance: stats @include(if: $includeBalance) {\n        id\n        current: balance(includeChildren: $includeChildren, dateTo: $dateTo) {\n          currency\n          valueInCents\n        }\n        comparison: balance(includeChildren: $includeChildren, dateTo: $compareTo) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      balanceTimeseries: stats @include(if: $includeBalanceTimeseries) {\n        id\n        current: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n      spent: stats @include(if: $includeSpent) {\n        id\n        current: totalAmountSpent(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountSpent(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      received: stats @include(if: $includeReceived) {\n        id\n        current: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          net: true\n        ) @include(if: $includeReceived) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      receivedTimeseries: stats @include(if: $includeReceivedTimeseries) {\n        id\n        current: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n          net: true\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n          net: true\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n\n      contributionsCount: stats @include(if: $includeContributionsCount) {\n        id\n        current: contributionsCount(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo)\n        comparison: contributionsCount(includeChildren: $includeChildren, dateFrom: $compareFrom, dateTo: $compareTo)\n          @include(if: $includeComparison)\n      }\n    }\n    failedContributions: activities(\n      account: [{ slug: $slug }]\n      type: [ORDER_PAYMENT_FAILED, PAYMENT_FAILED]\n      includeHostedAccounts: $includeHostedAccounts\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      limit: 1000\n    ) @include(if: $includeRecoveryRate) {\n      totalCount\n      nodes {\n        id\n        order {\n          id\n          status\n        }\n      }\n    }\n  }\n  \n": types.OverviewMetricsDocument,
     "\n  query HostReportsPage(\n    $hostSlug: String!\n    $account: [AccountReferenceInput!]\n    $dateFrom: DateTime\n    $dateTo: DateTime\n  ) {\n    host(slug: $hostSlug) {\n      id\n      legacyId\n      slug\n      name\n      currency\n      isHost\n      isActive\n      type\n      createdAt\n      hostFeePercent\n      isTrustedHost\n      settings\n      stats {\n        id\n        balance(dateTo: $dateTo) {\n          valueInCents\n          currency\n        }\n      }\n      contributionStats(account: $account, dateFrom: $dateFrom, dateTo: $dateTo) {\n        contributionsCount\n        oneTimeContributionsCount\n        recurringContributionsCount\n        dailyAverageIncomeAmount {\n          valueInCents\n        }\n      }\n      expenseStats(account: $account, dateFrom: $dateFrom, dateTo: $dateTo) {\n        expensesCount\n        dailyAverageAmount {\n          valueInCents\n        }\n        invoicesCount\n        reimbursementsCount\n        grantsCount\n      }\n      hostMetrics(account: $account, dateFrom: $dateFrom, dateTo: $dateTo) {\n        hostFees {\n          valueInCents\n          currency\n        }\n        hostFeeShare {\n          valueInCents\n          currency\n        }\n        platformTips {\n          valueInCents\n          currency\n        }\n        pendingPlatformTips {\n          valueInCents\n          currency\n        }\n        totalMoneyManaged {\n          valueInCents\n          currency\n        }\n      }\n      hostMetricsTimeSeries(account: $account, dateFrom: $dateFrom, dateTo: $dateTo) {\n        timeUnit\n        totalReceived {\n          timeUnit\n          nodes {\n            date\n            kind\n            amount {\n              value\n            }\n          }\n        }\n        totalSpent {\n          timeUnit\n          nodes {\n            date\n            kind\n            amount {\n              value\n            }\n          }\n        }\n      }\n    }\n  }\n": types.HostReportsPageDocument,
     "\n  query HostReports(\n    $hostSlug: String!\n    $dateTo: DateTime\n    $dateFrom: DateTime\n    $timeUnit: TimeUnit\n    $includeGroups: Boolean!\n  ) {\n    host(slug: $hostSlug) {\n      id\n      currency\n      hostTransactionsReports(dateFrom: $dateFrom, dateTo: $dateTo, timeUnit: $timeUnit) {\n        timeUnit\n        nodes {\n          date\n          managedFunds {\n            startingBalance {\n              valueInCents\n              currency\n            }\n            endingBalance {\n              valueInCents\n              currency\n            }\n            totalChange {\n              valueInCents\n              currency\n            }\n            groups @include(if: $includeGroups) {\n              amount {\n                valueInCents\n                currency\n              }\n              netAmount {\n                valueInCents\n                currency\n              }\n              platformFee {\n                valueInCents\n                currency\n              }\n              paymentProcessorFee {\n                valueInCents\n                currency\n              }\n              hostFee {\n                valueInCents\n                currency\n              }\n              taxAmount {\n                valueInCents\n                currency\n              }\n              kind\n              isHost\n              type\n              expenseType\n              isRefund\n            }\n          }\n          operationalFunds {\n            startingBalance {\n              valueInCents\n              currency\n            }\n            endingBalance {\n              valueInCents\n              currency\n            }\n            totalChange {\n              valueInCents\n              currency\n            }\n            groups @include(if: $includeGroups) {\n              amount {\n                valueInCents\n                currency\n              }\n              netAmount {\n                valueInCents\n                currency\n              }\n              platformFee {\n                valueInCents\n                currency\n              }\n              paymentProcessorFee {\n                valueInCents\n                currency\n              }\n              hostFee {\n                valueInCents\n                currency\n              }\n              taxAmount {\n                valueInCents\n                currency\n              }\n              kind\n              isHost\n              type\n              expenseType\n              isRefund\n            }\n          }\n        }\n      }\n    }\n  }\n": types.HostReportsDocument,
     "\n  query AccountReports(\n    $accountSlug: String!\n    $dateTo: DateTime\n    $dateFrom: DateTime\n    $timeUnit: TimeUnit\n    $includeGroups: Boolean!\n  ) {\n    account(slug: $accountSlug) {\n      id\n      currency\n      transactionReports(dateFrom: $dateFrom, dateTo: $dateTo, timeUnit: $timeUnit) {\n        timeUnit\n        nodes {\n          date\n          startingBalance {\n            valueInCents\n            currency\n          }\n          endingBalance {\n            valueInCents\n            currency\n          }\n          totalChange {\n            valueInCents\n            currency\n          }\n          groups @include(if: $includeGroups) {\n            amount {\n              valueInCents\n              currency\n            }\n            netAmount {\n              valueInCents\n              currency\n            }\n            platformFee {\n              valueInCents\n              currency\n            }\n            paymentProcessorFee {\n              valueInCents\n              currency\n            }\n            hostFee {\n              valueInCents\n              currency\n            }\n            taxAmount {\n              valueInCents\n              currency\n            }\n            kind\n            isHost\n            type\n            expenseType\n            isRefund\n          }\n        }\n      }\n    }\n  }\n": types.AccountReportsDocument,
+    "\n  query ScheduledExports($slug: String!) {\n    account(slug: $slug) {\n      id\n      slug\n      settings\n    }\n  }\n": types.ScheduledExportsDocument,
+    "\n  mutation EditScheduledExports($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {\n    editAccountSetting(account: $account, key: $key, value: $value) {\n      id\n      settings\n    }\n  }\n": types.EditScheduledExportsDocument,
     "\n  mutation SubmitLegalDocument($account: AccountReferenceInput!, $type: LegalDocumentType!, $formData: JSON!) {\n    submitLegalDocument(account: $account, type: $type, formData: $formData) {\n      id\n      type\n      status\n      isExpired\n    }\n  }\n": types.SubmitLegalDocumentDocument,
     "\n  query AccountTaxInformation($id: String!) {\n    account(id: $id) {\n      id\n      slug\n      name\n      legalName\n      type\n      usTaxForms: legalDocuments(type: US_TAX_FORM) {\n        id\n        year\n        status\n        updatedAt\n        service\n        type\n        documentLink\n        isExpired\n      }\n      location {\n        address\n        country\n        structured\n      }\n    }\n  }\n": types.AccountTaxInformationDocument,
     "\n  query SuggestExpectedFunds(\n    $hostId: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n  ) {\n    account(id: $hostId) {\n      id\n      orders(\n        filter: INCOMING\n        includeIncognito: true\n        includeHostedAccounts: true\n        status: $status\n        frequency: $frequency\n        onlySubscriptions: $onlySubscriptions\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        offset\n        limit\n        nodes {\n          id\n          legacyId\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          platformTipAmount {\n            value\n            valueInCents\n          }\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          status\n          description\n          createdAt\n          processedAt\n          tier {\n            id\n            name\n          }\n          paymentMethod {\n            id\n            service\n            type\n          }\n          fromAccount {\n            id\n            name\n            legalName\n            slug\n            isIncognito\n            type\n            ...AccountHoverCardFields\n            ... on Individual {\n              isGuest\n            }\n          }\n          toAccount {\n            id\n            slug\n            name\n            legalName\n            type\n            imageUrl\n            ...AccountHoverCardFields\n          }\n          ...ConfirmContributionFields\n        }\n      }\n    }\n  }\n  \n  \n": types.SuggestExpectedFundsDocument,
     "\n      query HostTransactionsImportsSources($accountSlug: String!) {\n        host(slug: $accountSlug) {\n          id\n          transactionsImportsSources\n        }\n      }\n    ": types.HostTransactionsImportsSourcesDocument,
     "\n      mutation CreateTransactionsImport(\n        $account: AccountReferenceInput!\n        $type: TransactionsImportType!\n        $source: NonEmptyString!\n        $name: NonEmptyString!\n      ) {\n        createTransactionsImport(account: $account, source: $source, name: $name, type: $type) {\n          id\n          account {\n            id\n            ... on Host {\n              id\n              transactionsImportsSources\n            }\n            ... on Organization {\n              host {\n                id\n                transactionsImportsSources\n              }\n            }\n          }\n          ...TransactionImportListFields\n        }\n      }\n      \n    ": types.CreateTransactionsImportDocument,
-    "\n  mutation UploadTransactionsImport(\n    $importId: NonEmptyString!\n    $csvConfig: JSONObject\n    $data: [TransactionsImportRowCreateInput!]!\n    $file: Upload\n  ) {\n    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {\n      id\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n": types.UploadTransactionsImportDocument,
-    "\n  query TransactionsImport($importId: String!) {\n    transactionsImport(id: $importId) {\n      id\n      source\n      name\n      file {\n        id\n        url\n        name\n        type\n        size\n      }\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      type\n      csvConfig\n      createdAt\n      updatedAt\n      account {\n        id\n        name\n        legalName\n        imageUrl\n        legacyId\n        slug\n        currency\n        type\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n": types.TransactionsImportDocument,
-    "\n  query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {\n    host(slug: $accountSlug) {\n      id\n      transactionsImports(limit: $limit, offset: $offset) {\n        totalCount\n        limit\n        offset\n        nodes {\n          id\n          ...TransactionImportListFields\n        }\n      }\n    }\n  }\n  \n": types.HostTransactionImportsDocument,
+    "\n  query TransactionsImport($importId: String!) {\n    transactionsImport(id: $importId) {\n      id\n      source\n      name\n      file {\n        id\n        url\n        name\n        type\n        size\n      }\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      type\n      csvConfig\n      createdAt\n      updatedAt\n      account {\n        id\n        name\n        legalName\n        imageUrl\n        legacyId\n        slug\n        currency\n        type\n        settings\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n": types.TransactionsImportDocument,
+    "\n  query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {\n    host(slug: $accountSlug) {\n      id\n      slug\n      settings\n      transactionsImports(limit: $limit, offset: $offset) {\n        totalCount\n        limit\n        offset\n        nodes {\n          id\n          ...TransactionImportListFields\n        }\n      }\n    }\n  }\n  \n": types.HostTransactionImportsDocument,
     "\n  fragment TransactionImportListFields on TransactionsImport {\n    id\n    source\n    name\n    type\n    createdAt\n    updatedAt\n    stats {\n      total\n      ignored\n      expenses\n      orders\n      processed\n    }\n    account {\n      ... on Host {\n        id\n        transactionsImportsSources\n      }\n    }\n  }\n": types.TransactionImportListFieldsFragmentDoc,
     "\n  fragment TransactionsImportRowFields on TransactionsImportRow {\n    id\n    sourceId\n    isDismissed\n    description\n    date\n    rawValue\n    amount {\n      valueInCents\n      currency\n    }\n    expense {\n      id\n      legacyId\n      account {\n        id\n        slug\n        name\n        type\n        imageUrl(height: 48)\n      }\n    }\n    order {\n      id\n      legacyId\n      toAccount {\n        id\n        slug\n        name\n        type\n        imageUrl(height: 48)\n      }\n    }\n  }\n": types.TransactionsImportRowFieldsFragmentDoc,
     "\n  mutation UpdateTransactionsImportRow($importId: NonEmptyString!, $rows: [TransactionsImportRowUpdateInput!]!) {\n    updateTransactionsImportRows(id: $importId, rows: $rows) {\n      id\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          id\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n": types.UpdateTransactionsImportRowDocument,
+    "\n  mutation UploadTransactionsImport(\n    $importId: NonEmptyString!\n    $csvConfig: JSONObject\n    $data: [TransactionsImportRowCreateInput!]!\n    $file: Upload\n  ) {\n    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {\n      id\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n": types.UploadTransactionsImportDocument,
+    "\n  mutation EditTransactionsImportsSettings($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {\n    editAccountSetting(account: $account, key: $key, value: $value) {\n      id\n      settings\n    }\n  }\n": types.EditTransactionsImportsSettingsDocument,
+    "\n  query TransactionsImportRulesExpectedFunds($hostId: String!) {\n    account(id: $hostId) {\n      id\n      orders(\n        filter: INCOMING\n        includeIncognito: true\n        includeHostedAccounts: true\n        status: [PENDING]\n        expectedFundsFilter: ALL_EXPECTED_FUNDS\n        limit: 1000\n      ) {\n        totalCount\n        nodes {\n          id\n          legacyId\n          description\n          hostFeePercent\n          totalAmount {\n            valueInCents\n            currency\n          }\n          platformTipAmount {\n            valueInCents\n            currency\n          }\n          tax {\n            id\n          }\n          pendingContributionData {\n            expectedAt\n          }\n          fromAccount {\n            id\n            name\n          }\n          toAccount {\n            id\n            slug\n            name\n            ... on AccountWithHost {\n              bankTransfersHostFeePercent: hostFeePercent(paymentMethodType: MANUAL)\n            }\n          }\n        }\n      }\n    }\n  }\n": types.TransactionsImportRulesExpectedFundsDocument,
+    "\n  mutation TransactionsImportRuleProcessOrder($order: OrderUpdateInput!) {\n    processPendingOrder(order: $order, action: MARK_AS_PAID) {\n      id\n      status\n    }\n  }\n": types.TransactionsImportRuleProcessOrderDocument,
+    "\n  mutation TransactionsImportRuleCreateExpense(\n    $expense: ExpenseCreateInput!\n    $account: AccountReferenceInput!\n    $transactionsImportRow: TransactionsImportRowReferenceInput\n  ) {\n    createExpense(expense: $expense, account: $account, transactionsImportRow: $transactionsImportRow) {\n      id\n      legacyId\n    }\n  }\n": types.TransactionsImportRuleCreateExpenseDocument,
     "\n  query AccountTransactionsMetaData($slug: String!) {\n    transactions(account: { slug: $slug }, limit: 0) {\n      paymentMethodTypes\n      kinds\n    }\n    account(slug: $slug) {\n      id\n      name\n      legacyId\n      slug\n      currency\n      settings\n    }\n  }\n": types.AccountTransactionsMetaDataDocument,
     "\n  query HostTransactionsMetaData($slug: String!) {\n    transactions(host: { slug: $slug }, limit: 0) {\n      paymentMethodTypes\n      kinds\n    }\n    host(slug: $slug) {\n      id\n      name\n      legacyId\n      slug\n      currency\n      settings\n      accountingCategories {\n        nodes {\n          id\n          code\n          name\n          kind\n          appliesTo\n        }\n      }\n    }\n  }\n": types.HostTransactionsMetaDataDocument,
     "\n  query TransactionDetails($transaction: TransactionReferenceInput!) {\n    transaction(transaction: $transaction) {\n      id\n      legacyId\n      group\n      amount {\n        valueInCents\n        currency\n      }\n      paymentProcessorFee(fetchPaymentProcessorFee: true) {\n        valueInCents\n        currency\n      }\n      hostFee {\n        valueInCents\n        currency\n      }\n      netAmount {\n        valueInCents\n        currency\n      }\n      taxAmount(fetchTax: true) {\n        valueInCents\n        currency\n      }\n      oppositeTransaction {\n        id\n        legacyId\n      }\n      paymentMethod {\n        id\n        type\n        service\n      }\n      type\n      kind\n      description\n      createdAt\n      clearedAt\n      isRefunded\n      isRefund\n      isInReview\n      isDisputed\n      isOrderRejected\n      merchantId\n      account {\n        id\n        name\n        slug\n        isIncognito\n        description\n        type\n        ... on AccountWithHost {\n          host {\n            id\n            name\n            slug\n          }\n          approvedAt\n        }\n        ... on AccountWithParent {\n          parent {\n            id\n            name\n            slug\n          }\n        }\n        ...AccountHoverCardFields\n      }\n      fromAccount {\n        id\n        ... on AccountWithParent {\n          parent {\n            id\n          }\n        }\n      }\n      toAccount {\n        id\n        ... on AccountWithHost {\n          host {\n            id\n          }\n        }\n      }\n      oppositeAccount {\n        id\n        name\n        slug\n        imageUrl\n        type\n        ...AccountHoverCardFields\n      }\n\n      permissions {\n        id\n        canRefund\n        canDownloadInvoice\n        canReject\n      }\n      order {\n        id\n        legacyId\n        status\n        description\n        processedAt\n        createdAt\n        amount {\n          valueInCents\n          currency\n        }\n        toAccount {\n          id\n          slug\n        }\n        fromAccount {\n          id\n          slug\n        }\n        accountingCategory {\n          id\n          code\n          name\n          friendlyName\n        }\n      }\n      expense {\n        id\n        status\n        tags\n        type\n        feesPayer\n        amount\n        currency\n        description\n        legacyId\n        # limit: 1 as current best practice to avoid the API fetching entries it doesn't need\n        comments(limit: 1) {\n          totalCount\n        }\n        payoutMethod {\n          id\n          type\n        }\n        account {\n          id\n          slug\n        }\n        createdByAccount {\n          id\n          slug\n        }\n        permissions {\n          id\n        }\n        createdAt\n        payee {\n          id\n          slug\n          imageUrl\n        }\n        accountingCategory {\n          id\n          code\n          name\n          friendlyName\n        }\n        host {\n          id\n          slug\n        }\n      }\n      refundTransaction {\n        id\n        group\n        createdAt\n      }\n    }\n  }\n  \n": types.TransactionDetailsDocument,
@@ -160,6 +183,7 @@ const documents = {
     "\n  query VirtualCardPolicies($slug: String) {\n    account(slug: $slug) {\n      id\n      policies {\n        id\n        MAXIMUM_VIRTUAL_CARD_LIMIT_AMOUNT_FOR_INTERVAL {\n          ALL_TIME {\n            valueInCents\n          }\n          DAILY {\n            valueInCents\n          }\n          MONTHLY {\n            valueInCents\n          }\n          PER_AUTHORIZATION {\n            valueInCents\n          }\n          WEEKLY {\n            valueInCents\n          }\n          YEARLY {\n            valueInCents\n          }\n        }\n      }\n    }\n  }\n": types.VirtualCardPoliciesDocument,
     "\n  mutation LeaveHost($account: AccountReferenceInput!, $pauseContributions: Boolean!, $messageForContributors: String) {\n    removeHost(\n      account: $account\n      pauseContributions: $pauseContributions\n      messageForContributors: $messageForContributors\n    ) {\n      id\n      ... on AccountWithHost {\n        host {\n          id\n        }\n      }\n    }\n  }\n": types.LeaveHostDocument,
     "\n  query AccountInfoForLeaveHost($slug: String) {\n    account(slug: $slug, throwIfMissing: true) {\n      id\n      type\n      currency\n      name\n      stats {\n        activeRecurringContributionsBreakdown {\n          label\n          count\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n  }\n": types.AccountInfoForLeaveHostDocument,
+    "\n  query ApprovalWorkflowAccountingCategories($slug: String!) {\n    host(slug: $slug) {\n      id\n      accountingCategories(kind: EXPENSE) {\n        nodes {\n          id\n          code\n          name\n        }\n      }\n    }\n  }\n": types.ApprovalWorkflowAccountingCategoriesDocument,
     "\n  query ManagePaymentMethods($accountSlug: String!) {\n    account(slug: $accountSlug) {\n      id\n      legacyId\n      type\n      slug\n      name\n      currency\n      isHost\n      settings\n      paymentMethods(type: [CREDITCARD, US_BANK_ACCOUNT, SEPA_DEBIT, BACS_DEBIT, GIFTCARD, PREPAID]) {\n        id\n        ...PaymentMethodFields\n      }\n    }\n  }\n\n  fragment PaymentMethodFields on PaymentMethod {\n    id\n    legacyId\n    name\n    data\n    service\n    type\n    balance {\n      valueInCents\n      currency\n    }\n    expiryDate\n    monthlyLimit {\n      valueInCents\n    }\n    account {\n      id\n      slug\n      name\n    }\n    recurringContributions: orders(\n      onlyActiveSubscriptions: true\n      status: [ACTIVE, ERROR, PENDING, REQUIRE_CLIENT_CONFIRMATION]\n    ) {\n      totalCount\n      nodes {\n        id\n        legacyId\n        needsConfirmation\n      }\n    }\n  }\n": types.ManagePaymentMethodsDocument,
     "\n      mutation ConfirmOrder($order: OrderReferenceInput!) {\n        confirmOrder(order: $order) {\n          order {\n            id\n            status\n            transactions {\n              id\n            }\n            fromAccount {\n              id\n              slug\n            }\n          }\n          stripeError {\n            message\n            account\n            response\n          }\n        }\n      }\n    ": types.ConfirmOrderDocument,
     "\n      query ActiveFiscalHost($collectiveSlug: String!) {\n        account(slug: $collectiveSlug) {\n          id\n          legacyId\n          type\n          slug\n          name\n          currency\n          members {\n            nodes {\n              role\n              createdAt\n            }\n          }\n          ... on AccountWithHost {\n            approvedAt\n            host {\n              id\n              legacyId\n              slug\n              name\n              currency\n            }\n          }\n          ... on AccountWithParent {\n            parent {\n              id\n            }\n          }\n          events: childrenAccounts(accountType: EVENT) {\n            totalCount\n          }\n          projects: childrenAccounts(accountType: PROJECT) {\n            totalCount\n          }\n          stats {\n            consolidatedBalance: balance(includeChildren: true) {\n              valueInCents\n              currency\n            }\n          }\n        }\n      }\n    ": types.ActiveFiscalHostDocument,
@@ -173,17 +197,22 @@ const documents = {
     "\n  mutation ApplyToNewHost(\n    $collective: AccountReferenceInput!\n    $host: AccountReferenceInput!\n    $message: String\n    $inviteMembers: [InviteMemberInput]\n  ) {\n    applyToHost(collective: $collective, host: $host, message: $message, inviteMembers: $inviteMembers) {\n      id\n      slug\n      ... on AccountWithHost {\n        isActive\n        isApproved\n        host {\n          id\n          ...ApplyToHostFields\n        }\n      }\n    }\n  }\n  \n": types.ApplyToNewHostDocument,
     "\n  fragment MemberFields on Member {\n    id\n    role\n    since\n    createdAt\n    description\n    inherited\n    account {\n      id\n      name\n      slug\n      type\n      imageUrl(height: 64)\n      ... on Individual {\n        email\n      }\n    }\n  }\n": types.MemberFieldsFragmentDoc,
     "\n  query TeamSection($collectiveSlug: String!, $account: AccountReferenceInput!) {\n    account(slug: $collectiveSlug) {\n      id\n      legacyId\n      slug\n      isFrozen\n      type\n      imageUrl(height: 256)\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n          name\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          features {\n            id\n            CONTACT_FORM\n          }\n          policies {\n            id\n            COLLECTIVE_MINIMUM_ADMINS {\n              numberOfAdmins\n              applies\n              freeze\n            }\n          }\n        }\n      }\n      members(role: [ADMIN, MEMBER, ACCOUNTANT], limit: 100) {\n        nodes {\n          id\n          ...MemberFields\n        }\n      }\n      childrenAccounts {\n        nodes {\n          id\n          slug\n          type\n          name\n          members(includeInherited: false, role: [ADMIN, MEMBER, ACCOUNTANT], limit: 100) {\n            nodes {\n              id\n              ...MemberFields\n            }\n          }\n        }\n      }\n    }\n    memberInvitations(account: $account) {\n      id\n      role\n      since\n      createdAt\n      description\n      account: memberAccount {\n        id\n        name\n        slug\n        type\n        imageUrl(height: 64)\n        ... on Individual {\n          email\n        }\n      }\n    }\n  }\n  \n": types.TeamSectionDocument,
+    "\n  query ExpensesWithSameReceipts($payee: AccountReferenceInput!) {\n    expenses(fromAccount: $payee, limit: 100) {\n      nodes {\n        id\n        legacyId\n        description\n        account {\n          id\n          slug\n        }\n        items {\n          id\n          incurredAt\n          amountV2 {\n            valueInCents\n            currency\n          }\n          file {\n            id\n            name\n            size\n          }\n        }\n      }\n    }\n  }\n": types.ExpensesWithSameReceiptsDocument,
     "\n  mutation ResendDraftExpenseInvite($expense: ExpenseReferenceInput!) {\n    resendDraftExpenseInvite(expense: $expense) {\n      id\n    }\n  }\n": types.ResendDraftExpenseInviteDocument,
     "\n  query QuoteExpense($id: String!) {\n    expense(expense: { id: $id }) {\n      id\n      currency\n      reference\n      amountInHostCurrency: amountV2(currencySource: HOST) {\n        exchangeRate {\n          value\n          fromCurrency\n          toCurrency\n        }\n      }\n      host {\n        id\n        transferwise {\n          id\n          amountBatched {\n            valueInCents\n            currency\n          }\n          balances {\n            valueInCents\n            currency\n          }\n        }\n      }\n      quote {\n        paymentProcessorFeeAmount {\n          valueInCents\n          currency\n        }\n        sourceAmount {\n          valueInCents\n          currency\n        }\n        estimatedDeliveryAt\n      }\n    }\n  }\n": types.QuoteExpenseDocument,
     "\n  query ValidateTransferRequirements($id: String!, $details: JSON) {\n    expense(expense: { id: $id }) {\n      id\n      validateTransferRequirements(details: $details) {\n        type\n        fields {\n          name\n          group {\n            key\n            name\n            type\n            required\n            example\n            minLength\n            maxLength\n            validationRegexp\n            refreshRequirementsOnChange\n            valuesAllowed {\n              key\n              name\n            }\n          }\n        }\n      }\n    }\n  }\n": types.ValidateTransferRequirementsDocument,
     "\n  mutation RemovePayoutMethod($id: String!) {\n    removePayoutMethod(payoutMethodId: $id) {\n      id\n      isSaved\n    }\n  }\n": types.RemovePayoutMethodDocument,
+    "\n  fragment RelatedExpenseFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdAt\n    amountV2 {\n      valueInCents\n      currency\n    }\n    account {\n      id\n      slug\n      name\n    }\n    payee {\n      id\n      slug\n      name\n    }\n    items {\n      id\n      description\n      incurredAt\n      url\n      amountV2 {\n        valueInCents\n        currency\n      }\n      file {\n        id\n        name\n        size\n      }\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n      }\n    }\n  }\n": types.RelatedExpenseFieldsFragmentDoc,
+    "\n  query RelatedExpenses(\n    $expense: ExpenseReferenceInput\n    $hasExpense: Boolean!\n    $payee: AccountReferenceInput\n    $hasPayee: Boolean!\n    $host: AccountReferenceInput\n    $hasHost: Boolean!\n    $minAmount: Int\n    $maxAmount: Int\n    $limit: Int!\n  ) {\n    expense(expense: $expense) @include(if: $hasExpense) {\n      id\n      ...RelatedExpenseFields\n    }\n    payeeExpenses: expenses(fromAccount: $payee, limit: $limit) @include(if: $hasPayee) {\n      nodes {\n        id\n        ...RelatedExpenseFields\n      }\n    }\n    hostExpenses: expenses(host: $host, minAmount: $minAmount, maxAmount: $maxAmount, limit: $limit)\n      @include(if: $hasHost) {\n      nodes {\n        id\n        ...RelatedExpenseFields\n      }\n    }\n  }\n  \n": types.RelatedExpensesDocument,
     "\n  fragment LoggedInAccountExpensePayoutFields on Individual {\n    id\n    slug\n    imageUrl\n    type\n    name\n    legalName\n    hasTwoFactorAuth\n    location {\n      id\n      address\n      country\n      structured\n    }\n    payoutMethods {\n      id\n      type\n      name\n      data\n      isSaved\n    }\n    adminMemberships: memberOf(role: ADMIN, includeIncognito: false, accountType: [ORGANIZATION, COLLECTIVE, FUND]) {\n      nodes {\n        id\n        account {\n          id\n          slug\n          imageUrl\n          type\n          name\n          legalName\n          isActive\n          isHost\n          policies {\n            id\n            REQUIRE_2FA_FOR_ADMINS\n          }\n          ... on AccountWithParent {\n            parent {\n              id\n              policies {\n                id\n                REQUIRE_2FA_FOR_ADMINS\n              }\n            }\n          }\n          ... on AccountWithHost {\n            host {\n              id\n              payoutMethods {\n                id\n                type\n                name\n                data\n                isSaved\n              }\n            }\n          }\n          ... on Organization {\n            host {\n              id\n              payoutMethods {\n                id\n                type\n                name\n                data\n                isSaved\n              }\n            }\n          }\n          location {\n            id\n            address\n            country\n            structured\n          }\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n          childrenAccounts {\n            nodes {\n              id\n              slug\n              imageUrl\n              type\n              name\n              isActive\n            }\n          }\n        }\n      }\n    }\n  }\n": types.LoggedInAccountExpensePayoutFieldsFragmentDoc,
     "\n  fragment AccountingCategoryFields on AccountingCategory {\n    id\n    name\n    kind\n    instructions\n    friendlyName\n    code\n    expensesTypes\n    appliesTo\n  }\n": types.AccountingCategoryFieldsFragmentDoc,
     "\n  fragment ExpenseHostFields on Host {\n    id\n    legacyId\n    name\n    legalName\n    slug\n    type\n    currency\n    isHost\n    expensePolicy\n    website\n    settings\n    features {\n      id\n      MULTI_CURRENCY_EXPENSES\n      PAYPAL_PAYOUTS\n    }\n    paypalPreApproval {\n      id\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    location {\n      id\n      address\n      country\n    }\n    transferwise {\n      id\n      availableCurrencies\n    }\n    supportedPayoutMethods\n    isTrustedHost\n    plan {\n      id\n    }\n    expenseAccountingCategories: accountingCategories(kind: EXPENSE) {\n      nodes {\n        id\n        ...AccountingCategoryFields\n      }\n    }\n    policies {\n      id\n      EXPENSE_CATEGORIZATION {\n        requiredForExpenseSubmitters\n        requiredForCollectiveAdmins\n      }\n    }\n  }\n  \n": types.ExpenseHostFieldsFragmentDoc,
     "\n  fragment ExpenseValuesByRoleFragment on ExpenseValuesByRole {\n    id\n    submitter {\n      accountingCategory {\n        ...AccountingCategoryFields\n      }\n    }\n    accountAdmin {\n      accountingCategory {\n        ...AccountingCategoryFields\n      }\n    }\n    hostAdmin {\n      accountingCategory {\n        ...AccountingCategoryFields\n      }\n    }\n  }\n  \n": types.ExpenseValuesByRoleFragmentFragmentDoc,
-    "\n  fragment ExpensePageExpenseFields on Expense {\n    id\n    legacyId\n    description\n    longDescription\n    currency\n    type\n    status\n    onHold\n    privateMessage\n    reference\n    tags\n    amount\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    createdAt\n    invoiceInfo\n    merchantId\n    requiredLegalDocuments\n    receivedTaxForms: legalDocuments(type: US_TAX_FORM, status: RECEIVED) {\n      nodes {\n        id\n        type\n        documentLink\n        year\n      }\n    }\n    feesPayer\n    draft\n    items {\n      id\n      incurredAt\n      description\n      amount\n      amountV2 {\n        valueInCents\n        currency\n        exchangeRate {\n          date\n          value\n          source\n          fromCurrency\n          toCurrency\n        }\n      }\n      referenceExchangeRate {\n        value\n        fromCurrency\n        toCurrency\n      }\n      url\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n      idNumber\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    payee {\n      id\n      slug\n      name\n      legalName\n      imageUrl\n      type\n      isAdmin\n      isActive\n      description\n      ...AccountHoverCardFields\n      location {\n        id\n        address\n        country\n      }\n      payoutMethods {\n        id\n        type\n        name\n        data\n        isSaved\n      }\n\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          slug\n          # For Expenses across hosts\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    payeeLocation {\n      id\n      address\n      country\n      structured\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    host {\n      id\n      ...ExpenseHostFields\n    }\n    requestedByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    approvedBy {\n      id\n      type\n      slug\n      name\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    account {\n      id\n      legacyId\n      slug\n      name\n      type\n      imageUrl\n      backgroundImageUrl\n      isActive\n      description\n      settings\n      twitterHandle\n      currency\n      expensePolicy\n      supportedExpenseTypes\n      features {\n        id\n        ...NavbarFields\n        MULTI_CURRENCY_EXPENSES\n      }\n      location {\n        id\n        address\n        country\n      }\n\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          imageUrl\n          backgroundImageUrl\n          twitterHandle\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        hostAgreements {\n          totalCount\n        }\n        host {\n          id\n          slug\n          legacyId\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      # For Hosts with Budget capabilities\n\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      ... on Event {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ... on Project {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    virtualCard {\n      id\n      name\n      last4\n    }\n    permissions {\n      id\n      canEdit\n      canEditTags\n      canEditAccountingCategory\n      canDelete\n      canSeeInvoiceInfo\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canComment\n      canUnschedulePayment\n      canVerifyDraftExpense\n      canUsePrivateNote\n      canHold\n      canRelease\n      canDownloadTaxForm\n      canSeePayoutMethodPrivateDetails\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    activities {\n      id\n      type\n      createdAt\n      data\n      account {\n        id\n        slug\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n          }\n        }\n      }\n      individual {\n        id\n        type\n        slug\n        name\n        imageUrl\n        ...AccountHoverCardFields\n      }\n      transaction {\n        id\n        kind\n        type\n        amount {\n          valueInCents\n          currency\n        }\n        platformFee {\n          valueInCents\n          currency\n        }\n        hostFee {\n          valueInCents\n          currency\n        }\n        paymentProcessorFee {\n          valueInCents\n          currency\n        }\n        netAmount {\n          valueInCents\n          currency\n        }\n        taxAmount {\n          valueInCents\n          currency\n        }\n        taxInfo {\n          id\n          rate\n          type\n          percentage\n        }\n        fromAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        toAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        expense {\n          id\n          currency\n          amount\n          feesPayer\n        }\n        relatedTransactions(kind: PAYMENT_PROCESSOR_FEE) {\n          id\n          type\n          kind\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n    recurringExpense {\n      id\n      interval\n      endsAt\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n  }\n\n  \n  \n  \n  \n  \n": types.ExpensePageExpenseFieldsFragmentDoc,
-    "\n  fragment ExpensesListFieldsFragment on Expense {\n    id\n    legacyId\n    description\n    reference\n    status\n    createdAt\n    tags\n    amount\n    comments {\n      totalCount\n    }\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    currency\n    type\n    requiredLegalDocuments\n    feesPayer\n    account {\n      id\n      name\n      slug\n      createdAt\n      currency\n      type\n      imageUrl\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    permissions {\n      id\n      canDelete\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canSeeInvoiceInfo\n      canEditTags\n      canEditAccountingCategory\n      canUnschedulePayment\n      canHold\n      canRelease\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    payee {\n      id\n      type\n      slug\n      name\n      imageUrl\n      isAdmin\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    createdByAccount {\n      id\n      type\n      slug\n      name\n      ...AccountHoverCardFields\n    }\n  }\n  \n  \n  \n": types.ExpensesListFieldsFragmentFragmentDoc,
+    "\n  fragment ExpensePageExpenseFields on Expense {\n    id\n    legacyId\n    description\n    longDescription\n    currency\n    type\n    status\n    onHold\n    privateMessage\n    reference\n    tags\n    amount\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    createdAt\n    invoiceInfo\n    merchantId\n    requiredLegalDocuments\n    receivedTaxForms: legalDocuments(type: US_TAX_FORM, status: RECEIVED) {\n      nodes {\n        id\n        type\n        documentLink\n        year\n      }\n    }\n    feesPayer\n    draft\n    items {\n      id\n      incurredAt\n      description\n      amount\n      amountV2 {\n        valueInCents\n        currency\n        exchangeRate {\n          date\n          value\n          source\n          fromCurrency\n          toCurrency\n        }\n      }\n      referenceExchangeRate {\n        value\n        fromCurrency\n        toCurrency\n      }\n      url\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n      idNumber\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    payee {\n      id\n      slug\n      name\n      legalName\n      imageUrl\n      type\n      isAdmin\n      isActive\n      description\n      ...AccountHoverCardFields\n      location {\n        id\n        address\n        country\n      }\n      payoutMethods {\n        id\n        type\n        name\n        data\n        isSaved\n      }\n\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          slug\n          # For Expenses across hosts\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    payeeLocation {\n      id\n      address\n      country\n      structured\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      legacyId\n      ...AccountHoverCardFields\n    }\n    host {\n      id\n      ...ExpenseHostFields\n    }\n    requestedByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    approvedBy {\n      id\n      type\n      slug\n      name\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    account {\n      id\n      legacyId\n      slug\n      name\n      type\n      imageUrl\n      backgroundImageUrl\n      isActive\n      description\n      settings\n      twitterHandle\n      currency\n      expensePolicy\n      supportedExpenseTypes\n      features {\n        id\n        ...NavbarFields\n        MULTI_CURRENCY_EXPENSES\n      }\n      location {\n        id\n        address\n        country\n      }\n\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          imageUrl\n          backgroundImageUrl\n          twitterHandle\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        hostAgreements {\n          totalCount\n        }\n        host {\n          id\n          slug\n          legacyId\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      # For Hosts with Budget capabilities\n\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      ... on Event {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ... on Project {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    virtualCard {\n      id\n      name\n      last4\n    }\n    permissions {\n      id\n      canEdit\n      canEditTags\n      canEditAccountingCategory\n      canDelete\n      canSeeInvoiceInfo\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canComment\n      canUnschedulePayment\n      canVerifyDraftExpense\n      canUsePrivateNote\n      canHold\n      canRelease\n      canDownloadTaxForm\n      canSeePayoutMethodPrivateDetails\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    activities {\n      id\n      type\n      createdAt\n      data\n      account {\n        id\n        slug\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n          }\n        }\n      }\n      individual {\n        id\n        type\n        slug\n        name\n        imageUrl\n        ...AccountHoverCardFields\n      }\n      transaction {\n        id\n        kind\n        type\n        amount {\n          valueInCents\n          currency\n        }\n        platformFee {\n          valueInCents\n          currency\n        }\n        hostFee {\n          valueInCents\n          currency\n        }\n        paymentProcessorFee {\n          valueInCents\n          currency\n        }\n        netAmount {\n          valueInCents\n          currency\n        }\n        taxAmount {\n          valueInCents\n          currency\n        }\n        taxInfo {\n          id\n          rate\n          type\n          percentage\n        }\n        fromAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        toAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        expense {\n          id\n          currency\n          amount\n          feesPayer\n        }\n        relatedTransactions(kind: PAYMENT_PROCESSOR_FEE) {\n          id\n          type\n          kind\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n    recurringExpense {\n      id\n      interval\n      endsAt\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n  }\n\n  \n  \n  \n  \n  \n": types.ExpensePageExpenseFieldsFragmentDoc,
+    "\n  fragment ExpensesListFieldsFragment on Expense {\n    id\n    legacyId\n    description\n    reference\n    status\n    createdAt\n    tags\n    amount\n    comments {\n      totalCount\n    }\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    currency\n    type\n    requiredLegalDocuments\n    feesPayer\n    account {\n      id\n      name\n      slug\n      createdAt\n      currency\n      type\n      imageUrl\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    permissions {\n      id\n      canDelete\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canSeeInvoiceInfo\n      canEditTags\n      canEditAccountingCategory\n      canUnschedulePayment\n      canHold\n      canRelease\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    payee {\n      id\n      type\n      slug\n      name\n      imageUrl\n      isAdmin\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    createdByAccount {\n      id\n      type\n      slug\n      name\n      legacyId\n      ...AccountHoverCardFields\n    }\n  }\n  \n  \n  \n": types.ExpensesListFieldsFragmentFragmentDoc,
     "\n  fragment ExpensesListAdminFieldsFragment on Expense {\n    id\n    onHold\n    account {\n      id\n      ... on AccountWithHost {\n        hostAgreements {\n          totalCount\n        }\n      }\n    }\n    createdByAccount {\n      id\n      ... on Individual {\n        emails\n      }\n    }\n    payee {\n      id\n      ... on Individual {\n        emails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n    }\n    items {\n      id\n      description\n      incurredAt\n      url\n      amount\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n    lastComment: comments(limit: 1, orderBy: { field: CREATED_AT, direction: DESC }) {\n      nodes {\n        id\n        createdAt\n        fromAccount {\n          id\n          type\n          slug\n          name\n          imageUrl\n        }\n      }\n    }\n  }\n": types.ExpensesListAdminFieldsFragmentFragmentDoc,
+    "\n  fragment ApprovalWorkflowAccountFields on Account {\n    id\n    slug\n    name\n    type\n    ... on AccountWithParent {\n      parent {\n        id\n        slug\n      }\n    }\n  }\n": types.ApprovalWorkflowAccountFieldsFragmentDoc,
+    "\n  fragment ExpenseApprovalWorkflowFields on Expense {\n    id\n    legacyId\n    status\n    type\n    amountInHostCurrency: amountV2(currencySource: HOST) {\n      valueInCents\n      currency\n    }\n    accountingCategory {\n      id\n    }\n    account {\n      id\n      ...ApprovalWorkflowAccountFields\n    }\n    host {\n      id\n      currency\n      settings\n      ...ApprovalWorkflowAccountFields\n    }\n  }\n  \n": types.ExpenseApprovalWorkflowFieldsFragmentDoc,
     "\n  mutation EditExpense($expense: ExpenseUpdateInput!, $draftKey: String) {\n    editExpense(expense: $expense, draftKey: $draftKey) {\n      id\n      ...ExpensePageExpenseFields\n    }\n  }\n\n  \n": types.EditExpenseDocument,
     "\n  mutation EditExpenseCategory($expenseId: String!, $category: AccountingCategoryReferenceInput) {\n    editExpense(expense: { id: $expenseId, accountingCategory: $category }) {\n      id\n      valuesByRole {\n        id\n        ...ExpenseValuesByRoleFragment\n      }\n      accountingCategory {\n        id\n        ...AccountingCategoryFields\n      }\n    }\n  }\n  \n  \n": types.EditExpenseCategoryDocument,
     "\n  query ExpensePage(\n    $legacyExpenseId: Int!\n    $draftKey: String\n    $offset: Int\n    $totalPaidExpensesDateFrom: DateTime\n    $orderBy: ChronologicalOrderInput\n  ) {\n    expense(expense: { legacyId: $legacyExpenseId }, draftKey: $draftKey) {\n      id\n      ...ExpensePageExpenseFields\n      comments(limit: 100, offset: $offset, orderBy: $orderBy) {\n        totalCount\n        nodes {\n          id\n          ...CommentFields\n        }\n      }\n    }\n\n    # As it uses a dedicated variable this needs to be separated from the ExpensePageExpenseFields fragment\n    expensePayeeStats: expense(expense: { legacyId: $legacyExpenseId }) {\n      id\n      payee {\n        id\n        stats {\n          id\n          totalPaidExpenses(dateFrom: $totalPaidExpensesDateFrom) {\n            valueInCents\n            currency\n          }\n          totalPaidInvoices: totalPaidExpenses(expenseType: [INVOICE], dateFrom: $totalPaidExpensesDateFrom) {\n            valueInCents\n            currency\n          }\n          totalPaidReceipts: totalPaidExpenses(expenseType: [RECEIPT], dateFrom: $totalPaidExpensesDateFrom) {\n            valueInCents\n            currency\n          }\n          totalPaidGrants: totalPaidExpenses(expenseType: [GRANT], dateFrom: $totalPaidExpensesDateFrom) {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n\n    loggedInAccount {\n      id\n      ...LoggedInAccountExpensePayoutFields\n    }\n  }\n\n  \n  \n  \n": types.ExpensePageDocument,
@@ -191,7 +220,7 @@ const documents = {
     "\n  mutation EditOrderAccountingCategory($order: OrderReferenceInput!, $category: AccountingCategoryReferenceInput) {\n    updateOrderAccountingCategory(order: $order, accountingCategory: $category) {\n      id\n      accountingCategory {\n        id\n        name\n        code\n        friendlyName\n      }\n    }\n  }\n": types.EditOrderAccountingCategoryDocument,
     "\n  query PaymentMethodPicker($accountSlug: String!, $hostSlug: String!) {\n    account(slug: $accountSlug) {\n      id\n      name\n      paymentMethods(type: [CREDITCARD, US_BANK_ACCOUNT, SEPA_DEBIT, BACS_DEBIT, GIFTCARD, PREPAID, COLLECTIVE]) {\n        id\n        name\n        data\n        service\n        type\n        account {\n          id\n          name\n          slug\n        }\n        balance {\n          value\n          valueInCents\n          currency\n        }\n        limitedToHosts {\n          id\n        }\n        sourcePaymentMethod {\n          id\n          limitedToHosts {\n            id\n          }\n        }\n      }\n    }\n    host(slug: $hostSlug) {\n      id\n      paypalClientId\n      supportedPaymentMethods\n    }\n  }\n": types.PaymentMethodPickerDocument,
     "\n  fragment UpdatePaymentMethodFragment on PaymentMethod {\n    id\n    name\n    data\n    service\n    type\n    expiryDate\n    account {\n      id\n    }\n    balance {\n      value\n      valueInCents\n      currency\n    }\n  }\n": types.UpdatePaymentMethodFragmentFragmentDoc,
-    "\n  fragment ManagedOrderFields on Order {\n    id\n    legacyId\n    nextChargeDate\n    paymentMethod {\n      ...UpdatePaymentMethodFragment\n    }\n    amount {\n      value\n      valueInCents\n      currency\n    }\n    totalAmount {\n      value\n      valueInCents\n      currency\n    }\n    status\n    description\n    memo\n    createdAt\n    processedAt\n    hostFeePercent\n    frequency\n    tier {\n      id\n      name\n    }\n    tax {\n      id\n      type\n      rate\n      idNumber\n    }\n    permissions {\n      id\n      canResume\n      canMarkAsExpired\n      canMarkAsPaid\n      canEdit\n      canComment\n      canSeePrivateActivities\n      canSetTags\n      canUpdateAccountingCategory\n    }\n    totalDonations {\n      value\n      valueInCents\n      currency\n    }\n    fromAccount {\n      id\n      name\n      slug\n      isIncognito\n      type\n      ... on Individual {\n        isGuest\n      }\n      ...AccountHoverCardFields\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      description\n      tags\n      imageUrl\n      backgroundImageUrl(height: 256)\n      settings\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    platformTipAmount {\n      value\n      valueInCents\n    }\n    paymentProcessorFee {\n      valueInCents\n      currency\n    }\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    accountingCategory {\n      id\n      name\n      kind\n      code\n    }\n  }\n  \n  \n": types.ManagedOrderFieldsFragmentDoc,
+    "\n  fragment ManagedOrderFields on Order {\n    id\n    legacyId\n    nextChargeDate\n    paymentMethod {\n      ...UpdatePaymentMethodFragment\n    }\n    amount {\n      value\n      valueInCents\n      currency\n    }\n    totalAmount {\n      value\n      valueInCents\n      currency\n    }\n    status\n    description\n    memo\n    customData\n    createdAt\n    processedAt\n    hostFeePercent\n    frequency\n    tier {\n      id\n      name\n      customFields\n    }\n    tax {\n      id\n      type\n      rate\n      idNumber\n    }\n    permissions {\n      id\n      canResume\n      canMarkAsExpired\n      canMarkAsPaid\n      canEdit\n      canComment\n      canSeePrivateActivities\n      canSetTags\n      canUpdateAccountingCategory\n    }\n    totalDonations {\n      value\n      valueInCents\n      currency\n    }\n    fromAccount {\n      id\n      name\n      slug\n      isIncognito\n      type\n      ... on Individual {\n        isGuest\n      }\n      ...AccountHoverCardFields\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      description\n      tags\n      imageUrl\n      backgroundImageUrl(height: 256)\n      settings\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    platformTipAmount {\n      value\n      valueInCents\n    }\n    paymentProcessorFee {\n      valueInCents\n      currency\n    }\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    accountingCategory {\n      id\n      name\n      kind\n      code\n    }\n  }\n  \n  \n": types.ManagedOrderFieldsFragmentDoc,
     "\n  query RecurringContributions($slug: String!) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      features {\n        id\n        ...NavbarFields\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      orders(filter: OUTGOING, onlySubscriptions: true, includeIncognito: true) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n        }\n      }\n    }\n  }\n  \n  \n": types.RecurringContributionsDocument,
     "\n  mutation ClearCache($account: AccountReferenceInput!, $cacheTypes: [AccountCacheType!]) {\n    clearCacheForAccount(account: $account, type: $cacheTypes) {\n      id\n      slug\n      name\n    }\n  }\n": types.ClearCacheDocument,
     "\n      query CollectiveOption($slug: String!, $selectedSlug: String, $hasSelection: Boolean!) {\n        account(slug: $slug) {\n          id\n          slug\n          name\n          type\n          imageUrl\n          isIncognito\n\n          ... on AccountWithParent {\n            parent {\n              id\n              slug\n              name\n              type\n              imageUrl\n              isIncognito\n            }\n          }\n        }\n\n        selectedAccount: account(slug: $selectedSlug) @include(if: $hasSelection) {\n          id\n          slug\n          name\n          type\n          imageUrl\n          isIncognito\n\n          ... on AccountWithParent {\n            parent {\n              id\n              slug\n              name\n              type\n              imageUrl\n              isIncognito\n            }\n          }\n        }\n      }\n    ": types.CollectiveOptionDocument,
@@ -357,7 +386,7 @@ export function graphql(source: "\n  mutation ConfirmContribution($order: OrderU
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n      query ContributionDrawer($orderId: Int!) {\n        order(order: { legacyId: $orderId }) {\n          id\n          legacyId\n          nextChargeDate\n          amount {\n            value\n            valueInCents\n            currency\n          }\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          paymentMethod {\n            id\n            type\n          }\n          status\n          description\n          createdAt\n          processedAt\n          frequency\n          tier {\n            id\n            name\n            description\n          }\n          createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          individual: createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          fromAccount {\n            ...ContributionDrawerAccountFields\n            ... on AccountWithHost {\n              host {\n                id\n                slug\n              }\n            }\n          }\n          toAccount {\n            ...ContributionDrawerAccountFields\n          }\n          platformTipEligible\n          platformTipAmount {\n            value\n            valueInCents\n            currency\n          }\n          hostFeePercent\n          tags\n          tax {\n            type\n            idNumber\n            rate\n          }\n          accountingCategory {\n            id\n            name\n            friendlyName\n            code\n          }\n          activities {\n            nodes {\n              id\n              type\n              createdAt\n              fromAccount {\n                ...ContributionDrawerAccountFields\n              }\n              account {\n                ...ContributionDrawerAccountFields\n              }\n              host {\n                ...ContributionDrawerAccountFields\n              }\n              individual {\n                ...ContributionDrawerAccountFields\n              }\n              data\n              transaction {\n                ...ContributionDrawerTransactionFields\n              }\n            }\n          }\n          customData\n          memo\n          needsConfirmation\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          transactions {\n            ...ContributionDrawerTransactionFields\n          }\n          permissions {\n            id\n            canResume\n            canMarkAsExpired\n            canMarkAsPaid\n            canEdit\n            canComment\n            canSeePrivateActivities\n            canSetTags\n            canUpdateAccountingCategory\n          }\n        }\n      }\n\n      fragment ContributionDrawerAccountFields on Account {\n        id\n        name\n        slug\n        isIncognito\n        type\n        imageUrl\n        isHost\n        isArchived\n        ... on Individual {\n          isGuest\n        }\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            type\n            accountingCategories {\n              nodes {\n                id\n                code\n                name\n                friendlyName\n                kind\n                appliesTo\n              }\n            }\n          }\n          approvedAt\n        }\n\n        ... on AccountWithParent {\n          parent {\n            id\n            slug\n          }\n        }\n      }\n\n      fragment ContributionDrawerTransactionFields on Transaction {\n        id\n        legacyId\n        uuid\n        kind\n        amount {\n          currency\n          valueInCents\n        }\n        netAmount {\n          currency\n          valueInCents\n        }\n        group\n        type\n        description\n        createdAt\n        isRefunded\n        isRefund\n        isOrderRejected\n        account {\n          ...ContributionDrawerAccountFields\n        }\n        oppositeAccount {\n          ...ContributionDrawerAccountFields\n        }\n        expense {\n          id\n          type\n        }\n        permissions {\n          id\n          canRefund\n          canDownloadInvoice\n          canReject\n        }\n        paymentProcessorUrl\n      }\n    "): (typeof documents)["\n      query ContributionDrawer($orderId: Int!) {\n        order(order: { legacyId: $orderId }) {\n          id\n          legacyId\n          nextChargeDate\n          amount {\n            value\n            valueInCents\n            currency\n          }\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          paymentMethod {\n            id\n            type\n          }\n          status\n          description\n          createdAt\n          processedAt\n          frequency\n          tier {\n            id\n            name\n            description\n          }\n          createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          individual: createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          fromAccount {\n            ...ContributionDrawerAccountFields\n            ... on AccountWithHost {\n              host {\n                id\n                slug\n              }\n            }\n          }\n          toAccount {\n            ...ContributionDrawerAccountFields\n          }\n          platformTipEligible\n          platformTipAmount {\n            value\n            valueInCents\n            currency\n          }\n          hostFeePercent\n          tags\n          tax {\n            type\n            idNumber\n            rate\n          }\n          accountingCategory {\n            id\n            name\n            friendlyName\n            code\n          }\n          activities {\n            nodes {\n              id\n              type\n              createdAt\n              fromAccount {\n                ...ContributionDrawerAccountFields\n              }\n              account {\n                ...ContributionDrawerAccountFields\n              }\n              host {\n                ...ContributionDrawerAccountFields\n              }\n              individual {\n                ...ContributionDrawerAccountFields\n              }\n              data\n              transaction {\n                ...ContributionDrawerTransactionFields\n              }\n            }\n          }\n          customData\n          memo\n          needsConfirmation\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          transactions {\n            ...ContributionDrawerTransactionFields\n          }\n          permissions {\n            id\n            canResume\n            canMarkAsExpired\n            canMarkAsPaid\n            canEdit\n            canComment\n            canSeePrivateActivities\n            canSetTags\n            canUpdateAccountingCategory\n          }\n        }\n      }\n\n      fragment ContributionDrawerAccountFields on Account {\n        id\n        name\n        slug\n        isIncognito\n        type\n        imageUrl\n        isHost\n        isArchived\n        ... on Individual {\n          isGuest\n        }\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            type\n            accountingCategories {\n              nodes {\n                id\n                code\n                name\n                friendlyName\n                kind\n                appliesTo\n              }\n            }\n          }\n          approvedAt\n        }\n\n        ... on AccountWithParent {\n          parent {\n            id\n            slug\n          }\n        }\n      }\n\n      fragment ContributionDrawerTransactionFields on Transaction {\n        id\n        legacyId\n        uuid\n        kind\n        amount {\n          currency\n          valueInCents\n        }\n        netAmount {\n          currency\n          valueInCents\n        }\n        group\n        type\n        description\n        createdAt\n        isRefunded\n        isRefund\n        isOrderRejected\n        account {\n          ...ContributionDrawerAccountFields\n        }\n        oppositeAccount {\n          ...ContributionDrawerAccountFields\n        }\n        expense {\n          id\n          type\n        }\n        permissions {\n          id\n          canRefund\n          canDownloadInvoice\n          canReject\n        }\n        paymentProcessorUrl\n      }\n    "];
+export function graphql(source: "\n      query ContributionDrawer($orderId: Int!) {\n        order(order: { legacyId: $orderId }) {\n          id\n          legacyId\n          nextChargeDate\n          amount {\n            value\n            valueInCents\n            currency\n          }\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          paymentMethod {\n            id\n            type\n          }\n          status\n          description\n          createdAt\n          processedAt\n          frequency\n          tier {\n            id\n            name\n            description\n            customFields\n          }\n          createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          individual: createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          fromAccount {\n            ...ContributionDrawerAccountFields\n            ... on AccountWithHost {\n              host {\n                id\n                slug\n              }\n            }\n          }\n          toAccount {\n            ...ContributionDrawerAccountFields\n          }\n          platformTipEligible\n          platformTipAmount {\n            value\n            valueInCents\n            currency\n          }\n          hostFeePercent\n          tags\n          tax {\n            type\n            idNumber\n            rate\n          }\n          accountingCategory {\n            id\n            name\n            friendlyName\n            code\n          }\n          activities {\n            nodes {\n              id\n              type\n              createdAt\n              fromAccount {\n                ...ContributionDrawerAccountFields\n              }\n              account {\n                ...ContributionDrawerAccountFields\n              }\n              host {\n                ...ContributionDrawerAccountFields\n              }\n              individual {\n                ...ContributionDrawerAccountFields\n              }\n              data\n              transaction {\n                ...ContributionDrawerTransactionFields\n              }\n            }\n          }\n          customData\n          memo\n          needsConfirmation\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          transactions {\n            ...ContributionDrawerTransactionFields\n          }\n          permissions {\n            id\n            canResume\n            canMarkAsExpired\n            canMarkAsPaid\n            canEdit\n            canComment\n            canSeePrivateActivities\n            canSetTags\n            canUpdateAccountingCategory\n          }\n        }\n      }\n\n      fragment ContributionDrawerAccountFields on Account {\n        id\n        name\n        slug\n        isIncognito\n        type\n        imageUrl\n        isHost\n        isArchived\n        ... on Individual {\n          isGuest\n        }\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            type\n            accountingCategories {\n              nodes {\n                id\n                code\n                name\n                friendlyName\n                kind\n                appliesTo\n              }\n            }\n          }\n          approvedAt\n        }\n\n        ... on AccountWithParent {\n          parent {\n            id\n            slug\n          }\n        }\n      }\n\n      fragment ContributionDrawerTransactionFields on Transaction {\n        id\n        legacyId\n        uuid\n        kind\n        amount {\n          currency\n          valueInCents\n        }\n        netAmount {\n          currency\n          valueInCents\n        }\n        group\n        type\n        description\n        createdAt\n        isRefunded\n        isRefund\n        isOrderRejected\n        account {\n          ...ContributionDrawerAccountFields\n        }\n        oppositeAccount {\n          ...ContributionDrawerAccountFields\n        }\n        expense {\n          id\n          type\n        }\n        permissions {\n          id\n          canRefund\n          canDownloadInvoice\n          canReject\n        }\n        paymentProcessorUrl\n      }\n    "): (typeof documents)["\n      query ContributionDrawer($orderId: Int!) {\n        order(order: { legacyId: $orderId }) {\n          id\n          legacyId\n          nextChargeDate\n          amount {\n            value\n            valueInCents\n            currency\n          }\n          totalAmount {\n            value\n            valueInCents\n            currency\n          }\n          paymentMethod {\n            id\n            type\n          }\n          status\n          description\n          createdAt\n          processedAt\n          frequency\n          tier {\n            id\n            name\n            description\n            customFields\n          }\n          createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          individual: createdByAccount {\n            ...ContributionDrawerAccountFields\n          }\n          fromAccount {\n            ...ContributionDrawerAccountFields\n            ... on AccountWithHost {\n              host {\n                id\n                slug\n              }\n            }\n          }\n          toAccount {\n            ...ContributionDrawerAccountFields\n          }\n          platformTipEligible\n          platformTipAmount {\n            value\n            valueInCents\n            currency\n          }\n          hostFeePercent\n          tags\n          tax {\n            type\n            idNumber\n            rate\n          }\n          accountingCategory {\n            id\n            name\n            friendlyName\n            code\n          }\n          activities {\n            nodes {\n              id\n              type\n              createdAt\n              fromAccount {\n                ...ContributionDrawerAccountFields\n              }\n              account {\n                ...ContributionDrawerAccountFields\n              }\n              host {\n                ...ContributionDrawerAccountFields\n              }\n              individual {\n                ...ContributionDrawerAccountFields\n              }\n              data\n              transaction {\n                ...ContributionDrawerTransactionFields\n              }\n            }\n          }\n          customData\n          memo\n          needsConfirmation\n          pendingContributionData {\n            expectedAt\n            paymentMethod\n            ponumber\n            memo\n            fromAccountInfo {\n              name\n              email\n            }\n          }\n          transactions {\n            ...ContributionDrawerTransactionFields\n          }\n          permissions {\n            id\n            canResume\n            canMarkAsExpired\n            canMarkAsPaid\n            canEdit\n            canComment\n            canSeePrivateActivities\n            canSetTags\n            canUpdateAccountingCategory\n          }\n        }\n      }\n\n      fragment ContributionDrawerAccountFields on Account {\n        id\n        name\n        slug\n        isIncognito\n        type\n        imageUrl\n        isHost\n        isArchived\n        ... on Individual {\n          isGuest\n        }\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            type\n            accountingCategories {\n              nodes {\n                id\n                code\n                name\n                friendlyName\n                kind\n                appliesTo\n              }\n            }\n          }\n          approvedAt\n        }\n\n        ... on AccountWithParent {\n          parent {\n            id\n            slug\n          }\n        }\n      }\n\n      fragment ContributionDrawerTransactionFields on Transaction {\n        id\n        legacyId\n        uuid\n        kind\n        amount {\n          currency\n          valueInCents\n        }\n        netAmount {\n          currency\n          valueInCents\n        }\n        group\n        type\n        description\n        createdAt\n        isRefunded\n        isRefund\n        isOrderRejected\n        account {\n          ...ContributionDrawerAccountFields\n        }\n        oppositeAccount {\n          ...ContributionDrawerAccountFields\n        }\n        expense {\n          id\n          type\n        }\n        permissions {\n          id\n          canRefund\n          canDownloadInvoice\n          canReject\n        }\n        paymentProcessorUrl\n      }\n    "];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -573,11 +602,11 @@ export function graphql(source: "\n  query AllCollectives(\n    $limit: Int!\n
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  query DashboardContributionsMetadata(\n    $slug: String!\n    $filter: AccountOrdersFilter!\n    $onlyExpectedFunds: Boolean!\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeHostedAccounts: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      currency\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          imageUrl\n          type\n          hostFeePercent\n        }\n      }\n      ALL: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PENDING: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [PENDING]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      EXPIRED: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [EXPIRED]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      RECURRING: orders(\n        filter: $filter\n        onlyActiveSubscriptions: true\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAID: orders(\n        filter: $filter\n        includeIncognito: true\n        status: [PAID]\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      ONETIME: orders(\n        filter: $filter\n        frequency: ONETIME\n        status: [PAID, PROCESSING]\n        includeIncognito: true\n        minAmount: 1\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      CANCELED: orders(\n        filter: $filter\n        status: [CANCELLED]\n        includeIncognito: true\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PAUSED: orders(\n        filter: $filter\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAUSED_RESUMABLE: orders(\n        filter: INCOMING\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: false\n        includeChildrenAccounts: true\n        pausedBy: [COLLECTIVE, HOST, PLATFORM]\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      DISPUTED: orders(\n        filter: $filter\n        status: [DISPUTED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      IN_REVIEW: orders(\n        filter: $filter\n        status: [IN_REVIEW]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n    }\n  }\n"): (typeof documents)["\n  query DashboardContributionsMetadata(\n    $slug: String!\n    $filter: AccountOrdersFilter!\n    $onlyExpectedFunds: Boolean!\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeHostedAccounts: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      currency\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          imageUrl\n          type\n          hostFeePercent\n        }\n      }\n      ALL: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PENDING: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [PENDING]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      EXPIRED: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [EXPIRED]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      RECURRING: orders(\n        filter: $filter\n        onlyActiveSubscriptions: true\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAID: orders(\n        filter: $filter\n        includeIncognito: true\n        status: [PAID]\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      ONETIME: orders(\n        filter: $filter\n        frequency: ONETIME\n        status: [PAID, PROCESSING]\n        includeIncognito: true\n        minAmount: 1\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      CANCELED: orders(\n        filter: $filter\n        status: [CANCELLED]\n        includeIncognito: true\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PAUSED: orders(\n        filter: $filter\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAUSED_RESUMABLE: orders(\n        filter: INCOMING\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: false\n        includeChildrenAccounts: true\n        pausedBy: [COLLECTIVE, HOST, PLATFORM]\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      DISPUTED: orders(\n        filter: $filter\n        status: [DISPUTED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      IN_REVIEW: orders(\n        filter: $filter\n        status: [IN_REVIEW]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n    }\n  }\n"];
+export function graphql(source: "\n  query DashboardContributionsMetadata(\n    $slug: String!\n    $filter: AccountOrdersFilter!\n    $onlyExpectedFunds: Boolean!\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeHostedAccounts: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      currency\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          imageUrl\n          type\n          hostFeePercent\n        }\n      }\n      ALL: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PENDING: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [PENDING]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      EXPIRED: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [EXPIRED]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      RECURRING: orders(\n        filter: $filter\n        onlyActiveSubscriptions: true\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAID: orders(\n        filter: $filter\n        includeIncognito: true\n        status: [PAID]\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      ONETIME: orders(\n        filter: $filter\n        frequency: ONETIME\n        status: [PAID, PROCESSING]\n        includeIncognito: true\n        minAmount: 1\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      CANCELED: orders(\n        filter: $filter\n        status: [CANCELLED]\n        includeIncognito: true\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PAUSED: orders(\n        filter: $filter\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAUSED_RESUMABLE: orders(\n        filter: INCOMING\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: false\n        includeChildrenAccounts: true\n        pausedBy: [COLLECTIVE, HOST, PLATFORM]\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      FAILED: orders(\n        filter: $filter\n        status: [ERROR]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      DISPUTED: orders(\n        filter: $filter\n        status: [DISPUTED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      IN_REVIEW: orders(\n        filter: $filter\n        status: [IN_REVIEW]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n    }\n  }\n"): (typeof documents)["\n  query DashboardContributionsMetadata(\n    $slug: String!\n    $filter: AccountOrdersFilter!\n    $onlyExpectedFunds: Boolean!\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeHostedAccounts: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      legacyId\n      slug\n      name\n      type\n      settings\n      imageUrl\n      currency\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          imageUrl\n          type\n          hostFeePercent\n        }\n      }\n      ALL: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PENDING: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [PENDING]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      EXPIRED: orders(\n        filter: $filter\n        expectedFundsFilter: $expectedFundsFilter\n        status: [EXPIRED]\n        includeHostedAccounts: $includeHostedAccounts\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      RECURRING: orders(\n        filter: $filter\n        onlyActiveSubscriptions: true\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAID: orders(\n        filter: $filter\n        includeIncognito: true\n        status: [PAID]\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) @include(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      ONETIME: orders(\n        filter: $filter\n        frequency: ONETIME\n        status: [PAID, PROCESSING]\n        includeIncognito: true\n        minAmount: 1\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      CANCELED: orders(\n        filter: $filter\n        status: [CANCELLED]\n        includeIncognito: true\n        expectedFundsFilter: $expectedFundsFilter\n        includeHostedAccounts: $includeHostedAccounts\n      ) {\n        totalCount\n      }\n      PAUSED: orders(\n        filter: $filter\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      PAUSED_RESUMABLE: orders(\n        filter: INCOMING\n        status: [PAUSED]\n        includeIncognito: true\n        includeHostedAccounts: false\n        includeChildrenAccounts: true\n        pausedBy: [COLLECTIVE, HOST, PLATFORM]\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      FAILED: orders(\n        filter: $filter\n        status: [ERROR]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      DISPUTED: orders(\n        filter: $filter\n        status: [DISPUTED]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n      IN_REVIEW: orders(\n        filter: $filter\n        status: [IN_REVIEW]\n        includeIncognito: true\n        includeHostedAccounts: $includeHostedAccounts\n      ) @skip(if: $onlyExpectedFunds) {\n        totalCount\n      }\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  query DashboardRecurringContributions(\n    $slug: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $filter: AccountOrdersFilter!\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $includeIncognito: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $includeHostedAccounts: Boolean!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n  ) {\n    account(slug: $slug) {\n      id\n      orders(\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        filter: $filter\n        frequency: $frequency\n        status: $status\n        onlySubscriptions: $onlySubscriptions\n        includeIncognito: $includeIncognito\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query DashboardRecurringContributions(\n    $slug: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $filter: AccountOrdersFilter!\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $includeIncognito: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $includeHostedAccounts: Boolean!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n  ) {\n    account(slug: $slug) {\n      id\n      orders(\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        filter: $filter\n        frequency: $frequency\n        status: $status\n        onlySubscriptions: $onlySubscriptions\n        includeIncognito: $includeIncognito\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n        }\n      }\n    }\n  }\n  \n"];
+export function graphql(source: "\n  query DashboardRecurringContributions(\n    $slug: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $filter: AccountOrdersFilter!\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $includeIncognito: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $includeHostedAccounts: Boolean!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeFailures: Boolean!\n    $includeExpectedFundsInvoices: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      orders(\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        filter: $filter\n        frequency: $frequency\n        status: $status\n        onlySubscriptions: $onlySubscriptions\n        includeIncognito: $includeIncognito\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n          activities @include(if: $includeFailures) {\n            nodes {\n              id\n              type\n              createdAt\n              data\n            }\n          }\n          comments(limit: 100) @include(if: $includeExpectedFundsInvoices) {\n            nodes {\n              id\n              type\n              createdAt\n              html\n            }\n          }\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query DashboardRecurringContributions(\n    $slug: String!\n    $searchTerm: String\n    $offset: Int\n    $limit: Int\n    $filter: AccountOrdersFilter!\n    $frequency: ContributionFrequency\n    $status: [OrderStatus!]\n    $onlySubscriptions: Boolean\n    $includeIncognito: Boolean\n    $minAmount: Int\n    $maxAmount: Int\n    $paymentMethod: PaymentMethodReferenceInput\n    $includeHostedAccounts: Boolean!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $expectedDateFrom: DateTime\n    $expectedDateTo: DateTime\n    $expectedFundsFilter: ExpectedFundsFilter\n    $includeFailures: Boolean!\n    $includeExpectedFundsInvoices: Boolean!\n  ) {\n    account(slug: $slug) {\n      id\n      orders(\n        dateFrom: $dateFrom\n        dateTo: $dateTo\n        expectedDateFrom: $expectedDateFrom\n        expectedDateTo: $expectedDateTo\n        filter: $filter\n        frequency: $frequency\n        status: $status\n        onlySubscriptions: $onlySubscriptions\n        includeIncognito: $includeIncognito\n        minAmount: $minAmount\n        maxAmount: $maxAmount\n        searchTerm: $searchTerm\n        offset: $offset\n        limit: $limit\n        paymentMethod: $paymentMethod\n        includeHostedAccounts: $includeHostedAccounts\n        expectedFundsFilter: $expectedFundsFilter\n      ) {\n        totalCount\n        nodes {\n          id\n          ...ManagedOrderFields\n          activities @include(if: $includeFailures) {\n            nodes {\n              id\n              type\n              createdAt\n              data\n            }\n          }\n          comments(limit: 100) @include(if: $includeExpectedFundsInvoices) {\n            nodes {\n              id\n              type\n              createdAt\n              html\n            }\n          }\n        }\n      }\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -598,10 +627,42 @@ export function graphql(source: "\n  mutation CreatePendingContribution($order:
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  mutation EditPendingContribution($order: PendingOrderEditInput!) {\n    editPendingOrder(order: $order) {\n      legacyId\n      id\n      status\n      ...ConfirmContributionFields\n    }\n  }\n  \n"): (typeof documents)["\n  mutation EditPendingContribution($order: PendingOrderEditInput!) {\n    editPendingOrder(order: $order) {\n      legacyId\n      id\n      status\n      ...ConfirmContributionFields\n    }\n  }\n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ExpectedFundsInvoiceOrder($order: OrderReferenceInput!) {\n    order(order: $order) {\n      id\n      legacyId\n      status\n      description\n      amount {\n        valueInCents\n        currency\n      }\n      totalAmount {\n        valueInCents\n        currency\n      }\n      tier {\n        id\n        name\n      }\n      fromAccount {\n        id\n        slug\n        name\n      }\n      toAccount {\n        id\n        slug\n        name\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            name\n            legalName\n            settings\n            location {\n              id\n              address\n              country\n            }\n          }\n        }\n      }\n      pendingContributionData {\n        expectedAt\n        ponumber\n        fromAccountInfo {\n          name\n          email\n        }\n      }\n      comments(limit: 100) {\n        nodes {\n          id\n          type\n          createdAt\n          html\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query ExpectedFundsInvoiceOrder($order: OrderReferenceInput!) {\n    order(order: $order) {\n      id\n      legacyId\n      status\n      description\n      amount {\n        valueInCents\n        currency\n      }\n      totalAmount {\n        valueInCents\n        currency\n      }\n      tier {\n        id\n        name\n      }\n      fromAccount {\n        id\n        slug\n        name\n      }\n      toAccount {\n        id\n        slug\n        name\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n            name\n            legalName\n            settings\n            location {\n              id\n              address\n              country\n            }\n          }\n        }\n      }\n      pendingContributionData {\n        expectedAt\n        ponumber\n        fromAccountInfo {\n          name\n          email\n        }\n      }\n      comments(limit: 100) {\n        nodes {\n          id\n          type\n          createdAt\n          html\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SendExpectedFundsInvoice($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {\n    sendMessage(account: $account, message: $message, subject: $subject) {\n      success\n    }\n  }\n"): (typeof documents)["\n  mutation SendExpectedFundsInvoice($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {\n    sendMessage(account: $account, message: $message, subject: $subject) {\n      success\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation CreateExpectedFundsInvoiceNote($comment: CommentCreateInput!) {\n    createComment(comment: $comment) {\n      id\n    }\n  }\n"): (typeof documents)["\n  mutation CreateExpectedFundsInvoiceNote($comment: CommentCreateInput!) {\n    createComment(comment: $comment) {\n      id\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ImportExpectedFundsHost($slug: String!) {\n    host(slug: $slug) {\n      id\n      slug\n    }\n  }\n"): (typeof documents)["\n  query ImportExpectedFundsHost($slug: String!) {\n    host(slug: $slug) {\n      id\n      slug\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ImportExpectedFundsAccount($slug: String!) {\n    account(slug: $slug, throwIfMissing: false) {\n      id\n      slug\n      currency\n      ... on AccountWithHost {\n        host {\n          id\n        }\n      }\n      ... on AccountWithContributions {\n        tiers {\n          nodes {\n            id\n            slug\n            legacyId\n            name\n          }\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query ImportExpectedFundsAccount($slug: String!) {\n    account(slug: $slug, throwIfMissing: false) {\n      id\n      slug\n      currency\n      ... on AccountWithHost {\n        host {\n          id\n        }\n      }\n      ... on AccountWithContributions {\n        tiers {\n          nodes {\n            id\n            slug\n            legacyId\n            name\n          }\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ImportExpectedFunds($order: PendingOrderCreateInput!) {\n    createPendingOrder(order: $order) {\n      id\n      legacyId\n    }\n  }\n"): (typeof documents)["\n  mutation ImportExpectedFunds($order: PendingOrderCreateInput!) {\n    createPendingOrder(order: $order) {\n      id\n      legacyId\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  mutation StartResumeContributionsProcess($account: AccountReferenceInput!, $message: String) {\n    startResumeOrdersProcess(account: $account, message: $message) {\n      id\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n    }\n  }\n"): (typeof documents)["\n  mutation StartResumeContributionsProcess($account: AccountReferenceInput!, $message: String) {\n    startResumeOrdersProcess(account: $account, message: $message) {\n      id\n      ... on AccountWithContributions {\n        canStartResumeContributionsProcess\n        hasResumeContributionsProcessStarted\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query PaymentUpdateLinkOrder($order: OrderReferenceInput!) {\n    order(order: $order) {\n      id\n      legacyId\n      fromAccount {\n        id\n        slug\n        name\n      }\n      toAccount {\n        id\n        slug\n        name\n      }\n      paymentMethod {\n        id\n        legacyId\n        type\n      }\n    }\n  }\n"): (typeof documents)["\n  query PaymentUpdateLinkOrder($order: OrderReferenceInput!) {\n    order(order: $order) {\n      id\n      legacyId\n      fromAccount {\n        id\n        slug\n        name\n      }\n      toAccount {\n        id\n        slug\n        name\n      }\n      paymentMethod {\n        id\n        legacyId\n        type\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SendPaymentUpdateLink($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {\n    sendMessage(account: $account, message: $message, subject: $subject) {\n      success\n    }\n  }\n"): (typeof documents)["\n  mutation SendPaymentUpdateLink($account: AccountReferenceInput!, $message: NonEmptyString!, $subject: String) {\n    sendMessage(account: $account, message: $message, subject: $subject) {\n      success\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -618,6 +679,26 @@ export function graphql(source: "\n  mutation HostCreateExpense(\n    $expense:
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  query ExpensesScheduledForPayment($hostSlug: String!) {\n    expenses(host: { slug: $hostSlug }, status: SCHEDULED_FOR_PAYMENT, payoutMethodType: BANK_ACCOUNT) {\n      totalCount\n      nodes {\n        id\n      }\n    }\n  }\n"): (typeof documents)["\n  query ExpensesScheduledForPayment($hostSlug: String!) {\n    expenses(host: { slug: $hostSlug }, status: SCHEDULED_FOR_PAYMENT, payoutMethodType: BANK_ACCOUNT) {\n      totalCount\n      nodes {\n        id\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query PayoutBatchBuilder($hostSlug: String!, $limit: Int!) {\n    expenses(\n      host: { slug: $hostSlug }\n      status: READY_TO_PAY\n      limit: $limit\n      orderBy: { field: CREATED_AT, direction: ASC }\n    ) {\n      totalCount\n      nodes {\n        id\n        legacyId\n        description\n        amountV2 {\n          valueInCents\n          currency\n        }\n        feesPayer\n        payoutMethod {\n          id\n          type\n          data\n        }\n        payee {\n          id\n          slug\n          name\n          legalName\n        }\n        account {\n          id\n          slug\n          name\n        }\n        permissions {\n          id\n          canPay\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query PayoutBatchBuilder($hostSlug: String!, $limit: Int!) {\n    expenses(\n      host: { slug: $hostSlug }\n      status: READY_TO_PAY\n      limit: $limit\n      orderBy: { field: CREATED_AT, direction: ASC }\n    ) {\n      totalCount\n      nodes {\n        id\n        legacyId\n        description\n        amountV2 {\n          valueInCents\n          currency\n        }\n        feesPayer\n        payoutMethod {\n          id\n          type\n          data\n        }\n        payee {\n          id\n          slug\n          name\n          legalName\n        }\n        account {\n          id\n          slug\n          name\n        }\n        permissions {\n          id\n          canPay\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment RecurringExpenseLastExpenseFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdAt\n    amountV2 {\n      valueInCents\n      currency\n    }\n    permissions {\n      id\n      canEdit\n      canDelete\n    }\n  }\n"): (typeof documents)["\n  fragment RecurringExpenseLastExpenseFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdAt\n    amountV2 {\n      valueInCents\n      currency\n    }\n    permissions {\n      id\n      canEdit\n      canDelete\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment RecurringExpenseAccountFields on Account {\n    id\n    slug\n    name\n    type\n    imageUrl\n  }\n"): (typeof documents)["\n  fragment RecurringExpenseAccountFields on Account {\n    id\n    slug\n    name\n    type\n    imageUrl\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query RecurringExpenses(\n    $slug: String!\n    $fromAccount: AccountReferenceInput\n    $account: AccountReferenceInput\n    $host: AccountReferenceInput\n    $dateFrom: DateTime\n    $limit: Int!\n  ) {\n    account(slug: $slug) {\n      id\n      slug\n      name\n      type\n      isHost\n    }\n    expenses(\n      fromAccount: $fromAccount\n      account: $account\n      host: $host\n      dateFrom: $dateFrom\n      limit: $limit\n      orderBy: { field: CREATED_AT, direction: DESC }\n    ) {\n      totalCount\n      nodes {\n        id\n        ...RecurringExpenseLastExpenseFields\n        recurringExpense {\n          id\n          interval\n          endsAt\n          lastDraftedAt\n          account {\n            id\n            ...RecurringExpenseAccountFields\n          }\n          fromAccount {\n            id\n            ...RecurringExpenseAccountFields\n          }\n          lastExpenseCreated {\n            id\n            ...RecurringExpenseLastExpenseFields\n          }\n        }\n      }\n    }\n  }\n  \n  \n"): (typeof documents)["\n  query RecurringExpenses(\n    $slug: String!\n    $fromAccount: AccountReferenceInput\n    $account: AccountReferenceInput\n    $host: AccountReferenceInput\n    $dateFrom: DateTime\n    $limit: Int!\n  ) {\n    account(slug: $slug) {\n      id\n      slug\n      name\n      type\n      isHost\n    }\n    expenses(\n      fromAccount: $fromAccount\n      account: $account\n      host: $host\n      dateFrom: $dateFrom\n      limit: $limit\n      orderBy: { field: CREATED_AT, direction: DESC }\n    ) {\n      totalCount\n      nodes {\n        id\n        ...RecurringExpenseLastExpenseFields\n        recurringExpense {\n          id\n          interval\n          endsAt\n          lastDraftedAt\n          account {\n            id\n            ...RecurringExpenseAccountFields\n          }\n          fromAccount {\n            id\n            ...RecurringExpenseAccountFields\n          }\n          lastExpenseCreated {\n            id\n            ...RecurringExpenseLastExpenseFields\n          }\n        }\n      }\n    }\n  }\n  \n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation DeleteRecurringExpense($expense: ExpenseReferenceInput!) {\n    deleteExpense(expense: $expense) {\n      id\n    }\n  }\n"): (typeof documents)["\n  mutation DeleteRecurringExpense($expense: ExpenseReferenceInput!) {\n    deleteExpense(expense: $expense) {\n      id\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -637,7 +718,19 @@ export function graphql(source: "\n  query HostDashboardExpenses(\n    $hostSlug
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  fragment HostInfoCardFields on Host {\n    id\n    legacyId\n    slug\n    currency\n    location {\n      id\n      address\n      country\n    }\n    paypalPreApproval {\n      id\n      name\n      expiryDate\n      createdAt\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    transferwise {\n      id\n      balances {\n        valueInCents\n        currency\n      }\n    }\n    stripe {\n      issuingBalance {\n        valueInCents\n        currency\n      }\n    }\n    stats {\n      id\n      balance {\n        valueInCents\n      }\n    }\n  }\n"): (typeof documents)["\n  fragment HostInfoCardFields on Host {\n    id\n    legacyId\n    slug\n    currency\n    location {\n      id\n      address\n      country\n    }\n    paypalPreApproval {\n      id\n      name\n      expiryDate\n      createdAt\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    transferwise {\n      id\n      balances {\n        valueInCents\n        currency\n      }\n    }\n    stripe {\n      issuingBalance {\n        valueInCents\n        currency\n      }\n    }\n    stats {\n      id\n      balance {\n        valueInCents\n      }\n    }\n  }\n"];
+export function graphql(source: "\n  fragment ExpenseBulkActionFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdByAccount {\n      id\n      legacyId\n    }\n    permissions {\n      id\n      canReject\n      canUnapprove\n      canHold\n      canRelease\n      canMarkAsSpam\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n  }\n"): (typeof documents)["\n  fragment ExpenseBulkActionFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdByAccount {\n      id\n      legacyId\n    }\n    permissions {\n      id\n      canReject\n      canUnapprove\n      canHold\n      canRelease\n      canMarkAsSpam\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query AccountExpensesBulkSelection(\n    $account: AccountReferenceInput\n    $fromAccount: AccountReferenceInput\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $createdByAccount: AccountReferenceInput\n    $includeChildrenExpenses: Boolean\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      account: $account\n      fromAccount: $fromAccount\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      createdByAccount: $createdByAccount\n      includeChildrenExpenses: $includeChildrenExpenses\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseBulkActionFields\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query AccountExpensesBulkSelection(\n    $account: AccountReferenceInput\n    $fromAccount: AccountReferenceInput\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $createdByAccount: AccountReferenceInput\n    $includeChildrenExpenses: Boolean\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      account: $account\n      fromAccount: $fromAccount\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      createdByAccount: $createdByAccount\n      includeChildrenExpenses: $includeChildrenExpenses\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseBulkActionFields\n      }\n    }\n  }\n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query HostDashboardExpensesBulkSelection(\n    $hostSlug: String!\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $account: AccountReferenceInput\n    $lastCommentBy: [LastCommentBy]\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      host: { slug: $hostSlug }\n      account: $account\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      lastCommentBy: $lastCommentBy\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseBulkActionFields\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query HostDashboardExpensesBulkSelection(\n    $hostSlug: String!\n    $limit: Int!\n    $offset: Int!\n    $type: ExpenseType\n    $tags: [String]\n    $status: [ExpenseStatusFilter]\n    $minAmount: Int\n    $maxAmount: Int\n    $payoutMethodType: PayoutMethodType\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $searchTerm: String\n    $sort: ChronologicalOrderInput\n    $chargeHasReceipts: Boolean\n    $virtualCards: [VirtualCardReferenceInput]\n    $account: AccountReferenceInput\n    $lastCommentBy: [LastCommentBy]\n    $accountingCategory: [String]\n  ) {\n    expenses(\n      host: { slug: $hostSlug }\n      account: $account\n      limit: $limit\n      offset: $offset\n      type: $type\n      tag: $tags\n      status: $status\n      minAmount: $minAmount\n      maxAmount: $maxAmount\n      payoutMethodType: $payoutMethodType\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      searchTerm: $searchTerm\n      orderBy: $sort\n      chargeHasReceipts: $chargeHasReceipts\n      virtualCards: $virtualCards\n      lastCommentBy: $lastCommentBy\n      accountingCategory: $accountingCategory\n    ) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseBulkActionFields\n      }\n    }\n  }\n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment HostInfoCardFields on Host {\n    id\n    legacyId\n    slug\n    name\n    currency\n    location {\n      id\n      address\n      country\n    }\n    paypalPreApproval {\n      id\n      name\n      expiryDate\n      createdAt\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    transferwise {\n      id\n      balances {\n        valueInCents\n        currency\n      }\n    }\n    stripe {\n      issuingBalance {\n        valueInCents\n        currency\n      }\n    }\n    stats {\n      id\n      balance {\n        valueInCents\n      }\n    }\n  }\n"): (typeof documents)["\n  fragment HostInfoCardFields on Host {\n    id\n    legacyId\n    slug\n    name\n    currency\n    location {\n      id\n      address\n      country\n    }\n    paypalPreApproval {\n      id\n      name\n      expiryDate\n      createdAt\n      balance {\n        currency\n        valueInCents\n      }\n    }\n    transferwise {\n      id\n      balances {\n        valueInCents\n        currency\n      }\n    }\n    stripe {\n      issuingBalance {\n        valueInCents\n        currency\n      }\n    }\n    stats {\n      id\n      balance {\n        valueInCents\n      }\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -666,6 +759,10 @@ export function graphql(source: "\n  query LegalDocumentDrawer($hostId: String!,
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  mutation UploadTaxForm($id: String!, $host: AccountReferenceInput!, $file: Upload!) {\n    editLegalDocumentStatus(id: $id, status: RECEIVED, host: $host, file: $file) {\n      id\n      status\n      documentLink\n      year\n      isExpired\n    }\n  }\n"): (typeof documents)["\n  mutation UploadTaxForm($id: String!, $host: AccountReferenceInput!, $file: Upload!) {\n    editLegalDocumentStatus(id: $id, status: RECEIVED, host: $host, file: $file) {\n      id\n      status\n      documentLink\n      year\n      isExpired\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ExpensesAwaitingApproval($account: AccountReferenceInput, $host: AccountReferenceInput) {\n    expenses(account: $account, host: $host, status: PENDING, includeChildrenExpenses: true, limit: 100) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseApprovalWorkflowFields\n        permissions {\n          id\n          approve {\n            allowed\n          }\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query ExpensesAwaitingApproval($account: AccountReferenceInput, $host: AccountReferenceInput) {\n    expenses(account: $account, host: $host, status: PENDING, includeChildrenExpenses: true, limit: 100) {\n      totalCount\n      nodes {\n        id\n        ...ExpenseApprovalWorkflowFields\n        permissions {\n          id\n          approve {\n            allowed\n          }\n        }\n      }\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -681,7 +778,7 @@ export function graphql(source: "\n  query MetricsPerAccount(\n    $slug: String
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  query OverviewMetrics(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeChildren: Boolean\n    $includeBalance: Boolean!\n    $includeBalanceTimeseries: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeReceivedTimeseries: Boolean!\n    $includeContributionsCount: Boolean!\n    $timeUnit: TimeUnit\n  ) {\n    account(slug: $slug) {\n      id\n      isActive\n      ...AccountHoverCardFields\n      balance: stats @include(if: $includeBalance) {\n        id\n        current: balance(includeChildren: $includeChildren, dateTo: $dateTo) {\n          currency\n          valueInCents\n        }\n        comparison: balance(includeChildren: $includeChildren, dateTo: $compareTo) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      balanceTimeseries: stats @include(if: $includeBalanceTimeseries) {\n        id\n        current: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n      spent: stats @include(if: $includeSpent) {\n        id\n        current: totalAmountSpent(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountSpent(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      received: stats @include(if: $includeReceived) {\n        id\n        current: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          net: true\n        ) @include(if: $includeReceived) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      receivedTimeseries: stats @include(if: $includeReceivedTimeseries) {\n        id\n        current: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n          net: true\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n          net: true\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n\n      contributionsCount: stats @include(if: $includeContributionsCount) {\n        id\n        current: contributionsCount(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo)\n        comparison: contributionsCount(includeChildren: $includeChildren, dateFrom: $compareFrom, dateTo: $compareTo)\n          @include(if: $includeComparison)\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query OverviewMetrics(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeChildren: Boolean\n    $includeBalance: Boolean!\n    $includeBalanceTimeseries: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeReceivedTimeseries: Boolean!\n    $includeContributionsCount: Boolean!\n    $timeUnit: TimeUnit\n  ) {\n    account(slug: $slug) {\n      id\n      isActive\n      ...AccountHoverCardFields\n      balance: stats @include(if: $includeBalance) {\n        id\n        current: balance(includeChildren: $includeChildren, dateTo: $dateTo) {\n          currency\n          valueInCents\n        }\n        comparison: balance(includeChildren: $includeChildren, dateTo: $compareTo) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      balanceTimeseries: stats @include(if: $includeBalanceTimeseries) {\n        id\n        current: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n      spent: stats @include(if: $includeSpent) {\n        id\n        current: totalAmountSpent(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountSpent(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      received: stats @include(if: $includeReceived) {\n        id\n        current: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          net: true\n        ) @include(if: $includeReceived) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      receivedTimeseries: stats @include(if: $includeReceivedTimeseries) {\n        id\n        current: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n          net: true\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n          net: true\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n\n      contributionsCount: stats @include(if: $includeContributionsCount) {\n        id\n        current: contributionsCount(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo)\n        comparison: contributionsCount(includeChildren: $includeChildren, dateFrom: $compareFrom, dateTo: $compareTo)\n          @include(if: $includeComparison)\n      }\n    }\n  }\n  \n"];
+export function graphql(source: "\n  query OverviewMetrics(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeChildren: Boolean\n    $includeBalance: Boolean!\n    $includeBalanceTimeseries: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeReceivedTimeseries: Boolean!\n    $includeContributionsCount: Boolean!\n    $includeRecoveryRate: Boolean!\n    $includeHostedAccounts: Boolean!\n    $timeUnit: TimeUnit\n  ) {\n    account(slug: $slug) {\n      id\n      isActive\n      ...AccountHoverCardFields\n      balance: stats @include(if: $includeBalance) {\n        id\n        current: balance(includeChildren: $includeChildren, dateTo: $dateTo) {\n          currency\n          valueInCents\n        }\n        comparison: balance(includeChildren: $includeChildren, dateTo: $compareTo) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      balanceTimeseries: stats @include(if: $includeBalanceTimeseries) {\n        id\n        current: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n      spent: stats @include(if: $includeSpent) {\n        id\n        current: totalAmountSpent(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountSpent(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      received: stats @include(if: $includeReceived) {\n        id\n        current: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          net: true\n        ) @include(if: $includeReceived) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      receivedTimeseries: stats @include(if: $includeReceivedTimeseries) {\n        id\n        current: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n          net: true\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n          net: true\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n\n      contributionsCount: stats @include(if: $includeContributionsCount) {\n        id\n        current: contributionsCount(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo)\n        comparison: contributionsCount(includeChildren: $includeChildren, dateFrom: $compareFrom, dateTo: $compareTo)\n          @include(if: $includeComparison)\n      }\n    }\n    failedContributions: activities(\n      account: [{ slug: $slug }]\n      type: [ORDER_PAYMENT_FAILED, PAYMENT_FAILED]\n      includeHostedAccounts: $includeHostedAccounts\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      limit: 1000\n    ) @include(if: $includeRecoveryRate) {\n      totalCount\n      nodes {\n        id\n        order {\n          id\n          status\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query OverviewMetrics(\n    $slug: String!\n    $dateFrom: DateTime\n    $dateTo: DateTime\n    $compareFrom: DateTime\n    $compareTo: DateTime\n    $includeComparison: Boolean!\n    $includeChildren: Boolean\n    $includeBalance: Boolean!\n    $includeBalanceTimeseries: Boolean!\n    $includeSpent: Boolean!\n    $includeReceived: Boolean!\n    $includeReceivedTimeseries: Boolean!\n    $includeContributionsCount: Boolean!\n    $includeRecoveryRate: Boolean!\n    $includeHostedAccounts: Boolean!\n    $timeUnit: TimeUnit\n  ) {\n    account(slug: $slug) {\n      id\n      isActive\n      ...AccountHoverCardFields\n      balance: stats @include(if: $includeBalance) {\n        id\n        current: balance(includeChildren: $includeChildren, dateTo: $dateTo) {\n          currency\n          valueInCents\n        }\n        comparison: balance(includeChildren: $includeChildren, dateTo: $compareTo) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      balanceTimeseries: stats @include(if: $includeBalanceTimeseries) {\n        id\n        current: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: balanceTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n      spent: stats @include(if: $includeSpent) {\n        id\n        current: totalAmountSpent(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo, net: true) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountSpent(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      received: stats @include(if: $includeReceived) {\n        id\n        current: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          net: true\n        ) @include(if: $includeReceived) {\n          currency\n          valueInCents\n        }\n        comparison: totalAmountReceived(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          net: true\n        ) @include(if: $includeComparison) {\n          currency\n          valueInCents\n        }\n      }\n      receivedTimeseries: stats @include(if: $includeReceivedTimeseries) {\n        id\n        current: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $dateFrom\n          dateTo: $dateTo\n          timeUnit: $timeUnit\n          net: true\n        ) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n        comparison: totalAmountReceivedTimeSeries(\n          includeChildren: $includeChildren\n          dateFrom: $compareFrom\n          dateTo: $compareTo\n          timeUnit: $timeUnit\n          net: true\n        ) @include(if: $includeComparison) {\n          dateTo\n          dateFrom\n          timeUnit\n          nodes {\n            date\n            amount {\n              currency\n              value\n            }\n          }\n        }\n      }\n\n      contributionsCount: stats @include(if: $includeContributionsCount) {\n        id\n        current: contributionsCount(includeChildren: $includeChildren, dateFrom: $dateFrom, dateTo: $dateTo)\n        comparison: contributionsCount(includeChildren: $includeChildren, dateFrom: $compareFrom, dateTo: $compareTo)\n          @include(if: $includeComparison)\n      }\n    }\n    failedContributions: activities(\n      account: [{ slug: $slug }]\n      type: [ORDER_PAYMENT_FAILED, PAYMENT_FAILED]\n      includeHostedAccounts: $includeHostedAccounts\n      dateFrom: $dateFrom\n      dateTo: $dateTo\n      limit: 1000\n    ) @include(if: $includeRecoveryRate) {\n      totalCount\n      nodes {\n        id\n        order {\n          id\n          status\n        }\n      }\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -694,6 +791,14 @@ export function graphql(source: "\n  query HostReports(\n    $hostSlug: String!\
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  query AccountReports(\n    $accountSlug: String!\n    $dateTo: DateTime\n    $dateFrom: DateTime\n    $timeUnit: TimeUnit\n    $includeGroups: Boolean!\n  ) {\n    account(slug: $accountSlug) {\n      id\n      currency\n      transactionReports(dateFrom: $dateFrom, dateTo: $dateTo, timeUnit: $timeUnit) {\n        timeUnit\n        nodes {\n          date\n          startingBalance {\n            valueInCents\n            currency\n          }\n          endingBalance {\n            valueInCents\n            currency\n          }\n          totalChange {\n            valueInCents\n            currency\n          }\n          groups @include(if: $includeGroups) {\n            amount {\n              valueInCents\n              currency\n            }\n            netAmount {\n              valueInCents\n              currency\n            }\n            platformFee {\n              valueInCents\n              currency\n            }\n            paymentProcessorFee {\n              valueInCents\n              currency\n            }\n            hostFee {\n              valueInCents\n              currency\n            }\n            taxAmount {\n              valueInCents\n              currency\n            }\n            kind\n            isHost\n            type\n            expenseType\n            isRefund\n          }\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query AccountReports(\n    $accountSlug: String!\n    $dateTo: DateTime\n    $dateFrom: DateTime\n    $timeUnit: TimeUnit\n    $includeGroups: Boolean!\n  ) {\n    account(slug: $accountSlug) {\n      id\n      currency\n      transactionReports(dateFrom: $dateFrom, dateTo: $dateTo, timeUnit: $timeUnit) {\n        timeUnit\n        nodes {\n          date\n          startingBalance {\n            valueInCents\n            currency\n          }\n          endingBalance {\n            valueInCents\n            currency\n          }\n          totalChange {\n            valueInCents\n            currency\n          }\n          groups @include(if: $includeGroups) {\n            amount {\n              valueInCents\n              currency\n            }\n            netAmount {\n              valueInCents\n              currency\n            }\n            platformFee {\n              valueInCents\n              currency\n            }\n            paymentProcessorFee {\n              valueInCents\n              currency\n            }\n            hostFee {\n              valueInCents\n              currency\n            }\n            taxAmount {\n              valueInCents\n              currency\n            }\n            kind\n            isHost\n            type\n            expenseType\n            isRefund\n          }\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ScheduledExports($slug: String!) {\n    account(slug: $slug) {\n      id\n      slug\n      settings\n    }\n  }\n"): (typeof documents)["\n  query ScheduledExports($slug: String!) {\n    account(slug: $slug) {\n      id\n      slug\n      settings\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation EditScheduledExports($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {\n    editAccountSetting(account: $account, key: $key, value: $value) {\n      id\n      settings\n    }\n  }\n"): (typeof documents)["\n  mutation EditScheduledExports($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {\n    editAccountSetting(account: $account, key: $key, value: $value) {\n      id\n      settings\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -717,15 +822,11 @@ export function graphql(source: "\n      mutation CreateTransactionsImport(\n
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  mutation UploadTransactionsImport(\n    $importId: NonEmptyString!\n    $csvConfig: JSONObject\n    $data: [TransactionsImportRowCreateInput!]!\n    $file: Upload\n  ) {\n    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {\n      id\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  mutation UploadTransactionsImport(\n    $importId: NonEmptyString!\n    $csvConfig: JSONObject\n    $data: [TransactionsImportRowCreateInput!]!\n    $file: Upload\n  ) {\n    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {\n      id\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"];
-/**
- * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
- */
-export function graphql(source: "\n  query TransactionsImport($importId: String!) {\n    transactionsImport(id: $importId) {\n      id\n      source\n      name\n      file {\n        id\n        url\n        name\n        type\n        size\n      }\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      type\n      csvConfig\n      createdAt\n      updatedAt\n      account {\n        id\n        name\n        legalName\n        imageUrl\n        legacyId\n        slug\n        currency\n        type\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query TransactionsImport($importId: String!) {\n    transactionsImport(id: $importId) {\n      id\n      source\n      name\n      file {\n        id\n        url\n        name\n        type\n        size\n      }\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      type\n      csvConfig\n      createdAt\n      updatedAt\n      account {\n        id\n        name\n        legalName\n        imageUrl\n        legacyId\n        slug\n        currency\n        type\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"];
+export function graphql(source: "\n  query TransactionsImport($importId: String!) {\n    transactionsImport(id: $importId) {\n      id\n      source\n      name\n      file {\n        id\n        url\n        name\n        type\n        size\n      }\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      type\n      csvConfig\n      createdAt\n      updatedAt\n      account {\n        id\n        name\n        legalName\n        imageUrl\n        legacyId\n        slug\n        currency\n        type\n        settings\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query TransactionsImport($importId: String!) {\n    transactionsImport(id: $importId) {\n      id\n      source\n      name\n      file {\n        id\n        url\n        name\n        type\n        size\n      }\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      type\n      csvConfig\n      createdAt\n      updatedAt\n      account {\n        id\n        name\n        legalName\n        imageUrl\n        legacyId\n        slug\n        currency\n        type\n        settings\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {\n    host(slug: $accountSlug) {\n      id\n      transactionsImports(limit: $limit, offset: $offset) {\n        totalCount\n        limit\n        offset\n        nodes {\n          id\n          ...TransactionImportListFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {\n    host(slug: $accountSlug) {\n      id\n      transactionsImports(limit: $limit, offset: $offset) {\n        totalCount\n        limit\n        offset\n        nodes {\n          id\n          ...TransactionImportListFields\n        }\n      }\n    }\n  }\n  \n"];
+export function graphql(source: "\n  query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {\n    host(slug: $accountSlug) {\n      id\n      slug\n      settings\n      transactionsImports(limit: $limit, offset: $offset) {\n        totalCount\n        limit\n        offset\n        nodes {\n          id\n          ...TransactionImportListFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query HostTransactionImports($accountSlug: String!, $limit: Int, $offset: Int) {\n    host(slug: $accountSlug) {\n      id\n      slug\n      settings\n      transactionsImports(limit: $limit, offset: $offset) {\n        totalCount\n        limit\n        offset\n        nodes {\n          id\n          ...TransactionImportListFields\n        }\n      }\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -738,6 +839,26 @@ export function graphql(source: "\n  fragment TransactionsImportRowFields on Tra
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  mutation UpdateTransactionsImportRow($importId: NonEmptyString!, $rows: [TransactionsImportRowUpdateInput!]!) {\n    updateTransactionsImportRows(id: $importId, rows: $rows) {\n      id\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          id\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  mutation UpdateTransactionsImportRow($importId: NonEmptyString!, $rows: [TransactionsImportRowUpdateInput!]!) {\n    updateTransactionsImportRows(id: $importId, rows: $rows) {\n      id\n      stats {\n        total\n        ignored\n        expenses\n        orders\n        processed\n      }\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          id\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation UploadTransactionsImport(\n    $importId: NonEmptyString!\n    $csvConfig: JSONObject\n    $data: [TransactionsImportRowCreateInput!]!\n    $file: Upload\n  ) {\n    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {\n      id\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  mutation UploadTransactionsImport(\n    $importId: NonEmptyString!\n    $csvConfig: JSONObject\n    $data: [TransactionsImportRowCreateInput!]!\n    $file: Upload\n  ) {\n    importTransactions(id: $importId, csvConfig: $csvConfig, data: $data, file: $file) {\n      id\n      rows {\n        totalCount\n        offset\n        limit\n        nodes {\n          ...TransactionsImportRowFields\n        }\n      }\n    }\n  }\n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation EditTransactionsImportsSettings($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {\n    editAccountSetting(account: $account, key: $key, value: $value) {\n      id\n      settings\n    }\n  }\n"): (typeof documents)["\n  mutation EditTransactionsImportsSettings($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {\n    editAccountSetting(account: $account, key: $key, value: $value) {\n      id\n      settings\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query TransactionsImportRulesExpectedFunds($hostId: String!) {\n    account(id: $hostId) {\n      id\n      orders(\n        filter: INCOMING\n        includeIncognito: true\n        includeHostedAccounts: true\n        status: [PENDING]\n        expectedFundsFilter: ALL_EXPECTED_FUNDS\n        limit: 1000\n      ) {\n        totalCount\n        nodes {\n          id\n          legacyId\n          description\n          hostFeePercent\n          totalAmount {\n            valueInCents\n            currency\n          }\n          platformTipAmount {\n            valueInCents\n            currency\n          }\n          tax {\n            id\n          }\n          pendingContributionData {\n            expectedAt\n          }\n          fromAccount {\n            id\n            name\n          }\n          toAccount {\n            id\n            slug\n            name\n            ... on AccountWithHost {\n              bankTransfersHostFeePercent: hostFeePercent(paymentMethodType: MANUAL)\n            }\n          }\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query TransactionsImportRulesExpectedFunds($hostId: String!) {\n    account(id: $hostId) {\n      id\n      orders(\n        filter: INCOMING\n        includeIncognito: true\n        includeHostedAccounts: true\n        status: [PENDING]\n        expectedFundsFilter: ALL_EXPECTED_FUNDS\n        limit: 1000\n      ) {\n        totalCount\n        nodes {\n          id\n          legacyId\n          description\n          hostFeePercent\n          totalAmount {\n            valueInCents\n            currency\n          }\n          platformTipAmount {\n            valueInCents\n            currency\n          }\n          tax {\n            id\n          }\n          pendingContributionData {\n            expectedAt\n          }\n          fromAccount {\n            id\n            name\n          }\n          toAccount {\n            id\n            slug\n            name\n            ... on AccountWithHost {\n              bankTransfersHostFeePercent: hostFeePercent(paymentMethodType: MANUAL)\n            }\n          }\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation TransactionsImportRuleProcessOrder($order: OrderUpdateInput!) {\n    processPendingOrder(order: $order, action: MARK_AS_PAID) {\n      id\n      status\n    }\n  }\n"): (typeof documents)["\n  mutation TransactionsImportRuleProcessOrder($order: OrderUpdateInput!) {\n    processPendingOrder(order: $order, action: MARK_AS_PAID) {\n      id\n      status\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation TransactionsImportRuleCreateExpense(\n    $expense: ExpenseCreateInput!\n    $account: AccountReferenceInput!\n    $transactionsImportRow: TransactionsImportRowReferenceInput\n  ) {\n    createExpense(expense: $expense, account: $account, transactionsImportRow: $transactionsImportRow) {\n      id\n      legacyId\n    }\n  }\n"): (typeof documents)["\n  mutation TransactionsImportRuleCreateExpense(\n    $expense: ExpenseCreateInput!\n    $account: AccountReferenceInput!\n    $transactionsImportRow: TransactionsImportRowReferenceInput\n  ) {\n    createExpense(expense: $expense, account: $account, transactionsImportRow: $transactionsImportRow) {\n      id\n      legacyId\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -838,6 +959,10 @@ export function graphql(source: "\n  mutation LeaveHost($account: AccountReferen
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  query AccountInfoForLeaveHost($slug: String) {\n    account(slug: $slug, throwIfMissing: true) {\n      id\n      type\n      currency\n      name\n      stats {\n        activeRecurringContributionsBreakdown {\n          label\n          count\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query AccountInfoForLeaveHost($slug: String) {\n    account(slug: $slug, throwIfMissing: true) {\n      id\n      type\n      currency\n      name\n      stats {\n        activeRecurringContributionsBreakdown {\n          label\n          count\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ApprovalWorkflowAccountingCategories($slug: String!) {\n    host(slug: $slug) {\n      id\n      accountingCategories(kind: EXPENSE) {\n        nodes {\n          id\n          code\n          name\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query ApprovalWorkflowAccountingCategories($slug: String!) {\n    host(slug: $slug) {\n      id\n      accountingCategories(kind: EXPENSE) {\n        nodes {\n          id\n          code\n          name\n        }\n      }\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -890,6 +1015,10 @@ export function graphql(source: "\n  fragment MemberFields on Member {\n    id\n
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  query TeamSection($collectiveSlug: String!, $account: AccountReferenceInput!) {\n    account(slug: $collectiveSlug) {\n      id\n      legacyId\n      slug\n      isFrozen\n      type\n      imageUrl(height: 256)\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n          name\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          features {\n            id\n            CONTACT_FORM\n          }\n          policies {\n            id\n            COLLECTIVE_MINIMUM_ADMINS {\n              numberOfAdmins\n              applies\n              freeze\n            }\n          }\n        }\n      }\n      members(role: [ADMIN, MEMBER, ACCOUNTANT], limit: 100) {\n        nodes {\n          id\n          ...MemberFields\n        }\n      }\n      childrenAccounts {\n        nodes {\n          id\n          slug\n          type\n          name\n          members(includeInherited: false, role: [ADMIN, MEMBER, ACCOUNTANT], limit: 100) {\n            nodes {\n              id\n              ...MemberFields\n            }\n          }\n        }\n      }\n    }\n    memberInvitations(account: $account) {\n      id\n      role\n      since\n      createdAt\n      description\n      account: memberAccount {\n        id\n        name\n        slug\n        type\n        imageUrl(height: 64)\n        ... on Individual {\n          email\n        }\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query TeamSection($collectiveSlug: String!, $account: AccountReferenceInput!) {\n    account(slug: $collectiveSlug) {\n      id\n      legacyId\n      slug\n      isFrozen\n      type\n      imageUrl(height: 256)\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          type\n          name\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          name\n          features {\n            id\n            CONTACT_FORM\n          }\n          policies {\n            id\n            COLLECTIVE_MINIMUM_ADMINS {\n              numberOfAdmins\n              applies\n              freeze\n            }\n          }\n        }\n      }\n      members(role: [ADMIN, MEMBER, ACCOUNTANT], limit: 100) {\n        nodes {\n          id\n          ...MemberFields\n        }\n      }\n      childrenAccounts {\n        nodes {\n          id\n          slug\n          type\n          name\n          members(includeInherited: false, role: [ADMIN, MEMBER, ACCOUNTANT], limit: 100) {\n            nodes {\n              id\n              ...MemberFields\n            }\n          }\n        }\n      }\n    }\n    memberInvitations(account: $account) {\n      id\n      role\n      since\n      createdAt\n      description\n      account: memberAccount {\n        id\n        name\n        slug\n        type\n        imageUrl(height: 64)\n        ... on Individual {\n          email\n        }\n      }\n    }\n  }\n  \n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ExpensesWithSameReceipts($payee: AccountReferenceInput!) {\n    expenses(fromAccount: $payee, limit: 100) {\n      nodes {\n        id\n        legacyId\n        description\n        account {\n          id\n          slug\n        }\n        items {\n          id\n          incurredAt\n          amountV2 {\n            valueInCents\n            currency\n          }\n          file {\n            id\n            name\n            size\n          }\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  query ExpensesWithSameReceipts($payee: AccountReferenceInput!) {\n    expenses(fromAccount: $payee, limit: 100) {\n      nodes {\n        id\n        legacyId\n        description\n        account {\n          id\n          slug\n        }\n        items {\n          id\n          incurredAt\n          amountV2 {\n            valueInCents\n            currency\n          }\n          file {\n            id\n            name\n            size\n          }\n        }\n      }\n    }\n  }\n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -906,6 +1035,14 @@ export function graphql(source: "\n  query ValidateTransferRequirements($id: Str
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  mutation RemovePayoutMethod($id: String!) {\n    removePayoutMethod(payoutMethodId: $id) {\n      id\n      isSaved\n    }\n  }\n"): (typeof documents)["\n  mutation RemovePayoutMethod($id: String!) {\n    removePayoutMethod(payoutMethodId: $id) {\n      id\n      isSaved\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment RelatedExpenseFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdAt\n    amountV2 {\n      valueInCents\n      currency\n    }\n    account {\n      id\n      slug\n      name\n    }\n    payee {\n      id\n      slug\n      name\n    }\n    items {\n      id\n      description\n      incurredAt\n      url\n      amountV2 {\n        valueInCents\n        currency\n      }\n      file {\n        id\n        name\n        size\n      }\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n      }\n    }\n  }\n"): (typeof documents)["\n  fragment RelatedExpenseFields on Expense {\n    id\n    legacyId\n    description\n    status\n    createdAt\n    amountV2 {\n      valueInCents\n      currency\n    }\n    account {\n      id\n      slug\n      name\n    }\n    payee {\n      id\n      slug\n      name\n    }\n    items {\n      id\n      description\n      incurredAt\n      url\n      amountV2 {\n        valueInCents\n        currency\n      }\n      file {\n        id\n        name\n        size\n      }\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query RelatedExpenses(\n    $expense: ExpenseReferenceInput\n    $hasExpense: Boolean!\n    $payee: AccountReferenceInput\n    $hasPayee: Boolean!\n    $host: AccountReferenceInput\n    $hasHost: Boolean!\n    $minAmount: Int\n    $maxAmount: Int\n    $limit: Int!\n  ) {\n    expense(expense: $expense) @include(if: $hasExpense) {\n      id\n      ...RelatedExpenseFields\n    }\n    payeeExpenses: expenses(fromAccount: $payee, limit: $limit) @include(if: $hasPayee) {\n      nodes {\n        id\n        ...RelatedExpenseFields\n      }\n    }\n    hostExpenses: expenses(host: $host, minAmount: $minAmount, maxAmount: $maxAmount, limit: $limit)\n      @include(if: $hasHost) {\n      nodes {\n        id\n        ...RelatedExpenseFields\n      }\n    }\n  }\n  \n"): (typeof documents)["\n  query RelatedExpenses(\n    $expense: ExpenseReferenceInput\n    $hasExpense: Boolean!\n    $payee: AccountReferenceInput\n    $hasPayee: Boolean!\n    $host: AccountReferenceInput\n    $hasHost: Boolean!\n    $minAmount: Int\n    $maxAmount: Int\n    $limit: Int!\n  ) {\n    expense(expense: $expense) @include(if: $hasExpense) {\n      id\n      ...RelatedExpenseFields\n    }\n    payeeExpenses: expenses(fromAccount: $payee, limit: $limit) @include(if: $hasPayee) {\n      nodes {\n        id\n        ...RelatedExpenseFields\n      }\n    }\n    hostExpenses: expenses(host: $host, minAmount: $minAmount, maxAmount: $maxAmount, limit: $limit)\n      @include(if: $hasHost) {\n      nodes {\n        id\n        ...RelatedExpenseFields\n      }\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -925,15 +1062,23 @@ export function graphql(source: "\n  fragment ExpenseValuesByRoleFragment on Exp
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  fragment ExpensePageExpenseFields on Expense {\n    id\n    legacyId\n    description\n    longDescription\n    currency\n    type\n    status\n    onHold\n    privateMessage\n    reference\n    tags\n    amount\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    createdAt\n    invoiceInfo\n    merchantId\n    requiredLegalDocuments\n    receivedTaxForms: legalDocuments(type: US_TAX_FORM, status: RECEIVED) {\n      nodes {\n        id\n        type\n        documentLink\n        year\n      }\n    }\n    feesPayer\n    draft\n    items {\n      id\n      incurredAt\n      description\n      amount\n      amountV2 {\n        valueInCents\n        currency\n        exchangeRate {\n          date\n          value\n          source\n          fromCurrency\n          toCurrency\n        }\n      }\n      referenceExchangeRate {\n        value\n        fromCurrency\n        toCurrency\n      }\n      url\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n      idNumber\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    payee {\n      id\n      slug\n      name\n      legalName\n      imageUrl\n      type\n      isAdmin\n      isActive\n      description\n      ...AccountHoverCardFields\n      location {\n        id\n        address\n        country\n      }\n      payoutMethods {\n        id\n        type\n        name\n        data\n        isSaved\n      }\n\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          slug\n          # For Expenses across hosts\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    payeeLocation {\n      id\n      address\n      country\n      structured\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    host {\n      id\n      ...ExpenseHostFields\n    }\n    requestedByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    approvedBy {\n      id\n      type\n      slug\n      name\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    account {\n      id\n      legacyId\n      slug\n      name\n      type\n      imageUrl\n      backgroundImageUrl\n      isActive\n      description\n      settings\n      twitterHandle\n      currency\n      expensePolicy\n      supportedExpenseTypes\n      features {\n        id\n        ...NavbarFields\n        MULTI_CURRENCY_EXPENSES\n      }\n      location {\n        id\n        address\n        country\n      }\n\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          imageUrl\n          backgroundImageUrl\n          twitterHandle\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        hostAgreements {\n          totalCount\n        }\n        host {\n          id\n          slug\n          legacyId\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      # For Hosts with Budget capabilities\n\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      ... on Event {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ... on Project {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    virtualCard {\n      id\n      name\n      last4\n    }\n    permissions {\n      id\n      canEdit\n      canEditTags\n      canEditAccountingCategory\n      canDelete\n      canSeeInvoiceInfo\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canComment\n      canUnschedulePayment\n      canVerifyDraftExpense\n      canUsePrivateNote\n      canHold\n      canRelease\n      canDownloadTaxForm\n      canSeePayoutMethodPrivateDetails\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    activities {\n      id\n      type\n      createdAt\n      data\n      account {\n        id\n        slug\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n          }\n        }\n      }\n      individual {\n        id\n        type\n        slug\n        name\n        imageUrl\n        ...AccountHoverCardFields\n      }\n      transaction {\n        id\n        kind\n        type\n        amount {\n          valueInCents\n          currency\n        }\n        platformFee {\n          valueInCents\n          currency\n        }\n        hostFee {\n          valueInCents\n          currency\n        }\n        paymentProcessorFee {\n          valueInCents\n          currency\n        }\n        netAmount {\n          valueInCents\n          currency\n        }\n        taxAmount {\n          valueInCents\n          currency\n        }\n        taxInfo {\n          id\n          rate\n          type\n          percentage\n        }\n        fromAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        toAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        expense {\n          id\n          currency\n          amount\n          feesPayer\n        }\n        relatedTransactions(kind: PAYMENT_PROCESSOR_FEE) {\n          id\n          type\n          kind\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n    recurringExpense {\n      id\n      interval\n      endsAt\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n  }\n\n  \n  \n  \n  \n  \n"): (typeof documents)["\n  fragment ExpensePageExpenseFields on Expense {\n    id\n    legacyId\n    description\n    longDescription\n    currency\n    type\n    status\n    onHold\n    privateMessage\n    reference\n    tags\n    amount\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    createdAt\n    invoiceInfo\n    merchantId\n    requiredLegalDocuments\n    receivedTaxForms: legalDocuments(type: US_TAX_FORM, status: RECEIVED) {\n      nodes {\n        id\n        type\n        documentLink\n        year\n      }\n    }\n    feesPayer\n    draft\n    items {\n      id\n      incurredAt\n      description\n      amount\n      amountV2 {\n        valueInCents\n        currency\n        exchangeRate {\n          date\n          value\n          source\n          fromCurrency\n          toCurrency\n        }\n      }\n      referenceExchangeRate {\n        value\n        fromCurrency\n        toCurrency\n      }\n      url\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n      idNumber\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    payee {\n      id\n      slug\n      name\n      legalName\n      imageUrl\n      type\n      isAdmin\n      isActive\n      description\n      ...AccountHoverCardFields\n      location {\n        id\n        address\n        country\n      }\n      payoutMethods {\n        id\n        type\n        name\n        data\n        isSaved\n      }\n\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          slug\n          # For Expenses across hosts\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    payeeLocation {\n      id\n      address\n      country\n      structured\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    host {\n      id\n      ...ExpenseHostFields\n    }\n    requestedByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    approvedBy {\n      id\n      type\n      slug\n      name\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    account {\n      id\n      legacyId\n      slug\n      name\n      type\n      imageUrl\n      backgroundImageUrl\n      isActive\n      description\n      settings\n      twitterHandle\n      currency\n      expensePolicy\n      supportedExpenseTypes\n      features {\n        id\n        ...NavbarFields\n        MULTI_CURRENCY_EXPENSES\n      }\n      location {\n        id\n        address\n        country\n      }\n\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          imageUrl\n          backgroundImageUrl\n          twitterHandle\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        hostAgreements {\n          totalCount\n        }\n        host {\n          id\n          slug\n          legacyId\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      # For Hosts with Budget capabilities\n\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      ... on Event {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ... on Project {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    virtualCard {\n      id\n      name\n      last4\n    }\n    permissions {\n      id\n      canEdit\n      canEditTags\n      canEditAccountingCategory\n      canDelete\n      canSeeInvoiceInfo\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canComment\n      canUnschedulePayment\n      canVerifyDraftExpense\n      canUsePrivateNote\n      canHold\n      canRelease\n      canDownloadTaxForm\n      canSeePayoutMethodPrivateDetails\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    activities {\n      id\n      type\n      createdAt\n      data\n      account {\n        id\n        slug\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n          }\n        }\n      }\n      individual {\n        id\n        type\n        slug\n        name\n        imageUrl\n        ...AccountHoverCardFields\n      }\n      transaction {\n        id\n        kind\n        type\n        amount {\n          valueInCents\n          currency\n        }\n        platformFee {\n          valueInCents\n          currency\n        }\n        hostFee {\n          valueInCents\n          currency\n        }\n        paymentProcessorFee {\n          valueInCents\n          currency\n        }\n        netAmount {\n          valueInCents\n          currency\n        }\n        taxAmount {\n          valueInCents\n          currency\n        }\n        taxInfo {\n          id\n          rate\n          type\n          percentage\n        }\n        fromAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        toAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        expense {\n          id\n          currency\n          amount\n          feesPayer\n        }\n        relatedTransactions(kind: PAYMENT_PROCESSOR_FEE) {\n          id\n          type\n          kind\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n    recurringExpense {\n      id\n      interval\n      endsAt\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n  }\n\n  \n  \n  \n  \n  \n"];
+export function graphql(source: "\n  fragment ExpensePageExpenseFields on Expense {\n    id\n    legacyId\n    description\n    longDescription\n    currency\n    type\n    status\n    onHold\n    privateMessage\n    reference\n    tags\n    amount\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    createdAt\n    invoiceInfo\n    merchantId\n    requiredLegalDocuments\n    receivedTaxForms: legalDocuments(type: US_TAX_FORM, status: RECEIVED) {\n      nodes {\n        id\n        type\n        documentLink\n        year\n      }\n    }\n    feesPayer\n    draft\n    items {\n      id\n      incurredAt\n      description\n      amount\n      amountV2 {\n        valueInCents\n        currency\n        exchangeRate {\n          date\n          value\n          source\n          fromCurrency\n          toCurrency\n        }\n      }\n      referenceExchangeRate {\n        value\n        fromCurrency\n        toCurrency\n      }\n      url\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n      idNumber\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    payee {\n      id\n      slug\n      name\n      legalName\n      imageUrl\n      type\n      isAdmin\n      isActive\n      description\n      ...AccountHoverCardFields\n      location {\n        id\n        address\n        country\n      }\n      payoutMethods {\n        id\n        type\n        name\n        data\n        isSaved\n      }\n\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          slug\n          # For Expenses across hosts\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    payeeLocation {\n      id\n      address\n      country\n      structured\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      legacyId\n      ...AccountHoverCardFields\n    }\n    host {\n      id\n      ...ExpenseHostFields\n    }\n    requestedByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    approvedBy {\n      id\n      type\n      slug\n      name\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    account {\n      id\n      legacyId\n      slug\n      name\n      type\n      imageUrl\n      backgroundImageUrl\n      isActive\n      description\n      settings\n      twitterHandle\n      currency\n      expensePolicy\n      supportedExpenseTypes\n      features {\n        id\n        ...NavbarFields\n        MULTI_CURRENCY_EXPENSES\n      }\n      location {\n        id\n        address\n        country\n      }\n\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          imageUrl\n          backgroundImageUrl\n          twitterHandle\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        hostAgreements {\n          totalCount\n        }\n        host {\n          id\n          slug\n          legacyId\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      # For Hosts with Budget capabilities\n\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      ... on Event {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ... on Project {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    virtualCard {\n      id\n      name\n      last4\n    }\n    permissions {\n      id\n      canEdit\n      canEditTags\n      canEditAccountingCategory\n      canDelete\n      canSeeInvoiceInfo\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canComment\n      canUnschedulePayment\n      canVerifyDraftExpense\n      canUsePrivateNote\n      canHold\n      canRelease\n      canDownloadTaxForm\n      canSeePayoutMethodPrivateDetails\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    activities {\n      id\n      type\n      createdAt\n      data\n      account {\n        id\n        slug\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n          }\n        }\n      }\n      individual {\n        id\n        type\n        slug\n        name\n        imageUrl\n        ...AccountHoverCardFields\n      }\n      transaction {\n        id\n        kind\n        type\n        amount {\n          valueInCents\n          currency\n        }\n        platformFee {\n          valueInCents\n          currency\n        }\n        hostFee {\n          valueInCents\n          currency\n        }\n        paymentProcessorFee {\n          valueInCents\n          currency\n        }\n        netAmount {\n          valueInCents\n          currency\n        }\n        taxAmount {\n          valueInCents\n          currency\n        }\n        taxInfo {\n          id\n          rate\n          type\n          percentage\n        }\n        fromAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        toAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        expense {\n          id\n          currency\n          amount\n          feesPayer\n        }\n        relatedTransactions(kind: PAYMENT_PROCESSOR_FEE) {\n          id\n          type\n          kind\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n    recurringExpense {\n      id\n      interval\n      endsAt\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n  }\n\n  \n  \n  \n  \n  \n"): (typeof documents)["\n  fragment ExpensePageExpenseFields on Expense {\n    id\n    legacyId\n    description\n    longDescription\n    currency\n    type\n    status\n    onHold\n    privateMessage\n    reference\n    tags\n    amount\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    createdAt\n    invoiceInfo\n    merchantId\n    requiredLegalDocuments\n    receivedTaxForms: legalDocuments(type: US_TAX_FORM, status: RECEIVED) {\n      nodes {\n        id\n        type\n        documentLink\n        year\n      }\n    }\n    feesPayer\n    draft\n    items {\n      id\n      incurredAt\n      description\n      amount\n      amountV2 {\n        valueInCents\n        currency\n        exchangeRate {\n          date\n          value\n          source\n          fromCurrency\n          toCurrency\n        }\n      }\n      referenceExchangeRate {\n        value\n        fromCurrency\n        toCurrency\n      }\n      url\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n      idNumber\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        name\n        size\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    payee {\n      id\n      slug\n      name\n      legalName\n      imageUrl\n      type\n      isAdmin\n      isActive\n      description\n      ...AccountHoverCardFields\n      location {\n        id\n        address\n        country\n      }\n      payoutMethods {\n        id\n        type\n        name\n        data\n        isSaved\n      }\n\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n          slug\n          # For Expenses across hosts\n          payoutMethods {\n            id\n            type\n            name\n            data\n            isSaved\n          }\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n          slug\n        }\n      }\n    }\n    payeeLocation {\n      id\n      address\n      country\n      structured\n    }\n    createdByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      legacyId\n      ...AccountHoverCardFields\n    }\n    host {\n      id\n      ...ExpenseHostFields\n    }\n    requestedByAccount {\n      id\n      slug\n      name\n      type\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    approvedBy {\n      id\n      type\n      slug\n      name\n      imageUrl\n      ...AccountHoverCardFields\n    }\n    account {\n      id\n      legacyId\n      slug\n      name\n      type\n      imageUrl\n      backgroundImageUrl\n      isActive\n      description\n      settings\n      twitterHandle\n      currency\n      expensePolicy\n      supportedExpenseTypes\n      features {\n        id\n        ...NavbarFields\n        MULTI_CURRENCY_EXPENSES\n      }\n      location {\n        id\n        address\n        country\n      }\n\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n          imageUrl\n          backgroundImageUrl\n          twitterHandle\n        }\n      }\n\n      ... on AccountWithHost {\n        isApproved\n        hostAgreements {\n          totalCount\n        }\n        host {\n          id\n          slug\n          legacyId\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      # For Hosts with Budget capabilities\n\n      ... on Organization {\n        isHost\n        isActive\n        host {\n          id\n          ...ExpenseHostFields\n          transferwise {\n            id\n            availableCurrencies\n          }\n        }\n      }\n\n      ... on Event {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ... on Project {\n        parent {\n          id\n          slug\n          name\n          type\n          imageUrl\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    virtualCard {\n      id\n      name\n      last4\n    }\n    permissions {\n      id\n      canEdit\n      canEditTags\n      canEditAccountingCategory\n      canDelete\n      canSeeInvoiceInfo\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canComment\n      canUnschedulePayment\n      canVerifyDraftExpense\n      canUsePrivateNote\n      canHold\n      canRelease\n      canDownloadTaxForm\n      canSeePayoutMethodPrivateDetails\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    activities {\n      id\n      type\n      createdAt\n      data\n      account {\n        id\n        slug\n        ... on AccountWithHost {\n          host {\n            id\n            slug\n          }\n        }\n      }\n      individual {\n        id\n        type\n        slug\n        name\n        imageUrl\n        ...AccountHoverCardFields\n      }\n      transaction {\n        id\n        kind\n        type\n        amount {\n          valueInCents\n          currency\n        }\n        platformFee {\n          valueInCents\n          currency\n        }\n        hostFee {\n          valueInCents\n          currency\n        }\n        paymentProcessorFee {\n          valueInCents\n          currency\n        }\n        netAmount {\n          valueInCents\n          currency\n        }\n        taxAmount {\n          valueInCents\n          currency\n        }\n        taxInfo {\n          id\n          rate\n          type\n          percentage\n        }\n        fromAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        toAccount {\n          id\n          slug\n          name\n          ... on AccountWithHost {\n            hostFeePercent\n          }\n        }\n        expense {\n          id\n          currency\n          amount\n          feesPayer\n        }\n        relatedTransactions(kind: PAYMENT_PROCESSOR_FEE) {\n          id\n          type\n          kind\n          amount {\n            valueInCents\n            currency\n          }\n        }\n      }\n    }\n    recurringExpense {\n      id\n      interval\n      endsAt\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n  }\n\n  \n  \n  \n  \n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  fragment ExpensesListFieldsFragment on Expense {\n    id\n    legacyId\n    description\n    reference\n    status\n    createdAt\n    tags\n    amount\n    comments {\n      totalCount\n    }\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    currency\n    type\n    requiredLegalDocuments\n    feesPayer\n    account {\n      id\n      name\n      slug\n      createdAt\n      currency\n      type\n      imageUrl\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    permissions {\n      id\n      canDelete\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canSeeInvoiceInfo\n      canEditTags\n      canEditAccountingCategory\n      canUnschedulePayment\n      canHold\n      canRelease\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    payee {\n      id\n      type\n      slug\n      name\n      imageUrl\n      isAdmin\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    createdByAccount {\n      id\n      type\n      slug\n      name\n      ...AccountHoverCardFields\n    }\n  }\n  \n  \n  \n"): (typeof documents)["\n  fragment ExpensesListFieldsFragment on Expense {\n    id\n    legacyId\n    description\n    reference\n    status\n    createdAt\n    tags\n    amount\n    comments {\n      totalCount\n    }\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    currency\n    type\n    requiredLegalDocuments\n    feesPayer\n    account {\n      id\n      name\n      slug\n      createdAt\n      currency\n      type\n      imageUrl\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    permissions {\n      id\n      canDelete\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canSeeInvoiceInfo\n      canEditTags\n      canEditAccountingCategory\n      canUnschedulePayment\n      canHold\n      canRelease\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    payee {\n      id\n      type\n      slug\n      name\n      imageUrl\n      isAdmin\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    createdByAccount {\n      id\n      type\n      slug\n      name\n      ...AccountHoverCardFields\n    }\n  }\n  \n  \n  \n"];
+export function graphql(source: "\n  fragment ExpensesListFieldsFragment on Expense {\n    id\n    legacyId\n    description\n    reference\n    status\n    createdAt\n    tags\n    amount\n    comments {\n      totalCount\n    }\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    currency\n    type\n    requiredLegalDocuments\n    feesPayer\n    account {\n      id\n      name\n      slug\n      createdAt\n      currency\n      type\n      imageUrl\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    permissions {\n      id\n      canDelete\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canSeeInvoiceInfo\n      canEditTags\n      canEditAccountingCategory\n      canUnschedulePayment\n      canHold\n      canRelease\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    payee {\n      id\n      type\n      slug\n      name\n      imageUrl\n      isAdmin\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    createdByAccount {\n      id\n      type\n      slug\n      name\n      legacyId\n      ...AccountHoverCardFields\n    }\n  }\n  \n  \n  \n"): (typeof documents)["\n  fragment ExpensesListFieldsFragment on Expense {\n    id\n    legacyId\n    description\n    reference\n    status\n    createdAt\n    tags\n    amount\n    comments {\n      totalCount\n    }\n    accountingCategory {\n      id\n      ...AccountingCategoryFields\n    }\n    valuesByRole {\n      id\n      ...ExpenseValuesByRoleFragment\n    }\n    amountInAccountCurrency: amountV2(currencySource: ACCOUNT) {\n      valueInCents\n      currency\n      exchangeRate {\n        date\n        value\n        source\n        isApproximate\n        fromCurrency\n        toCurrency\n      }\n    }\n    currency\n    type\n    requiredLegalDocuments\n    feesPayer\n    account {\n      id\n      name\n      slug\n      createdAt\n      currency\n      type\n      imageUrl\n      stats {\n        id\n        balanceWithBlockedFunds {\n          valueInCents\n          currency\n        }\n      }\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n        }\n      }\n      ... on AccountWithParent {\n        parent {\n          id\n          slug\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    permissions {\n      id\n      canDelete\n      canApprove\n      canUnapprove\n      canReject\n      canMarkAsSpam\n      canPay\n      canMarkAsUnpaid\n      canMarkAsIncomplete\n      canSeeInvoiceInfo\n      canEditTags\n      canEditAccountingCategory\n      canUnschedulePayment\n      canHold\n      canRelease\n      approve {\n        allowed\n        reason\n        reasonDetails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n      isSaved\n    }\n    payee {\n      id\n      type\n      slug\n      name\n      imageUrl\n      isAdmin\n      # For Collectives, Funds, Events and Projects\n      ... on AccountWithHost {\n        isApproved\n        host {\n          id\n        }\n      }\n\n      # For Fiscal Hosts\n      ... on Organization {\n        host {\n          id\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    createdByAccount {\n      id\n      type\n      slug\n      name\n      legacyId\n      ...AccountHoverCardFields\n    }\n  }\n  \n  \n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
 export function graphql(source: "\n  fragment ExpensesListAdminFieldsFragment on Expense {\n    id\n    onHold\n    account {\n      id\n      ... on AccountWithHost {\n        hostAgreements {\n          totalCount\n        }\n      }\n    }\n    createdByAccount {\n      id\n      ... on Individual {\n        emails\n      }\n    }\n    payee {\n      id\n      ... on Individual {\n        emails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n    }\n    items {\n      id\n      description\n      incurredAt\n      url\n      amount\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n    lastComment: comments(limit: 1, orderBy: { field: CREATED_AT, direction: DESC }) {\n      nodes {\n        id\n        createdAt\n        fromAccount {\n          id\n          type\n          slug\n          name\n          imageUrl\n        }\n      }\n    }\n  }\n"): (typeof documents)["\n  fragment ExpensesListAdminFieldsFragment on Expense {\n    id\n    onHold\n    account {\n      id\n      ... on AccountWithHost {\n        hostAgreements {\n          totalCount\n        }\n      }\n    }\n    createdByAccount {\n      id\n      ... on Individual {\n        emails\n      }\n    }\n    payee {\n      id\n      ... on Individual {\n        emails\n      }\n    }\n    payoutMethod {\n      id\n      type\n      data\n    }\n    items {\n      id\n      description\n      incurredAt\n      url\n      amount\n      file {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    taxes {\n      id\n      type\n      rate\n    }\n    attachedFiles {\n      id\n      url\n      name\n      info {\n        id\n        ... on ImageFileInfo {\n          width\n        }\n      }\n    }\n    securityChecks {\n      level\n      message\n      scope\n      details\n    }\n    lastComment: comments(limit: 1, orderBy: { field: CREATED_AT, direction: DESC }) {\n      nodes {\n        id\n        createdAt\n        fromAccount {\n          id\n          type\n          slug\n          name\n          imageUrl\n        }\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment ApprovalWorkflowAccountFields on Account {\n    id\n    slug\n    name\n    type\n    ... on AccountWithParent {\n      parent {\n        id\n        slug\n      }\n    }\n  }\n"): (typeof documents)["\n  fragment ApprovalWorkflowAccountFields on Account {\n    id\n    slug\n    name\n    type\n    ... on AccountWithParent {\n      parent {\n        id\n        slug\n      }\n    }\n  }\n"];
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment ExpenseApprovalWorkflowFields on Expense {\n    id\n    legacyId\n    status\n    type\n    amountInHostCurrency: amountV2(currencySource: HOST) {\n      valueInCents\n      currency\n    }\n    accountingCategory {\n      id\n    }\n    account {\n      id\n      ...ApprovalWorkflowAccountFields\n    }\n    host {\n      id\n      currency\n      settings\n      ...ApprovalWorkflowAccountFields\n    }\n  }\n  \n"): (typeof documents)["\n  fragment ExpenseApprovalWorkflowFields on Expense {\n    id\n    legacyId\n    status\n    type\n    amountInHostCurrency: amountV2(currencySource: HOST) {\n      valueInCents\n      currency\n    }\n    accountingCategory {\n      id\n    }\n    account {\n      id\n      ...ApprovalWorkflowAccountFields\n    }\n    host {\n      id\n      currency\n      settings\n      ...ApprovalWorkflowAccountFields\n    }\n  }\n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -965,7 +1110,7 @@ export function graphql(source: "\n  fragment UpdatePaymentMethodFragment on Pay
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
-export function graphql(source: "\n  fragment ManagedOrderFields on Order {\n    id\n    legacyId\n    nextChargeDate\n    paymentMethod {\n      ...UpdatePaymentMethodFragment\n    }\n    amount {\n      value\n      valueInCents\n      currency\n    }\n    totalAmount {\n      value\n      valueInCents\n      currency\n    }\n    status\n    description\n    memo\n    createdAt\n    processedAt\n    hostFeePercent\n    frequency\n    tier {\n      id\n      name\n    }\n    tax {\n      id\n      type\n      rate\n      idNumber\n    }\n    permissions {\n      id\n      canResume\n      canMarkAsExpired\n      canMarkAsPaid\n      canEdit\n      canComment\n      canSeePrivateActivities\n      canSetTags\n      canUpdateAccountingCategory\n    }\n    totalDonations {\n      value\n      valueInCents\n      currency\n    }\n    fromAccount {\n      id\n      name\n      slug\n      isIncognito\n      type\n      ... on Individual {\n        isGuest\n      }\n      ...AccountHoverCardFields\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      description\n      tags\n      imageUrl\n      backgroundImageUrl(height: 256)\n      settings\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    platformTipAmount {\n      value\n      valueInCents\n    }\n    paymentProcessorFee {\n      valueInCents\n      currency\n    }\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    accountingCategory {\n      id\n      name\n      kind\n      code\n    }\n  }\n  \n  \n"): (typeof documents)["\n  fragment ManagedOrderFields on Order {\n    id\n    legacyId\n    nextChargeDate\n    paymentMethod {\n      ...UpdatePaymentMethodFragment\n    }\n    amount {\n      value\n      valueInCents\n      currency\n    }\n    totalAmount {\n      value\n      valueInCents\n      currency\n    }\n    status\n    description\n    memo\n    createdAt\n    processedAt\n    hostFeePercent\n    frequency\n    tier {\n      id\n      name\n    }\n    tax {\n      id\n      type\n      rate\n      idNumber\n    }\n    permissions {\n      id\n      canResume\n      canMarkAsExpired\n      canMarkAsPaid\n      canEdit\n      canComment\n      canSeePrivateActivities\n      canSetTags\n      canUpdateAccountingCategory\n    }\n    totalDonations {\n      value\n      valueInCents\n      currency\n    }\n    fromAccount {\n      id\n      name\n      slug\n      isIncognito\n      type\n      ... on Individual {\n        isGuest\n      }\n      ...AccountHoverCardFields\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      description\n      tags\n      imageUrl\n      backgroundImageUrl(height: 256)\n      settings\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    platformTipAmount {\n      value\n      valueInCents\n    }\n    paymentProcessorFee {\n      valueInCents\n      currency\n    }\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    accountingCategory {\n      id\n      name\n      kind\n      code\n    }\n  }\n  \n  \n"];
+export function graphql(source: "\n  fragment ManagedOrderFields on Order {\n    id\n    legacyId\n    nextChargeDate\n    paymentMethod {\n      ...UpdatePaymentMethodFragment\n    }\n    amount {\n      value\n      valueInCents\n      currency\n    }\n    totalAmount {\n      value\n      valueInCents\n      currency\n    }\n    status\n    description\n    memo\n    customData\n    createdAt\n    processedAt\n    hostFeePercent\n    frequency\n    tier {\n      id\n      name\n      customFields\n    }\n    tax {\n      id\n      type\n      rate\n      idNumber\n    }\n    permissions {\n      id\n      canResume\n      canMarkAsExpired\n      canMarkAsPaid\n      canEdit\n      canComment\n      canSeePrivateActivities\n      canSetTags\n      canUpdateAccountingCategory\n    }\n    totalDonations {\n      value\n      valueInCents\n      currency\n    }\n    fromAccount {\n      id\n      name\n      slug\n      isIncognito\n      type\n      ... on Individual {\n        isGuest\n      }\n      ...AccountHoverCardFields\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      description\n      tags\n      imageUrl\n      backgroundImageUrl(height: 256)\n      settings\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    platformTipAmount {\n      value\n      valueInCents\n    }\n    paymentProcessorFee {\n      valueInCents\n      currency\n    }\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    accountingCategory {\n      id\n      name\n      kind\n      code\n    }\n  }\n  \n  \n"): (typeof documents)["\n  fragment ManagedOrderFields on Order {\n    id\n    legacyId\n    nextChargeDate\n    paymentMethod {\n      ...UpdatePaymentMethodFragment\n    }\n    amount {\n      value\n      valueInCents\n      currency\n    }\n    totalAmount {\n      value\n      valueInCents\n      currency\n    }\n    status\n    description\n    memo\n    customData\n    createdAt\n    processedAt\n    hostFeePercent\n    frequency\n    tier {\n      id\n      name\n      customFields\n    }\n    tax {\n      id\n      type\n      rate\n      idNumber\n    }\n    permissions {\n      id\n      canResume\n      canMarkAsExpired\n      canMarkAsPaid\n      canEdit\n      canComment\n      canSeePrivateActivities\n      canSetTags\n      canUpdateAccountingCategory\n    }\n    totalDonations {\n      value\n      valueInCents\n      currency\n    }\n    fromAccount {\n      id\n      name\n      slug\n      isIncognito\n      type\n      ... on Individual {\n        isGuest\n      }\n      ...AccountHoverCardFields\n    }\n    toAccount {\n      id\n      slug\n      name\n      type\n      description\n      tags\n      imageUrl\n      backgroundImageUrl(height: 256)\n      settings\n      ... on AccountWithHost {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ... on Organization {\n        host {\n          id\n          slug\n          paypalClientId\n          supportedPaymentMethods\n        }\n      }\n      ...AccountHoverCardFields\n    }\n    platformTipAmount {\n      value\n      valueInCents\n    }\n    paymentProcessorFee {\n      valueInCents\n      currency\n    }\n    pendingContributionData {\n      expectedAt\n      paymentMethod\n      ponumber\n      memo\n      fromAccountInfo {\n        name\n        email\n      }\n    }\n    accountingCategory {\n      id\n      name\n      kind\n      code\n    }\n  }\n  \n  \n"];
 /**
  * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
  */
@@ -1,11 +1,19 @@
 import React from 'react';
-import { forEach, isEmpty, isNil, isUndefined, omit, omitBy } from 'lodash';
+import { forEach, isEmpty, isNil, isUndefined, omit, omitBy, uniq } from 'lodash';
 import { useRouter } from 'next/router';
 import { useIntl } from 'react-intl';
 import type { z } from 'zod';
 
 import { toast } from '../../components/ui/useToast';
 
+import type { FilterExpression } from '../filters/filter-expression';
+import {
+  FILTER_EXPRESSION_QUERY_KEY,
+  getFilterExpressionKeys,
+  getFilterExpressionValues,
+  parseFilterExpression,
+  serializeFilterExpression,
+} from '../filters/filter-expression';
 import type {
   FilterComponentConfigs,
   FiltersToVariables,
@@ -21,8 +29,10 @@ import {
   getQueryValueFromFilterValue,
   structureQueryValues,
 } from '../filters/filter-utils';
+import type { SavedViewsScope } from '../filters/saved-views';
+import { getDefaultSavedView } from '../filters/saved-views';
 
-export type useQueryFilterReturnType<S extends z.ZodObject<z.ZodRawShape, any, any>, GQLQueryVars> = {
+export type useQueryFilterReturnType<S extends z.AnyZodObject, GQLQueryVars> = {
   values: z.infer<S>;
   variables: Partial<GQLQueryVars>;
   resetFilters: resetFilters<z.infer<S>>;
@@ -34,9 +44,15 @@ export type useQueryFilterReturnType<S extends z.ZodObject<z.ZodRawShape, any, a
   views?: Views<z.infer<S>>;
   meta?: any;
   defaultSchemaValues: Partial<z.infer<S>>;
+  /** The dashboard section whose saved views apply to these filters, if any */
+  savedViews?: SavedViewsScope;
+  /** The expression of the advanced mode, if enabled */
+  expression: FilterExpression<z.infer<S>> | null;
+  /** Enables the advanced mode with the given expression, or goes back to the regular filters (optionally with new values) */
+  setExpression: (expression: FilterExpression<z.infer<S>> | null, filterValues?: Partial<z.infer<S>>) => void;
 };
 
-type useQueryFilterOptions<S extends z.ZodObject<z.ZodRawShape, any, any>, GQLQueryVars, FilterMeta = any> = {
+type useQueryFilterOptions<S extends z.AnyZodObject, GQLQueryVars, FilterMeta = any> = {
   schema: S; // Schema for all query filters (both those which are available to the user in Query and those which are not)
   filters: FilterComponentConfigs<z.infer<S>, FilterMeta>; // Configuration of filters available to the user in the `Filter` component (used in this hook to determine `hasFilters` and `activeViewId`)
   toVariables?: Partial<FiltersToVariables<z.infer<S>, GQLQueryVars, FilterMeta>>;
@@ -44,9 +60,10 @@ type useQueryFilterOptions<S extends z.ZodObject<z.ZodRawShape, any, any>, GQLQu
   meta?: FilterMeta;
   views?: Views<z.infer<S>>;
   skipRouter?: boolean; // Used when not updating the URL query is desired, this will instead use internal state.
+  savedViews?: SavedViewsScope; // Only for the main filters of a dashboard section: enables its saved views, and applies the default one
 };
 
-export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any, any>, GQLQueryVars, FilterMeta = any>(
+export default function useQueryFilter<S extends z.AnyZodObject, GQLQueryVars, FilterMeta = any>(
   opts: useQueryFilterOptions<S, GQLQueryVars, FilterMeta>,
 ): useQueryFilterReturnType<S, GQLQueryVars> {
   const intl = useIntl();
@@ -55,16 +72,66 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
 
   const query = opts.skipRouter ? stateQuery : router.query;
 
-  // Default values set by the page, views, or the user (eventually)
-  const defaultFilterValues = React.useMemo(
-    () => opts.defaultFilterValues || opts.views?.[0]?.filter || {},
-    [opts.defaultFilterValues, opts.views],
+  // Filters available to the user
+  const userFilterKeys = React.useMemo(
+    () => Object.keys(opts.filters).filter(key => key !== 'orderBy' && key !== 'sort'),
+    [opts.filters],
   );
+  // Filters that are replaced by the expression in the advanced mode
+  const expressionFilterKeys = React.useMemo(() => getFilterExpressionKeys(opts.filters), [opts.filters]);
+
+  // The default view saved by the admins for this dashboard section, if any
+  const defaultSavedView = opts.savedViews
+    ? getDefaultSavedView<z.infer<S>>(opts.savedViews.account, opts.savedViews.section)
+    : undefined;
+
+  // Default values set by the page, views, or the user
+  const defaultFilterValues = React.useMemo(() => {
+    const pageDefaultValues = opts.defaultFilterValues || opts.views?.[0]?.filter || {};
+    if (!defaultSavedView) {
+      return pageDefaultValues;
+    }
+
+    // The saved view replaces the page defaults for all the filters available to the user
+    return {
+      ...omit(pageDefaultValues, userFilterKeys),
+      ...defaultSavedView.filter,
+    };
+  }, [opts.defaultFilterValues, opts.views, userFilterKeys, defaultSavedView]);
   // Default values defined by the schema
-  const defaultSchemaValues = opts.schema.parse({});
+  const defaultSchemaValues = React.useMemo(() => opts.schema.parse({}), [opts.schema]);
+
+  const serializedExpression = query[FILTER_EXPRESSION_QUERY_KEY];
+  // The expression is translated into regular filter values, the ones that can't be sent to the API are ignored
+  const { expression, expressionValues } = React.useMemo(() => {
+    if (!serializedExpression || typeof serializedExpression !== 'string') {
+      return { expression: null, expressionValues: null };
+    }
+
+    try {
+      const expression = parseFilterExpression<z.infer<S>>(serializedExpression, opts.schema);
+      const { values, unsupported } = getFilterExpressionValues(expression, opts.filters, opts.meta);
+      if (unsupported.length) {
+        const filterLabels = uniq(unsupported.map(({ key }) => opts.filters[key]?.labelMsg)).map(labelMsg =>
+          labelMsg ? intl.formatMessage(labelMsg) : null,
+        );
+        throw new Error(
+          intl.formatMessage(
+            { defaultMessage: 'These filters cannot be combined this way: {filters}', id: 'ryyPxN' },
+            { filters: filterLabels.filter(Boolean).join(', ') },
+          ),
+        );
+      }
+
+      return { expression, expressionValues: values };
+    } catch (e) {
+      addFilterExpressionErrorToast(e, intl);
+      return { expression: null, expressionValues: null };
+    }
+  }, [intl, opts.schema, opts.filters, opts.meta, serializedExpression]);
 
   const values = React.useMemo(() => {
-    const structuredQuery = structureQueryValues(query);
+    const structuredQuery = structureQueryValues(omit(query, FILTER_EXPRESSION_QUERY_KEY));
 
     // Add defaultFilterValues (which are not part of the URL query)
     // and remove default value fallback "ALL" before parsing the query
@@ -77,7 +144,12 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
     );
 
     // This will validate the query values against the schema (and add the default schema values if those fields are not set))
-    const result = opts.schema.safeParse(queryWithDefaultFilterValues);
+    const result = opts.schema.safeParse(
+      expressionValues
+        ? // In the advanced mode, the filters available to the user are only set by the expression
+          { ...omit(queryWithDefaultFilterValues, expressionFilterKeys), ...expressionValues }
+        : queryWithDefaultFilterValues,
+    );
 
     if (result.success) {
       return result.data;
@@ -85,7 +157,7 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
       addFilterValidationErrorToast(result.error, intl);
     }
     return opts.schema.parse(defaultFilterValues);
-  }, [intl, opts.schema, query, defaultFilterValues]);
+  }, [intl, opts.schema, query, defaultFilterValues, expressionValues, expressionFilterKeys]);
 
   const variables = React.useMemo(() => {
     let apiVariables: Partial<GQLQueryVars> = {};
@@ -109,8 +181,8 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
     return apiVariables;
   }, [values, opts.toVariables, opts.meta]);
 
-  const resetFilters = React.useCallback(
-    (newFilters, newPath?: string) => {
+  const applyFilters = React.useCallback(
+    (newFilters, newPath?: string, newExpression: FilterExpression<z.infer<S>> | null = null) => {
       const result = opts.schema.safeParse(newFilters);
 
       if (result.success) {
@@ -127,7 +199,12 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
           }),
           filterValues,
         );
-        const destructuredQueryValues = destructureFilterValues(queryWithReplacementsForDefaults);
+        const destructuredQueryValues = newExpression
+          ? {
+              ...destructureFilterValues(omit(queryWithReplacementsForDefaults, expressionFilterKeys)),
+              [FILTER_EXPRESSION_QUERY_KEY]: serializeFilterExpression(newExpression),
+            }
+          : destructureFilterValues(queryWithReplacementsForDefaults);
 
         if (opts.skipRouter && !newPath) {
           setStateQuery(destructuredQueryValues);
@@ -150,28 +227,52 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
         addFilterValidationErrorToast(result.error, intl);
       }
     },
-    [defaultFilterValues, opts.schema, router.asPath],
+    [intl, router, opts.schema, opts.skipRouter, defaultFilterValues, defaultSchemaValues, expressionFilterKeys],
+  );
+
+  // Resetting the filters leaves the advanced mode
+  const resetFilters = React.useCallback(
+    (newFilters, newPath?: string) => applyFilters(newFilters, newPath),
+    [applyFilters],
   );
 
+  // Updating some filters (e.g. sorting or pagination) keeps the expression of the advanced mode
   const setFilter = React.useCallback(
     (filterName, filterValue, resetPagination = true) =>
-      resetFilters({ ...(resetPagination ? omit(values, 'offset') : values), [filterName]: filterValue }),
-    [values, resetFilters],
+      applyFilters(
+        { ...(resetPagination ? omit(values, 'offset') : values), [filterName]: filterValue },
+        undefined,
+        expression,
+      ),
+    [values, applyFilters, expression],
   );
 
   const setFilters = React.useCallback(
-    (newFilters, newPath) => resetFilters({ ...omit(values, 'offset'), ...newFilters }, newPath),
-    [values, resetFilters],
+    (newFilters, newPath) => applyFilters({ ...omit(values, 'offset'), ...newFilters }, newPath, expression),
+    [values, applyFilters, expression],
+  );
+
+  const setExpression = React.useCallback(
+    (newExpression: FilterExpression<z.infer<S>> | null, filterValues?: Partial<z.infer<S>>) =>
+      newExpression
+        ? applyFilters(omit(values, 'offset'), undefined, newExpression)
+        : applyFilters(filterValues ?? omit(values, [...expressionFilterKeys, 'offset'])),
+    [values, applyFilters, expressionFilterKeys],
   );
 
   const hasFilters = React.useMemo(
-    () => !isEmpty(omitBy(opts.filters, (v, key) => values[key] === defaultSchemaValues[key] || key === 'orderBy')),
-    [values, opts.filters, defaultSchemaValues],
+    () =>
+      Boolean(expression) ||
+      !isEmpty(omitBy(opts.filters, (v, key) => values[key] === defaultSchemaValues[key] || key === 'orderBy')),
+    [values, opts.filters, defaultSchemaValues, expression],
   );
 
   const activeViewId = React.useMemo(
-    () => getActiveViewId(values, { filters: opts.filters, views: opts.views, defaultSchemaValues }),
-    [values, opts.filters, opts.views],
+    () =>
+      expression
+        ? undefined
+        : getActiveViewId(values, { filters: opts.filters, views: opts.views, defaultSchemaValues }),
+    [values, opts.filters, opts.views, defaultSchemaValues, expression],
   );
 
   return {
@@ -186,6 +287,9 @@ export default function useQueryFilter<S extends z.ZodObject<z.ZodRawShape, any,
     filters: opts.filters,
     views: opts.views,
     meta: opts.meta,
+    savedViews: opts.savedViews,
+    expression,
+    setExpression,
   };
 }
 
@@ -204,3 +308,13 @@ function addFilterValidationErrorToast(error, intl) {
     });
   });
 }
+
+function addFilterExpressionErrorToast(error, intl) {
+  setImmediate(() => {
+    toast({
+      variant: 'error',
+      title: intl.formatMessage({ defaultMessage: 'Filter validation error', id: 'thZrl7' }),
+      message: error.message,
+    });
+  });
+}
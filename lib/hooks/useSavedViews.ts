@@ -0,0 +1,62 @@
+import { useMutation } from '@apollo/client';
+import { v4 as uuid } from 'uuid';
+
+import type { SavedView, SavedViewsScope, SectionSavedViews } from '../filters/saved-views';
+import { getSectionSavedViews, SAVED_VIEWS_SETTINGS_KEY } from '../filters/saved-views';
+import { API_V2_CONTEXT, gql } from '../graphql/helpers';
+
+import useLoggedInUser from './useLoggedInUser';
+
+const editSavedViewsMutation = gql`
+  mutation EditSavedViews($account: AccountReferenceInput!, $key: AccountSettingsKey!, $value: JSON!) {
+    editAccountSetting(account: $account, key: $key, value: $value) {
+      id
+      settings
+    }
+  }
+`;
+
+/**
+ * Manages the views saved for a dashboard section. Views are stored in the settings of the account,
+ * so they're shared with all its admins.
+ */
+export default function useSavedViews<FV = Record<string, unknown>>(scope: SavedViewsScope | null | undefined) {
+  const account = scope?.account;
+  const selectedSection = scope?.section;
+  const { LoggedInUser } = useLoggedInUser();
+  const [editSetting, { loading }] = useMutation(editSavedViewsMutation, { context: API_V2_CONTEXT });
+  const { views, defaultViewId } = getSectionSavedViews<FV>(account, selectedSection);
+
+  const save = (value: SectionSavedViews<FV>) =>
+    editSetting({
+      variables: {
+        account: { slug: account.slug },
+        key: `${SAVED_VIEWS_SETTINGS_KEY}.${selectedSection}`,
+        value,
+      },
+    });
+
+  return {
+    isEnabled: Boolean(account && selectedSection),
+    canEdit: Boolean(account && LoggedInUser?.isAdminOfCollective(account)),
+    loading,
+    views,
+    defaultViewId,
+    createView: async (
+      { label, filter, pinned }: Pick<SavedView<FV>, 'label' | 'filter' | 'pinned'>,
+      { isDefault = false } = {},
+    ): Promise<SavedView<FV>> => {
+      const view = { id: uuid(), label, filter, pinned, createdAt: new Date().toISOString() };
+      await save({ views: [...views, view], defaultViewId: isDefault ? view.id : defaultViewId });
+      return view;
+    },
+    updateView: (id: string, changes: Partial<Pick<SavedView<FV>, 'label' | 'filter' | 'pinned'>>) =>
+      save({ views: views.map(view => (view.id === id ? { ...view, ...changes } : view)), defaultViewId }),
+    deleteView: (id: string) =>
+      save({
+        views: views.filter(view => view.id !== id),
+        defaultViewId: defaultViewId === id ? null : defaultViewId,
+      }),
+    setDefaultView: (id: string | null) => save({ views, defaultViewId: id }),
+  };
+}
@@ -38,3 +38,25 @@ export function paginationElements(options: {
 
   return [1, 'left_elipsis', ...range(leftmostNeighboorPage, rightmostNeighboorPage + 1), 'right_elipsis', totalPages];
 }
+
+/**
+ * Loads all the nodes of a paginated collection, one page at a time. Stops when `totalCount` nodes have been loaded
+ * or when a page comes back empty, so the result can differ from `totalCount` if the collection changed meanwhile.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (params: { offset: number; limit: number }) => Promise<{ nodes: T[]; totalCount: number }>,
+  { pageSize = 100 }: { pageSize?: number } = {},
+): Promise<{ nodes: T[]; totalCount: number }> {
+  const nodes: T[] = [];
+  let totalCount = 0;
+  do {
+    const page = await fetchPage({ offset: nodes.length, limit: pageSize });
+    totalCount = page.totalCount;
+    nodes.push(...page.nodes);
+    if (page.nodes.length < pageSize) {
+      break;
+    }
+  } while (nodes.length < totalCount);
+
+  return { nodes, totalCount };
+}
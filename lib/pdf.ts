@@ -0,0 +1,127 @@
+/**
+ * A minimal PDF writer, supporting text with the standard Helvetica fonts and lines on A4 pages.
+ * Coordinates are in points, from the top-left corner of the page.
+ */
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+type PDFColor = [number, number, number];
+
+export type PDFElement =
+  | { type: 'text'; x: number; y: number; text: string; size?: number; bold?: boolean; color?: PDFColor }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; color?: PDFColor };
+
+/** Characters of the WinAnsi encoding that are not at the same position in Latin-1 */
+const WIN_ANSI_CHARACTERS: Record<string, number> = {
+  '€': 0x80,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+const normalizePDFString = (value: string): string[] =>
+  Array.from(value.normalize('NFC').replace(/[\u2000-\u200A\u202F]/g, ' '));
+
+const isWinAnsiCharacter = (char: string): boolean => Boolean(WIN_ANSI_CHARACTERS[char]) || char.charCodeAt(0) <= 255;
+
+/**
+ * Whether a text can be printed with the standard fonts, without replacing some of its characters.
+ */
+export const canPrintPDFText = (value: string): boolean => normalizePDFString(value).every(isWinAnsiCharacter);
+
+/**
+ * Standard fonts only support the WinAnsi encoding, other characters are replaced.
+ */
+const escapePDFString = (value: string): string =>
+  normalizePDFString(value)
+    .map(char => {
+      if (WIN_ANSI_CHARACTERS[char]) {
+        return String.fromCharCode(WIN_ANSI_CHARACTERS[char]);
+      } else {
+        return isWinAnsiCharacter(char) ? char : '?';
+      }
+    })
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`)
+    .replace(/[\r\n\t]/g, ' ');
+
+const renderColor = (color: PDFColor = [0, 0, 0]): string => color.map(value => value.toFixed(3)).join(' ');
+
+const renderElement = (element: PDFElement): string => {
+  if (element.type === 'text') {
+    const size = element.size || 10;
+    const y = PDF_PAGE_HEIGHT - element.y - size;
+    const font = element.bold ? 'F2' : 'F1';
+    return `BT ${renderColor(element.color)} rg /${font} ${size} Tf ${element.x} ${y} Td (${escapePDFString(element.text)}) Tj ET`;
+  } else {
+    const y1 = PDF_PAGE_HEIGHT - element.y1;
+    const y2 = PDF_PAGE_HEIGHT - element.y2;
+    return `${renderColor(element.color)} RG 0.5 w ${element.x1} ${y1} m ${element.x2} ${y2} l S`;
+  }
+};
+
+/**
+ * Splits a text in lines of at most `maxLength` characters, without breaking words.
+ */
+export const wrapPDFText = (text: string, maxLength: number): string[] => {
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + word.length + 1 > maxLength) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    return [...lines, line];
+  });
+};
+
+/**
+ * Generates a PDF file, with one list of elements per page.
+ */
+export const generatePDF = (pages: PDFElement[][], { title }: { title?: string } = {}): Uint8Array => {
+  const objects: string[] = [];
+  const addObject = (content: string): number => objects.push(content);
+
+  const catalogId = addObject('');
+  const pagesId = addObject('');
+  const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const boldFontId = addObject(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  );
+  const infoId = addObject(`<< /Producer (Open Collective)${title ? ` /Title (${escapePDFString(title)})` : ''} >>`);
+  const pageIds = pages.map(elements => {
+    const content = elements.map(renderElement).join('\n');
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Contents ${contentId} 0 R /Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> >>`,
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // All characters are single bytes (see `escapePDFString`), so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((content, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${content}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+};
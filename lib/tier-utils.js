@@ -246,8 +246,11 @@ const sortTiers = (baseTiers, orderKeys, hasCustomContribution) => {
   ];
 };
 
-export const sortTiersForCollective = (collective, baseTiers) => {
-  const orderKeys = getCollectiveContributionCardsOrder(collective);
+export const sortTiersForCollective = (
+  collective,
+  baseTiers,
+  orderKeys = getCollectiveContributionCardsOrder(collective),
+) => {
   const hasCustomContribution = !get(collective, 'settings.disableCustomContributions', false);
   return sortTiers(baseTiers, orderKeys, hasCustomContribution);
 };
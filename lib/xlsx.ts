@@ -0,0 +1,104 @@
+import type { Cell, CellValue } from 'exceljs';
+
+/**
+ * Reads and writes XLSX files with a single sheet, using ExcelJS. The library is only loaded when needed.
+ */
+
+export type XLSXCell = string | number | null | undefined | { type: 'date' | 'datetime'; value: Date };
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATETIME_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+const NUMBER_FORMAT = '#,##0.00';
+
+const setCellValue = (cell: Cell, value: XLSXCell): void => {
+  if (value === null || value === undefined || value === '') {
+    return;
+  } else if (typeof value === 'number') {
+    if (Number.isFinite(value)) {
+      cell.value = value;
+      cell.numFmt = NUMBER_FORMAT;
+    }
+  } else if (typeof value === 'object') {
+    if (!isNaN(value.value.getTime())) {
+      cell.value = value.value;
+      cell.numFmt = value.type === 'datetime' ? DATETIME_FORMAT : DATE_FORMAT;
+    }
+  } else {
+    cell.value = value;
+  }
+};
+
+/**
+ * Generates an XLSX file with a single sheet. When `hasHeader` is set, the first row is displayed in bold
+ * and stays visible when scrolling.
+ */
+export const generateXLSX = async (
+  rows: XLSXCell[][],
+  { sheetName = 'Sheet1', hasHeader = true }: { sheetName?: string; hasHeader?: boolean } = {},
+): Promise<ArrayBuffer> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName.replace(/[\\/?*[\]:]/g, '').slice(0, 31) || 'Sheet1', {
+    views: hasHeader ? [{ state: 'frozen', ySplit: 1 }] : [],
+  });
+
+  rows.forEach((row, rowIdx) => {
+    const sheetRow = sheet.getRow(rowIdx + 1);
+    row.forEach((value, colIdx) => setCellValue(sheetRow.getCell(colIdx + 1), value));
+    if (hasHeader && !rowIdx) {
+      sheetRow.font = { bold: true };
+    }
+  });
+
+  return workbook.xlsx.writeBuffer();
+};
+
+const formatDate = (date: Date): string => {
+  const isoDate = date.toISOString();
+  return isoDate.endsWith('T00:00:00.000Z') ? isoDate.slice(0, 10) : isoDate.slice(0, 19).replace('T', ' ');
+};
+
+const getCellText = (value: CellValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  } else if (value instanceof Date) {
+    return formatDate(value);
+  } else if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  } else if (typeof value !== 'object') {
+    return String(value);
+  } else if ('richText' in value) {
+    return value.richText.map(run => run.text).join('');
+  } else if ('hyperlink' in value) {
+    return getCellText(value.text);
+  } else if ('result' in value) {
+    return getCellText(value.result as CellValue);
+  } else {
+    return '';
+  }
+};
+
+/**
+ * Reads the first sheet of an XLSX file. Cells are returned as strings: numbers as they are stored, dates as
+ * `YYYY-MM-DD` (or `YYYY-MM-DD HH:mm:ss` when they have a time) and booleans as `TRUE`/`FALSE`.
+ */
+export const readXLSX = async (content: ArrayBuffer): Promise<string[][]> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(content);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error('Invalid XLSX file');
+  }
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, row => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      values[colNumber - 1] = getCellText(cell.value);
+    });
+    rows.push(Array.from(values, value => value ?? ''));
+  });
+
+  return rows;
+};
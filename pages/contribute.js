@@ -7,9 +7,10 @@ import styled from 'styled-components';
 import { getCollectivePageMetadata } from '../lib/collective';
 import { TierTypes } from '../lib/constants/tiers-types';
 import { sortEvents } from '../lib/events';
+import { getContributionCardsOrderWithExperiments } from '../lib/experiments/contribution-flow-experiments';
 import { gqlV1 } from '../lib/graphql/helpers';
 import { ssrGraphQLQuery } from '../lib/graphql/with-ssr-query';
-import { sortTiersForCollective } from '../lib/tier-utils';
+import { getCollectiveContributionCardsOrder, sortTiersForCollective } from '../lib/tier-utils';
 import { getCollectivePageRoute } from '../lib/url-helpers';
 import { getWebsiteUrl } from '../lib/utils';
 
@@ -64,6 +65,36 @@ class ContributePage extends React.Component {
     LoggedInUser: PropTypes.object,
   };
 
+  state = { experimentCardsOrder: null };
+
+  componentDidMount() {
+    this.loadCardsOrderExperiment();
+  }
+
+  componentDidUpdate(prevProps) {
+    if (
+      prevProps.LoggedInUser !== this.props.LoggedInUser ||
+      prevProps.data?.Collective !== this.props.data?.Collective
+    ) {
+      this.loadCardsOrderExperiment();
+    }
+  }
+
+  /** Collectives can experiment with the order of their tiers. Admins always see the saved order. */
+  loadCardsOrderExperiment() {
+    const { LoggedInUser, data } = this.props;
+    const collective = data?.Collective;
+    if (!collective) {
+      return;
+    }
+
+    const defaultOrder = getCollectiveContributionCardsOrder(collective);
+    const order = LoggedInUser?.isAdminOfCollective(collective)
+      ? defaultOrder
+      : getContributionCardsOrderWithExperiments(collective, defaultOrder, LoggedInUser);
+    this.setState({ experimentCardsOrder: order === defaultOrder ? null : order });
+  }
+
   getFinancialContributorsWithoutTier = memoizeOne(contributors => {
     return contributors.filter(c => c.isBacker && (c.tiersIds.length === 0 || c.tiersIds[0] === null));
   });
@@ -105,7 +136,7 @@ class ContributePage extends React.Component {
     }
   }
 
-  getWaysToContribute = memoizeOne((collective, verb) => {
+  getWaysToContribute = memoizeOne((collective, verb, cardsOrder) => {
     if (!collective) {
       return [];
     }
@@ -118,7 +149,7 @@ class ContributePage extends React.Component {
     // Financial contributions
     if ((showAll || verb === 'tiers') && canContribute) {
       // Tiers + custom contribution
-      const sortedTiers = sortTiersForCollective(collective, collective.tiers);
+      const sortedTiers = sortTiersForCollective(collective, collective.tiers, cardsOrder || undefined);
       sortedTiers.forEach(tier => {
         if (tier === 'custom') {
           waysToContribute.push({
@@ -262,7 +293,7 @@ class ContributePage extends React.Component {
 
     const collective = data.Collective;
     const collectiveName = collective?.name || slug;
-    const waysToContribute = this.getWaysToContribute(collective, verb);
+    const waysToContribute = this.getWaysToContribute(collective, verb, this.state.experimentCardsOrder);
     const { title, subtitle } = this.getTitle(verb, collectiveName);
     return (
       <div>
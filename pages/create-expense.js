@@ -428,6 +428,7 @@ class CreateExpensePage extends React.Component {
                                     items={this.state.expense.items}
                                     onConfirm={hasConfirmedOCR => this.setState({ hasConfirmedOCR })}
                                     currency={this.state.expense.currency}
+                                    payee={this.state.expense.payee}
                                   />
                                 )}
                               </div>